@@ -0,0 +1,3 @@
+-- Rolling summary of chat turns that no longer fit in the prompt window
+
+ALTER TABLE "chat_sessions" ADD COLUMN IF NOT EXISTS "contextSummary" JSONB;
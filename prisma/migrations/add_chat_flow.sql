@@ -0,0 +1,4 @@
+-- Server-owned chat flow: the phone being changed and the transitions undo walks back
+
+ALTER TABLE "chat_sessions" ADD COLUMN IF NOT EXISTS "replacingSlot" INTEGER;
+ALTER TABLE "chat_sessions" ADD COLUMN IF NOT EXISTS "flowHistory" JSONB;
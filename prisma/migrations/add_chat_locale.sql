@@ -0,0 +1,3 @@
+-- Language the user writes in (en, hi or hi-Latn), detected per message
+
+ALTER TABLE "chat_sessions" ADD COLUMN IF NOT EXISTS "locale" TEXT;
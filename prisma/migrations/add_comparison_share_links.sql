@@ -0,0 +1,16 @@
+-- Expiring share links for phone comparisons. Each share gets its own row
+-- with a snapshot of the result; "sharedBy" records the user or session
+-- that created the link so only they can revoke it.
+
+CREATE TABLE IF NOT EXISTS "comparison_share_links" (
+  "id" TEXT NOT NULL PRIMARY KEY,
+  "token" TEXT NOT NULL,
+  "comparisonId" TEXT NOT NULL REFERENCES "phone_comparisons"("id") ON DELETE CASCADE,
+  "sharedBy" TEXT NOT NULL,
+  "result" JSONB,
+  "expiresAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "comparison_share_links_token_key" ON "comparison_share_links" ("token");
+CREATE INDEX IF NOT EXISTS "idx_comparison_share_links_comparison" ON "comparison_share_links" ("comparisonId");
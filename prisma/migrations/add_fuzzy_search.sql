@@ -0,0 +1,86 @@
+-- Full-text and trigram fuzzy search for phones and brands
+-- Used by src/lib/database/fuzzySearch.ts, which falls back to basic
+-- `contains` matching when this migration has not been applied
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Lower case, split letters from digits and drop punctuation so that
+-- "iPhone15Pro" and "iphone 15 pro" compare equal
+-- Keep in sync with normalizeSearchQuery() in fuzzySearch.ts
+CREATE OR REPLACE FUNCTION search_normalize(value text) RETURNS text AS $$
+  SELECT trim(regexp_replace(
+    regexp_replace(
+      regexp_replace(lower(coalesce(value, '')), '([a-z])([0-9])', '\1 \2', 'g'),
+      '([0-9])([a-z])', '\1 \2', 'g'
+    ),
+    '[^a-z0-9]+', ' ', 'g'
+  ))
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE;
+
+-- Phone search matches brand, model, variant and processor together, which
+-- span three tables; keep them in one normalized column so the search can
+-- use an index instead of normalizing every joined row
+ALTER TABLE "phones" ADD COLUMN IF NOT EXISTS "searchText" TEXT;
+
+CREATE OR REPLACE FUNCTION phone_search_text(phone_id text, brand_id text, model text, variant text)
+RETURNS text AS $$
+  SELECT search_normalize(concat_ws(' ',
+    (SELECT "name" FROM "brands" WHERE "id" = brand_id),
+    model,
+    variant,
+    (SELECT "processor" FROM "phone_specifications" WHERE "phoneId" = phone_id)
+  ))
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION phones_search_text_trigger() RETURNS trigger AS $$
+BEGIN
+  NEW."searchText" := phone_search_text(NEW."id", NEW."brandId", NEW."model", NEW."variant");
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION brands_search_text_trigger() RETURNS trigger AS $$
+BEGIN
+  UPDATE "phones"
+  SET "searchText" = phone_search_text("id", "brandId", "model", "variant")
+  WHERE "brandId" = NEW."id";
+  RETURN NULL;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION phone_specs_search_text_trigger() RETURNS trigger AS $$
+BEGIN
+  UPDATE "phones"
+  SET "searchText" = phone_search_text("id", "brandId", "model", "variant")
+  WHERE "id" = CASE WHEN TG_OP = 'DELETE' THEN OLD."phoneId" ELSE NEW."phoneId" END;
+  RETURN NULL;
+END
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS "phones_search_text" ON "phones";
+CREATE TRIGGER "phones_search_text"
+  BEFORE INSERT OR UPDATE OF "brandId", "model", "variant" ON "phones"
+  FOR EACH ROW EXECUTE FUNCTION phones_search_text_trigger();
+
+DROP TRIGGER IF EXISTS "brands_search_text" ON "brands";
+CREATE TRIGGER "brands_search_text"
+  AFTER UPDATE OF "name" ON "brands"
+  FOR EACH ROW EXECUTE FUNCTION brands_search_text_trigger();
+
+DROP TRIGGER IF EXISTS "phone_specs_search_text" ON "phone_specifications";
+CREATE TRIGGER "phone_specs_search_text"
+  AFTER INSERT OR UPDATE OF "processor", "phoneId" OR DELETE ON "phone_specifications"
+  FOR EACH ROW EXECUTE FUNCTION phone_specs_search_text_trigger();
+
+-- Backfill existing phones
+UPDATE "phones" SET "searchText" = phone_search_text("id", "brandId", "model", "variant");
+
+-- Trigram and full-text indexes on the expressions the search filters on
+CREATE INDEX IF NOT EXISTS "idx_phones_search_text_trgm" ON "phones"
+  USING gin("searchText" gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS "idx_phones_search_text_tsv" ON "phones"
+  USING gin(to_tsvector('simple', coalesce("searchText", '')));
+CREATE INDEX IF NOT EXISTS "idx_brands_name_trgm" ON "brands"
+  USING gin(search_normalize("name") gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS "idx_brands_slug_trgm" ON "brands"
+  USING gin(search_normalize("slug") gin_trgm_ops);
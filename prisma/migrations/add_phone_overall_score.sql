@@ -0,0 +1,12 @@
+-- Stored comparison score for sorting search results by score
+-- Populated by PhoneService.refreshOverallScores()
+
+ALTER TABLE "phones" ADD COLUMN IF NOT EXISTS "overallScore" DOUBLE PRECISION;
+
+CREATE INDEX IF NOT EXISTS "idx_phones_overall_score" ON "phones" ("overallScore");
+
+-- Spec columns used by faceted search filters
+CREATE INDEX IF NOT EXISTS "idx_phone_specs_refresh_rate" ON "phone_specifications" ("refreshRate");
+CREATE INDEX IF NOT EXISTS "idx_phone_specs_ram_options" ON "phone_specifications" USING gin("ramOptions");
+CREATE INDEX IF NOT EXISTS "idx_phone_specs_storage_options" ON "phone_specifications" USING gin("storageOptions");
+CREATE INDEX IF NOT EXISTS "idx_phone_specs_network_support" ON "phone_specifications" USING gin("networkSupport");
@@ -0,0 +1,23 @@
+-- RAM/storage/colour configurations with their own prices, and price
+-- tracking per configuration
+
+CREATE TABLE IF NOT EXISTS "phone_variants" (
+  "id" TEXT NOT NULL PRIMARY KEY,
+  "phoneId" TEXT NOT NULL REFERENCES "phones" ("id") ON DELETE CASCADE,
+  "ramGb" INTEGER NOT NULL,
+  "storageGb" INTEGER NOT NULL,
+  "color" TEXT,
+  "mrp" DOUBLE PRECISION,
+  "currentPrice" DOUBLE PRECISION,
+  "isActive" BOOLEAN NOT NULL DEFAULT true,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "phone_variants_phoneId_ramGb_storageGb_color_key" ON "phone_variants" ("phoneId", "ramGb", "storageGb", "color");
+CREATE INDEX IF NOT EXISTS "idx_phone_variants_phone_price" ON "phone_variants" ("phoneId", "currentPrice");
+
+ALTER TABLE "price_snapshots" ADD COLUMN IF NOT EXISTS "variantId" TEXT REFERENCES "phone_variants" ("id") ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS "idx_price_snapshots_variant_captured" ON "price_snapshots" ("variantId", "capturedAt");
+
+ALTER TABLE "price_watches" ADD COLUMN IF NOT EXISTS "variantId" TEXT REFERENCES "phone_variants" ("id") ON DELETE CASCADE;
@@ -0,0 +1,46 @@
+-- Price-drop watches and the outbox of alerts waiting for delivery
+
+CREATE TABLE IF NOT EXISTS "price_watches" (
+  "id" TEXT NOT NULL PRIMARY KEY,
+  "userId" TEXT,
+  "sessionId" TEXT,
+  "phoneId" TEXT NOT NULL REFERENCES "phones" ("id") ON DELETE CASCADE,
+  "targetPrice" DOUBLE PRECISION,
+  "dropPercent" DOUBLE PRECISION,
+  "baselinePrice" DOUBLE PRECISION NOT NULL,
+  "channels" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  "webhookUrl" TEXT,
+  "email" TEXT,
+  "cooldownHours" INTEGER NOT NULL DEFAULT 24,
+  "isActive" BOOLEAN NOT NULL DEFAULT true,
+  "lastNotifiedAt" TIMESTAMP(3),
+  "lastNotifiedPrice" DOUBLE PRECISION,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_price_watches_phone_active" ON "price_watches" ("phoneId", "isActive");
+CREATE INDEX IF NOT EXISTS "idx_price_watches_user" ON "price_watches" ("userId", "createdAt");
+CREATE INDEX IF NOT EXISTS "idx_price_watches_session" ON "price_watches" ("sessionId", "createdAt");
+
+CREATE TABLE IF NOT EXISTS "notification_outbox" (
+  "id" TEXT NOT NULL PRIMARY KEY,
+  "watchId" TEXT NOT NULL REFERENCES "price_watches" ("id") ON DELETE CASCADE,
+  "userId" TEXT,
+  "sessionId" TEXT,
+  "channel" TEXT NOT NULL,
+  "recipient" TEXT,
+  "payload" JSONB NOT NULL,
+  "dedupKey" TEXT NOT NULL UNIQUE,
+  "status" TEXT NOT NULL DEFAULT 'pending',
+  "attempts" INTEGER NOT NULL DEFAULT 0,
+  "lastError" TEXT,
+  "availableAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "sentAt" TIMESTAMP(3),
+  "readAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS "idx_notification_outbox_status" ON "notification_outbox" ("status", "availableAt");
+CREATE INDEX IF NOT EXISTS "idx_notification_outbox_user" ON "notification_outbox" ("userId", "channel", "createdAt");
+CREATE INDEX IF NOT EXISTS "idx_notification_outbox_session" ON "notification_outbox" ("sessionId", "channel", "createdAt");
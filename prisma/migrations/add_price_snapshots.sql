@@ -0,0 +1,15 @@
+-- Retailer prices recorded on each price sync, for price history
+
+CREATE TABLE IF NOT EXISTS "price_snapshots" (
+  "id" TEXT NOT NULL PRIMARY KEY,
+  "phoneId" TEXT NOT NULL REFERENCES "phones" ("id") ON DELETE CASCADE,
+  "retailer" TEXT NOT NULL,
+  "price" DOUBLE PRECISION NOT NULL,
+  "currency" TEXT NOT NULL DEFAULT 'INR',
+  "availability" TEXT NOT NULL,
+  "url" TEXT,
+  "capturedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS "idx_price_snapshots_phone_captured" ON "price_snapshots" ("phoneId", "capturedAt");
+CREATE INDEX IF NOT EXISTS "idx_price_snapshots_phone_price" ON "price_snapshots" ("phoneId", "price");
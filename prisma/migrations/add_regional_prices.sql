@@ -0,0 +1,13 @@
+-- Per-region phone prices, for pricing outside the home region
+
+CREATE TABLE IF NOT EXISTS "phone_regional_prices" (
+  "id" TEXT NOT NULL PRIMARY KEY,
+  "phoneId" TEXT NOT NULL REFERENCES "phones" ("id") ON DELETE CASCADE,
+  "region" TEXT NOT NULL,
+  "currency" TEXT NOT NULL,
+  "mrp" DOUBLE PRECISION,
+  "currentPrice" DOUBLE PRECISION NOT NULL,
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "phone_regional_prices_phoneId_region_key" ON "phone_regional_prices" ("phoneId", "region");
@@ -0,0 +1,3 @@
+-- Retailer offers recorded with each price snapshot, for effective prices
+
+ALTER TABLE "price_snapshots" ADD COLUMN IF NOT EXISTS "offers" JSONB NOT NULL DEFAULT '[]';
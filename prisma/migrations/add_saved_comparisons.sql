@@ -0,0 +1,32 @@
+-- Saved comparisons and comparison history, owned by a user or an
+-- anonymous browser session
+
+CREATE TABLE IF NOT EXISTS "saved_comparisons" (
+  "id" TEXT NOT NULL PRIMARY KEY,
+  "userId" TEXT,
+  "sessionId" TEXT,
+  "title" TEXT NOT NULL,
+  "tags" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  "isPublic" BOOLEAN NOT NULL DEFAULT false,
+  "phoneIds" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  "result" JSONB NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_saved_comparisons_user" ON "saved_comparisons" ("userId", "createdAt");
+CREATE INDEX IF NOT EXISTS "idx_saved_comparisons_session" ON "saved_comparisons" ("sessionId", "createdAt");
+CREATE INDEX IF NOT EXISTS "idx_saved_comparisons_tags" ON "saved_comparisons" USING gin("tags");
+
+CREATE TABLE IF NOT EXISTS "comparison_history" (
+  "id" TEXT NOT NULL PRIMARY KEY,
+  "userId" TEXT,
+  "sessionId" TEXT,
+  "phoneIds" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  "phoneNames" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  "comparisonType" TEXT NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS "idx_comparison_history_user" ON "comparison_history" ("userId", "createdAt");
+CREATE INDEX IF NOT EXISTS "idx_comparison_history_session" ON "comparison_history" ("sessionId", "createdAt");
@@ -0,0 +1,185 @@
+#!/usr/bin/env tsx
+
+/**
+ * AI Evaluation CLI Tool
+ *
+ * Usage:
+ *   tsx scripts/evaluate-ai.ts run --provider openai --out reports/openai.json
+ *   tsx scripts/evaluate-ai.ts run --recording evals/openai.json --record --upstream https://api.openai.com/v1
+ *   tsx scripts/evaluate-ai.ts run --recording evals/openai.json --baseline reports/openai.json
+ *   tsx scripts/evaluate-ai.ts diff reports/before.json reports/after.json
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { program } from 'commander';
+import { AdvancedAIService } from '../src/services/ai.js';
+import {
+  EvalDiff,
+  EvalRecording,
+  EvalReport,
+  EvalTag,
+  GOLDEN_CASES,
+  RecordingStandIn,
+  createRecording,
+  diffReports,
+  evaluationRunner
+} from '../src/services/evaluation/index.js';
+
+type CliProvider = 'gemini' | 'openai' | 'claude';
+
+async function readJson<T>(path: string): Promise<T> {
+  return JSON.parse(await readFile(path, 'utf8')) as T;
+}
+
+async function writeJson(path: string, value: unknown): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, `${JSON.stringify(value, null, 2)}\n`);
+}
+
+function formatDelta(value: number | null): string {
+  if (value === null) return 'n/a';
+  return `${value >= 0 ? '+' : ''}${value}`;
+}
+
+function printReport(report: EvalReport): void {
+  const { metrics } = report;
+
+  console.log(`📊 ${report.target} on dataset ${report.datasetVersion} (${report.durationMs}ms)`);
+  console.log(`   - Cases passed: ${metrics.passed}/${metrics.cases}`);
+  console.log(`   - Extraction: precision ${metrics.extraction.precision}, recall ${metrics.extraction.recall}, F1 ${metrics.extraction.f1}`);
+  console.log(`   - Preferences: precision ${metrics.preferences.precision}, recall ${metrics.preferences.recall}, F1 ${metrics.preferences.f1}`);
+  console.log(`   - Step accuracy: ${metrics.stepAccuracy ?? 'n/a'}`);
+
+  for (const [tag, tagMetrics] of Object.entries(report.byTag)) {
+    console.log(`   - ${tag}: ${tagMetrics!.passed}/${tagMetrics!.cases} passed, extraction F1 ${tagMetrics!.extraction.f1}`);
+  }
+
+  report.cases.filter(result => !result.passed).forEach(result => {
+    console.log(`   ✗ ${result.id}${result.error ? ` (${result.error})` : ''}`);
+  });
+}
+
+function printDiff(diff: EvalDiff): void {
+  console.log(`🔍 ${diff.baseline.target} (${diff.baseline.startedAt}) → ${diff.current.target} (${diff.current.startedAt})`);
+  if (diff.datasetChanged) {
+    console.log('⚠️  The golden dataset changed between runs; deltas mix dataset and model changes');
+  }
+  console.log(`   - Extraction F1: ${formatDelta(diff.delta.extractionF1)} (precision ${formatDelta(diff.delta.extractionPrecision)}, recall ${formatDelta(diff.delta.extractionRecall)})`);
+  console.log(`   - Preferences F1: ${formatDelta(diff.delta.preferencesF1)}`);
+  console.log(`   - Step accuracy: ${formatDelta(diff.delta.stepAccuracy)}`);
+  console.log(`   - Cases passed: ${formatDelta(diff.delta.passed)}`);
+  diff.regressed.forEach(id => console.log(`   ✗ regressed: ${id}`));
+  diff.fixed.forEach(id => console.log(`   ✓ fixed: ${id}`));
+  diff.added.forEach(id => console.log(`   + new case: ${id}`));
+}
+
+// CLI configuration
+program
+  .name('evaluate-ai')
+  .description('Score AI extraction and chat quality against the golden dataset')
+  .version('1.0.0');
+
+program
+  .command('run')
+  .description('Evaluate a provider, live or through a recorded stand-in')
+  .option('--provider <provider>', 'Provider to evaluate (gemini, openai, claude)', 'openai')
+  .option('--model <model>', 'Model to evaluate; defaults to the provider default')
+  .option('--recording <file>', 'Replay provider replies from this recording instead of calling the provider')
+  .option('--record', 'Forward unrecorded requests to --upstream and save the replies to --recording')
+  .option('--upstream <url>', 'Provider API base URL to record from')
+  .option('--tag <tag>', 'Only run cases with this tag')
+  .option('--out <file>', 'Write the report to this file')
+  .option('--baseline <file>', 'Diff the report against this earlier report')
+  .action(async (options) => {
+    const provider = options.provider as CliProvider;
+    let standIn: RecordingStandIn | null = null;
+
+    try {
+      if (options.recording && provider === 'gemini') {
+        console.error('❌ Recorded runs need an OpenAI- or Claude-style API; use --provider openai or claude');
+        process.exit(1);
+      }
+      if (options.record && (!options.recording || !options.upstream)) {
+        console.error('❌ --record needs both --recording and --upstream');
+        process.exit(1);
+      }
+
+      const cases = options.tag ? GOLDEN_CASES.filter(evalCase => evalCase.tags.includes(options.tag as EvalTag)) : GOLDEN_CASES;
+      if (cases.length === 0) {
+        console.error(`❌ No golden cases are tagged "${options.tag}"`);
+        process.exit(1);
+      }
+
+      let baseUrl: string | undefined;
+      if (options.recording) {
+        const recording = options.record
+          ? await readJson<EvalRecording>(options.recording).catch(() => createRecording())
+          : await readJson<EvalRecording>(options.recording);
+
+        standIn = new RecordingStandIn(recording, options.record ? options.upstream : undefined);
+        baseUrl = await standIn.start();
+      }
+
+      const service = new AdvancedAIService({
+        provider,
+        model: options.model,
+        retryAttempts: 1,
+        ...(baseUrl
+          ? provider === 'openai'
+            ? { openaiBaseUrl: baseUrl, openaiApiKey: process.env.OPENAI_API_KEY || 'recorded' }
+            : { claudeBaseUrl: baseUrl, claudeApiKey: process.env.CLAUDE_API_KEY || 'recorded' }
+          : {}),
+      });
+      const configured = (await service.getHealthStatus()).providers.length > 0;
+      const target = configured
+        ? `${options.recording && !options.record ? 'recorded ' : ''}${provider}/${options.model || 'default'}`
+        : 'rule-based fallback';
+
+      console.log(`🔄 Evaluating ${target} on ${cases.length} golden cases...`);
+      const report = await evaluationRunner.run(service, {
+        target,
+        cases,
+        onCase: result => console.log(`   ${result.passed ? '✓' : '✗'} ${result.id}`),
+      });
+
+      printReport(report);
+
+      if (standIn && options.record) {
+        await writeJson(options.recording, standIn.getRecording());
+        console.log(`💾 Recording saved to ${options.recording}`);
+      }
+      if (standIn && standIn.misses.length > 0) {
+        console.warn(`⚠️  ${standIn.misses.length} requests had no recorded reply; re-record after prompt changes`);
+      }
+
+      if (options.out) {
+        await writeJson(options.out, report);
+        console.log(`💾 Report saved to ${options.out}`);
+      }
+
+      if (options.baseline) {
+        printDiff(diffReports(await readJson<EvalReport>(options.baseline), report));
+      }
+
+    } catch (error) {
+      console.error('❌ Evaluation failed:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    } finally {
+      await standIn?.stop();
+    }
+  });
+
+program
+  .command('diff <baseline> <current>')
+  .description('Compare two saved evaluation reports')
+  .action(async (baseline, current) => {
+    try {
+      printDiff(diffReports(await readJson<EvalReport>(baseline), await readJson<EvalReport>(current)));
+    } catch (error) {
+      console.error('❌ Diff failed:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+program.parse();
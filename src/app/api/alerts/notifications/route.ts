@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createAPIResponse, createAPIError, getRequestOwner } from '@/utils/api';
+import { withRateLimit } from '@/middleware/rateLimit';
+import { withValidation } from '@/middleware/validation';
+import { withErrorHandler } from '@/middleware/errorHandler';
+import { withCORS, withSecurityHeaders } from '@/middleware/cors';
+import { PriceAlertService } from '@/lib/services';
+import { ComparisonOwnerSchema } from '@/types/comparison';
+
+// In-app notifications query schema
+const ListNotificationsSchema = z.object({
+  unread: z.boolean().default(false),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+// Mark read schema; all unread notifications when no IDs are given
+const MarkReadSchema = z.object({
+  ids: z.array(z.string()).max(100).optional(),
+});
+
+const ownerRequiredResponse = () => NextResponse.json(
+  createAPIError('OWNER_REQUIRED', 'A user ID or session ID is required', 400),
+  { status: 400 }
+);
+
+/**
+ * GET /api/alerts/notifications - In-app price alerts for the requesting user or session
+ */
+export async function GET(request: NextRequest) {
+  return withCORS()(
+    withSecurityHeaders()(
+      withErrorHandler(
+        withRateLimit()(
+          withValidation(ListNotificationsSchema, async ({ unread, limit }) => {
+            const owner = getRequestOwner(request);
+            if (!ComparisonOwnerSchema.safeParse(owner).success) {
+              return ownerRequiredResponse();
+            }
+
+            const notifications = await new PriceAlertService().getInAppNotifications(owner, {
+              unreadOnly: unread,
+              limit,
+            });
+
+            return NextResponse.json(
+              createAPIResponse(notifications, 'Notifications retrieved successfully'),
+              { status: 200 }
+            );
+          })
+        )
+      )
+    )
+  )(request);
+}
+
+/**
+ * PATCH /api/alerts/notifications - Mark in-app price alerts as read
+ */
+export async function PATCH(request: NextRequest) {
+  return withCORS()(
+    withSecurityHeaders()(
+      withErrorHandler(
+        withRateLimit()(
+          withValidation(MarkReadSchema, async ({ ids }) => {
+            const owner = getRequestOwner(request);
+            if (!ComparisonOwnerSchema.safeParse(owner).success) {
+              return ownerRequiredResponse();
+            }
+
+            const updated = await new PriceAlertService().markNotificationsRead(owner, ids);
+
+            return NextResponse.json(
+              createAPIResponse({ updated }, 'Notifications marked as read'),
+              { status: 200 }
+            );
+          })
+        )
+      )
+    )
+  )(request);
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createAPIResponse, createAPIError, getRequestOwner } from '@/utils/api';
+import { withRateLimit } from '@/middleware/rateLimit';
+import { withValidation } from '@/middleware/validation';
+import { withErrorHandler } from '@/middleware/errorHandler';
+import { withCORS, withSecurityHeaders } from '@/middleware/cors';
+import { PriceAlertService, NotFoundError, ValidationError } from '@/lib/services';
+import { ComparisonOwnerSchema } from '@/types/comparison';
+import { CreatePriceWatchSchema } from '@/types/alerts';
+
+// List watches schema
+const ListWatchesSchema = z.object({});
+
+// Delete watch schema
+const DeleteWatchSchema = z.object({
+  watchId: z.string(),
+});
+
+const ownerRequiredResponse = () => NextResponse.json(
+  createAPIError('OWNER_REQUIRED', 'A user ID or session ID is required', 400),
+  { status: 400 }
+);
+
+/**
+ * GET /api/alerts - Get price watches for the requesting user or session
+ */
+export async function GET(request: NextRequest) {
+  return withCORS()(
+    withSecurityHeaders()(
+      withErrorHandler(
+        withRateLimit()(
+          withValidation(ListWatchesSchema, async () => {
+            const owner = getRequestOwner(request);
+            if (!ComparisonOwnerSchema.safeParse(owner).success) {
+              return ownerRequiredResponse();
+            }
+
+            const watches = await new PriceAlertService().getWatches(owner);
+
+            return NextResponse.json(
+              createAPIResponse(watches, 'Price watches retrieved successfully'),
+              { status: 200 }
+            );
+          })
+        )
+      )
+    )
+  )(request);
+}
+
+/**
+ * POST /api/alerts - Watch a phone for a target price or a percentage drop
+ */
+export async function POST(request: NextRequest) {
+  return withCORS()(
+    withSecurityHeaders()(
+      withErrorHandler(
+        withRateLimit()(
+          withValidation(CreatePriceWatchSchema, async (data) => {
+            const owner = getRequestOwner(request);
+            if (!ComparisonOwnerSchema.safeParse(owner).success) {
+              return ownerRequiredResponse();
+            }
+
+            try {
+              const watch = await new PriceAlertService().createWatch({ ...data, ...owner });
+
+              return NextResponse.json(
+                createAPIResponse(watch, 'Price watch created successfully'),
+                { status: 201 }
+              );
+            } catch (error) {
+              if (error instanceof NotFoundError && error.resource === 'PhoneVariant') {
+                return NextResponse.json(
+                  createAPIError('VARIANT_NOT_FOUND', 'Variant not found for this phone', 404),
+                  { status: 404 }
+                );
+              }
+              if (error instanceof NotFoundError) {
+                return NextResponse.json(
+                  createAPIError('PHONE_NOT_FOUND', 'Phone not found', 404),
+                  { status: 404 }
+                );
+              }
+              if (error instanceof ValidationError) {
+                return NextResponse.json(
+                  createAPIError('INVALID_WATCH', error.message, 400, { field: error.field }),
+                  { status: 400 }
+                );
+              }
+              throw error;
+            }
+          })
+        )
+      )
+    )
+  )(request);
+}
+
+/**
+ * DELETE /api/alerts - Delete a price watch and its queued alerts
+ */
+export async function DELETE(request: NextRequest) {
+  return withCORS()(
+    withSecurityHeaders()(
+      withErrorHandler(
+        withRateLimit()(
+          withValidation(DeleteWatchSchema, async ({ watchId }) => {
+            const owner = getRequestOwner(request);
+            if (!ComparisonOwnerSchema.safeParse(owner).success) {
+              return ownerRequiredResponse();
+            }
+
+            const deleted = await new PriceAlertService().deleteWatch(watchId, owner);
+            if (!deleted) {
+              return NextResponse.json(
+                createAPIError('NOT_FOUND', 'Price watch not found or access denied', 404),
+                { status: 404 }
+              );
+            }
+
+            return NextResponse.json(
+              createAPIResponse(null, 'Price watch deleted successfully'),
+              { status: 200 }
+            );
+          })
+        )
+      )
+    )
+  )(request);
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+
+vi.mock('../../../../middleware/rateLimit.js', () => ({
+  withChatRateLimit: (handler: any) => handler,
+}));
+
+vi.mock('../../../../services/testAI.js', () => ({
+  testAI: { processMessage: vi.fn() },
+}));
+
+vi.mock('../../../../services/ai.js', () => ({
+  aiService: { instance: { processUserMessageStream: vi.fn() } },
+}));
+
+vi.mock('../../../../services/chatFlow/catalog.js', () => ({
+  phoneCatalog: {
+    findBrand: vi.fn(async () => null),
+    findPhone: vi.fn(async () => null),
+  },
+}));
+
+import { POST } from '../route';
+import { testAI } from '../../../../services/testAI.js';
+import { aiService } from '../../../../services/ai.js';
+
+const context = {
+  sessionId: 'session-1',
+  conversationHistory: [],
+  currentStep: 'brand_selection',
+  selectedPhones: [],
+  createdAt: new Date('2024-01-01T10:00:00Z'),
+  updatedAt: new Date('2024-01-01T10:00:00Z'),
+};
+
+const post = (handler: (request: NextRequest) => Promise<Response>, url: string, body: unknown) => handler(
+  new NextRequest(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+);
+
+describe('/api/chat', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should answer in JSON mode', async () => {
+    vi.mocked(testAI.processMessage).mockResolvedValue({
+      message: 'Which brand do you like?',
+      suggestions: ['Apple', 'Samsung'],
+      confidence: 0.9,
+    });
+
+    const response = await post(POST, 'http://localhost/api/chat', { message: 'Help me pick a phone', context });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.success).toBe(true);
+    expect(data.data).toMatchObject({ message: 'Which brand do you like?', nextStep: 'brand_selection' });
+    expect(testAI.processMessage).toHaveBeenCalledWith('Help me pick a phone', expect.objectContaining({ sessionId: 'session-1' }));
+  });
+
+  it('should stream deltas and a done event in stream mode', async () => {
+    vi.mocked(aiService.instance.processUserMessageStream).mockImplementation(async function* () {
+      yield { type: 'delta', content: 'Which ' };
+      yield { type: 'delta', content: 'brand?' };
+      yield { type: 'done', response: { message: 'Which brand?', confidence: 0.8 } };
+    });
+
+    const response = await post(POST, 'http://localhost/api/chat', { message: 'Help me pick a phone', context, stream: true });
+    const body = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream; charset=utf-8');
+    expect(body).toContain('event: delta\ndata: {"content":"Which "}');
+    expect(body).toContain('event: delta\ndata: {"content":"brand?"}');
+    expect(body).toMatch(/event: done\ndata: \{"message":"Which brand\?"/);
+  });
+});
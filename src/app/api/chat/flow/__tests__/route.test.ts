@@ -0,0 +1,53 @@
+import { describe, it, expect, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+
+vi.mock('../../../../../middleware/rateLimit.js', () => ({
+  withChatRateLimit: (handler: any) => handler,
+}));
+
+vi.mock('../../../../../services/chatFlow/catalog.js', () => ({
+  phoneCatalog: {
+    findBrand: vi.fn(async () => null),
+    findPhone: vi.fn(async () => null),
+  },
+}));
+
+import { POST } from '../route';
+
+const context = {
+  sessionId: 'session-1',
+  conversationHistory: [],
+  currentStep: 'model_selection',
+  selectedBrand: 'Samsung',
+  selectedPhones: [],
+  createdAt: new Date('2024-01-01T10:00:00Z'),
+  updatedAt: new Date('2024-01-01T10:00:00Z'),
+};
+
+const post = (body: unknown) => POST(
+  new NextRequest('http://localhost/api/chat/flow', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+);
+
+describe('/api/chat/flow', () => {
+  it('should go back a step', async () => {
+    const response = await post({ context, action: { type: 'go_back' } });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.success).toBe(true);
+    expect(data.data.flow.state).toMatchObject({ currentStep: 'brand_selection' });
+  });
+
+  it('should report a refused action with the flow unchanged', async () => {
+    const response = await post({ context, action: { type: 'undo' } });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data.flow.rejected).toBeDefined();
+    expect(data.data.flow.state).toMatchObject({ currentStep: 'model_selection', selectedBrand: 'Samsung' });
+  });
+});
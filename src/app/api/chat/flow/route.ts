@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createAPIResponse } from '../../../../utils/api.js';
+import { withChatRateLimit } from '../../../../middleware/rateLimit.js';
+import { withValidation } from '../../../../middleware/validation.js';
+import { withErrorHandler } from '../../../../middleware/errorHandler.js';
+import { withCORS, withSecurityHeaders } from '../../../../middleware/cors.js';
+import { ChatContextRequestSchema, ChatFlowNavigationSchema } from '../../../../types/chat.js';
+import { chatFlowController, describeChatFlow } from '../../../../services/chatFlow/index.js';
+
+// Chat flow action request schema
+const ChatFlowRequestSchema = z.object({
+  context: ChatContextRequestSchema,
+  action: ChatFlowNavigationSchema,
+});
+
+/**
+ * POST /api/chat/flow - Go back, undo, start over or change a phone
+ * Answers without the AI; a refused action comes back with `flow.rejected`
+ * and the flow unchanged.
+ */
+export async function POST(request: NextRequest) {
+  return withCORS()(
+    withSecurityHeaders()(
+      withErrorHandler(
+        withChatRateLimit(
+          withValidation(ChatFlowRequestSchema, async ({ context, action }) => {
+            const outcome = await chatFlowController.handleAction(context, action);
+
+            return NextResponse.json(
+              createAPIResponse(describeChatFlow(outcome), 'Chat flow updated'),
+              { status: 200 }
+            );
+          })
+        )
+      )
+    )
+  )(request);
+}
@@ -1,19 +1,84 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { testAI } from '../../../services/testAI.js';
+import { aiService } from '../../../services/ai.js';
 import { createAPIResponse, createAPIError } from '../../../utils/api.js';
 import { withChatRateLimit } from '../../../middleware/rateLimit.js';
 import { withValidation } from '../../../middleware/validation.js';
 import { withErrorHandler } from '../../../middleware/errorHandler.js';
 import { withCORS, withSecurityHeaders } from '../../../middleware/cors.js';
-import { ChatContextSchema } from '../../../types/chat.js';
+import { AIResponse, ChatContext, ChatContextRequestSchema } from '../../../types/chat.js';
+import { chatFlowController, describeChatFlow, withChatFlow } from '../../../services/chatFlow/index.js';
+
+/**
+ * Settle the flow on the phone or brand the message named, then report the
+ * server's step instead of the AI's guess
+ */
+async function settleChatFlow(message: string, context: ChatContext, response: AIResponse): Promise<AIResponse> {
+  const outcome = await chatFlowController.handleSelection(context, message, response.extractedData?.phoneSelection);
+  return withChatFlow(response, outcome);
+}
 
 // Chat message request schema
 const ChatMessageRequestSchema = z.object({
   message: z.string().min(1, 'Message is required'),
-  context: ChatContextSchema,
+  context: ChatContextRequestSchema,
+  stream: z.boolean().optional(),
 });
 
+/**
+ * Stream the AI reply as server-sent events
+ * Emits `delta` events with partial text, then one `done` event with the
+ * full response. Closing the connection aborts generation upstream.
+ */
+function streamChatResponse(message: string, context: ChatContext): NextResponse {
+  const encoder = new TextEncoder();
+  const abortController = new AbortController();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      try {
+        const events = aiService.instance.processUserMessageStream(message, context, {
+          signal: abortController.signal,
+        });
+
+        for await (const event of events) {
+          if (event.type === 'delta') {
+            send('delta', { content: event.content });
+          } else {
+            send('done', await settleChatFlow(message, context, event.response));
+          }
+        }
+      } catch (error) {
+        if (!abortController.signal.aborted) {
+          console.error('Chat stream error:', error);
+          send('error', createAPIError('STREAM_ERROR', 'Failed to stream response', 500));
+        }
+      } finally {
+        if (!abortController.signal.aborted) {
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      abortController.abort();
+    },
+  });
+
+  return new NextResponse(body, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  });
+}
+
 /**
  * POST /api/chat - Process chat message with AI
  */
@@ -23,10 +88,23 @@ export async function POST(request: NextRequest) {
       withErrorHandler(
         withChatRateLimit(
           withValidation(ChatMessageRequestSchema, async (validatedData) => {
-            const { message, context } = validatedData;
+            const { message, context, stream } = validatedData;
+
+            // "Go back", "undo" and the like are answered by the flow alone
+            const navigation = await chatFlowController.handleNavigation(context, message);
+            if (navigation) {
+              return NextResponse.json(
+                createAPIResponse(describeChatFlow(navigation), 'Message processed successfully'),
+                { status: 200 }
+              );
+            }
+
+            if (stream) {
+              return streamChatResponse(message, context);
+            }
             
             // Process message with AI service
-            const aiResponse = await testAI.processMessage(message, context);
+            const aiResponse = await settleChatFlow(message, context, await testAI.processMessage(message, context));
             
             return NextResponse.json(
               createAPIResponse(aiResponse, 'Message processed successfully'),
@@ -35,6 +113,6 @@ export async function POST(request: NextRequest) {
           })
         )
       )
-    )(request)
+    )
   )(request);
 }
\ No newline at end of file
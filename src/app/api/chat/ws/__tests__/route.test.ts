@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+
+vi.mock('../../../../../services/chatSession.js', () => ({
+  chatSessionStore: {
+    load: vi.fn(),
+    create: vi.fn(),
+    append: vi.fn(),
+  },
+}));
+
+vi.mock('../../../../../services/ai.js', () => ({
+  aiService: { instance: { processUserMessageStream: vi.fn() } },
+}));
+
+vi.mock('../../../../../services/chatFlow/catalog.js', () => ({
+  phoneCatalog: {
+    findBrand: vi.fn(async () => null),
+    findPhone: vi.fn(async () => null),
+  },
+}));
+
+import { GET } from '../route';
+import { chatSessionStore } from '../../../../../services/chatSession.js';
+
+const context = {
+  sessionId: 'session-1',
+  userId: 'user-1',
+  conversationHistory: [],
+  currentStep: 'brand_selection',
+  selectedPhones: [],
+  createdAt: new Date('2024-01-01T10:00:00Z'),
+  updatedAt: new Date('2024-01-01T10:00:00Z'),
+};
+
+const connect = (query: string, headers: Record<string, string> = {}) => GET(
+  new NextRequest(`http://localhost/api/chat/ws?${query}`, {
+    headers: { upgrade: 'websocket', ...headers },
+  })
+);
+
+describe('/api/chat/ws', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should refuse to resume another user\'s session', async () => {
+    vi.mocked(chatSessionStore.load).mockResolvedValue(context as any);
+
+    const response = await connect('sessionId=session-1', { 'X-User-ID': 'user-2' });
+
+    expect(response.status).toBe(403);
+    expect(chatSessionStore.load).toHaveBeenCalledWith('session-1');
+    expect(chatSessionStore.create).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to resume a user\'s session anonymously', async () => {
+    vi.mocked(chatSessionStore.load).mockResolvedValue(context as any);
+
+    const response = await connect('sessionId=session-1');
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should refuse an anonymous session to a caller holding another session ID', async () => {
+    vi.mocked(chatSessionStore.load).mockResolvedValue({ ...context, userId: undefined } as any);
+
+    const response = await connect('sessionId=session-1', { 'X-Session-ID': 'session-2' });
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should let the owner past the ownership check', async () => {
+    vi.mocked(chatSessionStore.load).mockResolvedValue(context as any);
+
+    const response = await connect('sessionId=session-1', { 'X-User-ID': 'user-1' });
+
+    // The upgrade itself is not available outside a WebSocket-capable server
+    expect(response.status).not.toBe(403);
+  });
+});
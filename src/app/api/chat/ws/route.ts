@@ -1,15 +1,26 @@
 import { NextRequest } from 'next/server';
 import { WebSocketServer } from 'ws';
 import { aiService } from '../../../../services/ai.js';
-import { ChatContext, ChatMessage, ChatStep } from '../../../../types/chat.js';
+import { chatSessionStore } from '../../../../services/chatSession.js';
+import { getRequestOwner } from '../../../../utils/api.js';
+import { AIResponse, ChatContext, ChatFlowNavigationSchema, ChatMessage, ChatStep } from '../../../../types/chat.js';
+import {
+  ChatFlowOutcome,
+  chatFlowController,
+  describeChatFlow,
+  withChatFlow
+} from '../../../../services/chatFlow/index.js';
+import { ComparisonOwner } from '../../../../types/comparison.js';
 import { v4 as uuidv4 } from 'uuid';
 
-// WebSocket connection management
+// Sockets and in-flight streams are per instance; session state lives in the database
 const connections = new Map<string, any>();
-const chatSessions = new Map<string, ChatContext>();
+const activeStreams = new Map<string, AbortController>();
 
 /**
  * WebSocket upgrade handler for real-time chat
+ * Pass `?sessionId=` to resume a persisted session with its history; sessions
+ * started by a signed-in user can only be resumed by that user.
  */
 export async function GET(request: NextRequest) {
   // Check if this is a WebSocket upgrade request
@@ -20,6 +31,18 @@ export async function GET(request: NextRequest) {
   }
 
   try {
+    // Resume an existing session when the client reconnects with its ID
+    const owner = getRequestOwner(request);
+    const requestedSessionId = request.nextUrl.searchParams.get('sessionId');
+    const resumedContext = requestedSessionId
+      ? await chatSessionStore.load(requestedSessionId)
+      : null;
+    
+    // Only the session's user, or for anonymous sessions its holder, may take it over
+    if (resumedContext && !isSessionOwner(resumedContext, owner)) {
+      return new Response('Chat session not found or access denied', { status: 403 });
+    }
+    
     // Create WebSocket server
     const wss = new WebSocketServer({ noServer: true });
     
@@ -29,40 +52,44 @@ export async function GET(request: NextRequest) {
     if (!socket) {
       return new Response('WebSocket upgrade failed', { status: 500 });
     }
-
-    // Generate session ID
-    const sessionId = uuidv4();
     
-    // Initialize chat context
-    const chatContext: ChatContext = {
-      sessionId,
-      userId: undefined,
-      conversationHistory: [],
-      currentStep: 'brand_selection',
-      selectedBrand: undefined,
-      selectedPhones: [],
-      preferences: undefined,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
+    const chatContext = resumedContext || await chatSessionStore.create(uuidv4(), owner.userId);
+    const { sessionId } = chatContext;
     
-    // Store session
-    chatSessions.set(sessionId, chatContext);
+    // A reconnect replaces any stale socket for the same session
+    connections.get(sessionId)?.close();
     connections.set(sessionId, socket);
     
-    // Send welcome message
-    const welcomeMessage = {
-      type: 'message',
-      data: {
+    if (resumedContext) {
+      socket.send(JSON.stringify({
+        type: 'session_resumed',
+        data: {
+          sessionId,
+          currentStep: resumedContext.currentStep,
+          selectedBrand: resumedContext.selectedBrand,
+          selectedPhones: resumedContext.selectedPhones,
+          replacingSlot: resumedContext.replacingSlot,
+          flowHistory: resumedContext.flowHistory,
+          preferences: resumedContext.preferences,
+          messages: resumedContext.conversationHistory,
+        },
+      }));
+    } else {
+      // Send welcome message
+      const welcomeMessage: ChatMessage = {
         id: uuidv4(),
         role: 'assistant',
         content: 'Hello! I\'m here to help you compare phones. Which brand are you interested in?',
         timestamp: new Date(),
-        sessionId,
-      },
-    };
-    
-    socket.send(JSON.stringify(welcomeMessage));
+      };
+      
+      await chatSessionStore.append(sessionId, [welcomeMessage]);
+      
+      socket.send(JSON.stringify({
+        type: 'message',
+        data: { ...welcomeMessage, sessionId },
+      }));
+    }
     
     // Handle incoming messages
     socket.on('message', async (data: Buffer) => {
@@ -83,16 +110,20 @@ export async function GET(request: NextRequest) {
     
     // Handle connection close
     socket.on('close', () => {
-      connections.delete(sessionId);
-      chatSessions.delete(sessionId);
+      activeStreams.get(sessionId)?.abort();
+      if (connections.get(sessionId) === socket) {
+        connections.delete(sessionId);
+      }
       console.log(`WebSocket connection closed: ${sessionId}`);
     });
     
     // Handle errors
     socket.on('error', (error: Error) => {
       console.error('WebSocket error:', error);
-      connections.delete(sessionId);
-      chatSessions.delete(sessionId);
+      activeStreams.get(sessionId)?.abort();
+      if (connections.get(sessionId) === socket) {
+        connections.delete(sessionId);
+      }
     });
     
     console.log(`WebSocket connection established: ${sessionId}`);
@@ -104,6 +135,17 @@ export async function GET(request: NextRequest) {
   }
 }
 
+/**
+ * Whether the caller owns a persisted session
+ * Sessions started by a signed-in user need that user; anonymous ones need
+ * their session ID.
+ */
+function isSessionOwner(context: ChatContext, owner: ComparisonOwner): boolean {
+  return context.userId
+    ? owner.userId === context.userId
+    : owner.sessionId === context.sessionId;
+}
+
 /**
  * Handle incoming WebSocket messages
  */
@@ -112,7 +154,7 @@ async function handleWebSocketMessage(
   message: any,
   socket: any
 ) {
-  const chatContext = chatSessions.get(sessionId);
+  const chatContext = await chatSessionStore.load(sessionId);
   
   if (!chatContext) {
     socket.send(JSON.stringify({
@@ -131,6 +173,15 @@ async function handleWebSocketMessage(
         await handleChatMessage(sessionId, message.data, socket, chatContext);
         break;
         
+      case 'flow_action':
+        await handleFlowAction(sessionId, message.data, socket, chatContext);
+        break;
+        
+      case 'cancel':
+        // Stop the reply currently being streamed
+        activeStreams.get(sessionId)?.abort();
+        break;
+        
       case 'typing_start':
         // Broadcast typing indicator to other clients (if needed)
         break;
@@ -186,40 +237,78 @@ async function handleChatMessage(
     return;
   }
   
+  // A new message supersedes any reply still streaming
+  activeStreams.get(sessionId)?.abort();
+  
+  // "Go back", "undo" and the like are answered by the flow alone
+  const navigation = await chatFlowController.handleNavigation(chatContext, content);
+  if (navigation) {
+    await sendFlowReply(sessionId, socket, chatContext, navigation, content);
+    return;
+  }
+  
   // Send typing indicator
   socket.send(JSON.stringify({
     type: 'typing_start',
     data: { role: 'assistant' },
   }));
   
+  const abortController = new AbortController();
+  activeStreams.set(sessionId, abortController);
+  
+  const responseId = uuidv4();
+  
   try {
-    // Process message with AI service
-    const aiResponse = await aiService.instance.processUserMessage(content, chatContext);
+    // Stream the reply, forwarding each chunk as a delta frame
+    const events = aiService.instance.processUserMessageStream(content, chatContext, {
+      signal: abortController.signal,
+    });
     
-    // Update chat context
-    const updatedContext = {
-      ...chatContext,
-      conversationHistory: [
-        ...chatContext.conversationHistory,
-        {
-          id: uuidv4(),
-          role: 'user' as const,
-          content,
-          timestamp: new Date(),
-        },
-        {
-          id: uuidv4(),
-          role: 'assistant' as const,
-          content: aiResponse.message,
-          timestamp: new Date(),
-        },
-      ],
-      currentStep: aiResponse.nextStep || chatContext.currentStep,
-      updatedAt: new Date(),
-    };
+    let aiResponse: AIResponse | undefined;
+    
+    for await (const event of events) {
+      if (event.type === 'delta') {
+        socket.send(JSON.stringify({
+          type: 'delta',
+          data: { id: responseId, content: event.content, sessionId },
+        }));
+      } else {
+        aiResponse = event.response;
+      }
+    }
     
-    // Update stored context
-    chatSessions.set(sessionId, updatedContext);
+    if (!aiResponse) {
+      throw new Error('Stream ended without a response');
+    }
+    
+    // The flow, not the AI, decides the step
+    const outcome = await chatFlowController.handleSelection(
+      chatContext,
+      content,
+      aiResponse.extractedData?.phoneSelection
+    );
+    aiResponse = withChatFlow(aiResponse, outcome);
+    
+    // Persist the exchange so any instance can resume the session
+    await chatSessionStore.append(sessionId, [
+      {
+        id: uuidv4(),
+        role: 'user',
+        content,
+        timestamp: new Date(),
+      },
+      {
+        id: responseId,
+        role: 'assistant',
+        content: aiResponse.message,
+        timestamp: new Date(),
+        metadata: aiResponse.extractedData,
+      },
+    ], {
+      flow: outcome,
+      summary: aiResponse.summary,
+      locale: aiResponse.locale,
+    });
     
     // Stop typing indicator
     socket.send(JSON.stringify({
@@ -231,7 +320,7 @@ async function handleChatMessage(
     socket.send(JSON.stringify({
       type: 'message',
       data: {
-        id: uuidv4(),
+        id: responseId,
         role: 'assistant',
         content: aiResponse.message,
         timestamp: new Date(),
@@ -242,16 +331,9 @@ async function handleChatMessage(
       },
     }));
     
-    // Send context update if step changed
-    if (aiResponse.nextStep && aiResponse.nextStep !== chatContext.currentStep) {
-      socket.send(JSON.stringify({
-        type: 'context_update',
-        data: {
-          currentStep: aiResponse.nextStep,
-          selectedBrand: updatedContext.selectedBrand,
-          selectedPhones: updatedContext.selectedPhones,
-        },
-      }));
+    // Send context update if the flow moved or refused a selection
+    if (outcome.transition || outcome.rejected) {
+      sendContextUpdate(socket, outcome);
     }
     
   } catch (error) {
@@ -267,14 +349,94 @@ async function handleChatMessage(
     socket.send(JSON.stringify({
       type: 'message',
       data: {
-        id: uuidv4(),
+        id: responseId,
         role: 'assistant',
         content: 'I\'m sorry, I\'m having trouble processing your request right now. Please try again.',
         timestamp: new Date(),
         sessionId,
       },
     }));
+  } finally {
+    if (activeStreams.get(sessionId) === abortController) {
+      activeStreams.delete(sessionId);
+    }
+  }
+}
+
+/**
+ * Handle go back, undo, start over and change phone sent from the UI
+ */
+async function handleFlowAction(
+  sessionId: string,
+  actionData: any,
+  socket: any,
+  chatContext: ChatContext
+) {
+  const parsed = ChatFlowNavigationSchema.safeParse(actionData?.action);
+  
+  if (!parsed.success) {
+    socket.send(JSON.stringify({
+      type: 'error',
+      data: {
+        code: 'INVALID_FLOW_ACTION',
+        message: 'Unknown chat flow action',
+      },
+    }));
+    return;
   }
+  
+  activeStreams.get(sessionId)?.abort();
+  
+  const outcome = await chatFlowController.handleAction(chatContext, parsed.data);
+  await sendFlowReply(sessionId, socket, chatContext, outcome);
+}
+
+/**
+ * Persist and send the reply to a navigation, with the new flow
+ */
+async function sendFlowReply(
+  sessionId: string,
+  socket: any,
+  chatContext: ChatContext,
+  outcome: ChatFlowOutcome,
+  userContent?: string
+) {
+  const reply = describeChatFlow(outcome);
+  const replyMessage: ChatMessage = {
+    id: uuidv4(),
+    role: 'assistant',
+    content: reply.message,
+    timestamp: new Date(),
+  };
+  
+  const messages: ChatMessage[] = userContent
+    ? [{ id: uuidv4(), role: 'user', content: userContent, timestamp: new Date() }, replyMessage]
+    : [replyMessage];
+  
+  await chatSessionStore.append(sessionId, messages, { flow: outcome });
+  
+  socket.send(JSON.stringify({
+    type: 'message',
+    data: { ...replyMessage, sessionId, nextStep: reply.nextStep },
+  }));
+  sendContextUpdate(socket, outcome);
+}
+
+/**
+ * Send the flow state so the client can mirror it and offer undo
+ */
+function sendContextUpdate(socket: any, outcome: ChatFlowOutcome) {
+  socket.send(JSON.stringify({
+    type: 'context_update',
+    data: {
+      currentStep: outcome.state.currentStep,
+      selectedBrand: outcome.state.selectedBrand,
+      selectedPhones: outcome.state.selectedPhones,
+      replacingSlot: outcome.state.replacingSlot,
+      flowHistory: outcome.history,
+      rejected: outcome.rejected,
+    },
+  }));
 }
 
 /**
@@ -305,7 +467,6 @@ function broadcastMessage(message: any, excludeSessionId?: string) {
         console.error('Broadcast error:', error);
         // Remove dead connection
         connections.delete(sessionId);
-        chatSessions.delete(sessionId);
       }
     }
   });
@@ -319,29 +480,33 @@ export function getActiveConnectionCount(): number {
 }
 
 /**
- * Get active chat sessions
+ * Get chat sessions connected to this instance
  */
-export function getActiveChatSessions(): ChatContext[] {
-  return Array.from(chatSessions.values());
+export async function getActiveChatSessions(): Promise<ChatContext[]> {
+  const contexts = await Promise.all(
+    Array.from(connections.keys()).map(sessionId => chatSessionStore.load(sessionId))
+  );
+  
+  return contexts.filter((context): context is ChatContext => context !== null);
 }
 
 /**
  * Clean up expired sessions
  */
-export function cleanupExpiredSessions() {
-  const now = new Date();
-  const maxAge = 24 * 60 * 60 * 1000; // 24 hours
-  
-  chatSessions.forEach((context, sessionId) => {
-    if (now.getTime() - context.updatedAt.getTime() > maxAge) {
-      chatSessions.delete(sessionId);
-      const connection = connections.get(sessionId);
-      if (connection) {
+export async function cleanupExpiredSessions() {
+  try {
+    // Deactivate sessions idle for more than a day
+    await chatSessionStore.deactivateIdle(1);
+    
+    for (const [sessionId, connection] of connections) {
+      if (!await chatSessionStore.load(sessionId)) {
         connection.close();
         connections.delete(sessionId);
       }
     }
-  });
+  } catch (error) {
+    console.error('Session cleanup error:', error);
+  }
 }
 
 // Clean up expired sessions every hour
@@ -0,0 +1,51 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+
+vi.mock('../../../../services/phone.js', () => ({
+  phoneService: { getPhoneById: vi.fn(async () => null) },
+}));
+
+vi.mock('../../../../middleware/rateLimit.js', () => ({
+  withComparisonRateLimit: (handler: any) => handler,
+}));
+
+import { POST } from '../route';
+import { phoneService } from '../../../../services/phone.js';
+
+const post = (body: unknown) => POST(
+  new NextRequest('http://localhost/api/comparison', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+);
+
+describe('/api/comparison request validation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it.each([
+    ['phoneIds', { phoneIds: ['phone-1', 'phone-1'] }],
+    ['phone1Id and phone2Id', { phone1Id: 'phone-1', phone2Id: 'phone-1' }],
+  ])('should reject a phone compared with itself via %s', async (_, body) => {
+    const response = await post(body);
+    const text = await response.text();
+
+    expect(response.status).toBe(400);
+    expect(text).toContain('Cannot compare a phone with itself');
+    expect(phoneService.getPhoneById).not.toHaveBeenCalled();
+  });
+
+  it('should allow one phone in two variants as a pair', async () => {
+    const response = await post({
+      phone1Id: 'phone-1',
+      phone2Id: 'phone-1',
+      preferences: { variantIds: ['variant-128', 'variant-256'] },
+    });
+
+    // Validation passes; the stubbed catalog then has no such phone
+    expect(response.status).toBe(404);
+    expect(phoneService.getPhoneById).toHaveBeenCalledWith('phone-1');
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST as saveComparison } from '../saved/route';
+import { POST as shareComparison } from '../share/route';
+import { POST as exportComparison } from '../export/route';
+import { comparisonManager } from '@/services/comparisonManager';
+import { ValidationError } from '@/middleware/errorHandler';
+
+vi.mock('@/services/comparisonManager', () => ({
+  comparisonManager: {
+    compare: vi.fn(),
+    saveComparison: vi.fn(),
+    createShareLink: vi.fn(),
+    generateShareUrl: vi.fn(),
+  },
+}));
+
+vi.mock('@/middleware/rateLimit', () => ({
+  withRateLimit: () => (handler: any) => handler,
+  withComparisonRateLimit: (handler: any) => handler,
+}));
+
+const post = (handler: (request: NextRequest) => Promise<Response>, path: string, body: unknown) => handler(
+  new NextRequest(`http://localhost/api/comparison/${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-Session-ID': 'session-1' },
+    body: JSON.stringify(body),
+  })
+);
+
+// Routes that compare phones on the fly before acting on the result
+const routes = [
+  { name: 'saved', handler: saveComparison, body: { phoneIds: ['phone-1', 'phone-2'], title: 'Flagships' } },
+  { name: 'share', handler: shareComparison, body: { phoneIds: ['phone-1', 'phone-2'] } },
+  { name: 'export', handler: exportComparison, body: { format: 'csv', phoneIds: ['phone-1', 'phone-2'] } },
+];
+
+describe('comparison routes when compare() fails', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it.each(routes)('should answer 400 for bad input on $name', async ({ handler, name, body }) => {
+    vi.mocked(comparisonManager.compare).mockRejectedValue(new ValidationError('Phone not found: phone-2'));
+
+    const response = await post(handler, name, body);
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toMatchObject({ code: 'COMPARISON_ERROR', message: 'Phone not found: phone-2' });
+  });
+
+  it.each(routes)('should hide internal failures on $name', async ({ handler, name, body }) => {
+    vi.mocked(comparisonManager.compare).mockRejectedValue(new Error('connect ECONNREFUSED 10.0.0.3:5432'));
+
+    const response = await post(handler, name, body);
+    const text = await response.text();
+
+    expect(response.status).toBeGreaterThanOrEqual(500);
+    expect(text).not.toContain('ECONNREFUSED');
+  });
+});
@@ -7,6 +7,7 @@ import { comparisonManager } from '@/services/comparisonManager';
 vi.mock('@/services/comparisonManager', () => ({
   comparisonManager: {
     startNewComparison: vi.fn(),
+    compare: vi.fn(),
     saveComparison: vi.fn(),
     modifyComparison: vi.fn(),
   },
@@ -57,7 +58,7 @@ describe('/api/comparison/manage', () => {
       expect(response.status).toBe(200);
       expect(data.success).toBe(true);
       expect(data.data).toEqual(mockComparison);
-      expect(comparisonManager.startNewComparison).toHaveBeenCalledWith(['phone1', 'phone2']);
+      expect(comparisonManager.startNewComparison).toHaveBeenCalledWith(['phone1', 'phone2'], undefined, { userId: 'user123' });
     });
 
     it('should start comparison with multiple phones', async () => {
@@ -81,7 +82,7 @@ describe('/api/comparison/manage', () => {
 
       expect(response.status).toBe(200);
       expect(data.success).toBe(true);
-      expect(comparisonManager.startNewComparison).toHaveBeenCalledWith(['phone1', 'phone2', 'phone3']);
+      expect(comparisonManager.startNewComparison).toHaveBeenCalledWith(['phone1', 'phone2', 'phone3'], undefined, {});
     });
 
     it('should handle comparison errors', async () => {
@@ -114,12 +115,14 @@ describe('/api/comparison/manage', () => {
         createdAt: new Date(),
       };
 
+      const mockComparison = { id: 'comparison-1', phones: [{ id: 'phone1' }, { id: 'phone2' }] };
+      (comparisonManager.compare as any).mockResolvedValue(mockComparison);
       (comparisonManager.saveComparison as any).mockResolvedValue(mockSavedComparison);
 
       const request = new NextRequest('http://localhost/api/comparison/manage', {
         method: 'PUT',
         body: JSON.stringify({
-          comparisonId: 'comparison-1',
+          phoneIds: ['phone1', 'phone2'],
           title: 'My Comparison',
           userId: 'user123',
         }),
@@ -131,6 +134,11 @@ describe('/api/comparison/manage', () => {
       expect(response.status).toBe(200);
       expect(data.success).toBe(true);
       expect(data.data).toEqual(mockSavedComparison);
+      expect(comparisonManager.saveComparison).toHaveBeenCalledWith(
+        mockComparison,
+        { userId: 'user123' },
+        { title: 'My Comparison' }
+      );
     });
 
     it('should modify comparison phone selection', async () => {
@@ -161,6 +169,7 @@ describe('/api/comparison/manage', () => {
     });
 
     it('should handle save errors', async () => {
+      (comparisonManager.compare as any).mockResolvedValue({ id: 'comparison-1', phones: [] });
       (comparisonManager.saveComparison as any).mockRejectedValue(
         new Error('Failed to save comparison')
       );
@@ -168,7 +177,7 @@ describe('/api/comparison/manage', () => {
       const request = new NextRequest('http://localhost/api/comparison/manage', {
         method: 'PUT',
         body: JSON.stringify({
-          comparisonId: 'comparison-1',
+          phoneIds: ['phone1', 'phone2'],
           title: 'My Comparison',
         }),
       });
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createAPIError, getRequestOwner } from '@/utils/api';
+import { withComparisonRateLimit } from '@/middleware/rateLimit';
+import { withValidation } from '@/middleware/validation';
+import { NotFoundError, ValidationError, withErrorHandler } from '@/middleware/errorHandler';
+import { withCORS, withSecurityHeaders } from '@/middleware/cors';
+import { comparisonManager } from '@/services/comparisonManager';
+import { exportComparison } from '@/services/comparisonExport';
+import {
+  ComparisonExportFormatSchema,
+  ComparisonOwnerSchema,
+  ComparisonPreferencesSchema,
+} from '@/types/comparison';
+
+// Export schema: a saved comparison, or phones to compare
+const ExportComparisonSchema = z.object({
+  format: ComparisonExportFormatSchema,
+  comparisonId: z.string().min(1).optional(),
+  phoneIds: z.array(z.string().min(1)).min(2).max(5).optional(),
+  preferences: ComparisonPreferencesSchema.optional(),
+}).refine(
+  data => Boolean(data.comparisonId) !== Boolean(data.phoneIds),
+  { message: 'Provide either comparisonId or phoneIds', path: ['comparisonId'] }
+);
+
+/**
+ * POST /api/comparison/export - Download a comparison as PDF, CSV or Markdown
+ * Saved comparisons are exported as saved; phone IDs are compared first.
+ */
+export async function POST(request: NextRequest) {
+  return withCORS()(
+    withSecurityHeaders()(
+      withErrorHandler(
+        withComparisonRateLimit(
+          withValidation(ExportComparisonSchema, async ({ format, comparisonId, phoneIds, preferences }) => {
+            let comparison;
+            if (comparisonId) {
+              const owner = getRequestOwner(request);
+              if (!ComparisonOwnerSchema.safeParse(owner).success) {
+                return NextResponse.json(
+                  createAPIError('OWNER_REQUIRED', 'A user ID or session ID is required', 400),
+                  { status: 400 }
+                );
+              }
+
+              const saved = await comparisonManager.getSavedComparison(comparisonId, owner);
+              if (!saved) {
+                return NextResponse.json(
+                  createAPIError('NOT_FOUND', 'Saved comparison not found or access denied', 404),
+                  { status: 404 }
+                );
+              }
+              comparison = saved.result;
+            } else {
+              try {
+                comparison = await comparisonManager.compare(phoneIds!, preferences);
+              } catch (error) {
+                // Only bad phone IDs or preferences are the caller's fault
+                if (!(error instanceof ValidationError || error instanceof NotFoundError)) {
+                  throw error;
+                }
+                return NextResponse.json(
+                  createAPIError('COMPARISON_ERROR', error.message, 400),
+                  { status: 400 }
+                );
+              }
+            }
+
+            const file = exportComparison(comparison, format);
+
+            return new NextResponse(file.content, {
+              status: 200,
+              headers: {
+                'Content-Type': file.contentType,
+                'Content-Disposition': `attachment; filename="${file.filename}"`,
+                'Cache-Control': 'no-store',
+              },
+            });
+          })
+        )
+      )
+    )
+  )(request);
+}
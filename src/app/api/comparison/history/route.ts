@@ -1,51 +1,102 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { createAPIResponse, createAPIError } from '@/utils/api';
+import { createAPIResponse, createAPIError, getRequestOwner } from '@/utils/api';
 import { withRateLimit } from '@/middleware/rateLimit';
+import { withValidation } from '@/middleware/validation';
 import { withErrorHandler } from '@/middleware/errorHandler';
+import { withCORS, withSecurityHeaders } from '@/middleware/cors';
 import { comparisonManager } from '@/services/comparisonManager';
+import { ComparisonOwnerSchema } from '@/types/comparison';
+
+// Add history entry schema
+const AddHistorySchema = z.object({
+  phoneIds: z.array(z.string()).min(2).max(5),
+  phoneNames: z.array(z.string()).max(5).default([]),
+  comparisonType: z.enum(['two-phone', 'multi-phone']).optional(),
+});
+
+const ownerRequiredResponse = () => NextResponse.json(
+  createAPIError('OWNER_REQUIRED', 'A user ID or session ID is required', 400),
+  { status: 400 }
+);
 
 /**
- * GET /api/comparison/history - Get comparison history
+ * GET /api/comparison/history - Get comparison history for the requesting user or session
  */
 export async function GET(request: NextRequest) {
-  return withErrorHandler(async () => {
-    return withRateLimit(async () => {
-      const { searchParams } = new URL(request.url);
-      const userId = searchParams.get('userId');
-      
-      try {
-        const history = comparisonManager.getComparisonHistory();
-        
-        return createAPIResponse(history, 'History retrieved successfully');
-      } catch (error) {
-        return createAPIError(
-          'HISTORY_ERROR',
-          error instanceof Error ? error.message : 'Failed to retrieve history',
-          500
-        );
-      }
-    })(request);
-  })(request);
+  return withCORS()(
+    withSecurityHeaders()(
+      withErrorHandler(
+        withRateLimit()(async () => {
+          const owner = getRequestOwner(request);
+          if (!ComparisonOwnerSchema.safeParse(owner).success) {
+            return ownerRequiredResponse();
+          }
+
+          const history = await comparisonManager.getComparisonHistory(owner);
+
+          return NextResponse.json(
+            createAPIResponse(history, 'History retrieved successfully'),
+            { status: 200 }
+          );
+        })
+      )
+    )
+  )(request);
+}
+
+/**
+ * POST /api/comparison/history - Record a comparison in history
+ */
+export async function POST(request: NextRequest) {
+  return withCORS()(
+    withSecurityHeaders()(
+      withErrorHandler(
+        withRateLimit()(
+          withValidation(AddHistorySchema, async ({ phoneIds, phoneNames, comparisonType }) => {
+            const owner = getRequestOwner(request);
+            if (!ComparisonOwnerSchema.safeParse(owner).success) {
+              return ownerRequiredResponse();
+            }
+
+            const entry = await comparisonManager.addHistoryEntry({
+              phoneIds,
+              phoneNames,
+              comparisonType: comparisonType ?? (phoneIds.length === 2 ? 'two-phone' : 'multi-phone'),
+            }, owner);
+
+            return NextResponse.json(
+              createAPIResponse(entry, 'History entry recorded successfully'),
+              { status: 201 }
+            );
+          })
+        )
+      )
+    )
+  )(request);
 }
 
 /**
  * DELETE /api/comparison/history - Clear comparison history
  */
 export async function DELETE(request: NextRequest) {
-  return withErrorHandler(async () => {
-    return withRateLimit(async () => {
-      try {
-        comparisonManager.clearHistory();
-        
-        return createAPIResponse(null, 'History cleared successfully');
-      } catch (error) {
-        return createAPIError(
-          'CLEAR_ERROR',
-          error instanceof Error ? error.message : 'Failed to clear history',
-          500
-        );
-      }
-    })(request);
-  })(request);
-}
\ No newline at end of file
+  return withCORS()(
+    withSecurityHeaders()(
+      withErrorHandler(
+        withRateLimit()(async () => {
+          const owner = getRequestOwner(request);
+          if (!ComparisonOwnerSchema.safeParse(owner).success) {
+            return ownerRequiredResponse();
+          }
+
+          await comparisonManager.clearHistory(owner);
+
+          return NextResponse.json(
+            createAPIResponse(null, 'History cleared successfully'),
+            { status: 200 }
+          );
+        })
+      )
+    )
+  )(request);
+}
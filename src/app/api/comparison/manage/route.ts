@@ -1,23 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { createAPIResponse, createAPIError } from '@/utils/api';
+import { createAPIResponse, createAPIError, getRequestOwner } from '@/utils/api';
 import { withRateLimit } from '@/middleware/rateLimit';
 import { withValidation } from '@/middleware/validation';
 import { withErrorHandler } from '@/middleware/errorHandler';
 import { comparisonManager } from '@/services/comparisonManager';
+import { ComparisonPreferencesSchema, SaveComparisonOptionsSchema } from '@/types/comparison';
 
 // Start new comparison schema
 const StartComparisonSchema = z.object({
   phoneIds: z.array(z.string()).min(2).max(5),
   userId: z.string().optional(),
+  preferences: ComparisonPreferencesSchema.optional(),
 });
 
 // Save comparison schema
-const SaveComparisonSchema = z.object({
-  comparisonId: z.string(),
-  title: z.string().optional(),
+const SaveComparisonSchema = SaveComparisonOptionsSchema.extend({
+  phoneIds: z.array(z.string()).min(2).max(5),
   userId: z.string().optional(),
-  tags: z.array(z.string()).optional(),
+  preferences: ComparisonPreferencesSchema.optional(),
 });
 
 // Modify comparison schema
@@ -34,10 +35,11 @@ export async function POST(request: NextRequest) {
   return withErrorHandler(async () => {
     return withRateLimit(async () => {
       return withValidation(StartComparisonSchema, async (validatedData) => {
-        const { phoneIds, userId } = validatedData;
+        const { phoneIds, userId, preferences } = validatedData;
         
         try {
-          const comparison = await comparisonManager.startNewComparison(phoneIds);
+          const owner = { ...getRequestOwner(request), ...(userId ? { userId } : {}) };
+          const comparison = await comparisonManager.startNewComparison(phoneIds, preferences, owner);
           
           return createAPIResponse(comparison, 'Comparison started successfully');
         } catch (error) {
@@ -64,15 +66,12 @@ export async function PUT(request: NextRequest) {
       if (body.title !== undefined || body.tags !== undefined) {
         // Save operation
         return withValidation(SaveComparisonSchema, async (validatedData) => {
-          const { comparisonId, title, userId, tags } = validatedData;
+          const { phoneIds, userId, preferences, ...options } = validatedData;
           
           try {
-            // This would need to be implemented in the comparison manager
-            const savedComparison = await comparisonManager.saveComparison(
-              { id: comparisonId } as any, // This needs proper implementation
-              title,
-              userId
-            );
+            const owner = { ...getRequestOwner(request), ...(userId ? { userId } : {}) };
+            const comparison = await comparisonManager.compare(phoneIds, preferences);
+            const savedComparison = await comparisonManager.saveComparison(comparison, owner, options);
             
             return createAPIResponse(savedComparison, 'Comparison saved successfully');
           } catch (error) {
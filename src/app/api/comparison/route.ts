@@ -3,45 +3,96 @@ import { z } from 'zod';
 import { phoneService } from '../../../services/phone.js';
 import { comparisonService } from '../../../services/comparison.js';
 import { createAPIResponse, createAPIError } from '../../../utils/api.js';
-import { withRateLimit } from '../../../middleware/rateLimit.js';
+import { withComparisonRateLimit } from '../../../middleware/rateLimit.js';
 import { withValidation } from '../../../middleware/validation.js';
 import { withErrorHandler } from '../../../middleware/errorHandler.js';
+import { ComparisonPreferencesSchema } from '../../../types/comparison.js';
+import { RegionSchema } from '../../../types/phone.js';
+import { localizePhone } from '../../../services/regions/index.js';
+import { applyVariantSelections } from '../../../services/variants.js';
 
-// Comparison request schema
+/**
+ * Key of each requested entry: a pair may repeat one phone in two variants,
+ * larger sets are keyed by phone ID
+ */
+const getEntryKeys = (phoneIds: string[], variantIds: Array<string | null> = []) =>
+  phoneIds.length === 2 ? phoneIds.map((id, index) => `${id}:${variantIds[index] ?? ''}`) : phoneIds;
+
+// Comparison request schema: either a phone pair or a list of 2-5 phone IDs
 const ComparisonRequestSchema = z.object({
-  phone1Id: z.string().min(1, 'Phone 1 ID is required'),
-  phone2Id: z.string().min(1, 'Phone 2 ID is required'),
+  phone1Id: z.string().min(1, 'Phone 1 ID is required').optional(),
+  phone2Id: z.string().min(1, 'Phone 2 ID is required').optional(),
+  phoneIds: z.array(z.string().min(1))
+    .min(2, 'At least 2 phones are required for comparison')
+    .max(5, 'Maximum 5 phones can be compared at once')
+    .optional(),
   categories: z.array(z.string()).optional(),
-});
+  region: RegionSchema.optional(), // Shorthand for preferences.region
+  preferences: ComparisonPreferencesSchema.optional(),
+}).refine(
+  data => data.phoneIds || (data.phone1Id && data.phone2Id),
+  { message: 'Provide phoneIds or both phone1Id and phone2Id', path: ['phoneIds'] }
+).refine(
+  data => {
+    const phoneIds = data.phoneIds ?? (data.phone1Id && data.phone2Id ? [data.phone1Id, data.phone2Id] : []);
+    return new Set(getEntryKeys(phoneIds, data.preferences?.variantIds)).size === phoneIds.length;
+  },
+  { message: 'Cannot compare a phone with itself', path: ['phoneIds'] }
+);
 
 /**
- * POST /api/comparison - Compare two phones
+ * POST /api/comparison - Compare two phones, or up to five side by side
  */
 export async function POST(request: NextRequest) {
-  return withErrorHandler(async () => {
-    return withRateLimit(async () => {
-      return withValidation(ComparisonRequestSchema, async (validatedData) => {
-        const { phone1Id, phone2Id, categories } = validatedData;
-        
-        // Get both phones
-        const [phone1, phone2] = await Promise.all([
-          phoneService.getPhoneById(phone1Id),
-          phoneService.getPhoneById(phone2Id),
-        ]);
-        
-        if (!phone1) {
-          return createAPIError('PHONE_NOT_FOUND', `Phone with ID ${phone1Id} not found`, 404);
+  return withErrorHandler(
+    withComparisonRateLimit(
+      withValidation(ComparisonRequestSchema, async (validatedData) => {
+        const phoneIds = validatedData.phoneIds || [validatedData.phone1Id!, validatedData.phone2Id!];
+        const preferences = validatedData.categories || validatedData.region
+          ? {
+              ...validatedData.preferences,
+              ...(validatedData.categories && { categories: validatedData.categories }),
+              ...(validatedData.region && { region: validatedData.region }),
+            }
+          : validatedData.preferences;
+        const region = preferences?.region;
+
+        const phones = await Promise.all(phoneIds.map(id => phoneService.getPhoneById(id)));
+        const missingIndex = phones.findIndex(phone => !phone);
+
+        if (missingIndex !== -1) {
+          return NextResponse.json(
+            createAPIError('PHONE_NOT_FOUND', `Phone with ID ${phoneIds[missingIndex]} not found`, 404),
+            { status: 404 }
+          );
         }
-        
-        if (!phone2) {
-          return createAPIError('PHONE_NOT_FOUND', `Phone with ID ${phone2Id} not found`, 404);
+
+        const catalogPhones = phones.filter((phone): phone is NonNullable<typeof phone> => phone !== null);
+        const variantIds = preferences?.variantIds ?? [];
+        const unknownVariant = catalogPhones.findIndex((phone, index) =>
+          variantIds[index] && !phone.variants?.some(variant => variant.id === variantIds[index])
+        );
+
+        if (unknownVariant !== -1) {
+          return NextResponse.json(
+            createAPIError('VARIANT_NOT_FOUND', `Variant ${variantIds[unknownVariant]} not found for phone ${phoneIds[unknownVariant]}`, 404),
+            { status: 404 }
+          );
         }
-        
-        // Generate comparison
-        const comparison = await comparisonService.comparePhones(phone1, phone2);
-        
-        return createAPIResponse(comparison, 'Comparison generated successfully');
-      })(request);
-    })(request);
-  })(request);
-}
\ No newline at end of file
+
+        const found = applyVariantSelections(catalogPhones, variantIds)
+          .map(phone => (region ? localizePhone(phone, region) : phone));
+
+        // Pairs keep the head-to-head result shape; larger sets get the N-way comparison
+        const comparison = found.length === 2
+          ? await comparisonService.comparePhones(found[0], found[1], preferences)
+          : await comparisonService.generateMultiPhoneComparison(found, preferences);
+
+        return NextResponse.json(
+          createAPIResponse(comparison, 'Comparison generated successfully'),
+          { status: 200 }
+        );
+      })
+    )
+  )(request);
+}
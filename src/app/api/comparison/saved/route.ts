@@ -1,77 +1,137 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { createAPIResponse, createAPIError } from '@/utils/api';
-import { withRateLimit } from '@/middleware/rateLimit';
+import { createAPIResponse, createAPIError, getRequestOwner } from '@/utils/api';
+import { withComparisonRateLimit, withRateLimit } from '@/middleware/rateLimit';
 import { withValidation } from '@/middleware/validation';
-import { withErrorHandler } from '@/middleware/errorHandler';
+import { NotFoundError, ValidationError, withErrorHandler } from '@/middleware/errorHandler';
+import { withCORS, withSecurityHeaders } from '@/middleware/cors';
 import { comparisonManager } from '@/services/comparisonManager';
+import {
+  ComparisonOwnerSchema,
+  ComparisonPreferencesSchema,
+  SaveComparisonOptionsSchema
+} from '@/types/comparison';
 
-/**
- * GET /api/comparison/saved - Get saved comparisons
- */
-export async function GET(request: NextRequest) {
-  return withErrorHandler(async () => {
-    return withRateLimit(async () => {
-      const { searchParams } = new URL(request.url);
-      const userId = searchParams.get('userId');
-      const search = searchParams.get('search');
-      
-      try {
-        let savedComparisons;
-        
-        if (search) {
-          savedComparisons = comparisonManager.searchSavedComparisons(search, userId || undefined);
-        } else {
-          savedComparisons = comparisonManager.getSavedComparisons(userId || undefined);
-        }
-        
-        return createAPIResponse(savedComparisons, 'Saved comparisons retrieved successfully');
-      } catch (error) {
-        return createAPIError(
-          'SAVED_ERROR',
-          error instanceof Error ? error.message : 'Failed to retrieve saved comparisons',
-          500
-        );
-      }
-    })(request);
-  })(request);
-}
+// List saved comparisons schema
+const ListSavedSchema = z.object({
+  search: z.coerce.string().trim().max(100).optional(),
+});
+
+// Save comparison schema
+const SaveSchema = SaveComparisonOptionsSchema.extend({
+  phoneIds: z.array(z.string()).min(2).max(5),
+  preferences: ComparisonPreferencesSchema.optional(),
+});
 
 // Delete saved comparison schema
 const DeleteSavedSchema = z.object({
   comparisonId: z.string(),
-  userId: z.string().optional(),
 });
 
+const ownerRequiredResponse = () => NextResponse.json(
+  createAPIError('OWNER_REQUIRED', 'A user ID or session ID is required', 400),
+  { status: 400 }
+);
+
+/**
+ * GET /api/comparison/saved - Get saved comparisons for the requesting user or session
+ */
+export async function GET(request: NextRequest) {
+  return withCORS()(
+    withSecurityHeaders()(
+      withErrorHandler(
+        withRateLimit()(
+          withValidation(ListSavedSchema, async ({ search }) => {
+            const owner = getRequestOwner(request);
+            if (!ComparisonOwnerSchema.safeParse(owner).success) {
+              return ownerRequiredResponse();
+            }
+
+            const savedComparisons = search
+              ? await comparisonManager.searchSavedComparisons(search, owner)
+              : await comparisonManager.getSavedComparisons(owner);
+
+            return NextResponse.json(
+              createAPIResponse(savedComparisons, 'Saved comparisons retrieved successfully'),
+              { status: 200 }
+            );
+          })
+        )
+      )
+    )
+  )(request);
+}
+
+/**
+ * POST /api/comparison/saved - Run a comparison and save it
+ */
+export async function POST(request: NextRequest) {
+  return withCORS()(
+    withSecurityHeaders()(
+      withErrorHandler(
+        withComparisonRateLimit(
+          withValidation(SaveSchema, async ({ phoneIds, preferences, ...options }) => {
+            const owner = getRequestOwner(request);
+            if (!ComparisonOwnerSchema.safeParse(owner).success) {
+              return ownerRequiredResponse();
+            }
+
+            let comparison;
+            try {
+              comparison = await comparisonManager.compare(phoneIds, preferences);
+            } catch (error) {
+              // Only bad phone IDs or preferences are the caller's fault
+              if (!(error instanceof ValidationError || error instanceof NotFoundError)) {
+                throw error;
+              }
+              return NextResponse.json(
+                createAPIError('COMPARISON_ERROR', error.message, 400),
+                { status: 400 }
+              );
+            }
+
+            const savedComparison = await comparisonManager.saveComparison(comparison, owner, options);
+
+            return NextResponse.json(
+              createAPIResponse(savedComparison, 'Comparison saved successfully'),
+              { status: 201 }
+            );
+          })
+        )
+      )
+    )
+  )(request);
+}
+
 /**
  * DELETE /api/comparison/saved - Delete a saved comparison
  */
 export async function DELETE(request: NextRequest) {
-  return withErrorHandler(async () => {
-    return withRateLimit(async () => {
-      return withValidation(DeleteSavedSchema, async (validatedData) => {
-        const { comparisonId, userId } = validatedData;
-        
-        try {
-          const success = comparisonManager.deleteSavedComparison(comparisonId, userId);
-          
-          if (success) {
-            return createAPIResponse(null, 'Saved comparison deleted successfully');
-          } else {
-            return createAPIError(
-              'NOT_FOUND',
-              'Saved comparison not found or access denied',
-              404
+  return withCORS()(
+    withSecurityHeaders()(
+      withErrorHandler(
+        withRateLimit()(
+          withValidation(DeleteSavedSchema, async ({ comparisonId }) => {
+            const owner = getRequestOwner(request);
+            if (!ComparisonOwnerSchema.safeParse(owner).success) {
+              return ownerRequiredResponse();
+            }
+
+            const deleted = await comparisonManager.deleteSavedComparison(comparisonId, owner);
+            if (!deleted) {
+              return NextResponse.json(
+                createAPIError('NOT_FOUND', 'Saved comparison not found or access denied', 404),
+                { status: 404 }
+              );
+            }
+
+            return NextResponse.json(
+              createAPIResponse(null, 'Saved comparison deleted successfully'),
+              { status: 200 }
             );
-          }
-        } catch (error) {
-          return createAPIError(
-            'DELETE_ERROR',
-            error instanceof Error ? error.message : 'Failed to delete saved comparison',
-            500
-          );
-        }
-      })(request);
-    })(request);
-  })(request);
-}
\ No newline at end of file
+          })
+        )
+      )
+    )
+  )(request);
+}
@@ -1,45 +1,129 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { createAPIResponse, createAPIError } from '@/utils/api';
-import { withRateLimit } from '@/middleware/rateLimit';
+import { createAPIResponse, createAPIError, getRequestOwner } from '@/utils/api';
+import { withComparisonRateLimit, withRateLimit } from '@/middleware/rateLimit';
 import { withValidation } from '@/middleware/validation';
-import { withErrorHandler } from '@/middleware/errorHandler';
+import { NotFoundError, ValidationError, withErrorHandler } from '@/middleware/errorHandler';
+import { withCORS, withSecurityHeaders } from '@/middleware/cors';
 import { comparisonManager } from '@/services/comparisonManager';
+import { ComparisonOwnerSchema, ComparisonPreferencesSchema } from '@/types/comparison';
 
-// Generate share URL schema
-const GenerateShareSchema = z.object({
-  comparisonId: z.string(),
+// Create share link schema: a saved comparison, or a phone pair to compare
+const CreateShareSchema = z.object({
+  comparisonId: z.string().min(1).optional(),
+  phoneIds: z.array(z.string().min(1)).length(2, 'Only two-phone comparisons can be shared').optional(),
+  preferences: ComparisonPreferencesSchema.optional(),
+  expiresAt: z.coerce.date()
+    .refine(date => date.getTime() > Date.now(), { message: 'expiresAt must be in the future' })
+    .optional(),
   platform: z.enum(['twitter', 'facebook', 'whatsapp', 'linkedin', 'copy']).optional(),
+}).refine(
+  data => Boolean(data.comparisonId) !== Boolean(data.phoneIds),
+  { message: 'Provide either comparisonId or phoneIds', path: ['comparisonId'] }
+);
+
+// Revoke share link schema
+const RevokeShareSchema = z.object({
+  shareToken: z.string().min(1),
 });
 
+const ownerRequiredResponse = () => NextResponse.json(
+  createAPIError('OWNER_REQUIRED', 'A user ID or session ID is required', 400),
+  { status: 400 }
+);
+
 /**
- * POST /api/comparison/share - Generate share URL or social media link
+ * POST /api/comparison/share - Create a share link, with an optional
+ * social media URL for the requested platform
  */
 export async function POST(request: NextRequest) {
-  return withErrorHandler(async () => {
-    return withRateLimit(async () => {
-      return withValidation(GenerateShareSchema, async (validatedData) => {
-        const { comparisonId, platform } = validatedData;
-        
-        try {
-          // This would need to fetch the actual comparison first
-          const comparison = { id: comparisonId } as any; // Placeholder
-          
-          if (platform && platform !== 'copy') {
-            const shareUrl = await comparisonManager.shareToSocialMedia(comparison, platform);
-            return createAPIResponse({ shareUrl }, 'Social media share URL generated');
-          } else {
-            const shareData = await comparisonManager.generateShareUrl(comparison);
-            return createAPIResponse(shareData, 'Share URL generated successfully');
-          }
-        } catch (error) {
-          return createAPIError(
-            'SHARE_ERROR',
-            error instanceof Error ? error.message : 'Failed to generate share URL',
-            400
-          );
-        }
-      })(request);
-    })(request);
-  })(request);
-}
\ No newline at end of file
+  return withCORS()(
+    withSecurityHeaders()(
+      withErrorHandler(
+        withComparisonRateLimit(
+          withValidation(CreateShareSchema, async ({ comparisonId, phoneIds, preferences, expiresAt, platform }) => {
+            const owner = getRequestOwner(request);
+            if (!ComparisonOwnerSchema.safeParse(owner).success) {
+              return ownerRequiredResponse();
+            }
+
+            let comparison;
+            if (comparisonId) {
+              const saved = await comparisonManager.getSavedComparison(comparisonId, owner);
+              if (!saved) {
+                return NextResponse.json(
+                  createAPIError('NOT_FOUND', 'Saved comparison not found or access denied', 404),
+                  { status: 404 }
+                );
+              }
+              comparison = saved.result;
+            } else {
+              try {
+                comparison = await comparisonManager.compare(phoneIds!, preferences);
+              } catch (error) {
+                // Only bad phone IDs or preferences are the caller's fault
+                if (!(error instanceof ValidationError || error instanceof NotFoundError)) {
+                  throw error;
+                }
+                return NextResponse.json(
+                  createAPIError('COMPARISON_ERROR', error.message, 400),
+                  { status: 400 }
+                );
+              }
+            }
+
+            if (comparison.phones.length !== 2) {
+              return NextResponse.json(
+                createAPIError('VALIDATION_ERROR', 'Only two-phone comparisons can be shared', 400),
+                { status: 400 }
+              );
+            }
+
+            const shareData = await comparisonManager.generateShareUrl(comparison, owner, expiresAt);
+            const platformUrl = platform && platform !== 'copy'
+              ? comparisonManager.getPlatformShareUrl(shareData, platform)
+              : undefined;
+
+            return NextResponse.json(
+              createAPIResponse({ ...shareData, platformUrl }, 'Share link created successfully'),
+              { status: 201 }
+            );
+          })
+        )
+      )
+    )
+  )(request);
+}
+
+/**
+ * DELETE /api/comparison/share - Revoke a share link
+ */
+export async function DELETE(request: NextRequest) {
+  return withCORS()(
+    withSecurityHeaders()(
+      withErrorHandler(
+        withRateLimit()(
+          withValidation(RevokeShareSchema, async ({ shareToken }) => {
+            const owner = getRequestOwner(request);
+            if (!ComparisonOwnerSchema.safeParse(owner).success) {
+              return ownerRequiredResponse();
+            }
+
+            const revoked = await comparisonManager.revokeShareLink(shareToken, owner);
+            if (!revoked) {
+              return NextResponse.json(
+                createAPIError('NOT_FOUND', 'Share link not found or access denied', 404),
+                { status: 404 }
+              );
+            }
+
+            return NextResponse.json(
+              createAPIResponse(null, 'Share link revoked successfully'),
+              { status: 200 }
+            );
+          })
+        )
+      )
+    )
+  )(request);
+}
@@ -59,19 +59,124 @@ const openAPISpec = {
     '/phones/search': {
       get: {
         summary: 'Search phones',
-        description: 'Search for phones by query string',
+        description: 'Faceted phone search with filters, sorting and facet counts. List filters take comma-separated values.',
         tags: ['Phones'],
         parameters: [
           {
             name: 'q',
             in: 'query',
-            required: true,
+            required: false,
             description: 'Search query (minimum 2 characters)',
             schema: {
               type: 'string',
               minLength: 2,
             },
           },
+          {
+            name: 'brand',
+            in: 'query',
+            required: false,
+            description: 'Brand names, e.g. Samsung,Apple',
+            schema: { type: 'string' },
+          },
+          {
+            name: 'minPrice',
+            in: 'query',
+            required: false,
+            description: 'Minimum price',
+            schema: { type: 'number', minimum: 0 },
+          },
+          {
+            name: 'maxPrice',
+            in: 'query',
+            required: false,
+            description: 'Maximum price',
+            schema: { type: 'number', minimum: 0 },
+          },
+          {
+            name: 'ram',
+            in: 'query',
+            required: false,
+            description: 'RAM sizes in GB, e.g. 8,12',
+            schema: { type: 'string' },
+          },
+          {
+            name: 'storage',
+            in: 'query',
+            required: false,
+            description: 'Storage sizes in GB, e.g. 256,512',
+            schema: { type: 'string' },
+          },
+          {
+            name: 'minBattery',
+            in: 'query',
+            required: false,
+            description: 'Minimum battery capacity (mAh)',
+            schema: { type: 'integer' },
+          },
+          {
+            name: 'minRefreshRate',
+            in: 'query',
+            required: false,
+            description: 'Minimum display refresh rate (Hz)',
+            schema: { type: 'integer' },
+          },
+          {
+            name: 'is5g',
+            in: 'query',
+            required: false,
+            description: '5G support',
+            schema: { type: 'boolean' },
+          },
+          {
+            name: 'nfc',
+            in: 'query',
+            required: false,
+            description: 'NFC support',
+            schema: { type: 'boolean' },
+          },
+          {
+            name: 'wirelessCharging',
+            in: 'query',
+            required: false,
+            description: 'Wireless charging support',
+            schema: { type: 'boolean' },
+          },
+          {
+            name: 'ipRating',
+            in: 'query',
+            required: false,
+            description: 'IP ratings, e.g. IP68,IP67',
+            schema: { type: 'string' },
+          },
+          {
+            name: 'launchYear',
+            in: 'query',
+            required: false,
+            description: 'Launch years, e.g. 2024,2025',
+            schema: { type: 'string' },
+          },
+          {
+            name: 'sort',
+            in: 'query',
+            required: false,
+            description: 'Sort field',
+            schema: { type: 'string', enum: ['price', 'score', 'recency'], default: 'recency' },
+          },
+          {
+            name: 'order',
+            in: 'query',
+            required: false,
+            description: 'Sort direction; defaults to ascending for price and descending otherwise',
+            schema: { type: 'string', enum: ['asc', 'desc'] },
+          },
+          {
+            name: 'facets',
+            in: 'query',
+            required: false,
+            description: 'Include facet counts',
+            schema: { type: 'boolean', default: true },
+          },
           {
             name: 'page',
             in: 'query',
@@ -575,8 +680,49 @@ const openAPISpec = {
             },
             example: ['camera', 'performance', 'battery'],
           },
+          phoneIds: {
+            type: 'array',
+            items: {
+              type: 'string',
+            },
+            minItems: 2,
+            maxItems: 5,
+            description: 'Compare 2-5 phones instead of phone1Id/phone2Id',
+            example: ['phone_123', 'phone_456', 'phone_789'],
+          },
+          preferences: {
+            type: 'object',
+            description: 'Re-weights overall scoring; the response includes a scoring explanation',
+            properties: {
+              usage: {
+                type: 'string',
+                enum: ['gaming', 'photography', 'business', 'casual'],
+              },
+              priorities: {
+                type: 'array',
+                items: {
+                  type: 'string',
+                  enum: ['camera', 'battery', 'performance', 'display', 'price'],
+                },
+              },
+              weights: {
+                type: 'object',
+                description: 'Shares of the overall score (0-1); unweighted categories split what is left',
+                additionalProperties: {
+                  type: 'number',
+                  minimum: 0,
+                },
+                example: { camera: 0.4, battery: 0.2 },
+              },
+              categories: {
+                type: 'array',
+                items: {
+                  type: 'string',
+                },
+              },
+            },
+          },
         },
-        required: ['phone1Id', 'phone2Id'],
       },
       
       ChatMessageRequest: {
@@ -0,0 +1,147 @@
+import React from 'react';
+import { NextRequest, NextResponse } from 'next/server';
+import { ImageResponse } from 'next/og';
+import { ComparisonService, ExpiredError } from '@/lib/services';
+import { cacheService, CacheKeys, CacheTTL } from '@/lib/cache';
+import { createAPIError } from '@/utils/api';
+import { withErrorHandler } from '@/middleware/errorHandler';
+import {
+  ComparisonCardModel,
+  OG_IMAGE_HEIGHT,
+  OG_IMAGE_WIDTH,
+  buildComparisonCard,
+  getComparisonImageKey
+} from '@/services/comparisonImage';
+import { ComparisonSnapshotSchema } from '@/types/comparison';
+
+// Prisma needs the Node.js runtime
+export const runtime = 'nodejs';
+
+const PHONE_COLORS = ['#2563eb', '#db2777'];
+
+interface RouteContext {
+  params: Promise<{ token: string }>;
+}
+
+/**
+ * GET /api/og/comparison/[token] - PNG preview card for a shared comparison
+ * Images are cached by the comparison's image key; requests carrying the
+ * current key as `v` may be cached forever by browsers and crawlers.
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  return withErrorHandler(async () => {
+    const { token } = await params;
+
+    let snapshot: unknown;
+    try {
+      const shareLink = await new ComparisonService().getComparisonByShareToken(token);
+      snapshot = shareLink.result;
+    } catch (error) {
+      if (error instanceof ExpiredError) {
+        return NextResponse.json(createAPIError('SHARE_LINK_EXPIRED', 'Share link has expired', 410), { status: 410 });
+      }
+      return NextResponse.json(createAPIError('NOT_FOUND', 'Shared comparison not found', 404), { status: 404 });
+    }
+
+    const parsed = ComparisonSnapshotSchema.safeParse(snapshot);
+    if (!parsed.success) {
+      return NextResponse.json(createAPIError('NOT_FOUND', 'Shared comparison not found', 404), { status: 404 });
+    }
+    const comparison = parsed.data;
+
+    const imageKey = getComparisonImageKey(comparison);
+    const etag = `"${imageKey}"`;
+    const headers = {
+      'Content-Type': 'image/png',
+      ETag: etag,
+      'Cache-Control': request.nextUrl.searchParams.get('v') === imageKey
+        ? 'public, max-age=31536000, immutable'
+        : `public, max-age=${CacheTTL.LONG}`,
+    };
+
+    if (request.headers.get('if-none-match') === etag) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+
+    const cacheKey = CacheKeys.comparisonImage(imageKey);
+    const cached = await cacheService.get<string>(cacheKey);
+    if (cached) {
+      return new NextResponse(new Uint8Array(Buffer.from(cached, 'base64')), { status: 200, headers });
+    }
+
+    const png = await renderCard(buildComparisonCard(comparison), request.nextUrl.origin);
+    await cacheService.set(cacheKey, Buffer.from(png).toString('base64'), CacheTTL.VERY_LONG);
+
+    return new NextResponse(png, { status: 200, headers });
+  })(request);
+}
+
+/**
+ * Render the card to PNG bytes, dropping thumbnails if one cannot be fetched
+ */
+async function renderCard(card: ComparisonCardModel, origin: string): Promise<ArrayBuffer> {
+  try {
+    return await toPng(card, origin, true);
+  } catch (error) {
+    console.warn('Failed to render comparison card with thumbnails:', error);
+    return toPng(card, origin, false);
+  }
+}
+
+async function toPng(card: ComparisonCardModel, origin: string, withThumbnails: boolean): Promise<ArrayBuffer> {
+  const image = new ImageResponse(
+    <ComparisonCard card={card} origin={origin} withThumbnails={withThumbnails} />,
+    { width: OG_IMAGE_WIDTH, height: OG_IMAGE_HEIGHT }
+  );
+  return image.arrayBuffer();
+}
+
+function ComparisonCard({ card, origin, withThumbnails }: {
+  card: ComparisonCardModel;
+  origin: string;
+  withThumbnails: boolean;
+}) {
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', width: '100%', height: '100%', padding: 48, background: '#0f172a', color: '#f8fafc', fontFamily: 'sans-serif' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        {card.phones.map((phone, index) => (
+          <div key={phone.name} style={{ display: 'flex', alignItems: 'center', gap: 20, width: '45%', flexDirection: index === 0 ? 'row' : 'row-reverse' }}>
+            {withThumbnails && phone.imageUrl && (
+              <img
+                src={new URL(phone.imageUrl, origin).toString()}
+                width={96}
+                height={96}
+                style={{ objectFit: 'contain', borderRadius: 16, background: '#1e293b' }}
+              />
+            )}
+            <div style={{ display: 'flex', flexDirection: 'column', alignItems: index === 0 ? 'flex-start' : 'flex-end' }}>
+              <div style={{ fontSize: 36, fontWeight: 700, color: PHONE_COLORS[index] }}>{phone.name}</div>
+              <div style={{ fontSize: 24, color: '#94a3b8' }}>{`Overall ${phone.overall}/100`}</div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 14, marginTop: 40, flexGrow: 1 }}>
+        {card.bars.map(bar => (
+          <div key={bar.label} style={{ display: 'flex', alignItems: 'center', gap: 16 }}>
+            <div style={{ display: 'flex', width: 70, justifyContent: 'flex-end', fontSize: 22 }}>{String(bar.phone1)}</div>
+            <div style={{ display: 'flex', width: 400, height: 20, justifyContent: 'flex-end', background: '#1e293b', borderRadius: 10 }}>
+              <div style={{ display: 'flex', width: `${bar.phone1}%`, height: '100%', background: PHONE_COLORS[0], borderRadius: 10 }} />
+            </div>
+            <div style={{ display: 'flex', width: 180, justifyContent: 'center', fontSize: 24, color: '#cbd5e1' }}>{bar.label}</div>
+            <div style={{ display: 'flex', width: 400, height: 20, background: '#1e293b', borderRadius: 10 }}>
+              <div style={{ display: 'flex', width: `${bar.phone2}%`, height: '100%', background: PHONE_COLORS[1], borderRadius: 10 }} />
+            </div>
+            <div style={{ display: 'flex', width: 70, fontSize: 22 }}>{String(bar.phone2)}</div>
+          </div>
+        ))}
+      </div>
+
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', fontSize: 28 }}>
+        <div style={{ display: 'flex' }}>{`Winner: ${card.winner}`}</div>
+        <div style={{ display: 'flex', color: '#94a3b8' }}>MobileMatrix</div>
+      </div>
+    </div>
+  );
+}
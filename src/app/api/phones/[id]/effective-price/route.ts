@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAPIResponse, createAPIError } from '@/utils/api';
+import { withRateLimit } from '@/middleware/rateLimit';
+import { withValidation } from '@/middleware/validation';
+import { withErrorHandler } from '@/middleware/errorHandler';
+import { withCORS, withSecurityHeaders } from '@/middleware/cors';
+import { PriceHistoryService, NotFoundError } from '@/lib/services';
+import { calculateEffectivePrices } from '@/services/effectivePrice';
+import { BuyerProfileSchema } from '@/types/phone';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/phones/[id]/effective-price - Price at each retailer after the
+ * buyer's card, EMI and exchange offers, cheapest first
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  return withCORS()(
+    withSecurityHeaders()(
+      withErrorHandler(
+        withRateLimit()(
+          withValidation(BuyerProfileSchema, async (buyer) => {
+            try {
+              const prices = await new PriceHistoryService().getLatestPrices(id);
+              const effectivePrices = calculateEffectivePrices(prices, buyer);
+
+              return NextResponse.json(
+                createAPIResponse(
+                  { phoneId: id, prices: effectivePrices, best: effectivePrices[0] ?? null },
+                  'Effective prices calculated successfully'
+                ),
+                { status: 200 }
+              );
+            } catch (error) {
+              if (error instanceof NotFoundError) {
+                return NextResponse.json(
+                  createAPIError('PHONE_NOT_FOUND', 'Phone not found', 404),
+                  { status: 404 }
+                );
+              }
+              throw error;
+            }
+          })
+        )
+      )
+    )
+  )(request);
+}
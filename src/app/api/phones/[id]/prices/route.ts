@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createAPIResponse, createAPIError } from '@/utils/api';
+import { withRateLimit } from '@/middleware/rateLimit';
+import { withValidation } from '@/middleware/validation';
+import { withErrorHandler } from '@/middleware/errorHandler';
+import { withCORS, withSecurityHeaders } from '@/middleware/cors';
+import {
+  PriceHistoryService,
+  NotFoundError,
+  DEFAULT_PRICE_HISTORY_DAYS,
+  MAX_PRICE_HISTORY_DAYS,
+} from '@/lib/services';
+
+// Price history query schema
+const PriceHistoryQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(MAX_PRICE_HISTORY_DAYS).default(DEFAULT_PRICE_HISTORY_DAYS),
+  retailer: z.string().trim().min(1).optional(),
+  variantId: z.string().trim().min(1).optional(),
+});
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/phones/[id]/prices - Recorded price history with min, max and average
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  return withCORS()(
+    withSecurityHeaders()(
+      withErrorHandler(
+        withRateLimit()(
+          withValidation(PriceHistoryQuerySchema, async ({ days, retailer, variantId }) => {
+            try {
+              const history = await new PriceHistoryService().getPriceHistory(id, { days, retailer, variantId });
+
+              return NextResponse.json(
+                createAPIResponse(history, 'Price history retrieved successfully'),
+                { status: 200 }
+              );
+            } catch (error) {
+              if (error instanceof NotFoundError && error.resource === 'PhoneVariant') {
+                return NextResponse.json(
+                  createAPIError('VARIANT_NOT_FOUND', 'Variant not found for this phone', 404),
+                  { status: 404 }
+                );
+              }
+              if (error instanceof NotFoundError) {
+                return NextResponse.json(
+                  createAPIError('PHONE_NOT_FOUND', 'Phone not found', 404),
+                  { status: 404 }
+                );
+              }
+              throw error;
+            }
+          })
+        )
+      )
+    )
+  )(request);
+}
@@ -3,9 +3,12 @@ import { phoneService } from '../../../../services/phone.js';
 import { createAPIResponse, createAPIError } from '../../../../utils/api.js';
 import { withRateLimit } from '../../../../middleware/rateLimit.js';
 import { withErrorHandler } from '../../../../middleware/errorHandler.js';
+import { RegionSchema } from '../../../../types/phone.js';
+import { localizePhone } from '../../../../services/regions/index.js';
 
 /**
  * GET /api/phones/[id] - Get phone by ID
+ * Pass `region` (IN, US, EU, GB or AE) to price the phone in that region.
  */
 export async function GET(
   request: NextRequest,
@@ -19,13 +22,20 @@ export async function GET(
         return createAPIError('MISSING_PHONE_ID', 'Phone ID is required', 400);
       }
 
+      const regionParam = request.nextUrl.searchParams.get('region');
+      const region = regionParam ? RegionSchema.safeParse(regionParam.toUpperCase()) : undefined;
+
+      if (region && !region.success) {
+        return createAPIError('INVALID_REGION', `Unsupported region: ${regionParam}`, 400);
+      }
+
       const phone = await phoneService.getPhoneById(id);
       
       if (!phone) {
         return createAPIError('PHONE_NOT_FOUND', 'Phone not found', 404);
       }
 
-      return createAPIResponse(phone, 'Phone retrieved successfully');
+      return createAPIResponse(region ? localizePhone(phone, region.data) : phone, 'Phone retrieved successfully');
     })(request);
   })(request);
 }
\ No newline at end of file
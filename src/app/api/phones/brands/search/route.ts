@@ -41,35 +41,11 @@ export async function GET(request: NextRequest) {
           }
 
           try {
-            // Get all brands and filter by query
-            const allBrands = await phoneService.getAllBrands();
-            const filteredBrands = allBrands.filter(brand =>
-              brand.name.toLowerCase().includes(sanitizedQuery.toLowerCase())
-            );
-
-            // Sort by relevance (exact matches first, then starts with, then contains)
-            const sortedBrands = filteredBrands.sort((a, b) => {
-              const aLower = a.name.toLowerCase();
-              const bLower = b.name.toLowerCase();
-              const queryLower = sanitizedQuery.toLowerCase();
-              
-              // Exact match
-              if (aLower === queryLower) return -1;
-              if (bLower === queryLower) return 1;
-              
-              // Starts with
-              if (aLower.startsWith(queryLower) && !bLower.startsWith(queryLower)) return -1;
-              if (bLower.startsWith(queryLower) && !aLower.startsWith(queryLower)) return 1;
-              
-              // Alphabetical
-              return aLower.localeCompare(bLower);
-            });
-
-            // Limit results for performance
-            const limitedBrands = sortedBrands.slice(0, 10);
+            // Ranked, typo-tolerant matches (falls back to name matching)
+            const brands = await phoneService.searchBrands(sanitizedQuery, 10);
 
             return NextResponse.json(
-              createAPIResponse(limitedBrands, 'Brands retrieved successfully'),
+              createAPIResponse(brands, 'Brands retrieved successfully'),
               { status: 200 }
             );
           } catch (error) {
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { phoneService } from '../../../../../services/phone.js';
+import { createAPIResponse, createAPIError } from '../../../../../utils/api.js';
+import { withSearchRateLimit } from '../../../../../middleware/rateLimit.js';
+import { withErrorHandler } from '../../../../../middleware/errorHandler.js';
+import { withCORS, withSecurityHeaders } from '../../../../../middleware/cors.js';
+import { sanitizeBrandName } from '../../../../../utils/validation.js';
+
+/**
+ * GET /api/phones/specs/unparsed - List spec strings that could not be normalized
+ */
+export async function GET(request: NextRequest) {
+  return withCORS()(
+    withSecurityHeaders()(
+      withErrorHandler(
+        withSearchRateLimit(async (request) => {
+          const { searchParams } = new URL(request.url);
+          const brand = searchParams.get('brand');
+          const limit = Math.min(parseInt(searchParams.get('limit') || '500', 10) || 500, 2000);
+
+          try {
+            const report = await phoneService.getUnparsedSpecReport({
+              brand: brand ? sanitizeBrandName(brand) : undefined,
+              limit,
+            });
+
+            return NextResponse.json(
+              createAPIResponse(report, 'Unparsed spec report generated successfully'),
+              { status: 200 }
+            );
+          } catch (error) {
+            console.error('Error building unparsed spec report:', error);
+            return NextResponse.json(
+              createAPIError('REPORT_FAILED', 'Failed to build unparsed spec report', 500),
+              { status: 500 }
+            );
+          }
+        })
+      )
+    )
+  )(request);
+}
@@ -0,0 +1,15 @@
+import React from 'react';
+import { Metadata } from 'next';
+import ShareLinkExpired from '@/components/comparison/ShareLinkExpired';
+
+export const metadata: Metadata = {
+  title: 'Share Link Expired | MobileMatrix',
+  robots: { index: false },
+};
+
+/**
+ * Shown for expired share links; middleware rewrites them here with a 410
+ */
+export default function ExpiredShareLinkPage() {
+  return <ShareLinkExpired />;
+}
@@ -5,7 +5,7 @@ import { Card } from '../ui/Card';
 import { Button } from '../ui/Button';
 import { Input } from '../ui/Input';
 import { cn } from '@/utils';
-import { ChatMessage, ChatContext, ChatStep } from '@/types/chat';
+import { ChatMessage, ChatContext, ChatStep, ChatFlowNavigation, ChatFlowUpdate } from '@/types/chat';
 import { MessageBubble } from './MessageBubble';
 import { TypingIndicator } from './TypingIndicator';
 import { ChatSuggestions } from './ChatSuggestions';
@@ -22,6 +22,7 @@ export function AIChat({ className, onPhoneSelection, onComparisonReady, onRef }
   const [inputValue, setInputValue] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isTyping, setIsTyping] = useState(false);
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
   const [context, setContext] = useState<ChatContext>({
     sessionId: `session_${Date.now()}`,
     conversationHistory: [],
@@ -33,6 +34,7 @@ export function AIChat({ className, onPhoneSelection, onComparisonReady, onRef }
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const streamReaderRef = useRef<ReadableStreamDefaultReader<Uint8Array> | null>(null);
 
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
@@ -66,6 +68,112 @@ export function AIChat({ className, onPhoneSelection, onComparisonReady, onRef }
     }
   }, [onRef]);
 
+  // Read server-sent events, growing the placeholder message as deltas arrive
+  const readEventStream = async (body: ReadableStream<Uint8Array>, messageId: string) => {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    streamReaderRef.current = reader;
+
+    let buffer = '';
+    let content = '';
+    let result: any = null;
+
+    const handleEvent = (chunk: string) => {
+      const event = chunk.match(/^event: (.*)$/m)?.[1];
+      const data = chunk.match(/^data: (.*)$/m)?.[1];
+      if (!event || !data) return;
+
+      const payload = JSON.parse(data);
+
+      if (event === 'delta') {
+        content += payload.content;
+        setIsTyping(false);
+        setMessages(prev => prev.map(msg => msg.id === messageId ? { ...msg, content } : msg));
+      } else if (event === 'done') {
+        result = { success: true, data: payload };
+      } else if (event === 'error') {
+        result = payload;
+      }
+    };
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+
+        let boundary = buffer.indexOf('\n\n');
+        while (boundary !== -1) {
+          handleEvent(buffer.slice(0, boundary));
+          buffer = buffer.slice(boundary + 2);
+          boundary = buffer.indexOf('\n\n');
+        }
+      }
+    } finally {
+      streamReaderRef.current = null;
+    }
+
+    // Stopped by the user: keep whatever text already arrived
+    return result || { success: true, data: { message: content } };
+  };
+
+  const stopStreaming = () => {
+    streamReaderRef.current?.cancel().catch(() => undefined);
+  };
+
+  // Mirror the flow the server settled on
+  const withFlow = (base: ChatContext, flow?: ChatFlowUpdate): ChatContext => flow
+    ? {
+        ...base,
+        currentStep: flow.state.currentStep,
+        selectedBrand: flow.state.selectedBrand,
+        selectedPhones: flow.state.selectedPhones,
+        replacingSlot: flow.state.replacingSlot,
+        flowHistory: flow.history,
+      }
+    : base;
+
+  // Go back, undo or start over without asking the AI
+  const sendFlowAction = async (action: ChatFlowNavigation) => {
+    if (isLoading) return;
+
+    setIsLoading(true);
+
+    try {
+      const response = await fetch('/api/chat/flow', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ context, action }),
+      });
+
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error?.message || 'Failed to update the conversation');
+      }
+
+      const aiMessage: ChatMessage = {
+        id: `ai_${Date.now()}`,
+        role: 'assistant',
+        content: data.data.message,
+        timestamp: new Date(),
+      };
+
+      setMessages(prev => [...prev, aiMessage]);
+      setContext(prev => withFlow({
+        ...prev,
+        conversationHistory: [...prev.conversationHistory, aiMessage],
+        updatedAt: new Date(),
+      }, data.data.flow));
+    } catch (error) {
+      console.error('Chat flow error:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const sendMessage = async (message: string) => {
     if (!message.trim() || isLoading) return;
 
@@ -82,7 +190,7 @@ export function AIChat({ className, onPhoneSelection, onComparisonReady, onRef }
     setIsTyping(true);
 
     try {
-      const response = await fetch('/api/chat/simple', {
+      const response = await fetch('/api/chat', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -93,6 +201,7 @@ export function AIChat({ className, onPhoneSelection, onComparisonReady, onRef }
             ...context,
             conversationHistory: [...context.conversationHistory, userMessage],
           },
+          stream: true,
         }),
       });
 
@@ -100,25 +209,40 @@ export function AIChat({ className, onPhoneSelection, onComparisonReady, onRef }
         throw new Error('Failed to get AI response');
       }
 
-      const data = await response.json();
+      const aiMessageId = `ai_${Date.now()}`;
+      const isEventStream = !!response.body &&
+        !!response.headers?.get('content-type')?.includes('text/event-stream');
+
+      let data: any;
+      if (isEventStream) {
+        setMessages(prev => [...prev, { id: aiMessageId, role: 'assistant', content: '', timestamp: new Date() }]);
+        setStreamingMessageId(aiMessageId);
+        data = await readEventStream(response.body!, aiMessageId);
+      } else {
+        data = await response.json();
+      }
       
       if (data.success) {
         const aiMessage: ChatMessage = {
-          id: `ai_${Date.now()}`,
+          id: aiMessageId,
           role: 'assistant',
           content: data.data.message,
           timestamp: new Date(),
         };
 
-        setMessages(prev => [...prev, aiMessage]);
+        setMessages(prev => isEventStream
+          ? prev.map(msg => msg.id === aiMessageId ? aiMessage : msg)
+          : [...prev, aiMessage]);
         
         // Update context based on AI response
-        const updatedContext = {
+        const updatedContext = withFlow({
           ...context,
           conversationHistory: [...context.conversationHistory, userMessage, aiMessage],
           currentStep: data.data.nextStep || context.currentStep,
+          summary: data.data.summary || context.summary,
+          locale: data.data.locale || context.locale,
           updatedAt: new Date(),
-        };
+        }, data.data.flow);
         
         setContext(updatedContext);
         
@@ -145,6 +269,7 @@ export function AIChat({ className, onPhoneSelection, onComparisonReady, onRef }
     } finally {
       setIsLoading(false);
       setIsTyping(false);
+      setStreamingMessageId(null);
     }
   };
 
@@ -188,7 +313,11 @@ export function AIChat({ className, onPhoneSelection, onComparisonReady, onRef }
       {/* Messages Container */}
       <div className="flex-1 overflow-y-auto p-6 space-y-6 min-h-0">
         {messages.map((message) => (
-          <MessageBubble key={message.id} message={message} />
+          <MessageBubble
+            key={message.id}
+            message={message}
+            isStreaming={message.id === streamingMessageId}
+          />
         ))}
         
         {isTyping && <TypingIndicator />}
@@ -204,6 +333,25 @@ export function AIChat({ className, onPhoneSelection, onComparisonReady, onRef }
         />
       )}
 
+      {/* Flow Controls */}
+      {!isLoading && (context.flowHistory?.length || context.selectedPhones.length > 0) && (
+        <div className="flex gap-2 px-6 pt-3">
+          {context.currentStep !== 'brand_selection' || context.selectedPhones.length > 0 ? (
+            <Button type="button" variant="ghost" size="sm" onClick={() => sendFlowAction({ type: 'go_back' })}>
+              Back
+            </Button>
+          ) : null}
+          {context.flowHistory?.length ? (
+            <Button type="button" variant="ghost" size="sm" onClick={() => sendFlowAction({ type: 'undo' })}>
+              Undo
+            </Button>
+          ) : null}
+          <Button type="button" variant="ghost" size="sm" onClick={() => sendFlowAction({ type: 'start_over' })}>
+            Start over
+          </Button>
+        </div>
+      )}
+
       {/* Input Area */}
       <form onSubmit={handleSubmit} className="p-6 border-t border-border/30">
         <div className="flex gap-3">
@@ -216,6 +364,16 @@ export function AIChat({ className, onPhoneSelection, onComparisonReady, onRef }
             className="flex-1 text-base py-3"
             variant="filled"
           />
+          {streamingMessageId && (
+            <Button
+              type="button"
+              variant="outline"
+              size="lg"
+              onClick={stopStreaming}
+            >
+              Stop
+            </Button>
+          )}
           <Button
             type="submit"
             disabled={!inputValue.trim() || isLoading}
@@ -7,9 +7,10 @@ import { ChatMessage } from '@/types/chat';
 interface MessageBubbleProps {
   message: ChatMessage;
   className?: string;
+  isStreaming?: boolean;
 }
 
-export function MessageBubble({ message, className }: MessageBubbleProps) {
+export function MessageBubble({ message, className, isStreaming = false }: MessageBubbleProps) {
   const isUser = message.role === 'user';
   const isSystem = message.role === 'system';
 
@@ -42,6 +43,12 @@ export function MessageBubble({ message, className }: MessageBubbleProps) {
       )}>
         <p className="whitespace-pre-wrap break-words">
           {message.content}
+          {isStreaming && (
+            <span
+              className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-current animate-pulse"
+              aria-label="Response streaming"
+            />
+          )}
         </p>
         
         <div className={cn(
@@ -107,4 +107,14 @@ describe('MessageBubble', () => {
     const messageElement = screen.getByText(/This is a very long message/);
     expect(messageElement).toHaveClass('break-words');
   });
-});
\ No newline at end of file
+
+  it('shows a streaming caret only while the reply is streaming', () => {
+    const { rerender } = render(<MessageBubble message={mockAssistantMessage} isStreaming />);
+
+    expect(screen.getByLabelText('Response streaming')).toBeInTheDocument();
+
+    rerender(<MessageBubble message={mockAssistantMessage} />);
+
+    expect(screen.queryByLabelText('Response streaming')).not.toBeInTheDocument();
+  });
+});
@@ -8,14 +8,17 @@ import {
   Trash2, 
   Search,
   Filter,
-  ExternalLink
+  ExternalLink,
+  Download
 } from 'lucide-react';
 import { 
   ComparisonResult, 
   MultiPhoneComparison, 
   SavedComparison, 
-  ComparisonHistoryEntry 
+  ComparisonHistoryEntry,
+  ComparisonExportFormat
 } from '@/types/comparison';
+import { Region } from '@/types/phone';
 import { Button } from '@/components/ui/Button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
 import { Input } from '@/components/ui/Input';
@@ -23,12 +26,17 @@ import { Badge } from '@/components/ui/Badge';
 import { Modal } from '@/components/ui/Modal';
 import { cn } from '@/utils';
 import { comparisonManager } from '@/services/comparisonManager';
+import { EXPORT_FORMATS, downloadComparisonExport, exportComparison } from '@/services/comparisonExport';
+import { DEFAULT_REGION, REGIONS } from '@/services/regions';
 
 interface ComparisonManagerProps {
   currentComparison?: ComparisonResult | MultiPhoneComparison;
   onStartNewComparison: () => void;
   onLoadComparison: (comparison: ComparisonResult | MultiPhoneComparison) => void;
   onModifySelection: (phoneIndex: number) => void;
+  region?: Region;
+  onRegionChange?: (region: Region) => void; // Shows the region selector; re-run the comparison with the new region
+  userId?: string;
   className?: string;
 }
 
@@ -37,6 +45,9 @@ export const ComparisonManager: React.FC<ComparisonManagerProps> = ({
   onStartNewComparison,
   onLoadComparison,
   onModifySelection,
+  region = DEFAULT_REGION,
+  onRegionChange,
+  userId,
   className,
 }) => {
   const [activeTab, setActiveTab] = useState<'current' | 'history' | 'saved'>('current');
@@ -44,14 +55,41 @@ export const ComparisonManager: React.FC<ComparisonManagerProps> = ({
   const [showShareModal, setShowShareModal] = useState(false);
   const [showSaveModal, setShowSaveModal] = useState(false);
   const [saveTitle, setSaveTitle] = useState('');
+  const [exportTarget, setExportTarget] = useState<ComparisonResult | MultiPhoneComparison | null>(null);
   const [comparisonHistory, setComparisonHistory] = useState<ComparisonHistoryEntry[]>([]);
   const [savedComparisons, setSavedComparisons] = useState<SavedComparison[]>([]);
+  const [searchResults, setSearchResults] = useState<SavedComparison[]>([]);
+
+  // Without a user, the browser's anonymous session owns saved comparisons
+  const owner = userId ? { userId } : {};
 
   useEffect(() => {
     // Load comparison history and saved comparisons
-    setComparisonHistory(comparisonManager.getComparisonHistory());
-    setSavedComparisons(comparisonManager.getSavedComparisons());
-  }, []);
+    comparisonManager.getComparisonHistory(owner)
+      .then(setComparisonHistory)
+      .catch(error => console.error('Failed to load comparison history:', error));
+    comparisonManager.getSavedComparisons(owner)
+      .then(setSavedComparisons)
+      .catch(error => console.error('Failed to load saved comparisons:', error));
+  }, [userId]);
+
+  useEffect(() => {
+    if (!searchQuery) {
+      setSearchResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    comparisonManager.searchSavedComparisons(searchQuery, owner)
+      .then(results => {
+        if (!cancelled) setSearchResults(results);
+      })
+      .catch(error => console.error('Failed to search saved comparisons:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [searchQuery, userId, savedComparisons]);
 
   const handleSaveComparison = async () => {
     if (!currentComparison) return;
@@ -59,7 +97,8 @@ export const ComparisonManager: React.FC<ComparisonManagerProps> = ({
     try {
       const saved = await comparisonManager.saveComparison(
         currentComparison,
-        saveTitle || undefined
+        owner,
+        { title: saveTitle || undefined }
       );
       setSavedComparisons(prev => [saved, ...prev]);
       setShowSaveModal(false);
@@ -69,8 +108,8 @@ export const ComparisonManager: React.FC<ComparisonManagerProps> = ({
     }
   };
 
-  const handleDeleteSaved = (comparisonId: string) => {
-    const success = comparisonManager.deleteSavedComparison(comparisonId);
+  const handleDeleteSaved = async (comparisonId: string) => {
+    const success = await comparisonManager.deleteSavedComparison(comparisonId, owner);
     if (success) {
       setSavedComparisons(prev => prev.filter(comp => comp.id !== comparisonId));
     }
@@ -81,10 +120,10 @@ export const ComparisonManager: React.FC<ComparisonManagerProps> = ({
 
     try {
       if (platform === 'copy') {
-        await comparisonManager.copyComparisonLink(currentComparison);
+        await comparisonManager.copyComparisonLink(currentComparison, owner);
         // Show toast notification
       } else {
-        const shareUrl = await comparisonManager.shareToSocialMedia(currentComparison, platform);
+        const shareUrl = await comparisonManager.shareToSocialMedia(currentComparison, platform, owner);
         window.open(shareUrl, '_blank');
       }
       setShowShareModal(false);
@@ -93,9 +132,18 @@ export const ComparisonManager: React.FC<ComparisonManagerProps> = ({
     }
   };
 
-  const filteredSavedComparisons = searchQuery
-    ? comparisonManager.searchSavedComparisons(searchQuery)
-    : savedComparisons;
+  const handleExport = (format: ComparisonExportFormat) => {
+    if (!exportTarget) return;
+
+    try {
+      downloadComparisonExport(exportComparison(exportTarget, format));
+      setExportTarget(null);
+    } catch (error) {
+      console.error('Failed to export comparison:', error);
+    }
+  };
+
+  const filteredSavedComparisons = searchQuery ? searchResults : savedComparisons;
 
   const filteredHistory = searchQuery
     ? comparisonHistory.filter(entry =>
@@ -113,6 +161,20 @@ export const ComparisonManager: React.FC<ComparisonManagerProps> = ({
           <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
             <CardTitle>Comparison Manager</CardTitle>
             <div className="flex gap-2">
+              {onRegionChange && (
+                <select
+                  aria-label="Pricing region"
+                  value={region}
+                  onChange={(e) => onRegionChange(e.target.value as Region)}
+                  className="h-8 rounded-md border border-border bg-background px-2 text-sm"
+                >
+                  {Object.values(REGIONS).map(({ code, name, currency }) => (
+                    <option key={code} value={code}>
+                      {name} ({currency})
+                    </option>
+                  ))}
+                </select>
+              )}
               <Button
                 variant="primary"
                 size="sm"
@@ -139,6 +201,14 @@ export const ComparisonManager: React.FC<ComparisonManagerProps> = ({
                   >
                     Share
                   </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setExportTarget(currentComparison)}
+                    leftIcon={<Download className="w-4 h-4" />}
+                  >
+                    Export
+                  </Button>
                 </>
               )}
             </div>
@@ -189,6 +259,7 @@ export const ComparisonManager: React.FC<ComparisonManagerProps> = ({
               searchQuery={searchQuery}
               onSearchChange={setSearchQuery}
               onLoadComparison={onLoadComparison}
+              onExportSaved={setExportTarget}
               onDeleteSaved={handleDeleteSaved}
             />
           )}
@@ -271,6 +342,30 @@ export const ComparisonManager: React.FC<ComparisonManagerProps> = ({
           </div>
         </div>
       </Modal>
+
+      {/* Export Modal */}
+      <Modal
+        isOpen={exportTarget !== null}
+        onClose={() => setExportTarget(null)}
+        title="Export Comparison"
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-foreground/70">
+            Download this comparison for reports and documents
+          </p>
+          <div className="grid grid-cols-3 gap-3">
+            {(Object.keys(EXPORT_FORMATS) as ComparisonExportFormat[]).map((format) => (
+              <Button
+                key={format}
+                variant="outline"
+                onClick={() => handleExport(format)}
+              >
+                {EXPORT_FORMATS[format].label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </Modal>
     </div>
   );
 };
@@ -400,6 +495,7 @@ interface SavedTabProps {
   searchQuery: string;
   onSearchChange: (query: string) => void;
   onLoadComparison: (comparison: ComparisonResult | MultiPhoneComparison) => void;
+  onExportSaved: (comparison: ComparisonResult | MultiPhoneComparison) => void;
   onDeleteSaved: (comparisonId: string) => void;
 }
 
@@ -408,6 +504,7 @@ const SavedTab: React.FC<SavedTabProps> = ({
   searchQuery,
   onSearchChange,
   onLoadComparison,
+  onExportSaved,
   onDeleteSaved,
 }) => {
   return (
@@ -458,6 +555,14 @@ const SavedTab: React.FC<SavedTabProps> = ({
                 >
                   Load
                 </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onExportSaved(saved.result)}
+                  leftIcon={<Download className="w-4 h-4" />}
+                >
+                  Export
+                </Button>
                 <Button
                   variant="outline"
                   size="sm"
@@ -205,12 +205,17 @@ export const MultiPhoneComparisonDisplay: React.FC<MultiPhoneComparisonProps> =
                     category.comparisons.map((spec, index) => (
                       <tr key={`${category.name}-${index}`} className="border-b border-border/30">
                         <td className="p-3 font-medium">{spec.category}</td>
-                        {phones.map((phone) => (
-                          <td key={phone.id} className="p-3 text-center">
-                            {/* This would need to be implemented based on the spec structure */}
-                            <span className="text-sm">-</span>
-                          </td>
-                        ))}
+                        {phones.map((phone) => {
+                          const value = spec.values?.[phone.id];
+                          const isWinner = spec.winnerIds?.includes(phone.id);
+                          return (
+                            <td key={phone.id} className="p-3 text-center">
+                              <span className={`text-sm ${isWinner ? 'font-semibold text-success' : ''}`}>
+                                {value === undefined || value === null || value === '' ? '-' : String(value)}
+                              </span>
+                            </td>
+                          );
+                        })}
                       </tr>
                     ))
                   )}
@@ -308,13 +313,13 @@ const MultiCategoryComparison: React.FC<MultiCategoryComparisonProps> = ({
                     <div className="flex justify-between items-center">
                       <span className="text-sm text-foreground/60">Category Score</span>
                       <span className="font-semibold">
-                        {Math.round((phoneScore[category.name] || 0) * 100)}%
+                        {Math.round(phoneScore[category.name] || 0)}/100
                       </span>
                     </div>
                     <div className="w-full bg-border rounded-full h-2">
                       <div
                         className="bg-primary h-2 rounded-full transition-all"
-                        style={{ width: `${(phoneScore[category.name] || 0) * 100}%` }}
+                        style={{ width: `${Math.min(phoneScore[category.name] || 0, 100)}%` }}
                       />
                     </div>
                   </div>
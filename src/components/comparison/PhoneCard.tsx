@@ -5,12 +5,15 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card'
 import { Button } from '@/components/ui/Button'
 import { Badge } from '@/components/ui/Badge'
 import { cn } from '@/utils'
+import { PriceHistoryChart } from '@/components/phone/PriceHistoryChart'
+import { formatPrice } from '@/services/regions'
 
 interface PhoneCardProps {
   phone: Phone
   score: PhoneScores
   isWinner?: boolean
   onModify?: () => void
+  showPriceHistory?: boolean
   className?: string
 }
 
@@ -19,19 +22,12 @@ export const PhoneCard: React.FC<PhoneCardProps> = ({
   score,
   isWinner = false,
   onModify,
+  showPriceHistory = false,
   className,
 }) => {
   const [imageError, setImageError] = useState(false)
   const [imageLoading, setImageLoading] = useState(true)
 
-  const formatPrice = (price: number) => {
-    return new Intl.NumberFormat('en-IN', {
-      style: 'currency',
-      currency: 'INR',
-      maximumFractionDigits: 0,
-    }).format(price)
-  }
-
   const getAvailabilityBadge = (availability: string) => {
     const variants = {
       available: 'success',
@@ -146,7 +142,7 @@ export const PhoneCard: React.FC<PhoneCardProps> = ({
             <div className="flex items-center gap-2 text-sm">
               <DollarSign className="w-4 h-4 text-foreground/60" />
               <span className="font-medium text-primary">
-                {formatPrice(phone.pricing.currentPrice)}
+                {formatPrice(phone.pricing.currentPrice, phone.pricing.currency)}
               </span>
             </div>
           </div>
@@ -199,6 +195,10 @@ export const PhoneCard: React.FC<PhoneCardProps> = ({
             <ScoreItem label="Value" score={score.value} />
           </div>
         </div>
+
+        {showPriceHistory && (
+          <PriceHistoryChart phones={[phone]} region={phone.pricing.region} className="shadow-none" />
+        )}
       </CardContent>
     </Card>
   )
@@ -1,39 +1,48 @@
+'use client'
+
 import React, { useState } from 'react'
-import { Share2, TrendingUp, TrendingDown, Minus, ExternalLink, Bookmark, Plus } from 'lucide-react'
-import { ComparisonResult, ComparisonCategory, SpecComparison } from '@/types/comparison'
+import { Share2, TrendingUp, TrendingDown, Minus, ExternalLink, Bookmark, Plus, Download } from 'lucide-react'
+import { ComparisonResult, ComparisonCategory, ComparisonExportFormat, SpecComparison } from '@/types/comparison'
 import { Phone } from '@/types/phone'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card'
 import { Button } from '@/components/ui/Button'
 import { Badge } from '@/components/ui/Badge'
 import { cn } from '@/utils'
+import { EXPORT_FORMATS, downloadComparisonExport, exportComparison } from '@/services/comparisonExport'
 import { PhoneCard } from './PhoneCard'
 import { SpecificationChart } from './SpecificationChart'
 import { CategoryComparison } from './CategoryComparison'
 import { ComparisonInsights } from './ComparisonInsights'
+import { PriceHistoryChart } from '@/components/phone/PriceHistoryChart'
 
 interface PhoneComparisonDisplayProps {
   comparison: ComparisonResult
   onShare?: (comparison: ComparisonResult) => void
+  onExport?: (comparison: ComparisonResult, format: ComparisonExportFormat) => void
   onNewComparison?: () => void
   onModifySelection?: (phoneIndex: 0 | 1) => void
   onSaveComparison?: (comparison: ComparisonResult) => void
   onAddToComparison?: () => void
   showManagementActions?: boolean
+  showPriceHistory?: boolean
   className?: string
 }
 
 export const PhoneComparisonDisplay: React.FC<PhoneComparisonDisplayProps> = ({
   comparison,
   onShare,
+  onExport,
   onNewComparison,
   onModifySelection,
   onSaveComparison,
   onAddToComparison,
   showManagementActions = true,
+  showPriceHistory = true,
   className,
 }) => {
   const [activeCategory, setActiveCategory] = useState<string>('display')
   const [showInsights, setShowInsights] = useState(false)
+  const [showExportMenu, setShowExportMenu] = useState(false)
 
   const { phones, categories, scores, overallWinner, insights, summary } = comparison
 
@@ -62,6 +71,15 @@ export const PhoneComparisonDisplay: React.FC<PhoneComparisonDisplayProps> = ({
     }
   }
 
+  const handleExport = (format: ComparisonExportFormat) => {
+    setShowExportMenu(false)
+    if (onExport) {
+      onExport(comparison, format)
+    } else {
+      downloadComparisonExport(exportComparison(comparison, format))
+    }
+  }
+
   const getWinnerIndicator = (winner?: 'phone1' | 'phone2' | 'tie') => {
     switch (winner) {
       case 'phone1':
@@ -100,6 +118,35 @@ export const PhoneComparisonDisplay: React.FC<PhoneComparisonDisplayProps> = ({
             </div>
             <div className="flex flex-wrap gap-2">
               {getOverallWinnerBadge()}
+              <div className="relative">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowExportMenu(open => !open)}
+                  leftIcon={<Download className="w-4 h-4" />}
+                  aria-haspopup="menu"
+                  aria-expanded={showExportMenu}
+                >
+                  Export
+                </Button>
+                {showExportMenu && (
+                  <div
+                    role="menu"
+                    className="absolute right-0 z-10 mt-2 w-40 rounded-lg border border-border bg-background p-1 shadow-lg"
+                  >
+                    {(Object.keys(EXPORT_FORMATS) as ComparisonExportFormat[]).map(format => (
+                      <button
+                        key={format}
+                        role="menuitem"
+                        onClick={() => handleExport(format)}
+                        className="w-full rounded-md px-3 py-2 text-left text-sm hover:bg-secondary"
+                      >
+                        {EXPORT_FORMATS[format].label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
               {showManagementActions && (
                 <>
                   <Button
@@ -177,6 +224,9 @@ export const PhoneComparisonDisplay: React.FC<PhoneComparisonDisplayProps> = ({
         </CardContent>
       </Card>
 
+      {/* Price History */}
+      {showPriceHistory && <PriceHistoryChart phones={phones} />}
+
       {/* Category Navigation */}
       <Card variant="elevated">
         <CardContent className="p-4">
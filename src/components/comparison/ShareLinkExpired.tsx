@@ -0,0 +1,36 @@
+import React from 'react'
+import { Clock, ExternalLink } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card'
+import { cn } from '@/utils'
+
+interface ShareLinkExpiredProps {
+  className?: string
+}
+
+export const ShareLinkExpired: React.FC<ShareLinkExpiredProps> = ({ className }) => {
+  return (
+    <div className={cn('min-h-screen bg-background', className)}>
+      <div className="container mx-auto px-4 py-16 max-w-xl">
+        <Card variant="elevated">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Clock className="w-5 h-5" />
+              This share link has expired
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-muted-foreground">
+              The person who shared this comparison set it to expire. Ask them for a new link, or compare the phones yourself.
+            </p>
+            <a href="/" className="inline-flex items-center gap-2 text-primary font-medium">
+              <ExternalLink className="w-4 h-4" />
+              Start New Comparison
+            </a>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
+
+export default ShareLinkExpired
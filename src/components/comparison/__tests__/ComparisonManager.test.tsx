@@ -3,6 +3,7 @@ import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { vi, describe, it, expect, beforeEach } from 'vitest';
 import ComparisonManager from '../ComparisonManager';
 import { comparisonManager } from '@/services/comparisonManager';
+import { downloadComparisonExport } from '@/services/comparisonExport';
 import { ComparisonResult } from '@/types/comparison';
 
 // Mock the comparison manager service
@@ -18,6 +19,12 @@ vi.mock('@/services/comparisonManager', () => ({
   },
 }));
 
+// Keep the real formatters but skip the browser download
+vi.mock('@/services/comparisonExport', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/services/comparisonExport')>()),
+  downloadComparisonExport: vi.fn(),
+}));
+
 const mockComparison: ComparisonResult = {
   id: 'test-comparison-1',
   phones: [
@@ -67,8 +74,9 @@ describe('ComparisonManager', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
-    (comparisonManager.getComparisonHistory as any).mockReturnValue([]);
-    (comparisonManager.getSavedComparisons as any).mockReturnValue([]);
+    (comparisonManager.getComparisonHistory as any).mockResolvedValue([]);
+    (comparisonManager.getSavedComparisons as any).mockResolvedValue([]);
+    (comparisonManager.searchSavedComparisons as any).mockResolvedValue([]);
   });
 
   it('renders comparison manager with tabs', () => {
@@ -146,7 +154,8 @@ describe('ComparisonManager', () => {
     await waitFor(() => {
       expect(comparisonManager.saveComparison).toHaveBeenCalledWith(
         mockComparison,
-        'My Test Comparison'
+        {},
+        { title: 'My Test Comparison' }
       );
     });
   });
@@ -179,7 +188,7 @@ describe('ComparisonManager', () => {
     expect(mockProps.onModifySelection).toHaveBeenCalledWith(0);
   });
 
-  it('handles search in saved comparisons', () => {
+  it('handles search in saved comparisons', async () => {
     const mockSavedComparisons = [
       {
         id: 'saved-1',
@@ -192,8 +201,8 @@ describe('ComparisonManager', () => {
       },
     ];
     
-    (comparisonManager.getSavedComparisons as any).mockReturnValue(mockSavedComparisons);
-    (comparisonManager.searchSavedComparisons as any).mockReturnValue(mockSavedComparisons);
+    (comparisonManager.getSavedComparisons as any).mockResolvedValue(mockSavedComparisons);
+    (comparisonManager.searchSavedComparisons as any).mockResolvedValue(mockSavedComparisons);
     
     render(<ComparisonManager {...mockProps} />);
     
@@ -204,7 +213,9 @@ describe('ComparisonManager', () => {
     const searchInput = screen.getByPlaceholderText('Search saved...');
     fireEvent.change(searchInput, { target: { value: 'iPhone' } });
     
-    expect(comparisonManager.searchSavedComparisons).toHaveBeenCalledWith('iPhone');
+    await waitFor(() => {
+      expect(comparisonManager.searchSavedComparisons).toHaveBeenCalledWith('iPhone', {});
+    });
   });
 
   it('deletes saved comparison', async () => {
@@ -220,8 +231,8 @@ describe('ComparisonManager', () => {
       },
     ];
     
-    (comparisonManager.getSavedComparisons as any).mockReturnValue(mockSavedComparisons);
-    (comparisonManager.deleteSavedComparison as any).mockReturnValue(true);
+    (comparisonManager.getSavedComparisons as any).mockResolvedValue(mockSavedComparisons);
+    (comparisonManager.deleteSavedComparison as any).mockResolvedValue(true);
     
     render(<ComparisonManager {...mockProps} />);
     
@@ -229,10 +240,13 @@ describe('ComparisonManager', () => {
     fireEvent.click(screen.getByText('Saved'));
     
     // Delete comparison
-    const deleteBtn = screen.getByText('Delete');
+    const deleteBtn = await screen.findByText('Delete');
     fireEvent.click(deleteBtn);
     
-    expect(comparisonManager.deleteSavedComparison).toHaveBeenCalledWith('saved-1');
+    expect(comparisonManager.deleteSavedComparison).toHaveBeenCalledWith('saved-1', {});
+    await waitFor(() => {
+      expect(screen.queryByText('iPhone vs Samsung')).not.toBeInTheDocument();
+    });
   });
 
   it('handles social media sharing', async () => {
@@ -254,7 +268,8 @@ describe('ComparisonManager', () => {
     await waitFor(() => {
       expect(comparisonManager.shareToSocialMedia).toHaveBeenCalledWith(
         mockComparison,
-        'twitter'
+        'twitter',
+        {}
       );
       expect(mockOpen).toHaveBeenCalledWith(mockShareUrl, '_blank');
     });
@@ -273,7 +288,20 @@ describe('ComparisonManager', () => {
     fireEvent.click(screen.getByText('Copy Link'));
     
     await waitFor(() => {
-      expect(comparisonManager.copyComparisonLink).toHaveBeenCalledWith(mockComparison);
+      expect(comparisonManager.copyComparisonLink).toHaveBeenCalledWith(mockComparison, {});
     });
   });
-});
\ No newline at end of file
+
+  it('exports the current comparison in the chosen format', () => {
+    render(<ComparisonManager {...mockProps} />);
+
+    fireEvent.click(screen.getByText('Export'));
+    fireEvent.click(screen.getByText('Markdown'));
+
+    expect(downloadComparisonExport).toHaveBeenCalledWith(expect.objectContaining({
+      filename: 'apple-iphone-15-pro-vs-samsung-galaxy-s24-ultra-comparison.md',
+      contentType: 'text/markdown; charset=utf-8',
+    }));
+    expect(screen.queryByText('Export Comparison')).not.toBeInTheDocument();
+  });
+});
@@ -6,6 +6,7 @@ export { default as CategoryComparison } from './CategoryComparison'
 export { default as ComparisonInsights } from './ComparisonInsights'
 export { default as ComparisonManager } from './ComparisonManager'
 export { default as MultiPhoneComparisonDisplay } from './MultiPhoneComparison'
+export { default as ShareLinkExpired } from './ShareLinkExpired'
 
 // Re-export types for convenience
 export type {
@@ -7,7 +7,8 @@ import { Card } from '../ui/Card';
 import { Spinner } from '../ui/Spinner';
 import { cn } from '@/utils';
 import { usePhoneSelection } from '@/hooks/usePhoneSelection';
-import { Brand, Phone, PhoneSelection } from '@/types/phone';
+import { Brand, Phone, PhoneSelection, PhoneVariant } from '@/types/phone';
+import { formatVariantLabel } from '@/services/variants';
 import { SearchIcon, XIcon, CheckIcon } from 'lucide-react';
 
 interface PhoneSelectorProps {
@@ -29,11 +30,13 @@ export function PhoneSelector({
     brands,
     models,
     suggestions,
+    variants,
     isLoading,
     error,
     searchBrands,
     searchModels,
     getSuggestions,
+    loadVariants,
     validateSelection,
     clearError,
   } = usePhoneSelection();
@@ -75,9 +78,10 @@ export function PhoneSelector({
   // Handle brand input change
   const handleBrandChange = (value: string) => {
     setBrandQuery(value);
-    const newSelection = { ...selection, brand: value, model: '', variant: '' };
+    const newSelection = { ...selection, brand: value, model: '', variant: '', variantId: undefined };
     setSelection(newSelection);
     setModelQuery('');
+    loadVariants('', '');
     clearError();
     
     if (value !== selection.brand) {
@@ -91,8 +95,9 @@ export function PhoneSelector({
   // Handle model input change
   const handleModelChange = (value: string) => {
     setModelQuery(value);
-    const newSelection = { ...selection, model: value, variant: '' };
+    const newSelection = { ...selection, model: value, variant: '', variantId: undefined };
     setSelection(newSelection);
+    loadVariants('', '');
     clearError();
     
     if (value !== selection.model) {
@@ -108,9 +113,10 @@ export function PhoneSelector({
   // Handle brand selection from suggestions
   const handleBrandSelect = (brand: Brand) => {
     setBrandQuery(brand.name);
-    const newSelection = { ...selection, brand: brand.name, model: '', variant: '' };
+    const newSelection = { ...selection, brand: brand.name, model: '', variant: '', variantId: undefined };
     setSelection(newSelection);
     setModelQuery('');
+    loadVariants('', '');
     setShowBrandSuggestions(false);
     setValidationErrors([]);
     onSelectionChange?.(newSelection);
@@ -119,10 +125,21 @@ export function PhoneSelector({
   // Handle model selection from suggestions
   const handleModelSelect = (model: string) => {
     setModelQuery(model);
-    const newSelection = { ...selection, model };
+    const newSelection = { ...selection, model, variantId: undefined };
     setSelection(newSelection);
     setShowModelSuggestions(false);
     setValidationErrors([]);
+    if (selection.brand) {
+      loadVariants(selection.brand, model);
+    }
+    onSelectionChange?.(newSelection);
+  };
+
+  // Handle variant selection; choosing the selected variant again clears it
+  const handleVariantSelect = (variant: PhoneVariant) => {
+    const variantId = selection.variantId === variant.id ? undefined : variant.id;
+    const newSelection = { ...selection, variantId };
+    setSelection(newSelection);
     onSelectionChange?.(newSelection);
   };
 
@@ -151,6 +168,7 @@ export function PhoneSelector({
       brand: selection.brand,
       model: selection.model,
       variant: selection.variant,
+      ...(selection.variantId && { variantId: selection.variantId }),
     });
   };
 
@@ -164,6 +182,7 @@ export function PhoneSelector({
       variant: phone.variant,
     };
     setSelection(newSelection);
+    loadVariants(phone.brand, phone.model);
     setShowBrandSuggestions(false);
     setShowModelSuggestions(false);
     setValidationErrors([]);
@@ -175,6 +194,7 @@ export function PhoneSelector({
     setBrandQuery('');
     setModelQuery('');
     setSelection({});
+    loadVariants('', '');
     setShowBrandSuggestions(false);
     setShowModelSuggestions(false);
     setValidationErrors([]);
@@ -184,6 +204,7 @@ export function PhoneSelector({
 
   // Check if selection is complete
   const isSelectionComplete = selection.brand && selection.model;
+  const selectedVariant = variants.find(variant => variant.id === selection.variantId);
 
   return (
     <div className={cn('space-y-4', className)}>
@@ -306,6 +327,37 @@ export function PhoneSelector({
         )}
       </div>
 
+      {/* Variant Selection */}
+      {selection.model && variants.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-muted-foreground">Configuration</h4>
+          <div className="flex flex-wrap gap-2" role="group" aria-label="Phone Variant">
+            {variants.map((variant) => (
+              <button
+                key={variant.id}
+                type="button"
+                onClick={() => handleVariantSelect(variant)}
+                aria-pressed={selection.variantId === variant.id}
+                disabled={disabled}
+                className={cn(
+                  'px-3 py-2 border rounded-lg text-left transition-colors',
+                  selection.variantId === variant.id
+                    ? 'border-primary bg-primary/10'
+                    : 'border-border hover:border-primary/50 hover:bg-accent/50'
+                )}
+              >
+                <span className="block text-sm font-medium">{formatVariantLabel(variant)}</span>
+                {variant.currentPrice !== undefined && (
+                  <span className="block text-xs text-muted-foreground">
+                    ₹{variant.currentPrice.toLocaleString()}
+                  </span>
+                )}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Error Display */}
       {error && (
         <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
@@ -389,7 +441,9 @@ export function PhoneSelector({
           <p className="text-sm">
             <span className="font-medium">Selected:</span>{' '}
             {selection.brand} {selection.model}
-            {selection.variant && ` ${selection.variant}`}
+            {selectedVariant
+              ? ` (${formatVariantLabel(selectedVariant)})`
+              : selection.variant && ` ${selection.variant}`}
           </p>
         </div>
       )}
@@ -0,0 +1,259 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/Card';
+import { Button } from '../ui/Button';
+import { Spinner } from '../ui/Spinner';
+import { cn } from '@/utils';
+import { phoneSelectionService } from '@/services/phoneSelection';
+import { DEFAULT_REGION, REGIONS, convertPrice, formatPrice } from '@/services/regions';
+import { getConfigurationKey } from '@/services/variants';
+import { Phone, PriceHistory, Region } from '@/types/phone';
+
+interface PriceHistoryChartProps {
+  phones: Array<Pick<Phone, 'id' | 'brand' | 'model' | 'selectedVariantId'>>;
+  initialDays?: number;
+  region?: Region; // Prices are recorded in the default region and converted for others
+  className?: string;
+}
+
+const RANGE_OPTIONS = [
+  { days: 30, label: '30D' },
+  { days: 90, label: '90D' },
+  { days: 365, label: '1Y' },
+];
+
+// One colour per phone, in comparison order
+const SERIES_COLORS = ['text-primary', 'text-blue-500', 'text-emerald-500', 'text-purple-500', 'text-amber-500'];
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 220;
+const CHART_PADDING = { top: 16, right: 16, bottom: 24, left: 64 };
+
+const formatDate = (date: Date) => {
+  return date.toLocaleDateString('en-IN', { day: 'numeric', month: 'short' });
+};
+
+/**
+ * Best recorded price over time for one or more phones, with each phone's
+ * all-time low marked
+ */
+export const PriceHistoryChart: React.FC<PriceHistoryChartProps> = ({
+  phones,
+  initialDays = 90,
+  region = DEFAULT_REGION,
+  className,
+}) => {
+  const [days, setDays] = useState(initialDays);
+  const [histories, setHistories] = useState<Array<PriceHistory | null>>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // A phone pinned to a variant charts that variant's listings only
+  const phoneIds = phones.map(getConfigurationKey).join(',');
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    Promise.all(phones.map(phone => phoneSelectionService.getPriceHistory(phone.id, days, phone.selectedVariantId)))
+      .then(results => {
+        if (!cancelled) setHistories(results);
+      })
+      .catch(() => {
+        if (!cancelled) setError('Price history is unavailable right now');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [phoneIds, days]);
+
+  const series = phones.map((phone, index) => ({
+    phone,
+    color: SERIES_COLORS[index % SERIES_COLORS.length],
+    history: histories[index] ?? null,
+  }));
+  const hasData = series.some(({ history }) => history && history.lowest.length > 0);
+
+  const { currency } = REGIONS[region];
+  const formatRegionalPrice = (price: number) =>
+    formatPrice(convertPrice(price, REGIONS[DEFAULT_REGION].currency, currency), currency);
+
+  return (
+    <Card variant="elevated" className={cn('w-full', className)}>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="text-lg">Price History</CardTitle>
+          <div className="flex gap-1" role="group" aria-label="Price history range">
+            {RANGE_OPTIONS.map(option => (
+              <Button
+                key={option.days}
+                variant={days === option.days ? 'primary' : 'ghost'}
+                size="sm"
+                onClick={() => setDays(option.days)}
+                aria-pressed={days === option.days}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Spinner />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-foreground/60 text-center py-12">{error}</p>
+        ) : !hasData ? (
+          <p className="text-sm text-foreground/60 text-center py-12">No price history recorded yet</p>
+        ) : (
+          <>
+            <PriceChart series={series} formatPrice={formatRegionalPrice} />
+            <div className="grid gap-3 mt-4 sm:grid-cols-2">
+              {series.map(({ phone, color, history }) => (
+                <PriceStats
+                  key={phone.id}
+                  name={`${phone.brand} ${phone.model}`}
+                  color={color}
+                  history={history}
+                  formatPrice={formatRegionalPrice}
+                />
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+type PriceFormatter = (price: number) => string;
+
+interface ChartSeries {
+  phone: Pick<Phone, 'id' | 'brand' | 'model'>;
+  color: string;
+  history: PriceHistory | null;
+}
+
+const PriceChart: React.FC<{ series: ChartSeries[]; formatPrice: PriceFormatter }> = ({ series, formatPrice }) => {
+  const withData = series.filter(({ history }) => history && history.lowest.length > 0);
+  const allPoints = withData.flatMap(({ history }) => history!.lowest);
+  const from = Math.min(...withData.map(({ history }) => history!.from.getTime()));
+  const to = Math.max(...withData.map(({ history }) => history!.to.getTime()));
+  const prices = allPoints.map(point => point.price);
+  const spread = Math.max(...prices) - Math.min(...prices);
+  const minPrice = Math.min(...prices) - (spread * 0.1 || 1000);
+  const maxPrice = Math.max(...prices) + (spread * 0.1 || 1000);
+
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+  const x = (date: Date) => CHART_PADDING.left + ((date.getTime() - from) / Math.max(to - from, 1)) * plotWidth;
+  const y = (price: number) => CHART_PADDING.top + (1 - (price - minPrice) / (maxPrice - minPrice)) * plotHeight;
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      className="w-full h-auto"
+      role="img"
+      aria-label="Price history chart"
+    >
+      {/* Price gridlines */}
+      {[0, 0.5, 1].map(fraction => {
+        const price = minPrice + (maxPrice - minPrice) * fraction;
+        return (
+          <g key={fraction} className="text-foreground/40">
+            <line
+              x1={CHART_PADDING.left}
+              x2={CHART_WIDTH - CHART_PADDING.right}
+              y1={y(price)}
+              y2={y(price)}
+              stroke="currentColor"
+              strokeOpacity={0.3}
+            />
+            <text x={CHART_PADDING.left - 8} y={y(price) + 4} textAnchor="end" fontSize={11} fill="currentColor">
+              {formatPrice(price)}
+            </text>
+          </g>
+        );
+      })}
+      <g className="text-foreground/40">
+        <text x={CHART_PADDING.left} y={CHART_HEIGHT - 6} fontSize={11} fill="currentColor">
+          {formatDate(new Date(from))}
+        </text>
+        <text x={CHART_WIDTH - CHART_PADDING.right} y={CHART_HEIGHT - 6} textAnchor="end" fontSize={11} fill="currentColor">
+          {formatDate(new Date(to))}
+        </text>
+      </g>
+
+      {withData.map(({ phone, color, history }) => {
+        const points = history!.lowest;
+        const allTimeLow = history!.stats?.allTimeLow;
+        // Only marked when the all-time low falls inside the visible range
+        const showLow = allTimeLow && allTimeLow.date.getTime() >= from;
+
+        return (
+          <g key={phone.id} className={color}>
+            <polyline
+              points={points.map(point => `${x(point.date)},${y(point.price)}`).join(' ')}
+              fill="none"
+              stroke="currentColor"
+              strokeWidth={2}
+              strokeLinejoin="round"
+            />
+            {showLow && (
+              <g data-testid={`all-time-low-${phone.id}`}>
+                <circle cx={x(allTimeLow.date)} cy={y(allTimeLow.price)} r={5} fill="currentColor" />
+                <title>
+                  {`All-time low for ${phone.brand} ${phone.model}: ${formatPrice(allTimeLow.price)} at ${allTimeLow.retailer}`}
+                </title>
+              </g>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+const PriceStats: React.FC<{ name: string; color: string; history: PriceHistory | null; formatPrice: PriceFormatter }> = ({
+  name,
+  color,
+  history,
+  formatPrice,
+}) => {
+  const stats = history?.stats;
+
+  return (
+    <div className="p-3 border border-border rounded-lg">
+      <div className={cn('font-medium text-sm mb-2', color)}>{name}</div>
+      {stats ? (
+        <dl className="grid grid-cols-2 gap-x-3 gap-y-1 text-sm">
+          <dt className="text-foreground/60">Current</dt>
+          <dd className="text-right">{formatPrice(stats.latest)}</dd>
+          <dt className="text-foreground/60">Low / High</dt>
+          <dd className="text-right">{formatPrice(stats.min)} / {formatPrice(stats.max)}</dd>
+          <dt className="text-foreground/60">Average</dt>
+          <dd className="text-right">{formatPrice(stats.average)}</dd>
+          <dt className="text-foreground/60">All-time low</dt>
+          <dd className="text-right font-medium text-success">
+            {formatPrice(stats.allTimeLow.price)}
+            <span className="block text-xs text-foreground/60 font-normal">
+              {stats.allTimeLow.retailer}, {formatDate(stats.allTimeLow.date)}
+            </span>
+          </dd>
+        </dl>
+      ) : (
+        <p className="text-sm text-foreground/60">No prices recorded in this range</p>
+      )}
+    </div>
+  );
+};
+
+export default PriceHistoryChart;
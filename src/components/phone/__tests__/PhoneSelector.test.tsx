@@ -49,11 +49,13 @@ const mockHookReturn = {
   brands: [],
   models: [],
   suggestions: [],
+  variants: [],
   isLoading: false,
   error: null,
   searchBrands: vi.fn(),
   searchModels: vi.fn(),
   getSuggestions: vi.fn(),
+  loadVariants: vi.fn(),
   validateSelection: vi.fn(),
   clearError: vi.fn(),
   reset: vi.fn(),
@@ -425,4 +427,37 @@ describe('PhoneSelector', () => {
     expect(brandInput).toHaveValue('Samsung');
     expect(modelInput).toHaveValue('Galaxy S24');
   });
+
+  it('should pass the chosen variant on completion', async () => {
+    const user = userEvent.setup();
+    mockHookReturn.validateSelection.mockResolvedValue({
+      isValid: true,
+      errors: [],
+      suggestions: [],
+    });
+    mockUsePhoneSelection.mockReturnValue({
+      ...mockHookReturn,
+      variants: [
+        { id: 'variant-1', ramGb: 8, storageGb: 128, currentPrice: 74999 },
+        { id: 'variant-2', ramGb: 8, storageGb: 256, currentPrice: 79999 },
+      ],
+    });
+
+    render(
+      <PhoneSelector
+        onSelectionComplete={mockOnSelectionComplete}
+        initialSelection={{ brand: 'Samsung', model: 'Galaxy S24' }}
+      />
+    );
+
+    await user.click(screen.getByRole('button', { name: /8GB \+ 256GB/ }));
+    await user.click(screen.getByRole('button', { name: 'Select Phone' }));
+
+    expect(mockOnSelectionComplete).toHaveBeenCalledWith({
+      brand: 'Samsung',
+      model: 'Galaxy S24',
+      variant: undefined,
+      variantId: 'variant-2',
+    });
+  });
 });
\ No newline at end of file
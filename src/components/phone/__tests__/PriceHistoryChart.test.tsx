@@ -0,0 +1,95 @@
+import React from 'react';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { PriceHistoryChart } from '../PriceHistoryChart';
+import { phoneSelectionService } from '@/services/phoneSelection';
+import { PriceHistory } from '@/types/phone';
+
+// Mock the phone selection service
+vi.mock('@/services/phoneSelection', () => ({
+  phoneSelectionService: {
+    getPriceHistory: vi.fn(),
+  },
+}));
+
+const mockGetPriceHistory = phoneSelectionService.getPriceHistory as any;
+
+const phones = [
+  { id: 'phone1', brand: 'Samsung', model: 'Galaxy S24' },
+  { id: 'phone2', brand: 'Apple', model: 'iPhone 15' },
+];
+
+const createHistory = (phoneId: string, prices: number[]): PriceHistory => {
+  const points = prices.map((price, index) => ({
+    date: new Date(Date.UTC(2024, 4, index + 1)),
+    price,
+    retailer: 'Flipkart',
+  }));
+  const low = points.reduce((best, point) => (point.price < best.price ? point : best));
+
+  return {
+    phoneId,
+    currency: 'INR',
+    from: new Date(Date.UTC(2024, 3, 20)),
+    to: new Date(Date.UTC(2024, 4, 10)),
+    points,
+    lowest: points,
+    stats: {
+      min: low.price,
+      max: Math.max(...prices),
+      average: Math.round(prices.reduce((sum, price) => sum + price, 0) / prices.length),
+      latest: prices[prices.length - 1],
+      allTimeLow: low,
+    },
+  };
+};
+
+describe('PriceHistoryChart', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('charts each phone and marks its all-time low', async () => {
+    mockGetPriceHistory.mockImplementation(async (phoneId: string) =>
+      phoneId === 'phone1' ? createHistory('phone1', [74999, 71999, 72999]) : createHistory('phone2', [79900, 79900])
+    );
+
+    render(<PriceHistoryChart phones={phones} />);
+
+    expect(await screen.findByRole('img', { name: 'Price history chart' })).toBeInTheDocument();
+    expect(screen.getByTestId('all-time-low-phone1')).toBeInTheDocument();
+    expect(screen.getByTestId('all-time-low-phone2')).toBeInTheDocument();
+    expect(screen.getByText('Samsung Galaxy S24')).toBeInTheDocument();
+    expect(mockGetPriceHistory).toHaveBeenCalledWith('phone1', 90, undefined);
+    expect(mockGetPriceHistory).toHaveBeenCalledWith('phone2', 90, undefined);
+  });
+
+  it('reloads when the range changes', async () => {
+    mockGetPriceHistory.mockResolvedValue(createHistory('phone1', [74999]));
+
+    render(<PriceHistoryChart phones={[phones[0]]} />);
+    await screen.findByRole('img', { name: 'Price history chart' });
+
+    fireEvent.click(screen.getByRole('button', { name: '1Y' }));
+
+    await waitFor(() => {
+      expect(mockGetPriceHistory).toHaveBeenCalledWith('phone1', 365, undefined);
+    });
+  });
+
+  it('shows an empty state without recorded prices', async () => {
+    mockGetPriceHistory.mockResolvedValue(null);
+
+    render(<PriceHistoryChart phones={[phones[0]]} />);
+
+    expect(await screen.findByText('No price history recorded yet')).toBeInTheDocument();
+  });
+
+  it('shows an error when history cannot be loaded', async () => {
+    mockGetPriceHistory.mockRejectedValue(new Error('Network error'));
+
+    render(<PriceHistoryChart phones={[phones[0]]} />);
+
+    expect(await screen.findByText('Price history is unavailable right now')).toBeInTheDocument();
+  });
+});
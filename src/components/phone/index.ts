@@ -1,3 +1,4 @@
 // Phone component exports
 export { PhoneSelector } from './PhoneSelector';
 export { PhoneSelectorExample } from './PhoneSelectorExample';
+export { PriceHistoryChart } from './PriceHistoryChart';
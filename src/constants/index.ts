@@ -1,2 +1,6 @@
-// Application constants will be added here
-export {};
+// Request headers identifying who owns saved comparisons and history
+export const USER_ID_HEADER = 'x-user-id';
+export const SESSION_ID_HEADER = 'x-session-id';
+
+// Browser storage key for the anonymous session ID sent with those requests
+export const SESSION_ID_STORAGE_KEY = 'mobile-matrix-session-id';
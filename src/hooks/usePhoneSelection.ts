@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useCallback } from 'react';
-import { Brand, Phone, PhoneSelection } from '@/types/phone';
+import { Brand, Phone, PhoneSelection, PhoneVariant } from '@/types/phone';
 import { phoneSelectionService } from '@/services/phoneSelection';
 import { ValidationResult } from '@/types/api';
 
@@ -10,6 +10,7 @@ interface UsePhoneSelectionReturn {
   brands: Brand[];
   models: string[];
   suggestions: Phone[];
+  variants: PhoneVariant[];
   isLoading: boolean;
   error: string | null;
   
@@ -17,6 +18,7 @@ interface UsePhoneSelectionReturn {
   searchBrands: (query: string) => Promise<void>;
   searchModels: (query: string, brand: string) => Promise<void>;
   getSuggestions: (brand: string, model: string) => Promise<void>;
+  loadVariants: (brand: string, model: string) => Promise<void>;
   validateSelection: (selection: PhoneSelection) => Promise<ValidationResult & { suggestions: Phone[] }>;
   clearError: () => void;
   reset: () => void;
@@ -26,6 +28,7 @@ export function usePhoneSelection(): UsePhoneSelectionReturn {
   const [brands, setBrands] = useState<Brand[]>([]);
   const [models, setModels] = useState<string[]>([]);
   const [suggestions, setSuggestions] = useState<Phone[]>([]);
+  const [variants, setVariants] = useState<PhoneVariant[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -92,6 +95,27 @@ export function usePhoneSelection(): UsePhoneSelectionReturn {
     }
   }, []);
 
+  // Load the purchasable configurations of the selected model
+  const loadVariants = useCallback(async (brand: string, model: string) => {
+    if (!brand || !model) {
+      setVariants([]);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const phone = await phoneSelectionService.getPhoneByBrandAndModel(brand, model);
+      setVariants(phone?.variants ?? []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load variants');
+      setVariants([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
   // Validate phone selection
   const validateSelection = useCallback(async (selection: PhoneSelection) => {
     setIsLoading(true);
@@ -129,6 +153,7 @@ export function usePhoneSelection(): UsePhoneSelectionReturn {
     setBrands([]);
     setModels([]);
     setSuggestions([]);
+    setVariants([]);
     setIsLoading(false);
     setError(null);
   }, []);
@@ -137,11 +162,13 @@ export function usePhoneSelection(): UsePhoneSelectionReturn {
     brands,
     models,
     suggestions,
+    variants,
     isLoading,
     error,
     searchBrands,
     searchModels,
     getSuggestions,
+    loadVariants,
     validateSelection,
     clearError,
     reset,
@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { ComparisonService, ExpiredError, NotFoundError } from '../services/index.js'
+import { testDb, createTestBrand, createTestPhone } from './setup.js'
+
+describe('ComparisonService share links', () => {
+  let comparisonService: ComparisonService
+  let comparisonId: string
+
+  beforeEach(async () => {
+    comparisonService = new ComparisonService()
+
+    const brand = await testDb.brand.create({ data: createTestBrand() })
+    const phone1 = await testDb.phone.create({ data: createTestPhone(brand.id) })
+    const phone2 = await testDb.phone.create({
+      data: createTestPhone(brand.id, { model: 'Other Phone', slug: 'test-brand-other-phone-128gb' }),
+    })
+    const comparison = await comparisonService.createComparison({ phone1Id: phone1.id, phone2Id: phone2.id })
+    comparisonId = comparison.id
+  })
+
+  it('should persist a token, expiry and result snapshot', async () => {
+    const expiresAt = new Date(Date.now() + 60 * 60 * 1000)
+    const shared = await comparisonService.createShareLink(comparisonId, {
+      sharedBy: 'session:one',
+      expiresAt,
+      result: { summary: 'snapshot' },
+    })
+
+    expect(shared.token).toHaveLength(32)
+    expect(shared.expiresAt).toEqual(expiresAt)
+    expect(shared.result).toEqual({ summary: 'snapshot' })
+    expect(await comparisonService.getShareLinkStatus(shared.token)).toBe('active')
+    expect((await comparisonService.getComparisonByShareToken(shared.token)).comparison.id).toBe(comparisonId)
+  })
+
+  it('should give each owner their own link and snapshot', async () => {
+    const first = await comparisonService.createShareLink(comparisonId, { sharedBy: 'session:one', result: { summary: 'one' } })
+    const second = await comparisonService.createShareLink(comparisonId, { sharedBy: 'session:two', result: { summary: 'two' } })
+
+    expect(second.token).not.toBe(first.token)
+    expect((await comparisonService.getComparisonByShareToken(first.token)).result).toEqual({ summary: 'one' })
+    expect((await comparisonService.getComparisonByShareToken(second.token)).result).toEqual({ summary: 'two' })
+    expect(await comparisonService.revokeShareLink(second.token, 'session:two')).toBe(true)
+    expect(await comparisonService.getShareLinkStatus(first.token)).toBe('active')
+  })
+
+  it('should leave earlier links untouched when the owner shares again', async () => {
+    const expiresAt = new Date(Date.now() + 60 * 60 * 1000)
+    const first = await comparisonService.createShareLink(comparisonId, {
+      sharedBy: 'session:one',
+      expiresAt,
+      result: { summary: 'before' },
+    })
+    await comparisonService.createShareLink(comparisonId, { sharedBy: 'session:one', result: { summary: 'after' } })
+
+    const reloaded = await comparisonService.getComparisonByShareToken(first.token)
+    expect(reloaded.expiresAt).toEqual(expiresAt)
+    expect(reloaded.result).toEqual({ summary: 'before' })
+  })
+
+  it('should reject expired links', async () => {
+    const shared = await comparisonService.createShareLink(comparisonId, { sharedBy: 'session:one' })
+    await testDb.comparisonShareLink.update({
+      where: { id: shared.id },
+      data: { expiresAt: new Date(Date.now() - 1000) },
+    })
+
+    expect(await comparisonService.getShareLinkStatus(shared.token)).toBe('expired')
+    await expect(comparisonService.getComparisonByShareToken(shared.token)).rejects.toThrow(ExpiredError)
+  })
+
+  it('should only let the sharer revoke a link', async () => {
+    const shared = await comparisonService.createShareLink(comparisonId, { sharedBy: 'session:one' })
+
+    expect(await comparisonService.revokeShareLink(shared.token, 'session:two')).toBe(false)
+    expect(await comparisonService.revokeShareLink(shared.token, 'session:one')).toBe(true)
+    expect(await comparisonService.getShareLinkStatus(shared.token)).toBe('missing')
+    await expect(comparisonService.getComparisonByShareToken(shared.token)).rejects.toThrow(NotFoundError)
+  })
+})
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('../database.js', () => ({
+  prisma: {},
+}))
+
+const { FuzzySearch, normalizeSearchQuery, orderByRank } = await import('../database/fuzzySearch.js')
+
+describe('FuzzySearch', () => {
+  const queryRaw = vi.fn()
+  let search: InstanceType<typeof FuzzySearch>
+
+  beforeEach(() => {
+    queryRaw.mockReset()
+    search = new FuzzySearch({ $queryRaw: queryRaw } as any)
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  it('should normalize queries like the SQL search_normalize function', () => {
+    expect(normalizeSearchQuery('iPhone15Pro')).toBe('iphone 15 pro')
+    expect(normalizeSearchQuery('  Galaxy S24-Ultra ')).toBe('galaxy s 24 ultra')
+    expect(normalizeSearchQuery('Snapdragon 8+ Gen 3')).toBe('snapdragon 8 gen 3')
+  })
+
+  it('should rank phones when pg_trgm is installed', async () => {
+    queryRaw
+      .mockResolvedValueOnce([{ available: true }])
+      .mockResolvedValueOnce([{ id: 'phone-2', rank: '1.4' }, { id: 'phone-1', rank: 0.7 }])
+
+    const matches = await search.rankPhones('galxy s24 ultr')
+
+    expect(matches).toEqual([{ id: 'phone-2', rank: 1.4 }, { id: 'phone-1', rank: 0.7 }])
+    expect(queryRaw.mock.calls[1]).toContain('galxy s 24 ultr')
+  })
+
+  it('should fall back when the extension is missing and cache the check', async () => {
+    queryRaw.mockResolvedValueOnce([{ available: false }])
+
+    expect(await search.rankPhones('iphone15pro')).toBeNull()
+    expect(await search.rankBrands('samsng')).toBeNull()
+    expect(queryRaw).toHaveBeenCalledTimes(1)
+  })
+
+  it('should fall back when a ranking query fails', async () => {
+    queryRaw
+      .mockResolvedValueOnce([{ available: true }])
+      .mockRejectedValueOnce(new Error('function search_normalize(text) does not exist'))
+
+    expect(await search.rankBrands('samsng')).toBeNull()
+    expect(await search.isAvailable()).toBe(false)
+
+    search.reset()
+    queryRaw.mockResolvedValueOnce([{ available: true }])
+    expect(await search.isAvailable()).toBe(true)
+  })
+
+  it('should skip queries that normalize to less than two characters', async () => {
+    expect(await search.rankPhones('-a-')).toBeNull()
+    expect(queryRaw).not.toHaveBeenCalled()
+  })
+
+  it('should order records by rank and drop unmatched ones', () => {
+    const records = [{ id: 'a' }, { id: 'b' }, { id: 'c' }]
+    expect(orderByRank(records, [{ id: 'c', rank: 2 }, { id: 'x', rank: 1.5 }, { id: 'a', rank: 1 }]))
+      .toEqual([{ id: 'c' }, { id: 'a' }])
+  })
+})
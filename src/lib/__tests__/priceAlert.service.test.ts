@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { PriceAlertService, ValidationError, matchPriceWatch, MAX_DELIVERY_ATTEMPTS } from '../services/index.js'
+import { testDb, createTestBrand, createTestPhone } from './setup.js'
+
+const hoursAgo = (hours: number) => new Date(Date.now() - hours * 60 * 60 * 1000)
+
+describe('PriceAlertService', () => {
+  let priceAlertService: PriceAlertService
+  let phoneId: string
+
+  beforeEach(async () => {
+    priceAlertService = new PriceAlertService()
+
+    const brand = await testDb.brand.create({ data: createTestBrand() })
+    const phone = await testDb.phone.create({ data: createTestPhone(brand.id) })
+    phoneId = phone.id
+  })
+
+  const setPrice = (currentPrice: number) => testDb.phone.update({ where: { id: phoneId }, data: { currentPrice } })
+
+  it('should use the current price as the baseline', async () => {
+    const watch = await priceAlertService.createWatch({
+      userId: 'user-1',
+      phoneId,
+      dropPercent: 10,
+      channels: ['in_app'],
+    })
+
+    expect(watch.baselinePrice).toBe(45000)
+    expect(watch.cooldownHours).toBe(24)
+  })
+
+  it('should require a recipient for webhook and email channels', async () => {
+    await expect(
+      priceAlertService.createWatch({ userId: 'user-1', phoneId, targetPrice: 40000, channels: ['email'] })
+    ).rejects.toThrow(ValidationError)
+  })
+
+  it('should queue one notification per channel when a watch matches', async () => {
+    await priceAlertService.createWatch({
+      userId: 'user-1',
+      phoneId,
+      targetPrice: 42000,
+      channels: ['in_app', 'email'],
+      email: 'user@example.com',
+    })
+
+    await setPrice(43000)
+    expect((await priceAlertService.evaluateWatches([phoneId])).watchesMatched).toBe(0)
+
+    await setPrice(41999)
+    const result = await priceAlertService.evaluateWatches([phoneId])
+
+    expect(result).toEqual({ watchesChecked: 1, watchesMatched: 1, notificationsQueued: 2 })
+    const rows = await testDb.notificationOutbox.findMany({ orderBy: { channel: 'asc' } })
+    expect(rows.map(row => [row.channel, row.recipient])).toEqual([['email', 'user@example.com'], ['in_app', 'user-1']])
+    expect(rows[0].payload).toMatchObject({ reason: 'target_price', price: 41999, phoneName: 'Test Brand Test Phone 128GB' })
+  })
+
+  it('should not notify again during the cooldown', async () => {
+    await priceAlertService.createWatch({ sessionId: 'session-1', phoneId, dropPercent: 5, channels: ['in_app'] })
+
+    await setPrice(42000)
+    await priceAlertService.evaluateWatches([phoneId])
+    await setPrice(40000)
+    const result = await priceAlertService.evaluateWatches([phoneId])
+
+    expect(result.watchesMatched).toBe(0)
+    expect(await testDb.notificationOutbox.count()).toBe(1)
+  })
+
+  it('should retry failed deliveries until attempts run out', async () => {
+    await priceAlertService.createWatch({ userId: 'user-1', phoneId, targetPrice: 44000, channels: ['in_app'] })
+    await setPrice(43000)
+    await priceAlertService.evaluateWatches([phoneId])
+
+    const [row] = await priceAlertService.getPendingNotifications()
+    expect(await priceAlertService.markNotificationFailed(row, 'Timed out')).toBe(true)
+    expect(await priceAlertService.getPendingNotifications()).toHaveLength(0)
+
+    const retried = await testDb.notificationOutbox.findUniqueOrThrow({ where: { id: row.id } })
+    expect(
+      await priceAlertService.markNotificationFailed({ ...retried, attempts: MAX_DELIVERY_ATTEMPTS - 1 }, 'Timed out')
+    ).toBe(false)
+    expect((await testDb.notificationOutbox.findUniqueOrThrow({ where: { id: row.id } })).status).toBe('failed')
+  })
+
+  it('should list and mark in-app notifications for their owner only', async () => {
+    await priceAlertService.createWatch({ userId: 'user-1', phoneId, targetPrice: 44000, channels: ['in_app'] })
+    await setPrice(43000)
+    await priceAlertService.evaluateWatches([phoneId])
+
+    expect(await priceAlertService.getInAppNotifications({ userId: 'user-2' })).toHaveLength(0)
+    expect(await priceAlertService.getInAppNotifications({ userId: 'user-1' }, { unreadOnly: true })).toHaveLength(1)
+
+    expect(await priceAlertService.markNotificationsRead({ userId: 'user-1' })).toBe(1)
+    expect(await priceAlertService.getInAppNotifications({ userId: 'user-1' }, { unreadOnly: true })).toHaveLength(0)
+  })
+})
+
+describe('matchPriceWatch', () => {
+  const watch = {
+    targetPrice: null,
+    dropPercent: 10,
+    baselinePrice: 50000,
+    cooldownHours: 24,
+    lastNotifiedAt: null,
+    lastNotifiedPrice: null,
+  }
+
+  it('should match percentage drops from the baseline', () => {
+    expect(matchPriceWatch(watch, 45001)).toBeNull()
+    expect(matchPriceWatch(watch, 45000)).toBe('percent_drop')
+  })
+
+  it('should only fire again after the cooldown and for a lower price', () => {
+    const notified = { ...watch, lastNotifiedPrice: 44000 }
+
+    expect(matchPriceWatch({ ...notified, lastNotifiedAt: hoursAgo(2) }, 43000)).toBeNull()
+    expect(matchPriceWatch({ ...notified, lastNotifiedAt: hoursAgo(25) }, 44000)).toBeNull()
+    expect(matchPriceWatch({ ...notified, lastNotifiedAt: hoursAgo(25) }, 43000)).toBe('percent_drop')
+  })
+})
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { PriceHistoryService, NotFoundError, ValidationError } from '../services/index.js'
+import { testDb, createTestBrand, createTestPhone } from './setup.js'
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+
+describe('PriceHistoryService', () => {
+  let priceHistoryService: PriceHistoryService
+  let phoneId: string
+
+  beforeEach(async () => {
+    priceHistoryService = new PriceHistoryService()
+
+    const brand = await testDb.brand.create({ data: createTestBrand() })
+    const phone = await testDb.phone.create({ data: createTestPhone(brand.id) })
+    phoneId = phone.id
+  })
+
+  it('should record one snapshot per retailer', async () => {
+    const count = await priceHistoryService.recordSnapshots(phoneId, [
+      { retailer: 'Amazon India', price: 45000, availability: 'in_stock' },
+      { retailer: 'Flipkart', price: 44000, availability: 'in_stock', url: 'https://flipkart.com/p' },
+    ])
+
+    expect(count).toBe(2)
+    expect(await testDb.priceSnapshot.count({ where: { phoneId } })).toBe(2)
+  })
+
+  it('should reject non-positive prices', async () => {
+    await expect(
+      priceHistoryService.recordSnapshots(phoneId, [{ retailer: 'Amazon India', price: 0, availability: 'in_stock' }])
+    ).rejects.toThrow(ValidationError)
+  })
+
+  it('should return the cheapest retailer per sync with range stats and the all-time low', async () => {
+    await priceHistoryService.recordSnapshots(phoneId, [
+      { retailer: 'Flipkart', price: 39000, availability: 'in_stock' },
+    ], daysAgo(200))
+    await priceHistoryService.recordSnapshots(phoneId, [
+      { retailer: 'Amazon India', price: 46000, availability: 'in_stock' },
+      { retailer: 'Flipkart', price: 45000, availability: 'in_stock' },
+    ], daysAgo(20))
+    await priceHistoryService.recordSnapshots(phoneId, [
+      { retailer: 'Amazon India', price: 42000, availability: 'in_stock' },
+      { retailer: 'Croma', price: 30000, availability: 'out_of_stock' },
+    ], daysAgo(5))
+
+    const history = await priceHistoryService.getPriceHistory(phoneId, { days: 30 })
+
+    expect(history.points).toHaveLength(3)
+    expect(history.lowest.map(point => [point.retailer, point.price])).toEqual([
+      ['Flipkart', 45000],
+      ['Amazon India', 42000],
+    ])
+    expect(history.stats).toMatchObject({ min: 42000, max: 46000, average: 44333, latest: 42000 })
+    expect(history.stats?.allTimeLow).toMatchObject({ retailer: 'Flipkart', price: 39000 })
+  })
+
+  it('should filter by retailer', async () => {
+    await priceHistoryService.recordSnapshots(phoneId, [
+      { retailer: 'Amazon India', price: 46000, availability: 'in_stock' },
+      { retailer: 'Flipkart', price: 45000, availability: 'in_stock' },
+    ])
+
+    const history = await priceHistoryService.getPriceHistory(phoneId, { retailer: 'amazon india' })
+
+    expect(history.points.map(point => point.retailer)).toEqual(['Amazon India'])
+    expect(history.stats?.allTimeLow.price).toBe(46000)
+  })
+
+  it('should return empty stats without snapshots and throw for unknown phones', async () => {
+    const history = await priceHistoryService.getPriceHistory(phoneId)
+
+    expect(history.points).toEqual([])
+    expect(history.stats).toBeNull()
+    await expect(priceHistoryService.getPriceHistory('missing-phone')).rejects.toThrow(NotFoundError)
+  })
+
+  it('should return in-stock prices and offers from the latest sync', async () => {
+    await priceHistoryService.recordSnapshots(phoneId, [
+      { retailer: 'Flipkart', price: 39000, availability: 'in_stock' },
+    ], daysAgo(3))
+    await priceHistoryService.recordSnapshots(phoneId, [
+      { retailer: 'Amazon India', price: 46000, availability: 'in_stock', offers: [
+        { type: 'bank_cashback', bank: 'HDFC', cardType: 'credit', amount: 3000 },
+      ] },
+      { retailer: 'Flipkart', price: 44000, availability: 'out_of_stock' },
+    ])
+
+    const prices = await priceHistoryService.getLatestPrices(phoneId)
+
+    expect(prices).toEqual([{
+      retailer: 'Amazon India',
+      price: 46000,
+      url: undefined,
+      offers: [{ type: 'bank_cashback', bank: 'HDFC', cardType: 'credit', amount: 3000 }],
+    }])
+    await expect(priceHistoryService.getLatestPrices('missing-phone')).rejects.toThrow(NotFoundError)
+  })
+})
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { SavedComparisonService, ValidationError, MAX_HISTORY_ENTRIES } from '../services/index.js'
+import { testDb } from './setup.js'
+
+describe('SavedComparisonService', () => {
+  let service: SavedComparisonService
+
+  const comparisonData = {
+    title: 'iPhone 15 vs Galaxy S24',
+    tags: ['flagship'],
+    phoneIds: ['phone-1', 'phone-2'],
+    result: { id: 'comparison-1', phones: [] },
+  }
+
+  beforeEach(() => {
+    service = new SavedComparisonService()
+  })
+
+  describe('createSavedComparison', () => {
+    it('should save a comparison for a session', async () => {
+      const saved = await service.createSavedComparison({ ...comparisonData, sessionId: 'session-1' })
+
+      expect(saved).toMatchObject({
+        sessionId: 'session-1',
+        userId: null,
+        title: comparisonData.title,
+        tags: ['flagship'],
+        isPublic: false,
+        phoneIds: comparisonData.phoneIds,
+      })
+    })
+
+    it('should require a user or session', async () => {
+      await expect(service.createSavedComparison(comparisonData)).rejects.toThrow(ValidationError)
+    })
+  })
+
+  describe('getSavedComparisons', () => {
+    beforeEach(async () => {
+      await service.createSavedComparison({ ...comparisonData, userId: 'user-1' })
+      await service.createSavedComparison({ ...comparisonData, title: 'Budget picks', tags: ['budget'], userId: 'user-1' })
+      await service.createSavedComparison({ ...comparisonData, userId: 'user-2' })
+      await service.createSavedComparison({ ...comparisonData, sessionId: 'session-1' })
+    })
+
+    it('should only return the owner\'s comparisons, newest first', async () => {
+      const saved = await service.getSavedComparisons({ userId: 'user-1' })
+
+      expect(saved).toHaveLength(2)
+      expect(saved[0].title).toBe('Budget picks')
+      expect(await service.getSavedComparisons({ sessionId: 'session-1' })).toHaveLength(1)
+    })
+
+    it('should search titles and tags', async () => {
+      expect(await service.getSavedComparisons({ userId: 'user-1' }, 'galaxy')).toHaveLength(1)
+      expect(await service.getSavedComparisons({ userId: 'user-1' }, 'Budget')).toHaveLength(1)
+      expect(await service.getSavedComparisons({ userId: 'user-1' }, 'nokia')).toHaveLength(0)
+    })
+  })
+
+  describe('getSavedComparison', () => {
+    it('should return public comparisons to anyone and private ones to their owner', async () => {
+      const privateSaved = await service.createSavedComparison({ ...comparisonData, userId: 'user-1' })
+      const publicSaved = await service.createSavedComparison({ ...comparisonData, userId: 'user-1', isPublic: true })
+
+      expect(await service.getSavedComparison(publicSaved.id)).not.toBeNull()
+      expect(await service.getSavedComparison(privateSaved.id)).toBeNull()
+      expect(await service.getSavedComparison(privateSaved.id, { userId: 'user-1' })).not.toBeNull()
+    })
+  })
+
+  describe('deleteSavedComparison', () => {
+    it('should only delete the owner\'s comparison', async () => {
+      const saved = await service.createSavedComparison({ ...comparisonData, userId: 'user-1' })
+
+      expect(await service.deleteSavedComparison(saved.id, { userId: 'user-2' })).toBe(false)
+      expect(await service.deleteSavedComparison(saved.id, { userId: 'user-1' })).toBe(true)
+      expect(await testDb.savedComparison.count()).toBe(0)
+    })
+  })
+
+  describe('history', () => {
+    const entry = { phoneIds: ['phone-1', 'phone-2'], phoneNames: ['A', 'B'], comparisonType: 'two-phone' }
+
+    it('should keep only the most recent entries per owner', async () => {
+      for (let i = 0; i < MAX_HISTORY_ENTRIES + 2; i++) {
+        await service.addHistoryEntry({ ...entry, sessionId: 'session-1' })
+      }
+      await service.addHistoryEntry({ ...entry, sessionId: 'session-2' })
+
+      expect(await service.getHistory({ sessionId: 'session-1' })).toHaveLength(MAX_HISTORY_ENTRIES)
+      expect(await service.getHistory({ sessionId: 'session-2' })).toHaveLength(1)
+    })
+
+    it('should clear only the owner\'s history', async () => {
+      await service.addHistoryEntry({ ...entry, userId: 'user-1' })
+      await service.addHistoryEntry({ ...entry, sessionId: 'session-1' })
+
+      expect(await service.clearHistory({ userId: 'user-1' })).toBe(1)
+      expect(await service.getHistory({ sessionId: 'session-1' })).toHaveLength(1)
+    })
+  })
+})
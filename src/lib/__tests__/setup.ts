@@ -28,8 +28,16 @@ beforeEach(async () => {
 async function cleanupDatabase() {
   // Delete in correct order to respect foreign key constraints
   await testDb.chatMessage.deleteMany()
+  await testDb.savedComparison.deleteMany()
+  await testDb.comparisonHistory.deleteMany()
+  await testDb.comparisonShareLink.deleteMany()
   await testDb.phoneComparison.deleteMany()
   await testDb.chatSession.deleteMany()
+  await testDb.notificationOutbox.deleteMany()
+  await testDb.priceWatch.deleteMany()
+  await testDb.priceSnapshot.deleteMany()
+  await testDb.phoneRegionalPrice.deleteMany()
+  await testDb.phoneVariant.deleteMany()
   await testDb.phoneSpecification.deleteMany()
   await testDb.phone.deleteMany()
   await testDb.brand.deleteMany()
@@ -268,8 +268,10 @@ export const CacheKeys = {
   brands: () => 'brands:all',
   models: (brandId: string) => `models:brand:${brandId}`,
   search: (query: string) => `search:${query}`,
+  searchFacets: (filters: string) => `search:facets:${filters}`,
   similarPhones: (phoneId: string) => `similar:${phoneId}`,
   phoneSpecs: (phoneId: string) => `specs:${phoneId}`,
+  comparisonImage: (imageKey: string) => `og:comparison:${imageKey}`,
 } as const;
 
 /**
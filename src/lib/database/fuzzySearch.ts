@@ -0,0 +1,175 @@
+import { prisma } from '../database.js';
+import type { PrismaClient } from '../database.js';
+
+/**
+ * Ranked full-text and trigram search over phones and brands
+ *
+ * Relies on the `pg_trgm` extension, the `search_normalize()` function and
+ * the trigger-maintained `phones.searchText` column from
+ * prisma/migrations/add_fuzzy_search.sql. When any is missing the rank
+ * methods return null and callers fall back to `contains` matching.
+ */
+
+export interface RankedMatch {
+  id: string;
+  rank: number;
+}
+
+// Re-check a missing extension periodically so installing it needs no restart
+const AVAILABILITY_TTL_MS = 5 * 60 * 1000;
+
+export const DEFAULT_PHONE_MATCH_LIMIT = 50;
+export const DEFAULT_BRAND_MATCH_LIMIT = 10;
+
+/**
+ * Normalize a search string the same way `search_normalize()` does in SQL:
+ * lower case, letters and digits split apart, punctuation removed
+ * e.g. "iPhone15Pro" -> "iphone 15 pro", "Galaxy S24+" -> "galaxy s 24"
+ */
+export function normalizeSearchQuery(query: string): string {
+  return query
+    .toLowerCase()
+    .replace(/([a-z])(\d)/g, '$1 $2')
+    .replace(/(\d)([a-z])/g, '$1 $2')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Reorder records to follow ranked matches, dropping any that did not match
+ */
+export function orderByRank<T extends { id: string }>(records: T[], matches: RankedMatch[]): T[] {
+  const byId = new Map(records.map(record => [record.id, record]));
+  return matches
+    .map(match => byId.get(match.id))
+    .filter((record): record is T => record !== undefined);
+}
+
+export class FuzzySearch {
+  private available: boolean | null = null;
+  private checkedAt = 0;
+
+  constructor(private readonly db: PrismaClient = prisma) {}
+
+  /**
+   * Whether pg_trgm is installed, cached for a few minutes
+   */
+  async isAvailable(): Promise<boolean> {
+    if (this.available !== null && Date.now() - this.checkedAt < AVAILABILITY_TTL_MS) {
+      return this.available;
+    }
+
+    try {
+      const rows = await this.db.$queryRaw<Array<{ available: boolean }>>`
+        SELECT EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_trgm') AS available
+      `;
+      this.setAvailable(Boolean(rows[0]?.available));
+
+      if (!this.available) {
+        console.warn('pg_trgm is not installed, using basic search');
+      }
+    } catch (error) {
+      console.warn('Could not check for pg_trgm, using basic search:', error);
+      this.setAvailable(false);
+    }
+
+    return this.available!;
+  }
+
+  /**
+   * Phones ranked by full-text match and trigram similarity on brand, model,
+   * variant and processor; null when fuzzy search is unavailable
+   */
+  async rankPhones(query: string, limit = DEFAULT_PHONE_MATCH_LIMIT): Promise<RankedMatch[] | null> {
+    const normalized = normalizeSearchQuery(query);
+    if (normalized.length < 2 || !(await this.isAvailable())) {
+      return null;
+    }
+
+    return this.run('phones', () => this.db.$queryRaw<RankedMatch[]>`
+      SELECT ranked.id, ranked.rank
+      FROM (
+        SELECT
+          p.id,
+          word_similarity(${normalized}, p."searchText") + ts_rank(
+            setweight(to_tsvector('simple', search_normalize(p.model)), 'A') ||
+            setweight(to_tsvector('simple', search_normalize(b.name)), 'B') ||
+            setweight(to_tsvector('simple', search_normalize(p.variant)), 'C') ||
+            setweight(to_tsvector('simple', search_normalize(s.processor)), 'D'),
+            plainto_tsquery('simple', ${normalized})
+          ) AS rank
+        FROM phones p
+        JOIN brands b ON b.id = p."brandId"
+        LEFT JOIN phone_specifications s ON s."phoneId" = p.id
+        WHERE p."isActive" = true
+          AND (
+            ${normalized} <% p."searchText"
+            OR to_tsvector('simple', coalesce(p."searchText", '')) @@ plainto_tsquery('simple', ${normalized})
+          )
+      ) ranked
+      ORDER BY ranked.rank DESC, ranked.id
+      LIMIT ${limit}
+    `);
+  }
+
+  /**
+   * Brands ranked by trigram similarity on name and slug; null when fuzzy
+   * search is unavailable
+   */
+  async rankBrands(query: string, limit = DEFAULT_BRAND_MATCH_LIMIT): Promise<RankedMatch[] | null> {
+    const normalized = normalizeSearchQuery(query);
+    if (normalized.length < 2 || !(await this.isAvailable())) {
+      return null;
+    }
+
+    return this.run('brands', () => this.db.$queryRaw<RankedMatch[]>`
+      SELECT
+        b.id,
+        GREATEST(
+          similarity(search_normalize(b.name), ${normalized}),
+          word_similarity(${normalized}, search_normalize(b.name)),
+          word_similarity(${normalized}, search_normalize(b.slug))
+        ) AS rank
+      FROM brands b
+      WHERE b."isActive" = true
+        AND (
+          search_normalize(b.name) % ${normalized}
+          OR ${normalized} <% search_normalize(b.name)
+          OR ${normalized} <% search_normalize(b.slug)
+        )
+      ORDER BY rank DESC, b.name
+      LIMIT ${limit}
+    `);
+  }
+
+  /**
+   * Forget the cached availability check
+   */
+  reset(): void {
+    this.available = null;
+    this.checkedAt = 0;
+  }
+
+  /**
+   * Run a ranking query, treating failures (e.g. the migration has not been
+   * applied) as "unavailable" so callers fall back instead of erroring
+   */
+  private async run(target: string, query: () => Promise<RankedMatch[]>): Promise<RankedMatch[] | null> {
+    try {
+      const rows = await query();
+      return rows.map(row => ({ id: row.id, rank: Number(row.rank) }));
+    } catch (error) {
+      console.warn(`Fuzzy ${target} search failed, using basic search:`, error);
+      this.setAvailable(false);
+      return null;
+    }
+  }
+
+  private setAvailable(available: boolean): void {
+    this.available = available;
+    this.checkedAt = Date.now();
+  }
+}
+
+// Export singleton instance
+export const fuzzySearch = new FuzzySearch();
@@ -136,6 +136,7 @@ export const QueryOptimizations = {
  */
 export class PhoneQueryBuilder {
   private whereClause: Prisma.PhoneWhereInput = { isActive: true };
+  private conditions: Prisma.PhoneWhereInput[] = [];
   private selectClause?: Prisma.PhoneSelect;
   private includeClause?: Prisma.PhoneInclude;
   private orderByClause: Prisma.PhoneOrderByWithRelationInput[] = [];
@@ -231,6 +232,133 @@ export class PhoneQueryBuilder {
     return this;
   }
 
+  /**
+   * Filter to specific phone IDs, e.g. ranked fuzzy search matches
+   */
+  filterByIds(ids: string[]): this {
+    this.conditions.push({ id: { in: ids } });
+    return this;
+  }
+
+  /**
+   * Filter by any of several brands
+   */
+  filterByBrands(brandNames: string[]): this {
+    if (brandNames.length > 0) {
+      this.conditions.push({
+        brand: {
+          name: {
+            in: brandNames,
+            mode: 'insensitive',
+          },
+        },
+      });
+    }
+    return this;
+  }
+
+  /**
+   * Filter by phones offered with any of the given RAM sizes (GB)
+   */
+  filterByRam(sizesGb: number[]): this {
+    if (sizesGb.length > 0) {
+      this.filterBySpecifications({
+        ramOptions: { hasSome: sizesGb.flatMap(memoryOptionLabels) },
+      });
+    }
+    return this;
+  }
+
+  /**
+   * Filter by phones offered with any of the given storage sizes (GB)
+   */
+  filterByStorage(sizesGb: number[]): this {
+    if (sizesGb.length > 0) {
+      this.filterBySpecifications({
+        storageOptions: { hasSome: sizesGb.flatMap(memoryOptionLabels) },
+      });
+    }
+    return this;
+  }
+
+  /**
+   * Filter by minimum battery capacity (mAh)
+   */
+  filterByMinBattery(capacity: number): this {
+    return this.filterBySpecifications({ batteryCapacity: { gte: capacity } });
+  }
+
+  /**
+   * Filter by minimum display refresh rate (Hz)
+   */
+  filterByMinRefreshRate(refreshRate: number): this {
+    return this.filterBySpecifications({ refreshRate: { gte: refreshRate } });
+  }
+
+  /**
+   * Filter by 5G support
+   */
+  filterBy5G(supported: boolean): this {
+    const has5G: Prisma.PhoneSpecificationWhereInput = { networkSupport: { has: '5G' } };
+    return this.filterBySpecifications(supported ? has5G : { NOT: has5G });
+  }
+
+  /**
+   * Filter by NFC support
+   */
+  filterByNfc(supported: boolean): this {
+    return this.filterBySpecifications({ nfc: supported });
+  }
+
+  /**
+   * Filter by wireless charging support
+   */
+  filterByWirelessCharging(supported: boolean): this {
+    return this.filterBySpecifications({ wirelessCharging: supported });
+  }
+
+  /**
+   * Filter by any of several IP ratings, e.g. IP68
+   */
+  filterByIpRatings(ratings: string[]): this {
+    if (ratings.length > 0) {
+      this.filterBySpecifications({
+        OR: ratings.map(rating => ({
+          waterResistance: {
+            contains: rating,
+            mode: 'insensitive' as const,
+          },
+        })),
+      });
+    }
+    return this;
+  }
+
+  /**
+   * Filter by any of several launch years
+   */
+  filterByLaunchYears(years: number[]): this {
+    if (years.length > 0) {
+      this.conditions.push({
+        OR: years.map(year => ({
+          launchDate: {
+            gte: new Date(Date.UTC(year, 0, 1)),
+            lt: new Date(Date.UTC(year + 1, 0, 1)),
+          },
+        })),
+      });
+    }
+    return this;
+  }
+
+  /**
+   * Add a condition on the related specifications row
+   */
+  filterBySpecifications(condition: Prisma.PhoneSpecificationWhereInput): this {
+    this.conditions.push({ specifications: { is: condition } });
+    return this;
+  }
+
   /**
    * Full-text search across model and brand
    */
@@ -332,7 +460,7 @@ export class PhoneQueryBuilder {
    */
   build(): Prisma.PhoneFindManyArgs {
     const query: Prisma.PhoneFindManyArgs = {
-      where: this.whereClause,
+      where: this.buildWhere(),
     };
 
     if (this.selectClause) {
@@ -361,11 +489,37 @@ export class PhoneQueryBuilder {
    */
   buildCount(): Prisma.PhoneCountArgs {
     return {
-      where: this.whereClause,
+      where: this.buildWhere(),
+    };
+  }
+
+  /**
+   * Build the where clause, combining conditions that would otherwise
+   * overwrite each other (e.g. several specification filters)
+   */
+  buildWhere(): Prisma.PhoneWhereInput {
+    if (this.conditions.length === 0) {
+      return this.whereClause;
+    }
+
+    return {
+      ...this.whereClause,
+      AND: this.conditions,
     };
   }
 }
 
+/**
+ * Spellings of a memory size as stored in ramOptions/storageOptions
+ */
+export function memoryOptionLabels(sizeGb: number): string[] {
+  const labels = [`${sizeGb}GB`, `${sizeGb} GB`];
+  if (sizeGb >= 1024 && sizeGb % 1024 === 0) {
+    labels.push(`${sizeGb / 1024}TB`, `${sizeGb / 1024} TB`);
+  }
+  return labels;
+}
+
 /**
  * Pagination helper
  */
@@ -1,6 +1,14 @@
 import { prisma, withRetry, withMetrics, DatabaseMetrics } from '../database.js'
 import type { PrismaClient } from '../database.js'
 
+/**
+ * Owner of user data: a signed-in user, or an anonymous session
+ */
+export interface ComparisonOwnerFilter {
+  userId?: string
+  sessionId?: string
+}
+
 /**
  * Base service class with common database operations
  */
@@ -31,6 +39,32 @@ export abstract class BaseService {
   public resetMetrics() {
     DatabaseMetrics.reset()
   }
+
+  /**
+   * Owner columns for new records; a user takes precedence over a session
+   */
+  protected ownerData(owner: ComparisonOwnerFilter): ComparisonOwnerFilter {
+    if (owner.userId) {
+      return { userId: owner.userId, sessionId: owner.sessionId }
+    }
+    if (owner.sessionId) {
+      return { sessionId: owner.sessionId }
+    }
+    throw new ValidationError('A user ID or session ID is required', 'owner')
+  }
+
+  /**
+   * Filter to records of one owner; anonymous sessions never see user records
+   */
+  protected ownerWhere(owner: ComparisonOwnerFilter): { userId: string } | { sessionId: string; userId: null } {
+    if (owner.userId) {
+      return { userId: owner.userId }
+    }
+    if (owner.sessionId) {
+      return { sessionId: owner.sessionId, userId: null }
+    }
+    throw new ValidationError('A user ID or session ID is required', 'owner')
+  }
 }
 
 /**
@@ -48,7 +82,7 @@ export class DatabaseError extends Error {
 }
 
 export class NotFoundError extends DatabaseError {
-  constructor(resource: string, identifier: string) {
+  constructor(public readonly resource: string, identifier: string) {
     super(`${resource} with identifier '${identifier}' not found`, 'NOT_FOUND')
     this.name = 'NotFoundError'
   }
@@ -66,4 +100,11 @@ export class ConflictError extends DatabaseError {
     super(message, 'CONFLICT')
     this.name = 'ConflictError'
   }
-}
\ No newline at end of file
+}
+
+export class ExpiredError extends DatabaseError {
+  constructor(resource: string, identifier: string) {
+    super(`${resource} with identifier '${identifier}' has expired`, 'EXPIRED')
+    this.name = 'ExpiredError'
+  }
+}
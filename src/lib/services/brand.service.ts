@@ -1,5 +1,6 @@
 import { BaseService, NotFoundError, ConflictError } from './base.service.js'
 import type { Brand, Prisma } from '../database.js'
+import { fuzzySearch, orderByRank } from '../database/fuzzySearch.js'
 
 export interface CreateBrandData {
   name: string
@@ -68,10 +69,19 @@ export class BrandService extends BaseService {
   }
 
   /**
-   * Search brands by name
+   * Search brands by name and slug, ranked with typo tolerance when pg_trgm
+   * is available
    */
   async searchBrands(query: string): Promise<Brand[]> {
     return this.execute(async () => {
+      const matches = await fuzzySearch.rankBrands(query)
+      if (matches) {
+        const brands = await this.db.brand.findMany({
+          where: { id: { in: matches.map(match => match.id) } },
+        })
+        return orderByRank(brands, matches)
+      }
+
       return this.db.brand.findMany({
         where: {
           AND: [
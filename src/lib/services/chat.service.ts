@@ -12,9 +12,13 @@ export interface CreateChatSessionData {
 
 export interface UpdateChatSessionData {
   currentStep?: ChatStep
-  selectedBrand?: string
+  selectedBrand?: string | null
   selectedPhones?: string[]
+  replacingSlot?: number | null
+  flowHistory?: Prisma.InputJsonValue
   preferences?: Record<string, any>
+  contextSummary?: Prisma.InputJsonValue
+  locale?: string | null
   isActive?: boolean
 }
 
@@ -103,7 +107,11 @@ export class ChatService extends BaseService {
             currentStep: data.currentStep,
             selectedBrand: data.selectedBrand,
             selectedPhones: data.selectedPhones,
+            replacingSlot: data.replacingSlot,
+            flowHistory: data.flowHistory,
             preferences: data.preferences,
+            contextSummary: data.contextSummary,
+            locale: data.locale,
             isActive: data.isActive,
           },
         })
@@ -1,5 +1,6 @@
-import { BaseService, NotFoundError, ConflictError } from './base.service.js'
-import type { PhoneComparison, Phone, Brand, PhoneSpecification, Prisma } from '../database.js'
+import { randomBytes } from 'crypto'
+import { BaseService, NotFoundError, ConflictError, ExpiredError } from './base.service.js'
+import type { PhoneComparison, ComparisonShareLink, Phone, Brand, PhoneSpecification, Prisma } from '../database.js'
 
 export interface CreateComparisonData {
   chatSessionId?: string
@@ -18,11 +19,23 @@ export interface UpdateComparisonData {
   shareToken?: string
 }
 
+export interface CreateShareLinkData {
+  sharedBy: string
+  expiresAt?: Date
+  result?: Record<string, any>
+}
+
+export type ShareLinkStatus = 'active' | 'expired' | 'missing'
+
 export interface ComparisonWithPhones extends PhoneComparison {
   phone1: Phone & { brand: Brand; specifications: PhoneSpecification | null }
   phone2: Phone & { brand: Brand; specifications: PhoneSpecification | null }
 }
 
+export interface ShareLinkWithComparison extends ComparisonShareLink {
+  comparison: ComparisonWithPhones
+}
+
 /**
  * Service class for phone comparison operations
  */
@@ -106,33 +119,41 @@ export class ComparisonService extends BaseService {
   }
 
   /**
-   * Get comparison by share token
+   * Get a share link and its comparison by share token
    */
-  async getComparisonByShareToken(shareToken: string): Promise<ComparisonWithPhones> {
+  async getComparisonByShareToken(shareToken: string): Promise<ShareLinkWithComparison> {
     return this.execute(async () => {
-      const comparison = await this.db.phoneComparison.findUnique({
-        where: { shareToken },
+      const shareLink = await this.db.comparisonShareLink.findUnique({
+        where: { token: shareToken },
         include: {
-          phone1: {
+          comparison: {
             include: {
-              brand: true,
-              specifications: true,
-            },
-          },
-          phone2: {
-            include: {
-              brand: true,
-              specifications: true,
+              phone1: {
+                include: {
+                  brand: true,
+                  specifications: true,
+                },
+              },
+              phone2: {
+                include: {
+                  brand: true,
+                  specifications: true,
+                },
+              },
             },
           },
         },
       })
 
-      if (!comparison) {
-        throw new NotFoundError('PhoneComparison', shareToken)
+      if (!shareLink) {
+        throw new NotFoundError('ComparisonShareLink', shareToken)
       }
 
-      return comparison
+      if (isExpired(shareLink.expiresAt)) {
+        throw new ExpiredError('Share link', shareToken)
+      }
+
+      return shareLink
     })
   }
 
@@ -340,8 +361,58 @@ export class ComparisonService extends BaseService {
    * Generate a unique share token for a comparison
    */
   generateShareToken(): string {
-    return Math.random().toString(36).substring(2, 15) + 
-           Math.random().toString(36).substring(2, 15)
+    return randomBytes(24).toString('base64url')
+  }
+
+  /**
+   * Create a share link for a comparison, snapshotting its result
+   * Every share gets its own token, so links from different owners, or from
+   * the same owner at different times, never replace one another.
+   */
+  async createShareLink(id: string, data: CreateShareLinkData): Promise<ComparisonShareLink> {
+    const comparison = await this.getComparisonById(id)
+
+    return this.execute(async () => {
+      return this.db.comparisonShareLink.create({
+        data: {
+          token: this.generateShareToken(),
+          comparisonId: comparison.id,
+          sharedBy: data.sharedBy,
+          result: data.result,
+          expiresAt: data.expiresAt,
+        },
+      })
+    })
+  }
+
+  /**
+   * Revoke a share link, returning false when it does not exist or was
+   * shared by someone else
+   */
+  async revokeShareLink(shareToken: string, sharedBy: string): Promise<boolean> {
+    return this.execute(async () => {
+      const { count } = await this.db.comparisonShareLink.deleteMany({
+        where: { token: shareToken, sharedBy },
+      })
+      return count > 0
+    })
+  }
+
+  /**
+   * Check a share token without loading the comparison
+   */
+  async getShareLinkStatus(shareToken: string): Promise<ShareLinkStatus> {
+    return this.execute(async () => {
+      const shareLink = await this.db.comparisonShareLink.findUnique({
+        where: { token: shareToken },
+        select: { expiresAt: true },
+      })
+
+      if (!shareLink) {
+        return 'missing'
+      }
+      return isExpired(shareLink.expiresAt) ? 'expired' : 'active'
+    })
   }
 
   /**
@@ -395,4 +466,8 @@ export class ComparisonService extends BaseService {
       }
     })
   }
-}
\ No newline at end of file
+}
+
+function isExpired(expiresAt: Date | null): boolean {
+  return expiresAt !== null && expiresAt.getTime() <= Date.now()
+}
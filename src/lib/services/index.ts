@@ -1,9 +1,25 @@
 // Export all service classes
-export { BaseService, DatabaseError, NotFoundError, ValidationError, ConflictError } from './base.service.js'
+export { BaseService, DatabaseError, NotFoundError, ValidationError, ConflictError, ExpiredError } from './base.service.js'
+export type { ComparisonOwnerFilter } from './base.service.js'
 export { BrandService } from './brand.service.js'
 export { PhoneService } from './phone.service.js'
 export { ChatService } from './chat.service.js'
 export { ComparisonService } from './comparison.service.js'
+export { SavedComparisonService, MAX_HISTORY_ENTRIES } from './savedComparison.service.js'
+export {
+  PriceHistoryService,
+  buildPriceHistory,
+  DEFAULT_PRICE_HISTORY_DAYS,
+  MAX_PRICE_HISTORY_DAYS
+} from './priceHistory.service.js'
+export {
+  PriceAlertService,
+  matchPriceWatch,
+  getAlertDedupKey,
+  getRetryDelayMs,
+  MAX_DELIVERY_ATTEMPTS,
+  MAX_WATCHES_PER_OWNER
+} from './priceAlert.service.js'
 
 // Export service types
 export type { CreateBrandData, UpdateBrandData } from './brand.service.js'
@@ -22,5 +38,20 @@ export type {
 export type { 
   CreateComparisonData, 
   UpdateComparisonData, 
-  ComparisonWithPhones 
-} from './comparison.service.js'
\ No newline at end of file
+  ComparisonWithPhones,
+  CreateShareLinkData,
+  ShareLinkWithComparison,
+  ShareLinkStatus
+} from './comparison.service.js'
+export type {
+  CreateSavedComparisonData,
+  CreateHistoryEntryData
+} from './savedComparison.service.js'
+export type {
+  CreatePriceSnapshotData,
+  PriceHistoryQuery
+} from './priceHistory.service.js'
+export type {
+  CreatePriceWatchData,
+  PriceWatchEvaluation
+} from './priceAlert.service.js'
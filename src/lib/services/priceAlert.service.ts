@@ -0,0 +1,376 @@
+import { BaseService, NotFoundError, ValidationError } from './base.service.js'
+import type { PriceWatch, NotificationOutbox, Prisma } from '../database.js'
+import type { ComparisonOwnerFilter } from './base.service.js'
+import type { NotificationChannel, PriceAlertPayload, PriceAlertReason } from '../../types/alerts.js'
+
+// Delivery attempts before an outbox row is given up on
+export const MAX_DELIVERY_ATTEMPTS = 5
+
+// Active watches allowed per owner
+export const MAX_WATCHES_PER_OWNER = 50
+
+export interface CreatePriceWatchData extends ComparisonOwnerFilter {
+  phoneId: string
+  variantId?: string
+  targetPrice?: number
+  dropPercent?: number
+  channels: NotificationChannel[]
+  webhookUrl?: string
+  email?: string
+  cooldownHours?: number
+}
+
+export interface PriceWatchEvaluation {
+  watchesChecked: number
+  watchesMatched: number
+  notificationsQueued: number
+}
+
+type WatchWithPhone = PriceWatch & {
+  phone: { model: string; variant: string | null; currentPrice: number | null; currency: string; brand: { name: string } }
+  variant: { ramGb: number; storageGb: number; color: string | null; currentPrice: number | null } | null
+}
+
+/**
+ * Service class for price-drop watches and their notification outbox
+ * Watches belong to a user, or to an anonymous session when there is no user.
+ * Matched alerts are written to the outbox once per channel and delivered
+ * separately, so a failing channel never blocks evaluation.
+ */
+export class PriceAlertService extends BaseService {
+  /**
+   * Register a watch, using the phone's current price as the baseline for
+   * percentage drops
+   * A watch on a variant follows that variant's price instead.
+   */
+  async createWatch(data: CreatePriceWatchData): Promise<PriceWatch> {
+    const owner = this.ownerData(data)
+
+    if (data.targetPrice === undefined && data.dropPercent === undefined) {
+      throw new ValidationError('Provide a target price or a percentage drop', 'targetPrice')
+    }
+    if (data.channels.length === 0) {
+      throw new ValidationError('At least one notification channel is required', 'channels')
+    }
+    if (data.channels.includes('webhook') && !data.webhookUrl) {
+      throw new ValidationError('A webhook URL is required for webhook alerts', 'webhookUrl')
+    }
+    if (data.channels.includes('email') && !data.email) {
+      throw new ValidationError('An email address is required for email alerts', 'email')
+    }
+
+    return this.execute(async () => {
+      const phone = await this.db.phone.findUnique({
+        where: { id: data.phoneId },
+        select: { id: true, currentPrice: true },
+      })
+
+      if (!phone) {
+        throw new NotFoundError('Phone', data.phoneId)
+      }
+
+      const variant = data.variantId
+        ? await this.db.phoneVariant.findFirst({
+          where: { id: data.variantId, phoneId: phone.id },
+          select: { id: true, currentPrice: true },
+        })
+        : null
+      if (data.variantId && !variant) {
+        throw new NotFoundError('PhoneVariant', data.variantId)
+      }
+
+      const baselinePrice = variant ? variant.currentPrice : phone.currentPrice
+      if (!baselinePrice) {
+        throw new ValidationError(
+          `This ${variant ? 'variant' : 'phone'} has no current price to watch`,
+          variant ? 'variantId' : 'phoneId'
+        )
+      }
+
+      const active = await this.db.priceWatch.count({
+        where: { ...this.ownerWhere(owner), isActive: true },
+      })
+      if (active >= MAX_WATCHES_PER_OWNER) {
+        throw new ValidationError(`At most ${MAX_WATCHES_PER_OWNER} price watches can be active`, 'phoneId')
+      }
+
+      return this.db.priceWatch.create({
+        data: {
+          ...owner,
+          phoneId: phone.id,
+          variantId: variant?.id,
+          targetPrice: data.targetPrice,
+          dropPercent: data.dropPercent,
+          baselinePrice,
+          channels: [...new Set(data.channels)],
+          webhookUrl: data.webhookUrl,
+          email: data.email,
+          cooldownHours: data.cooldownHours ?? 24,
+        },
+      })
+    })
+  }
+
+  /**
+   * Get an owner's watches, newest first
+   */
+  async getWatches(owner: ComparisonOwnerFilter): Promise<PriceWatch[]> {
+    const where = this.ownerWhere(owner)
+
+    return this.execute(async () => {
+      return this.db.priceWatch.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+      })
+    })
+  }
+
+  /**
+   * Delete an owner's watch, returning false when it does not exist or
+   * belongs to someone else
+   */
+  async deleteWatch(id: string, owner: ComparisonOwnerFilter): Promise<boolean> {
+    const where = { id, ...this.ownerWhere(owner) }
+
+    return this.execute(async () => {
+      const { count } = await this.db.priceWatch.deleteMany({ where })
+      return count > 0
+    })
+  }
+
+  /**
+   * Check active watches against current prices and queue an outbox row per
+   * channel for each match
+   * Pass the phones a sync updated to limit the check to them.
+   */
+  async evaluateWatches(phoneIds?: string[], now: Date = new Date()): Promise<PriceWatchEvaluation> {
+    return this.execute(async () => {
+      const watches: WatchWithPhone[] = await this.db.priceWatch.findMany({
+        where: {
+          isActive: true,
+          ...(phoneIds && { phoneId: { in: phoneIds } }),
+        },
+        include: {
+          phone: {
+            select: { model: true, variant: true, currentPrice: true, currency: true, brand: { select: { name: true } } },
+          },
+          variant: {
+            select: { ramGb: true, storageGb: true, color: true, currentPrice: true },
+          },
+        },
+      })
+
+      let watchesMatched = 0
+      let notificationsQueued = 0
+
+      for (const watch of watches) {
+        const price = watch.variant ? watch.variant.currentPrice : watch.phone.currentPrice
+        const reason = price ? matchPriceWatch(watch, price, now) : null
+        if (!price || !reason) continue
+
+        const payload = buildAlertPayload(watch, price, reason, now)
+        const rows = watch.channels.map(channel => ({
+          watchId: watch.id,
+          userId: watch.userId,
+          sessionId: watch.sessionId,
+          channel,
+          recipient: recipientFor(watch, channel as NotificationChannel),
+          payload: payload as unknown as Prisma.InputJsonValue,
+          dedupKey: getAlertDedupKey(watch.id, channel, price),
+          availableAt: now,
+        }))
+
+        const [{ count }] = await this.db.$transaction([
+          this.db.notificationOutbox.createMany({ data: rows, skipDuplicates: true }),
+          this.db.priceWatch.update({
+            where: { id: watch.id },
+            data: { lastNotifiedAt: now, lastNotifiedPrice: price },
+          }),
+        ])
+
+        watchesMatched++
+        notificationsQueued += count
+      }
+
+      return { watchesChecked: watches.length, watchesMatched, notificationsQueued }
+    })
+  }
+
+  /**
+   * Get outbox rows due for delivery, oldest first
+   */
+  async getPendingNotifications(limit = 100, now: Date = new Date()): Promise<NotificationOutbox[]> {
+    return this.execute(async () => {
+      return this.db.notificationOutbox.findMany({
+        where: { status: 'pending', availableAt: { lte: now } },
+        orderBy: { availableAt: 'asc' },
+        take: limit,
+      })
+    })
+  }
+
+  /**
+   * Mark an outbox row as delivered
+   */
+  async markNotificationSent(id: string, now: Date = new Date()): Promise<void> {
+    return this.execute(async () => {
+      await this.db.notificationOutbox.update({
+        where: { id },
+        data: { status: 'sent', sentAt: now, attempts: { increment: 1 }, lastError: null },
+      })
+    })
+  }
+
+  /**
+   * Record a failed delivery, retrying with exponential backoff until
+   * MAX_DELIVERY_ATTEMPTS is reached, returning whether it will be retried
+   */
+  async markNotificationFailed(
+    notification: Pick<NotificationOutbox, 'id' | 'attempts' | 'availableAt'>,
+    error: string,
+    retryable = true,
+    now: Date = new Date()
+  ): Promise<boolean> {
+    const attempts = notification.attempts + 1
+    const exhausted = !retryable || attempts >= MAX_DELIVERY_ATTEMPTS
+
+    return this.execute(async () => {
+      await this.db.notificationOutbox.update({
+        where: { id: notification.id },
+        data: {
+          attempts,
+          lastError: error.slice(0, 1000),
+          status: exhausted ? 'failed' : 'pending',
+          availableAt: exhausted ? notification.availableAt : new Date(now.getTime() + getRetryDelayMs(attempts)),
+        },
+      })
+      return !exhausted
+    })
+  }
+
+  /**
+   * Get an owner's in-app alerts, newest first
+   */
+  async getInAppNotifications(
+    owner: ComparisonOwnerFilter,
+    options: { unreadOnly?: boolean; limit?: number } = {}
+  ): Promise<NotificationOutbox[]> {
+    const where: Prisma.NotificationOutboxWhereInput = {
+      ...this.ownerWhere(owner),
+      channel: 'in_app',
+      ...(options.unreadOnly && { readAt: null }),
+    }
+
+    return this.execute(async () => {
+      return this.db.notificationOutbox.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: options.limit ?? 50,
+      })
+    })
+  }
+
+  /**
+   * Mark an owner's in-app alerts as read, all of them when no IDs are given,
+   * returning the number updated
+   */
+  async markNotificationsRead(owner: ComparisonOwnerFilter, ids?: string[], now: Date = new Date()): Promise<number> {
+    const where: Prisma.NotificationOutboxWhereInput = {
+      ...this.ownerWhere(owner),
+      channel: 'in_app',
+      readAt: null,
+      ...(ids && { id: { in: ids } }),
+    }
+
+    return this.execute(async () => {
+      const { count } = await this.db.notificationOutbox.updateMany({ where, data: { readAt: now } })
+      return count
+    })
+  }
+
+}
+
+/**
+ * Decide whether a watch should fire at the given price
+ * A watch stays quiet during its cooldown, and after firing only fires again
+ * once the price falls below the last price it reported.
+ */
+export function matchPriceWatch(
+  watch: Pick<PriceWatch, 'targetPrice' | 'dropPercent' | 'baselinePrice' | 'cooldownHours' | 'lastNotifiedAt' | 'lastNotifiedPrice'>,
+  price: number,
+  now: Date = new Date()
+): PriceAlertReason | null {
+  if (!Number.isFinite(price) || price <= 0) {
+    return null
+  }
+
+  if (watch.lastNotifiedAt && now.getTime() - watch.lastNotifiedAt.getTime() < watch.cooldownHours * 60 * 60 * 1000) {
+    return null
+  }
+
+  if (watch.lastNotifiedPrice !== null && price >= watch.lastNotifiedPrice) {
+    return null
+  }
+
+  if (watch.targetPrice !== null && price <= watch.targetPrice) {
+    return 'target_price'
+  }
+
+  if (watch.dropPercent !== null && watch.baselinePrice > 0) {
+    const drop = ((watch.baselinePrice - price) / watch.baselinePrice) * 100
+    if (drop >= watch.dropPercent) {
+      return 'percent_drop'
+    }
+  }
+
+  return null
+}
+
+/**
+ * Outbox key for one alert on one channel; a watch firing twice at the same
+ * price on the same channel is written once
+ */
+export function getAlertDedupKey(watchId: string, channel: string, price: number): string {
+  return `${watchId}:${channel}:${Math.round(price * 100)}`
+}
+
+/**
+ * Delay before the next delivery attempt: 1, 2, 4, 8... minutes, capped at an hour
+ */
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(2 ** Math.max(attempts - 1, 0), 60) * 60 * 1000
+}
+
+const formatGb = (gb: number) => (gb >= 1024 && gb % 1024 === 0 ? `${gb / 1024}TB` : `${gb}GB`)
+
+function buildAlertPayload(watch: WatchWithPhone, price: number, reason: PriceAlertReason, now: Date): PriceAlertPayload {
+  const { phone, variant } = watch
+  const configuration = variant
+    ? `(${formatGb(variant.ramGb)} + ${formatGb(variant.storageGb)}${variant.color ? `, ${variant.color}` : ''})`
+    : phone.variant
+
+  return {
+    watchId: watch.id,
+    phoneId: watch.phoneId,
+    ...(watch.variantId && { variantId: watch.variantId }),
+    phoneName: [phone.brand.name, phone.model, configuration].filter(Boolean).join(' '),
+    reason,
+    price,
+    currency: phone.currency,
+    baselinePrice: watch.baselinePrice,
+    targetPrice: watch.targetPrice,
+    dropPercent: watch.dropPercent,
+    matchedAt: now.toISOString(),
+  }
+}
+
+function recipientFor(watch: PriceWatch, channel: NotificationChannel): string | null {
+  switch (channel) {
+    case 'webhook':
+      return watch.webhookUrl
+    case 'email':
+      return watch.email
+    default:
+      return watch.userId ?? watch.sessionId
+  }
+}
@@ -0,0 +1,227 @@
+import { BaseService, NotFoundError, ValidationError } from './base.service.js'
+import type { PriceSnapshot, Prisma } from '../database.js'
+import { RetailerOfferSchema } from '../../types/phone.js'
+import type { PriceHistory, PricePoint, RetailerOffer, RetailerPrice } from '../../types/phone.js'
+
+// Default and maximum history windows, in days
+export const DEFAULT_PRICE_HISTORY_DAYS = 90
+export const MAX_PRICE_HISTORY_DAYS = 730
+
+export interface CreatePriceSnapshotData {
+  variantId?: string
+  retailer: string
+  price: number
+  currency?: string
+  availability: string
+  url?: string
+  offers?: RetailerOffer[]
+}
+
+export interface PriceHistoryQuery {
+  days?: number
+  retailer?: string
+  variantId?: string
+}
+
+/**
+ * Service class for recorded retailer prices
+ * Out-of-stock listings are stored but left out of history and stats.
+ */
+export class PriceHistoryService extends BaseService {
+  /**
+   * Record the prices seen for a phone in one sync
+   * All snapshots share the capture time so they can be grouped per sync.
+   */
+  async recordSnapshots(
+    phoneId: string,
+    prices: CreatePriceSnapshotData[],
+    capturedAt: Date = new Date()
+  ): Promise<number> {
+    const invalid = prices.find(entry => !Number.isFinite(entry.price) || entry.price <= 0)
+    if (invalid) {
+      throw new ValidationError(`Invalid price ${invalid.price} from ${invalid.retailer}`, 'price')
+    }
+
+    if (prices.length === 0) {
+      return 0
+    }
+
+    return this.execute(async () => {
+      const result = await this.db.priceSnapshot.createMany({
+        data: prices.map(entry => ({
+          phoneId,
+          variantId: entry.variantId,
+          retailer: entry.retailer,
+          price: entry.price,
+          currency: entry.currency ?? 'INR',
+          availability: entry.availability,
+          url: entry.url,
+          offers: (entry.offers ?? []) as Prisma.InputJsonValue,
+          capturedAt,
+        })),
+      })
+
+      return result.count
+    })
+  }
+
+  /**
+   * Get a phone's price history with min, max and average for the window
+   * With a variant, only listings matched to that variant count.
+   */
+  async getPriceHistory(phoneId: string, query: PriceHistoryQuery = {}): Promise<PriceHistory> {
+    const days = Math.min(Math.max(query.days ?? DEFAULT_PRICE_HISTORY_DAYS, 1), MAX_PRICE_HISTORY_DAYS)
+    const to = new Date()
+    const from = new Date(to.getTime() - days * 24 * 60 * 60 * 1000)
+
+    return this.execute(async () => {
+      const phone = await this.db.phone.findUnique({
+        where: { id: phoneId },
+        select: { id: true, currency: true },
+      })
+
+      if (!phone) {
+        throw new NotFoundError('Phone', phoneId)
+      }
+      if (query.variantId) {
+        await this.assertVariant(phoneId, query.variantId)
+      }
+
+      const where = {
+        phoneId,
+        ...(query.variantId && { variantId: query.variantId }),
+        availability: { not: 'out_of_stock' },
+        ...(query.retailer && { retailer: { equals: query.retailer, mode: 'insensitive' as const } }),
+      }
+
+      const [snapshots, allTimeLow] = await Promise.all([
+        this.db.priceSnapshot.findMany({
+          where: { ...where, capturedAt: { gte: from, lte: to } },
+          orderBy: [{ capturedAt: 'asc' }, { price: 'asc' }],
+        }),
+        this.db.priceSnapshot.findFirst({
+          where,
+          orderBy: [{ price: 'asc' }, { capturedAt: 'asc' }],
+        }),
+      ])
+
+      const history = buildPriceHistory(phone.id, phone.currency, from, to, snapshots, allTimeLow)
+      return query.variantId ? { ...history, variantId: query.variantId } : history
+    })
+  }
+
+  /**
+   * Get each retailer's price and offers from the latest sync, cheapest first
+   * Out-of-stock retailers are left out. With a variant, only listings
+   * matched to that variant count.
+   */
+  async getLatestPrices(phoneId: string, variantId?: string): Promise<RetailerPrice[]> {
+    const scope = { phoneId, ...(variantId && { variantId }) }
+
+    return this.execute(async () => {
+      const latest = await this.db.priceSnapshot.findFirst({
+        where: scope,
+        orderBy: { capturedAt: 'desc' },
+        select: { capturedAt: true },
+      })
+
+      if (!latest) {
+        const phone = await this.db.phone.findUnique({ where: { id: phoneId }, select: { id: true } })
+        if (!phone) {
+          throw new NotFoundError('Phone', phoneId)
+        }
+        if (variantId) {
+          await this.assertVariant(phoneId, variantId)
+        }
+        return []
+      }
+
+      const snapshots = await this.db.priceSnapshot.findMany({
+        where: { ...scope, capturedAt: latest.capturedAt, availability: { not: 'out_of_stock' } },
+        orderBy: { price: 'asc' },
+      })
+
+      return snapshots.map(snapshot => ({
+        retailer: snapshot.retailer,
+        price: snapshot.price,
+        url: snapshot.url ?? undefined,
+        offers: parseOffers(snapshot.offers),
+      }))
+    })
+  }
+
+  private async assertVariant(phoneId: string, variantId: string): Promise<void> {
+    const variant = await this.db.phoneVariant.findFirst({
+      where: { id: variantId, phoneId },
+      select: { id: true },
+    })
+    if (!variant) {
+      throw new NotFoundError('PhoneVariant', variantId)
+    }
+  }
+}
+
+/**
+ * Shape stored snapshots into the series and stats returned to clients
+ */
+export function buildPriceHistory(
+  phoneId: string,
+  currency: string,
+  from: Date,
+  to: Date,
+  snapshots: PriceSnapshot[],
+  allTimeLow: PriceSnapshot | null
+): PriceHistory {
+  const points = snapshots.map(toPricePoint)
+
+  // Cheapest retailer per sync; snapshots arrive ordered by time, then price
+  const lowest: PricePoint[] = []
+  for (const point of points) {
+    const last = lowest[lowest.length - 1]
+    if (!last || last.date.getTime() !== point.date.getTime()) {
+      lowest.push(point)
+    }
+  }
+
+  if (points.length === 0 || !allTimeLow) {
+    return { phoneId, currency, from, to, points, lowest, stats: null }
+  }
+
+  const prices = points.map(point => point.price)
+
+  return {
+    phoneId,
+    currency,
+    from,
+    to,
+    points,
+    lowest,
+    stats: {
+      min: Math.min(...prices),
+      max: Math.max(...prices),
+      average: Math.round(prices.reduce((sum, price) => sum + price, 0) / prices.length),
+      latest: lowest[lowest.length - 1].price,
+      allTimeLow: toPricePoint(allTimeLow),
+    },
+  }
+}
+
+// Offers are stored as JSON; ones that no longer match the schema are skipped
+function parseOffers(value: Prisma.JsonValue): RetailerOffer[] {
+  if (!Array.isArray(value)) {
+    return []
+  }
+
+  return value.flatMap(offer => {
+    const parsed = RetailerOfferSchema.safeParse(offer)
+    return parsed.success ? [parsed.data] : []
+  })
+}
+
+function toPricePoint(snapshot: PriceSnapshot): PricePoint {
+  return {
+    date: snapshot.capturedAt,
+    price: snapshot.price,
+    retailer: snapshot.retailer,
+  }
+}
@@ -0,0 +1,158 @@
+import { BaseService } from './base.service.js'
+import type { ComparisonOwnerFilter } from './base.service.js'
+import type { SavedComparison, ComparisonHistory, Prisma } from '../database.js'
+
+// Keep only the most recent history entries per owner
+export const MAX_HISTORY_ENTRIES = 50
+
+export interface CreateSavedComparisonData extends ComparisonOwnerFilter {
+  title: string
+  tags?: string[]
+  isPublic?: boolean
+  phoneIds: string[]
+  result: Prisma.InputJsonValue
+}
+
+export interface CreateHistoryEntryData extends ComparisonOwnerFilter {
+  phoneIds: string[]
+  phoneNames: string[]
+  comparisonType: string
+}
+
+/**
+ * Service class for saved comparisons and comparison history
+ * Records belong to a user, or to an anonymous session when there is no user.
+ */
+export class SavedComparisonService extends BaseService {
+  /**
+   * Save a comparison
+   */
+  async createSavedComparison(data: CreateSavedComparisonData): Promise<SavedComparison> {
+    const owner = this.ownerData(data)
+
+    return this.execute(async () => {
+      return this.db.savedComparison.create({
+        data: {
+          ...owner,
+          title: data.title,
+          tags: data.tags ?? [],
+          isPublic: data.isPublic ?? false,
+          phoneIds: data.phoneIds,
+          result: data.result,
+        },
+      })
+    })
+  }
+
+  /**
+   * Get an owner's saved comparisons, newest first, optionally matching a
+   * search on title or tags
+   */
+  async getSavedComparisons(owner: ComparisonOwnerFilter, search?: string, limit = 100): Promise<SavedComparison[]> {
+    const where: Prisma.SavedComparisonWhereInput = this.ownerWhere(owner)
+    const query = search?.trim()
+
+    if (query) {
+      where.OR = [
+        { title: { contains: query, mode: 'insensitive' } },
+        { tags: { has: query.toLowerCase() } },
+      ]
+    }
+
+    return this.execute(async () => {
+      return this.db.savedComparison.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+      })
+    })
+  }
+
+  /**
+   * Get a saved comparison visible to the owner, or any public one
+   */
+  async getSavedComparison(id: string, owner?: ComparisonOwnerFilter): Promise<SavedComparison | null> {
+    return this.execute(async () => {
+      return this.db.savedComparison.findFirst({
+        where: {
+          id,
+          OR: [{ isPublic: true }, ...(owner && (owner.userId || owner.sessionId) ? [this.ownerWhere(owner)] : [])],
+        },
+      })
+    })
+  }
+
+  /**
+   * Delete an owner's saved comparison, returning false when it does not
+   * exist or belongs to someone else
+   */
+  async deleteSavedComparison(id: string, owner: ComparisonOwnerFilter): Promise<boolean> {
+    const where = { id, ...this.ownerWhere(owner) }
+
+    return this.execute(async () => {
+      const { count } = await this.db.savedComparison.deleteMany({ where })
+      return count > 0
+    })
+  }
+
+  /**
+   * Record a comparison in the owner's history and trim old entries
+   */
+  async addHistoryEntry(data: CreateHistoryEntryData): Promise<ComparisonHistory> {
+    const owner = this.ownerData(data)
+
+    return this.execute(async () => {
+      const entry = await this.db.comparisonHistory.create({
+        data: {
+          ...owner,
+          phoneIds: data.phoneIds,
+          phoneNames: data.phoneNames,
+          comparisonType: data.comparisonType,
+        },
+      })
+
+      const stale = await this.db.comparisonHistory.findMany({
+        where: this.ownerWhere(owner),
+        orderBy: { createdAt: 'desc' },
+        skip: MAX_HISTORY_ENTRIES,
+        select: { id: true },
+      })
+
+      if (stale.length > 0) {
+        await this.db.comparisonHistory.deleteMany({
+          where: { id: { in: stale.map(item => item.id) } },
+        })
+      }
+
+      return entry
+    })
+  }
+
+  /**
+   * Get an owner's comparison history, newest first
+   */
+  async getHistory(owner: ComparisonOwnerFilter, limit = MAX_HISTORY_ENTRIES): Promise<ComparisonHistory[]> {
+    const where = this.ownerWhere(owner)
+
+    return this.execute(async () => {
+      return this.db.comparisonHistory.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+      })
+    })
+  }
+
+  /**
+   * Clear an owner's comparison history, returning the number of entries removed
+   */
+  async clearHistory(owner: ComparisonOwnerFilter): Promise<number> {
+    const where = this.ownerWhere(owner)
+
+    return this.execute(async () => {
+      const { count } = await this.db.comparisonHistory.deleteMany({ where })
+      return count
+    })
+  }
+
+}
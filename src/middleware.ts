@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ComparisonService } from './lib/services/index.js';
+
+/**
+ * Answer expired comparison share links with 410 Gone
+ * Pages cannot set their own status code, so expired tokens are rewritten
+ * to the static expired page here. Unknown tokens fall through to the share
+ * page, which responds 404.
+ */
+export async function middleware(request: NextRequest) {
+  const token = request.nextUrl.pathname.split('/').pop();
+
+  if (token) {
+    try {
+      const status = await new ComparisonService().getShareLinkStatus(token);
+
+      if (status === 'expired') {
+        return NextResponse.rewrite(new URL('/comparison/share/expired', request.url), { status: 410 });
+      }
+    } catch (error) {
+      console.error('Failed to check share link status:', error);
+    }
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: '/comparison/share/:token',
+  // Prisma needs the Node.js runtime
+  runtime: 'nodejs',
+};
@@ -10,6 +10,8 @@ export function withValidation<T extends z.ZodTypeAny>(
   handler: (validatedData: z.infer<T>) => Promise<NextResponse>
 ) {
   return async function (request: NextRequest): Promise<NextResponse> {
+    let validatedData: z.infer<T>;
+
     try {
       let data: any;
       
@@ -53,7 +55,7 @@ export function withValidation<T extends z.ZodTypeAny>(
       const validationResult = schema.safeParse(data);
       
       if (!validationResult.success) {
-        const errors = validationResult.error.errors.map(err => ({
+        const errors = validationResult.error.issues.map(err => ({
           field: err.path.join('.'),
           message: err.message,
           value: err.input,
@@ -71,8 +73,7 @@ export function withValidation<T extends z.ZodTypeAny>(
         );
       }
       
-      // Call handler with validated data
-      return await handler(validationResult.data);
+      validatedData = validationResult.data;
     } catch (error) {
       console.error('Validation middleware error:', error);
       return NextResponse.json(
@@ -84,6 +85,9 @@ export function withValidation<T extends z.ZodTypeAny>(
         { status: 500 }
       );
     }
+
+    // Call handler with validated data; its errors belong to the error handler
+    return handler(validatedData);
   };
 }
 
@@ -125,7 +129,7 @@ export function withOptionalValidation<T extends z.ZodTypeAny>(
         const validationResult = schema.safeParse(data);
         
         if (!validationResult.success) {
-          const errors = validationResult.error.errors.map(err => ({
+          const errors = validationResult.error.issues.map(err => ({
             field: err.path.join('.'),
             message: err.message,
             value: err.input,
@@ -178,7 +182,7 @@ export function withPathValidation<T extends z.ZodTypeAny>(
         const validationResult = schema.safeParse(context.params);
         
         if (!validationResult.success) {
-          const errors = validationResult.error.errors.map(err => ({
+          const errors = validationResult.error.issues.map(err => ({
             field: err.path.join('.'),
             message: err.message,
             value: err.input,
@@ -0,0 +1,737 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { AdvancedAIService, AIStreamEvent, PhoneSearchFunction } from '../ai';
+import { AIProviderError, BaseAIProvider, CircuitBreaker, ClaudeProvider, GeminiProvider, OpenAIProvider, ProviderChain } from '../providers';
+import { PhoneToolBackends, PhoneToolExecutor } from '../aiTools';
+import { ChatContext, ChatStep } from '../../types/chat';
+import { Phone } from '../../types/phone';
+
+interface RecordedRequest {
+  url: string;
+  headers: IncomingMessage['headers'];
+  body: any;
+}
+
+type Handler = (request: RecordedRequest) => { status?: number; body?: unknown; events?: string[] };
+
+/**
+ * Local HTTP stand-in for a vendor API
+ */
+function startStandIn(): Promise<{ server: Server; baseUrl: string; requests: RecordedRequest[]; setHandler: (handler: Handler) => void }> {
+  const requests: RecordedRequest[] = [];
+  let handler: Handler = () => ({ body: {} });
+
+  const server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const recorded = { url: req.url || '', headers: req.headers, body: raw ? JSON.parse(raw) : null };
+      requests.push(recorded);
+      const { status = 200, body, events } = handler(recorded);
+      if (events) {
+        res.writeHead(status, { 'Content-Type': 'text/event-stream' });
+        events.forEach(event => res.write(`${event}\n\n`));
+        res.end();
+        return;
+      }
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        server,
+        baseUrl: `http://127.0.0.1:${port}`,
+        requests,
+        setHandler: (next: Handler) => { handler = next; },
+      });
+    });
+  });
+}
+
+const settings = {
+  apiKey: 'test-key',
+  model: 'test-model',
+  maxTokens: 1024,
+  temperature: 1.2,
+  topP: 0.9,
+  topK: 40,
+  timeout: 5000,
+};
+
+const aiJson = JSON.stringify({
+  message: 'The Galaxy S24 is a great pick',
+  suggestions: ['Compare with iPhone 15'],
+  nextStep: 'model_selection',
+  extractedData: { phoneSelection: { brand: 'Samsung', model: 'Galaxy S24' } },
+  confidence: 0.9,
+});
+
+describe('AI providers against local stand-ins', () => {
+  let standIn: Awaited<ReturnType<typeof startStandIn>>;
+  let mockContext: ChatContext;
+
+  beforeAll(async () => {
+    standIn = await startStandIn();
+  });
+
+  afterAll(() => {
+    standIn.server.close();
+  });
+
+  beforeEach(() => {
+    standIn.requests.length = 0;
+    mockContext = {
+      sessionId: 'test-session',
+      conversationHistory: [],
+      currentStep: 'brand_selection' as ChatStep,
+      selectedPhones: [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+  });
+
+  describe('GeminiProvider', () => {
+    it('should abort calls that outlast the provider timeout', async () => {
+      // Accepts requests and never answers
+      const stalled = createServer(() => {});
+      await new Promise<void>(resolve => stalled.listen(0, '127.0.0.1', resolve));
+      const { port } = stalled.address() as AddressInfo;
+      const provider = new GeminiProvider({ ...settings, baseUrl: `http://127.0.0.1:${port}`, timeout: 100 });
+
+      try {
+        await expect(provider.generate({ prompt: 'Hello' })).rejects.toThrow();
+        await expect(provider.stream({ prompt: 'Hello' }).next()).rejects.toThrow();
+      } finally {
+        stalled.closeAllConnections();
+        stalled.close();
+      }
+    });
+  });
+
+  describe('OpenAIProvider', () => {
+    it('should send chat completions with tools and parse tool calls', async () => {
+      standIn.setHandler(() => ({
+        body: {
+          choices: [{
+            message: {
+              content: aiJson,
+              tool_calls: [{ type: 'function', function: { name: 'searchPhones', arguments: '{"brand":"Samsung"}' } }],
+            },
+          }],
+          usage: { prompt_tokens: 12, completion_tokens: 30 },
+        },
+      }));
+
+      const provider = new OpenAIProvider({ ...settings, baseUrl: standIn.baseUrl });
+      const result = await provider.processMessage('Find Samsung phones', 'system prompt', [PhoneSearchFunction]);
+
+      const [request] = standIn.requests;
+      expect(request.url).toBe('/chat/completions');
+      expect(request.headers.authorization).toBe('Bearer test-key');
+      expect(request.body.messages[0]).toEqual({ role: 'system', content: 'system prompt' });
+      expect(request.body.tools[0].function.name).toBe('searchPhones');
+      expect(request.body.response_format).toEqual({ type: 'json_object' });
+
+      expect(result.text).toBe(aiJson);
+      expect(result.functionCalls).toEqual([{ name: 'searchPhones', parameters: { brand: 'Samsung' } }]);
+      expect(result.usage).toEqual({ inputTokens: 12, outputTokens: 30 });
+    });
+
+    it('should raise AIProviderError on HTTP errors', async () => {
+      standIn.setHandler(() => ({ status: 429, body: { error: 'rate limited' } }));
+
+      const provider = new OpenAIProvider({ ...settings, baseUrl: standIn.baseUrl });
+
+      await expect(provider.extractPhoneSelection('iPhone 15')).rejects.toBeInstanceOf(AIProviderError);
+    });
+  });
+
+  describe('streaming', () => {
+    const openaiEvents = (...chunks: string[]) => [
+      ...chunks.map(content => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}`),
+      'data: [DONE]',
+    ];
+
+    const collect = async <T,>(iterable: AsyncIterable<T>): Promise<T[]> => {
+      const items: T[] = [];
+      for await (const item of iterable) items.push(item);
+      return items;
+    };
+
+    it('should stream OpenAI deltas until [DONE]', async () => {
+      standIn.setHandler(() => ({ events: openaiEvents('Hello', ' there') }));
+      const provider = new OpenAIProvider({ ...settings, baseUrl: standIn.baseUrl });
+
+      const chunks = await collect(provider.streamMessage('hi', 'be brief'));
+
+      expect(chunks).toEqual(['Hello', ' there']);
+      expect(standIn.requests[0].body.stream).toBe(true);
+      expect(standIn.requests[0].body.response_format).toBeUndefined();
+    });
+
+    it('should stream Claude text deltas and stop at message_stop', async () => {
+      standIn.setHandler(() => ({
+        events: [
+          'event: message_start\ndata: {"type":"message_start"}',
+          'event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"type":"text_delta","text":"Pixel"}}',
+          'event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"type":"text_delta","text":" 8"}}',
+          'event: message_stop\ndata: {"type":"message_stop"}',
+        ],
+      }));
+      const provider = new ClaudeProvider({ ...settings, baseUrl: standIn.baseUrl });
+
+      const chunks = await collect(provider.streamMessage('hi', 'be brief'));
+
+      expect(chunks).toEqual(['Pixel', ' 8']);
+      expect(standIn.requests[0].body).toMatchObject({ stream: true, system: 'be brief' });
+    });
+
+    it('should emit deltas then a done event from processUserMessageStream', async () => {
+      standIn.setHandler(() => ({ events: openaiEvents('The Galaxy S24 ', 'is a great pick.\n- Compare with iPhone 15') }));
+      const service = new AdvancedAIService({ provider: 'openai', openaiApiKey: 'test-key', openaiBaseUrl: standIn.baseUrl });
+
+      const events = await collect(service.processUserMessageStream('Tell me about Samsung Galaxy S24', mockContext));
+      const done = events[events.length - 1] as Extract<AIStreamEvent, { type: 'done' }>;
+
+      expect(events.filter(e => e.type === 'delta')).toHaveLength(2);
+      expect(done.type).toBe('done');
+      expect(done.response.message).toContain('The Galaxy S24 is a great pick.');
+      expect(done.response.suggestions).toContain('Compare with iPhone 15');
+      expect(done.response.extractedData?.streamed).toBe(true);
+
+      const [metrics] = Array.from(service.getResponseMetrics().values());
+      expect(metrics.provider).toBe('openai');
+    });
+
+    it('should fail over before the first token is streamed', async () => {
+      standIn.setHandler(request => request.url === '/chat/completions'
+        ? { status: 503, body: { error: 'unavailable' } }
+        : { events: ['data: {"type":"content_block_delta","delta":{"type":"text_delta","text":"From Claude"}}', 'data: {"type":"message_stop"}'] });
+      const service = new AdvancedAIService({
+        provider: 'openai',
+        fallbackChain: [{ provider: 'claude' }],
+        openaiApiKey: 'test-key',
+        claudeApiKey: 'test-key',
+        openaiBaseUrl: standIn.baseUrl,
+        claudeBaseUrl: standIn.baseUrl,
+      });
+
+      const events = await collect(service.processUserMessageStream('hello', mockContext));
+
+      expect(events[0]).toEqual({ type: 'delta', content: 'From Claude' });
+      expect(standIn.requests.map(r => r.url)).toEqual(['/chat/completions', '/v1/messages']);
+    });
+
+    it('should stop streaming when the caller aborts', async () => {
+      standIn.setHandler(() => ({ events: openaiEvents('one', 'two', 'three') }));
+      const service = new AdvancedAIService({ provider: 'openai', openaiApiKey: 'test-key', openaiBaseUrl: standIn.baseUrl });
+      const controller = new AbortController();
+
+      const events: AIStreamEvent[] = [];
+      for await (const event of service.processUserMessageStream('hello', mockContext, { signal: controller.signal })) {
+        events.push(event);
+        if (event.type === 'delta') controller.abort();
+      }
+
+      expect(events.map(e => e.type)).toEqual(['delta', 'done']);
+      const done = events[1] as Extract<AIStreamEvent, { type: 'done' }>;
+      expect(done.response.extractedData?.cancelled).toBe(true);
+    });
+  });
+
+  describe('ClaudeProvider', () => {
+    it('should call the messages API and parse text and tool_use blocks', async () => {
+      standIn.setHandler(() => ({
+        body: {
+          content: [
+            { type: 'text', text: aiJson },
+            { type: 'tool_use', id: 'tool_1', name: 'checkPhonePrice', input: { phoneId: 'phone-1' } },
+          ],
+          usage: { input_tokens: 8, output_tokens: 20 },
+        },
+      }));
+
+      const provider = new ClaudeProvider({ ...settings, baseUrl: standIn.baseUrl });
+      const result = await provider.processMessage('Price of phone-1?', 'system prompt', [PhoneSearchFunction]);
+
+      const [request] = standIn.requests;
+      expect(request.url).toBe('/v1/messages');
+      expect(request.headers['x-api-key']).toBe('test-key');
+      expect(request.headers['anthropic-version']).toBeDefined();
+      expect(request.body.system).toBe('system prompt');
+      expect(request.body.temperature).toBe(1);
+      expect(request.body.tools[0].input_schema).toEqual(PhoneSearchFunction.parameters);
+
+      expect(result.text).toBe(aiJson);
+      expect(result.functionCalls).toEqual([{ name: 'checkPhonePrice', parameters: { phoneId: 'phone-1' } }]);
+    });
+  });
+
+  describe('AdvancedAIService provider selection', () => {
+    it.each([
+      ['openai' as const, { choices: [{ message: { content: aiJson } }] }],
+      ['claude' as const, { content: [{ type: 'text', text: aiJson }] }],
+    ])('should process messages through %s by config alone', async (provider, body) => {
+      standIn.setHandler(() => ({ body }));
+
+      const service = new AdvancedAIService({
+        provider,
+        openaiApiKey: 'test-key',
+        claudeApiKey: 'test-key',
+        openaiBaseUrl: standIn.baseUrl,
+        claudeBaseUrl: standIn.baseUrl,
+        retryAttempts: 1,
+      });
+
+      const response = await service.processUserMessage('Tell me about Galaxy S24', mockContext);
+
+      expect(standIn.requests).toHaveLength(1);
+      expect(response.message).toBe('The Galaxy S24 is a great pick');
+      expect(response.nextStep).toBe('model_selection');
+
+      const health = await service.getHealthStatus();
+      expect(health.provider).toBe(provider);
+      expect(health.status).not.toBe('unhealthy');
+    });
+
+    it('should use the provider default model when none is configured', async () => {
+      standIn.setHandler(() => ({ body: { choices: [{ message: { content: '{"brand":"Apple","model":"iPhone 15"}' } }] } }));
+
+      const service = new AdvancedAIService({
+        provider: 'openai',
+        openaiApiKey: 'test-key',
+        openaiBaseUrl: standIn.baseUrl,
+        retryAttempts: 1,
+      });
+
+      const selection = await service.extractPhoneSelection('I like the iPhone 15');
+
+      expect(selection).toEqual({ brand: 'Apple', model: 'iPhone 15' });
+      expect(standIn.requests[0].body.model).toBe('gpt-4-turbo');
+    });
+
+    it('should fall back to rule-based responses when the provider key is missing', async () => {
+      const service = new AdvancedAIService({ provider: 'claude', claudeApiKey: undefined });
+
+      const response = await service.processUserMessage('compare iPhone 15 vs Galaxy S24', mockContext);
+
+      expect(standIn.requests).toHaveLength(0);
+      expect(response.message).toBeTruthy();
+      expect((await service.getHealthStatus()).status).toBe('unhealthy');
+    });
+  });
+
+  describe('tool execution loop', () => {
+    const toolCallReply = (name: string, args: Record<string, unknown>) => ({
+      body: {
+        choices: [{
+          message: {
+            content: null,
+            tool_calls: [{ type: 'function', function: { name, arguments: JSON.stringify(args) } }],
+          },
+        }],
+      },
+    });
+
+    const createToolService = (backends: Partial<PhoneToolBackends>, maxToolIterations = 3) => new AdvancedAIService(
+      { provider: 'openai', openaiApiKey: 'test-key', openaiBaseUrl: standIn.baseUrl, maxToolIterations },
+      new PhoneToolExecutor(backends as PhoneToolBackends)
+    );
+
+    it('should execute tool calls and feed results back for a grounded answer', async () => {
+      standIn.setHandler(request => request.body.messages[1].content.includes('Function results')
+        ? { body: { choices: [{ message: { content: aiJson } }] } }
+        : toolCallReply('searchPhones', { brand: 'Samsung', priceRange: { max: 90000 } }));
+      const findPhones = vi.fn(async () => []);
+      const service = createToolService({ findPhones });
+
+      const response = await service.processUserMessage('Samsung phones under 90k?', mockContext);
+
+      expect(findPhones).toHaveBeenCalledWith(expect.objectContaining({ brand: 'Samsung', maxPrice: 90000 }));
+      expect(standIn.requests).toHaveLength(2);
+      expect(standIn.requests[1].body.messages[1].content).toContain('"function":"searchPhones"');
+      expect(response.message).toBe('The Galaxy S24 is a great pick');
+      expect(response.extractedData?.toolCalls).toEqual([
+        expect.objectContaining({ iteration: 1, name: 'searchPhones', result: { total: 0, phones: [] } }),
+      ]);
+      expect(response.extractedData?.functionCalls).toBeUndefined();
+    });
+
+    it('should stop offering tools once the iteration cap is reached', async () => {
+      standIn.setHandler(request => request.body.tools
+        ? toolCallReply('checkPhonePrice', { phoneId: 'phone-1' })
+        : { body: { choices: [{ message: { content: aiJson } }] } });
+      const service = createToolService({ getPhoneById: vi.fn(async () => null), searchPhones: vi.fn(async () => []) }, 2);
+
+      const response = await service.processUserMessage('How much is it?', mockContext);
+
+      expect(standIn.requests).toHaveLength(3);
+      expect(standIn.requests[2].body.tools).toBeUndefined();
+      expect(response.extractedData?.toolCalls).toHaveLength(2);
+      expect(response.extractedData?.toolCalls[0].error).toBe('Phone not found: phone-1');
+
+      const [metrics] = Array.from(service.getResponseMetrics().values());
+      expect(metrics.functionCallsUsed).toBe(2);
+    });
+  });
+
+  describe('rolling summarization', () => {
+    const turns = ['I need a phone under 60k', 'Noted, budget under ₹60,000', 'Not the Pixel 8, battery is poor', 'Understood', 'What about Samsung?', 'The Galaxy S24 fits']
+      .map((content, index) => ({
+        id: `msg_${index}`,
+        role: index % 2 === 0 ? 'user' as const : 'assistant' as const,
+        content,
+        timestamp: new Date(),
+      }));
+
+    const summaryJson = JSON.stringify({
+      summary: 'User wants a phone under 60k and ruled out the Pixel 8 for battery life.',
+      preferences: { budget: { min: null, max: 60000 }, priorities: ['battery', 'software'], usage: null },
+      rejectedPhones: ['Google Pixel 8'],
+    });
+
+    const createSummaryService = () => new AdvancedAIService({
+      provider: 'openai', openaiApiKey: 'test-key', openaiBaseUrl: standIn.baseUrl, maxContextMessages: 4, retryAttempts: 1,
+    });
+
+    const isSummaryRequest = (request: RecordedRequest) =>
+      request.body.messages[1].content.startsWith('Update the running summary');
+
+    it('should fold turns leaving the window into a summary the prompt carries', async () => {
+      standIn.setHandler(request => ({
+        body: { choices: [{ message: { content: isSummaryRequest(request) ? summaryJson : aiJson } }] },
+      }));
+
+      const response = await createSummaryService().processUserMessage('Is it good?', { ...mockContext, conversationHistory: turns });
+
+      expect(standIn.requests).toHaveLength(2);
+      expect(standIn.requests[0].body.messages[1].content).toContain('user: Not the Pixel 8, battery is poor');
+      expect(response.summary).toEqual({
+        text: 'User wants a phone under 60k and ruled out the Pixel 8 for battery life.',
+        preferences: { budget: { max: 60000 }, priorities: ['battery'] },
+        rejectedPhones: ['Google Pixel 8'],
+        summarizedMessages: 3,
+      });
+
+      const prompt = standIn.requests[1].body.messages[1].content;
+      expect(prompt).toContain('Earlier conversation:\nUser wants a phone under 60k');
+      expect(prompt).toContain('Budget: Under ₹60,000; Priorities: battery');
+      expect(prompt).toContain('Rejected Phones: Google Pixel 8');
+      expect(prompt).not.toContain('I need a phone under 60k');
+    });
+
+    it('should keep a plain-text summary when the model reply is unusable', async () => {
+      standIn.setHandler(request => ({
+        body: { choices: [{ message: { content: isSummaryRequest(request) ? 'Sorry, I cannot help' : aiJson } }] },
+      }));
+
+      const response = await createSummaryService().processUserMessage('Is it good?', {
+        ...mockContext,
+        conversationHistory: turns,
+        preferences: { budget: { max: 60000 } },
+      });
+
+      expect(response.summary).toEqual({
+        text: 'user: I need a phone under 60k\nassistant: Noted, budget under ₹60,000\nuser: Not the Pixel 8, battery is poor',
+        preferences: { budget: { max: 60000 } },
+        rejectedPhones: [],
+        summarizedMessages: 3,
+      });
+    });
+
+    it('should not summarize again while the window has room', async () => {
+      standIn.setHandler(() => ({ body: { choices: [{ message: { content: aiJson } }] } }));
+      const summary = { text: 'Earlier turns', rejectedPhones: ['Google Pixel 8'], summarizedMessages: 3 };
+
+      const response = await createSummaryService().processUserMessage('Is it good?', {
+        ...mockContext,
+        conversationHistory: turns,
+        summary,
+      });
+
+      expect(standIn.requests).toHaveLength(1);
+      expect(standIn.requests[0].body.messages[1].content).toContain('Rejected Phones: Google Pixel 8');
+      expect(response.summary).toBeUndefined();
+    });
+
+    it('should keep concurrent sessions apart while their summaries are pending', async () => {
+      const otherTurns = ['Show me iPhones', 'Sure', 'Only Apple please', 'Noted', 'What about the 15?', 'It is great']
+        .map((content, index) => ({ ...turns[index], id: `other_${index}`, content }));
+
+      standIn.setHandler(request => {
+        const session = request.body.messages[1].content.includes('Pixel 8') ? 'A' : 'B';
+        const content = isSummaryRequest(request) ? JSON.stringify({ summary: `Session ${session} summary` }) : aiJson;
+        return { body: { choices: [{ message: { content } }] } };
+      });
+
+      const service = createSummaryService();
+      const [first, second] = await Promise.all([
+        service.processUserMessage('Is it good?', { ...mockContext, sessionId: 'a', conversationHistory: turns }),
+        service.processUserMessage('Which colour?', { ...mockContext, sessionId: 'b', conversationHistory: otherTurns }),
+      ]);
+
+      expect(first.summary?.text).toBe('Session A summary');
+      expect(second.summary?.text).toBe('Session B summary');
+
+      const prompts = standIn.requests.filter(request => !isSummaryRequest(request)).map(request => request.body.messages[1].content);
+      const firstPrompt = prompts.find(prompt => prompt.includes('User Message: "Is it good?"'));
+      const secondPrompt = prompts.find(prompt => prompt.includes('User Message: "Which colour?"'));
+
+      expect(firstPrompt).toContain('Earlier conversation:\nSession A summary');
+      expect(firstPrompt).toContain('The Galaxy S24 fits');
+      expect(firstPrompt).not.toContain('What about the 15?');
+      expect(secondPrompt).toContain('Earlier conversation:\nSession B summary');
+      expect(secondPrompt).not.toContain('The Galaxy S24 fits');
+    });
+
+    it('should not summarize for a stream the caller has already aborted', async () => {
+      standIn.setHandler(() => ({ body: { choices: [{ message: { content: summaryJson } }] } }));
+      const controller = new AbortController();
+      controller.abort();
+
+      const events: AIStreamEvent[] = [];
+      for await (const event of createSummaryService().processUserMessageStream('Is it good?', {
+        ...mockContext,
+        conversationHistory: turns,
+      }, { signal: controller.signal })) {
+        events.push(event);
+      }
+
+      expect(standIn.requests).toHaveLength(0);
+      expect(events.map(event => event.type)).toEqual(['done']);
+    });
+  });
+
+  describe('spec grounding', () => {
+    const galaxy = {
+      id: 'phone-1',
+      brand: 'Samsung',
+      model: 'Galaxy S24',
+      launchDate: new Date('2024-01-01'),
+      availability: 'available',
+      pricing: { mrp: 79999, currentPrice: 74999, currency: 'INR' },
+      specifications: {
+        display: { size: '6.2 inches', resolution: '1080 x 2340', type: 'AMOLED', refreshRate: 120 },
+        camera: { rear: [{ megapixels: 50, features: [] }], front: { megapixels: 12, features: [] }, features: [] },
+        performance: { processor: 'Snapdragon 8 Gen 3', ram: ['8GB'], storage: ['256GB'] },
+        battery: { capacity: 4000, chargingSpeed: 25 },
+        connectivity: { network: ['5G'], wifi: 'Wi-Fi 6E', bluetooth: '5.3' },
+        build: { dimensions: '', weight: '167 g', materials: [], colors: [] },
+        software: { os: 'Android', version: '14' },
+      },
+      images: [],
+      createdAt: new Date('2024-01-01'),
+      updatedAt: new Date('2024-01-01'),
+    } as Phone;
+    const pixel = { ...galaxy, id: 'phone-2', brand: 'Google', model: 'Pixel 8', pricing: { mrp: 75999, currentPrice: 69999, currency: 'INR' } } as Phone;
+
+    const createGroundedService = (groundingMode?: 'annotate' | 'correct') => new AdvancedAIService(
+      { provider: 'openai', openaiApiKey: 'test-key', openaiBaseUrl: standIn.baseUrl, retryAttempts: 1, groundingMode },
+      new PhoneToolExecutor({ getPhoneById: vi.fn(async (id: string) => [galaxy, pixel].find(phone => phone.id === id) || null) } as unknown as PhoneToolBackends)
+    );
+    const reply = (content: unknown) => ({ body: { choices: [{ message: { content: JSON.stringify(content) } }] } });
+
+    it('should annotate specs that contradict the selected phone and score the message', async () => {
+      standIn.setHandler(() => reply({ message: 'The Galaxy S24 has a 5000mAh battery and a 6.2-inch screen.', extractedData: {} }));
+      const service = createGroundedService();
+
+      const response = await service.processUserMessage('Tell me about it', { ...mockContext, selectedPhones: ['phone-1'] });
+
+      expect(response.message).toBe('The Galaxy S24 has a 5000mAh (our catalog lists 4000mAh) battery and a 6.2-inch screen.');
+      expect(response.extractedData?.grounding).toMatchObject({
+        score: 0.5,
+        verified: 1,
+        contradicted: 1,
+        mismatches: [{ kind: 'battery', phoneId: 'phone-1', claimed: '5000mAh', expected: '4000mAh' }],
+      });
+    });
+
+    it('should ground comparison text per phone and record the score in its metadata', async () => {
+      standIn.setHandler(() => reply({
+        summary: 'The Pixel 8 is cheaper at ₹69,999.',
+        insights: {
+          strengths: { phone1: ['Fast 45W charging'], phone2: ['Clean software'] },
+          recommendations: ['Pick the Galaxy S24 for its Snapdragon 8 Gen 3'],
+        },
+      }));
+      const service = createGroundedService('correct');
+
+      const comparison = await service.generateComparison(galaxy, pixel);
+
+      expect(comparison.insights.strengths.phone1).toEqual(['Fast 25W charging']);
+      expect(comparison.metadata?.grounding).toMatchObject({ score: 0.67, mode: 'correct', verified: 2, contradicted: 1 });
+    });
+  });
+
+  describe('multilingual chat', () => {
+    it('should ask the model to reply in the language of the message', async () => {
+      standIn.setHandler(() => ({ body: { choices: [{ message: { content: aiJson } }] } }));
+      const service = new AdvancedAIService({ provider: 'openai', openaiApiKey: 'test-key', openaiBaseUrl: standIn.baseUrl });
+
+      const response = await service.processUserMessage('Galaxy S24 ka camera kaisa hai?', mockContext);
+
+      expect(standIn.requests[0].body.messages[1].content).toContain('Reply Language: The user writes in Hinglish');
+      expect(response.locale).toBe('hi-Latn');
+    });
+
+    it('should answer Hinglish fallbacks in Hinglish with the budget in rupees', async () => {
+      const service = new AdvancedAIService({ provider: 'claude', claudeApiKey: undefined });
+
+      const response = await service.processUserMessage('mujhe tees hazaar ke andar achha phone chahiye', mockContext);
+
+      expect(response.locale).toBe('hi-Latn');
+      expect(response.message).toContain('₹30,000 ke budget mein');
+      expect(response.extractedData?.preferences).toEqual({ budget: { max: 30000 } });
+    });
+
+    it('should read transliterated phone names in Devanagari', async () => {
+      const service = new AdvancedAIService({ provider: 'claude', claudeApiKey: undefined });
+
+      const response = await service.processUserMessage('सैमसंग गैलेक्सी S24 कैसा है?', mockContext);
+
+      expect(response.locale).toBe('hi');
+      expect(response.extractedData?.phoneSelection).toEqual({ brand: 'Samsung', model: 'Galaxy S24', variant: undefined });
+      expect(response.message).toContain('Samsung Galaxy S24 एक लोकप्रिय फ़ोन है');
+    });
+
+    it('should keep the session locale for messages without language cues', async () => {
+      const service = new AdvancedAIService({ provider: 'claude', claudeApiKey: undefined });
+
+      const response = await service.processUserMessage('iPhone 15 Pro', { ...mockContext, locale: 'hi-Latn' });
+
+      expect(response.locale).toBe('hi-Latn');
+      expect(response.message).toContain('Badhiya choice!');
+    });
+  });
+
+  describe('provider failover chain', () => {
+    const createChainService = () => new AdvancedAIService({
+      provider: 'openai',
+      fallbackChain: [{ provider: 'claude', model: 'claude-test' }],
+      openaiApiKey: 'test-key',
+      claudeApiKey: 'test-key',
+      openaiBaseUrl: standIn.baseUrl,
+      claudeBaseUrl: standIn.baseUrl,
+      circuitBreakerThreshold: 2,
+      circuitBreakerResetMs: 60000,
+      retryAttempts: 1,
+    });
+
+    beforeEach(() => {
+      standIn.setHandler(request => request.url === '/chat/completions'
+        ? { status: 503, body: { error: 'unavailable' } }
+        : { body: { content: [{ type: 'text', text: aiJson }] } });
+    });
+
+    it('should fail over to the next provider and record who answered', async () => {
+      const service = createChainService();
+
+      const response = await service.processUserMessage('Tell me about Galaxy S24', mockContext);
+
+      expect(response.message).toBe('The Galaxy S24 is a great pick');
+      expect(standIn.requests.map(r => r.url)).toEqual(['/chat/completions', '/v1/messages']);
+      expect(standIn.requests[1].body.model).toBe('claude-test');
+
+      const [metrics] = Array.from(service.getResponseMetrics().values());
+      expect(metrics.provider).toBe('claude');
+      expect(metrics.model).toBe('claude-test');
+    });
+
+    it('should skip a provider once its circuit breaker opens', async () => {
+      const service = createChainService();
+
+      await service.processUserMessage('first', mockContext);
+      await service.processUserMessage('second', mockContext);
+      standIn.requests.length = 0;
+
+      await service.processUserMessage('third', mockContext);
+
+      expect(standIn.requests.map(r => r.url)).toEqual(['/v1/messages']);
+
+      const health = await service.getHealthStatus();
+      expect(health.status).toBe('degraded');
+      expect(health.providers.map(p => [p.provider, p.state])).toEqual([
+        ['openai', 'open'],
+        ['claude', 'closed'],
+      ]);
+    });
+
+    it('should use the rule-based fallback only after the whole chain fails', async () => {
+      standIn.setHandler(() => ({ status: 500, body: { error: 'down' } }));
+      const service = createChainService();
+
+      const response = await service.processUserMessage('compare iPhone 15 vs Galaxy S24', mockContext);
+
+      expect(standIn.requests).toHaveLength(2);
+      expect(response.extractedData?.fallbackUsed).toBe(true);
+
+      const [metrics] = Array.from(service.getResponseMetrics().values());
+      expect(metrics.provider).toBe('fallback');
+    });
+  });
+});
+
+describe('CircuitBreaker', () => {
+  it('should open after consecutive failures and half-open after the reset timeout', () => {
+    let now = 0;
+    const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeout: 1000 }, () => now);
+
+    breaker.recordFailure(new Error('boom'));
+    expect(breaker.canRequest()).toBe(true);
+
+    breaker.recordFailure(new Error('boom'));
+    expect(breaker.canRequest()).toBe(false);
+    expect(breaker.getStatus().lastError).toBe('boom');
+
+    now = 1000;
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.getStatus().state).toBe('half_open');
+
+    breaker.recordFailure();
+    expect(breaker.getStatus().state).toBe('open');
+
+    now = 2000;
+    breaker.canRequest();
+    breaker.recordSuccess();
+    expect(breaker.getStatus()).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+  });
+
+  it('should let only one concurrent trial through while half-open', async () => {
+    const chain = new ProviderChain({ failureThreshold: 1, resetTimeout: 0 });
+    chain.add({ name: 'openai', model: 'gpt-test' } as unknown as BaseAIProvider);
+
+    await expect(chain.execute(async () => { throw new Error('down'); })).rejects.toThrow('down');
+
+    let finishTrial!: (value: string) => void;
+    const operation = vi.fn(() => new Promise<string>(resolve => { finishTrial = resolve; }));
+    const trial = chain.execute(operation);
+    const shed = await Promise.allSettled([chain.execute(operation), chain.execute(operation)]);
+
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(shed.map(outcome => outcome.status)).toEqual(['rejected', 'rejected']);
+    expect(String((shed[0] as PromiseRejectedResult).reason)).toContain('circuit open');
+
+    finishTrial('ok');
+    expect((await trial).result).toBe('ok');
+    expect(chain.getStatus()[0].state).toBe('closed');
+  });
+
+  it('should free the trial slot when a half-open stream is abandoned', async () => {
+    let now = 0;
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 1000 }, () => now);
+
+    breaker.recordFailure();
+    now = 1000;
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.canRequest()).toBe(false);
+
+    breaker.releaseTrial();
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.getStatus().state).toBe('half_open');
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { PhoneToolBackends, PhoneToolExecutor } from '../aiTools.js';
+import { Phone } from '../../types/phone.js';
+import { ComparisonResult, MultiPhoneComparison } from '../../types/comparison.js';
+
+const makePhone = (id: string, brand: string, model: string, currentPrice: number): Phone => ({
+  id,
+  brand,
+  model,
+  launchDate: new Date('2024-01-01'),
+  availability: 'available',
+  pricing: { mrp: currentPrice + 5000, currentPrice, currency: 'INR' },
+  specifications: {
+    display: { size: '6.2"', resolution: '1080x2340', type: 'AMOLED' },
+    camera: { rear: [{ megapixels: 50, features: [] }], front: { megapixels: 12, features: [] }, features: [] },
+    performance: { processor: 'Snapdragon 8 Gen 3', ram: ['8GB'], storage: ['256GB'], expandableStorage: false },
+    battery: { capacity: 4900, wirelessCharging: true },
+    connectivity: { network: ['5G'], wifi: 'Wi-Fi 7', bluetooth: '5.3', nfc: true },
+    build: { dimensions: '', weight: '', materials: [], colors: [] },
+    software: { os: 'Android', version: '14' },
+  },
+  images: [],
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+});
+
+describe('PhoneToolExecutor', () => {
+  const galaxy = makePhone('phone-1', 'Samsung', 'Galaxy S24', 79999);
+  const pixel = makePhone('phone-2', 'Google', 'Pixel 8', 69999);
+  const oneplus = makePhone('phone-3', 'OnePlus', '12', 64999);
+
+  let backends: PhoneToolBackends;
+  let executor: PhoneToolExecutor;
+
+  beforeEach(() => {
+    backends = {
+      searchPhones: vi.fn(async (query: string) => (query.includes('Pixel') ? [pixel] : [galaxy, pixel])),
+      findPhones: vi.fn(async () => [galaxy]),
+      getPhoneById: vi.fn(async (id: string) => [galaxy, pixel, oneplus].find(phone => phone.id === id) || null),
+      comparePhones: vi.fn(async () => ({
+        overallWinner: 'phone1',
+        scores: { phone1: { overall: 85 }, phone2: { overall: 80 } },
+        categories: [{ name: 'camera', winner: 'phone2' }],
+        insights: { recommendations: ['Pick the Galaxy for performance'] },
+        summary: 'Galaxy S24 wins overall',
+      } as unknown as ComparisonResult)),
+      compareMultiplePhones: vi.fn(async () => ({
+        rankings: [{ phoneId: 'phone-2', rank: 1, totalScore: 86 }, { phoneId: 'phone-1', rank: 2, totalScore: 84 }],
+        scores: {},
+        categories: [{ name: 'camera', winner: 'phone-2' }],
+        insights: { recommendations: ['Pick the Pixel for photos'] },
+        summary: 'Pixel 8 ranks first',
+      } as unknown as MultiPhoneComparison)),
+      getPhonePrices: vi.fn(async () => null),
+    };
+    executor = new PhoneToolExecutor(backends);
+  });
+
+  it('should use the query builder for brand and price filters', async () => {
+    const result: any = await executor.execute('searchPhones', { brand: 'Samsung', priceRange: { max: 90000 } });
+
+    expect(backends.findPhones).toHaveBeenCalledWith(expect.objectContaining({ brand: 'Samsung', maxPrice: 90000 }));
+    expect(result.phones).toEqual([expect.objectContaining({ id: 'phone-1', name: 'Samsung Galaxy S24', price: 79999 })]);
+  });
+
+  it('should keep the feature query alongside brand and price filters', async () => {
+    await executor.execute('searchPhones', { brand: 'Samsung', features: ['wireless charging'], usage: 'gaming' });
+
+    expect(backends.findPhones).toHaveBeenCalledWith(expect.objectContaining({ brand: 'Samsung', query: 'wireless charging gaming' }));
+  });
+
+  it('should fall back to text search when no filters are given', async () => {
+    await executor.execute('searchPhones', { features: ['good camera'], usage: 'photography' });
+
+    expect(backends.searchPhones).toHaveBeenCalledWith('good camera photography');
+    expect(backends.findPhones).not.toHaveBeenCalled();
+  });
+
+  it('should resolve phones by ID or name before comparing', async () => {
+    const result: any = await executor.execute('comparePhones', { phoneIds: ['phone-1', 'Pixel 8'] });
+
+    expect(backends.comparePhones).toHaveBeenCalledWith(galaxy, pixel);
+    expect(result.overallWinner).toBe('phone1');
+    expect(result.categories).toEqual([{ name: 'camera', winner: 'phone2' }]);
+  });
+
+  it('should rank three or more phones together', async () => {
+    const result: any = await executor.execute('comparePhones', { phoneIds: ['phone-1', 'phone-2', 'phone-3'] });
+
+    expect(backends.compareMultiplePhones).toHaveBeenCalledWith([galaxy, pixel, oneplus]);
+    expect(backends.comparePhones).not.toHaveBeenCalled();
+    expect(result.phones.map((phone: any) => phone.id)).toEqual(['phone-1', 'phone-2', 'phone-3']);
+    expect(result.rankings[0].phoneId).toBe('phone-2');
+  });
+
+  it('should use catalog pricing when live prices are unavailable', async () => {
+    const result: any = await executor.execute('checkPhonePrice', { phoneId: 'phone-2' });
+
+    expect(backends.getPhonePrices).toHaveBeenCalledWith('Google', 'Pixel 8', undefined);
+    expect(result).toMatchObject({ source: 'catalog', currentPrice: 69999 });
+  });
+
+  it('should price in the requested region without retailer lookups', async () => {
+    const listed = { ...galaxy, pricing: { ...galaxy.pricing, regionalPrices: [{ region: 'US' as const, currency: 'USD' as const, currentPrice: 799 }] } };
+    vi.mocked(backends.getPhoneById).mockResolvedValueOnce(listed).mockResolvedValueOnce(pixel);
+
+    const us: any = await executor.execute('checkPhonePrice', { phoneId: 'phone-1', region: 'us' });
+    const gb: any = await executor.execute('checkPhonePrice', { phoneId: 'phone-2', region: 'GB' });
+
+    expect(us).toMatchObject({ region: 'US', source: 'regional', currentPrice: 799, currency: 'USD' });
+    expect(gb).toMatchObject({ region: 'GB', source: 'converted', currency: 'GBP' });
+    expect(gb.currentPrice).toBeCloseTo(634, 0);
+    expect(backends.getPhonePrices).not.toHaveBeenCalled();
+  });
+
+  it('should record failures in the trace instead of throwing', async () => {
+    const records = await executor.executeAll([
+      { name: 'comparePhones', parameters: { phoneIds: ['phone-1'] } },
+      { name: 'comparePhones', parameters: { phoneIds: ['a', 'b', 'c', 'd', 'e', 'f'] } },
+      { name: 'deletePhones', parameters: {} },
+    ], 1);
+
+    expect(records.map(record => [record.name, record.error])).toEqual([
+      ['comparePhones', 'At least two phone IDs are required for comparison'],
+      ['comparePhones', 'At most 5 phones can be compared at once'],
+      ['deletePhones', 'Unknown function: deletePhones'],
+    ]);
+  });
+
+  it('should look up phones by ID and skip those that cannot be loaded', async () => {
+    vi.mocked(backends.getPhoneById).mockImplementation(async (id: string) => {
+      if (id === 'broken') throw new Error('database unavailable');
+      return [galaxy, pixel].find(phone => phone.id === id) || null;
+    });
+
+    expect(await executor.getPhones(['phone-2', 'missing', 'broken', 'phone-1'])).toEqual([pixel, galaxy]);
+  });
+});
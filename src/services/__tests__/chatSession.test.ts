@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../../lib/services/index.js', () => {
+  class NotFoundError extends Error {}
+  class ChatService {}
+  return { ChatService, NotFoundError };
+});
+
+import { NotFoundError } from '../../lib/services/index.js';
+import { ChatSessionStore } from '../chatSession.js';
+
+describe('ChatSessionStore', () => {
+  const createdAt = new Date('2024-01-01T10:00:00Z');
+  const storedSession = {
+    id: 'db-session-1',
+    sessionId: 'session-1',
+    userId: null,
+    currentStep: 'MODEL_SELECTION',
+    selectedBrand: 'Samsung',
+    selectedPhones: ['Galaxy S24'],
+    preferences: { budget: { max: 80000 } },
+    isActive: true,
+    createdAt,
+    updatedAt: createdAt,
+  };
+
+  let chatService: Record<string, ReturnType<typeof vi.fn>>;
+  let store: ChatSessionStore;
+
+  beforeEach(() => {
+    chatService = {
+      createChatSession: vi.fn(async () => ({ ...storedSession, currentStep: 'BRAND_SELECTION', selectedBrand: null, selectedPhones: [] })),
+      getChatSession: vi.fn(async () => storedSession),
+      getChatSessionWithMessages: vi.fn(async () => ({
+        ...storedSession,
+        messages: [
+          { id: 'db-msg-1', role: 'USER', content: 'Samsung please', metadata: { clientMessageId: 'user_1' }, createdAt },
+          { id: 'db-msg-2', role: 'ASSISTANT', content: 'Which model?', metadata: null, createdAt },
+        ],
+      })),
+      addMessage: vi.fn(async () => ({})),
+      updateChatSession: vi.fn(async () => storedSession),
+      deactivateOldSessions: vi.fn(async () => 0),
+    };
+    store = new ChatSessionStore(chatService as any);
+  });
+
+  it('should create a session in the brand selection step', async () => {
+    const context = await store.create('session-1');
+
+    expect(chatService.createChatSession).toHaveBeenCalledWith(expect.objectContaining({
+      sessionId: 'session-1',
+      currentStep: 'BRAND_SELECTION',
+    }));
+    expect(context).toMatchObject({ sessionId: 'session-1', currentStep: 'brand_selection', conversationHistory: [] });
+  });
+
+  it('should resume a session with full history and step', async () => {
+    const context = await store.load('session-1');
+
+    expect(context).toMatchObject({
+      sessionId: 'session-1',
+      currentStep: 'model_selection',
+      selectedBrand: 'Samsung',
+      selectedPhones: ['Galaxy S24'],
+      preferences: { budget: { max: 80000 } },
+    });
+    expect(context?.conversationHistory).toEqual([
+      { id: 'user_1', role: 'user', content: 'Samsung please', timestamp: createdAt, metadata: undefined },
+      { id: 'db-msg-2', role: 'assistant', content: 'Which model?', timestamp: createdAt, metadata: undefined },
+    ]);
+  });
+
+  it('should return null for unknown or inactive sessions', async () => {
+    chatService.getChatSessionWithMessages.mockRejectedValueOnce(new NotFoundError('ChatSession', 'missing'));
+    expect(await store.load('missing')).toBeNull();
+
+    chatService.getChatSessionWithMessages.mockResolvedValueOnce({ ...storedSession, isActive: false, messages: [] });
+    expect(await store.load('session-1')).toBeNull();
+  });
+
+  it('should persist messages and the new step', async () => {
+    await store.append('session-1', [
+      { id: 'user_2', role: 'user', content: 'Galaxy S24', timestamp: new Date() },
+    ], { currentStep: 'comparison' });
+
+    expect(chatService.addMessage).toHaveBeenCalledWith({
+      chatSessionId: 'db-session-1',
+      role: 'USER',
+      content: 'Galaxy S24',
+      metadata: { clientMessageId: 'user_2' },
+    });
+    expect(chatService.updateChatSession).toHaveBeenCalledWith('session-1', expect.objectContaining({
+      currentStep: 'COMPARISON',
+    }));
+  });
+
+  it('should persist the detected locale and ignore unknown ones', async () => {
+    await store.append('session-1', [], { locale: 'hi-Latn' });
+
+    expect(chatService.updateChatSession).toHaveBeenCalledWith('session-1', expect.objectContaining({ locale: 'hi-Latn' }));
+
+    chatService.getChatSessionWithMessages.mockResolvedValueOnce({ ...storedSession, locale: 'hi-Latn', messages: [] });
+    expect((await store.load('session-1'))?.locale).toBe('hi-Latn');
+
+    chatService.getChatSessionWithMessages.mockResolvedValueOnce({ ...storedSession, locale: 'fr', messages: [] });
+    expect((await store.load('session-1'))?.locale).toBeUndefined();
+  });
+
+  it('should persist the flow and read its history back', async () => {
+    const at = new Date('2024-01-01T10:05:00Z');
+    const history = [{
+      action: { type: 'change_phone' as const, slot: 1 },
+      from: { currentStep: 'comparison' as const, selectedPhones: ['s24', 'pixel-8'] },
+      to: { currentStep: 'brand_selection' as const, selectedPhones: ['s24', 'pixel-8'], replacingSlot: 1 },
+      at,
+    }];
+
+    await store.append('session-1', [], { flow: { state: history[0].to, history } });
+
+    expect(chatService.updateChatSession).toHaveBeenCalledWith('session-1', expect.objectContaining({
+      currentStep: 'BRAND_SELECTION',
+      selectedBrand: null,
+      selectedPhones: ['s24', 'pixel-8'],
+      replacingSlot: 1,
+      flowHistory: [expect.objectContaining({ at: at.toISOString() })],
+    }));
+
+    const { flowHistory } = chatService.updateChatSession.mock.calls[0][1];
+    chatService.getChatSessionWithMessages.mockResolvedValueOnce({ ...storedSession, replacingSlot: 1, flowHistory, messages: [] });
+    const context = await store.load('session-1');
+
+    expect(context?.replacingSlot).toBe(1);
+    expect(context?.flowHistory).toEqual(history);
+  });
+
+  it('should persist the conversation summary and drop malformed ones on load', async () => {
+    const summary = { text: 'Wants a phone under 60k', rejectedPhones: ['Google Pixel 8'], summarizedMessages: 4 };
+
+    await store.append('session-1', [], { summary });
+
+    expect(chatService.updateChatSession).toHaveBeenCalledWith('session-1', expect.objectContaining({ contextSummary: summary }));
+
+    chatService.getChatSessionWithMessages.mockResolvedValueOnce({ ...storedSession, contextSummary: summary, messages: [] });
+    expect((await store.load('session-1'))?.summary).toEqual(summary);
+
+    chatService.getChatSessionWithMessages.mockResolvedValueOnce({ ...storedSession, contextSummary: { text: 42 }, messages: [] });
+    expect((await store.load('session-1'))?.summary).toBeUndefined();
+  });
+});
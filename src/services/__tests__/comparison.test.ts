@@ -2,6 +2,7 @@ import { describe, it, expect, beforeEach } from 'vitest';
 import { ComparisonEngine, VisualComparisonData } from '../comparison.js';
 import { Phone, PhoneScores } from '../../types/phone.js';
 import { ComparisonResult, ComparisonWinner } from '../../types/comparison.js';
+import { applyVariantSelections } from '../variants.js';
 
 describe('ComparisonEngine', () => {
   let comparisonEngine: ComparisonEngine;
@@ -168,6 +169,23 @@ describe('ComparisonEngine', () => {
         .rejects.toThrow('Cannot compare a phone with itself');
     });
 
+    it('should compare two variants of the same phone', async () => {
+      const phone = {
+        ...mockPhone1,
+        variants: [
+          { id: 'v-256', ramGb: 12, storageGb: 256, currentPrice: 49999 },
+          { id: 'v-1tb', ramGb: 12, storageGb: 1024, currentPrice: 59999 },
+        ],
+      };
+      const [base, top] = applyVariantSelections([phone, phone], ['v-256', 'v-1tb']);
+
+      const result = await comparisonEngine.comparePhones(base, top);
+
+      expect(result.phones.map(p => p.pricing.currentPrice)).toEqual([49999, 59999]);
+      expect(result.scores.phone1.value).toBeGreaterThan(result.scores.phone2.value);
+      expect(result.summary).toContain('12GB + 1TB');
+    });
+
     it('should throw error when phone1 is null', async () => {
       await expect(comparisonEngine.comparePhones(null as any, mockPhone2))
         .rejects.toThrow('Both phones are required for comparison');
@@ -344,6 +362,112 @@ describe('ComparisonEngine', () => {
     });
   });
 
+  describe('preference weighting', () => {
+    it('should recompute overall scores from usage and priorities', async () => {
+      const baseline = await comparisonEngine.comparePhones(mockPhone1, mockPhone2);
+      const weighted = await comparisonEngine.comparePhones(mockPhone1, mockPhone2, {
+        usage: 'casual',
+        priorities: ['price'],
+      });
+
+      expect(baseline.scoring).toBeUndefined();
+      expect(weighted.scoring?.weights.value).toBeGreaterThan(weighted.scoring!.defaultWeights.value);
+      expect(weighted.scoring?.adjustments[0].category).toBe('value');
+      expect(weighted.scores.phone2.value).toBe(baseline.scores.phone2.value);
+      expect(weighted.categories[0].name).toBe('value');
+      expect(weighted.scoring?.summary).toMatch(/^Value weight raised/);
+    });
+
+    it('should only score the selected categories', async () => {
+      const result = await comparisonEngine.comparePhones(mockPhone1, mockPhone2, { categories: ['camera', 'battery'] });
+
+      expect(result.categories.map(category => category.name).sort()).toEqual(['battery', 'camera']);
+      expect(result.categories.reduce((total, category) => total + category.weight, 0)).toBeCloseTo(1);
+    });
+
+    it('should rank multi-phone comparisons with the applied weights', async () => {
+      const phone3: Phone = { ...mockPhone2, id: 'phone-3', model: 'Different Model' };
+      const result = await comparisonEngine.generateMultiPhoneComparison(
+        [mockPhone1, mockPhone2, phone3],
+        { weights: { performance: 1 }, categories: ['performance'] }
+      );
+
+      expect(result.rankings[0].totalScore).toBe(result.scores[result.rankings[0].phoneId].performance);
+      expect(result.scoring?.weights.performance).toBe(1);
+      expect(Object.keys(result.scoring!.adjustments[0].impact)).toEqual(['phone-1', 'phone-2', 'phone-3']);
+    });
+  });
+
+  describe('generateMultiPhoneComparison', () => {
+    let mockPhone3: Phone;
+
+    beforeEach(() => {
+      mockPhone3 = {
+        ...mockPhone2,
+        id: 'phone-3',
+        brand: 'Xiaomi',
+        model: 'Redmi Note 13',
+        pricing: { ...mockPhone2.pricing, currentPrice: 19999 },
+        specifications: {
+          ...mockPhone2.specifications,
+          battery: { ...mockPhone2.specifications.battery, capacity: 6000 },
+        },
+      };
+    });
+
+    it('should rank every phone by overall score', async () => {
+      const result = await comparisonEngine.generateMultiPhoneComparison([mockPhone1, mockPhone2, mockPhone3]);
+
+      expect(result.phones).toHaveLength(3);
+      expect(Object.keys(result.scores)).toEqual(['phone-1', 'phone-2', 'phone-3']);
+      expect(result.rankings.map(ranking => ranking.phoneId).sort()).toEqual(['phone-1', 'phone-2', 'phone-3']);
+      expect(result.rankings[0].rank).toBe(1);
+
+      for (let i = 1; i < result.rankings.length; i++) {
+        expect(result.rankings[i].totalScore).toBeLessThanOrEqual(result.rankings[i - 1].totalScore);
+      }
+    });
+
+    it('should report values and winners for every phone in each row', async () => {
+      const result = await comparisonEngine.generateMultiPhoneComparison([mockPhone1, mockPhone2, mockPhone3]);
+
+      const battery = result.categories.find(category => category.name === 'battery')!;
+      const capacity = battery.comparisons.find(spec => spec.category === 'Battery Capacity')!;
+
+      expect(result.categories).toHaveLength(6);
+      expect(capacity.values).toEqual({
+        'phone-1': `${mockPhone1.specifications.battery.capacity}mAh`,
+        'phone-2': `${mockPhone2.specifications.battery.capacity}mAh`,
+        'phone-3': '6000mAh',
+      });
+      expect(capacity.winnerIds).toEqual(['phone-3']);
+
+      const price = result.categories.find(category => category.name === 'value')!.comparisons[0];
+      expect(price.winnerIds).toEqual(['phone-3']);
+    });
+
+    it('should key insights by phone ID', async () => {
+      const result = await comparisonEngine.generateMultiPhoneComparison([mockPhone1, mockPhone2, mockPhone3]);
+
+      expect(Object.keys(result.insights.strengths).sort()).toEqual(['phone-1', 'phone-2', 'phone-3']);
+      expect(Object.keys(result.insights.bestFor).sort()).toEqual(['phone-1', 'phone-2', 'phone-3']);
+      expect(result.insights.recommendations.length).toBeGreaterThan(0);
+      expect(result.summary).toContain('Comparison of 3 phones');
+    });
+
+    it('should reject more than five phones', async () => {
+      const phones = Array.from({ length: 6 }, (_, index) => ({ ...mockPhone1, id: `phone-${index}` }));
+
+      await expect(comparisonEngine.generateMultiPhoneComparison(phones))
+        .rejects.toThrow('Maximum 5 phones can be compared at once');
+    });
+
+    it('should reject duplicate phones', async () => {
+      await expect(comparisonEngine.generateMultiPhoneComparison([mockPhone1, mockPhone2, mockPhone1]))
+        .rejects.toThrow('Cannot compare a phone with itself');
+    });
+  });
+
   describe('Display Scoring', () => {
     it('should score larger displays higher', async () => {
       const smallDisplayPhone = {
@@ -538,6 +662,39 @@ describe('ComparisonEngine', () => {
 
       expect(highScores.performance).toBeGreaterThan(lowScores.performance);
     });
+
+    it('should pick the processor winner from chipset benchmarks', async () => {
+      const withProcessor = (phone: Phone, processor: string): Phone => ({
+        ...phone,
+        specifications: {
+          ...phone.specifications,
+          performance: { ...phone.specifications.performance, processor },
+        },
+      });
+
+      const result = await comparisonEngine.comparePhones(
+        withProcessor(mockPhone1, 'Google Tensor G3 (4 nm)'),
+        withProcessor(mockPhone2, 'Qualcomm SM8650-AB Snapdragon 8 Gen 3 (4 nm)')
+      );
+
+      const processorRow = result.categories
+        .find(category => category.name === 'performance')!.comparisons
+        .find(spec => spec.category === 'Processor')!;
+
+      expect(processorRow.winner).toBe('phone2');
+      expect(processorRow.difference).toMatch(/^Snapdragon 8 Gen 3 is \d+% faster$/);
+      expect(result.metadata?.chipsetCatalogVersion).toBeDefined();
+    });
+
+    it('should not rank newer unlisted chipsets below older ones', async () => {
+      const older = { ...mockPhone1, specifications: { ...mockPhone1.specifications, performance: { ...mockPhone1.specifications.performance, processor: 'Snapdragon 8 Gen 1' } } };
+      const newer = { ...mockPhone1, specifications: { ...mockPhone1.specifications, performance: { ...mockPhone1.specifications.performance, processor: 'Snapdragon 8 Gen 4' } } };
+
+      const olderScores = await comparisonEngine.calculateScores(older);
+      const newerScores = await comparisonEngine.calculateScores(newer);
+
+      expect(newerScores.performance).toBeGreaterThan(olderScores.performance);
+    });
   });
 
   describe('Battery Scoring', () => {
@@ -645,6 +802,37 @@ describe('ComparisonEngine', () => {
 
       expect(availableScores.value).toBeGreaterThan(discontinuedScores.value);
     });
+
+    it('should score value on the price after offers when known', async () => {
+      const listed = { ...mockPhone1, pricing: { ...mockPhone1.pricing, currentPrice: 32000 } };
+      const withOffers = { ...listed, pricing: { ...listed.pricing, effectivePrice: 27000 } };
+
+      const listedScores = await comparisonEngine.calculateScores(listed);
+      const offerScores = await comparisonEngine.calculateScores(withOffers);
+
+      expect(offerScores.value).toBeGreaterThan(listedScores.value);
+
+      const result = await comparisonEngine.comparePhones(withOffers, mockPhone2);
+      const value = result.categories.find(category => category.name === 'value')!;
+      expect(value.comparisons.map(comparison => comparison.category)).toContain('Price After Offers');
+    });
+
+    it('should score value against the segments of the requested region', async () => {
+      const phone = {
+        ...mockPhone1,
+        pricing: {
+          ...mockPhone1.pricing,
+          currentPrice: 28000,
+          regionalPrices: [{ region: 'US' as const, currency: 'USD' as const, currentPrice: 999 }],
+        },
+      };
+
+      const indiaScores = await comparisonEngine.calculateScores(phone);
+      const usScores = await comparisonEngine.calculateScores(phone, undefined, 'US');
+
+      // Mid-range in India, flagship-priced in the US
+      expect(indiaScores.value - usScores.value).toBe(10);
+    });
   });
 
   describe('Visual Formatting', () => {
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { buildExportModel, exportComparison } from '../comparisonExport';
+import { MultiPhoneComparison } from '@/types/comparison';
+import { createComparison, phone, scores } from './comparisonFixtures';
+
+const exportedAt = new Date('2024-06-02T08:00:00Z');
+
+describe('comparisonExport', () => {
+  it('should write one CSV row per spec comparison with timestamps and sources', () => {
+    const file = exportComparison(createComparison(), 'csv', { exportedAt });
+    const lines = (file.content as string).replace(/^\uFEFF/, '').trim().split('\r\n');
+    const rows = lines.filter(line => !line.startsWith('#'));
+
+    expect(file.filename).toBe('apple-iphone-15-vs-samsung-galaxy-s24-comparison.csv');
+    expect(file.contentType).toBe('text/csv; charset=utf-8');
+    expect(lines).toContain('# Comparison generated: 2024-06-01 12:30 UTC');
+    expect(lines).toContain('# Exported: 2024-06-02 08:00 UTC');
+    expect(lines).toContain('# Chipset benchmarks: MobileMatrix chipset catalog 2024.10.1');
+    expect(rows).toEqual([
+      'Category,Specification,Apple iPhone 15,Samsung Galaxy S24,Best,Importance',
+      'Display,Refresh rate,60,120,Samsung Galaxy S24,high',
+      'Display,Type,"OLED, ""Super Retina""",AMOLED,Tie,medium',
+    ]);
+  });
+
+  it('should neutralize spreadsheet formulas in CSV cells', () => {
+    const comparison = createComparison({
+      categories: [{
+        name: 'display',
+        displayName: 'Display',
+        weight: 0.2,
+        winner: 'tie',
+        comparisons: [
+          { category: '=HYPERLINK("http://evil")', phone1Value: '-2+3+cmd|" /C calc"!A0', phone2Value: '@SUM(A1)', winner: 'tie', importance: 'low' },
+          { category: 'Temperature', phone1Value: '-5', phone2Value: '-', winner: 'tie', importance: 'low' },
+        ],
+      }],
+    });
+    const rows = (exportComparison(comparison, 'csv', { exportedAt }).content as string).trim().split('\r\n');
+
+    expect(rows).toContain('Display,"\'=HYPERLINK(""http://evil"")","\'-2+3+cmd|"" /C calc""!A0",\'@SUM(A1),Tie,low');
+    expect(rows).toContain('Display,Temperature,-5,-,Tie,low');
+  });
+
+  it('should write Markdown category tables and insights', () => {
+    const markdown = exportComparison(createComparison(), 'markdown', { exportedAt }).content as string;
+
+    expect(markdown).toContain('# Apple iPhone 15 vs Samsung Galaxy S24');
+    expect(markdown).toContain('_Comparison generated 2024-06-01 12:30 UTC · Exported 2024-06-02 08:00 UTC_');
+    expect(markdown).toContain('| Overall score | 82.4 | 78.6 |');
+    expect(markdown).toContain('## Display\n\n**Winner:** Samsung Galaxy S24');
+    expect(markdown).toContain('| Refresh rate | 60 | 120 | Samsung Galaxy S24 |');
+    expect(markdown).toContain('### Apple iPhone 15 strengths\n\n- Video recording');
+    expect(markdown).toContain('### Recommendations\n\n- Pick the iPhone for video');
+    expect(markdown).toContain('**Data sources**');
+  });
+
+  it('should write a well-formed PDF', () => {
+    const file = exportComparison(createComparison(), 'pdf', { exportedAt });
+    const pdf = new TextDecoder('latin1').decode(file.content as Uint8Array);
+
+    expect(file.contentType).toBe('application/pdf');
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(pdf).toContain('(Apple iPhone 15 vs Samsung Galaxy S24) Tj');
+    expect(pdf).toMatch(/\(Page 1 of \d+\) Tj/);
+    // Rupee prices use a sign the standard fonts can draw
+    expect(pdf).toContain('Rs. 79,900');
+
+    const startxref = Number(pdf.match(/startxref\n(\d+)/)![1]);
+    expect(pdf.slice(startxref, startxref + 4)).toBe('xref');
+  });
+
+  it('should map multi-phone values and winners by phone ID', () => {
+    const comparison = {
+      ...createComparison(),
+      phones: [
+        phone('a', 'Apple', 'iPhone 15', 79900),
+        phone('b', 'Samsung', 'Galaxy S24', 74999),
+        phone('c', 'Google', 'Pixel 8', 69999),
+      ],
+      categories: [{
+        name: 'battery',
+        displayName: 'Battery',
+        weight: 0.2,
+        winnerId: 'b',
+        comparisons: [{
+          category: 'Capacity',
+          phone1Value: undefined,
+          phone2Value: undefined,
+          values: { a: 3349, b: 4000, c: 4575 },
+          winnerIds: ['c'],
+          importance: 'high',
+        }],
+      }],
+      scores: { a: scores(80), b: scores(81), c: scores(79) },
+      rankings: [
+        { phoneId: 'b', rank: 1, totalScore: 81 },
+        { phoneId: 'a', rank: 2, totalScore: 80 },
+        { phoneId: 'c', rank: 3, totalScore: 79 },
+      ],
+      insights: { strengths: { c: ['Battery life'] }, weaknesses: {}, recommendations: [], bestFor: {} },
+    } as unknown as MultiPhoneComparison;
+
+    const model = buildExportModel(comparison, { exportedAt });
+
+    expect(model.categories[0].winner).toBe('Samsung Galaxy S24');
+    expect(model.categories[0].specs[0]).toMatchObject({ values: ['3,349', '4,000', '4,575'], best: 'Google Pixel 8' });
+    expect(model.overview.rows.find(row => row[0] === 'Rank')).toEqual(['Rank', '#2', '#1', '#3']);
+    expect(model.insights).toEqual([{ title: 'Google Pixel 8 strengths', items: ['Battery life'] }]);
+  });
+});
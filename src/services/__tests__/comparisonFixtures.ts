@@ -0,0 +1,58 @@
+/**
+ * Shared comparison fixtures for the export and preview image tests
+ */
+
+import { ComparisonResult } from '@/types/comparison';
+
+export const scores = (overall: number, base = 75) => ({
+  overall,
+  display: base,
+  camera: base + 1,
+  performance: base + 2,
+  battery: base + 3,
+  build: base + 4,
+  value: base + 5,
+});
+
+export const phone = (id: string, brand: string, model: string, price: number, images: string[] = []) => ({
+  id,
+  brand,
+  model,
+  availability: 'available',
+  launchDate: new Date('2024-01-15'),
+  pricing: { mrp: price, currentPrice: price, currency: 'INR' },
+  images,
+  updatedAt: new Date('2024-05-01T10:00:00Z'),
+});
+
+export const createComparison = (overrides: Partial<ComparisonResult> = {}): ComparisonResult => ({
+  id: 'comparison-1',
+  phones: [
+    phone('phone1', 'Apple', 'iPhone 15', 79900, ['/iphone.jpg']),
+    phone('phone2', 'Samsung', 'Galaxy S24', 74999),
+  ] as unknown as ComparisonResult['phones'],
+  categories: [
+    {
+      name: 'display',
+      displayName: 'Display',
+      weight: 0.2,
+      winner: 'phone2',
+      comparisons: [
+        { category: 'Refresh rate', phone1Value: 60, phone2Value: 120, winner: 'phone2', importance: 'high' },
+        { category: 'Type', phone1Value: 'OLED, "Super Retina"', phone2Value: 'AMOLED', winner: 'tie', importance: 'medium' },
+      ],
+    },
+  ],
+  scores: { phone1: scores(82.44, 80), phone2: scores(78.6, 70) },
+  overallWinner: 'phone1',
+  insights: {
+    strengths: { phone1: ['Video recording'], phone2: ['Smooth display'] },
+    weaknesses: { phone1: ['60Hz display'], phone2: [] },
+    recommendations: ['Pick the iPhone for video'],
+    bestFor: { phone1: [], phone2: ['Gaming'] },
+  },
+  summary: 'The iPhone 15 edges ahead.',
+  generatedAt: new Date('2024-06-01T12:30:00Z'),
+  metadata: { chipsetCatalogVersion: '2024.10.1' },
+  ...overrides,
+});
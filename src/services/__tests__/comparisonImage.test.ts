@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { buildComparisonCard, getComparisonImageKey } from '../comparisonImage';
+import { createComparison } from './comparisonFixtures';
+
+describe('comparisonImage', () => {
+  it('should build the card from names, thumbnails, category scores and winner', () => {
+    const card = buildComparisonCard(createComparison());
+
+    expect(card.phones).toEqual([
+      { name: 'Apple iPhone 15', imageUrl: '/iphone.jpg', overall: 82 },
+      { name: 'Samsung Galaxy S24', imageUrl: undefined, overall: 79 },
+    ]);
+    expect(card.bars.map(bar => bar.label)).toEqual(['Display', 'Camera', 'Performance', 'Battery', 'Build', 'Value']);
+    expect(card.bars[1]).toEqual({ label: 'Camera', phone1: 81, phone2: 71 });
+    expect(card.winner).toBe('Apple iPhone 15');
+    expect(buildComparisonCard(createComparison({ overallWinner: 'tie' })).winner).toBe('Too close to call');
+  });
+
+  it('should give the same key to comparisons that draw the same card', () => {
+    const key = getComparisonImageKey(createComparison());
+
+    expect(key).toMatch(/^[0-9a-f]{8}$/);
+    expect(getComparisonImageKey(createComparison({ id: 'other', summary: 'Different', generatedAt: new Date() }))).toBe(key);
+    expect(getComparisonImageKey(createComparison({ overallWinner: 'phone2' }))).not.toBe(key);
+  });
+});
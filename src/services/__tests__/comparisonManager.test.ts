@@ -1,16 +1,117 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { ComparisonManagerService } from '../comparisonManager';
-import { ComparisonResult, MultiPhoneComparison } from '@/types/comparison';
+import type { ComparisonStore } from '../comparisonStore';
+import {
+  ComparisonHistoryEntry,
+  ComparisonOwner,
+  ComparisonResult,
+  MultiPhoneComparison,
+  SavedComparison
+} from '@/types/comparison';
 
 // Mock the comparison service
 vi.mock('../comparison', () => ({
   comparisonService: {
     comparePhones: vi.fn(),
+    generateMultiPhoneComparison: vi.fn(),
   },
 }));
 
+// Mock the phone catalog
+vi.mock('../phone', () => ({
+  phoneService: {
+    getPhoneById: vi.fn(async (id: string) => (id === 'missing' ? null : {
+      id,
+      brand: 'Brand',
+      model: `Model ${id}`,
+      launchDate: new Date('2024-01-01'),
+      availability: 'available',
+      pricing: { mrp: 50000, currentPrice: 45000, currency: 'INR' },
+      specifications: {},
+      images: [],
+    })),
+  },
+}));
+
+// In-memory store with the same owner scoping as the database store
+class MemoryComparisonStore implements ComparisonStore {
+  saved: Array<SavedComparison & { owner: ComparisonOwner }> = [];
+  history: Array<ComparisonHistoryEntry & { owner: ComparisonOwner }> = [];
+  shares = new Map<string, { expiresAt?: Date; owner: ComparisonOwner }>();
+  private nextId = 1;
+
+  async saveComparison(comparison: ComparisonResult | MultiPhoneComparison, owner: ComparisonOwner, input: any) {
+    const saved = {
+      id: `saved-${this.nextId++}`,
+      ...owner,
+      ...input,
+      result: comparison,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      owner,
+    };
+    this.saved.unshift(saved);
+    return saved;
+  }
+
+  async getSavedComparisons(owner: ComparisonOwner, search?: string) {
+    const query = search?.toLowerCase();
+    return this.saved.filter(item => this.owns(item.owner, owner) && (!query ||
+      item.title?.toLowerCase().includes(query) || item.tags.includes(query)));
+  }
+
+  async getSavedComparison(comparisonId: string, owner: ComparisonOwner) {
+    return this.saved.find(item => item.id === comparisonId && (item.isPublic || this.owns(item.owner, owner))) ?? null;
+  }
+
+  async deleteSavedComparison(comparisonId: string, owner: ComparisonOwner) {
+    const index = this.saved.findIndex(item => item.id === comparisonId && this.owns(item.owner, owner));
+    if (index === -1) {
+      return false;
+    }
+    this.saved.splice(index, 1);
+    return true;
+  }
+
+  async addHistoryEntry(entry: Omit<ComparisonHistoryEntry, 'id' | 'timestamp'>, owner: ComparisonOwner) {
+    const stored = { ...entry, id: `history-${this.nextId++}`, timestamp: new Date(), owner };
+    this.history.unshift(stored);
+    return stored;
+  }
+
+  async getHistory(owner: ComparisonOwner) {
+    return this.history.filter(item => this.owns(item.owner, owner));
+  }
+
+  async clearHistory(owner: ComparisonOwner) {
+    this.history = this.history.filter(item => !this.owns(item.owner, owner));
+  }
+
+  async createShareLink(comparison: ComparisonResult | MultiPhoneComparison, owner: ComparisonOwner, expiresAt?: Date) {
+    const shareToken = `token-${this.nextId++}`;
+    this.shares.set(shareToken, { expiresAt, owner });
+    return { shareToken, expiresAt };
+  }
+
+  async revokeShareLink(shareToken: string, owner: ComparisonOwner) {
+    const share = this.shares.get(shareToken);
+    if (!share || !this.owns(share.owner, owner)) {
+      return false;
+    }
+    return this.shares.delete(shareToken);
+  }
+
+  private owns(recordOwner: ComparisonOwner, owner: ComparisonOwner) {
+    return owner.userId
+      ? recordOwner.userId === owner.userId
+      : !recordOwner.userId && recordOwner.sessionId === owner.sessionId;
+  }
+}
+
 describe('ComparisonManagerService', () => {
   let service: ComparisonManagerService;
+  let store: MemoryComparisonStore;
+  const session = { sessionId: 'session-1' };
 
   const mockComparison: ComparisonResult = {
     id: 'test-comparison-1',
@@ -52,7 +153,8 @@ describe('ComparisonManagerService', () => {
   };
 
   beforeEach(() => {
-    service = new ComparisonManagerService();
+    store = new MemoryComparisonStore();
+    service = new ComparisonManagerService(store);
     vi.clearAllMocks();
   });
 
@@ -70,113 +172,183 @@ describe('ComparisonManagerService', () => {
       );
     });
 
-    it('should add comparison to history', async () => {
+    it('should add comparison to the owner\'s history', async () => {
       const phoneIds = ['phone1', 'phone2'];
       
       // Mock the comparison service
       const { comparisonService } = await import('../comparison');
       (comparisonService.comparePhones as any).mockResolvedValue(mockComparison);
 
-      await service.startNewComparison(phoneIds);
+      await service.startNewComparison(phoneIds, undefined, session);
 
-      const history = service.getComparisonHistory();
+      const history = await service.getComparisonHistory(session);
       expect(history).toHaveLength(1);
       expect(history[0].phoneIds).toEqual(phoneIds);
+      expect(history[0].phoneNames).toEqual(['Apple iPhone 15', 'Samsung Galaxy S24']);
       expect(history[0].comparisonType).toBe('two-phone');
+      expect(await service.getComparisonHistory({ sessionId: 'session-2' })).toHaveLength(0);
+    });
+
+    it('should compare loaded phones in the two-phone path', async () => {
+      const { comparisonService } = await import('../comparison');
+      (comparisonService.comparePhones as any).mockResolvedValue(mockComparison);
+
+      await service.startNewComparison(['phone1', 'phone2'], undefined, session);
+
+      expect(comparisonService.comparePhones).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'phone1' }),
+        expect.objectContaining({ id: 'phone2' }),
+        undefined
+      );
     });
 
     it('should handle multi-phone comparison', async () => {
       const phoneIds = ['phone1', 'phone2', 'phone3'];
-      
-      await expect(service.startNewComparison(phoneIds)).rejects.toThrow(
-        'Method not implemented yet'
+      const { comparisonService } = await import('../comparison');
+      const multiComparison = { id: 'multi-1', phones: [] } as unknown as MultiPhoneComparison;
+      (comparisonService.generateMultiPhoneComparison as any).mockResolvedValue(multiComparison);
+
+      const result = await service.startNewComparison(phoneIds, undefined, session);
+
+      expect(result).toBe(multiComparison);
+      expect(comparisonService.generateMultiPhoneComparison).toHaveBeenCalledWith(
+        phoneIds.map(id => expect.objectContaining({ id })),
+        undefined
+      );
+      expect((await service.getComparisonHistory(session))[0].comparisonType).toBe('multi-phone');
+    });
+
+    it('should throw when a phone is not in the catalog', async () => {
+      await expect(service.startNewComparison(['phone1', 'missing'])).rejects.toThrow(
+        'Phone not found: missing'
       );
     });
+
+    it('should still return the comparison when history cannot be recorded', async () => {
+      const { comparisonService } = await import('../comparison');
+      (comparisonService.comparePhones as any).mockResolvedValue(mockComparison);
+      vi.spyOn(store, 'addHistoryEntry').mockRejectedValue(new Error('A user ID or session ID is required'));
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(service.startNewComparison(['phone1', 'phone2'])).resolves.toBe(mockComparison);
+      expect(consoleSpy).toHaveBeenCalled();
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('compare', () => {
+    it('should not record history', async () => {
+      const { comparisonService } = await import('../comparison');
+      (comparisonService.comparePhones as any).mockResolvedValue(mockComparison);
+
+      await service.compare(['phone1', 'phone2']);
+
+      expect(store.history).toHaveLength(0);
+    });
   });
 
   describe('saveComparison', () => {
     it('should save comparison with generated title', async () => {
-      const saved = await service.saveComparison(mockComparison);
+      const saved = await service.saveComparison(mockComparison, session);
 
       expect(saved.id).toBeDefined();
       expect(saved.title).toBe('Apple iPhone 15 vs Samsung Galaxy S24');
       expect(saved.result).toBe(mockComparison);
       expect(saved.isPublic).toBe(false);
+      expect(saved.sessionId).toBe('session-1');
     });
 
-    it('should save comparison with custom title', async () => {
-      const customTitle = 'My Custom Comparison';
-      const saved = await service.saveComparison(mockComparison, customTitle);
+    it('should save comparison with custom title, tags and visibility', async () => {
+      const saved = await service.saveComparison(mockComparison, session, {
+        title: '  My Custom Comparison ',
+        tags: ['Flagship', 'camera', 'flagship', ' '],
+        isPublic: true,
+      });
 
-      expect(saved.title).toBe(customTitle);
+      expect(saved.title).toBe('My Custom Comparison');
+      expect(saved.tags).toEqual(['flagship', 'camera']);
+      expect(saved.isPublic).toBe(true);
     });
 
     it('should save comparison with user ID', async () => {
-      const userId = 'user123';
-      const saved = await service.saveComparison(mockComparison, undefined, userId);
+      const saved = await service.saveComparison(mockComparison, { userId: 'user123' });
 
-      expect(saved.userId).toBe(userId);
+      expect(saved.userId).toBe('user123');
     });
   });
 
   describe('getSavedComparisons', () => {
-    it('should return all saved comparisons when no user ID provided', async () => {
-      await service.saveComparison(mockComparison, 'Test 1');
-      await service.saveComparison(mockComparison, 'Test 2');
-
-      const saved = service.getSavedComparisons();
-      expect(saved).toHaveLength(2);
-    });
-
-    it('should filter by user ID when provided', async () => {
-      await service.saveComparison(mockComparison, 'Test 1', 'user1');
-      await service.saveComparison(mockComparison, 'Test 2', 'user2');
+    it('should only return the owner\'s comparisons', async () => {
+      await service.saveComparison(mockComparison, { userId: 'user1' }, { title: 'Test 1' });
+      await service.saveComparison(mockComparison, { userId: 'user2' }, { title: 'Test 2' });
+      await service.saveComparison(mockComparison, session, { title: 'Test 3' });
 
-      const saved = service.getSavedComparisons('user1');
+      const saved = await service.getSavedComparisons({ userId: 'user1' });
       expect(saved).toHaveLength(1);
       expect(saved[0].userId).toBe('user1');
+      expect(await service.getSavedComparisons(session)).toHaveLength(1);
     });
   });
 
   describe('deleteSavedComparison', () => {
     it('should delete saved comparison', async () => {
-      const saved = await service.saveComparison(mockComparison);
+      const saved = await service.saveComparison(mockComparison, session);
       
-      const success = service.deleteSavedComparison(saved.id);
+      const success = await service.deleteSavedComparison(saved.id, session);
       expect(success).toBe(true);
 
-      const remaining = service.getSavedComparisons();
+      const remaining = await service.getSavedComparisons(session);
       expect(remaining).toHaveLength(0);
     });
 
-    it('should return false for non-existent comparison', () => {
-      const success = service.deleteSavedComparison('non-existent');
+    it('should return false for non-existent comparison', async () => {
+      const success = await service.deleteSavedComparison('non-existent', session);
       expect(success).toBe(false);
     });
 
-    it('should respect user ID when deleting', async () => {
-      const saved = await service.saveComparison(mockComparison, 'Test', 'user1');
+    it('should respect the owner when deleting', async () => {
+      const saved = await service.saveComparison(mockComparison, { userId: 'user1' }, { title: 'Test' });
       
       // Try to delete with wrong user ID
-      const success1 = service.deleteSavedComparison(saved.id, 'user2');
+      const success1 = await service.deleteSavedComparison(saved.id, { userId: 'user2' });
       expect(success1).toBe(false);
 
       // Delete with correct user ID
-      const success2 = service.deleteSavedComparison(saved.id, 'user1');
+      const success2 = await service.deleteSavedComparison(saved.id, { userId: 'user1' });
       expect(success2).toBe(true);
     });
   });
 
   describe('generateShareUrl', () => {
     it('should generate share data for comparison', async () => {
-      const shareData = await service.generateShareUrl(mockComparison);
+      const shareData = await service.generateShareUrl(mockComparison, session);
 
       expect(shareData.id).toBe(mockComparison.id);
-      expect(shareData.shareToken).toBeDefined();
+      expect(shareData.shareToken).toBe('token-1');
       expect(shareData.title).toBe('Apple iPhone 15 vs Samsung Galaxy S24');
       expect(shareData.phoneNames).toEqual(['Apple iPhone 15', 'Samsung Galaxy S24']);
-      expect(shareData.url).toContain('/comparison/share/');
-      expect(shareData.expiresAt).toBeInstanceOf(Date);
+      expect(shareData.url).toContain('/comparison/share/token-1');
+      expect(shareData.imageUrl).toContain('/api/og/comparison/token-1');
+      expect(shareData.expiresAt).toBeUndefined();
+    });
+
+    it('should persist an optional expiry', async () => {
+      const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
+      const shareData = await service.generateShareUrl(mockComparison, session, expiresAt);
+
+      expect(shareData.expiresAt).toBe(expiresAt);
+      expect(store.shares.get(shareData.shareToken)?.expiresAt).toBe(expiresAt);
+    });
+  });
+
+  describe('revokeShareLink', () => {
+    it('should only revoke links created by the owner', async () => {
+      const { shareToken } = await service.generateShareUrl(mockComparison, session);
+
+      expect(await service.revokeShareLink(shareToken, { sessionId: 'session-2' })).toBe(false);
+      expect(await service.revokeShareLink(shareToken, session)).toBe(true);
+      expect(store.shares.has(shareToken)).toBe(false);
     });
   });
 
@@ -210,63 +382,37 @@ describe('ComparisonManagerService', () => {
 
   describe('searchSavedComparisons', () => {
     beforeEach(async () => {
-      await service.saveComparison(mockComparison, 'iPhone vs Samsung');
-      await service.saveComparison(mockComparison, 'Android Flagship Battle');
+      await service.saveComparison(mockComparison, session, { title: 'iPhone vs Samsung' });
+      await service.saveComparison(mockComparison, session, { title: 'Android Flagship Battle', tags: ['Android'] });
     });
 
-    it('should search by title', () => {
-      const results = service.searchSavedComparisons('iPhone');
+    it('should search by title', async () => {
+      const results = await service.searchSavedComparisons('iPhone', session);
       expect(results).toHaveLength(1);
       expect(results[0].title).toContain('iPhone');
     });
 
-    it('should search case-insensitively', () => {
-      const results = service.searchSavedComparisons('iphone');
+    it('should search by tag', async () => {
+      const results = await service.searchSavedComparisons('android', session);
       expect(results).toHaveLength(1);
+      expect(results[0].tags).toEqual(['android']);
     });
 
-    it('should return empty array for no matches', () => {
-      const results = service.searchSavedComparisons('Nokia');
+    it('should return empty array for no matches', async () => {
+      const results = await service.searchSavedComparisons('Nokia', session);
       expect(results).toHaveLength(0);
     });
   });
 
-  describe('getComparisonHistory', () => {
-    it('should return copy of history array', () => {
-      const history1 = service.getComparisonHistory();
-      const history2 = service.getComparisonHistory();
-      
-      expect(history1).not.toBe(history2); // Different array instances
-      expect(history1).toEqual(history2); // Same content
-    });
+  describe('clearHistory', () => {
+    it('should clear only the owner\'s history entries', async () => {
+      await service.addHistoryEntry({ phoneIds: ['phone1', 'phone2'], phoneNames: [], comparisonType: 'two-phone' }, session);
+      await service.addHistoryEntry({ phoneIds: ['phone1', 'phone2'], phoneNames: [], comparisonType: 'two-phone' }, { userId: 'user1' });
 
-    it('should limit history to 50 entries', async () => {
-      // Add 60 comparisons to test limit
-      for (let i = 0; i < 60; i++) {
-        try {
-          await service.startNewComparison(['phone1', 'phone2']);
-        } catch (error) {
-          // Expected to fail due to mock, but should still add to history
-        }
-      }
-
-      const history = service.getComparisonHistory();
-      expect(history.length).toBeLessThanOrEqual(50);
-    });
-  });
+      await service.clearHistory(session);
 
-  describe('clearHistory', () => {
-    it('should clear all history entries', async () => {
-      // Add some history entries
-      try {
-        await service.startNewComparison(['phone1', 'phone2']);
-      } catch (error) {
-        // Expected to fail due to mock
-      }
-
-      service.clearHistory();
-      const history = service.getComparisonHistory();
-      expect(history).toHaveLength(0);
+      expect(await service.getComparisonHistory(session)).toHaveLength(0);
+      expect(await service.getComparisonHistory({ userId: 'user1' })).toHaveLength(1);
     });
   });
-});
\ No newline at end of file
+});
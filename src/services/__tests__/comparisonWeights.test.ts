@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_CATEGORY_WEIGHTS,
+  explainWeighting,
+  hasWeightPreferences,
+  resolveCategoryWeights,
+  weightedOverall
+} from '../comparisonWeights.js';
+import { ValidationError } from '../../middleware/errorHandler.js';
+import { Phone, PhoneScores } from '../../types/phone.js';
+
+const sum = (weights: Record<string, number>) => Object.values(weights).reduce((total, weight) => total + weight, 0);
+
+describe('comparisonWeights', () => {
+  describe('resolveCategoryWeights', () => {
+    it('should keep the defaults without preferences', () => {
+      const { weights } = resolveCategoryWeights();
+
+      expect(weights).toEqual(DEFAULT_CATEGORY_WEIGHTS);
+      expect(hasWeightPreferences({})).toBe(false);
+    });
+
+    it('should boost categories for the usage profile and priorities', () => {
+      const { weights, reasons } = resolveCategoryWeights({ usage: 'photography', priorities: ['battery', 'price'] });
+
+      expect(weights.camera).toBeGreaterThan(DEFAULT_CATEGORY_WEIGHTS.camera);
+      expect(weights.battery).toBeGreaterThan(DEFAULT_CATEGORY_WEIGHTS.battery);
+      expect(weights.value).toBeGreaterThan(DEFAULT_CATEGORY_WEIGHTS.value);
+      expect(weights.performance).toBeLessThan(DEFAULT_CATEGORY_WEIGHTS.performance);
+      expect(sum(weights)).toBeCloseTo(1);
+      expect(reasons.camera).toEqual(['photography usage']);
+      expect(reasons.value).toEqual(['price priority #2']);
+    });
+
+    it('should apply explicit weights and the category filter last', () => {
+      const { weights, reasons } = resolveCategoryWeights({
+        usage: 'gaming',
+        weights: { camera: 3, performance: 1, unknown: 5 },
+        categories: ['camera', 'performance'],
+      });
+
+      expect(weights).toMatchObject({ camera: 0.75, performance: 0.25, display: 0, battery: 0, build: 0, value: 0 });
+      expect(reasons.display).toEqual(['gaming usage', 'explicit weights use the whole budget']);
+    });
+
+    it('should treat explicit weights as shares of the whole budget', () => {
+      const expectWeights = (weights: Record<string, number>, expected: Record<string, number>) => {
+        Object.entries(expected).forEach(([category, weight]) => expect(weights[category]).toBeCloseTo(weight));
+      };
+
+      expectWeights(resolveCategoryWeights({ weights: { camera: 0.5 } }).weights, {
+        display: 0.2 / 1.5, camera: 0.5, performance: 0.2 / 1.5, battery: 0.1, build: 0.1 / 1.5, value: 0.1 / 1.5,
+      });
+      expectWeights(resolveCategoryWeights({ weights: { camera: 3, battery: 1 } }).weights, {
+        display: 0, camera: 0.75, performance: 0, battery: 0.25, build: 0, value: 0,
+      });
+    });
+
+    it('should let a single explicit weight change the winner', () => {
+      const photographer: PhoneScores = { overall: 0, display: 70, camera: 95, performance: 60, battery: 70, build: 70, value: 70 };
+      const gamer: PhoneScores = { overall: 0, display: 75, camera: 60, performance: 99, battery: 70, build: 70, value: 75 };
+      const { weights } = resolveCategoryWeights({ weights: { camera: 0.9 } });
+
+      expect(weightedOverall(gamer, DEFAULT_CATEGORY_WEIGHTS)).toBeGreaterThan(weightedOverall(photographer, DEFAULT_CATEGORY_WEIGHTS));
+      expect(weights.camera).toBeCloseTo(0.9);
+      expect(weightedOverall(photographer, weights)).toBeGreaterThan(weightedOverall(gamer, weights));
+    });
+
+    it('should reject preferences that zero every category', () => {
+      expect(() => resolveCategoryWeights({ categories: ['storage'] }))
+        .toThrow(ValidationError);
+      expect(() => resolveCategoryWeights({ weights: { display: 0, camera: 0, performance: 0, battery: 0, build: 0, value: 0 } }))
+        .toThrow('At least one comparison category must have a positive weight');
+    });
+  });
+
+  describe('explainWeighting', () => {
+    const makePhone = (id: string, model: string) => ({ id, brand: 'Test', model }) as Phone;
+    const scores: Record<string, PhoneScores> = {
+      camera: { overall: 0, display: 70, camera: 95, performance: 60, battery: 70, build: 70, value: 70 },
+      gamer: { overall: 0, display: 70, camera: 60, performance: 95, battery: 70, build: 70, value: 70 },
+    };
+    const phones = [makePhone('camera', 'Snapper'), makePhone('gamer', 'Blaster')];
+
+    it('should report which phone each weight shift favors', () => {
+      const resolved = resolveCategoryWeights({ usage: 'gaming' });
+      const explanation = explainWeighting(phones, scores, resolved);
+
+      const performance = explanation.adjustments.find(adjustment => adjustment.category === 'performance')!;
+      expect(performance.reasons).toEqual(['gaming usage']);
+      expect(performance.favoredPhoneId).toBe('gamer');
+      expect(performance.impact.gamer).toBeGreaterThan(performance.impact.camera);
+      expect(explanation.leaderIds).toEqual(['gamer']);
+    });
+
+    it('should flag when the weights change the winner', () => {
+      expect(weightedOverall(scores.camera, DEFAULT_CATEGORY_WEIGHTS))
+        .toBeGreaterThan(weightedOverall(scores.gamer, DEFAULT_CATEGORY_WEIGHTS));
+
+      const explanation = explainWeighting(phones, scores, resolveCategoryWeights({ usage: 'gaming' }));
+
+      expect(explanation.defaultLeaderIds).toEqual(['camera']);
+      expect(explanation.outcomeChanged).toBe(true);
+      expect(explanation.summary).toContain('Test Blaster now leads; with default weights Test Snapper would win.');
+    });
+  });
+});
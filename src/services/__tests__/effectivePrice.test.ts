@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateEffectivePrice,
+  calculateEffectivePrices,
+  getCashbackAmount,
+  normalizeBankName,
+} from '../effectivePrice.js';
+import { RetailerOfferSchema, RetailerPrice } from '../../types/phone.js';
+
+const offers = (...items: unknown[]) => items.map(item => RetailerOfferSchema.parse(item));
+
+const amazon: RetailerPrice = {
+  retailer: 'Amazon India',
+  price: 79999,
+  offers: offers(
+    { type: 'bank_cashback', bank: 'HDFC Bank', cardType: 'credit', amount: 5000 },
+    { type: 'bank_cashback', bank: 'ICICI', percent: 10, maxDiscount: 4000 },
+    { type: 'no_cost_emi', bank: 'HDFC', tenureMonths: [3, 6, 9] },
+    { type: 'exchange', maxValue: 20000, bonus: 3000 },
+  ),
+};
+
+const flipkart: RetailerPrice = {
+  retailer: 'Flipkart',
+  price: 77999,
+  offers: offers({ type: 'bank_cashback', bank: 'Axis Bank', amount: 2000, minPurchase: 50000 }),
+};
+
+describe('effectivePrice', () => {
+  it('should match bank names loosely', () => {
+    expect(normalizeBankName('HDFC Bank Credit Card')).toBe(normalizeBankName('hdfc'));
+    expect(normalizeBankName('State Bank of India')).toBe('stateofindia');
+  });
+
+  it('should cap percentage cashback and honour minimum purchases', () => {
+    const [hdfc, icici] = amazon.offers as Parameters<typeof getCashbackAmount>[0][];
+
+    expect(getCashbackAmount(icici, 79999)).toBe(4000);
+    expect(getCashbackAmount(hdfc, 79999)).toBe(5000);
+    expect(getCashbackAmount({ ...icici, minPurchase: 90000 }, 79999)).toBe(0);
+  });
+
+  it('should apply the best matching card offer with the exchange offer', () => {
+    const result = calculateEffectivePrice(amazon, {
+      cards: [{ bank: 'hdfc', type: 'credit' }, { bank: 'ICICI Bank', type: 'debit' }],
+      exchangeValue: 15000,
+    });
+
+    expect(result.appliedOffers).toEqual([
+      { type: 'bank_cashback', label: 'HDFC Bank credit card offer', amount: 5000 },
+      { type: 'exchange', label: 'Exchange offer', amount: 18000 },
+    ]);
+    expect(result.effectivePrice).toBe(79999 - 23000);
+    expect(result.emi).toEqual({ bank: 'HDFC', tenureMonths: 9, monthlyAmount: Math.ceil(56999 / 9) });
+  });
+
+  it('should ignore offers for cards the buyer does not hold', () => {
+    const result = calculateEffectivePrice(amazon, { cards: [{ bank: 'HDFC', type: 'debit' }] });
+
+    expect(result.appliedOffers).toEqual([]);
+    expect(result.effectivePrice).toBe(79999);
+    expect(result.emi).toBeNull();
+  });
+
+  it('should rank retailers by effective price', () => {
+    const buyer = { cards: [{ bank: 'HDFC', type: 'credit' as const }] };
+
+    expect(calculateEffectivePrices([flipkart, amazon], buyer).map(price => price.retailer)).toEqual([
+      'Amazon India',
+      'Flipkart',
+    ]);
+    expect(calculateEffectivePrices([flipkart, amazon], { cards: [] })[0].retailer).toBe('Flipkart');
+  });
+});
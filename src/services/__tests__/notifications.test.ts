@@ -0,0 +1,249 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createServer, Server } from 'net';
+import type { AddressInfo } from 'net';
+
+vi.mock('../../lib/services/index.js', () => {
+  class PriceAlertService {}
+  return { PriceAlertService };
+});
+
+import {
+  NotificationDispatcher,
+  NotificationDeliveryError,
+  BaseNotificationChannel,
+  InAppChannel,
+  WebhookChannel,
+  SmtpClient,
+  SmtpError,
+  buildMailMessage,
+  formatPriceAlert,
+  signWebhookBody,
+  WEBHOOK_SIGNATURE_HEADER,
+  NotificationMessage,
+} from '../notifications/index.js';
+import type { PriceAlertPayload } from '@/types/alerts';
+
+const payload: PriceAlertPayload = {
+  watchId: 'watch-1',
+  phoneId: 'phone-1',
+  phoneName: 'Samsung Galaxy S24',
+  reason: 'target_price',
+  price: 64999,
+  currency: 'INR',
+  baselinePrice: 74999,
+  targetPrice: 65000,
+  dropPercent: null,
+  matchedAt: '2024-06-01T12:00:00.000Z',
+};
+
+const outboxRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 'notification-1',
+  watchId: 'watch-1',
+  userId: 'user-1',
+  sessionId: null,
+  channel: 'webhook',
+  recipient: 'https://example.com/hook',
+  payload,
+  dedupKey: 'watch-1:webhook:6499900',
+  status: 'pending',
+  attempts: 0,
+  lastError: null,
+  availableAt: new Date(),
+  sentAt: null,
+  readAt: null,
+  createdAt: new Date(),
+  ...overrides,
+});
+
+describe('notifications', () => {
+  describe('formatPriceAlert', () => {
+    it('should describe target and percentage matches', () => {
+      expect(formatPriceAlert(payload).subject).toBe('Price drop: Samsung Galaxy S24 is now ₹64,999');
+      expect(formatPriceAlert(payload).text).toContain('at or below your target of ₹65,000');
+
+      const drop = formatPriceAlert({ ...payload, reason: 'percent_drop', targetPrice: null, dropPercent: 10 });
+      expect(drop.text).toContain('13% below the ₹74,999 it cost when you started watching');
+    });
+  });
+
+  describe('WebhookChannel', () => {
+    const message: NotificationMessage = { id: 'notification-1', channel: 'webhook', recipient: 'https://example.com/hook', payload };
+    const publicLookup = async () => ['93.184.216.34'];
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should POST a signed JSON body', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(new Response(null, { status: 204 }));
+      vi.stubGlobal('fetch', fetchMock);
+
+      await new WebhookChannel({ timeout: 1000, secret: 'shh' }, publicLookup).deliver(message);
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://example.com/hook');
+      expect(JSON.parse(init.body)).toEqual({ id: 'notification-1', type: 'price_alert', data: payload });
+      expect(init.headers[WEBHOOK_SIGNATURE_HEADER]).toBe(signWebhookBody(init.body, 'shh'));
+      expect(init.redirect).toBe('manual');
+    });
+
+    it('should refuse hosts that are not public https addresses', async () => {
+      const fetchMock = vi.fn();
+      vi.stubGlobal('fetch', fetchMock);
+      const channel = new WebhookChannel({ timeout: 1000 }, async () => ['10.0.0.5']);
+
+      await expect(channel.deliver(message)).rejects.toMatchObject({ retryable: false });
+      await expect(channel.deliver({ ...message, recipient: 'http://example.com/hook' })).rejects.toMatchObject({ retryable: false });
+      await expect(channel.deliver({ ...message, recipient: 'https://169.254.169.254/latest' })).rejects.toMatchObject({ retryable: false });
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('should only retry server errors, timeouts and rate limits', async () => {
+      const channel = new WebhookChannel({ timeout: 1000 }, publicLookup);
+
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(null, { status: 410 })));
+      await expect(channel.deliver(message)).rejects.toMatchObject({ retryable: false });
+
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(null, { status: 503 })));
+      await expect(channel.deliver(message)).rejects.toMatchObject({ retryable: true });
+    });
+  });
+
+  describe('NotificationDispatcher', () => {
+    let store: Record<string, ReturnType<typeof vi.fn>>;
+
+    beforeEach(() => {
+      store = {
+        getPendingNotifications: vi.fn(),
+        markNotificationSent: vi.fn().mockResolvedValue(undefined),
+        markNotificationFailed: vi.fn().mockResolvedValue(true),
+      };
+    });
+
+    it('should deliver each row on its channel and record the outcome', async () => {
+      class FailingChannel extends BaseNotificationChannel {
+        readonly name = 'webhook' as const;
+        async deliver(): Promise<void> {
+          throw new NotificationDeliveryError('Webhook responded with 503', 'webhook');
+        }
+      }
+
+      store.getPendingNotifications.mockResolvedValue([
+        outboxRow({ id: 'in-app', channel: 'in_app', recipient: 'user-1' }),
+        outboxRow({ id: 'hook' }),
+        outboxRow({ id: 'mail', channel: 'email', recipient: 'user@example.com' }),
+      ]);
+      store.markNotificationFailed.mockImplementation(async (_row, _error, retryable) => retryable);
+
+      const dispatcher = new NotificationDispatcher([new InAppChannel(), new FailingChannel()], store as any);
+      const summary = await dispatcher.dispatchPending();
+
+      expect(summary).toEqual({ sent: 1, retrying: 1, failed: 1 });
+      expect(store.markNotificationSent).toHaveBeenCalledWith('in-app');
+      expect(store.markNotificationFailed).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'hook' }), 'Webhook responded with 503', true
+      );
+      // No email channel is configured, so the row fails without retrying
+      expect(store.markNotificationFailed).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'mail' }), 'No email channel is configured', false
+      );
+    });
+  });
+
+  describe('SmtpClient', () => {
+    let server: Server;
+    let received: string[];
+    let extensions: string[];
+
+    // Scripted server: no STARTTLS, accepts everything
+    beforeEach(async () => {
+      received = [];
+      extensions = ['SIZE 1000000'];
+      server = createServer(socket => {
+        let buffer = '';
+        let inData = false;
+        socket.write('220 test.local ESMTP\r\n');
+        socket.on('data', chunk => {
+          buffer += chunk.toString('utf8');
+          let index: number;
+          while ((index = buffer.indexOf('\r\n')) !== -1) {
+            const line = buffer.slice(0, index);
+            buffer = buffer.slice(index + 2);
+            received.push(line);
+
+            if (inData) {
+              if (line === '.') {
+                inData = false;
+                socket.write('250 Queued\r\n');
+              }
+            } else if (line.startsWith('EHLO')) {
+              socket.write(['250-test.local', ...extensions.map(ext => `250-${ext}`), '250 8BITMIME'].join('\r\n') + '\r\n');
+            } else if (line === 'DATA') {
+              inData = true;
+              socket.write('354 Go ahead\r\n');
+            } else if (line === 'QUIT') {
+              socket.end('221 Bye\r\n');
+            } else {
+              socket.write('250 OK\r\n');
+            }
+          }
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    });
+
+    afterEach(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    const settings = (overrides = {}) => ({
+      host: '127.0.0.1',
+      port: (server.address() as AddressInfo).port,
+      secure: false,
+      from: 'MobileMatrix <alerts@mobilematrix.test>',
+      timeout: 2000,
+      ...overrides,
+    });
+
+    it('should send a message through the SMTP dialogue', async () => {
+      await new SmtpClient(settings()).send({
+        from: 'MobileMatrix <alerts@mobilematrix.test>',
+        to: 'user@example.com',
+        subject: 'Price drop',
+        text: 'Now cheaper',
+      });
+
+      expect(received).toContain('MAIL FROM:<alerts@mobilematrix.test>');
+      expect(received).toContain('RCPT TO:<user@example.com>');
+      expect(received).toContain('Subject: Price drop');
+      expect(received).toContain(Buffer.from('Now cheaper').toString('base64'));
+      expect(received[received.length - 1]).toBe('QUIT');
+    });
+
+    it('should refuse to send credentials without TLS', async () => {
+      const client = new SmtpClient(settings({ user: 'alerts', password: 'secret' }));
+
+      await expect(
+        client.send({ from: 'alerts@mobilematrix.test', to: 'user@example.com', subject: 'Hi', text: 'Hi' })
+      ).rejects.toThrow(SmtpError);
+      expect(received.some(line => line.startsWith('AUTH'))).toBe(false);
+    });
+  });
+
+  describe('buildMailMessage', () => {
+    it('should keep header values on one line and encode non-ASCII subjects', () => {
+      const message = buildMailMessage({
+        from: 'alerts@mobilematrix.test',
+        to: 'user@example.com\r\nBcc: victim@example.com',
+        subject: 'Galaxy S24 now ₹64,999',
+        text: 'Hello',
+      }, new Date('2024-06-01T12:00:00Z'));
+
+      const headers = message.split('\r\n\r\n')[0].split('\r\n');
+      expect(headers).toContain('To: user@example.com Bcc: victim@example.com');
+      expect(headers.some(header => header.startsWith('Bcc:'))).toBe(false);
+      expect(headers).toContain(`Subject: =?UTF-8?B?${Buffer.from('Galaxy S24 now ₹64,999').toString('base64')}?=`);
+      expect(headers).toContain('Date: Sat, 01 Jun 2024 12:00:00 GMT');
+    });
+  });
+});
@@ -3,14 +3,20 @@ import { PhoneService } from '../phone.js';
 import { prisma } from '../../lib/database.js';
 import { cacheService } from '../../lib/cache.js';
 import { Phone, Brand, PhoneModel } from '../../types/phone.js';
+import { PhoneSearchQuerySchema } from '../../types/api.js';
+import { fuzzySearch } from '../../lib/database/fuzzySearch.js';
 
 // Mock dependencies
 vi.mock('../../lib/database.js', () => ({
   prisma: {
+    $queryRaw: vi.fn(),
     phone: {
       findMany: vi.fn(),
       findFirst: vi.fn(),
       findUnique: vi.fn(),
+      count: vi.fn(),
+      groupBy: vi.fn(),
+      update: vi.fn(),
     },
     brand: {
       findMany: vi.fn(),
@@ -35,6 +41,7 @@ vi.mock('../../lib/cache.js', () => ({
     brands: () => 'brands:all',
     models: (brandId: string) => `models:brand:${brandId}`,
     search: (query: string) => `search:${query}`,
+    searchFacets: (filters: string) => `search:facets:${filters}`,
     similarPhones: (phoneId: string) => `similar:${phoneId}`,
   },
   CacheTTL: {
@@ -57,6 +64,8 @@ describe('PhoneService', () => {
     
     // Reset all mocks
     vi.clearAllMocks();
+    fuzzySearch.reset();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
   });
 
   afterEach(() => {
@@ -179,6 +188,11 @@ describe('PhoneService', () => {
         include: {
           brand: true,
           specifications: true,
+          regionalPrices: true,
+          variants: {
+            where: { isActive: true },
+            orderBy: [{ ramGb: 'asc' }, { storageGb: 'asc' }],
+          },
         },
         orderBy: [
           { brand: { name: 'asc' } },
@@ -194,6 +208,24 @@ describe('PhoneService', () => {
       expect(result[0].model).toBe('iPhone 15');
     });
 
+    it('should return fuzzy matches in rank order when pg_trgm is available', async () => {
+      mockCache.get.mockResolvedValue(null);
+      mockPrisma.$queryRaw
+        .mockResolvedValueOnce([{ available: true }])
+        .mockResolvedValueOnce([{ id: '2', rank: 1.2 }, { id: '1', rank: 0.8 }]);
+      mockPrisma.phone.findMany.mockResolvedValue([
+        mockPhoneData,
+        { ...mockPhoneData, id: '2', variant: 'Pro Max' },
+      ]);
+
+      const result = await phoneService.searchPhones('iphone15pro');
+
+      expect(mockPrisma.phone.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: { in: ['2', '1'] } },
+      }));
+      expect(result.map(phone => phone.id)).toEqual(['2', '1']);
+    });
+
     it('should handle database errors gracefully', async () => {
       mockCache.get.mockResolvedValue(null);
       mockPrisma.phone.findMany.mockRejectedValue(new Error('Database error'));
@@ -202,6 +234,38 @@ describe('PhoneService', () => {
     });
   });
 
+  describe('searchBrands', () => {
+    const brands = [
+      { id: 'oneplus-1', name: 'OnePlus', slug: 'oneplus', logoUrl: null },
+      { id: 'samsung-1', name: 'Samsung', slug: 'samsung', logoUrl: 'samsung-logo.png' },
+    ];
+
+    it('should rank brands with typo tolerance', async () => {
+      mockPrisma.$queryRaw
+        .mockResolvedValueOnce([{ available: true }])
+        .mockResolvedValueOnce([{ id: 'samsung-1', rank: 0.6 }]);
+      mockPrisma.brand.findMany.mockResolvedValue([brands[1]]);
+
+      const result = await phoneService.searchBrands('samsng');
+
+      expect(result).toEqual([{ id: 'samsung-1', name: 'Samsung', logo: 'samsung-logo.png', country: undefined, established: undefined }]);
+    });
+
+    it('should fall back to name matching without pg_trgm', async () => {
+      mockPrisma.$queryRaw.mockResolvedValueOnce([{ available: false }]);
+      mockPrisma.brand.findMany.mockResolvedValue(brands);
+
+      const result = await phoneService.searchBrands('s');
+      expect(result).toEqual([]);
+
+      const matches = await phoneService.searchBrands('sa');
+      expect(mockPrisma.brand.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ OR: expect.arrayContaining([{ name: { contains: 'sa', mode: 'insensitive' } }]) }),
+      }));
+      expect(matches.map(brand => brand.name)).toEqual(['Samsung', 'OnePlus']);
+    });
+  });
+
   describe('getPhoneByModel', () => {
     const mockPhoneData = {
       id: '1',
@@ -282,6 +346,11 @@ describe('PhoneService', () => {
         include: {
           brand: true,
           specifications: true,
+          regionalPrices: true,
+          variants: {
+            where: { isActive: true },
+            orderBy: [{ ramGb: 'asc' }, { storageGb: 'asc' }],
+          },
         },
       });
 
@@ -364,6 +433,11 @@ describe('PhoneService', () => {
         include: {
           brand: true,
           specifications: true,
+          regionalPrices: true,
+          variants: {
+            where: { isActive: true },
+            orderBy: [{ ramGb: 'asc' }, { storageGb: 'asc' }],
+          },
         },
       });
 
@@ -601,6 +675,11 @@ describe('PhoneService', () => {
         include: {
           brand: true,
           specifications: true,
+          regionalPrices: true,
+          variants: {
+            where: { isActive: true },
+            orderBy: [{ ramGb: 'asc' }, { storageGb: 'asc' }],
+          },
         },
         orderBy: [
           { currentPrice: 'asc' },
@@ -624,8 +703,65 @@ describe('PhoneService', () => {
     });
   });
 
+  describe('searchPhonesFaceted', () => {
+    const query = PhoneSearchQuerySchema.parse({ brand: 'Samsung', ram: 8, sort: 'price', page: 2, limit: 10 });
+
+    beforeEach(() => {
+      mockPrisma.phone.findMany.mockResolvedValue([]);
+      mockPrisma.phone.count.mockResolvedValue(25);
+      mockPrisma.phone.groupBy.mockResolvedValue([
+        { brandId: 'samsung-1', _count: { _all: 7 } },
+        { brandId: 'apple-1', _count: { _all: 9 } },
+      ]);
+      mockPrisma.brand.findMany.mockResolvedValue([
+        { id: 'samsung-1', name: 'Samsung' },
+        { id: 'apple-1', name: 'Apple' },
+      ]);
+    });
+
+    it('should filter, sort and paginate in the database', async () => {
+      const result = await phoneService.searchPhonesFaceted({ ...query, facets: false });
+      const args = mockPrisma.phone.findMany.mock.calls[0][0];
+
+      expect(args).toMatchObject({ skip: 10, take: 10, orderBy: [{ currentPrice: { sort: 'asc', nulls: 'last' } }, { id: 'asc' }] });
+      expect(args.where.AND).toEqual([
+        { brand: { name: { in: ['Samsung'], mode: 'insensitive' } } },
+        { specifications: { is: { ramOptions: { hasSome: ['8GB', '8 GB'] } } } },
+      ]);
+      expect(result.meta).toEqual({ page: 2, limit: 10, total: 25, totalPages: 3, hasNext: true, hasPrev: true });
+      expect(result.facets).toBeUndefined();
+    });
+
+    it('should count each facet without its own filter', async () => {
+      const result = await phoneService.searchPhonesFaceted(query);
+
+      expect(mockPrisma.phone.groupBy.mock.calls[0][0].where.AND).toEqual([
+        { specifications: { is: { ramOptions: { hasSome: ['8GB', '8 GB'] } } } },
+      ]);
+      expect(result.facets?.brand).toEqual([
+        { value: 'Apple', label: 'Apple', count: 9, selected: false },
+        { value: 'Samsung', label: 'Samsung', count: 7, selected: true },
+      ]);
+      expect(result.facets?.ram.find(bucket => bucket.value === 8)).toEqual({ value: 8, label: '8GB', count: 25, selected: true });
+      expect(result.facets?.nfc).toHaveLength(1);
+      expect(mockCache.set).toHaveBeenCalledWith(expect.stringContaining('search:facets:'), result.facets, 300);
+    });
+
+    it('should return cached facet counts', async () => {
+      const cachedFacets = { brand: [] };
+      mockCache.get.mockResolvedValue(cachedFacets);
+
+      const result = await phoneService.searchPhonesFaceted(query);
+
+      expect(result.facets).toBe(cachedFacets);
+      expect(mockPrisma.phone.groupBy).not.toHaveBeenCalled();
+    });
+  });
+
   describe('updatePhoneData', () => {
     it('should clear cache when updating phone data', async () => {
+      mockPrisma.phone.findMany.mockResolvedValue([]);
+
       await phoneService.updatePhoneData();
 
       expect(mockCache.clear).toHaveBeenCalled();
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { PhoneQueryBuilder } from '../../lib/database/queryOptimizer.js';
+import { PhoneSearchQuerySchema } from '../../types/api.js';
+import {
+  applySearchFilters,
+  buildFacetBucketQueries,
+  getFacetCacheKey,
+  getSearchOrderBy
+} from '../searchFacets.js';
+
+const parse = (params: Record<string, unknown>) => PhoneSearchQuerySchema.parse(params);
+
+describe('searchFacets', () => {
+  it('should combine every filter into one where clause', () => {
+    const where = applySearchFilters(new PhoneQueryBuilder(), parse({
+      brand: 'Samsung,Apple',
+      minPrice: 20000,
+      storage: '256,1024',
+      minBattery: 5000,
+      minRefreshRate: 120,
+      is5g: true,
+      nfc: false,
+      ipRating: 'ip68',
+      launchYear: 2024,
+    })).buildWhere();
+
+    expect(where).toMatchObject({ isActive: true, currentPrice: { gte: 20000 } });
+    expect(where.AND).toEqual([
+      { brand: { name: { in: ['Samsung', 'Apple'], mode: 'insensitive' } } },
+      { specifications: { is: { storageOptions: { hasSome: ['256GB', '256 GB', '1024GB', '1024 GB', '1TB', '1 TB'] } } } },
+      { specifications: { is: { batteryCapacity: { gte: 5000 } } } },
+      { specifications: { is: { refreshRate: { gte: 120 } } } },
+      { specifications: { is: { networkSupport: { has: '5G' } } } },
+      { specifications: { is: { nfc: false } } },
+      { specifications: { is: { OR: [{ waterResistance: { contains: 'IP68', mode: 'insensitive' } }] } } },
+      { OR: [{ launchDate: { gte: new Date('2024-01-01T00:00:00Z'), lt: new Date('2025-01-01T00:00:00Z') } }] },
+    ]);
+  });
+
+  it('should leave out the excluded facet', () => {
+    const query = parse({ brand: 'Samsung', is5g: true });
+
+    expect(applySearchFilters(new PhoneQueryBuilder(), query, 'brand').buildWhere().AND).toEqual([
+      { specifications: { is: { networkSupport: { has: '5G' } } } },
+    ]);
+  });
+
+  it('should mark selected buckets and cover recent launch years', () => {
+    const buckets = buildFacetBucketQueries(parse({ minPrice: 15000, maxPrice: 30000, ram: '8,12' }), new Date('2026-03-01'));
+    const selected = buckets.filter(bucket => bucket.selected).map(bucket => `${bucket.facet}:${bucket.value}`);
+
+    expect(selected).toEqual(['price:15000-30000', 'ram:8', 'ram:12']);
+    expect(buckets.filter(bucket => bucket.facet === 'launchYear').map(bucket => bucket.value))
+      .toEqual([2026, 2025, 2024, 2023, 2022, 2021]);
+  });
+
+  it('should default the sort direction per option', () => {
+    expect(getSearchOrderBy('price')[0]).toEqual({ currentPrice: { sort: 'asc', nulls: 'last' } });
+    expect(getSearchOrderBy('score')[0]).toEqual({ overallScore: { sort: 'desc', nulls: 'last' } });
+    expect(getSearchOrderBy('recency', 'asc')[0]).toEqual({ launchDate: { sort: 'asc', nulls: 'last' } });
+  });
+
+  it('should key facet caches on filters only', () => {
+    expect(getFacetCacheKey(parse({ ram: '12,8', page: 2, sort: 'price' })))
+      .toBe(getFacetCacheKey(parse({ ram: '8,12' })));
+    expect(getFacetCacheKey(parse({ ram: 8 }))).not.toBe(getFacetCacheKey(parse({ ram: 12 })));
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SPEC_NORMALIZATION_VERSION,
+  buildUnparsedSpecReport,
+  getNormalizedSpecs,
+  normalizeSpecifications,
+  parseCameraLine,
+  parseDimensions,
+  parseDisplaySize,
+  parseMemorySize,
+  parseResolution,
+  parseWeight
+} from '../specNormalization.js';
+import { Phone, PhoneSpecifications } from '../../types/phone.js';
+
+const specs: PhoneSpecifications = {
+  display: { size: '6.2 inches, 94.4 cm2 (~90.6% screen-to-body ratio)', resolution: '1080 x 2340 pixels, 19.5:9 ratio', type: 'Dynamic AMOLED 2X' },
+  camera: {
+    rear: [{ megapixels: 50, aperture: 'f/1.8', features: [] }, { megapixels: 12, aperture: 'wide', features: [] }],
+    front: { megapixels: 12, features: [] },
+    features: [],
+  },
+  performance: { processor: 'Snapdragon 8 Gen 3', ram: ['8GB', '12 GB'], storage: ['256GB', '1TB', 'lots'] },
+  battery: { capacity: 4000 },
+  connectivity: { network: ['5G'], wifi: 'Wi-Fi 7', bluetooth: '5.3' },
+  build: { dimensions: '147 x 70.6 x 7.6 mm (5.79 x 2.78 x 0.30 in)', weight: 'light', materials: [], colors: [] },
+  software: { os: 'Android', version: '14' },
+};
+
+describe('specNormalization', () => {
+  describe('parsers', () => {
+    it('should parse display sizes in inches and centimetres', () => {
+      expect(parseDisplaySize('6.2"')).toBe(6.2);
+      expect(parseDisplaySize('6.7-inch')).toBe(6.7);
+      expect(parseDisplaySize('17 cm')).toBe(6.69);
+      expect(parseDisplaySize('6.1')).toBe(6.1);
+      expect(parseDisplaySize('large')).toBeUndefined();
+    });
+
+    it('should parse pixel dimensions and named resolutions', () => {
+      expect(parseResolution('2340x1080')).toEqual({ width: 1080, height: 2340 });
+      expect(parseResolution('QHD+')).toEqual({ width: 1440, height: 3200 });
+      expect(parseResolution('FHD+ display')).toEqual({ width: 1080, height: 2400 });
+      expect(parseResolution('HD+')).toEqual({ width: 720, height: 1600 });
+      expect(parseResolution('Retina')).toBeUndefined();
+    });
+
+    it('should convert weights, dimensions and memory sizes', () => {
+      expect(parseWeight('168 g (5.93 oz)')).toBe(168);
+      expect(parseWeight('0.2 kg')).toBe(200);
+      expect(parseWeight('7 oz')).toBe(198.4);
+      expect(parseDimensions('147 x 70.6 x 7.6 mm')).toEqual({ height: 147, width: 70.6, thickness: 7.6 });
+      expect(parseDimensions('5.79 x 2.78 x 0.30 in')).toEqual({ height: 147.1, width: 70.6, thickness: 7.6 });
+      expect(parseMemorySize('1TB')).toBe(1024);
+      expect(parseMemorySize('12 GB')).toBe(12);
+    });
+
+    it('should parse megapixels and aperture from camera lines', () => {
+      expect(parseCameraLine('50 MP, f/1.8, 24mm (wide)')).toEqual({ megapixels: 50, aperture: 1.8 });
+      expect(parseCameraLine('12MP')).toEqual({ megapixels: 12, aperture: undefined });
+      expect(parseCameraLine('Dual camera')).toBeUndefined();
+    });
+  });
+
+  describe('normalizeSpecifications', () => {
+    it('should parse every field into typed units', () => {
+      const normalized = normalizeSpecifications(specs);
+
+      expect(normalized).toMatchObject({
+        version: SPEC_NORMALIZATION_VERSION,
+        display: { sizeInches: 6.2, resolution: { width: 1080, height: 2340 } },
+        build: { dimensionsMm: { height: 147, width: 70.6, thickness: 7.6 } },
+        memory: { ramGb: [8, 12], storageGb: [256, 1024] },
+        camera: { rear: [{ megapixels: 50, aperture: 1.8 }, { megapixels: 12 }], front: { megapixels: 12 } },
+      });
+    });
+
+    it('should list strings that could not be parsed', () => {
+      expect(normalizeSpecifications(specs).unparsed).toEqual([
+        { field: 'camera.rear[1].aperture', value: 'wide' },
+        { field: 'build.weight', value: 'light' },
+        { field: 'performance.storage', value: 'lots' },
+      ]);
+    });
+
+    it('should parse raw camera lines when provided', () => {
+      const normalized = normalizeSpecifications(specs, { rear: ['200 MP, f/1.7', 'Periscope'], front: '12 MP, f/2.2' });
+
+      expect(normalized.camera).toEqual({
+        rear: [{ megapixels: 200, aperture: 1.7 }],
+        front: { megapixels: 12, aperture: 2.2 },
+      });
+      expect(normalized.unparsed).toContainEqual({ field: 'camera.rear[1]', value: 'Periscope' });
+    });
+  });
+
+  describe('getNormalizedSpecs', () => {
+    const phone = { id: 'phone-1', brand: 'Samsung', model: 'Galaxy S24', specifications: specs } as Phone;
+
+    it('should reuse a current cached copy on the phone', () => {
+      const cached = { ...normalizeSpecifications(specs), unparsed: [] };
+      expect(getNormalizedSpecs({ ...phone, normalizedSpecs: cached })).toBe(cached);
+    });
+
+    it('should recompute stale cached copies', () => {
+      const stale = { ...normalizeSpecifications(specs), version: SPEC_NORMALIZATION_VERSION - 1 };
+      const normalized = getNormalizedSpecs({ ...phone, normalizedSpecs: stale });
+
+      expect(normalized).not.toBe(stale);
+      expect(normalized.version).toBe(SPEC_NORMALIZATION_VERSION);
+      expect(getNormalizedSpecs(phone)).toBe(getNormalizedSpecs(phone));
+    });
+
+    it('should build a report of unparsed strings across phones', () => {
+      const report = buildUnparsedSpecReport([phone, { ...phone, id: 'phone-2', specifications: { ...specs, build: { ...specs.build, weight: '168 g' } } }]);
+
+      expect(report).toMatchObject({ totalPhones: 2, phonesWithIssues: 2 });
+      expect(report.byField).toEqual({ 'camera.rear.aperture': 2, 'build.weight': 1, 'performance.storage': 2 });
+      expect(report.entries[0]).toEqual({ phoneId: 'phone-1', phoneName: 'Samsung Galaxy S24', field: 'camera.rear[1].aperture', value: 'wide' });
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyVariantSelections,
+  formatVariantLabel,
+  getConfigurationKey,
+  matchVariant,
+  parseVariantLabel,
+  selectVariant
+} from '../variants.js';
+import { Phone } from '../../types/phone.js';
+
+const variants = [
+  { id: 'v-8-128', ramGb: 8, storageGb: 128, currentPrice: 74999 },
+  { id: 'v-8-256-black', ramGb: 8, storageGb: 256, color: 'Onyx Black', mrp: 84999, currentPrice: 79999 },
+  { id: 'v-8-256-violet', ramGb: 8, storageGb: 256, color: 'Cobalt Violet' },
+  { id: 'v-12-1tb', ramGb: 12, storageGb: 1024 },
+];
+
+const phone = {
+  id: 'phone-1',
+  brand: 'Samsung',
+  model: 'Galaxy S24',
+  pricing: { mrp: 79999, currentPrice: 74999, currency: 'INR', effectivePrice: 69999 },
+  specifications: {
+    display: { size: '6.2"', resolution: '1080x2340', type: 'Dynamic AMOLED 2X' },
+    camera: { rear: [], front: { megapixels: 12, features: [] }, features: [] },
+    performance: { processor: 'Exynos 2400', ram: ['8GB'], storage: ['128GB', '256GB', '512GB'] },
+    battery: { capacity: 4000 },
+    connectivity: { network: ['5G'], wifi: 'Wi-Fi 6E', bluetooth: '5.3' },
+    build: { dimensions: '147 x 70.6 x 7.6 mm', weight: '167g', materials: [], colors: [] },
+    software: { os: 'Android', version: '14' },
+  },
+  variants,
+  images: [],
+} as unknown as Phone;
+
+describe('variants', () => {
+  it('should label configurations with and without colour', () => {
+    expect(formatVariantLabel(variants[1])).toBe('8GB + 256GB, Onyx Black');
+    expect(formatVariantLabel(variants[1], false)).toBe('8GB + 256GB');
+    expect(formatVariantLabel(variants[3])).toBe('12GB + 1TB');
+  });
+
+  it('should read retailer configuration text', () => {
+    expect(parseVariantLabel('8GB RAM, 128GB Storage')).toEqual({ ramGb: 8, storageGb: 128 });
+    expect(parseVariantLabel('256 GB + 12 GB')).toEqual({ ramGb: 12, storageGb: 256 });
+    expect(parseVariantLabel('12/1024')).toEqual({ ramGb: 12, storageGb: 1024 });
+    expect(parseVariantLabel('512GB')).toEqual({ storageGb: 512 });
+    expect(parseVariantLabel('Black')).toEqual({});
+  });
+
+  it('should match listings on memory and then colour', () => {
+    expect(matchVariant('Galaxy S24 (Cobalt Violet, 8GB, 256GB)', variants)?.id).toBe('v-8-256-violet');
+    expect(matchVariant('8GB + 256GB', variants)?.id).toBe('v-8-256-black');
+    expect(matchVariant('12GB RAM, 1TB', variants)?.id).toBe('v-12-1tb');
+    expect(matchVariant('8GB + 512GB', variants)).toBeUndefined();
+    expect(matchVariant('256GB', variants)).toBeUndefined();
+  });
+
+  it('should price and size a phone as the selected variant', () => {
+    const selected = selectVariant(phone, 'v-8-256-black');
+
+    expect(selected.selectedVariantId).toBe('v-8-256-black');
+    expect(selected.variant).toBe('8GB + 256GB, Onyx Black');
+    expect(selected.pricing).toMatchObject({ mrp: 84999, currentPrice: 79999 });
+    expect(selected.pricing.effectivePrice).toBeUndefined();
+    expect(selected.specifications.performance.storage).toEqual(['256GB']);
+    expect(selected.normalizedSpecs?.memory).toEqual({ ramGb: [8], storageGb: [256] });
+  });
+
+  it('should fall back to the phone price for unpriced variants', () => {
+    expect(selectVariant(phone, 'v-12-1tb').pricing).toMatchObject({ mrp: 79999, currentPrice: 74999 });
+    expect(() => selectVariant(phone, 'missing')).toThrow('Variant missing not found for Samsung Galaxy S24');
+  });
+
+  it('should apply selections by position and key each configuration', () => {
+    const [first, second] = applyVariantSelections([phone, phone], [null, 'v-8-128']);
+
+    expect(first).toBe(phone);
+    expect(getConfigurationKey(first)).toBe('phone-1');
+    expect(getConfigurationKey(second)).toBe('phone-1:v-8-128');
+  });
+});
@@ -1,13 +1,7 @@
 import {
-  GoogleGenerativeAI,
-  GenerativeModel,
-  GenerationConfig,
   SafetySetting,
   HarmCategory,
   HarmBlockThreshold,
-  Content,
-  Part,
-  Tool,
   FunctionDeclaration
 } from '@google/generative-ai';
 import {
@@ -20,21 +14,35 @@ import {
   AIResponse,
   ChatStep,
   ChatMessage,
-  UserPreferences
+  ConversationSummary,
+  UserPreferences,
+  UserPreferencesSchema
 } from '../types/chat.js';
 import {
   Phone,
   PhoneSelection,
-  PhoneSelectionSchema
+  PhoneSelectionSchema,
+  RegionSchema
 } from '../types/phone.js';
 import { ComparisonResult, ComparisonInsights } from '../types/comparison.js';
 import { z } from 'zod';
 import { PromptTemplates } from '../utils/prompts.js';
-
-/**
- * AI Provider types
- */
-export type AIProvider = 'gemini' | 'openai' | 'claude';
+import { countMessageTokens, countTokens } from '../utils/tokens.js';
+import { BudgetRange, detectLanguage, extractBudget, normalizeMessage } from '../utils/language.js';
+import {
+  AIProvider,
+  ProviderAnswer,
+  ProviderChain,
+  ProviderHealth,
+  ProviderResult,
+  createProvider
+} from './providers/index.js';
+import { MAX_COMPARED_PHONES, PhoneToolExecutor, ToolCallRecord } from './aiTools.js';
+import { DEFAULT_REGION } from './regions/index.js';
+import { ClaimCheck, specGroundingChecker } from './grounding/index.js';
+import { getFallbackReplies } from './fallbackReplies.js';
+
+export type { AIProvider } from './providers/index.js';
 
 /**
  * AI Model variants for Gemini
@@ -45,14 +53,29 @@ export type GeminiModel =
   | 'gemini-1.5-pro'
   | 'gemini-1.0-pro';
 
+/**
+ * Entry in the provider failover chain
+ */
+export const AIProviderChainEntrySchema = z.object({
+  provider: z.enum(['gemini', 'openai', 'claude']),
+  model: z.string().optional(),
+});
+
+export type AIProviderChainEntry = z.infer<typeof AIProviderChainEntrySchema>;
+
 /**
  * Advanced AI Service Configuration
  */
 export const AdvancedAIServiceConfigSchema = z.object({
   provider: z.enum(['gemini', 'openai', 'claude']).default('gemini'),
+  fallbackChain: z.array(AIProviderChainEntrySchema).default([]),
+  circuitBreakerThreshold: z.number().min(1).default(3),
+  circuitBreakerResetMs: z.number().min(0).default(60000),
   apiKey: z.string().optional(),
   openaiApiKey: z.string().optional(),
   claudeApiKey: z.string().optional(),
+  openaiBaseUrl: z.string().optional(),
+  claudeBaseUrl: z.string().optional(),
   model: z.string().default('gemini-2.0-flash-exp'),
   maxTokens: z.number().default(8192),
   temperature: z.number().min(0).max(2).default(0.8),
@@ -62,11 +85,14 @@ export const AdvancedAIServiceConfigSchema = z.object({
   retryAttempts: z.number().default(3),
   retryDelay: z.number().default(1500),
   enableFunctionCalling: z.boolean().default(true),
+  maxToolIterations: z.number().min(1).max(10).default(3),
   enableSafetySettings: z.boolean().default(true),
   enableContextCaching: z.boolean().default(true),
   maxContextLength: z.number().default(32000),
+  maxContextMessages: z.number().min(2).default(10),
   streamingEnabled: z.boolean().default(false),
   enableMultimodal: z.boolean().default(true),
+  groundingMode: z.enum(['annotate', 'correct', 'off']).default('annotate'),
 });
 
 export type AdvancedAIServiceConfig = z.infer<typeof AdvancedAIServiceConfigSchema>;
@@ -75,6 +101,8 @@ export type AdvancedAIServiceConfig = z.infer<typeof AdvancedAIServiceConfigSche
  * AI Response Quality Metrics
  */
 export interface AIResponseMetrics {
+  provider: AIProvider | 'fallback';
+  model: string;
   responseTime: number;
   tokenCount: number;
   confidence: number;
@@ -83,8 +111,18 @@ export interface AIResponseMetrics {
   functionCallsUsed: number;
 }
 
+/**
+ * Event emitted by `processUserMessageStream`
+ * `delta` frames carry partial text; a single `done` frame closes the stream.
+ */
+export type AIStreamEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'done'; response: AIResponse };
+
 /**
  * Context Management Interface
+ * Messages pushed out of the window are held until `takeEvicted` so they
+ * can be folded into the rolling summary.
  */
 export interface ContextManager {
   addMessage(message: ChatMessage): void;
@@ -92,8 +130,33 @@ export interface ContextManager {
   summarizeContext(): string;
   clearContext(): void;
   getContextTokenCount(): number;
+  setSummary(summary?: ConversationSummary): void;
+  getSummary(): ConversationSummary | undefined;
+  takeEvicted(): ChatMessage[];
 }
 
+/**
+ * Summary reply expected from the model; nulls stand for "not stated"
+ */
+const SummaryReplySchema = z.object({
+  summary: z.string().min(1),
+  preferences: z.object({
+    budget: z.object({
+      min: z.number().nullish(),
+      max: z.number().nullish(),
+    }).nullish(),
+    priorities: z.array(z.string()).nullish(),
+    usage: z.string().nullish(),
+  }).nullish(),
+  rejectedPhones: z.array(z.string()).nullish(),
+});
+
+// Plain-text summary lines kept when no model is available
+const MAX_FALLBACK_SUMMARY_LINES = 20;
+
+// Catalog phones looked up to check the specs a reply states
+const MAX_GROUNDING_PHONES = 10;
+
 /**
  * Function Calling Definitions
  */
@@ -137,7 +200,9 @@ export const PhoneCompareFunction: FunctionDeclaration = {
       phoneIds: {
         type: 'array',
         items: { type: 'string' },
-        description: 'Array of phone IDs to compare',
+        minItems: 2,
+        maxItems: MAX_COMPARED_PHONES,
+        description: `Array of 2 to ${MAX_COMPARED_PHONES} phone IDs to compare`,
       },
       categories: {
         type: 'array',
@@ -165,8 +230,9 @@ export const PriceCheckFunction: FunctionDeclaration = {
       },
       region: {
         type: 'string',
-        default: 'IN',
-        description: 'Region code for pricing (IN for India)',
+        enum: RegionSchema.options,
+        default: DEFAULT_REGION,
+        description: 'Region to price in: IN (India, INR), US (USD), EU (EUR), GB (GBP) or AE (UAE, AED)',
       },
     },
   },
@@ -174,27 +240,34 @@ export const PriceCheckFunction: FunctionDeclaration = {
 
 /**
  * Advanced AI Service implementation with Google Flash 2.5
+ * Providers: Gemini (default), OpenAI and Claude, selected via `provider`
  * Features: Function calling, context management, multimodal support, streaming
  */
 export class AdvancedAIService implements AIService {
-  private genAI?: GoogleGenerativeAI;
   private config: AdvancedAIServiceConfig;
-  private model?: GenerativeModel;
+  private chain: ProviderChain;
   private provider: AIProvider;
-  private contextManager: ContextManager;
   private responseMetrics: Map<string, AIResponseMetrics> = new Map();
-  private functionTools: Tool[];
+  private functionTools: FunctionDeclaration[];
   private safetySettings: SafetySetting[];
-  private generationConfig: GenerationConfig;
 
-  constructor(config: Partial<AdvancedAIServiceConfig> = {}) {
+  constructor(
+    config: Partial<AdvancedAIServiceConfig> = {},
+    private readonly toolExecutor: PhoneToolExecutor = new PhoneToolExecutor()
+  ) {
     // Validate and set configuration with advanced defaults
+    const provider = config.provider || 'gemini';
     const configData = {
-      provider: config.provider || 'gemini',
+      provider,
+      fallbackChain: config.fallbackChain || [],
+      circuitBreakerThreshold: config.circuitBreakerThreshold || 3,
+      circuitBreakerResetMs: config.circuitBreakerResetMs ?? 60000,
       apiKey: process.env.GEMINI_API_KEY || config.apiKey,
       openaiApiKey: process.env.OPENAI_API_KEY || config.openaiApiKey,
       claudeApiKey: process.env.CLAUDE_API_KEY || config.claudeApiKey,
-      model: config.model || 'gemini-2.0-flash-exp', // Use Flash 2.5
+      openaiBaseUrl: config.openaiBaseUrl || process.env.OPENAI_BASE_URL,
+      claudeBaseUrl: config.claudeBaseUrl || process.env.CLAUDE_BASE_URL,
+      model: config.model || this.getDefaultModel(provider),
       maxTokens: config.maxTokens || 8192,
       temperature: config.temperature || 0.8,
       topP: config.topP || 0.95,
@@ -203,27 +276,29 @@ export class AdvancedAIService implements AIService {
       retryAttempts: config.retryAttempts || 3,
       retryDelay: config.retryDelay || 1500,
       enableFunctionCalling: config.enableFunctionCalling ?? true,
+      maxToolIterations: config.maxToolIterations || 3,
       enableSafetySettings: config.enableSafetySettings ?? true,
       enableContextCaching: config.enableContextCaching ?? true,
       maxContextLength: config.maxContextLength || 32000,
+      maxContextMessages: config.maxContextMessages || 10,
       streamingEnabled: config.streamingEnabled ?? false,
       enableMultimodal: config.enableMultimodal ?? true,
+      groundingMode: config.groundingMode || 'annotate',
     };
 
     this.config = AdvancedAIServiceConfigSchema.parse(configData);
     this.provider = this.config.provider;
-
-    // Initialize context manager
-    this.contextManager = new SimpleContextManager(this.config.maxContextLength);
+    this.chain = new ProviderChain({
+      failureThreshold: this.config.circuitBreakerThreshold,
+      resetTimeout: this.config.circuitBreakerResetMs,
+    });
 
     // Setup function calling tools
-    this.functionTools = this.config.enableFunctionCalling ? [{
-      functionDeclarations: [
-        PhoneSearchFunction,
-        PhoneCompareFunction,
-        PriceCheckFunction,
-      ],
-    }] : [];
+    this.functionTools = this.config.enableFunctionCalling ? [
+      PhoneSearchFunction,
+      PhoneCompareFunction,
+      PriceCheckFunction,
+    ] : [];
 
     // Setup safety settings
     this.safetySettings = this.config.enableSafetySettings ? [
@@ -245,24 +320,16 @@ export class AdvancedAIService implements AIService {
       },
     ] : [];
 
-    // Setup generation configuration
-    this.generationConfig = {
-      temperature: this.config.temperature,
-      topP: this.config.topP,
-      topK: this.config.topK,
-      maxOutputTokens: this.config.maxTokens,
-      responseMimeType: 'application/json',
-    };
-
     // Log advanced configuration
     console.log(`🚀 Advanced AI Service initialized`);
+    console.log(`🔌 Provider: ${this.provider}`);
     console.log(`📱 Model: ${this.config.model}`);
     console.log(`🔧 Function Calling: ${this.config.enableFunctionCalling ? 'Enabled' : 'Disabled'}`);
     console.log(`🛡️  Safety Settings: ${this.config.enableSafetySettings ? 'Enabled' : 'Disabled'}`);
     console.log(`💾 Context Caching: ${this.config.enableContextCaching ? 'Enabled' : 'Disabled'}`);
-    console.log(`🎯 API Key configured: ${this.config.apiKey ? 'Yes' : 'No'}`);
+    console.log(`🎯 API Key configured: ${this.getProviderApiKey(this.provider) ? 'Yes' : 'No'}`);
 
-    this.initializeProvider();
+    this.initializeProviders();
   }
 
   /**
@@ -282,65 +349,102 @@ export class AdvancedAIService implements AIService {
   }
 
   /**
-   * Initialize the advanced AI provider with Flash 2.5
+   * Get the API key configured for a provider
    */
-  private initializeProvider(): void {
-    switch (this.provider) {
-      case 'gemini':
-        if (!this.config.apiKey) {
-          console.warn('⚠️  GEMINI_API_KEY is not configured. AI service will use fallback responses.');
-          return;
-        }
-
-        try {
-          this.genAI = new GoogleGenerativeAI(this.config.apiKey);
-
-          // Initialize model with advanced configuration
-          this.model = this.genAI.getGenerativeModel({
-            model: this.config.model,
-            generationConfig: this.generationConfig,
-            safetySettings: this.safetySettings,
-            tools: this.functionTools.length > 0 ? this.functionTools : undefined,
-            systemInstruction: this.getSystemInstruction(),
-          });
-
-          console.log('✅ Gemini Flash 2.5 model initialized successfully');
-          console.log(`🎛️  Generation Config:`, {
-            temperature: this.generationConfig.temperature,
-            topP: this.generationConfig.topP,
-            topK: this.generationConfig.topK,
-            maxTokens: this.generationConfig.maxOutputTokens,
-          });
-
-        } catch (error) {
-          console.error('❌ Failed to initialize Gemini model:', error);
-          throw new Error(`Gemini initialization failed: ${error}`);
-        }
-        break;
-
+  private getProviderApiKey(provider: AIProvider): string | undefined {
+    switch (provider) {
       case 'openai':
-        if (!this.config.openaiApiKey) {
-          console.warn('⚠️  OPENAI_API_KEY is not configured. AI service will use fallback responses.');
-          return;
-        }
-        throw new Error('🚧 OpenAI provider implementation coming soon');
-
+        return this.config.openaiApiKey;
       case 'claude':
-        if (!this.config.claudeApiKey) {
-          console.warn('⚠️  CLAUDE_API_KEY is not configured. AI service will use fallback responses.');
-          return;
-        }
-        throw new Error('🚧 Claude provider implementation coming soon');
+        return this.config.claudeApiKey;
+      default:
+        return this.config.apiKey;
+    }
+  }
 
+  /**
+   * Get the API base URL override for a provider
+   */
+  private getProviderBaseUrl(provider: AIProvider): string | undefined {
+    switch (provider) {
+      case 'openai':
+        return this.config.openaiBaseUrl;
+      case 'claude':
+        return this.config.claudeBaseUrl;
       default:
-        throw new Error(`❌ Unsupported AI provider: ${this.provider}`);
+        return undefined;
+    }
+  }
+
+  /**
+   * Initialize the primary provider followed by the configured failover chain
+   */
+  private initializeProviders(): void {
+    const entries: Array<{ provider: AIProvider; model: string }> = [
+      { provider: this.provider, model: this.config.model },
+      ...this.config.fallbackChain.map(entry => ({
+        provider: entry.provider,
+        model: entry.model || this.getDefaultModel(entry.provider),
+      })),
+    ];
+
+    const seen = new Set<string>();
+
+    for (const { provider, model } of entries) {
+      const key = `${provider}:${model}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      if (!['gemini', 'openai', 'claude'].includes(provider)) {
+        throw new Error(`❌ Unsupported AI provider: ${provider}`);
+      }
+
+      const apiKey = this.getProviderApiKey(provider);
+      if (!apiKey) {
+        const envVar = provider === 'gemini' ? 'GEMINI_API_KEY' : `${provider.toUpperCase()}_API_KEY`;
+        console.warn(`⚠️  ${envVar} is not configured. Skipping ${provider} (${model}) in the provider chain.`);
+        continue;
+      }
+
+      try {
+        this.chain.add(createProvider(provider, {
+          apiKey,
+          model,
+          baseUrl: this.getProviderBaseUrl(provider),
+          maxTokens: this.config.maxTokens,
+          temperature: this.config.temperature,
+          topP: this.config.topP,
+          topK: this.config.topK,
+          timeout: this.config.timeout,
+          safetySettings: this.safetySettings,
+        }));
+
+        console.log(`✅ ${provider} model ${model} initialized successfully`);
+
+      } catch (error) {
+        console.error(`❌ Failed to initialize ${provider} model:`, error);
+        throw new Error(`${provider} initialization failed: ${error}`);
+      }
+    }
+
+    if (this.chain.size === 0) {
+      console.warn('⚠️  No AI provider is configured. AI service will use fallback responses.');
+      return;
     }
+
+    console.log(`🎛️  Generation Config:`, {
+      temperature: this.config.temperature,
+      topP: this.config.topP,
+      topK: this.config.topK,
+      maxTokens: this.config.maxTokens,
+      providers: this.chain.size,
+    });
   }
 
   /**
    * Get system instruction for the AI model
    */
-  private getSystemInstruction(): string {
+  private getSystemInstruction(format: 'json' | 'text' = 'json'): string {
     return `You are an expert mobile phone advisor and comparison specialist. Your role is to help users find the perfect smartphone based on their needs, preferences, and budget.
 
 Key Capabilities:
@@ -352,7 +456,7 @@ Key Capabilities:
 - Use function calling to search phones, compare models, and check prices
 
 Response Guidelines:
-- Always respond in JSON format with structured data
+- ${format === 'json' ? 'Always respond in JSON format with structured data' : 'Respond in plain conversational text, never JSON'}
 - Be conversational yet informative
 - Ask clarifying questions when needed
 - Provide specific examples and use cases
@@ -378,43 +482,44 @@ Remember to use the available functions to provide accurate, real-time informati
     const startTime = Date.now();
     console.log('🚀 Processing message with Flash 2.5:', message);
 
+    context = this.withLocale(message, context);
+    let summary = context.summary;
+
     try {
       // Update context manager with conversation history
-      this.updateContextManager(context);
+      const contextWindow = await this.buildContextWindow(context);
+      summary = contextWindow.getSummary();
 
-      // Check if we have a valid model
-      if (!this.model) {
+      // Check if we have at least one provider configured
+      if (this.chain.size === 0) {
         console.warn('⚠️  AI model not available, using intelligent fallback');
-        return this.getIntelligentFallbackResponse(message, context);
+        const fallbackResponse = await this.groundResponse(this.getIntelligentFallbackResponse(message, context), context);
+        return this.finishResponse(fallbackResponse, summary, context);
       }
 
       // Build advanced prompt with context
-      const prompt = this.buildAdvancedPrompt(message, context);
-
-      // Generate response with function calling support
-      const response = await this.generateAdvancedResponse(prompt, context);
-
-      // Calculate metrics
-      const metrics: AIResponseMetrics = {
-        responseTime: Date.now() - startTime,
-        tokenCount: this.estimateTokenCount(response.message),
-        confidence: response.confidence || 0.8,
-        relevanceScore: this.calculateRelevanceScore(message, response.message),
-        safetyScore: 0.95, // Placeholder for safety scoring
-        functionCallsUsed: response.extractedData?.functionCalls?.length || 0,
-      };
+      const prompt = this.buildAdvancedPrompt(message, context, contextWindow);
+
+      // Generate response with function calling support, failing over across providers
+      const generated = await this.generateAdvancedResponse(prompt, context);
+      const { answeredBy } = generated;
+
+      // Check stated specs against the catalog before the reply reaches the user
+      const response = await this.groundResponse(generated.response, context);
 
-      // Store metrics
-      this.responseMetrics.set(`${Date.now()}`, metrics);
+      // Calculate and store metrics
+      const metrics = this.recordMetrics(message, response, startTime, answeredBy.provider, answeredBy.model);
 
       console.log('✅ Response generated successfully:', {
+        provider: `${metrics.provider}/${metrics.model}`,
         responseTime: `${metrics.responseTime}ms`,
         tokenCount: metrics.tokenCount,
         confidence: metrics.confidence,
         functionCalls: metrics.functionCallsUsed,
+        grounding: response.extractedData?.grounding?.score,
       });
 
-      return response;
+      return this.finishResponse(response, summary, context);
 
     } catch (error) {
       console.error('❌ Error processing message:', error);
@@ -429,39 +534,309 @@ Remember to use the available functions to provide accurate, real-time informati
         fallbackUsed: true,
       };
 
-      return fallbackResponse;
+      this.recordMetrics(message, fallbackResponse, startTime, 'fallback', 'rule-based');
+
+      return this.finishResponse(await this.groundResponse(fallbackResponse, context), summary, context);
+    }
+  }
+
+  /**
+   * Process user message and stream the reply token by token
+   * Yields `delta` events as text arrives and a final `done` event with the
+   * assembled response. Aborting `signal` stops the stream early.
+   */
+  async *processUserMessageStream(
+    message: string,
+    context: ChatContext,
+    options: { signal?: AbortSignal } = {}
+  ): AsyncGenerator<AIStreamEvent> {
+    const startTime = Date.now();
+    const { signal } = options;
+
+    context = this.withLocale(message, context);
+    const contextWindow = await this.buildContextWindow(context, signal);
+    const summary = contextWindow.getSummary();
+
+    if (this.chain.size === 0) {
+      console.warn('⚠️  AI model not available, using intelligent fallback');
+      const fallbackResponse = this.getIntelligentFallbackResponse(message, context);
+      yield { type: 'delta', content: fallbackResponse.message };
+      yield { type: 'done', response: this.finishResponse(fallbackResponse, summary, context) };
+      return;
+    }
+
+    const prompt = this.buildStreamingPrompt(message, context, contextWindow);
+    let text = '';
+    let answeredBy: ProviderAnswer | undefined;
+
+    try {
+      const chunks = this.chain.stream(client =>
+        client.streamMessage(prompt, this.getSystemInstruction('text'), signal)
+      );
+
+      for await (const chunk of chunks) {
+        if (signal?.aborted) break;
+
+        text += chunk.text;
+        answeredBy = chunk.answeredBy;
+        yield { type: 'delta', content: chunk.text };
+      }
+    } catch (error) {
+      const cancelled = signal?.aborted || (error instanceof Error && error.name === 'AbortError');
+
+      if (!cancelled && !text) {
+        console.error('❌ Error streaming message:', error);
+
+        const fallbackResponse = this.getIntelligentFallbackResponse(message, context);
+        fallbackResponse.extractedData = {
+          ...fallbackResponse.extractedData,
+          error: 'AI_SERVICE_ERROR',
+          fallbackUsed: true,
+        };
+
+        this.recordMetrics(message, fallbackResponse, startTime, 'fallback', 'rule-based');
+
+        yield { type: 'delta', content: fallbackResponse.message };
+        yield { type: 'done', response: this.finishResponse(fallbackResponse, summary, context) };
+        return;
+      }
+
+      if (!cancelled) {
+        console.error('❌ Stream interrupted after partial response:', error);
+      }
+    }
+
+    let response = this.buildStreamedResponse(text, message, context);
+
+    if (signal?.aborted) {
+      response.extractedData = { ...response.extractedData, cancelled: true };
+    } else {
+      // Deltas have already been sent, so the grounded text only replaces
+      // them in the final response
+      response = await this.groundResponse(response, context);
+      if (answeredBy) {
+        this.recordMetrics(message, response, startTime, answeredBy.provider, answeredBy.model);
+      }
     }
+
+    yield { type: 'done', response: this.finishResponse(response, summary, context) };
+  }
+
+  /**
+   * Assemble the final response for a streamed reply
+   */
+  private buildStreamedResponse(text: string, message: string, context: ChatContext): AIResponse {
+    const phoneSelection = this.extractPhoneSelectionFallback(message);
+
+    return {
+      message: text.trim(),
+      suggestions: this.extractSuggestions(text),
+      nextStep: this.determineNextStep(text, context),
+      extractedData: {
+        ...this.extractStructuredData(text),
+        ...(phoneSelection ? { phoneSelection } : {}),
+        streamed: true,
+      },
+      confidence: 0.8,
+    };
   }
 
   /**
-   * Update context manager with conversation history
+   * Check the specs a reply states against the catalog records of the
+   * selected phones and any phones its tool calls returned, correct or
+   * annotate contradictions, and attach the grounding report
    */
-  private updateContextManager(context: ChatContext): void {
-    // Clear and rebuild context from conversation history
-    this.contextManager.clearContext();
-
-    // Add recent messages to context manager
-    const recentMessages = context.conversationHistory.slice(-10); // Keep last 10 messages
-    recentMessages.forEach(message => {
-      this.contextManager.addMessage(message);
+  private async groundResponse(response: AIResponse, context: ChatContext): Promise<AIResponse> {
+    const mode = this.config.groundingMode;
+    if (mode === 'off') {
+      return response;
+    }
+
+    const toolCalls: ToolCallRecord[] = response.extractedData?.toolCalls || [];
+    const toolPhoneIds = toolCalls.flatMap(record => {
+      const result = record.result as { phones?: Array<{ id?: string }>; phone?: { id?: string } } | undefined;
+      return [...(result?.phones || []), ...(result?.phone ? [result.phone] : [])]
+        .map(phone => phone?.id)
+        .filter((id): id is string => typeof id === 'string');
     });
+    const phoneIds = Array.from(new Set([...context.selectedPhones, ...toolPhoneIds])).slice(0, MAX_GROUNDING_PHONES);
+    const phones = await this.toolExecutor.getPhones(phoneIds);
+
+    const { text, checks } = specGroundingChecker.ground(response.message, phones, { mode });
+
+    return {
+      ...response,
+      message: text,
+      extractedData: {
+        ...response.extractedData,
+        grounding: specGroundingChecker.summarize(checks, mode),
+      },
+    };
   }
 
   /**
-   * Build advanced prompt with rich context
+   * Calculate and store metrics for a response
    */
-  private buildAdvancedPrompt(message: string, context: ChatContext): string {
-    const contextSummary = this.contextManager.summarizeContext();
-    const userPreferences = this.formatUserPreferences(context.preferences);
-    const selectedPhones = context.selectedPhones.join(', ');
+  private recordMetrics(
+    message: string,
+    response: AIResponse,
+    startTime: number,
+    provider: AIResponseMetrics['provider'],
+    model: string
+  ): AIResponseMetrics {
+    const metrics: AIResponseMetrics = {
+      provider,
+      model,
+      responseTime: Date.now() - startTime,
+      tokenCount: countTokens(response.message),
+      confidence: response.confidence || 0.8,
+      relevanceScore: this.calculateRelevanceScore(message, response.message),
+      safetyScore: 0.95, // Placeholder for safety scoring
+      functionCallsUsed: response.extractedData?.toolCalls?.length || 0,
+    };
 
-    return `
-Context Summary: ${contextSummary}
-Current Step: ${context.currentStep}
-Selected Phones: ${selectedPhones || 'None'}
-User Preferences: ${userPreferences}
+    this.responseMetrics.set(`${Date.now()}_${this.responseMetrics.size}`, metrics);
+
+    return metrics;
+  }
+
+  /**
+   * Build the context window for one request from its conversation history
+   * Each request gets its own manager, so concurrent sessions never see each
+   * other's turns or summaries. Turns already covered by the context's
+   * summary are skipped; turns pushed out of the window now are folded into
+   * a new summary, available from `getSummary()`.
+   */
+  private async buildContextWindow(context: ChatContext, signal?: AbortSignal): Promise<ContextManager> {
+    const contextWindow = new SimpleContextManager(this.config.maxContextLength, this.config.maxContextMessages);
+    contextWindow.setSummary(context.summary);
+
+    const unsummarized = context.conversationHistory.slice(context.summary?.summarizedMessages ?? 0);
+    unsummarized.forEach(message => {
+      contextWindow.addMessage(message);
+    });
+
+    const evicted = contextWindow.takeEvicted();
+    if (evicted.length > 0) {
+      contextWindow.setSummary(await this.summarizeTurns(context.summary, evicted, context, signal));
+    }
+
+    return contextWindow;
+  }
+
+  /**
+   * Fold evicted turns into the rolling summary
+   * Uses the provider chain; without one, or when the reply cannot be used,
+   * the turns are appended as plain text instead.
+   */
+  private async summarizeTurns(
+    previous: ConversationSummary | undefined,
+    evicted: ChatMessage[],
+    context: ChatContext,
+    signal?: AbortSignal
+  ): Promise<ConversationSummary> {
+    const summarizedMessages = (previous?.summarizedMessages ?? 0) + evicted.length;
+
+    if (this.chain.size > 0) {
+      try {
+        const { result } = await this.chain.execute(client =>
+          this.withTimeout(
+            client.processMessage(
+              PromptTemplates.conversationSummary(previous, evicted),
+              'You maintain running summaries of phone shopping conversations. Respond in JSON only.',
+              [],
+              signal
+            ),
+            'Summarization timeout'
+          )
+        );
+
+        const cleanedText = this.extractTextFromResponse(result)
+          .replace(/```json\n?|\n?```/g, '')
+          .trim();
+        const reply = SummaryReplySchema.parse(JSON.parse(cleanedText));
+
+        return {
+          text: reply.summary,
+          preferences: this.mergePreferences(previous?.preferences, this.toUserPreferences(reply.preferences)),
+          rejectedPhones: Array.from(new Set([...(previous?.rejectedPhones ?? []), ...(reply.rejectedPhones ?? [])])),
+          summarizedMessages,
+        };
 
-User Message: "${message}"
+      } catch (error) {
+        console.warn('⚠️  Summarization failed, keeping a plain-text summary:', error);
+      }
+    }
+
+    const lines = [
+      ...(previous?.text ? previous.text.split('\n') : []),
+      ...evicted.map(msg => `${msg.role}: ${msg.content.substring(0, 100)}${msg.content.length > 100 ? '...' : ''}`),
+    ];
+
+    return {
+      text: lines.slice(-MAX_FALLBACK_SUMMARY_LINES).join('\n'),
+      preferences: this.mergePreferences(previous?.preferences, context.preferences),
+      rejectedPhones: previous?.rejectedPhones ?? [],
+      summarizedMessages,
+    };
+  }
+
+  /**
+   * Keep the preferences from a model summary reply that fit the schema
+   */
+  private toUserPreferences(raw: z.infer<typeof SummaryReplySchema>['preferences']): UserPreferences | undefined {
+    if (!raw) return undefined;
+
+    const priorities = (raw.priorities ?? []).filter(priority =>
+      UserPreferencesSchema.shape.priorities.unwrap().element.safeParse(priority).success
+    );
+    const usage = UserPreferencesSchema.shape.usage.safeParse(raw.usage ?? undefined);
+    const budget = {
+      ...(raw.budget?.min != null ? { min: raw.budget.min } : {}),
+      ...(raw.budget?.max != null ? { max: raw.budget.max } : {}),
+    };
+
+    return UserPreferencesSchema.parse({
+      ...(Object.keys(budget).length > 0 ? { budget } : {}),
+      ...(priorities.length > 0 ? { priorities } : {}),
+      ...(usage.success && usage.data ? { usage: usage.data } : {}),
+    });
+  }
+
+  /**
+   * Combine preferences, with later statements winning field by field
+   */
+  private mergePreferences(earlier?: UserPreferences, later?: UserPreferences): UserPreferences | undefined {
+    if (!earlier || !later) return later ?? earlier;
+
+    return {
+      ...earlier,
+      ...later,
+      ...(earlier.budget || later.budget ? { budget: { ...earlier.budget, ...later.budget } } : {}),
+    };
+  }
+
+  /**
+   * Detect the language of the user's message, keeping the session's locale
+   * for messages with no language cues such as a bare model name
+   */
+  private withLocale(message: string, context: ChatContext): ChatContext {
+    return { ...context, locale: detectLanguage(message, context.locale).locale };
+  }
+
+  /**
+   * Attach the reply locale, and the summary when this request changed it
+   */
+  private finishResponse(response: AIResponse, summary: ConversationSummary | undefined, context: ChatContext): AIResponse {
+    const localized = { ...response, locale: context.locale };
+    return summary && summary !== context.summary ? { ...localized, summary } : localized;
+  }
+
+  /**
+   * Build advanced prompt with rich context
+   */
+  private buildAdvancedPrompt(message: string, context: ChatContext, contextWindow: ContextManager): string {
+    return `${this.buildPromptContext(message, context, contextWindow)}
 
 Please provide a helpful response in JSON format with the following structure:
 {
@@ -470,6 +845,7 @@ Please provide a helpful response in JSON format with the following structure:
   "nextStep": "brand_selection|model_selection|comparison|completed",
   "extractedData": {
     "phoneSelection": { "brand": "...", "model": "...", "variant": "..." },
+    "preferences": { "budget": { "min": 0, "max": 0 }, "priorities": ["camera|battery|performance|display|price"], "usage": "gaming|photography|business|casual" },
     "userIntent": "search|compare|recommend|price_check",
     "functionCalls": [],
     "confidence": 0.0-1.0
@@ -478,36 +854,96 @@ Please provide a helpful response in JSON format with the following structure:
 }`;
   }
 
+  /**
+   * Build plain-text prompt for streamed replies
+   */
+  private buildStreamingPrompt(message: string, context: ChatContext, contextWindow: ContextManager): string {
+    return `${this.buildPromptContext(message, context, contextWindow)}
+
+Reply in plain conversational text, without JSON or code fences.
+Finish with up to three short follow-up suggestions as a bulleted list.`;
+  }
+
+  /**
+   * Build the shared conversation context block for prompts
+   */
+  private buildPromptContext(message: string, context: ChatContext, contextWindow: ContextManager): string {
+    const contextSummary = contextWindow.summarizeContext();
+    const summary = contextWindow.getSummary();
+    const userPreferences = this.formatUserPreferences(this.mergePreferences(summary?.preferences, context.preferences));
+    const selectedPhones = context.selectedPhones.join(', ');
+    const rejectedPhones = summary?.rejectedPhones.join(', ');
+
+    return `
+Context Summary: ${contextSummary}
+Current Step: ${context.currentStep}
+Selected Phones: ${selectedPhones || 'None'}
+User Preferences: ${userPreferences}
+Rejected Phones: ${rejectedPhones || 'None'}
+Reply Language: ${PromptTemplates.replyLanguage(context.locale ?? 'en')}
+
+User Message: "${message}"`;
+  }
+
   /**
    * Generate advanced response with function calling
+   * Tool calls are executed against the catalog and their results fed back
+   * to the model until it answers without calls or the iteration cap is hit.
    */
-  private async generateAdvancedResponse(prompt: string, context: ChatContext): Promise<AIResponse> {
-    if (!this.model) {
+  private async generateAdvancedResponse(
+    prompt: string,
+    context: ChatContext
+  ): Promise<{ response: AIResponse; answeredBy: ProviderAnswer }> {
+    if (this.chain.size === 0) {
       throw new Error('Model not initialized');
     }
 
     try {
-      // Generate content with the model
-      const result = await Promise.race([
-        this.model.generateContent(prompt),
-        new Promise<never>((_, reject) =>
-          setTimeout(() => reject(new Error('Generation timeout')), this.config.timeout)
-        )
-      ]);
-
-      // Extract and parse response
-      const responseText = result.response.text();
-      console.log('🤖 Raw AI Response:', responseText);
-
-      // Parse JSON response
-      const parsedResponse = this.parseAdvancedResponse(responseText);
-
-      // Handle function calls if present
-      if (parsedResponse.extractedData?.functionCalls?.length > 0) {
-        await this.handleFunctionCalls(parsedResponse.extractedData.functionCalls, context);
-      }
+      const toolTrace: ToolCallRecord[] = [];
+      const maxIterations = this.config.maxToolIterations;
+
+      for (let iteration = 1; ; iteration++) {
+        // Tools are withheld on the last pass so the model has to answer
+        const toolsAllowed = iteration <= maxIterations;
+
+        // Generate content through the provider chain, exposing function declarations as tools
+        const { result, answeredBy } = await this.chain.execute(client =>
+          this.withTimeout(
+            client.processMessage(
+              this.buildToolResultPrompt(prompt, toolTrace),
+              this.getSystemInstruction(),
+              toolsAllowed ? this.functionTools : []
+            ),
+            'Generation timeout'
+          )
+        );
+
+        // Extract and parse response
+        const responseText = this.extractTextFromResponse(result);
+        console.log('🤖 Raw AI Response:', responseText);
+
+        // Parse JSON response
+        const parsedResponse = this.parseAdvancedResponse(responseText);
+
+        // Native tool calls plus any declared in the JSON payload
+        const { functionCalls: declaredCalls, ...extractedData } = parsedResponse.extractedData || {};
+        const functionCalls = [
+          ...result.functionCalls,
+          ...(Array.isArray(declaredCalls) ? declaredCalls.filter(call => call?.name) : []),
+        ];
+
+        if (functionCalls.length === 0 || !toolsAllowed || this.functionTools.length === 0) {
+          parsedResponse.extractedData = {
+            ...extractedData,
+            ...(toolTrace.length > 0 ? { toolCalls: toolTrace } : {}),
+            ...(functionCalls.length > 0 ? { toolLoopExhausted: true } : {}),
+          };
+
+          return { response: parsedResponse, answeredBy };
+        }
 
-      return parsedResponse;
+        toolTrace.push(...await this.toolExecutor.executeAll(functionCalls, iteration));
+      }
 
     } catch (error) {
       console.error('❌ Advanced response generation failed:', error);
@@ -515,6 +951,27 @@ Please provide a helpful response in JSON format with the following structure:
     }
   }
 
+  /**
+   * Race a provider call against the configured timeout
+   */
+  private withTimeout<T>(operation: Promise<T>, message: string): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    return Promise.race([
+      operation,
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(message)), this.config.timeout);
+      }),
+    ]).finally(() => clearTimeout(timer));
+  }
+
+  /**
+   * Extract response text from a provider result
+   */
+  private extractTextFromResponse(result: ProviderResult): string {
+    return result.text;
+  }
+
   /**
    * Parse advanced AI response with error handling
    */
@@ -552,31 +1009,25 @@ Please provide a helpful response in JSON format with the following structure:
   }
 
   /**
-   * Handle function calls from AI response
+   * Append executed tool results to the prompt for the next model pass
    */
-  private async handleFunctionCalls(functionCalls: any[], context: ChatContext): Promise<void> {
-    for (const call of functionCalls) {
-      try {
-        switch (call.name) {
-          case 'searchPhones':
-            console.log('🔍 Executing phone search:', call.parameters);
-            // Implement phone search logic
-            break;
-          case 'comparePhones':
-            console.log('⚖️  Executing phone comparison:', call.parameters);
-            // Implement phone comparison logic
-            break;
-          case 'checkPhonePrice':
-            console.log('💰 Executing price check:', call.parameters);
-            // Implement price check logic
-            break;
-          default:
-            console.warn('⚠️  Unknown function call:', call.name);
-        }
-      } catch (error) {
-        console.error(`❌ Function call failed (${call.name}):`, error);
-      }
+  private buildToolResultPrompt(prompt: string, toolTrace: ToolCallRecord[]): string {
+    if (toolTrace.length === 0) {
+      return prompt;
     }
+
+    const results = toolTrace.map(record => JSON.stringify({
+      function: record.name,
+      parameters: record.parameters,
+      ...(record.error ? { error: record.error } : { result: record.result }),
+    }));
+
+    return `${prompt}
+
+Function results from the phone catalog:
+${results.join('\n')}
+
+Ground your answer in these results. Only call a function again if you still need more data.`;
   }
 
   /**
@@ -607,14 +1058,6 @@ Please provide a helpful response in JSON format with the following structure:
     return parts.length > 0 ? parts.join('; ') : 'Not specified';
   }
 
-  /**
-   * Estimate token count for text
-   */
-  private estimateTokenCount(text: string): number {
-    // Rough estimation: ~4 characters per token
-    return Math.ceil(text.length / 4);
-  }
-
   /**
    * Calculate relevance score between user message and AI response
    */
@@ -643,18 +1086,19 @@ Please provide a helpful response in JSON format with the following structure:
    * Extract phone selection from user message with retry logic
    */
   async extractPhoneSelection(message: string): Promise<PhoneSelection | null> {
+    if (this.chain.size === 0) {
+      return this.extractPhoneSelectionFallback(message);
+    }
+
     let lastError: Error | null = null;
 
     for (let attempt = 1; attempt <= this.config.retryAttempts; attempt++) {
       try {
         const prompt = PromptTemplates.phoneExtraction(message);
 
-        const result = await Promise.race([
-          this.generateContent(prompt),
-          new Promise<never>((_, reject) =>
-            setTimeout(() => reject(new Error('Phone extraction timeout')), this.config.timeout)
-          )
-        ]);
+        const { result } = await this.chain.execute(client =>
+          this.withTimeout(client.extractPhoneSelection(prompt), 'Phone extraction timeout')
+        );
 
         const text = this.extractTextFromResponse(result);
 
@@ -717,7 +1161,9 @@ Please provide a helpful response in JSON format with the following structure:
   /**
    * Fallback phone selection extraction using regex patterns
    */
-  private extractPhoneSelectionFallback(message: string): PhoneSelection | null {
+  private extractPhoneSelectionFallback(rawMessage: string): PhoneSelection | null {
+    // Transliterated brand names ("सैमसंग", "आईफोन") become their English form
+    const message = normalizeMessage(rawMessage);
     const lowerMessage = message.toLowerCase();
 
     // Brand patterns
@@ -781,22 +1227,26 @@ Please provide a helpful response in JSON format with the following structure:
    * Generate comparison insights between two phones with retry logic
    */
   async generateComparison(phone1: Phone, phone2: Phone): Promise<ComparisonResult> {
+    if (this.chain.size === 0) {
+      return this.groundComparison(this.getFallbackComparison(phone1, phone2));
+    }
+
     let lastError: Error | null = null;
 
     for (let attempt = 1; attempt <= this.config.retryAttempts; attempt++) {
       try {
         const prompt = this.buildComparisonPrompt(phone1, phone2);
 
-        const result = await Promise.race([
-          this.generateContent(prompt),
-          new Promise<never>((_, reject) =>
-            setTimeout(() => reject(new Error('Comparison generation timeout')), this.config.timeout)
+        const { result, answeredBy } = await this.chain.execute(client =>
+          this.withTimeout(
+            client.generateComparison(prompt, this.getSystemInstruction()),
+            'Comparison generation timeout'
           )
-        ]);
+        );
 
         const text = this.extractTextFromResponse(result);
 
-        return this.parseComparisonResult(text, phone1, phone2);
+        return this.groundComparison(this.parseComparisonResult(text, phone1, phone2, answeredBy));
       } catch (error) {
         lastError = error as Error;
         console.error(`Comparison generation error (attempt ${attempt}/${this.config.retryAttempts}):`, error);
@@ -808,7 +1258,49 @@ Please provide a helpful response in JSON format with the following structure:
     }
 
     console.error('All comparison generation attempts failed:', lastError);
-    return this.getFallbackComparison(phone1, phone2);
+    return this.groundComparison(this.getFallbackComparison(phone1, phone2));
+  }
+
+  /**
+   * Check the specs stated across a comparison's text against the two
+   * phones, correct or annotate contradictions, and attach the grounding
+   * report to the comparison metadata
+   * Per-phone insights are attributed to their phone unless they name the other.
+   */
+  private groundComparison(comparison: ComparisonResult): ComparisonResult {
+    const mode = this.config.groundingMode;
+    if (mode === 'off') {
+      return comparison;
+    }
+
+    const { phones, insights } = comparison;
+    const [phone1, phone2] = phones;
+    const checks: ClaimCheck[] = [];
+
+    const ground = (text: string, defaultPhone?: Phone) => {
+      const grounded = specGroundingChecker.ground(text, phones, { mode, defaultPhone });
+      checks.push(...grounded.checks);
+      return grounded.text;
+    };
+    const groundEach = (texts: string[], defaultPhone?: Phone) => texts.map(text => ground(text, defaultPhone));
+
+    return {
+      ...comparison,
+      summary: ground(comparison.summary),
+      categories: comparison.categories.map(category =>
+        category.summary ? { ...category, summary: ground(category.summary) } : category
+      ),
+      insights: {
+        strengths: { phone1: groundEach(insights.strengths.phone1, phone1), phone2: groundEach(insights.strengths.phone2, phone2) },
+        weaknesses: { phone1: groundEach(insights.weaknesses.phone1, phone1), phone2: groundEach(insights.weaknesses.phone2, phone2) },
+        recommendations: groundEach(insights.recommendations),
+        bestFor: { phone1: groundEach(insights.bestFor.phone1, phone1), phone2: groundEach(insights.bestFor.phone2, phone2) },
+      },
+      metadata: {
+        ...comparison.metadata,
+        grounding: specGroundingChecker.summarize(checks, mode),
+      },
+    };
   }
 
   /**
@@ -884,7 +1376,12 @@ Please provide a detailed JSON response with the following structure:
   /**
    * Parse advanced comparison result from AI response
    */
-  private parseComparisonResult(text: string, phone1: Phone, phone2: Phone): ComparisonResult {
+  private parseComparisonResult(
+    text: string,
+    phone1: Phone,
+    phone2: Phone,
+    answeredBy?: ProviderAnswer
+  ): ComparisonResult {
     try {
       // Try to parse as JSON first
       const cleanedText = text.replace(/```json\n?|\n?```/g, '').trim();
@@ -921,7 +1418,8 @@ Please provide a detailed JSON response with the following structure:
         generatedAt: new Date(),
         metadata: {
           aiGenerated: true,
-          model: this.config.model,
+          provider: answeredBy?.provider || this.provider,
+          model: answeredBy?.model || this.config.model,
           confidence: parsed.confidence || 0.8,
         },
       };
@@ -987,9 +1485,12 @@ Please provide a detailed JSON response with the following structure:
 
   /**
    * Get intelligent fallback response that analyzes user input
+   * Hindi and Hinglish messages are normalized before keyword matching and
+   * answered in the detected locale.
    */
   private getIntelligentFallbackResponse(message: string, context: ChatContext): AIResponse {
-    const lowerMessage = message.toLowerCase();
+    const lowerMessage = normalizeMessage(message).toLowerCase();
+    const replies = getFallbackReplies(context.locale);
 
     // Analyze the user's message for intent and content
     const phoneSelection = this.extractPhoneSelectionFallback(message);
@@ -997,8 +1498,7 @@ Please provide a detailed JSON response with the following structure:
     // Handle phone comparison requests
     if ((lowerMessage.includes('compare') || lowerMessage.includes('vs') || lowerMessage.includes('versus')) && phoneSelection) {
       return {
-        message: `I can help you compare phones! You mentioned "${phoneSelection.brand} ${phoneSelection.model}". What other phone would you like to compare it with? Popular alternatives include Samsung Galaxy S24, iPhone 15, OnePlus 12, and Xiaomi 14.`,
-        suggestions: ['Samsung Galaxy S24', 'iPhone 15 Pro', 'OnePlus 12', 'Xiaomi 14'],
+        ...replies.compareWith(`${phoneSelection.brand} ${phoneSelection.model}`),
         nextStep: 'model_selection',
         extractedData: { phoneSelection },
         confidence: 0.8,
@@ -1008,8 +1508,7 @@ Please provide a detailed JSON response with the following structure:
     // Handle specific phone inquiries
     if (phoneSelection) {
       return {
-        message: `Great choice! The ${phoneSelection.brand} ${phoneSelection.model} is a popular phone. Would you like to compare it with another phone, or do you want to know more about its specifications? I can help you with camera quality, battery life, performance, and pricing information.`,
-        suggestions: ['Compare with another phone', 'Show specifications', 'Check current price', 'Camera quality'],
+        ...replies.phoneInquiry(`${phoneSelection.brand} ${phoneSelection.model}`),
         nextStep: 'model_selection',
         extractedData: { phoneSelection },
         confidence: 0.8,
@@ -1017,22 +1516,19 @@ Please provide a detailed JSON response with the following structure:
     }
 
     // Handle recommendation requests
-    if (lowerMessage.includes('recommend') || lowerMessage.includes('suggest') || lowerMessage.includes('best')) {
-      const budgetMatch = message.match(/(\d+(?:,\d+)*)/);
-      const budget = budgetMatch ? budgetMatch[1] : null;
+    if (/\b(recommend|suggest|best|cheap|chahiye)\b/.test(lowerMessage)) {
+      const budget = extractBudget(message);
 
       if (budget) {
         return {
-          message: `For a budget of ₹${budget}, I can suggest some excellent options! Popular phones in this range include Samsung Galaxy A series, Realme GT series, OnePlus Nord series, and Xiaomi Redmi series. What do you primarily use your phone for - photography, gaming, or general use?`,
-          suggestions: ['Photography focused', 'Gaming performance', 'General use', 'Best value for money'],
+          ...replies.budget(this.formatBudget(budget)),
           nextStep: 'brand_selection',
-          extractedData: { budget },
+          extractedData: { preferences: { budget } },
           confidence: 0.8,
         };
       } else {
         return {
-          message: `I'd be happy to recommend phones! To give you the best suggestions, could you tell me your budget range? Popular price segments are: Under ₹15,000 (budget), ₹15,000-₹30,000 (mid-range), ₹30,000-₹50,000 (premium), and above ₹50,000 (flagship).`,
-          suggestions: ['Under ₹15,000', '₹15,000-₹30,000', '₹30,000-₹50,000', 'Above ₹50,000'],
+          ...replies.askBudget,
           nextStep: 'brand_selection',
           confidence: 0.8,
         };
@@ -1041,36 +1537,20 @@ Please provide a detailed JSON response with the following structure:
 
     // Handle price inquiries
     if (lowerMessage.includes('price') || lowerMessage.includes('cost') || lowerMessage.includes('₹')) {
-      return {
-        message: `I can help you with phone pricing! Current popular phones and their approximate prices are: iPhone 15 (₹79,900), Samsung Galaxy S24 (₹74,999), OnePlus 12 (₹64,999), Xiaomi 14 (₹54,999). Which specific phone's price are you looking for?`,
-        suggestions: ['iPhone 15 price', 'Samsung Galaxy S24 price', 'OnePlus 12 price', 'Budget phone prices'],
-        confidence: 0.8,
-      };
+      return { ...replies.price, confidence: 0.8 };
     }
 
     // Handle feature-specific questions
     if (lowerMessage.includes('camera')) {
-      return {
-        message: `Looking for great camera phones? The best camera phones currently are iPhone 15 Pro (excellent overall), Samsung Galaxy S24 Ultra (versatile zoom), Google Pixel 8 (computational photography), and OnePlus 12 (portrait mode). Which aspect of camera performance matters most to you?`,
-        suggestions: ['Portrait photography', 'Night mode', 'Video recording', 'Zoom capabilities'],
-        confidence: 0.8,
-      };
+      return { ...replies.camera, confidence: 0.8 };
     }
 
     if (lowerMessage.includes('battery')) {
-      return {
-        message: `Battery life is crucial! Phones with excellent battery life include OnePlus 12 (5400mAh), Xiaomi 14 Ultra (5300mAh), Samsung Galaxy S24+ (4900mAh), and Realme GT 6 (5500mAh). Are you looking for long battery life, fast charging, or both?`,
-        suggestions: ['Long battery life', 'Fast charging', 'Both battery and charging', 'Gaming battery life'],
-        confidence: 0.8,
-      };
+      return { ...replies.battery, confidence: 0.8 };
     }
 
     if (lowerMessage.includes('gaming') || lowerMessage.includes('performance')) {
-      return {
-        message: `For gaming and performance, top choices are iPhone 15 Pro (A17 Pro chip), Samsung Galaxy S24 (Snapdragon 8 Gen 3), OnePlus 12 (Snapdragon 8 Gen 3), and Xiaomi 14 (Snapdragon 8 Gen 3). What type of games do you play most?`,
-        suggestions: ['Heavy games (PUBG, COD)', 'Casual games', 'Emulation', 'Overall performance'],
-        confidence: 0.8,
-      };
+      return { ...replies.gaming, confidence: 0.8 };
     }
 
     // Handle brand-specific inquiries
@@ -1080,8 +1560,7 @@ Please provide a detailed JSON response with the following structure:
     if (mentionedBrand) {
       const brandName = mentionedBrand.charAt(0).toUpperCase() + mentionedBrand.slice(1);
       return {
-        message: `${brandName} makes excellent phones! Their popular current models include various options across different price ranges. Which ${brandName} phone are you interested in, or would you like me to suggest their best current models?`,
-        suggestions: [`Latest ${brandName} phones`, `Budget ${brandName} options`, `${brandName} flagships`, 'Compare with other brands'],
+        ...replies.brand(brandName),
         nextStep: 'model_selection',
         extractedData: { selectedBrand: brandName },
         confidence: 0.8,
@@ -1092,34 +1571,39 @@ Please provide a detailed JSON response with the following structure:
     return this.getFallbackResponse(context);
   }
 
+  /**
+   * Format a budget range for a reply, e.g. "₹30,000" or "₹20,000-₹25,000"
+   */
+  private formatBudget({ min, max }: BudgetRange): string {
+    const format = (amount: number) => `₹${amount.toLocaleString('en-IN')}`;
+
+    if (min !== undefined && max !== undefined) {
+      return `${format(min)}-${format(max)}`;
+    }
+    return min !== undefined ? `${format(min)}+` : format(max ?? 0);
+  }
+
   /**
    * Get fallback response when AI service fails (legacy method)
    */
   private getFallbackResponse(context: ChatContext): AIResponse {
-    let message = "I'm here to help you with phone comparisons! ";
-    let suggestions: string[] = [];
+    const replies = getFallbackReplies(context.locale);
+    let reply = replies.welcome;
 
     switch (context.currentStep) {
       case 'brand_selection':
-        message += "Which phone brand interests you most? I can help you explore options from Apple, Samsung, OnePlus, Xiaomi, Realme, and many more.";
-        suggestions = ['Apple iPhone', 'Samsung Galaxy', 'OnePlus', 'Xiaomi', 'Realme'];
+        reply = replies.brandSelection;
         break;
       case 'model_selection':
-        message += `Great choice on ${context.selectedBrand}! Which specific model would you like to explore?`;
-        suggestions = ['Latest models', 'Budget options', 'Flagship phones', 'Popular choices'];
+        reply = replies.modelSelection(context.selectedBrand);
         break;
       case 'comparison':
-        message += "I can help compare your selected phones. What aspects matter most to you?";
-        suggestions = ['Camera quality', 'Battery life', 'Performance', 'Value for money'];
+        reply = replies.comparison;
         break;
-      default:
-        message += "How can I help you find the perfect phone today?";
-        suggestions = ['Compare phones', 'Get recommendations', 'Check prices', 'Find best camera phone'];
     }
 
     return {
-      message,
-      suggestions,
+      ...reply,
       confidence: 0.7,
       extractedData: { fallbackUsed: true },
     };
@@ -1181,6 +1665,20 @@ Please provide a detailed JSON response with the following structure:
     this.responseMetrics.clear();
   }
 
+  /**
+   * Get circuit breaker state for each provider in the failover chain
+   */
+  public getProviderStatus(): ProviderHealth[] {
+    return this.chain.getStatus();
+  }
+
+  /**
+   * Close all provider circuit breakers
+   */
+  public resetProviders(): void {
+    this.chain.reset();
+  }
+
   /**
    * Get service health status
    */
@@ -1190,27 +1688,35 @@ Please provide a detailed JSON response with the following structure:
     provider: string;
     lastResponseTime?: number;
     errorRate?: number;
+    providers: ProviderHealth[];
   }> {
     try {
-      if (!this.model) {
+      const providers = this.chain.getStatus();
+
+      if (providers.length === 0) {
         return {
           status: 'unhealthy',
           model: this.config.model,
           provider: this.provider,
+          providers,
         };
       }
 
-      // Calculate error rate from recent metrics
+      // Calculate error rate from recent metrics; rule-based fallbacks count as errors
       const recentMetrics = Array.from(this.responseMetrics.values()).slice(-10);
       const errorRate = recentMetrics.length > 0
-        ? recentMetrics.filter(m => m.confidence < 0.5).length / recentMetrics.length
+        ? recentMetrics.filter(m => m.confidence < 0.5 || m.provider === 'fallback').length / recentMetrics.length
         : 0;
 
       const avgResponseTime = recentMetrics.length > 0
         ? recentMetrics.reduce((sum, m) => sum + m.responseTime, 0) / recentMetrics.length
         : undefined;
 
-      const status = errorRate > 0.3 ? 'degraded' : 'healthy';
+      const openBreakers = providers.filter(p => p.state === 'open').length;
+
+      const status = openBreakers === providers.length
+        ? 'unhealthy'
+        : errorRate > 0.3 || openBreakers > 0 ? 'degraded' : 'healthy';
 
       return {
         status,
@@ -1218,6 +1724,7 @@ Please provide a detailed JSON response with the following structure:
         provider: this.provider,
         lastResponseTime: avgResponseTime,
         errorRate,
+        providers,
       };
 
     } catch (error) {
@@ -1225,6 +1732,7 @@ Please provide a detailed JSON response with the following structure:
         status: 'unhealthy',
         model: this.config.model,
         provider: this.provider,
+        providers: [],
       };
     }
   }
@@ -1232,13 +1740,20 @@ Please provide a detailed JSON response with the following structure:
 
 /**
  * Simple Context Manager Implementation
+ * Keeps the most recent turns within a token and message budget; an
+ * overflowing window is cut back to half its message budget so the summary
+ * is refreshed every few turns rather than on every one.
  */
 class SimpleContextManager implements ContextManager {
   private messages: ChatMessage[] = [];
+  private evicted: ChatMessage[] = [];
+  private summary?: ConversationSummary;
   private maxTokens: number;
+  private maxMessages: number;
 
-  constructor(maxTokens: number = 32000) {
+  constructor(maxTokens: number = 32000, maxMessages: number = 10) {
     this.maxTokens = maxTokens;
+    this.maxMessages = maxMessages;
   }
 
   addMessage(message: ChatMessage): void {
@@ -1251,33 +1766,60 @@ class SimpleContextManager implements ContextManager {
   }
 
   summarizeContext(): string {
-    if (this.messages.length === 0) {
+    if (this.messages.length === 0 && !this.summary) {
       return 'No previous conversation';
     }
 
-    const recentMessages = this.getRecentContext(6);
-    const summary = recentMessages
-      .map(msg => `${msg.role}: ${msg.content.substring(0, 100)}${msg.content.length > 100 ? '...' : ''}`)
-      .join('\n');
+    const sections = this.summary ? [`Earlier conversation:\n${this.summary.text}`] : [];
+
+    if (this.messages.length > 0) {
+      const recent = this.messages
+        .map(msg => `${msg.role}: ${msg.content}`)
+        .join('\n');
+      sections.push(`Recent conversation:\n${recent}`);
+    }
 
-    return `Recent conversation:\n${summary}`;
+    return sections.join('\n\n');
   }
 
   clearContext(): void {
     this.messages = [];
+    this.evicted = [];
+    this.summary = undefined;
   }
 
   getContextTokenCount(): number {
-    const totalText = this.messages.map(m => m.content).join(' ');
-    return Math.ceil(totalText.length / 4); // Rough estimation
+    return countMessageTokens(this.messages) + countTokens(this.summary?.text ?? '');
+  }
+
+  setSummary(summary?: ConversationSummary): void {
+    this.summary = summary;
+  }
+
+  getSummary(): ConversationSummary | undefined {
+    return this.summary;
+  }
+
+  takeEvicted(): ChatMessage[] {
+    const evicted = this.evicted;
+    this.evicted = [];
+    return evicted;
   }
 
   private trimContext(): void {
+    if (this.messages.length > this.maxMessages) {
+      this.evictOldest(this.messages.length - Math.max(2, Math.floor(this.maxMessages / 2)));
+    }
+
     // Keep trimming until we're under the token limit
     while (this.getContextTokenCount() > this.maxTokens && this.messages.length > 2) {
-      this.messages.shift(); // Remove oldest message
+      this.evictOldest(1);
     }
   }
+
+  private evictOldest(count: number): void {
+    this.evicted.push(...this.messages.splice(0, count));
+  }
 }
 
 // Export factory function for singleton instance
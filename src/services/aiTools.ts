@@ -0,0 +1,284 @@
+import { Phone } from '../types/phone.js';
+import { ComparisonResult, MultiPhoneComparison } from '../types/comparison.js';
+import type { PriceData } from './external/priceTracking.js';
+import { ProviderFunctionCall } from './providers/index.js';
+import { DEFAULT_REGION, EXCHANGE_RATES, getRegionalPricing, parseRegion } from './regions/index.js';
+
+/**
+ * Catalog operations the AI tool loop dispatches to
+ */
+export interface PhoneToolBackends {
+  searchPhones(query: string): Promise<Phone[]>;
+  findPhones(filters: { brand?: string; minPrice?: number; maxPrice?: number; query?: string; limit?: number }): Promise<Phone[]>;
+  getPhoneById(id: string): Promise<Phone | null>;
+  comparePhones(phone1: Phone, phone2: Phone): Promise<ComparisonResult>;
+  compareMultiplePhones(phones: Phone[]): Promise<MultiPhoneComparison>;
+  getPhonePrices(brand: string, model: string, variant?: string): Promise<PriceData | null>;
+}
+
+/**
+ * One executed tool call, as kept in the response trace
+ */
+export interface ToolCallRecord {
+  iteration: number;
+  name: string;
+  parameters: Record<string, any>;
+  result?: unknown;
+  error?: string;
+  durationMs: number;
+}
+
+const MAX_SEARCH_RESULTS = 8;
+
+// Phones the comparison engine can rank at once
+export const MAX_COMPARED_PHONES = 5;
+
+/**
+ * Default backends, loaded lazily so the AI service does not pull in Prisma
+ * until a tool is actually called
+ */
+export const defaultPhoneToolBackends: PhoneToolBackends = {
+  async searchPhones(query) {
+    const { phoneService } = await import('./phone.js');
+    return phoneService.searchPhones(query);
+  },
+  async findPhones(filters) {
+    const { phoneService } = await import('./phone.js');
+    return phoneService.findPhones(filters);
+  },
+  async getPhoneById(id) {
+    const { phoneService } = await import('./phone.js');
+    return phoneService.getPhoneById(id);
+  },
+  async comparePhones(phone1, phone2) {
+    const { comparisonService } = await import('./comparison.js');
+    return comparisonService.comparePhones(phone1, phone2);
+  },
+  async compareMultiplePhones(phones) {
+    const { comparisonService } = await import('./comparison.js');
+    return comparisonService.generateMultiPhoneComparison(phones);
+  },
+  async getPhonePrices(brand, model, variant) {
+    const { PriceTrackingService, defaultExternalDataConfig } = await import('./external/index.js');
+    return new PriceTrackingService(defaultExternalDataConfig.priceTracking).getPhonePrices(brand, model, variant);
+  },
+};
+
+/**
+ * Executes AI function calls against the phone catalog
+ * Results are trimmed to what the model needs to ground its answer.
+ */
+export class PhoneToolExecutor {
+  constructor(private readonly backends: PhoneToolBackends = defaultPhoneToolBackends) {}
+
+  /**
+   * Run a batch of calls, recording results and failures without throwing
+   */
+  async executeAll(calls: ProviderFunctionCall[], iteration: number): Promise<ToolCallRecord[]> {
+    const records: ToolCallRecord[] = [];
+
+    for (const call of calls) {
+      const startTime = Date.now();
+      const parameters = call.parameters || {};
+
+      try {
+        const result = await this.execute(call.name, parameters);
+        records.push({ iteration, name: call.name, parameters, result, durationMs: Date.now() - startTime });
+      } catch (error) {
+        console.error(`❌ Function call failed (${call.name}):`, error);
+        records.push({
+          iteration,
+          name: call.name,
+          parameters,
+          error: error instanceof Error ? error.message : String(error),
+          durationMs: Date.now() - startTime,
+        });
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * Dispatch a single call by name
+   */
+  async execute(name: string, parameters: Record<string, any>): Promise<unknown> {
+    switch (name) {
+      case 'searchPhones':
+        console.log('🔍 Executing phone search:', parameters);
+        return this.searchPhones(parameters);
+      case 'comparePhones':
+        console.log('⚖️  Executing phone comparison:', parameters);
+        return this.comparePhones(parameters);
+      case 'checkPhonePrice':
+        console.log('💰 Executing price check:', parameters);
+        return this.checkPhonePrice(parameters);
+      default:
+        throw new Error(`Unknown function: ${name}`);
+    }
+  }
+
+  private async searchPhones(parameters: Record<string, any>) {
+    const { brand, priceRange, features, usage } = parameters;
+    const query = [...(Array.isArray(features) ? features : []), usage].filter(Boolean).join(' ');
+    const hasPriceFilter = priceRange?.min !== undefined || priceRange?.max !== undefined;
+
+    // Price filters need the query builder; plain text goes through cached search
+    const phones = brand || hasPriceFilter
+      ? await this.backends.findPhones({
+          brand,
+          minPrice: priceRange?.min,
+          maxPrice: priceRange?.max,
+          query: query || undefined,
+          limit: MAX_SEARCH_RESULTS,
+        })
+      : await this.backends.searchPhones(query);
+
+    return {
+      total: phones.length,
+      phones: phones.slice(0, MAX_SEARCH_RESULTS).map(phone => this.summarizePhone(phone)),
+    };
+  }
+
+  private async comparePhones(parameters: Record<string, any>) {
+    const phoneIds: string[] = Array.isArray(parameters.phoneIds) ? parameters.phoneIds : [];
+
+    if (phoneIds.length < 2) {
+      throw new Error('At least two phone IDs are required for comparison');
+    }
+    if (phoneIds.length > MAX_COMPARED_PHONES) {
+      throw new Error(`At most ${MAX_COMPARED_PHONES} phones can be compared at once`);
+    }
+
+    const phones = await Promise.all(phoneIds.map(id => this.resolvePhone(id)));
+
+    // Three or more phones are ranked together rather than head to head
+    if (phones.length > 2) {
+      const comparison = await this.backends.compareMultiplePhones(phones);
+
+      return {
+        phones: phones.map(phone => this.summarizePhone(phone)),
+        rankings: comparison.rankings,
+        scores: comparison.scores,
+        categories: comparison.categories.map(category => ({
+          name: category.name,
+          winner: category.winner,
+        })),
+        insights: comparison.insights,
+        summary: comparison.summary,
+      };
+    }
+
+    const [phone1, phone2] = phones;
+    const comparison = await this.backends.comparePhones(phone1, phone2);
+
+    return {
+      phones: [this.summarizePhone(phone1), this.summarizePhone(phone2)],
+      overallWinner: comparison.overallWinner,
+      scores: comparison.scores,
+      categories: comparison.categories.map(category => ({
+        name: category.name,
+        winner: category.winner,
+      })),
+      insights: comparison.insights,
+      summary: comparison.summary,
+    };
+  }
+
+  private async checkPhonePrice(parameters: Record<string, any>) {
+    if (!parameters.phoneId) {
+      throw new Error('phoneId is required');
+    }
+
+    const phone = await this.resolvePhone(parameters.phoneId);
+    const region = parseRegion(parameters.region);
+
+    // Retailer integrations only cover the default region; elsewhere use the
+    // phone's regional listing or a converted price
+    if (region !== DEFAULT_REGION) {
+      const pricing = getRegionalPricing(phone, region);
+      return {
+        phone: this.summarizePhone(phone),
+        region,
+        source: pricing.converted ? 'converted' : 'regional',
+        currentPrice: pricing.currentPrice,
+        mrp: pricing.mrp,
+        currency: pricing.currency,
+        ...(pricing.converted && { exchangeRatesUpdatedAt: EXCHANGE_RATES.updatedAt }),
+      };
+    }
+
+    const priceData = await this.backends.getPhonePrices(phone.brand, phone.model, phone.variant);
+
+    // Fall back to catalog pricing when live retailer data is unavailable
+    if (!priceData) {
+      return {
+        phone: this.summarizePhone(phone),
+        region,
+        source: 'catalog',
+        currentPrice: phone.pricing.currentPrice,
+        mrp: phone.pricing.mrp,
+        currency: phone.pricing.currency,
+      };
+    }
+
+    return {
+      phone: this.summarizePhone(phone),
+      region,
+      source: 'retailers',
+      lowestPrice: priceData.lowestPrice,
+      averagePrice: priceData.averagePrice,
+      highestPrice: priceData.highestPrice,
+      offers: priceData.prices.slice(0, 5).map(price => ({
+        retailer: price.retailer,
+        price: price.price,
+        currency: price.currency,
+        availability: price.availability,
+      })),
+    };
+  }
+
+  /**
+   * Look up catalog phones by ID, skipping any that cannot be found or loaded
+   */
+  async getPhones(ids: string[]): Promise<Phone[]> {
+    const phones = await Promise.all(ids.map(id =>
+      this.backends.getPhoneById(id).catch(error => {
+        console.warn(`⚠️  Could not load phone ${id}:`, error instanceof Error ? error.message : error);
+        return null;
+      })
+    ));
+
+    return phones.filter((phone): phone is Phone => phone !== null);
+  }
+
+  /**
+   * Resolve a phone by catalog ID, falling back to a name search
+   */
+  private async resolvePhone(idOrName: string): Promise<Phone> {
+    const phone = await this.backends.getPhoneById(idOrName)
+      || (await this.backends.searchPhones(idOrName))[0];
+
+    if (!phone) {
+      throw new Error(`Phone not found: ${idOrName}`);
+    }
+
+    return phone;
+  }
+
+  private summarizePhone(phone: Phone) {
+    const specs = phone.specifications;
+
+    return {
+      id: phone.id,
+      name: [phone.brand, phone.model, phone.variant].filter(Boolean).join(' '),
+      price: phone.pricing.currentPrice,
+      currency: phone.pricing.currency,
+      availability: phone.availability,
+      display: specs?.display ? `${specs.display.size} ${specs.display.type}` : undefined,
+      processor: specs?.performance?.processor,
+      battery: specs?.battery?.capacity,
+      mainCamera: specs?.camera?.rear?.[0]?.megapixels,
+    };
+  }
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../../phone.js', () => ({ phoneService: {} }));
+
+import { ChatFlowController, applyChatFlow, describeChatFlow } from '../controller.js';
+import { ChatFlowCatalog } from '../types.js';
+import { ChatContext } from '../../../types/chat.js';
+
+const catalogPhones = [
+  { id: 's24', brand: 'Samsung', model: 'Galaxy S24' },
+  { id: 'pixel-8', brand: 'Google', model: 'Pixel 8' },
+];
+
+const catalog: ChatFlowCatalog = {
+  findBrand: vi.fn(async (text: string) => ['Samsung', 'Google'].find(brand => text.includes(brand)) ?? null),
+  findPhone: vi.fn(async (brand: string, model: string) =>
+    catalogPhones.find(phone => phone.brand === brand && phone.model === model) ?? null
+  ),
+};
+
+const createContext = (): ChatContext => ({
+  sessionId: 'session-1',
+  conversationHistory: [],
+  currentStep: 'brand_selection',
+  selectedPhones: [],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+describe('ChatFlowController', () => {
+  let controller: ChatFlowController;
+
+  beforeEach(() => {
+    controller = new ChatFlowController(catalog);
+  });
+
+  it('should select catalog brands and phones named in a message', async () => {
+    const brand = await controller.handleSelection(createContext(), 'Show me Samsung phones');
+    expect(brand.state).toMatchObject({ currentStep: 'model_selection', selectedBrand: 'Samsung' });
+
+    const phone = await controller.handleSelection(
+      applyChatFlow(createContext(), brand),
+      'The Galaxy S24',
+      { brand: 'Samsung', model: 'Galaxy S24' }
+    );
+    expect(phone.state).toEqual({ currentStep: 'brand_selection', selectedPhones: ['s24'] });
+    expect(phone.history).toHaveLength(2);
+  });
+
+  it('should refuse phones missing from the catalog', async () => {
+    const outcome = await controller.handleSelection(createContext(), 'Nokia 3310', { brand: 'Nokia', model: '3310' });
+
+    expect(outcome.rejected).toEqual({ code: 'PHONE_NOT_FOUND', message: 'Nokia 3310 is not in our catalog' });
+    expect(outcome.state).toEqual({ currentStep: 'brand_selection', selectedPhones: [] });
+  });
+
+  it('should leave the flow alone for messages without selections', async () => {
+    const outcome = await controller.handleSelection(createContext(), 'What is a good budget?');
+
+    expect(outcome.transition).toBeUndefined();
+    expect(outcome.history).toEqual([]);
+  });
+
+  it('should answer navigation without the AI', async () => {
+    const context = { ...createContext(), currentStep: 'comparison' as const, selectedPhones: ['s24', 'pixel-8'] };
+
+    expect(await controller.handleNavigation(context, 'Which one has the better camera?')).toBeNull();
+
+    const outcome = await controller.handleNavigation(context, 'change phone 2');
+    expect(outcome?.state.replacingSlot).toBe(1);
+    expect(describeChatFlow(outcome!)).toMatchObject({
+      message: 'Which phone should replace phone 2? Tell me a brand or a model.',
+      nextStep: 'brand_selection',
+    });
+  });
+
+  it('should report refused navigation with the current prompt', async () => {
+    const outcome = await controller.handleAction(createContext(), { type: 'undo' });
+
+    expect(outcome.rejected?.code).toBe('NOTHING_TO_UNDO');
+    expect(describeChatFlow(outcome).message).toBe('Nothing to undo. Which brand are you interested in?');
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ChatFlowError,
+  MAX_FLOW_HISTORY,
+  applyFlowAction,
+  createInitialFlowState,
+  parseFlowHistory,
+  transition
+} from '../machine.js';
+import { detectFlowIntent } from '../intents.js';
+import { ChatFlowState } from '../../../types/chat.js';
+
+const at = new Date('2024-10-01T10:00:00Z');
+const twoPhones: ChatFlowState = { currentStep: 'comparison', selectedPhones: ['s24', 'pixel-8'] };
+
+describe('chat flow machine', () => {
+  it('should walk from brand to a two-phone comparison', () => {
+    let state = createInitialFlowState();
+
+    state = transition(state, { type: 'select_brand', brand: 'Samsung' });
+    expect(state).toEqual({ currentStep: 'model_selection', selectedBrand: 'Samsung', selectedPhones: [] });
+
+    state = transition(state, { type: 'select_phone', phoneId: 's24' });
+    expect(state).toEqual({ currentStep: 'brand_selection', selectedPhones: ['s24'] });
+
+    state = transition(state, { type: 'select_phone', phoneId: 'pixel-8' });
+    expect(state).toEqual(twoPhones);
+  });
+
+  it('should refuse selections that skip or repeat steps', () => {
+    expect(() => transition(twoPhones, { type: 'select_brand', brand: 'Apple' })).toThrow(ChatFlowError);
+    expect(() => transition({ currentStep: 'brand_selection', selectedPhones: ['s24'] }, {
+      type: 'select_phone', phoneId: 's24', name: 'Samsung Galaxy S24',
+    })).toThrow('Samsung Galaxy S24 is already selected');
+  });
+
+  it('should swap one phone after change phone', () => {
+    const changing = transition(twoPhones, { type: 'change_phone', slot: 1 });
+    expect(changing).toEqual({ currentStep: 'brand_selection', selectedPhones: ['s24', 'pixel-8'], replacingSlot: 1 });
+
+    expect(transition(changing, { type: 'select_phone', phoneId: 'iphone-15' })).toEqual({
+      currentStep: 'comparison',
+      selectedPhones: ['s24', 'iphone-15'],
+    });
+    expect(() => transition(twoPhones, { type: 'change_phone', slot: 2 })).toThrow('There is no phone 3 to change');
+  });
+
+  it('should go back one step at a time', () => {
+    const changing = transition(twoPhones, { type: 'change_phone', slot: 0 });
+    expect(transition(changing, { type: 'go_back' })).toEqual(twoPhones);
+
+    const oneLeft = transition(twoPhones, { type: 'go_back' });
+    expect(oneLeft).toEqual({ currentStep: 'brand_selection', selectedPhones: ['s24'] });
+
+    const brand = transition(createInitialFlowState(), { type: 'select_brand', brand: 'Apple' });
+    expect(transition(brand, { type: 'go_back' })).toEqual(createInitialFlowState());
+
+    expect(() => transition(createInitialFlowState(), { type: 'go_back' })).toThrow('Already at the first step');
+  });
+
+  it('should undo transitions in reverse order', () => {
+    let flow = { state: createInitialFlowState(), history: [] as ReturnType<typeof parseFlowHistory> };
+    flow = applyFlowAction(flow, { type: 'select_brand', brand: 'Samsung' }, at);
+    flow = applyFlowAction(flow, { type: 'select_phone', phoneId: 's24' }, at);
+    flow = applyFlowAction(flow, { type: 'start_over' }, at);
+    expect(flow.history).toHaveLength(3);
+
+    flow = applyFlowAction(flow, { type: 'undo' }, at);
+    expect(flow.state).toEqual({ currentStep: 'brand_selection', selectedPhones: ['s24'] });
+
+    flow = applyFlowAction(flow, { type: 'undo' }, at);
+    flow = applyFlowAction(flow, { type: 'undo' }, at);
+    expect(flow).toEqual({ state: createInitialFlowState(), history: [] });
+    expect(() => applyFlowAction(flow, { type: 'undo' }, at)).toThrow('Nothing to undo');
+  });
+
+  it('should skip no-op actions and cap the history', () => {
+    const flow = { state: createInitialFlowState(), history: [] };
+    expect(applyFlowAction(flow, { type: 'start_over' }, at)).toBe(flow);
+
+    let long = { state: createInitialFlowState(), history: [] as ReturnType<typeof parseFlowHistory> };
+    for (let i = 0; i < MAX_FLOW_HISTORY + 5; i++) {
+      long = applyFlowAction(long, { type: 'select_brand', brand: i % 2 ? 'Apple' : 'Samsung' }, at);
+    }
+    expect(long.history).toHaveLength(MAX_FLOW_HISTORY);
+  });
+
+  it('should read stored history and drop malformed entries', () => {
+    const stored = JSON.parse(JSON.stringify(
+      applyFlowAction({ state: createInitialFlowState(), history: [] }, { type: 'select_brand', brand: 'Apple' }, at).history
+    ));
+
+    expect(parseFlowHistory(stored)[0].at).toEqual(at);
+    expect(parseFlowHistory([{ action: { type: 'jump' } }])).toEqual([]);
+    expect(parseFlowHistory(null)).toEqual([]);
+  });
+});
+
+describe('detectFlowIntent', () => {
+  it('should read navigation from plain text', () => {
+    expect(detectFlowIntent('undo that')).toEqual({ type: 'undo' });
+    expect(detectFlowIntent("Let's start over")).toEqual({ type: 'start_over' });
+    expect(detectFlowIntent('change phone 2')).toEqual({ type: 'change_phone', slot: 1 });
+    expect(detectFlowIntent('Can I swap the first phone?')).toEqual({ type: 'change_phone', slot: 0 });
+    expect(detectFlowIntent('go back')).toEqual({ type: 'go_back' });
+    expect(detectFlowIntent('Back')).toEqual({ type: 'go_back' });
+  });
+
+  it('should ignore ordinary questions', () => {
+    expect(detectFlowIntent('How good is the back camera?')).toBeNull();
+    expect(detectFlowIntent('Samsung Galaxy S24 please')).toBeNull();
+    expect(detectFlowIntent('Which phone has faster charging?')).toBeNull();
+  });
+});
@@ -0,0 +1,26 @@
+import { phoneService } from '../phone.js';
+import { ChatFlowCatalog } from './types.js';
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Catalog lookups backed by PhoneService
+ * Brand names are matched as whole words, longest first, so a brand whose
+ * name contains another's is not mistaken for it.
+ */
+export const phoneCatalog: ChatFlowCatalog = {
+  async findBrand(text) {
+    const brands = await phoneService.getAllBrands();
+    const match = brands
+      .map(brand => brand.name)
+      .sort((a, b) => b.length - a.length)
+      .find(name => new RegExp(`\\b${escapeRegExp(name)}\\b`, 'i').test(text));
+
+    return match ?? null;
+  },
+
+  async findPhone(brand, model) {
+    const phone = await phoneService.getPhoneByModel(brand, model);
+    return phone ? { id: phone.id, brand: phone.brand, model: phone.model } : null;
+  },
+};
@@ -0,0 +1,124 @@
+import { AIResponse, ChatContext, ChatFlowAction, ChatFlowNavigation } from '../../types/chat.js';
+import { PhoneSelection } from '../../types/phone.js';
+import { phoneCatalog } from './catalog.js';
+import { detectFlowIntent } from './intents.js';
+import { ChatFlowError, MAX_CHAT_PHONES, applyFlowAction, getChatFlow } from './machine.js';
+import { ChatFlow, ChatFlowCatalog, ChatFlowOutcome } from './types.js';
+
+/**
+ * Server side of the chat flow
+ * Navigation ("go back", "change phone 2") is handled without the AI;
+ * brands and phones named in a message are checked against the catalog
+ * before they are selected. The AI reply never moves the step.
+ */
+export class ChatFlowController {
+  constructor(private readonly catalog: ChatFlowCatalog = phoneCatalog) {}
+
+  /**
+   * Apply the navigation a message asks for, or null when it asks for none
+   */
+  async handleNavigation(context: ChatContext, message: string): Promise<ChatFlowOutcome | null> {
+    const navigation = detectFlowIntent(message);
+    return navigation ? this.apply(getChatFlow(context), navigation) : null;
+  }
+
+  /**
+   * Select the phone or brand a message names
+   * `selection` is the phone extracted from the message, if any. Messages
+   * naming neither a catalog phone nor a new catalog brand leave the flow
+   * as it is.
+   */
+  async handleSelection(context: ChatContext, message: string, selection?: PhoneSelection | null): Promise<ChatFlowOutcome> {
+    const flow = getChatFlow(context);
+
+    if (selection) {
+      const phone = await this.catalog.findPhone(selection.brand, selection.model);
+      if (!phone) {
+        return {
+          ...flow,
+          rejected: { code: 'PHONE_NOT_FOUND', message: `${selection.brand} ${selection.model} is not in our catalog` },
+        };
+      }
+      return this.apply(flow, { type: 'select_phone', phoneId: phone.id, name: `${phone.brand} ${phone.model}` });
+    }
+
+    const brand = await this.catalog.findBrand(message);
+    if (brand && brand !== flow.state.selectedBrand) {
+      return this.apply(flow, { type: 'select_brand', brand });
+    }
+
+    return flow;
+  }
+
+  /**
+   * Apply a navigation action sent from the UI
+   */
+  async handleAction(context: ChatContext, action: ChatFlowNavigation): Promise<ChatFlowOutcome> {
+    return this.apply(getChatFlow(context), action);
+  }
+
+  private apply(flow: ChatFlow, action: ChatFlowAction): ChatFlowOutcome {
+    try {
+      return { ...applyFlowAction(flow, action), action };
+    } catch (error) {
+      if (error instanceof ChatFlowError) {
+        return { ...flow, action, rejected: { code: error.code, message: error.message } };
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Context after a flow outcome, for the next request
+ */
+export function applyChatFlow(context: ChatContext, flow: ChatFlow): ChatContext {
+  return {
+    ...context,
+    currentStep: flow.state.currentStep,
+    selectedBrand: flow.state.selectedBrand,
+    selectedPhones: flow.state.selectedPhones,
+    replacingSlot: flow.state.replacingSlot,
+    flowHistory: flow.history,
+  };
+}
+
+/**
+ * AI reply with the step and flow the server settled on
+ */
+export function withChatFlow(response: AIResponse, outcome: ChatFlowOutcome): AIResponse {
+  return {
+    ...response,
+    nextStep: outcome.state.currentStep,
+    flow: { state: outcome.state, history: outcome.history, rejected: outcome.rejected },
+  };
+}
+
+/**
+ * Reply to a navigation message, which is answered without the AI
+ */
+export function describeChatFlow(outcome: ChatFlowOutcome): AIResponse {
+  const { state, rejected, action } = outcome;
+  const prefix = action?.type === 'undo' && !rejected ? 'Undone. ' : '';
+
+  let prompt: string;
+  if (state.replacingSlot !== undefined) {
+    prompt = `Which phone should replace phone ${state.replacingSlot + 1}? Tell me a brand or a model.`;
+  } else if (state.currentStep === 'model_selection') {
+    prompt = `Which ${state.selectedBrand} model are you looking at?`;
+  } else if (state.selectedPhones.length >= MAX_CHAT_PHONES) {
+    prompt = 'Both phones are chosen, ready to compare.';
+  } else if (state.selectedPhones.length > 0) {
+    prompt = 'Which brand is the other phone from?';
+  } else {
+    prompt = 'Which brand are you interested in?';
+  }
+
+  return withChatFlow({
+    message: rejected ? `${rejected.message}. ${prompt}` : `${prefix}${prompt}`,
+    confidence: 1,
+  }, outcome);
+}
+
+// Export singleton instance
+export const chatFlowController = new ChatFlowController();
@@ -0,0 +1,20 @@
+export * from './types.js';
+export {
+  MAX_CHAT_PHONES,
+  MAX_FLOW_HISTORY,
+  ChatFlowError,
+  createInitialFlowState,
+  getChatFlow,
+  parseFlowHistory,
+  transition,
+  applyFlowAction,
+} from './machine.js';
+export { detectFlowIntent } from './intents.js';
+export { phoneCatalog } from './catalog.js';
+export {
+  ChatFlowController,
+  chatFlowController,
+  applyChatFlow,
+  withChatFlow,
+  describeChatFlow,
+} from './controller.js';
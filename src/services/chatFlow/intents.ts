@@ -0,0 +1,42 @@
+import { ChatFlowNavigation } from '../../types/chat.js';
+
+const ORDINALS: Record<string, number> = {
+  '1': 0, one: 0, first: 0,
+  '2': 1, two: 1, second: 1,
+};
+
+const UNDO = /\bundo\b/i;
+const START_OVER = /\b(start (over|again|afresh)|restart|reset|from scratch|begin again)\b/i;
+const GO_BACK = /\b(go|step|take me) back\b|^\s*back\s*[.!]?\s*$|\bprevious step\b/i;
+const CHANGE_VERB = /\b(change|swap|replace|switch)\b/i;
+const PHONE_AFTER = /\bphone\s*(1|2|one|two)\b/i;
+const ORDINAL_BEFORE = /\b(first|second)\s+(phone|one|device)\b/i;
+
+/**
+ * Navigation the user asks for in plain text, e.g. "go back", "undo",
+ * "start over" or "change phone 2"
+ * Returns null for anything else, including phone and brand mentions.
+ */
+export function detectFlowIntent(message: string): ChatFlowNavigation | null {
+  const text = message.trim();
+
+  if (UNDO.test(text)) {
+    return { type: 'undo' };
+  }
+  if (START_OVER.test(text)) {
+    return { type: 'start_over' };
+  }
+
+  if (CHANGE_VERB.test(text)) {
+    const slot = text.match(PHONE_AFTER)?.[1] ?? text.match(ORDINAL_BEFORE)?.[1];
+    if (slot) {
+      return { type: 'change_phone', slot: ORDINALS[slot.toLowerCase()] };
+    }
+  }
+
+  if (GO_BACK.test(text)) {
+    return { type: 'go_back' };
+  }
+
+  return null;
+}
@@ -0,0 +1,170 @@
+import { z } from 'zod';
+import {
+  ChatContext,
+  ChatFlowAction,
+  ChatFlowState,
+  ChatFlowTransition,
+  ChatFlowTransitionSchema
+} from '../../types/chat.js';
+import { ChatFlow, ChatFlowErrorCode } from './types.js';
+
+// Phones a chat compares head to head
+export const MAX_CHAT_PHONES = 2;
+
+// Transitions kept for undo
+export const MAX_FLOW_HISTORY = 20;
+
+// JSON carries transition times as ISO strings
+const StoredFlowHistorySchema = z.array(ChatFlowTransitionSchema.extend({ at: z.coerce.date() }));
+
+/**
+ * Error raised when an action is not allowed from the current state
+ */
+export class ChatFlowError extends Error {
+  constructor(message: string, public readonly code: ChatFlowErrorCode) {
+    super(message);
+    this.name = 'ChatFlowError';
+  }
+}
+
+/**
+ * State of a new conversation
+ */
+export function createInitialFlowState(): ChatFlowState {
+  return { currentStep: 'brand_selection', selectedPhones: [] };
+}
+
+/**
+ * Flow state and history carried by a chat context
+ */
+export function getChatFlow(context: ChatContext): ChatFlow {
+  return {
+    state: {
+      currentStep: context.currentStep,
+      selectedBrand: context.selectedBrand,
+      selectedPhones: context.selectedPhones,
+      replacingSlot: context.replacingSlot,
+    },
+    history: context.flowHistory ?? [],
+  };
+}
+
+/**
+ * Transition history read back from JSON; anything malformed is dropped
+ * rather than failing the session
+ */
+export function parseFlowHistory(value: unknown): ChatFlowTransition[] {
+  const parsed = StoredFlowHistorySchema.safeParse(value ?? []);
+  return parsed.success ? parsed.data : [];
+}
+
+const isPicking = (state: ChatFlowState) =>
+  state.replacingSlot !== undefined || state.selectedPhones.length < MAX_CHAT_PHONES;
+
+/**
+ * Next state for an action, throwing ChatFlowError when it is not allowed
+ * Undo is not a transition of its own; see `applyFlowAction`.
+ */
+export function transition(state: ChatFlowState, action: ChatFlowAction): ChatFlowState {
+  switch (action.type) {
+    case 'select_brand':
+      if (!isPicking(state)) {
+        throw new ChatFlowError('Both phones are chosen; change one or start over to pick another brand', 'INVALID_TRANSITION');
+      }
+      return { ...state, currentStep: 'model_selection', selectedBrand: action.brand };
+
+    case 'select_phone': {
+      if (!isPicking(state)) {
+        throw new ChatFlowError('Both phones are chosen; change one or start over to pick another', 'INVALID_TRANSITION');
+      }
+      if (state.selectedPhones.some((id, slot) => id === action.phoneId && slot !== state.replacingSlot)) {
+        throw new ChatFlowError(`${action.name ?? 'That phone'} is already selected`, 'PHONE_ALREADY_SELECTED');
+      }
+
+      const selectedPhones = state.replacingSlot !== undefined
+        ? state.selectedPhones.map((id, slot) => (slot === state.replacingSlot ? action.phoneId : id))
+        : [...state.selectedPhones, action.phoneId];
+
+      return {
+        currentStep: selectedPhones.length >= MAX_CHAT_PHONES ? 'comparison' : 'brand_selection',
+        selectedPhones,
+      };
+    }
+
+    case 'change_phone':
+      if (state.selectedPhones[action.slot] === undefined) {
+        throw new ChatFlowError(`There is no phone ${action.slot + 1} to change`, 'NO_PHONE_IN_SLOT');
+      }
+      // The old phone stays until its replacement is chosen, so going back keeps it
+      return { currentStep: 'brand_selection', selectedPhones: state.selectedPhones, replacingSlot: action.slot };
+
+    case 'go_back':
+      return goBack(state);
+
+    case 'start_over':
+      return createInitialFlowState();
+
+    case 'undo':
+      throw new ChatFlowError('Undo is applied from the transition history', 'INVALID_TRANSITION');
+  }
+}
+
+/**
+ * One step back: cancel a phone change, leave the brand, or drop the
+ * last phone chosen
+ */
+function goBack(state: ChatFlowState): ChatFlowState {
+  if (state.replacingSlot !== undefined) {
+    return { currentStep: 'comparison', selectedPhones: state.selectedPhones };
+  }
+
+  switch (state.currentStep) {
+    case 'completed':
+      return { ...state, currentStep: 'comparison' };
+    case 'model_selection':
+      return { currentStep: 'brand_selection', selectedPhones: state.selectedPhones };
+    default:
+      if (state.selectedPhones.length === 0) {
+        throw new ChatFlowError('Already at the first step', 'NOTHING_TO_GO_BACK');
+      }
+      return { currentStep: 'brand_selection', selectedPhones: state.selectedPhones.slice(0, -1) };
+  }
+}
+
+const isSameState = (a: ChatFlowState, b: ChatFlowState) =>
+  a.currentStep === b.currentStep &&
+  a.selectedBrand === b.selectedBrand &&
+  a.replacingSlot === b.replacingSlot &&
+  a.selectedPhones.length === b.selectedPhones.length &&
+  a.selectedPhones.every((id, index) => id === b.selectedPhones[index]);
+
+/**
+ * Apply an action and record it in the history
+ * Undo pops the last transition and restores the state before it. Actions
+ * that leave the state as it was are not recorded.
+ */
+export function applyFlowAction(
+  flow: ChatFlow,
+  action: ChatFlowAction,
+  now: Date = new Date()
+): ChatFlow & { transition?: ChatFlowTransition } {
+  if (action.type === 'undo') {
+    const last = flow.history[flow.history.length - 1];
+    if (!last) {
+      throw new ChatFlowError('Nothing to undo', 'NOTHING_TO_UNDO');
+    }
+    return { state: last.from, history: flow.history.slice(0, -1) };
+  }
+
+  const next = transition(flow.state, action);
+  if (isSameState(flow.state, next)) {
+    return flow;
+  }
+
+  const record: ChatFlowTransition = { action, from: flow.state, to: next, at: now };
+  return {
+    state: next,
+    history: [...flow.history, record].slice(-MAX_FLOW_HISTORY),
+    transition: record,
+  };
+}
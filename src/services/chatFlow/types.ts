@@ -0,0 +1,47 @@
+import { ChatFlowAction, ChatFlowState, ChatFlowTransition } from '../../types/chat.js';
+
+/**
+ * Why the flow refused an action
+ */
+export type ChatFlowErrorCode =
+  | 'INVALID_TRANSITION'
+  | 'NOTHING_TO_GO_BACK'
+  | 'NOTHING_TO_UNDO'
+  | 'NO_PHONE_IN_SLOT'
+  | 'PHONE_ALREADY_SELECTED'
+  | 'BRAND_NOT_FOUND'
+  | 'PHONE_NOT_FOUND';
+
+/**
+ * Flow state with the transitions that led to it
+ */
+export interface ChatFlow {
+  state: ChatFlowState;
+  history: ChatFlowTransition[];
+}
+
+/**
+ * Catalog lookups used to validate selections before they enter the flow
+ */
+export interface ChatFlowCatalog {
+  /**
+   * Canonical name of the catalog brand named in the text, if any
+   */
+  findBrand(text: string): Promise<string | null>;
+
+  /**
+   * Catalog phone for a brand and model, if it exists
+   */
+  findPhone(brand: string, model: string): Promise<{ id: string; brand: string; model: string } | null>;
+}
+
+/**
+ * Result of running a message or UI action through the flow
+ * `transition` is set when the state moved; `rejected` when the action was
+ * refused, in which case the flow is returned unchanged.
+ */
+export interface ChatFlowOutcome extends ChatFlow {
+  action?: ChatFlowAction;
+  transition?: ChatFlowTransition;
+  rejected?: { code: ChatFlowErrorCode; message: string };
+}
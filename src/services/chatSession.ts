@@ -0,0 +1,193 @@
+import { ChatService, NotFoundError } from '../lib/services/index.js';
+import type { ChatSessionWithMessages } from '../lib/services/index.js';
+import {
+  ChatContext,
+  ChatLocale,
+  ChatLocaleSchema,
+  ChatMessage,
+  ChatMessageRole,
+  ChatStep,
+  ConversationSummary,
+  ConversationSummarySchema,
+  UserPreferences
+} from '../types/chat.js';
+import { parseFlowHistory } from './chatFlow/machine.js';
+import type { ChatFlow } from './chatFlow/types.js';
+
+type StoredChatStep = 'BRAND_SELECTION' | 'MODEL_SELECTION' | 'COMPARISON' | 'COMPLETED';
+type StoredMessageRole = 'USER' | 'ASSISTANT' | 'SYSTEM';
+
+/**
+ * Context fields that can change after a chat exchange
+ */
+export interface ChatContextUpdate {
+  currentStep?: ChatStep;
+  selectedBrand?: string;
+  selectedPhones?: string[];
+  flow?: ChatFlow; // Replaces the step and selections, including clearing them
+  preferences?: UserPreferences;
+  summary?: ConversationSummary;
+  locale?: ChatLocale;
+}
+
+/**
+ * Chat session persistence backed by ChatService
+ * Translates between the Prisma session/message records and `ChatContext`
+ * so any server instance can resume a conversation by its session ID.
+ */
+export class ChatSessionStore {
+  constructor(private readonly chatService: ChatService = new ChatService()) {}
+
+  /**
+   * Create and persist a new chat session
+   */
+  async create(sessionId: string, userId?: string): Promise<ChatContext> {
+    const session = await this.chatService.createChatSession({
+      sessionId,
+      userId,
+      currentStep: 'BRAND_SELECTION',
+      selectedPhones: [],
+    });
+
+    return this.toChatContext({ ...session, messages: [] });
+  }
+
+  /**
+   * Load a session with its full history, or null if it does not exist
+   */
+  async load(sessionId: string): Promise<ChatContext | null> {
+    try {
+      const session = await this.chatService.getChatSessionWithMessages(sessionId);
+      return session.isActive ? this.toChatContext(session) : null;
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Persist new messages and context changes for a session
+   */
+  async append(sessionId: string, messages: ChatMessage[], update: ChatContextUpdate = {}): Promise<void> {
+    const session = await this.chatService.getChatSession(sessionId);
+
+    for (const message of messages) {
+      await this.chatService.addMessage({
+        chatSessionId: session.id,
+        role: this.toStoredRole(message.role),
+        content: message.content,
+        metadata: { ...message.metadata, clientMessageId: message.id },
+      });
+    }
+
+    const { flow } = update;
+
+    await this.chatService.updateChatSession(sessionId, {
+      ...(flow
+        ? {
+            currentStep: this.toStoredStep(flow.state.currentStep),
+            selectedBrand: flow.state.selectedBrand ?? null,
+            selectedPhones: flow.state.selectedPhones,
+            replacingSlot: flow.state.replacingSlot ?? null,
+            flowHistory: JSON.parse(JSON.stringify(flow.history)),
+          }
+        : {
+            currentStep: update.currentStep ? this.toStoredStep(update.currentStep) : undefined,
+            selectedBrand: update.selectedBrand,
+            selectedPhones: update.selectedPhones,
+          }),
+      preferences: update.preferences,
+      contextSummary: update.summary,
+      locale: update.locale,
+    });
+  }
+
+  /**
+   * Mark a session inactive so it can no longer be resumed
+   */
+  async close(sessionId: string): Promise<void> {
+    await this.chatService.updateChatSession(sessionId, { isActive: false });
+  }
+
+  /**
+   * Deactivate sessions with no activity for the given number of days
+   */
+  async deactivateIdle(olderThanDays: number): Promise<number> {
+    return this.chatService.deactivateOldSessions(olderThanDays);
+  }
+
+  private toChatContext(session: ChatSessionWithMessages): ChatContext {
+    return {
+      sessionId: session.sessionId,
+      userId: session.userId || undefined,
+      conversationHistory: session.messages.map(message => {
+        const { clientMessageId, ...metadata } = (message.metadata as Record<string, any>) || {};
+
+        return {
+          id: clientMessageId || message.id,
+          role: this.fromStoredRole(message.role),
+          content: message.content,
+          timestamp: message.createdAt,
+          metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+        };
+      }),
+      currentStep: this.fromStoredStep(session.currentStep),
+      selectedBrand: session.selectedBrand || undefined,
+      selectedPhones: session.selectedPhones,
+      replacingSlot: session.replacingSlot ?? undefined,
+      flowHistory: parseFlowHistory(session.flowHistory),
+      preferences: (session.preferences as UserPreferences | null) || undefined,
+      summary: this.parseSummary(session.contextSummary),
+      locale: this.parseLocale(session.locale),
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt,
+    };
+  }
+
+  private parseSummary(value: unknown): ConversationSummary | undefined {
+    const parsed = ConversationSummarySchema.safeParse(value);
+    return parsed.success ? parsed.data : undefined;
+  }
+
+  private parseLocale(value: unknown): ChatLocale | undefined {
+    const parsed = ChatLocaleSchema.safeParse(value);
+    return parsed.success ? parsed.data : undefined;
+  }
+
+  private toStoredStep(step: ChatStep): StoredChatStep {
+    return step.toUpperCase() as StoredChatStep;
+  }
+
+  private fromStoredStep(step: string): ChatStep {
+    switch (step) {
+      case 'MODEL_SELECTION':
+        return 'model_selection';
+      case 'COMPARISON':
+        return 'comparison';
+      case 'COMPLETED':
+        return 'completed';
+      default:
+        return 'brand_selection';
+    }
+  }
+
+  private toStoredRole(role: ChatMessageRole): StoredMessageRole {
+    return role.toUpperCase() as StoredMessageRole;
+  }
+
+  private fromStoredRole(role: string): ChatMessageRole {
+    switch (role) {
+      case 'ASSISTANT':
+        return 'assistant';
+      case 'SYSTEM':
+        return 'system';
+      default:
+        return 'user';
+    }
+  }
+}
+
+// Export singleton instance
+export const chatSessionStore = new ChatSessionStore();
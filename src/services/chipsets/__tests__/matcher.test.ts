@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { ChipsetMatcher, normalizeProcessorName } from '../matcher.js';
+import { CHIPSETS } from '../catalog.js';
+
+describe('ChipsetMatcher', () => {
+  const matcher = new ChipsetMatcher();
+
+  it('should normalize GSMArena chipset strings', () => {
+    expect(normalizeProcessorName('Qualcomm SM8650-AB Snapdragon 8 Gen 3 (4 nm)')).toBe('sm8650 ab snapdragon 8 gen 3');
+    expect(normalizeProcessorName('Mediatek Dimensity 9300+ (4 nm)')).toBe('dimensity 9300 plus');
+    expect(normalizeProcessorName('SD 8gen2')).toBe('snapdragon 8 gen 2');
+  });
+
+  it('should match catalog names, aliases and strings that contain them', () => {
+    expect(matcher.match('Snapdragon 8 Gen 3')).toMatchObject({ kind: 'exact', confidence: 1, chipset: { id: 'sd-8-gen-3' } });
+    expect(matcher.match('Apple A16 Bionic (4 nm)')?.chipset.id).toBe('apple-a16');
+    expect(matcher.match('Qualcomm SM8650-AB Snapdragon 8 Gen 3 (4 nm)')).toMatchObject({ kind: 'contains', chipset: { id: 'sd-8-gen-3' } });
+    expect(matcher.match('Snapdragon 8 Gen 3 for Galaxy')?.chipset.id).toBe('sd-8-gen-3');
+  });
+
+  it('should not confuse sibling chips', () => {
+    expect(matcher.match('Snapdragon 8s Gen 3')?.chipset.id).toBe('sd-8s-gen-3');
+    expect(matcher.match('Snapdragon 8+ Gen 1')?.chipset.id).toBe('sd-8-plus-gen-1');
+    expect(matcher.match('Apple A18 Pro')?.chipset.id).toBe('apple-a18-pro');
+    expect(matcher.match('Apple A18')?.chipset.id).toBe('apple-a18');
+  });
+
+  it('should tolerate typos but not different model numbers', () => {
+    expect(matcher.match('Snapdargon 8 Gen 2')).toMatchObject({ kind: 'fuzzy', chipset: { id: 'sd-8-gen-2' } });
+    expect(matcher.match('Dimensty 8300')?.chipset.id).toBe('dimensity-8300');
+    expect(matcher.match('Dimensity 8100')?.kind).toBe('series');
+  });
+
+  it('should estimate unlisted chips from their family', () => {
+    const match = matcher.match('Snapdragon 8 Gen 4');
+
+    expect(match).toMatchObject({ kind: 'series', confidence: 0.5, chipset: { id: 'sd-8-elite' } });
+    expect(matcher.match('Kirin 9000S')).toBeNull();
+    expect(matcher.match('')).toBeNull();
+  });
+
+  it('should rank chipsets by benchmark performance', () => {
+    const index = (processor: string) => matcher.match(processor)!.performanceIndex;
+
+    expect(index('Snapdragon 8 Elite')).toBeGreaterThan(index('Snapdragon 8 Gen 3'));
+    expect(index('Snapdragon 8 Gen 3')).toBeGreaterThan(index('Tensor G3'));
+    expect(index('Snapdragon 7+ Gen 3')).toBeGreaterThan(index('Snapdragon 7s Gen 2'));
+    expect(index('Dimensity 9400')).toBeLessThanOrEqual(100);
+  });
+
+  it('should give every catalog entry a unique ID and resolve its own name', () => {
+    expect(new Set(CHIPSETS.map(chipset => chipset.id)).size).toBe(CHIPSETS.length);
+    CHIPSETS.forEach(chipset => {
+      expect(matcher.match(chipset.name)?.chipset.id).toBe(chipset.id);
+    });
+  });
+});
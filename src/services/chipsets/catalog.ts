@@ -0,0 +1,82 @@
+import { Chipset, ChipsetSeries } from './types.js';
+
+/**
+ * Catalog version; bump whenever entries or benchmark figures change so
+ * stored comparisons can tell which scores they were computed with
+ */
+export const CHIPSET_CATALOG_VERSION = '2024.10.1';
+
+export const CHIPSETS: Chipset[] = [
+  // Qualcomm
+  { id: 'sd-8-elite', vendor: 'qualcomm', name: 'Snapdragon 8 Elite', series: 'snapdragon-8', aliases: ['sm8750'], releaseYear: 2024, processNodeNm: 3, cpuScore: 9500, gpuScore: 6000, tier: 'flagship' },
+  { id: 'sd-8-gen-3', vendor: 'qualcomm', name: 'Snapdragon 8 Gen 3', series: 'snapdragon-8', aliases: ['sm8650'], releaseYear: 2023, processNodeNm: 4, cpuScore: 7000, gpuScore: 4900, tier: 'flagship' },
+  { id: 'sd-8s-gen-3', vendor: 'qualcomm', name: 'Snapdragon 8s Gen 3', series: 'snapdragon-8', aliases: ['sm8635'], releaseYear: 2024, processNodeNm: 4, cpuScore: 5000, gpuScore: 3700, tier: 'flagship' },
+  { id: 'sd-8-gen-2', vendor: 'qualcomm', name: 'Snapdragon 8 Gen 2', series: 'snapdragon-8', aliases: ['sm8550'], releaseYear: 2022, processNodeNm: 4, cpuScore: 5200, gpuScore: 3700, tier: 'flagship' },
+  { id: 'sd-8-plus-gen-1', vendor: 'qualcomm', name: 'Snapdragon 8+ Gen 1', series: 'snapdragon-8', aliases: ['sm8475'], releaseYear: 2022, processNodeNm: 4, cpuScore: 4500, gpuScore: 2900, tier: 'flagship' },
+  { id: 'sd-8-gen-1', vendor: 'qualcomm', name: 'Snapdragon 8 Gen 1', series: 'snapdragon-8', aliases: ['sm8450'], releaseYear: 2021, processNodeNm: 4, cpuScore: 3900, gpuScore: 2500, tier: 'flagship' },
+  { id: 'sd-888', vendor: 'qualcomm', name: 'Snapdragon 888', series: 'snapdragon-8', aliases: ['sm8350', 'snapdragon 888 plus'], releaseYear: 2020, processNodeNm: 5, cpuScore: 3600, gpuScore: 1900, tier: 'flagship' },
+  { id: 'sd-7-plus-gen-3', vendor: 'qualcomm', name: 'Snapdragon 7+ Gen 3', series: 'snapdragon-7', aliases: ['sm7675'], releaseYear: 2024, processNodeNm: 4, cpuScore: 5000, gpuScore: 3200, tier: 'upper-midrange' },
+  { id: 'sd-7-plus-gen-2', vendor: 'qualcomm', name: 'Snapdragon 7+ Gen 2', series: 'snapdragon-7', aliases: ['sm7475'], releaseYear: 2023, processNodeNm: 4, cpuScore: 4300, gpuScore: 2600, tier: 'upper-midrange' },
+  { id: 'sd-7-gen-3', vendor: 'qualcomm', name: 'Snapdragon 7 Gen 3', series: 'snapdragon-7', aliases: ['sm7550'], releaseYear: 2023, processNodeNm: 4, cpuScore: 3200, gpuScore: 1100, tier: 'midrange' },
+  { id: 'sd-7s-gen-2', vendor: 'qualcomm', name: 'Snapdragon 7s Gen 2', series: 'snapdragon-7', aliases: ['sm7435'], releaseYear: 2023, processNodeNm: 4, cpuScore: 2900, gpuScore: 700, tier: 'midrange' },
+  { id: 'sd-778g', vendor: 'qualcomm', name: 'Snapdragon 778G', series: 'snapdragon-7', aliases: ['sm7325', 'snapdragon 778g plus'], releaseYear: 2021, processNodeNm: 6, cpuScore: 2900, gpuScore: 1100, tier: 'upper-midrange' },
+  { id: 'sd-6-gen-1', vendor: 'qualcomm', name: 'Snapdragon 6 Gen 1', series: 'snapdragon-6', aliases: ['sm6450'], releaseYear: 2022, processNodeNm: 4, cpuScore: 2600, gpuScore: 800, tier: 'midrange' },
+  { id: 'sd-695', vendor: 'qualcomm', name: 'Snapdragon 695', series: 'snapdragon-6', aliases: ['sm6375'], releaseYear: 2021, processNodeNm: 6, cpuScore: 2000, gpuScore: 500, tier: 'midrange' },
+  { id: 'sd-685', vendor: 'qualcomm', name: 'Snapdragon 685', series: 'snapdragon-6', aliases: ['sm6225'], releaseYear: 2023, processNodeNm: 6, cpuScore: 1500, gpuScore: 200, tier: 'entry' },
+  { id: 'sd-4-gen-2', vendor: 'qualcomm', name: 'Snapdragon 4 Gen 2', series: 'snapdragon-4', aliases: ['sm4450'], releaseYear: 2023, processNodeNm: 4, cpuScore: 1700, gpuScore: 250, tier: 'entry' },
+
+  // MediaTek
+  { id: 'dimensity-9400', vendor: 'mediatek', name: 'Dimensity 9400', series: 'dimensity-9', aliases: ['mt6991'], releaseYear: 2024, processNodeNm: 3, cpuScore: 8800, gpuScore: 6000, tier: 'flagship' },
+  { id: 'dimensity-9300', vendor: 'mediatek', name: 'Dimensity 9300', series: 'dimensity-9', aliases: ['mt6989', 'dimensity 9300 plus'], releaseYear: 2023, processNodeNm: 4, cpuScore: 7300, gpuScore: 4800, tier: 'flagship' },
+  { id: 'dimensity-9200', vendor: 'mediatek', name: 'Dimensity 9200', series: 'dimensity-9', aliases: ['mt6985', 'dimensity 9200 plus'], releaseYear: 2022, processNodeNm: 4, cpuScore: 5300, gpuScore: 3300, tier: 'flagship' },
+  { id: 'dimensity-9000', vendor: 'mediatek', name: 'Dimensity 9000', series: 'dimensity-9', aliases: ['mt6983', 'dimensity 9000 plus'], releaseYear: 2021, processNodeNm: 4, cpuScore: 4200, gpuScore: 2500, tier: 'flagship' },
+  { id: 'dimensity-8300', vendor: 'mediatek', name: 'Dimensity 8300', series: 'dimensity-8', aliases: ['mt6897', 'dimensity 8300 ultra'], releaseYear: 2023, processNodeNm: 4, cpuScore: 4400, gpuScore: 2400, tier: 'upper-midrange' },
+  { id: 'dimensity-8200', vendor: 'mediatek', name: 'Dimensity 8200', series: 'dimensity-8', aliases: ['mt6896', 'dimensity 8200 ultra'], releaseYear: 2022, processNodeNm: 4, cpuScore: 3800, gpuScore: 1800, tier: 'upper-midrange' },
+  { id: 'dimensity-7200', vendor: 'mediatek', name: 'Dimensity 7200', series: 'dimensity-7', aliases: ['mt6886', 'dimensity 7200 pro', 'dimensity 7200 ultra'], releaseYear: 2023, processNodeNm: 4, cpuScore: 2900, gpuScore: 900, tier: 'midrange' },
+  { id: 'dimensity-7050', vendor: 'mediatek', name: 'Dimensity 7050', series: 'dimensity-7', aliases: ['mt6877v'], releaseYear: 2023, processNodeNm: 6, cpuScore: 2200, gpuScore: 600, tier: 'midrange' },
+  { id: 'dimensity-6100-plus', vendor: 'mediatek', name: 'Dimensity 6100+', series: 'dimensity-6', aliases: ['mt6835'], releaseYear: 2023, processNodeNm: 6, cpuScore: 1700, gpuScore: 300, tier: 'entry' },
+  { id: 'helio-g99', vendor: 'mediatek', name: 'Helio G99', series: 'helio-g', aliases: ['mt6789'], releaseYear: 2022, processNodeNm: 6, cpuScore: 2000, gpuScore: 400, tier: 'entry' },
+  { id: 'helio-g85', vendor: 'mediatek', name: 'Helio G85', series: 'helio-g', aliases: ['mt6769v'], releaseYear: 2020, processNodeNm: 12, cpuScore: 1300, gpuScore: 250, tier: 'entry' },
+
+  // Apple
+  { id: 'apple-a18-pro', vendor: 'apple', name: 'A18 Pro', series: 'apple-a', aliases: [], releaseYear: 2024, processNodeNm: 3, cpuScore: 8500, gpuScore: 4900, tier: 'flagship' },
+  { id: 'apple-a18', vendor: 'apple', name: 'A18', series: 'apple-a', aliases: [], releaseYear: 2024, processNodeNm: 3, cpuScore: 8100, gpuScore: 4400, tier: 'flagship' },
+  { id: 'apple-a17-pro', vendor: 'apple', name: 'A17 Pro', series: 'apple-a', aliases: ['a17'], releaseYear: 2023, processNodeNm: 3, cpuScore: 7200, gpuScore: 4000, tier: 'flagship' },
+  { id: 'apple-a16', vendor: 'apple', name: 'A16 Bionic', series: 'apple-a', aliases: ['a16'], releaseYear: 2022, processNodeNm: 4, cpuScore: 6300, gpuScore: 3300, tier: 'flagship' },
+  { id: 'apple-a15', vendor: 'apple', name: 'A15 Bionic', series: 'apple-a', aliases: ['a15'], releaseYear: 2021, processNodeNm: 5, cpuScore: 5400, gpuScore: 2600, tier: 'flagship' },
+  { id: 'apple-a14', vendor: 'apple', name: 'A14 Bionic', series: 'apple-a', aliases: ['a14'], releaseYear: 2020, processNodeNm: 5, cpuScore: 4200, gpuScore: 2000, tier: 'flagship' },
+
+  // Google
+  { id: 'tensor-g4', vendor: 'google', name: 'Tensor G4', series: 'tensor', aliases: ['google tensor g4'], releaseYear: 2024, processNodeNm: 4, cpuScore: 4100, gpuScore: 2600, tier: 'flagship' },
+  { id: 'tensor-g3', vendor: 'google', name: 'Tensor G3', series: 'tensor', aliases: ['google tensor g3'], releaseYear: 2023, processNodeNm: 4, cpuScore: 4300, gpuScore: 2300, tier: 'flagship' },
+  { id: 'tensor-g2', vendor: 'google', name: 'Tensor G2', series: 'tensor', aliases: ['google tensor g2'], releaseYear: 2022, processNodeNm: 5, cpuScore: 3300, gpuScore: 1900, tier: 'flagship' },
+
+  // Samsung
+  { id: 'exynos-2400', vendor: 'samsung', name: 'Exynos 2400', series: 'exynos-2', aliases: ['exynos 2400e'], releaseYear: 2024, processNodeNm: 4, cpuScore: 6600, gpuScore: 4200, tier: 'flagship' },
+  { id: 'exynos-1480', vendor: 'samsung', name: 'Exynos 1480', series: 'exynos-1', aliases: [], releaseYear: 2024, processNodeNm: 4, cpuScore: 3400, gpuScore: 1400, tier: 'midrange' },
+  { id: 'exynos-1380', vendor: 'samsung', name: 'Exynos 1380', series: 'exynos-1', aliases: [], releaseYear: 2023, processNodeNm: 5, cpuScore: 2800, gpuScore: 800, tier: 'midrange' },
+
+  // Unisoc
+  { id: 'unisoc-t612', vendor: 'unisoc', name: 'Unisoc T612', series: 'unisoc-t', aliases: ['t612'], releaseYear: 2022, processNodeNm: 12, cpuScore: 1300, gpuScore: 150, tier: 'entry' },
+];
+
+/**
+ * Chipset families, used to estimate chips that are newer than the catalog
+ * Patterns run against normalized processor strings.
+ */
+export const CHIPSET_SERIES: ChipsetSeries[] = [
+  { series: 'snapdragon-8', pattern: /\bsnapdragon 8(s)?( plus)?( gen| elite|\b)/ },
+  { series: 'snapdragon-7', pattern: /\bsnapdragon 7(s)?( plus)?( gen|\d\d)/ },
+  { series: 'snapdragon-6', pattern: /\bsnapdragon 6(s)?( gen|\d\d)/ },
+  { series: 'snapdragon-4', pattern: /\bsnapdragon 4(s)?( gen|\d\d)/ },
+  { series: 'dimensity-9', pattern: /\bdimensity 9\d{3}\b/ },
+  { series: 'dimensity-8', pattern: /\bdimensity 8\d{3}\b/ },
+  { series: 'dimensity-7', pattern: /\bdimensity 7\d{3}\b/ },
+  { series: 'dimensity-6', pattern: /\bdimensity 6\d{3}\b/ },
+  { series: 'helio-g', pattern: /\bhelio g\d+/ },
+  { series: 'apple-a', pattern: /\ba\d{2}\b/ },
+  { series: 'tensor', pattern: /\btensor\b/ },
+  { series: 'exynos-2', pattern: /\bexynos 2\d{3}\b/ },
+  { series: 'exynos-1', pattern: /\bexynos 1\d{3}\b/ },
+  { series: 'unisoc-t', pattern: /\bunisoc\b|\bt\d{3}\b/ },
+];
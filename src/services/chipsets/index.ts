@@ -0,0 +1,3 @@
+export * from './types.js';
+export { CHIPSETS, CHIPSET_SERIES, CHIPSET_CATALOG_VERSION } from './catalog.js';
+export { ChipsetMatcher, chipsetMatcher, normalizeProcessorName } from './matcher.js';
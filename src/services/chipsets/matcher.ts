@@ -0,0 +1,194 @@
+import { CHIPSETS, CHIPSET_SERIES } from './catalog.js';
+import { Chipset, ChipsetMatch, ChipsetMatchKind, ChipsetSeries } from './types.js';
+
+// Vendor and marketing words that do not help identify a chipset
+const NOISE_WORDS = /\b(qualcomm|mediatek|apple|google|samsung|bionic|mobile platform|processor|chipset|soc|octa[- ]core|5g)\b/g;
+
+// CPU weighs more than GPU in the performance index
+const CPU_WEIGHT = 0.6;
+const GPU_WEIGHT = 0.4;
+
+const CONTAINS_CONFIDENCE = 0.9;
+const FUZZY_THRESHOLD = 0.75;
+const FUZZY_CONFIDENCE_SCALE = 0.9;
+const SERIES_CONFIDENCE = 0.5;
+
+interface CatalogKey {
+  key: string;
+  tokens: string[];
+  chipset: Chipset;
+}
+
+/**
+ * Normalize a processor string from GSMArena or the database for matching
+ * e.g. "Qualcomm SM8650-AB Snapdragon 8 Gen 3 (4 nm)" -> "sm8650 ab snapdragon 8 gen 3"
+ */
+export function normalizeProcessorName(processor: string): string {
+  return processor
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, ' ')
+    .replace(/\+/g, ' plus ')
+    .replace(NOISE_WORDS, ' ')
+    .replace(/\b(snapdragon|dimensity|helio|exynos|tensor)(?=\d)/g, '$1 ')
+    .replace(/\bsd ?(?=\d)/g, 'snapdragon ')
+    .replace(/(\d)gen/g, '$1 gen')
+    .replace(/gen(\d)/g, 'gen $1')
+    .replace(/[^a-z0-9 ]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Resolves free-form processor strings to catalog chipsets
+ * Tries exact names and aliases, then names contained in the string, then
+ * typo-tolerant similarity, and finally the newest chip of a known family.
+ */
+export class ChipsetMatcher {
+  private readonly keys: CatalogKey[];
+  private readonly maxCpuScore: number;
+  private readonly maxGpuScore: number;
+  private readonly cache = new Map<string, ChipsetMatch | null>();
+
+  constructor(
+    private readonly chipsets: Chipset[] = CHIPSETS,
+    private readonly series: ChipsetSeries[] = CHIPSET_SERIES
+  ) {
+    this.keys = chipsets.flatMap(chipset =>
+      [chipset.name, ...chipset.aliases].map(name => {
+        const key = normalizeProcessorName(name);
+        return { key, tokens: key.split(' '), chipset };
+      })
+    );
+    this.maxCpuScore = Math.max(...chipsets.map(chipset => chipset.cpuScore));
+    this.maxGpuScore = Math.max(...chipsets.map(chipset => chipset.gpuScore));
+  }
+
+  /**
+   * Match a processor string, or null when it cannot be identified
+   */
+  match(processor: string): ChipsetMatch | null {
+    const normalized = normalizeProcessorName(processor || '');
+
+    if (!normalized) {
+      return null;
+    }
+
+    if (!this.cache.has(normalized)) {
+      this.cache.set(normalized, this.resolve(normalized));
+    }
+
+    return this.cache.get(normalized)!;
+  }
+
+  /**
+   * Relative performance of a chipset, 0-100 against the fastest in the catalog
+   */
+  getPerformanceIndex(chipset: Chipset): number {
+    return Math.round(100 * (
+      CPU_WEIGHT * chipset.cpuScore / this.maxCpuScore +
+      GPU_WEIGHT * chipset.gpuScore / this.maxGpuScore
+    ));
+  }
+
+  private resolve(normalized: string): ChipsetMatch | null {
+    const exact = this.keys.find(entry => entry.key === normalized);
+    if (exact) {
+      return this.toMatch(exact.chipset, 'exact', 1);
+    }
+
+    // Prefer the longest catalog name found in the string, so "A18 Pro" beats "A18"
+    const tokens = normalized.split(' ');
+    const contained = this.keys
+      .filter(entry => containsTokens(tokens, entry.tokens))
+      .sort((a, b) => b.tokens.length - a.tokens.length || b.key.length - a.key.length)[0];
+    if (contained) {
+      return this.toMatch(contained.chipset, 'contains', CONTAINS_CONFIDENCE);
+    }
+
+    const fuzzy = this.findFuzzy(normalized);
+    if (fuzzy) {
+      return fuzzy;
+    }
+
+    const family = this.series.find(entry => entry.pattern.test(normalized));
+    if (family) {
+      const newest = this.chipsets
+        .filter(chipset => chipset.series === family.series)
+        .sort((a, b) => b.releaseYear - a.releaseYear || b.cpuScore - a.cpuScore)[0];
+
+      if (newest) {
+        return this.toMatch(newest, 'series', SERIES_CONFIDENCE);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Typo-tolerant match; model numbers must agree exactly
+   */
+  private findFuzzy(normalized: string): ChipsetMatch | null {
+    const numbers = numericTokens(normalized);
+    let best: { entry: CatalogKey; similarity: number } | null = null;
+
+    for (const entry of this.keys) {
+      if (numericTokens(entry.key) !== numbers) continue;
+
+      const similarity = diceCoefficient(normalized, entry.key);
+      if (similarity >= FUZZY_THRESHOLD && (!best || similarity > best.similarity)) {
+        best = { entry, similarity };
+      }
+    }
+
+    return best
+      ? this.toMatch(best.entry.chipset, 'fuzzy', Math.round(best.similarity * FUZZY_CONFIDENCE_SCALE * 100) / 100)
+      : null;
+  }
+
+  private toMatch(chipset: Chipset, kind: ChipsetMatchKind, confidence: number): ChipsetMatch {
+    return {
+      chipset,
+      kind,
+      confidence,
+      performanceIndex: this.getPerformanceIndex(chipset),
+    };
+  }
+}
+
+function containsTokens(haystack: string[], needle: string[]): boolean {
+  for (let start = 0; start + needle.length <= haystack.length; start++) {
+    if (needle.every((token, index) => haystack[start + index] === token)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function numericTokens(text: string): string {
+  return text.split(' ').filter(token => /\d/.test(token)).join(' ');
+}
+
+function diceCoefficient(a: string, b: string): number {
+  const bigrams = (text: string) => {
+    const result = new Map<string, number>();
+    for (let i = 0; i < text.length - 1; i++) {
+      const bigram = text.slice(i, i + 2);
+      result.set(bigram, (result.get(bigram) || 0) + 1);
+    }
+    return result;
+  };
+
+  const first = bigrams(a);
+  const second = bigrams(b);
+  let overlap = 0;
+
+  first.forEach((count, bigram) => {
+    overlap += Math.min(count, second.get(bigram) || 0);
+  });
+
+  const total = Math.max(a.length - 1, 0) + Math.max(b.length - 1, 0);
+  return total === 0 ? 0 : (2 * overlap) / total;
+}
+
+// Export singleton instance
+export const chipsetMatcher = new ChipsetMatcher();
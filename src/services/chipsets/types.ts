@@ -0,0 +1,50 @@
+/**
+ * Chipset vendors covered by the catalog
+ */
+export type ChipsetVendor = 'qualcomm' | 'mediatek' | 'apple' | 'google' | 'samsung' | 'unisoc';
+
+/**
+ * Market tier a chipset was positioned for at launch
+ */
+export type ChipsetTier = 'flagship' | 'upper-midrange' | 'midrange' | 'entry';
+
+/**
+ * Catalog entry for a mobile chipset
+ * Benchmarks are representative sustained results: `cpuScore` is Geekbench 6
+ * multi-core and `gpuScore` is 3DMark Wild Life Extreme.
+ */
+export interface Chipset {
+  id: string;
+  vendor: ChipsetVendor;
+  name: string;
+  series: string;
+  aliases: string[];
+  releaseYear: number;
+  processNodeNm: number;
+  cpuScore: number;
+  gpuScore: number;
+  tier: ChipsetTier;
+}
+
+/**
+ * Pattern that recognizes a chipset family for strings not in the catalog
+ */
+export interface ChipsetSeries {
+  series: string;
+  pattern: RegExp;
+}
+
+/**
+ * How a processor string was resolved to a catalog entry
+ */
+export type ChipsetMatchKind = 'exact' | 'contains' | 'fuzzy' | 'series';
+
+/**
+ * Result of matching a processor string against the catalog
+ */
+export interface ChipsetMatch {
+  chipset: Chipset;
+  kind: ChipsetMatchKind;
+  confidence: number;
+  performanceIndex: number;
+}
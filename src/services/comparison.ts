@@ -1,17 +1,72 @@
 import { v4 as uuidv4 } from 'uuid';
 import { 
+  NormalizedSpecs,
   Phone, 
   PhoneScores, 
-  PhoneSpecifications 
+  PhoneSpecifications,
+  Region
 } from '../types/phone.js';
 import { 
   ComparisonResult, 
   ComparisonCategory, 
   ComparisonInsights, 
   SpecComparison, 
-  ComparisonWinner 
+  ComparisonWinner,
+  MultiPhoneComparison,
+  MultiPhoneInsights,
+  CategoryWeights,
+  ComparisonPreferences,
+  ScoringCategory
 } from '../types/comparison.js';
 import { ComparisonEngine as IComparisonEngine } from '../types/services.js';
+import {
+  DEFAULT_CATEGORY_WEIGHTS,
+  ResolvedWeights,
+  explainWeighting,
+  hasWeightPreferences,
+  resolveCategoryWeights,
+  weightedOverall
+} from './comparisonWeights.js';
+import { ValidationError } from '../middleware/errorHandler.js';
+import { CHIPSET_CATALOG_VERSION, chipsetMatcher } from './chipsets/index.js';
+import { getScoringPrice, hasEffectivePrice } from './effectivePrice.js';
+import { DEFAULT_REGION, ValueSegment, formatPrice, getValueSegment, localizePhone } from './regions/index.js';
+import { getConfigurationKey } from './variants.js';
+import {
+  formatDisplaySize,
+  formatMemorySize,
+  formatResolution,
+  formatWeight,
+  getNormalizedSpecs
+} from './specNormalization.js';
+
+/**
+ * Spec row compared across every phone in a multi-phone comparison
+ * `metric` ranks the values; higher is better. Rows without it are informational.
+ */
+interface MultiPhoneSpecRow {
+  label: string;
+  importance: 'high' | 'medium' | 'low';
+  value: (phone: Phone) => any;
+  metric?: (phone: Phone) => number;
+}
+
+const MAX_MULTI_PHONES = 5;
+
+// Performance index for processors the chipset catalog cannot identify
+const UNKNOWN_PROCESSOR_SCORE = 15;
+const PROCESSOR_TIE_MARGIN = 2;
+
+// A phone's price, or another amount, in the phone's currency
+const formatPhonePrice = (phone: Phone, amount: number = phone.pricing.currentPrice) => formatPrice(amount, phone.pricing.currency);
+
+// Value score bonus for each market segment
+const VALUE_SEGMENT_BONUS: Record<ValueSegment, number> = {
+  budget: 20,
+  midRange: 15,
+  premium: 10,
+  flagship: 5,
+};
 
 /**
  * Phone comparison engine implementation
@@ -20,35 +75,40 @@ import { ComparisonEngine as IComparisonEngine } from '../types/services.js';
 export class ComparisonEngine implements IComparisonEngine {
   
   // Category weights for overall scoring
-  private readonly categoryWeights = {
-    display: 0.20,
-    camera: 0.25,
-    performance: 0.20,
-    battery: 0.15,
-    build: 0.10,
-    value: 0.10,
-  };
+  private readonly categoryWeights: CategoryWeights = DEFAULT_CATEGORY_WEIGHTS;
 
   /**
    * Compare two phones and return detailed comparison result
+   * Preferences re-weight the overall score and come back as a scoring explanation.
    */
-  async comparePhones(phone1: Phone, phone2: Phone): Promise<ComparisonResult> {
+  async comparePhones(
+    phone1: Phone,
+    phone2: Phone,
+    preferences?: ComparisonPreferences
+  ): Promise<ComparisonResult> {
     if (!phone1 || !phone2) {
-      throw new Error('Both phones are required for comparison');
+      throw new ValidationError('Both phones are required for comparison');
     }
 
-    if (phone1.id === phone2.id) {
-      throw new Error('Cannot compare a phone with itself');
+    // Two variants of the same phone can be compared head to head
+    if (getConfigurationKey(phone1) === getConfigurationKey(phone2)) {
+      throw new ValidationError('Cannot compare a phone with itself');
     }
 
+    const resolved = this.resolveWeights(preferences);
+    const weights = resolved?.weights || this.categoryWeights;
+
     // Calculate scores for both phones
     const [scores1, scores2] = await Promise.all([
-      this.calculateScores(phone1),
-      this.calculateScores(phone2),
+      this.calculateScores(phone1, weights, preferences?.region),
+      this.calculateScores(phone2, weights, preferences?.region),
     ]);
 
     // Generate comparison categories
-    const categories = await this.generateComparisonCategories(phone1, phone2);
+    const categories = this.applyCategoryWeights(
+      await this.generateComparisonCategories(phone1, phone2),
+      resolved
+    );
 
     // Determine overall winner
     const overallWinner = this.determineOverallWinner(scores1, scores2);
@@ -79,35 +139,40 @@ export class ComparisonEngine implements IComparisonEngine {
       overallWinner,
       insights,
       summary,
+      metadata: { chipsetCatalogVersion: CHIPSET_CATALOG_VERSION },
+      ...(resolved && {
+        scoring: explainWeighting(
+          [phone1, phone2],
+          { [phone1.id]: scores1, [phone2.id]: scores2 },
+          resolved,
+          this.categoryWeights
+        ),
+      }),
       generatedAt: new Date(),
     };
   }
 
   /**
    * Calculate comprehensive scores for a phone
+   * Value is scored against the market segments of the given region.
    */
-  async calculateScores(phone: Phone): Promise<PhoneScores> {
+  async calculateScores(
+    phone: Phone,
+    weights: CategoryWeights = this.categoryWeights,
+    region: Region = DEFAULT_REGION
+  ): Promise<PhoneScores> {
     const specs = phone.specifications;
     
-    const displayScore = this.calculateDisplayScore(specs);
+    const normalized = getNormalizedSpecs(phone);
+    
+    const displayScore = this.calculateDisplayScore(specs, normalized);
     const cameraScore = this.calculateCameraScore(specs);
-    const performanceScore = this.calculatePerformanceScore(specs);
+    const performanceScore = this.calculatePerformanceScore(specs, normalized);
     const batteryScore = this.calculateBatteryScore(specs);
     const buildScore = this.calculateBuildScore(specs);
-    const valueScore = this.calculateValueScore(phone);
-
-    // Calculate weighted overall score
-    const overall = Math.round(
-      displayScore * this.categoryWeights.display +
-      cameraScore * this.categoryWeights.camera +
-      performanceScore * this.categoryWeights.performance +
-      batteryScore * this.categoryWeights.battery +
-      buildScore * this.categoryWeights.build +
-      valueScore * this.categoryWeights.value
-    );
+    const valueScore = this.calculateValueScore(phone, region);
 
-    return {
-      overall: Math.min(100, Math.max(0, overall)),
+    const scores = {
       display: Math.min(100, Math.max(0, displayScore)),
       camera: Math.min(100, Math.max(0, cameraScore)),
       performance: Math.min(100, Math.max(0, performanceScore)),
@@ -115,6 +180,12 @@ export class ComparisonEngine implements IComparisonEngine {
       build: Math.min(100, Math.max(0, buildScore)),
       value: Math.min(100, Math.max(0, valueScore)),
     };
+
+    // Calculate weighted overall score
+    return {
+      overall: weightedOverall({ ...scores, overall: 0 }, weights),
+      ...scores,
+    };
   }
 
   /**
@@ -148,7 +219,7 @@ export class ComparisonEngine implements IComparisonEngine {
    */
   async compareMultiplePhones(phones: Phone[]): Promise<ComparisonResult[]> {
     if (phones.length < 2) {
-      throw new Error('At least 2 phones are required for comparison');
+      throw new ValidationError('At least 2 phones are required for comparison');
     }
 
     const comparisons: ComparisonResult[] = [];
@@ -164,6 +235,312 @@ export class ComparisonEngine implements IComparisonEngine {
     return comparisons;
   }
 
+  /**
+   * Compare 2-5 phones at once with shared categories, rankings and insights
+   */
+  async generateMultiPhoneComparison(
+    phones: Phone[],
+    preferences?: ComparisonPreferences
+  ): Promise<MultiPhoneComparison> {
+    if (phones.length < 2) {
+      throw new ValidationError('At least 2 phones are required for comparison');
+    }
+
+    if (phones.length > MAX_MULTI_PHONES) {
+      throw new ValidationError(`Maximum ${MAX_MULTI_PHONES} phones can be compared at once`);
+    }
+
+    // Results are keyed by phone ID, so each phone can appear in one configuration only
+    if (new Set(phones.map(phone => phone.id)).size !== phones.length) {
+      throw new ValidationError('Cannot compare a phone with itself');
+    }
+
+    const resolved = this.resolveWeights(preferences);
+
+    // Score every phone
+    const scoreList = await Promise.all(
+      phones.map(phone => this.calculateScores(phone, resolved?.weights, preferences?.region))
+    );
+    const scores: Record<string, PhoneScores> = {};
+    phones.forEach((phone, index) => {
+      scores[phone.id] = scoreList[index];
+    });
+
+    const categories = this.applyCategoryWeights(this.generateMultiPhoneCategories(phones, scores), resolved);
+    const rankings = this.rankPhones(phones, scores);
+    const insights = this.generateMultiPhoneInsights(phones, scores, categories, rankings);
+
+    return {
+      id: uuidv4(),
+      phones,
+      categories,
+      scores,
+      rankings,
+      insights,
+      summary: this.generateMultiPhoneSummary(phones, categories, rankings),
+      metadata: { chipsetCatalogVersion: CHIPSET_CATALOG_VERSION },
+      ...(resolved && {
+        scoring: explainWeighting(phones, scores, resolved, this.categoryWeights),
+      }),
+      generatedAt: new Date(),
+    };
+  }
+
+  /**
+   * Resolve per-request weights, or undefined when the defaults apply
+   */
+  private resolveWeights(preferences?: ComparisonPreferences): ResolvedWeights | undefined {
+    return hasWeightPreferences(preferences)
+      ? resolveCategoryWeights(preferences, this.categoryWeights)
+      : undefined;
+  }
+
+  /**
+   * Stamp resolved weights onto categories, dropping zero-weight ones and
+   * listing the heaviest first
+   */
+  private applyCategoryWeights(
+    categories: ComparisonCategory[],
+    resolved?: ResolvedWeights
+  ): ComparisonCategory[] {
+    if (!resolved) {
+      return categories;
+    }
+
+    return categories
+      .map(category => ({ ...category, weight: resolved.weights[category.name as ScoringCategory] ?? category.weight }))
+      .filter(category => category.weight > 0)
+      .sort((a, b) => b.weight - a.weight);
+  }
+
+  /**
+   * Build shared categories with per-phone values and N-way winners
+   */
+  private generateMultiPhoneCategories(
+    phones: Phone[],
+    scores: Record<string, PhoneScores>
+  ): ComparisonCategory[] {
+    const categoryRows = this.getMultiPhoneSpecRows(phones);
+
+    return (Object.keys(categoryRows) as ScoringCategory[]).map(name => {
+      const { displayName, rows } = categoryRows[name];
+
+      const comparisons: SpecComparison[] = rows.map(row => {
+        const values: Record<string, any> = {};
+        phones.forEach(phone => {
+          values[phone.id] = row.value(phone);
+        });
+
+        return {
+          category: row.label,
+          phone1Value: values[phones[0].id],
+          phone2Value: values[phones[1].id],
+          values,
+          winnerIds: row.metric ? this.findLeaders(phones, row.metric) : undefined,
+          importance: row.importance,
+        };
+      });
+
+      const leaders = this.findLeaders(phones, phone => scores[phone.id][name]);
+      const winnerId = leaders.length === 1 ? leaders[0] : undefined;
+
+      return {
+        name,
+        displayName,
+        weight: this.categoryWeights[name],
+        comparisons,
+        winnerId,
+        summary: winnerId
+          ? `${this.getPhoneName(phones.find(phone => phone.id === winnerId)!)} leads on ${name} among the compared phones.`
+          : `Several phones share the lead on ${name}.`,
+      };
+    });
+  }
+
+  /**
+   * Spec rows compared in multi-phone mode, grouped by scoring category
+   */
+  private getMultiPhoneSpecRows(phones: Phone[]): Record<ScoringCategory, { displayName: string; rows: MultiPhoneSpecRow[] }> {
+    const effectivePriceRow: MultiPhoneSpecRow = {
+      label: 'Price After Offers',
+      importance: 'high',
+      value: p => formatPhonePrice(p, getScoringPrice(p)),
+      metric: p => -getScoringPrice(p),
+    };
+
+    return {
+      display: {
+        displayName: 'Display',
+        rows: [
+          { label: 'Screen Size', importance: 'high', value: p => this.formatNormalized(getNormalizedSpecs(p).display.sizeInches, formatDisplaySize, p.specifications.display.size), metric: p => getNormalizedSpecs(p).display.sizeInches || 0 },
+          { label: 'Resolution', importance: 'high', value: p => this.formatNormalized(getNormalizedSpecs(p).display.resolution, formatResolution, p.specifications.display.resolution), metric: p => this.getResolutionScore(getNormalizedSpecs(p).display.resolution) },
+          { label: 'Display Type', importance: 'medium', value: p => p.specifications.display.type, metric: p => this.getDisplayTypeScore(p.specifications.display.type) },
+          { label: 'Refresh Rate', importance: 'medium', value: p => p.specifications.display.refreshRate ? `${p.specifications.display.refreshRate}Hz` : 'Standard', metric: p => p.specifications.display.refreshRate || 60 },
+        ],
+      },
+      camera: {
+        displayName: 'Camera',
+        rows: [
+          { label: 'Main Camera', importance: 'high', value: p => this.formatCameraSpec(p.specifications.camera.rear[0]), metric: p => p.specifications.camera.rear[0]?.megapixels || 0 },
+          { label: 'Front Camera', importance: 'medium', value: p => this.formatCameraSpec(p.specifications.camera.front), metric: p => p.specifications.camera.front?.megapixels || 0 },
+          { label: 'Camera Count', importance: 'low', value: p => `${p.specifications.camera.rear.length} cameras`, metric: p => p.specifications.camera.rear.length },
+        ],
+      },
+      performance: {
+        displayName: 'Performance',
+        rows: [
+          { label: 'Processor', importance: 'high', value: p => p.specifications.performance.processor, metric: p => this.getProcessorScore(p.specifications.performance.processor) },
+          { label: 'RAM Options', importance: 'high', value: p => this.formatMemoryOptions(getNormalizedSpecs(p).memory.ramGb, p.specifications.performance.ram), metric: p => this.maxOf(getNormalizedSpecs(p).memory.ramGb) },
+          { label: 'Storage Options', importance: 'medium', value: p => this.formatMemoryOptions(getNormalizedSpecs(p).memory.storageGb, p.specifications.performance.storage), metric: p => this.maxOf(getNormalizedSpecs(p).memory.storageGb) },
+        ],
+      },
+      battery: {
+        displayName: 'Battery',
+        rows: [
+          { label: 'Battery Capacity', importance: 'high', value: p => `${p.specifications.battery.capacity}mAh`, metric: p => p.specifications.battery.capacity },
+          { label: 'Charging Speed', importance: 'medium', value: p => p.specifications.battery.chargingSpeed ? `${p.specifications.battery.chargingSpeed}W` : 'Standard', metric: p => p.specifications.battery.chargingSpeed || 0 },
+          { label: 'Wireless Charging', importance: 'low', value: p => p.specifications.battery.wirelessCharging ? 'Yes' : 'No', metric: p => p.specifications.battery.wirelessCharging ? 1 : 0 },
+        ],
+      },
+      build: {
+        displayName: 'Build Quality',
+        rows: [
+          { label: 'Weight', importance: 'low', value: p => this.formatNormalized(getNormalizedSpecs(p).build.weightGrams, formatWeight, p.specifications.build.weight || 'Unknown'), metric: p => -(getNormalizedSpecs(p).build.weightGrams || Infinity) },
+          { label: 'Materials', importance: 'medium', value: p => p.specifications.build.materials.join(', '), metric: p => this.getMaterialsScore(p.specifications.build.materials) },
+          { label: 'Water Resistance', importance: 'medium', value: p => p.specifications.build.waterResistance || 'None', metric: p => this.getWaterResistanceScore(p.specifications.build.waterResistance) },
+          { label: 'Color Options', importance: 'low', value: p => `${p.specifications.build.colors.length} colors`, metric: p => p.specifications.build.colors.length },
+        ],
+      },
+      value: {
+        displayName: 'Value for Money',
+        rows: [
+          { label: 'Price', importance: 'high', value: p => formatPhonePrice(p), metric: p => -p.pricing.currentPrice },
+          ...(phones.some(hasEffectivePrice) ? [effectivePriceRow] : []),
+          { label: 'Availability', importance: 'medium', value: p => p.availability, metric: p => this.getAvailabilityScore(p.availability) },
+        ],
+      },
+    };
+  }
+
+  /**
+   * IDs of the phones with the highest metric; empty when every phone ties
+   */
+  private findLeaders(phones: Phone[], metric: (phone: Phone) => number): string[] {
+    const values = phones.map(phone => metric(phone));
+    const best = Math.max(...values);
+    const leaders = phones.filter((_, index) => values[index] === best).map(phone => phone.id);
+
+    return leaders.length === phones.length ? [] : leaders;
+  }
+
+  /**
+   * Rank phones by overall score; equal scores share a rank
+   */
+  private rankPhones(phones: Phone[], scores: Record<string, PhoneScores>): MultiPhoneComparison['rankings'] {
+    const sorted = [...phones].sort((a, b) => scores[b.id].overall - scores[a.id].overall);
+
+    return sorted.map((phone, index) => {
+      const totalScore = scores[phone.id].overall;
+      const firstWithScore = sorted.findIndex(other => scores[other.id].overall === totalScore);
+
+      return { phoneId: phone.id, rank: firstWithScore + 1, totalScore };
+    });
+  }
+
+  /**
+   * Generate insights for each phone against the average of the others
+   */
+  private generateMultiPhoneInsights(
+    phones: Phone[],
+    scores: Record<string, PhoneScores>,
+    categories: ComparisonCategory[],
+    rankings: MultiPhoneComparison['rankings']
+  ): MultiPhoneInsights {
+    const insights: MultiPhoneInsights = {
+      strengths: {},
+      weaknesses: {},
+      recommendations: [],
+      bestFor: {},
+    };
+
+    phones.forEach(phone => {
+      const others = this.averageScores(phones.filter(other => other.id !== phone.id).map(other => scores[other.id]));
+
+      insights.strengths[phone.id] = this.identifyStrengths(phone, scores[phone.id], others);
+      insights.weaknesses[phone.id] = this.identifyWeaknesses(phone, scores[phone.id], others);
+      insights.bestFor[phone.id] = this.generateBestForScenarios(phone, scores[phone.id], others);
+    });
+
+    const nameOf = (phoneId: string) => this.getPhoneName(phones.find(phone => phone.id === phoneId)!);
+    const leader = rankings[0];
+
+    if (rankings.filter(ranking => ranking.rank === 1).length === 1) {
+      insights.recommendations.push(`${nameOf(leader.phoneId)} is the best all-rounder with an overall score of ${leader.totalScore}`);
+    }
+
+    const categoryAdvice: Partial<Record<ScoringCategory, string>> = {
+      camera: 'is the pick for photography enthusiasts',
+      performance: 'is the pick for gaming and heavy multitasking',
+      battery: 'lasts the longest between charges',
+      value: 'offers the best value for money',
+    };
+
+    categories.forEach(category => {
+      const advice = categoryAdvice[category.name as ScoringCategory];
+      if (advice && category.winnerId && category.winnerId !== leader.phoneId) {
+        insights.recommendations.push(`${nameOf(category.winnerId)} ${advice}`);
+      }
+    });
+
+    const cheapest = [...phones].sort((a, b) => a.pricing.currentPrice - b.pricing.currentPrice)[0];
+    if (cheapest.id !== leader.phoneId) {
+      insights.recommendations.push(`${this.getPhoneName(cheapest)} is the most affordable at ${formatPhonePrice(cheapest)}`);
+    }
+
+    return insights;
+  }
+
+  private averageScores(scoreList: PhoneScores[]): PhoneScores {
+    const average = (key: keyof PhoneScores) =>
+      scoreList.reduce((sum, scores) => sum + scores[key], 0) / scoreList.length;
+
+    return {
+      overall: average('overall'),
+      display: average('display'),
+      camera: average('camera'),
+      performance: average('performance'),
+      battery: average('battery'),
+      build: average('build'),
+      value: average('value'),
+    };
+  }
+
+  private generateMultiPhoneSummary(
+    phones: Phone[],
+    categories: ComparisonCategory[],
+    rankings: MultiPhoneComparison['rankings']
+  ): string {
+    const nameOf = (phoneId: string) => this.getPhoneName(phones.find(phone => phone.id === phoneId)!);
+
+    const ranking = rankings
+      .map(entry => `${entry.rank}. ${nameOf(entry.phoneId)} (${entry.totalScore})`)
+      .join(', ');
+
+    const leaders = categories
+      .filter(category => category.winnerId)
+      .map(category => `${category.displayName.toLowerCase()}: ${nameOf(category.winnerId!)}`);
+
+    return `Comparison of ${phones.length} phones. Overall ranking: ${ranking}.` +
+      (leaders.length > 0 ? ` Category leaders - ${leaders.join('; ')}.` : '');
+  }
+
+  private getPhoneName(phone: Phone): string {
+    // Variants of the same phone need their configuration to tell them apart
+    return phone.selectedVariantId && phone.variant
+      ? `${phone.brand} ${phone.model} (${phone.variant})`
+      : `${phone.brand} ${phone.model}`;
+  }
+
   /**
    * Generate comparison categories with detailed spec comparisons
    */
@@ -187,20 +564,22 @@ export class ComparisonEngine implements IComparisonEngine {
   private async generateDisplayCategory(phone1: Phone, phone2: Phone): Promise<ComparisonCategory> {
     const spec1 = phone1.specifications.display;
     const spec2 = phone2.specifications.display;
+    const normalized1 = getNormalizedSpecs(phone1).display;
+    const normalized2 = getNormalizedSpecs(phone2).display;
 
     const comparisons: SpecComparison[] = [
       {
         category: 'Screen Size',
         phone1Value: spec1.size,
         phone2Value: spec2.size,
-        winner: this.compareDisplaySize(spec1.size, spec2.size),
+        winner: this.compareDisplaySize(normalized1.sizeInches, normalized2.sizeInches),
         importance: 'high',
       },
       {
         category: 'Resolution',
         phone1Value: spec1.resolution,
         phone2Value: spec2.resolution,
-        winner: this.compareResolution(spec1.resolution, spec2.resolution),
+        winner: this.compareResolution(normalized1.resolution, normalized2.resolution),
         importance: 'high',
       },
       {
@@ -281,6 +660,8 @@ export class ComparisonEngine implements IComparisonEngine {
   private async generatePerformanceCategory(phone1: Phone, phone2: Phone): Promise<ComparisonCategory> {
     const spec1 = phone1.specifications.performance;
     const spec2 = phone2.specifications.performance;
+    const memory1 = getNormalizedSpecs(phone1).memory;
+    const memory2 = getNormalizedSpecs(phone2).memory;
 
     const comparisons: SpecComparison[] = [
       {
@@ -288,20 +669,21 @@ export class ComparisonEngine implements IComparisonEngine {
         phone1Value: spec1.processor,
         phone2Value: spec2.processor,
         winner: this.compareProcessors(spec1.processor, spec2.processor),
+        difference: this.describeProcessorGap(spec1.processor, spec2.processor),
         importance: 'high',
       },
       {
         category: 'RAM Options',
         phone1Value: spec1.ram.join(', '),
         phone2Value: spec2.ram.join(', '),
-        winner: this.compareRAM(spec1.ram, spec2.ram),
+        winner: this.compareRAM(memory1.ramGb, memory2.ramGb),
         importance: 'high',
       },
       {
         category: 'Storage Options',
         phone1Value: spec1.storage.join(', '),
         phone2Value: spec2.storage.join(', '),
-        winner: this.compareStorage(spec1.storage, spec2.storage),
+        winner: this.compareStorage(memory1.storageGb, memory2.storageGb),
         importance: 'medium',
       },
     ];
@@ -369,8 +751,17 @@ export class ComparisonEngine implements IComparisonEngine {
   private async generateBuildCategory(phone1: Phone, phone2: Phone): Promise<ComparisonCategory> {
     const spec1 = phone1.specifications.build;
     const spec2 = phone2.specifications.build;
+    const weight1 = getNormalizedSpecs(phone1).build.weightGrams;
+    const weight2 = getNormalizedSpecs(phone2).build.weightGrams;
 
     const comparisons: SpecComparison[] = [
+      {
+        category: 'Weight',
+        phone1Value: this.formatNormalized(weight1, formatWeight, spec1.weight || 'Unknown'),
+        phone2Value: this.formatNormalized(weight2, formatWeight, spec2.weight || 'Unknown'),
+        winner: this.compareWeight(weight1, weight2),
+        importance: 'low',
+      },
       {
         category: 'Materials',
         phone1Value: spec1.materials.join(', '),
@@ -407,6 +798,22 @@ export class ComparisonEngine implements IComparisonEngine {
     };
   }
 
+  /**
+   * Compare prices once each buyer's offers apply
+   */
+  private compareEffectivePrice(phone1: Phone, phone2: Phone): SpecComparison {
+    const price1 = getScoringPrice(phone1);
+    const price2 = getScoringPrice(phone2);
+
+    return {
+      category: 'Price After Offers',
+      phone1Value: formatPhonePrice(phone1, price1),
+      phone2Value: formatPhonePrice(phone2, price2),
+      winner: price1 < price2 ? 'phone1' : price2 < price1 ? 'phone2' : 'tie',
+      importance: 'high',
+    };
+  }
+
   /**
    * Generate value comparison category
    */
@@ -414,12 +821,13 @@ export class ComparisonEngine implements IComparisonEngine {
     const comparisons: SpecComparison[] = [
       {
         category: 'Price',
-        phone1Value: `₹${phone1.pricing.currentPrice.toLocaleString()}`,
-        phone2Value: `₹${phone2.pricing.currentPrice.toLocaleString()}`,
+        phone1Value: formatPhonePrice(phone1),
+        phone2Value: formatPhonePrice(phone2),
         winner: phone1.pricing.currentPrice < phone2.pricing.currentPrice ? 'phone1' :
                 phone2.pricing.currentPrice < phone1.pricing.currentPrice ? 'phone2' : 'tie',
         importance: 'high',
       },
+      ...(hasEffectivePrice(phone1) || hasEffectivePrice(phone2) ? [this.compareEffectivePrice(phone1, phone2)] : []),
       {
         category: 'Availability',
         phone1Value: phone1.availability,
@@ -442,26 +850,22 @@ export class ComparisonEngine implements IComparisonEngine {
   }
 
   // Scoring methods for individual categories
-  private calculateDisplayScore(specs: PhoneSpecifications): number {
+  private calculateDisplayScore(specs: PhoneSpecifications, normalized: NormalizedSpecs): number {
     let score = 50; // Base score
 
     // Screen size scoring
-    const sizeMatch = specs.display.size.match(/(\d+\.?\d*)/);
-    if (sizeMatch) {
-      const size = parseFloat(sizeMatch[1]);
+    const size = normalized.display.sizeInches;
+    if (size) {
       if (size >= 6.5) score += 15;
       else if (size >= 6.0) score += 10;
       else if (size >= 5.5) score += 5;
     }
 
-    // Resolution scoring
-    if (specs.display.resolution.includes('1440') || specs.display.resolution.includes('QHD')) {
-      score += 20;
-    } else if (specs.display.resolution.includes('1080') || specs.display.resolution.includes('FHD')) {
-      score += 15;
-    } else if (specs.display.resolution.includes('720') || specs.display.resolution.includes('HD')) {
-      score += 5;
-    }
+    // Resolution scoring by short-edge pixels
+    const resolutionScore = this.getResolutionScore(normalized.display.resolution);
+    if (resolutionScore === 4) score += 20;
+    else if (resolutionScore === 3) score += 15;
+    else if (resolutionScore === 2) score += 5;
 
     // Display type scoring
     if (specs.display.type.toLowerCase().includes('amoled') || 
@@ -508,30 +912,21 @@ export class ComparisonEngine implements IComparisonEngine {
     return score;
   }
 
-  private calculatePerformanceScore(specs: PhoneSpecifications): number {
+  private calculatePerformanceScore(specs: PhoneSpecifications, normalized: NormalizedSpecs): number {
     let score = 40; // Base score
 
-    // Processor scoring (simplified - in real implementation, would use benchmark data)
-    const processor = specs.performance.processor.toLowerCase();
-    if (processor.includes('snapdragon 8') || processor.includes('a17') || processor.includes('a16')) {
-      score += 25;
-    } else if (processor.includes('snapdragon 7') || processor.includes('a15') || processor.includes('dimensity 9')) {
-      score += 20;
-    } else if (processor.includes('snapdragon 6') || processor.includes('dimensity 8')) {
-      score += 15;
-    } else if (processor.includes('snapdragon 4') || processor.includes('dimensity 7')) {
-      score += 10;
-    }
+    // Processor scoring from chipset benchmarks
+    score += Math.round(25 * this.getProcessorScore(specs.performance.processor) / 100);
 
     // RAM scoring
-    const maxRAM = this.extractMaxRAM(specs.performance.ram);
+    const maxRAM = this.maxOf(normalized.memory.ramGb);
     if (maxRAM >= 12) score += 15;
     else if (maxRAM >= 8) score += 10;
     else if (maxRAM >= 6) score += 7;
     else if (maxRAM >= 4) score += 5;
 
     // Storage scoring
-    const maxStorage = this.extractMaxStorage(specs.performance.storage);
+    const maxStorage = this.maxOf(normalized.memory.storageGb);
     if (maxStorage >= 512) score += 10;
     else if (maxStorage >= 256) score += 7;
     else if (maxStorage >= 128) score += 5;
@@ -586,15 +981,12 @@ export class ComparisonEngine implements IComparisonEngine {
     return score;
   }
 
-  private calculateValueScore(phone: Phone): number {
+  private calculateValueScore(phone: Phone, region: Region): number {
     let score = 50; // Base score
 
-    // Price-based scoring (relative to market segments)
-    const price = phone.pricing.currentPrice;
-    if (price < 15000) score += 20; // Budget segment
-    else if (price < 30000) score += 15; // Mid-range
-    else if (price < 50000) score += 10; // Premium
-    else score += 5; // Flagship
+    // Price-based scoring (relative to the region's market segments), after the buyer's offers
+    const price = getScoringPrice(localizePhone(phone, region));
+    score += VALUE_SEGMENT_BONUS[getValueSegment(price, region)];
 
     // Availability scoring
     if (phone.availability === 'available') score += 20;
@@ -611,15 +1003,18 @@ export class ComparisonEngine implements IComparisonEngine {
   }
 
   // Helper methods for comparisons
-  private compareDisplaySize(size1: string, size2: string): ComparisonWinner {
-    const num1 = this.extractNumber(size1);
-    const num2 = this.extractNumber(size2);
+  private compareDisplaySize(size1?: number, size2?: number): ComparisonWinner {
+    const num1 = size1 || 0;
+    const num2 = size2 || 0;
     if (num1 > num2) return 'phone1';
     if (num2 > num1) return 'phone2';
     return 'tie';
   }
 
-  private compareResolution(res1: string, res2: string): ComparisonWinner {
+  private compareResolution(
+    res1?: NormalizedSpecs['display']['resolution'],
+    res2?: NormalizedSpecs['display']['resolution']
+  ): ComparisonWinner {
     const score1 = this.getResolutionScore(res1);
     const score2 = this.getResolutionScore(res2);
     if (score1 > score2) return 'phone1';
@@ -656,27 +1051,36 @@ export class ComparisonEngine implements IComparisonEngine {
   private compareProcessors(proc1: string, proc2: string): ComparisonWinner {
     const score1 = this.getProcessorScore(proc1);
     const score2 = this.getProcessorScore(proc2);
-    if (score1 > score2) return 'phone1';
-    if (score2 > score1) return 'phone2';
+    // Differences within benchmark run-to-run variance are a tie
+    if (score1 - score2 > PROCESSOR_TIE_MARGIN) return 'phone1';
+    if (score2 - score1 > PROCESSOR_TIE_MARGIN) return 'phone2';
     return 'tie';
   }
 
-  private compareRAM(ram1: string[], ram2: string[]): ComparisonWinner {
-    const max1 = this.extractMaxRAM(ram1);
-    const max2 = this.extractMaxRAM(ram2);
+  private compareRAM(ram1: number[], ram2: number[]): ComparisonWinner {
+    const max1 = this.maxOf(ram1);
+    const max2 = this.maxOf(ram2);
     if (max1 > max2) return 'phone1';
     if (max2 > max1) return 'phone2';
     return 'tie';
   }
 
-  private compareStorage(storage1: string[], storage2: string[]): ComparisonWinner {
-    const max1 = this.extractMaxStorage(storage1);
-    const max2 = this.extractMaxStorage(storage2);
+  private compareStorage(storage1: number[], storage2: number[]): ComparisonWinner {
+    const max1 = this.maxOf(storage1);
+    const max2 = this.maxOf(storage2);
     if (max1 > max2) return 'phone1';
     if (max2 > max1) return 'phone2';
     return 'tie';
   }
 
+  private compareWeight(weight1?: number, weight2?: number): ComparisonWinner {
+    // Lighter wins, but only when both weights are known
+    if (!weight1 || !weight2) return 'tie';
+    if (weight1 < weight2) return 'phone1';
+    if (weight2 < weight1) return 'phone2';
+    return 'tie';
+  }
+
   private compareChargingSpeed(speed1?: number, speed2?: number): ComparisonWinner {
     const s1 = speed1 || 0;
     const s2 = speed2 || 0;
@@ -710,25 +1114,27 @@ export class ComparisonEngine implements IComparisonEngine {
   }
 
   // Utility methods
-  private extractNumber(str: string): number {
-    const match = str.match(/(\d+\.?\d*)/);
-    return match ? parseFloat(match[1]) : 0;
+  private maxOf(values: number[]): number {
+    return values.length > 0 ? Math.max(...values) : 0;
   }
 
-  private extractMaxRAM(ramOptions: string[]): number {
-    return Math.max(...ramOptions.map(ram => this.extractNumber(ram)));
+  private getResolutionScore(resolution?: NormalizedSpecs['display']['resolution']): number {
+    if (!resolution) return 1;
+    if (resolution.width >= 1440) return 4;
+    if (resolution.width >= 1080) return 3;
+    if (resolution.width >= 720) return 2;
+    return 1;
   }
 
-  private extractMaxStorage(storageOptions: string[]): number {
-    return Math.max(...storageOptions.map(storage => this.extractNumber(storage)));
+  /**
+   * Format a normalized value for display, falling back to the raw string
+   */
+  private formatNormalized<T>(value: T | undefined, format: (value: T) => string, raw: string): string {
+    return value === undefined ? raw : format(value);
   }
 
-  private getResolutionScore(resolution: string): number {
-    const res = resolution.toLowerCase();
-    if (res.includes('1440') || res.includes('qhd')) return 4;
-    if (res.includes('1080') || res.includes('fhd')) return 3;
-    if (res.includes('720') || res.includes('hd')) return 2;
-    return 1;
+  private formatMemoryOptions(sizes: number[], raw: string[]): string {
+    return sizes.length === raw.length ? sizes.map(formatMemorySize).join(', ') : raw.join(', ');
   }
 
   private getDisplayTypeScore(type: string): number {
@@ -738,13 +1144,28 @@ export class ComparisonEngine implements IComparisonEngine {
     return 1;
   }
 
+  /**
+   * Benchmark gap between two identified chipsets, e.g. "Snapdragon 8 Gen 3 is 45% faster"
+   */
+  private describeProcessorGap(proc1: string, proc2: string): string | undefined {
+    const match1 = chipsetMatcher.match(proc1);
+    const match2 = chipsetMatcher.match(proc2);
+
+    if (!match1 || !match2 || match1.chipset.id === match2.chipset.id) {
+      return undefined;
+    }
+
+    const [faster, slower] = match1.performanceIndex >= match2.performanceIndex ? [match1, match2] : [match2, match1];
+    const gap = Math.round((faster.performanceIndex / Math.max(slower.performanceIndex, 1) - 1) * 100);
+
+    return gap > 0 ? `${faster.chipset.name} is ${gap}% faster` : undefined;
+  }
+
+  /**
+   * Chipset performance index (0-100) from the benchmark catalog
+   */
   private getProcessorScore(processor: string): number {
-    const proc = processor.toLowerCase();
-    if (proc.includes('snapdragon 8') || proc.includes('a17') || proc.includes('a16')) return 5;
-    if (proc.includes('snapdragon 7') || proc.includes('a15') || proc.includes('dimensity 9')) return 4;
-    if (proc.includes('snapdragon 6') || proc.includes('dimensity 8')) return 3;
-    if (proc.includes('snapdragon 4') || proc.includes('dimensity 7')) return 2;
-    return 1;
+    return chipsetMatcher.match(processor)?.performanceIndex ?? UNKNOWN_PROCESSOR_SCORE;
   }
 
   private getMaterialsScore(materials: string[]): number {
@@ -807,8 +1228,8 @@ export class ComparisonEngine implements IComparisonEngine {
     phone1: Phone, 
     phone2: Phone
   ): string {
-    const phone1Name = `${phone1.brand} ${phone1.model}`;
-    const phone2Name = `${phone2.brand} ${phone2.model}`;
+    const phone1Name = this.getPhoneName(phone1);
+    const phone2Name = this.getPhoneName(phone2);
 
     switch (winner) {
       case 'phone1':
@@ -826,8 +1247,8 @@ export class ComparisonEngine implements IComparisonEngine {
     winner: ComparisonWinner, 
     insights: ComparisonInsights
   ): string {
-    const phone1Name = `${phone1.brand} ${phone1.model}`;
-    const phone2Name = `${phone2.brand} ${phone2.model}`;
+    const phone1Name = this.getPhoneName(phone1);
+    const phone2Name = this.getPhoneName(phone2);
 
     let summary = `Comparison between ${phone1Name} and ${phone2Name}. `;
 
@@ -875,14 +1296,14 @@ export class ComparisonEngine implements IComparisonEngine {
     const recommendations: string[] = [];
     const { phone1: scores1, phone2: scores2 } = comparison.scores;
     
-    const phone1Name = `${phone1.brand} ${phone1.model}`;
-    const phone2Name = `${phone2.brand} ${phone2.model}`;
+    const phone1Name = this.getPhoneName(phone1);
+    const phone2Name = this.getPhoneName(phone2);
 
     // Price-based recommendations
     if (phone1.pricing.currentPrice < phone2.pricing.currentPrice * 0.8) {
-      recommendations.push(`${phone1Name} offers better value for money at ₹${phone1.pricing.currentPrice.toLocaleString()}`);
+      recommendations.push(`${phone1Name} offers better value for money at ${formatPhonePrice(phone1)}`);
     } else if (phone2.pricing.currentPrice < phone1.pricing.currentPrice * 0.8) {
-      recommendations.push(`${phone2Name} offers better value for money at ₹${phone2.pricing.currentPrice.toLocaleString()}`);
+      recommendations.push(`${phone2Name} offers better value for money at ${formatPhonePrice(phone2)}`);
     }
 
     // Performance recommendations
@@ -938,14 +1359,14 @@ export class ComparisonEngine implements IComparisonEngine {
       phones: {
         phone1: {
           id: phone1.id,
-          name: `${phone1.brand} ${phone1.model}`,
+          name: this.getPhoneName(phone1),
           image: phone1.images[0] || '',
           price: phone1.pricing.currentPrice,
           overallScore: comparison.scores.phone1.overall,
         },
         phone2: {
           id: phone2.id,
-          name: `${phone2.brand} ${phone2.model}`,
+          name: this.getPhoneName(phone2),
           image: phone2.images[0] || '',
           price: phone2.pricing.currentPrice,
           overallScore: comparison.scores.phone2.overall,
@@ -968,9 +1389,9 @@ export class ComparisonEngine implements IComparisonEngine {
       summary: {
         winner: comparison.overallWinner,
         winnerName: comparison.overallWinner === 'phone1' 
-          ? `${phone1.brand} ${phone1.model}`
+          ? this.getPhoneName(phone1)
           : comparison.overallWinner === 'phone2'
-          ? `${phone2.brand} ${phone2.model}`
+          ? this.getPhoneName(phone2)
           : 'Tie',
         keyDifferences: this.extractKeyDifferences(comparison),
         recommendations: comparison.insights.recommendations,
@@ -1015,7 +1436,7 @@ export class ComparisonEngine implements IComparisonEngine {
     const priceDiff = Math.abs(phone1.pricing.currentPrice - phone2.pricing.currentPrice);
     if (priceDiff > 10000) {
       const cheaper = phone1.pricing.currentPrice < phone2.pricing.currentPrice ? phone1 : phone2;
-      differences.push(`${cheaper.brand} ${cheaper.model} is ₹${priceDiff.toLocaleString()} cheaper`);
+      differences.push(`${cheaper.brand} ${cheaper.model} is ${formatPhonePrice(cheaper, priceDiff)} cheaper`);
     }
     
     // Camera differences
@@ -1092,3 +1513,6 @@ export interface VisualComparisonData {
 
 // Export singleton instance
 export const comparisonEngine = new ComparisonEngine();
+
+// Service-style alias used by API routes and the AI tool loop
+export const comparisonService = comparisonEngine;
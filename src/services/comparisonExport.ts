@@ -0,0 +1,514 @@
+import {
+  ComparisonExportFormat,
+  ComparisonResult,
+  MultiPhoneComparison,
+  SpecComparison,
+} from '../types/comparison.js';
+import { Phone, PhoneScores } from '../types/phone.js';
+import { PdfColor, PdfDocument, PdfFont, measureText, wrapText } from '../utils/pdf.js';
+import { CARD_SCORE_CATEGORIES } from './comparisonImage.js';
+import { formatPrice } from './regions/index.js';
+
+/**
+ * Comparison exports for reports: print-ready PDF, CSV spec sheet and Markdown
+ *
+ * Pure functions shared by /api/comparison/export and the in-page export
+ * actions, so a download matches what the endpoint would return.
+ */
+
+export interface ComparisonExport {
+  filename: string;
+  contentType: string;
+  content: string | Uint8Array<ArrayBuffer>;
+}
+
+export interface ComparisonExportOptions {
+  exportedAt?: Date;
+}
+
+export const EXPORT_FORMATS: Record<ComparisonExportFormat, { extension: string; contentType: string; label: string }> = {
+  pdf: { extension: 'pdf', contentType: 'application/pdf', label: 'PDF' },
+  csv: { extension: 'csv', contentType: 'text/csv; charset=utf-8', label: 'CSV' },
+  markdown: { extension: 'md', contentType: 'text/markdown; charset=utf-8', label: 'Markdown' },
+};
+
+export const EXPORT_DATA_SOURCES = [
+  'Specifications and prices: MobileMatrix phone catalog, synced from GSMArena and retailer listings',
+  'Scores and insights: MobileMatrix comparison engine',
+];
+
+interface ExportSpecRow {
+  specification: string;
+  values: string[];
+  best: string;
+  importance: SpecComparison['importance'];
+}
+
+interface ExportCategory {
+  title: string;
+  winner?: string;
+  summary?: string;
+  specs: ExportSpecRow[];
+}
+
+interface ExportTable {
+  columns: string[];
+  rows: string[][];
+}
+
+/**
+ * Format-independent view of a two-phone or multi-phone comparison
+ */
+export interface ComparisonExportModel {
+  title: string;
+  summary: string;
+  phoneNames: string[];
+  generatedAt: Date;
+  exportedAt: Date;
+  overview: ExportTable;
+  scores: ExportTable;
+  categories: ExportCategory[];
+  insights: Array<{ title: string; items: string[] }>;
+  attribution: string[];
+}
+
+type ExportableComparison = ComparisonResult | MultiPhoneComparison;
+
+/**
+ * Export a comparison in the requested format
+ */
+export function exportComparison(
+  comparison: ExportableComparison,
+  format: ComparisonExportFormat,
+  options: ComparisonExportOptions = {}
+): ComparisonExport {
+  const model = buildExportModel(comparison, options);
+  const { extension, contentType } = EXPORT_FORMATS[format];
+  const content = format === 'pdf'
+    ? renderPdf(model)
+    : format === 'csv'
+      ? renderCsv(model)
+      : renderMarkdown(model);
+
+  return {
+    filename: `${slugify(model.phoneNames.join(' vs '))}-comparison.${extension}`,
+    contentType,
+    content,
+  };
+}
+
+/**
+ * Reduce a comparison to the rows, tables and sections every format shows
+ */
+export function buildExportModel(
+  comparison: ExportableComparison,
+  options: ComparisonExportOptions = {}
+): ComparisonExportModel {
+  const phones = comparison.phones as Phone[];
+  const phoneNames = phones.map(phone => `${phone.brand} ${phone.model}${phone.variant ? ` (${phone.variant})` : ''}`);
+  const scoresFor = (index: number): PhoneScores | undefined => isMultiPhone(comparison)
+    ? comparison.scores[phones[index].id]
+    : index === 0 ? comparison.scores.phone1 : comparison.scores.phone2;
+  const namesOf = (indexes: number[]) => indexes.map(index => phoneNames[index]).join(' / ');
+
+  const overview: ExportTable = {
+    columns: ['', ...phoneNames],
+    rows: [
+      ['Price', ...phones.map(phone => formatPrice(phone.pricing.currentPrice, phone.pricing.currency))],
+      ['Launch date', ...phones.map(phone => formatDate(phone.launchDate))],
+      ['Availability', ...phones.map(phone => capitalize(phone.availability))],
+      ['Overall score', ...phones.map((_, index) => formatScore(scoresFor(index)?.overall))],
+    ],
+  };
+
+  if (isMultiPhone(comparison)) {
+    overview.rows.push(['Rank', ...phones.map(phone => {
+      const ranking = comparison.rankings.find(entry => entry.phoneId === phone.id);
+      return ranking ? `#${ranking.rank}` : '-';
+    })]);
+  }
+
+  const scores: ExportTable = {
+    columns: ['Category', ...phoneNames],
+    rows: CARD_SCORE_CATEGORIES.map(({ key, label }) => [
+      label,
+      ...phones.map((_, index) => formatScore(scoresFor(index)?.[key])),
+    ]),
+  };
+
+  const categories = comparison.categories.map(category => ({
+    title: category.displayName,
+    winner: isMultiPhone(comparison)
+      ? category.winnerId && namesOf([phones.findIndex(phone => phone.id === category.winnerId)].filter(index => index >= 0))
+      : category.winner && formatWinner(category.winner, phoneNames),
+    summary: category.summary,
+    specs: category.comparisons.map(spec => ({
+      specification: spec.category,
+      values: phones.map((phone, index) => formatValue(
+        isMultiPhone(comparison)
+          ? spec.values?.[phone.id]
+          : index === 0 ? spec.phone1Value : spec.phone2Value
+      )),
+      best: isMultiPhone(comparison)
+        ? namesOf(phones.flatMap((phone, index) => spec.winnerIds?.includes(phone.id) ? [index] : []))
+        : spec.winner ? formatWinner(spec.winner, phoneNames) : '',
+      importance: spec.importance,
+    })),
+  }));
+
+  const insights: ComparisonExportModel['insights'] = [];
+  phones.forEach((phone, index) => {
+    const key = isMultiPhone(comparison) ? phone.id : index === 0 ? 'phone1' : 'phone2';
+    const sections: Array<[string, Record<string, string[]>]> = [
+      ['strengths', comparison.insights.strengths],
+      ['weaknesses', comparison.insights.weaknesses],
+      ['best for', comparison.insights.bestFor],
+    ];
+    for (const [label, entries] of sections) {
+      const items = entries[key] ?? [];
+      if (items.length > 0) {
+        insights.push({ title: `${phoneNames[index]} ${label}`, items });
+      }
+    }
+  });
+  if (comparison.insights.recommendations.length > 0) {
+    insights.push({ title: 'Recommendations', items: comparison.insights.recommendations });
+  }
+
+  const attribution = [...EXPORT_DATA_SOURCES];
+  const pricesUpdatedAt = Math.max(...phones.map(phone => new Date(phone.updatedAt).getTime()));
+  if (Number.isFinite(pricesUpdatedAt)) {
+    attribution.push(`Prices last updated: ${formatTimestamp(new Date(pricesUpdatedAt))}`);
+  }
+  if (comparison.metadata?.chipsetCatalogVersion) {
+    attribution.push(`Chipset benchmarks: MobileMatrix chipset catalog ${comparison.metadata.chipsetCatalogVersion}`);
+  }
+
+  return {
+    title: phoneNames.join(' vs '),
+    summary: comparison.scoring ? `${comparison.summary} ${comparison.scoring.summary}` : comparison.summary,
+    phoneNames,
+    generatedAt: new Date(comparison.generatedAt),
+    exportedAt: options.exportedAt ?? new Date(),
+    overview,
+    scores,
+    categories,
+    insights,
+    attribution,
+  };
+}
+
+/**
+ * CSV spec sheet, one row per specification comparison
+ * Leading `#` lines carry the timestamps and attribution; most spreadsheet
+ * and CSV tools can skip them as comments.
+ */
+function renderCsv(model: ComparisonExportModel): string {
+  const lines = [
+    `# ${model.title}`,
+    `# Comparison generated: ${formatTimestamp(model.generatedAt)}`,
+    `# Exported: ${formatTimestamp(model.exportedAt)}`,
+    ...model.attribution.map(line => `# ${line}`),
+    ['Category', 'Specification', ...model.phoneNames, 'Best', 'Importance'].map(csvField).join(','),
+    ...model.categories.flatMap(category => category.specs.map(spec => [
+      category.title,
+      spec.specification,
+      ...spec.values,
+      spec.best,
+      spec.importance,
+    ].map(csvField).join(','))),
+  ];
+
+  // BOM so spreadsheet apps read the file as UTF-8
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
+
+/**
+ * Markdown with an overview, score table, per-category tables and insights
+ */
+function renderMarkdown(model: ComparisonExportModel): string {
+  const lines = [
+    `# ${model.title}`,
+    '',
+    `_Comparison generated ${formatTimestamp(model.generatedAt)} · Exported ${formatTimestamp(model.exportedAt)}_`,
+    '',
+    model.summary,
+    '',
+    '## Overview',
+    '',
+    ...markdownTable(model.overview),
+    '',
+    '## Scores',
+    '',
+    ...markdownTable(model.scores),
+  ];
+
+  for (const category of model.categories) {
+    lines.push('', `## ${category.title}`, '');
+    if (category.winner) lines.push(`**Winner:** ${category.winner}`, '');
+    if (category.summary) lines.push(category.summary, '');
+    lines.push(...markdownTable({
+      columns: ['Specification', ...model.phoneNames, 'Best'],
+      rows: category.specs.map(spec => [spec.specification, ...spec.values, spec.best]),
+    }));
+  }
+
+  if (model.insights.length > 0) {
+    lines.push('', '## Insights');
+    for (const section of model.insights) {
+      lines.push('', `### ${capitalize(section.title)}`, '', ...section.items.map(item => `- ${item}`));
+    }
+  }
+
+  lines.push('', '---', '', '**Data sources**', '', ...model.attribution.map(line => `- ${line}`));
+
+  return `${lines.join('\n')}\n`;
+}
+
+function markdownTable({ columns, rows }: ExportTable): string[] {
+  const cell = (value: string) => value.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ') || ' ';
+  return [
+    `| ${columns.map(cell).join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.map(cell).join(' | ')} |`),
+  ];
+}
+
+// PDF layout, in points
+const PDF_MARGIN = 48;
+const PDF_FOOTER_HEIGHT = 36;
+const PDF_CELL_PADDING = 4;
+const PDF_COLORS: Record<'text' | 'muted' | 'accent' | 'rule' | 'header' | 'stripe', PdfColor> = {
+  text: [0.09, 0.09, 0.11],
+  muted: [0.42, 0.45, 0.5],
+  accent: [0.92, 0.35, 0.05],
+  rule: [0.85, 0.86, 0.88],
+  header: [0.95, 0.95, 0.96],
+  stripe: [0.98, 0.98, 0.99],
+};
+
+/**
+ * A4 report: header, overview and score tables, category tables, insights,
+ * with attribution and page numbers in every footer
+ */
+function renderPdf(model: ComparisonExportModel): Uint8Array<ArrayBuffer> {
+  const doc = new PdfDocument({
+    title: `${model.title} - Phone Comparison`,
+    subject: model.summary,
+    author: 'MobileMatrix',
+    creationDate: model.exportedAt,
+  });
+  const contentWidth = doc.width - PDF_MARGIN * 2;
+  const bottom = doc.height - PDF_MARGIN - PDF_FOOTER_HEIGHT;
+  let y = PDF_MARGIN;
+
+  doc.addPage();
+
+  const ensureSpace = (height: number) => {
+    if (y + height > bottom) {
+      doc.addPage();
+      y = PDF_MARGIN;
+      return true;
+    }
+    return false;
+  };
+
+  const paragraph = (text: string, size: number, font: PdfFont = 'regular', color = PDF_COLORS.text, indent = 0) => {
+    const lineHeight = size * 1.35;
+    for (const line of wrapText(text, contentWidth - indent, size, font)) {
+      ensureSpace(lineHeight);
+      y += lineHeight;
+      doc.text(PDF_MARGIN + indent, y - size * 0.3, line, { size, font, color });
+    }
+  };
+
+  const heading = (text: string) => {
+    // Keep headings with at least a couple of rows of what follows
+    ensureSpace(60);
+    y += 14;
+    paragraph(text, 14, 'bold');
+    doc.line(PDF_MARGIN, y + 3, PDF_MARGIN + contentWidth, y + 3, PDF_COLORS.accent, 1);
+    y += 8;
+  };
+
+  const table = ({ columns, rows }: ExportTable, firstColumnShare: number) => {
+    const size = 8.5;
+    const lineHeight = size * 1.3;
+    const firstWidth = contentWidth * firstColumnShare;
+    const otherWidth = (contentWidth - firstWidth) / Math.max(1, columns.length - 1);
+    const widths = columns.map((_, index) => (index === 0 ? firstWidth : otherWidth));
+
+    const measureRow = (cells: string[], font: PdfFont) => {
+      const wrapped = cells.map((value, index) => wrapText(value, widths[index] - PDF_CELL_PADDING * 2, size, font));
+      const height = Math.max(...wrapped.map(lines => lines.length)) * lineHeight + PDF_CELL_PADDING * 2;
+      return { wrapped, height, font };
+    };
+
+    const drawRow = ({ wrapped, height, font }: ReturnType<typeof measureRow>, fill?: PdfColor) => {
+      if (fill) doc.rect(PDF_MARGIN, y, contentWidth, height, fill);
+      let x = PDF_MARGIN;
+      wrapped.forEach((lines, index) => {
+        lines.forEach((line, lineIndex) => {
+          doc.text(x + PDF_CELL_PADDING, y + PDF_CELL_PADDING + lineHeight * (lineIndex + 1) - size * 0.25, line, {
+            size,
+            font: index === 0 ? 'bold' : font,
+            color: PDF_COLORS.text,
+          });
+        });
+        x += widths[index];
+      });
+      y += height;
+      doc.line(PDF_MARGIN, y, PDF_MARGIN + contentWidth, y, PDF_COLORS.rule);
+    };
+
+    const header = measureRow(columns, 'bold');
+    const body = rows.map(row => measureRow(row, 'regular'));
+
+    ensureSpace(header.height + (body[0]?.height ?? 0));
+    drawRow(header, PDF_COLORS.header);
+    body.forEach((row, index) => {
+      // Repeat the header row when a table continues on a new page
+      if (ensureSpace(row.height)) {
+        drawRow(header, PDF_COLORS.header);
+      }
+      drawRow(row, index % 2 === 1 ? PDF_COLORS.stripe : undefined);
+    });
+    y += 6;
+  };
+
+  // Title block
+  paragraph('Phone Comparison Report', 10, 'bold', PDF_COLORS.accent);
+  paragraph(model.title, 20, 'bold');
+  y += 4;
+  paragraph(
+    `Comparison generated ${formatTimestamp(model.generatedAt)}  •  Exported ${formatTimestamp(model.exportedAt)}`,
+    9,
+    'regular',
+    PDF_COLORS.muted
+  );
+  y += 6;
+  paragraph(model.summary, 10.5);
+
+  heading('Overview');
+  table(model.overview, 0.22);
+
+  heading('Scores');
+  table(model.scores, 0.22);
+
+  for (const category of model.categories) {
+    heading(category.title);
+    if (category.winner) paragraph(`Winner: ${category.winner}`, 9.5, 'bold');
+    if (category.summary) paragraph(category.summary, 9.5, 'regular', PDF_COLORS.muted);
+    y += 4;
+    table({
+      columns: ['Specification', ...model.phoneNames, 'Best'],
+      rows: category.specs.map(spec => [spec.specification, ...spec.values, spec.best]),
+    }, 0.2);
+  }
+
+  if (model.insights.length > 0) {
+    heading('Insights');
+    for (const section of model.insights) {
+      y += 4;
+      paragraph(capitalize(section.title), 10.5, 'bold');
+      for (const item of section.items) {
+        paragraph(`•  ${item}`, 9.5, 'regular', PDF_COLORS.text, 8);
+      }
+    }
+  }
+
+  heading('Data sources');
+  for (const line of model.attribution) {
+    paragraph(line, 9, 'regular', PDF_COLORS.muted);
+  }
+
+  // Footers, now that the page count is known
+  for (let page = 0; page < doc.pageCount; page++) {
+    doc.setPage(page);
+    const footerY = doc.height - PDF_MARGIN;
+    doc.line(PDF_MARGIN, footerY - 14, PDF_MARGIN + contentWidth, footerY - 14, PDF_COLORS.rule);
+    const pageLabel = `Page ${page + 1} of ${doc.pageCount}`;
+    doc.text(PDF_MARGIN, footerY, `MobileMatrix phone comparison  •  Exported ${formatTimestamp(model.exportedAt)}`, {
+      size: 7.5,
+      color: PDF_COLORS.muted,
+    });
+    doc.text(PDF_MARGIN + contentWidth - measureText(pageLabel, 7.5), footerY, pageLabel, {
+      size: 7.5,
+      color: PDF_COLORS.muted,
+    });
+  }
+
+  return doc.toBytes();
+}
+
+function isMultiPhone(comparison: ExportableComparison): comparison is MultiPhoneComparison {
+  return 'rankings' in comparison;
+}
+
+function formatWinner(winner: 'phone1' | 'phone2' | 'tie', phoneNames: string[]): string {
+  return winner === 'tie' ? 'Tie' : winner === 'phone1' ? phoneNames[0] : phoneNames[1];
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') {
+    return '-';
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'Yes' : 'No';
+  }
+  if (Array.isArray(value)) {
+    return value.map(formatValue).join(', ');
+  }
+  if (typeof value === 'number') {
+    return value.toLocaleString('en-IN');
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+function formatScore(score: number | undefined): string {
+  return typeof score === 'number' && Number.isFinite(score) ? score.toFixed(1) : '-';
+}
+
+function formatDate(date: Date | string): string {
+  const value = new Date(date);
+  return Number.isNaN(value.getTime()) ? '-' : value.toISOString().slice(0, 10);
+}
+
+/**
+ * UTC timestamp, so exports read the same wherever they were produced
+ */
+function formatTimestamp(date: Date): string {
+  return `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function csvField(value: string): string {
+  // Neutralize spreadsheet formulas; a bare dash placeholder or negative number is left alone
+  const formula = /^[=+\-@\t\r]/.test(value) && !/^-(\d[\d,]*(\.\d+)?)?$/.test(value);
+  const safe = formula ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 80) || 'phone';
+}
+
+/**
+ * Save an export through the browser's download flow
+ */
+export function downloadComparisonExport(file: ComparisonExport): void {
+  const url = URL.createObjectURL(new Blob([file.content], { type: file.contentType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
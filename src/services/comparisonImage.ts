@@ -0,0 +1,110 @@
+import { ComparisonResult } from '../types/comparison.js';
+import { PhoneScores } from '../types/phone.js';
+
+/**
+ * Open Graph preview card for a shared comparison
+ *
+ * Pure helpers, safe to use in the browser: the card model rendered by
+ * /api/og/comparison/[token] and the cache key that versions its URL.
+ */
+
+export const OG_IMAGE_WIDTH = 1200;
+export const OG_IMAGE_HEIGHT = 630;
+
+// Score categories shown as bars, in display order
+export const CARD_SCORE_CATEGORIES: Array<{ key: Exclude<keyof PhoneScores, 'overall'>; label: string }> = [
+  { key: 'display', label: 'Display' },
+  { key: 'camera', label: 'Camera' },
+  { key: 'performance', label: 'Performance' },
+  { key: 'battery', label: 'Battery' },
+  { key: 'build', label: 'Build' },
+  { key: 'value', label: 'Value' },
+];
+
+export interface ComparisonCardPhone {
+  name: string;
+  imageUrl?: string;
+  overall: number;
+}
+
+export interface ComparisonCardBar {
+  label: string;
+  phone1: number;
+  phone2: number;
+}
+
+export interface ComparisonCardModel {
+  phones: [ComparisonCardPhone, ComparisonCardPhone];
+  bars: ComparisonCardBar[];
+  winner: string;
+}
+
+/**
+ * Reduce a comparison to what the preview card shows
+ */
+export function buildComparisonCard(comparison: ComparisonResult): ComparisonCardModel {
+  const [phone1, phone2] = comparison.phones;
+  const scores1 = comparison.scores?.phone1;
+  const scores2 = comparison.scores?.phone2;
+
+  const toCardPhone = (phone: typeof phone1, scores?: PhoneScores): ComparisonCardPhone => ({
+    name: `${phone.brand} ${phone.model}`,
+    imageUrl: phone.images?.[0],
+    overall: roundScore(scores?.overall),
+  });
+
+  const cardPhones: [ComparisonCardPhone, ComparisonCardPhone] = [
+    toCardPhone(phone1, scores1),
+    toCardPhone(phone2, scores2),
+  ];
+
+  const winner = comparison.overallWinner === 'phone1'
+    ? cardPhones[0].name
+    : comparison.overallWinner === 'phone2'
+      ? cardPhones[1].name
+      : 'Too close to call';
+
+  return {
+    phones: cardPhones,
+    bars: CARD_SCORE_CATEGORIES.map(({ key, label }) => ({
+      label,
+      phone1: roundScore(scores1?.[key]),
+      phone2: roundScore(scores2?.[key]),
+    })),
+    winner,
+  };
+}
+
+/**
+ * Deterministic key for a comparison's preview card
+ * Changes only when something drawn on the card changes, so repeated shares
+ * of the same comparison reuse one cached image.
+ */
+export function getComparisonImageKey(comparison: ComparisonResult): string {
+  const card = buildComparisonCard(comparison);
+  const canonical = JSON.stringify([
+    card.phones.map(phone => [phone.name, phone.imageUrl ?? '', phone.overall]),
+    card.bars.map(bar => [bar.label, bar.phone1, bar.phone2]),
+    card.winner,
+  ]);
+
+  return fnv1a(canonical);
+}
+
+function roundScore(score: number | undefined): number {
+  return typeof score === 'number' && Number.isFinite(score)
+    ? Math.round(Math.min(100, Math.max(0, score)))
+    : 0;
+}
+
+/**
+ * 32-bit FNV-1a hash as hex; no Node crypto so it also runs in the browser
+ */
+function fnv1a(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
@@ -3,45 +3,81 @@ import {
   MultiPhoneComparison, 
   SavedComparison, 
   ComparisonHistoryEntry,
-  ShareComparison 
+  ComparisonOwner,
+  SaveComparisonOptions,
+  ShareComparison,
+  ComparisonPreferences
 } from '@/types/comparison';
-import { Phone } from '@/types/phone';
+import { BuyerProfile, Phone } from '@/types/phone';
+import { ValidationError } from '@/middleware/errorHandler';
 import { comparisonService } from './comparison';
+import { calculateEffectivePrices } from './effectivePrice';
+import { localizePhone } from './regions';
+import { applyVariantSelections } from './variants';
+import type { ComparisonStore } from './comparisonStore';
+
+export type SharePlatform = 'twitter' | 'facebook' | 'whatsapp' | 'linkedin';
 
 /**
  * Service for managing phone comparisons, history, and sharing
+ * Saved comparisons and history are persisted through a ComparisonStore,
+ * scoped to a user or an anonymous session.
  */
 export class ComparisonManagerService {
-  private comparisonHistory: ComparisonHistoryEntry[] = [];
-  private savedComparisons: SavedComparison[] = [];
+  constructor(private store?: ComparisonStore) {}
+
+  /**
+   * Start a new comparison with selected phones and record it in history
+   */
+  async startNewComparison(
+    phoneIds: string[],
+    preferences?: ComparisonPreferences,
+    owner: ComparisonOwner = {}
+  ): Promise<ComparisonResult | MultiPhoneComparison> {
+    const comparison = await this.compare(phoneIds, preferences);
+
+    // History is best effort, a failed write should not fail the comparison
+    try {
+      await this.addHistoryEntry({
+        phoneIds,
+        phoneNames: comparison.phones.map(phone => `${phone.brand} ${phone.model}`),
+        comparisonType: phoneIds.length === 2 ? 'two-phone' : 'multi-phone',
+      }, owner);
+    } catch (error) {
+      console.error('Failed to record comparison history:', error);
+    }
+
+    return comparison;
+  }
 
   /**
-   * Start a new comparison with selected phones
+   * Compare selected phones without recording history
    */
-  async startNewComparison(phoneIds: string[]): Promise<ComparisonResult | MultiPhoneComparison> {
+  async compare(
+    phoneIds: string[],
+    preferences?: ComparisonPreferences
+  ): Promise<ComparisonResult | MultiPhoneComparison> {
     if (phoneIds.length < 2) {
-      throw new Error('At least 2 phones are required for comparison');
+      throw new ValidationError('At least 2 phones are required for comparison');
     }
 
     if (phoneIds.length > 5) {
-      throw new Error('Maximum 5 phones can be compared at once');
+      throw new ValidationError('Maximum 5 phones can be compared at once');
     }
 
-    // Add to history
-    const historyEntry: ComparisonHistoryEntry = {
-      id: this.generateId(),
-      phoneIds,
-      phoneNames: [], // Will be populated after fetching phone data
-      comparisonType: phoneIds.length === 2 ? 'two-phone' : 'multi-phone',
-      timestamp: new Date(),
-    };
+    const catalogPhones = applyVariantSelections(await this.loadPhones(phoneIds), preferences?.variantIds);
+    const pricedPhones = preferences?.buyer
+      ? await this.applyBuyerOffers(catalogPhones, preferences.buyer)
+      : catalogPhones;
+    const region = preferences?.region;
+    const phones = region
+      ? pricedPhones.map(phone => localizePhone(phone, region))
+      : pricedPhones;
 
-    this.addToHistory(historyEntry);
-
-    if (phoneIds.length === 2) {
-      return await comparisonService.comparePhones(phoneIds[0], phoneIds[1]);
+    if (phones.length === 2) {
+      return await comparisonService.comparePhones(phones[0], phones[1], preferences);
     } else {
-      return await this.compareMultiplePhones(phoneIds);
+      return await this.compareMultiplePhones(phones, preferences);
     }
   }
 
@@ -60,9 +96,63 @@ export class ComparisonManagerService {
   /**
    * Compare multiple phones (more than 2)
    */
-  private async compareMultiplePhones(phoneIds: string[]): Promise<MultiPhoneComparison> {
-    // Implementation for multi-phone comparison
-    throw new Error('Method not implemented yet');
+  private async compareMultiplePhones(
+    phones: Phone[],
+    preferences?: ComparisonPreferences
+  ): Promise<MultiPhoneComparison> {
+    return await comparisonService.generateMultiPhoneComparison(phones, preferences);
+  }
+
+  /**
+   * Load phones from the catalog, preserving the requested order
+   */
+  private async loadPhones(phoneIds: string[]): Promise<Phone[]> {
+    // Loaded lazily so client components using the manager do not bundle Prisma
+    const { phoneService } = await import('./phone');
+
+    return Promise.all(phoneIds.map(async phoneId => {
+      const phone = await phoneService.getPhoneById(phoneId);
+      if (!phone) {
+        throw new ValidationError(`Phone not found: ${phoneId}`);
+      }
+      return phone;
+    }));
+  }
+
+  /**
+   * Price each phone at its cheapest retailer once the buyer's offers apply
+   * Phones without recorded prices keep their catalog price; pinned variants
+   * only use listings for that variant.
+   */
+  private async applyBuyerOffers(phones: Phone[], buyer: BuyerProfile): Promise<Phone[]> {
+    const { PriceHistoryService } = await import('@/lib/services');
+    const priceHistoryService = new PriceHistoryService();
+
+    return Promise.all(phones.map(async phone => {
+      const prices = await priceHistoryService.getLatestPrices(phone.id, phone.selectedVariantId).catch(() => []);
+      const [best] = calculateEffectivePrices(prices, buyer);
+
+      return best
+        ? { ...phone, pricing: { ...phone.pricing, effectivePrice: best.effectivePrice } }
+        : phone;
+    }));
+  }
+
+  /**
+   * Store for saved comparisons and history: the database on the server,
+   * the comparison API in the browser
+   */
+  private async getStore(): Promise<ComparisonStore> {
+    if (!this.store) {
+      if (typeof window === 'undefined') {
+        const { DatabaseComparisonStore } = await import('./comparisonStore');
+        this.store = new DatabaseComparisonStore();
+      } else {
+        const { ApiComparisonStore } = await import('./comparisonStoreClient');
+        this.store = new ApiComparisonStore();
+      }
+    }
+    return this.store;
   }
 
   /**
@@ -70,26 +160,16 @@ export class ComparisonManagerService {
    */
   async saveComparison(
     comparison: ComparisonResult | MultiPhoneComparison,
-    title?: string,
-    userId?: string
+    owner: ComparisonOwner = {},
+    options: SaveComparisonOptions = {}
   ): Promise<SavedComparison> {
-    const savedComparison: SavedComparison = {
-      id: this.generateId(),
-      userId,
-      title: title || this.generateComparisonTitle(comparison),
-      result: comparison,
-      isPublic: false,
-      tags: [],
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
-
-    this.savedComparisons.push(savedComparison);
-    return savedComparison;
-  }
+    const store = await this.getStore();
 
-  private generateId(): string {
-    return Math.random().toString(36).substring(2, 15);
+    return store.saveComparison(comparison, owner, {
+      title: options.title?.trim() || this.generateComparisonTitle(comparison),
+      tags: [...new Set((options.tags ?? []).map(tag => tag.trim().toLowerCase()).filter(Boolean))],
+      isPublic: options.isPublic ?? false,
+    });
   }
 
   private generateComparisonTitle(comparison: ComparisonResult | MultiPhoneComparison): string {
@@ -99,66 +179,80 @@ export class ComparisonManagerService {
     return `Multi-phone comparison`;
   }
 
-  private addToHistory(entry: ComparisonHistoryEntry): void {
-    this.comparisonHistory.unshift(entry);
-    // Keep only last 50 entries
-    if (this.comparisonHistory.length > 50) {
-      this.comparisonHistory = this.comparisonHistory.slice(0, 50);
-    }
+  /**
+   * Record a comparison in history
+   */
+  async addHistoryEntry(
+    entry: Omit<ComparisonHistoryEntry, 'id' | 'timestamp'>,
+    owner: ComparisonOwner = {}
+  ): Promise<ComparisonHistoryEntry> {
+    const store = await this.getStore();
+    return store.addHistoryEntry(entry, owner);
   }
 
   /**
-   * Get comparison history
+   * Get comparison history, newest first
    */
-  getComparisonHistory(): ComparisonHistoryEntry[] {
-    return [...this.comparisonHistory];
+  async getComparisonHistory(owner: ComparisonOwner = {}): Promise<ComparisonHistoryEntry[]> {
+    const store = await this.getStore();
+    return store.getHistory(owner);
   }
 
   /**
-   * Get saved comparisons
+   * Get saved comparisons, newest first
    */
-  getSavedComparisons(userId?: string): SavedComparison[] {
-    if (userId) {
-      return this.savedComparisons.filter(comp => comp.userId === userId);
-    }
-    return [...this.savedComparisons];
+  async getSavedComparisons(owner: ComparisonOwner = {}): Promise<SavedComparison[]> {
+    const store = await this.getStore();
+    return store.getSavedComparisons(owner);
+  }
+
+  /**
+   * Get a saved comparison owned by the owner, or a public one
+   */
+  async getSavedComparison(comparisonId: string, owner: ComparisonOwner = {}): Promise<SavedComparison | null> {
+    const store = await this.getStore();
+    return store.getSavedComparison(comparisonId, owner);
   }
 
   /**
    * Delete saved comparison
    */
-  deleteSavedComparison(comparisonId: string, userId?: string): boolean {
-    const index = this.savedComparisons.findIndex(comp => 
-      comp.id === comparisonId && (!userId || comp.userId === userId)
-    );
-    
-    if (index !== -1) {
-      this.savedComparisons.splice(index, 1);
-      return true;
-    }
-    return false;
+  async deleteSavedComparison(comparisonId: string, owner: ComparisonOwner = {}): Promise<boolean> {
+    const store = await this.getStore();
+    return store.deleteSavedComparison(comparisonId, owner);
   }
 
   /**
-   * Generate share URL for comparison
+   * Create a share link for a comparison, optionally expiring
    */
-  async generateShareUrl(comparison: ComparisonResult | MultiPhoneComparison): Promise<ShareComparison> {
-    const shareToken = this.generateShareToken();
-    const phoneNames = 'phones' in comparison && Array.isArray(comparison.phones) 
-      ? comparison.phones.map(phone => `${phone.brand} ${phone.model}`)
-      : [];
+  async generateShareUrl(
+    comparison: ComparisonResult | MultiPhoneComparison,
+    owner: ComparisonOwner = {},
+    expiresAt?: Date
+  ): Promise<ShareComparison> {
+    const store = await this.getStore();
+    const { shareToken, expiresAt: linkExpiresAt, imageKey } = await store.createShareLink(comparison, owner, expiresAt);
+    const phoneNames = comparison.phones.map(phone => `${phone.brand} ${phone.model}`);
+    const baseUrl = process.env.NEXT_PUBLIC_BASE_URL;
 
-    const shareData: ShareComparison = {
+    return {
       id: comparison.id,
       shareToken,
       title: this.generateComparisonTitle(comparison),
       description: `Compare ${phoneNames.join(' vs ')} specifications and features`,
       phoneNames,
-      url: `${process.env.NEXT_PUBLIC_BASE_URL}/comparison/share/${shareToken}`,
-      expiresAt: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days
+      url: `${baseUrl}/comparison/share/${shareToken}`,
+      imageUrl: `${baseUrl}/api/og/comparison/${shareToken}${imageKey ? `?v=${imageKey}` : ''}`,
+      expiresAt: linkExpiresAt,
     };
+  }
 
-    return shareData;
+  /**
+   * Revoke a share link created by the owner
+   */
+  async revokeShareLink(shareToken: string, owner: ComparisonOwner = {}): Promise<boolean> {
+    const store = await this.getStore();
+    return store.revokeShareLink(shareToken, owner);
   }
 
   /**
@@ -166,12 +260,19 @@ export class ComparisonManagerService {
    */
   async shareToSocialMedia(
     comparison: ComparisonResult | MultiPhoneComparison,
-    platform: 'twitter' | 'facebook' | 'whatsapp' | 'linkedin'
+    platform: SharePlatform,
+    owner: ComparisonOwner = {}
   ): Promise<string> {
-    const shareData = await this.generateShareUrl(comparison);
+    const shareData = await this.generateShareUrl(comparison, owner);
+    return this.getPlatformShareUrl(shareData, platform);
+  }
+
+  /**
+   * Social media share URL for an existing share link
+   */
+  getPlatformShareUrl(shareData: ShareComparison, platform: SharePlatform): string {
     const encodedUrl = encodeURIComponent(shareData.url);
     const encodedTitle = encodeURIComponent(shareData.title);
-    const encodedDescription = encodeURIComponent(shareData.description);
 
     switch (platform) {
       case 'twitter':
@@ -190,8 +291,11 @@ export class ComparisonManagerService {
   /**
    * Copy comparison link to clipboard
    */
-  async copyComparisonLink(comparison: ComparisonResult | MultiPhoneComparison): Promise<string> {
-    const shareData = await this.generateShareUrl(comparison);
+  async copyComparisonLink(
+    comparison: ComparisonResult | MultiPhoneComparison,
+    owner: ComparisonOwner = {}
+  ): Promise<string> {
+    const shareData = await this.generateShareUrl(comparison, owner);
     
     if (typeof navigator !== 'undefined' && navigator.clipboard) {
       await navigator.clipboard.writeText(shareData.url);
@@ -200,29 +304,20 @@ export class ComparisonManagerService {
     return shareData.url;
   }
 
-  private generateShareToken(): string {
-    return Math.random().toString(36).substring(2, 15) + 
-           Math.random().toString(36).substring(2, 15);
-  }
-
   /**
    * Clear comparison history
    */
-  clearHistory(): void {
-    this.comparisonHistory = [];
+  async clearHistory(owner: ComparisonOwner = {}): Promise<void> {
+    const store = await this.getStore();
+    await store.clearHistory(owner);
   }
 
   /**
-   * Search saved comparisons
+   * Search saved comparisons by title or tag
    */
-  searchSavedComparisons(query: string, userId?: string): SavedComparison[] {
-    const comparisons = this.getSavedComparisons(userId);
-    const lowerQuery = query.toLowerCase();
-    
-    return comparisons.filter(comp => 
-      comp.title?.toLowerCase().includes(lowerQuery) ||
-      comp.tags.some(tag => tag.toLowerCase().includes(lowerQuery))
-    );
+  async searchSavedComparisons(query: string, owner: ComparisonOwner = {}): Promise<SavedComparison[]> {
+    const store = await this.getStore();
+    return store.getSavedComparisons(owner, query);
   }
 }
 
@@ -0,0 +1,192 @@
+import { ComparisonService, SavedComparisonService, ValidationError } from '../lib/services/index.js';
+import type { ComparisonHistory as StoredHistoryEntry, SavedComparison as StoredSavedComparison } from '../lib/database.js';
+import {
+  ComparisonHistoryEntry,
+  ComparisonOwner,
+  ComparisonResult,
+  ComparisonSnapshotSchema,
+  MultiPhoneComparison,
+  SavedComparison
+} from '../types/comparison.js';
+import { getComparisonImageKey } from './comparisonImage.js';
+
+/**
+ * Fields needed to save a comparison, after defaults are applied
+ */
+export interface SaveComparisonInput {
+  title: string;
+  tags: string[];
+  isPublic: boolean;
+}
+
+/**
+ * A persisted share link token
+ */
+export interface ShareLink {
+  shareToken: string;
+  expiresAt?: Date;
+  // Version of the stored snapshot's preview image
+  imageKey?: string;
+}
+
+/**
+ * Persistence for saved comparisons, comparison history and share links
+ */
+export interface ComparisonStore {
+  saveComparison(
+    comparison: ComparisonResult | MultiPhoneComparison,
+    owner: ComparisonOwner,
+    input: SaveComparisonInput
+  ): Promise<SavedComparison>;
+  getSavedComparisons(owner: ComparisonOwner, search?: string): Promise<SavedComparison[]>;
+  getSavedComparison(comparisonId: string, owner: ComparisonOwner): Promise<SavedComparison | null>;
+  deleteSavedComparison(comparisonId: string, owner: ComparisonOwner): Promise<boolean>;
+  addHistoryEntry(
+    entry: Omit<ComparisonHistoryEntry, 'id' | 'timestamp'>,
+    owner: ComparisonOwner
+  ): Promise<ComparisonHistoryEntry>;
+  getHistory(owner: ComparisonOwner): Promise<ComparisonHistoryEntry[]>;
+  clearHistory(owner: ComparisonOwner): Promise<void>;
+  createShareLink(
+    comparison: ComparisonResult | MultiPhoneComparison,
+    owner: ComparisonOwner,
+    expiresAt?: Date
+  ): Promise<ShareLink>;
+  revokeShareLink(shareToken: string, owner: ComparisonOwner): Promise<boolean>;
+}
+
+/**
+ * Stable key recording which user or session created a share link
+ */
+export function getShareOwnerKey(owner: ComparisonOwner): string {
+  if (owner.userId) {
+    return `user:${owner.userId}`;
+  }
+  if (owner.sessionId) {
+    return `session:${owner.sessionId}`;
+  }
+  throw new ValidationError('A user ID or session ID is required', 'owner');
+}
+
+/**
+ * Comparison store backed by SavedComparisonService and ComparisonService
+ * Translates between Prisma records and the comparison types.
+ */
+export class DatabaseComparisonStore implements ComparisonStore {
+  constructor(
+    private readonly service: SavedComparisonService = new SavedComparisonService(),
+    private readonly comparisons: ComparisonService = new ComparisonService()
+  ) {}
+
+  async saveComparison(
+    comparison: ComparisonResult | MultiPhoneComparison,
+    owner: ComparisonOwner,
+    input: SaveComparisonInput
+  ): Promise<SavedComparison> {
+    const record = await this.service.createSavedComparison({
+      ...owner,
+      ...input,
+      phoneIds: comparison.phones.map(phone => phone.id),
+      // Round-trip through JSON so dates and undefined fields store cleanly
+      result: JSON.parse(JSON.stringify(comparison)),
+    });
+
+    return this.toSavedComparison(record);
+  }
+
+  async getSavedComparisons(owner: ComparisonOwner, search?: string): Promise<SavedComparison[]> {
+    const records = await this.service.getSavedComparisons(owner, search);
+    return records.map(record => this.toSavedComparison(record));
+  }
+
+  async getSavedComparison(comparisonId: string, owner: ComparisonOwner): Promise<SavedComparison | null> {
+    const record = await this.service.getSavedComparison(comparisonId, owner);
+    return record ? this.toSavedComparison(record) : null;
+  }
+
+  async deleteSavedComparison(comparisonId: string, owner: ComparisonOwner): Promise<boolean> {
+    return this.service.deleteSavedComparison(comparisonId, owner);
+  }
+
+  async addHistoryEntry(
+    entry: Omit<ComparisonHistoryEntry, 'id' | 'timestamp'>,
+    owner: ComparisonOwner
+  ): Promise<ComparisonHistoryEntry> {
+    const record = await this.service.addHistoryEntry({
+      ...owner,
+      phoneIds: entry.phoneIds,
+      phoneNames: entry.phoneNames,
+      comparisonType: entry.comparisonType,
+    });
+
+    return this.toHistoryEntry(record);
+  }
+
+  async getHistory(owner: ComparisonOwner): Promise<ComparisonHistoryEntry[]> {
+    const records = await this.service.getHistory(owner);
+    return records.map(record => this.toHistoryEntry(record));
+  }
+
+  async clearHistory(owner: ComparisonOwner): Promise<void> {
+    await this.service.clearHistory(owner);
+  }
+
+  async createShareLink(
+    comparison: ComparisonResult | MultiPhoneComparison,
+    owner: ComparisonOwner,
+    expiresAt?: Date
+  ): Promise<ShareLink> {
+    // Share links point at a PhoneComparison, which holds a single pair
+    if (comparison.phones.length !== 2) {
+      throw new ValidationError('Only two-phone comparisons can be shared', 'phoneIds');
+    }
+
+    // The share page and preview image read the snapshot back with this schema
+    const parsed = ComparisonSnapshotSchema.safeParse(comparison);
+    if (!parsed.success) {
+      throw new ValidationError('Comparison result is not a valid two-phone comparison', 'comparison');
+    }
+
+    const sharedBy = getShareOwnerKey(owner);
+    const [phone1, phone2] = comparison.phones;
+    const snapshot = JSON.parse(JSON.stringify(comparison));
+
+    const record = await this.comparisons.getComparisonByPhones(phone1.id, phone2.id)
+      ?? await this.comparisons.createComparison({ phone1Id: phone1.id, phone2Id: phone2.id });
+    const shareLink = await this.comparisons.createShareLink(record.id, { sharedBy, expiresAt, result: snapshot });
+
+    return {
+      shareToken: shareLink.token,
+      expiresAt: shareLink.expiresAt ?? undefined,
+      imageKey: getComparisonImageKey(parsed.data),
+    };
+  }
+
+  async revokeShareLink(shareToken: string, owner: ComparisonOwner): Promise<boolean> {
+    return this.comparisons.revokeShareLink(shareToken, getShareOwnerKey(owner));
+  }
+
+  private toSavedComparison(record: StoredSavedComparison): SavedComparison {
+    return {
+      id: record.id,
+      userId: record.userId ?? undefined,
+      sessionId: record.sessionId ?? undefined,
+      title: record.title,
+      result: record.result as unknown as SavedComparison['result'],
+      isPublic: record.isPublic,
+      tags: record.tags,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+    };
+  }
+
+  private toHistoryEntry(record: StoredHistoryEntry): ComparisonHistoryEntry {
+    return {
+      id: record.id,
+      phoneIds: record.phoneIds,
+      phoneNames: record.phoneNames,
+      comparisonType: record.comparisonType === 'multi-phone' ? 'multi-phone' : 'two-phone',
+      timestamp: record.createdAt,
+    };
+  }
+}
@@ -0,0 +1,141 @@
+import { SESSION_ID_HEADER, SESSION_ID_STORAGE_KEY, USER_ID_HEADER } from '@/constants';
+import {
+  ComparisonHistoryEntry,
+  ComparisonOwner,
+  ComparisonResult,
+  MultiPhoneComparison,
+  SavedComparison,
+  ShareComparison
+} from '@/types/comparison';
+import type { ComparisonStore, SaveComparisonInput, ShareLink } from './comparisonStore';
+
+const API_BASE = '/api/comparison';
+
+/**
+ * Anonymous session ID for this browser, created on first use
+ */
+export function getBrowserSessionId(): string {
+  let sessionId = window.localStorage.getItem(SESSION_ID_STORAGE_KEY);
+
+  if (!sessionId) {
+    sessionId = typeof crypto !== 'undefined' && 'randomUUID' in crypto
+      ? crypto.randomUUID()
+      : `session_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+    window.localStorage.setItem(SESSION_ID_STORAGE_KEY, sessionId);
+  }
+
+  return sessionId;
+}
+
+/**
+ * Comparison store used in the browser, calling the comparison API routes
+ */
+export class ApiComparisonStore implements ComparisonStore {
+  async saveComparison(
+    comparison: ComparisonResult | MultiPhoneComparison,
+    owner: ComparisonOwner,
+    input: SaveComparisonInput
+  ): Promise<SavedComparison> {
+    // The server re-runs the comparison rather than trusting a posted result
+    return this.request<SavedComparison>('/saved', owner, {
+      method: 'POST',
+      body: { ...this.comparisonRequest(comparison), ...input },
+    });
+  }
+
+  async getSavedComparisons(owner: ComparisonOwner, search?: string): Promise<SavedComparison[]> {
+    const query = search ? `?search=${encodeURIComponent(search)}` : '';
+    return this.request<SavedComparison[]>(`/saved${query}`, owner);
+  }
+
+  async getSavedComparison(comparisonId: string, owner: ComparisonOwner): Promise<SavedComparison | null> {
+    const savedComparisons = await this.getSavedComparisons(owner);
+    return savedComparisons.find(saved => saved.id === comparisonId) ?? null;
+  }
+
+  async deleteSavedComparison(comparisonId: string, owner: ComparisonOwner): Promise<boolean> {
+    try {
+      await this.request('/saved', owner, { method: 'DELETE', body: { comparisonId } });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async addHistoryEntry(
+    entry: Omit<ComparisonHistoryEntry, 'id' | 'timestamp'>,
+    owner: ComparisonOwner
+  ): Promise<ComparisonHistoryEntry> {
+    return this.request<ComparisonHistoryEntry>('/history', owner, { method: 'POST', body: entry });
+  }
+
+  async getHistory(owner: ComparisonOwner): Promise<ComparisonHistoryEntry[]> {
+    return this.request<ComparisonHistoryEntry[]>('/history', owner);
+  }
+
+  async clearHistory(owner: ComparisonOwner): Promise<void> {
+    await this.request('/history', owner, { method: 'DELETE' });
+  }
+
+  async createShareLink(
+    comparison: ComparisonResult | MultiPhoneComparison,
+    owner: ComparisonOwner,
+    expiresAt?: Date
+  ): Promise<ShareLink> {
+    const shareData = await this.request<ShareComparison>('/share', owner, {
+      method: 'POST',
+      body: { ...this.comparisonRequest(comparison), expiresAt: expiresAt?.toISOString() },
+    });
+
+    return {
+      shareToken: shareData.shareToken,
+      expiresAt: shareData.expiresAt ? new Date(shareData.expiresAt) : undefined,
+      imageKey: shareData.imageUrl
+        ? new URLSearchParams(shareData.imageUrl.split('?')[1] ?? '').get('v') ?? undefined
+        : undefined,
+    };
+  }
+
+  async revokeShareLink(shareToken: string, owner: ComparisonOwner): Promise<boolean> {
+    try {
+      await this.request('/share', owner, { method: 'DELETE', body: { shareToken } });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private comparisonRequest(comparison: ComparisonResult | MultiPhoneComparison) {
+    return {
+      phoneIds: comparison.phones.map(phone => phone.id),
+      preferences: comparison.scoring ? { weights: comparison.scoring.weights } : undefined,
+    };
+  }
+
+  private async request<T>(
+    path: string,
+    owner: ComparisonOwner,
+    options: { method?: string; body?: unknown } = {}
+  ): Promise<T> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      [SESSION_ID_HEADER]: owner.sessionId || getBrowserSessionId(),
+    };
+    if (owner.userId) {
+      headers[USER_ID_HEADER] = owner.userId;
+    }
+
+    const response = await fetch(`${API_BASE}${path}`, {
+      method: options.method || 'GET',
+      headers,
+      body: options.body === undefined ? undefined : JSON.stringify(options.body),
+    });
+    const result = await response.json();
+
+    if (!response.ok || !result.success) {
+      throw new Error(result.error?.message || `Comparison request failed: ${response.statusText}`);
+    }
+
+    return result.data;
+  }
+}
@@ -0,0 +1,262 @@
+import { Phone, PhoneScores } from '../types/phone.js';
+import {
+  CategoryWeights,
+  ComparisonPreferences,
+  ScoringCategory,
+  ScoringCategorySchema,
+  ScoringExplanation,
+  WeightAdjustment
+} from '../types/comparison.js';
+import { UserPreferences } from '../types/chat.js';
+import { ValidationError } from '../middleware/errorHandler.js';
+
+type Usage = NonNullable<UserPreferences['usage']>;
+type Priority = NonNullable<UserPreferences['priorities']>[number];
+
+/**
+ * Category weights for overall scoring when no preferences are given
+ */
+export const DEFAULT_CATEGORY_WEIGHTS: CategoryWeights = {
+  display: 0.20,
+  camera: 0.25,
+  performance: 0.20,
+  battery: 0.15,
+  build: 0.10,
+  value: 0.10,
+};
+
+export const SCORING_CATEGORIES = ScoringCategorySchema.options;
+
+// Multipliers applied to the default weights for each usage profile
+const USAGE_PROFILES: Record<Usage, Partial<Record<ScoringCategory, number>>> = {
+  gaming: { performance: 1.8, display: 1.3, battery: 1.2 },
+  photography: { camera: 1.8, display: 1.2 },
+  business: { battery: 1.5, build: 1.3, performance: 1.2 },
+  casual: { value: 1.5, battery: 1.2 },
+};
+
+// Preference names that differ from the scoring category they map to
+const CATEGORY_ALIASES: Record<string, ScoringCategory> = {
+  price: 'value',
+};
+
+// First priority gets the biggest boost, later ones progressively less
+const PRIORITY_BOOSTS = [2, 1.75, 1.5, 1.25];
+
+/**
+ * Weights resolved from request preferences, with the reasons for each change
+ */
+export interface ResolvedWeights {
+  weights: CategoryWeights;
+  reasons: Record<ScoringCategory, string[]>;
+}
+
+/**
+ * Map a preference name onto a scoring category, if it is one
+ */
+export function toScoringCategory(name: string): ScoringCategory | undefined {
+  const key = name.trim().toLowerCase();
+  const category = CATEGORY_ALIASES[key] || key;
+
+  return (SCORING_CATEGORIES as readonly string[]).includes(category)
+    ? category as ScoringCategory
+    : undefined;
+}
+
+/**
+ * Whether preferences would change the default weights at all
+ */
+export function hasWeightPreferences(preferences?: ComparisonPreferences): boolean {
+  return !!preferences && (
+    !!preferences.usage ||
+    !!preferences.priorities?.length ||
+    !!preferences.categories?.length ||
+    Object.keys(preferences.weights || {}).length > 0
+  );
+}
+
+/**
+ * Derive normalized category weights from usage, priorities, explicit weights
+ * and a category filter, applied in that order
+ */
+export function resolveCategoryWeights(
+  preferences: ComparisonPreferences = {},
+  defaults: CategoryWeights = DEFAULT_CATEGORY_WEIGHTS
+): ResolvedWeights {
+  const raw: CategoryWeights = { ...defaults };
+  const reasons = Object.fromEntries(
+    SCORING_CATEGORIES.map(category => [category, [] as string[]])
+  ) as Record<ScoringCategory, string[]>;
+
+  if (preferences.usage) {
+    const profile = USAGE_PROFILES[preferences.usage];
+    (Object.keys(profile) as ScoringCategory[]).forEach(category => {
+      raw[category] *= profile[category]!;
+      reasons[category].push(`${preferences.usage} usage`);
+    });
+  }
+
+  preferences.priorities?.forEach((priority: Priority, index) => {
+    const category = toScoringCategory(priority);
+    if (!category) return;
+
+    raw[category] *= PRIORITY_BOOSTS[Math.min(index, PRIORITY_BOOSTS.length - 1)];
+    reasons[category].push(`${priority} priority #${index + 1}`);
+  });
+
+  const explicit = new Map<ScoringCategory, number>();
+  Object.entries(preferences.weights || {}).forEach(([name, weight]) => {
+    const category = toScoringCategory(name);
+    if (category) explicit.set(category, weight);
+  });
+
+  if (explicit.size > 0) {
+    // Explicit weights are shares of the whole budget, scaled down when they
+    // add up to more than 1; the rest goes to the other categories in
+    // proportion to their current weights
+    const explicitTotal = [...explicit.values()].reduce((sum, weight) => sum + weight, 0);
+    const scale = explicitTotal > 1 ? 1 / explicitTotal : 1;
+    const remaining = 1 - explicitTotal * scale;
+    const others = SCORING_CATEGORIES.filter(category => !explicit.has(category));
+    const othersTotal = others.reduce((sum, category) => sum + raw[category], 0);
+
+    others.forEach(category => {
+      if (remaining <= 0 && raw[category] > 0) {
+        reasons[category].push('explicit weights use the whole budget');
+      }
+      raw[category] = othersTotal > 0 ? remaining * raw[category] / othersTotal : 0;
+    });
+    explicit.forEach((weight, category) => {
+      raw[category] = weight * scale;
+      reasons[category].push('explicit weight');
+    });
+  }
+
+  if (preferences.categories?.length) {
+    const selected = new Set(preferences.categories.map(toScoringCategory).filter(Boolean));
+
+    SCORING_CATEGORIES.forEach(category => {
+      if (!selected.has(category) && raw[category] > 0) {
+        raw[category] = 0;
+        reasons[category].push('not in selected categories');
+      }
+    });
+  }
+
+  const total = SCORING_CATEGORIES.reduce((sum, category) => sum + raw[category], 0);
+
+  if (total <= 0) {
+    throw new ValidationError('At least one comparison category must have a positive weight');
+  }
+
+  const weights = Object.fromEntries(
+    SCORING_CATEGORIES.map(category => [category, raw[category] / total])
+  ) as CategoryWeights;
+
+  return { weights, reasons };
+}
+
+/**
+ * Weighted overall score, clamped to 0-100
+ */
+export function weightedOverall(scores: PhoneScores, weights: CategoryWeights): number {
+  const overall = Math.round(
+    SCORING_CATEGORIES.reduce((sum, category) => sum + scores[category] * weights[category], 0)
+  );
+
+  return Math.min(100, Math.max(0, overall));
+}
+
+/**
+ * Explain how the resolved weights shifted each phone's overall score
+ * `scores` holds category scores keyed by phone ID.
+ */
+export function explainWeighting(
+  phones: Phone[],
+  scores: Record<string, PhoneScores>,
+  resolved: ResolvedWeights,
+  defaults: CategoryWeights = DEFAULT_CATEGORY_WEIGHTS
+): ScoringExplanation {
+  const nameOf = (phoneId: string) => {
+    const phone = phones.find(candidate => candidate.id === phoneId)!;
+    return `${phone.brand} ${phone.model}`;
+  };
+
+  const adjustments: WeightAdjustment[] = SCORING_CATEGORIES
+    .filter(category => Math.abs(resolved.weights[category] - defaults[category]) >= 0.005)
+    .map(category => {
+      const delta = resolved.weights[category] - defaults[category];
+      const impact: Record<string, number> = {};
+      phones.forEach(phone => {
+        impact[phone.id] = round(scores[phone.id][category] * delta, 1);
+      });
+
+      // The phone that gains most relative to the others is the one the shift favours
+      const ranked = [...phones].sort((a, b) => impact[b.id] - impact[a.id]);
+      const favoredPhoneId = impact[ranked[0].id] !== impact[ranked[ranked.length - 1].id]
+        ? ranked[0].id
+        : undefined;
+
+      return {
+        category,
+        defaultWeight: round(defaults[category], 3),
+        weight: round(resolved.weights[category], 3),
+        reasons: resolved.reasons[category],
+        impact,
+        favoredPhoneId,
+      };
+    })
+    .sort((a, b) => Math.abs(b.weight - b.defaultWeight) - Math.abs(a.weight - a.defaultWeight));
+
+  const defaultLeaderIds = findLeaders(phones, phone => weightedOverall(scores[phone.id], defaults));
+  const leaderIds = findLeaders(phones, phone => weightedOverall(scores[phone.id], resolved.weights));
+  const outcomeChanged = defaultLeaderIds.join() !== leaderIds.join();
+
+  const shifts = adjustments.slice(0, 3).map(adjustment => {
+    const direction = adjustment.weight > adjustment.defaultWeight ? 'raised' : 'lowered';
+    const favoring = adjustment.favoredPhoneId ? `, favoring ${nameOf(adjustment.favoredPhoneId)}` : '';
+    return `${adjustment.category} weight ${direction} from ${percent(adjustment.defaultWeight)} to ${percent(adjustment.weight)} (${adjustment.reasons.join(', ')})${favoring}`;
+  });
+
+  const leaderNames = (ids: string[]) => ids.map(nameOf).join(' and ');
+  const outcome = outcomeChanged
+    ? `${leaderNames(leaderIds)} now ${leaderIds.length > 1 ? 'share the lead' : 'leads'}; with default weights ${leaderNames(defaultLeaderIds)} ${defaultLeaderIds.length > 1 ? 'would share it' : 'would win'}.`
+    : `The overall result is the same as with default weights.`;
+
+  return {
+    weights: roundWeights(resolved.weights),
+    defaultWeights: roundWeights(defaults),
+    adjustments,
+    defaultLeaderIds,
+    leaderIds,
+    outcomeChanged,
+    summary: shifts.length > 0
+      ? `${capitalize(shifts.join('; '))}. ${outcome}`
+      : `Default weights applied. ${outcome}`,
+  };
+}
+
+function findLeaders(phones: Phone[], overall: (phone: Phone) => number): string[] {
+  const values = phones.map(overall);
+  const best = Math.max(...values);
+  return phones.filter((_, index) => values[index] === best).map(phone => phone.id);
+}
+
+function roundWeights(weights: CategoryWeights): CategoryWeights {
+  return Object.fromEntries(
+    SCORING_CATEGORIES.map(category => [category, round(weights[category], 3)])
+  ) as CategoryWeights;
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function percent(weight: number): string {
+  return `${Math.round(weight * 100)}%`;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -0,0 +1,134 @@
+import {
+  BankCashbackOffer,
+  BuyerProfile,
+  EffectivePrice,
+  ExchangeOffer,
+  NoCostEmiOffer,
+  PaymentCard,
+  Phone,
+  RetailerPrice
+} from '../types/phone.js';
+
+type AppliedOffer = EffectivePrice['appliedOffers'][number];
+
+/**
+ * Compare bank names loosely: "HDFC Bank", "hdfc" and "HDFC Bank Credit Card"
+ * all name the same bank
+ */
+export function normalizeBankName(bank: string): string {
+  return bank
+    .toLowerCase()
+    .replace(/\b(bank|credit|debit|cards?|ltd|limited)\b/g, '')
+    .replace(/[^a-z0-9]/g, '');
+}
+
+const hasCardFor = (cards: PaymentCard[], bank: string, cardType: BankCashbackOffer['cardType'] = 'any') => {
+  const name = normalizeBankName(bank);
+  return cards.some(card =>
+    normalizeBankName(card.bank) === name && (cardType === 'any' || card.type === cardType)
+  );
+};
+
+/**
+ * Discount a bank offer gives on a price, or 0 when it does not apply
+ */
+export function getCashbackAmount(offer: BankCashbackOffer, price: number): number {
+  if (offer.minPurchase !== undefined && price < offer.minPurchase) {
+    return 0;
+  }
+
+  const discount = offer.amount ?? (offer.percent !== undefined ? (price * offer.percent) / 100 : 0);
+  return Math.round(Math.min(discount, offer.maxDiscount ?? Infinity, price));
+}
+
+/**
+ * Trade-in credit for the buyer's old phone, or 0 when they have none
+ */
+export function getExchangeAmount(offer: ExchangeOffer, exchangeValue?: number): number {
+  if (!exchangeValue) {
+    return 0;
+  }
+  return Math.round(Math.min(exchangeValue, offer.maxValue) + offer.bonus);
+}
+
+const describeCashback = (offer: BankCashbackOffer) => {
+  return offer.description ?? `${offer.bank}${offer.cardType === 'any' ? '' : ` ${offer.cardType}`} card offer`;
+};
+
+/**
+ * Price a buyer pays at one retailer
+ * Only the best bank offer counts, since retailers do not stack them, but it
+ * combines with the best exchange offer. No-cost EMI leaves the price as is
+ * and is reported as the longest tenure the buyer's cards qualify for.
+ */
+export function calculateEffectivePrice(retailerPrice: RetailerPrice, buyer: BuyerProfile): EffectivePrice {
+  const { price, offers } = retailerPrice;
+  const appliedOffers: AppliedOffer[] = [];
+
+  const cashback = offers
+    .filter((offer): offer is BankCashbackOffer => offer.type === 'bank_cashback')
+    .filter(offer => hasCardFor(buyer.cards, offer.bank, offer.cardType))
+    .map(offer => ({ offer, amount: getCashbackAmount(offer, price) }))
+    .filter(({ amount }) => amount > 0)
+    .sort((a, b) => b.amount - a.amount)[0];
+
+  if (cashback) {
+    appliedOffers.push({ type: 'bank_cashback', label: describeCashback(cashback.offer), amount: cashback.amount });
+  }
+
+  const exchange = offers
+    .filter((offer): offer is ExchangeOffer => offer.type === 'exchange')
+    .map(offer => ({ offer, amount: getExchangeAmount(offer, buyer.exchangeValue) }))
+    .filter(({ amount }) => amount > 0)
+    .sort((a, b) => b.amount - a.amount)[0];
+
+  if (exchange) {
+    appliedOffers.push({ type: 'exchange', label: exchange.offer.description ?? 'Exchange offer', amount: exchange.amount });
+  }
+
+  const savings = Math.min(appliedOffers.reduce((sum, offer) => sum + offer.amount, 0), price);
+  const effectivePrice = price - savings;
+
+  // No-cost EMI runs on credit cards
+  const creditCards = buyer.cards.filter(card => card.type === 'credit');
+  const emi = offers
+    .filter((offer): offer is NoCostEmiOffer => offer.type === 'no_cost_emi')
+    .filter(offer => (offer.bank ? hasCardFor(creditCards, offer.bank) : creditCards.length > 0))
+    .map(offer => ({ bank: offer.bank, tenureMonths: Math.max(...offer.tenureMonths) }))
+    .sort((a, b) => b.tenureMonths - a.tenureMonths)[0];
+
+  return {
+    retailer: retailerPrice.retailer,
+    listPrice: price,
+    effectivePrice,
+    savings,
+    appliedOffers,
+    emi: emi
+      ? { ...emi, monthlyAmount: Math.ceil(effectivePrice / emi.tenureMonths) }
+      : null,
+    url: retailerPrice.url,
+  };
+}
+
+/**
+ * Effective prices at every retailer, cheapest first
+ */
+export function calculateEffectivePrices(retailerPrices: RetailerPrice[], buyer: BuyerProfile): EffectivePrice[] {
+  return retailerPrices
+    .map(retailerPrice => calculateEffectivePrice(retailerPrice, buyer))
+    .sort((a, b) => a.effectivePrice - b.effectivePrice || a.listPrice - b.listPrice);
+}
+
+/**
+ * Price used for value scoring: the buyer's effective price when known
+ */
+export function getScoringPrice(phone: Phone): number {
+  return phone.pricing.effectivePrice ?? phone.pricing.currentPrice;
+}
+
+/**
+ * Whether offers have been applied to a phone's price
+ */
+export function hasEffectivePrice(phone: Phone): boolean {
+  return phone.pricing.effectivePrice !== undefined;
+}
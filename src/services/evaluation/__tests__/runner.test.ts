@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { AdvancedAIService } from '../../ai.js';
+import { EvaluationRunner, diffReports } from '../runner.js';
+import { RecordingStandIn } from '../standIn.js';
+import { EvalCase, EvalTarget } from '../types.js';
+
+const cases: EvalCase[] = [
+  {
+    id: 'galaxy',
+    utterance: 'samsng galaxy s24',
+    tags: ['typo'],
+    expected: { phoneSelection: { brand: 'Samsung', model: 'Galaxy S24' }, nextStep: 'model_selection' },
+  },
+  {
+    id: 'budget',
+    utterance: 'mujhe 30k ke andar phone chahiye',
+    tags: ['hinglish', 'budget'],
+    expected: { phoneSelection: null, preferences: { budget: { max: 30000 } } },
+  },
+];
+
+describe('EvaluationRunner', () => {
+  const runner = new EvaluationRunner();
+
+  it('should score extraction, preferences and step for each case', async () => {
+    const target: EvalTarget = {
+      extractPhoneSelection: vi.fn(async (message: string) =>
+        message.includes('s24') ? { brand: 'Samsung', model: 'Galaxy S24' } : null
+      ),
+      processUserMessage: vi.fn(async () => ({
+        message: 'ok',
+        nextStep: 'model_selection' as const,
+        extractedData: { preferences: { budget: { max: 25000 } } },
+      })),
+    };
+
+    const report = await runner.run(target, { target: 'fake', cases, datasetVersion: 'test' });
+
+    expect(report.metrics).toMatchObject({
+      cases: 2,
+      passed: 1,
+      extraction: { precision: 1, recall: 1 },
+      preferences: { truePositives: 0, predicted: 1, expected: 1 },
+      stepAccuracy: 1,
+    });
+    expect(report.byTag.hinglish?.passed).toBe(0);
+    expect(target.processUserMessage).toHaveBeenCalledWith('samsng galaxy s24', expect.objectContaining({
+      sessionId: 'eval_galaxy',
+      currentStep: 'brand_selection',
+    }));
+  });
+
+  it('should record target errors against the case', async () => {
+    const target: EvalTarget = {
+      extractPhoneSelection: vi.fn(async () => { throw new Error('quota exceeded'); }),
+      processUserMessage: vi.fn(),
+    };
+
+    const report = await runner.run(target, { target: 'broken', cases: cases.slice(0, 1) });
+
+    expect(report.cases[0]).toMatchObject({ passed: false, error: 'quota exceeded' });
+    expect(report.metrics.extraction.recall).toBe(0);
+  });
+
+  it('should diff two reports by metric and by case', async () => {
+    const good: EvalTarget = {
+      extractPhoneSelection: async () => ({ brand: 'Samsung', model: 'Galaxy S24' }),
+      processUserMessage: async () => ({ message: 'ok', nextStep: 'model_selection' }),
+    };
+    const worse: EvalTarget = { ...good, extractPhoneSelection: async () => ({ brand: 'Samsung', model: 'Galaxy S23' }) };
+
+    const baseline = await runner.run(good, { target: 'v1', cases: cases.slice(0, 1) });
+    const current = await runner.run(worse, { target: 'v2', cases });
+
+    expect(diffReports(baseline, current)).toMatchObject({
+      datasetChanged: false,
+      delta: { extractionPrecision: -0.75, passed: -1 },
+      regressed: ['galaxy'],
+      fixed: [],
+      added: ['budget'],
+    });
+  });
+});
+
+describe('RecordingStandIn', () => {
+  let upstream: Server;
+  let upstreamUrl: string;
+  let upstreamCalls = 0;
+
+  const reply = (content: string) => ({ choices: [{ message: { content } }] });
+
+  beforeAll(async () => {
+    upstream = createServer((req, res) => {
+      let raw = '';
+      req.on('data', chunk => { raw += chunk; });
+      req.on('end', () => {
+        upstreamCalls++;
+        const { messages } = JSON.parse(raw);
+        const prompt: string = messages[messages.length - 1].content;
+        const body = prompt.startsWith('Extract phone')
+          ? reply('{"brand": "Samsung", "model": "Galaxy S24"}')
+          : reply(JSON.stringify({ message: 'Nice pick', nextStep: 'model_selection', extractedData: {} }));
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+      });
+    });
+    await new Promise<void>(resolve => upstream.listen(0, '127.0.0.1', resolve));
+    upstreamUrl = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    upstream.close();
+  });
+
+  const evaluateThrough = async (standIn: RecordingStandIn) => {
+    const baseUrl = await standIn.start();
+    try {
+      const service = new AdvancedAIService({
+        provider: 'openai', openaiApiKey: 'test-key', openaiBaseUrl: baseUrl, retryAttempts: 1,
+      });
+      return await new EvaluationRunner().run(service, { target: 'openai', cases: cases.slice(0, 1) });
+    } finally {
+      await standIn.stop();
+    }
+  };
+
+  it('should record upstream replies and replay them without the upstream', async () => {
+    const recorder = new RecordingStandIn(undefined, upstreamUrl);
+    const recorded = await evaluateThrough(recorder);
+    const calls = upstreamCalls;
+
+    expect(calls).toBe(2);
+    expect(Object.keys(recorder.getRecording().exchanges)).toHaveLength(2);
+
+    const replayer = new RecordingStandIn(JSON.parse(JSON.stringify(recorder.getRecording())));
+    const replayed = await evaluateThrough(replayer);
+
+    expect(upstreamCalls).toBe(calls);
+    expect(replayer.misses).toEqual([]);
+    expect(replayed.cases).toEqual(recorded.cases);
+    expect(replayed.metrics.passed).toBe(1);
+  });
+
+  it('should report requests missing from the recording', async () => {
+    const replayer = new RecordingStandIn();
+    const report = await evaluateThrough(replayer);
+
+    expect(replayer.misses.length).toBeGreaterThan(0);
+    expect(report.cases[0].phoneSelection.actual).toEqual({ brand: 'Samsung', model: 'galaxy s24', variant: undefined });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { GOLDEN_CASES } from '../dataset.js';
+import { scoreCase, scorePhoneSelection, scorePreferences, summarizeResults, toSlotScores } from '../scoring.js';
+
+describe('scorePhoneSelection', () => {
+  it('should match names regardless of case, spacing and a repeated brand', () => {
+    expect(scorePhoneSelection(
+      { brand: 'OnePlus', model: 'OnePlus 12R' },
+      { brand: 'Oneplus', model: '12r' }
+    )).toEqual({ truePositives: 2, predicted: 2, expected: 2 });
+  });
+
+  it('should compare variants by RAM and storage', () => {
+    const expected = { brand: 'Samsung', model: 'Galaxy S24 Ultra', variant: '512GB' };
+
+    expect(scorePhoneSelection(expected, { ...expected, variant: '512' }).truePositives).toBe(3);
+    expect(scorePhoneSelection(expected, { ...expected, variant: '256 GB' }).truePositives).toBe(2);
+    expect(scorePhoneSelection(
+      { brand: 'OnePlus', model: 'OnePlus 12', variant: '16GB + 512GB' },
+      { brand: 'OnePlus', model: 'OnePlus 12', variant: '16/512' }
+    ).truePositives).toBe(3);
+  });
+
+  it('should count a phone found where none was named as false positives', () => {
+    expect(scorePhoneSelection(null, { brand: 'Xiaomi', model: 'Mi 14' })).toEqual({ truePositives: 0, predicted: 2, expected: 0 });
+    expect(scorePhoneSelection({ brand: 'Apple', model: 'iPhone 15' }, null)).toEqual({ truePositives: 0, predicted: 0, expected: 2 });
+  });
+});
+
+describe('scorePreferences', () => {
+  it('should score budget bounds, usage and each priority', () => {
+    expect(scorePreferences(
+      { budget: { max: 30000 }, priorities: ['camera', 'battery'], usage: 'photography' },
+      { budget: { min: 10000, max: 30000 }, priorities: ['camera', 'display'] }
+    )).toEqual({ truePositives: 2, predicted: 4, expected: 4 });
+  });
+});
+
+describe('scoreCase', () => {
+  const evalCase = GOLDEN_CASES.find(candidate => candidate.id === 'hinglish-budget-camera')!;
+
+  it('should pass only when every scored slot and the step match', () => {
+    const exact = scoreCase(evalCase, {
+      phoneSelection: null,
+      preferences: { budget: { max: 30000 }, priorities: ['camera'] },
+      nextStep: 'brand_selection',
+    });
+    const wrongStep = scoreCase(evalCase, { ...exact, phoneSelection: null, preferences: exact.preferences!.actual, nextStep: 'comparison' });
+
+    expect(exact.passed).toBe(true);
+    expect(wrongStep.passed).toBe(false);
+    expect(wrongStep.step).toEqual({ expected: 'brand_selection', actual: 'comparison', correct: false });
+  });
+
+  it('should fail cases that errored', () => {
+    const result = scoreCase(evalCase, { phoneSelection: null, preferences: null, nextStep: null }, 'timeout');
+
+    expect(result).toMatchObject({ passed: false, error: 'timeout' });
+  });
+});
+
+describe('summarizeResults', () => {
+  it('should compute precision and recall over summed slots', () => {
+    expect(toSlotScores({ truePositives: 3, predicted: 4, expected: 6 })).toEqual({
+      truePositives: 3, predicted: 4, expected: 6, precision: 0.75, recall: 0.5, f1: 0.6,
+    });
+    expect(toSlotScores({ truePositives: 0, predicted: 0, expected: 0 })).toMatchObject({ precision: 1, recall: 1, f1: 1 });
+  });
+
+  it('should leave step accuracy empty when no case expects a step', () => {
+    const result = scoreCase(GOLDEN_CASES.find(candidate => candidate.id === 'typo-pixle')!, {
+      phoneSelection: { brand: 'Google', model: 'Pixel 8 Pro' },
+      preferences: null,
+      nextStep: null,
+    });
+
+    expect(summarizeResults([result])).toMatchObject({ cases: 1, passed: 1, stepAccuracy: null });
+  });
+});
+
+describe('golden dataset', () => {
+  it('should have unique case IDs', () => {
+    const ids = GOLDEN_CASES.map(evalCase => evalCase.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('should cover typos, Hinglish and variants', () => {
+    const tags = new Set(GOLDEN_CASES.flatMap(evalCase => evalCase.tags));
+    expect([...tags]).toEqual(expect.arrayContaining(['typo', 'hinglish', 'variant', 'budget', 'no_phone']));
+  });
+});
@@ -0,0 +1,191 @@
+import { EvalCase } from './types.js';
+
+/**
+ * Golden dataset version; bump whenever cases or expectations change so
+ * diffs between reports can tell the dataset moved under them
+ */
+export const GOLDEN_DATASET_VERSION = '2024.10.1';
+
+export const GOLDEN_CASES: EvalCase[] = [
+  // Clean phone names
+  {
+    id: 'clean-iphone-15-pro',
+    utterance: 'Tell me about the iPhone 15 Pro',
+    tags: ['clean'],
+    expected: { phoneSelection: { brand: 'Apple', model: 'iPhone 15 Pro' }, nextStep: 'model_selection' },
+  },
+  {
+    id: 'clean-galaxy-s24',
+    utterance: 'I want the Samsung Galaxy S24',
+    tags: ['clean'],
+    expected: { phoneSelection: { brand: 'Samsung', model: 'Galaxy S24' }, nextStep: 'model_selection' },
+  },
+  {
+    id: 'clean-oneplus-12',
+    utterance: 'How is the OnePlus 12?',
+    tags: ['clean'],
+    expected: { phoneSelection: { brand: 'OnePlus', model: 'OnePlus 12' } },
+  },
+  {
+    id: 'clean-pixel-8',
+    utterance: 'Google Pixel 8 camera samples look great',
+    tags: ['clean'],
+    expected: { phoneSelection: { brand: 'Google', model: 'Pixel 8' } },
+  },
+  {
+    id: 'clean-second-phone',
+    utterance: 'Compare it with the Pixel 8 Pro',
+    tags: ['clean', 'follow_up'],
+    context: { currentStep: 'brand_selection', selectedPhones: ['Samsung Galaxy S24'] },
+    expected: { phoneSelection: { brand: 'Google', model: 'Pixel 8 Pro' }, nextStep: 'comparison' },
+  },
+
+  // Typos
+  {
+    id: 'typo-samsng-galaxy',
+    utterance: 'samsng galaxy s24 ultra',
+    tags: ['typo'],
+    expected: { phoneSelection: { brand: 'Samsung', model: 'Galaxy S24 Ultra' } },
+  },
+  {
+    id: 'typo-iphne',
+    utterance: 'iphne 15 pro max price?',
+    tags: ['typo'],
+    expected: { phoneSelection: { brand: 'Apple', model: 'iPhone 15 Pro Max' } },
+  },
+  {
+    id: 'typo-pixle',
+    utterance: 'is the pixle 8 pro worth it',
+    tags: ['typo'],
+    expected: { phoneSelection: { brand: 'Google', model: 'Pixel 8 Pro' } },
+  },
+  {
+    id: 'typo-one-plus-spaced',
+    utterance: 'one plus 12r for gaming',
+    tags: ['typo'],
+    expected: {
+      phoneSelection: { brand: 'OnePlus', model: 'OnePlus 12R' },
+      preferences: { usage: 'gaming' },
+    },
+  },
+  {
+    id: 'typo-redmi-note',
+    utterance: 'redmi note 13 pro+ camera kaisa hai',
+    tags: ['typo', 'hinglish'],
+    expected: { phoneSelection: { brand: 'Xiaomi', model: 'Redmi Note 13 Pro+' } },
+  },
+
+  // Hinglish
+  {
+    id: 'hinglish-budget-camera',
+    utterance: 'mujhe 30k ke andar achha camera wala phone chahiye',
+    tags: ['hinglish', 'budget', 'no_phone'],
+    expected: {
+      phoneSelection: null,
+      nextStep: 'brand_selection',
+      preferences: { budget: { max: 30000 }, priorities: ['camera'] },
+    },
+  },
+  {
+    id: 'hinglish-price',
+    utterance: 'iphone 15 ka price kya hai',
+    tags: ['hinglish'],
+    expected: { phoneSelection: { brand: 'Apple', model: 'iPhone 15' } },
+  },
+  {
+    id: 'hinglish-gaming',
+    utterance: 'gaming ke liye best phone batao 50000 tak',
+    tags: ['hinglish', 'budget', 'no_phone'],
+    expected: {
+      phoneSelection: null,
+      preferences: { budget: { max: 50000 }, usage: 'gaming', priorities: ['performance'] },
+    },
+  },
+  {
+    id: 'hinglish-battery',
+    utterance: 'Samsung Galaxy A55 ki battery kitni chalti hai',
+    tags: ['hinglish'],
+    expected: { phoneSelection: { brand: 'Samsung', model: 'Galaxy A55' } },
+  },
+  {
+    id: 'hinglish-compare',
+    utterance: 'iPhone 15 aur Galaxy S24 mein kaunsa better hai',
+    tags: ['hinglish'],
+    expected: { phoneSelection: { brand: 'Apple', model: 'iPhone 15' } },
+  },
+
+  // Variants
+  {
+    id: 'variant-s24-ultra-512',
+    utterance: 'S24 Ultra 512',
+    tags: ['variant'],
+    expected: { phoneSelection: { brand: 'Samsung', model: 'Galaxy S24 Ultra', variant: '512GB' } },
+  },
+  {
+    id: 'variant-iphone-256',
+    utterance: 'iPhone 15 256GB',
+    tags: ['variant'],
+    expected: { phoneSelection: { brand: 'Apple', model: 'iPhone 15', variant: '256GB' } },
+  },
+  {
+    id: 'variant-oneplus-ram-storage',
+    utterance: 'OnePlus 12 16/512 lena hai',
+    tags: ['variant', 'hinglish'],
+    expected: { phoneSelection: { brand: 'OnePlus', model: 'OnePlus 12', variant: '16GB + 512GB' } },
+  },
+  {
+    id: 'variant-pixel-128',
+    utterance: 'Pixel 8 with 8 GB RAM and 128 GB storage',
+    tags: ['variant'],
+    expected: { phoneSelection: { brand: 'Google', model: 'Pixel 8', variant: '8GB + 128GB' } },
+  },
+
+  // Budgets and preferences without a phone
+  {
+    id: 'budget-range',
+    utterance: 'Recommend a phone between 20,000 and 25,000 with good battery',
+    tags: ['budget', 'no_phone'],
+    expected: {
+      phoneSelection: null,
+      nextStep: 'brand_selection',
+      preferences: { budget: { min: 20000, max: 25000 }, priorities: ['battery'] },
+    },
+  },
+  {
+    id: 'budget-lakh',
+    utterance: 'best camera phone under 1 lakh for photography',
+    tags: ['budget', 'no_phone'],
+    expected: {
+      phoneSelection: null,
+      preferences: { budget: { max: 100000 }, priorities: ['camera'], usage: 'photography' },
+    },
+  },
+  {
+    id: 'no-phone-greeting',
+    utterance: 'hi, can you help me pick a phone?',
+    tags: ['no_phone'],
+    expected: { phoneSelection: null, nextStep: 'brand_selection' },
+  },
+  {
+    id: 'no-phone-brand-only',
+    utterance: 'Show me Samsung phones',
+    tags: ['no_phone'],
+    expected: { phoneSelection: null, nextStep: 'model_selection' },
+  },
+
+  // Follow-ups that lean on the current step
+  {
+    id: 'follow-up-model-only',
+    utterance: 'the S24 Ultra please',
+    tags: ['follow_up'],
+    context: { currentStep: 'model_selection', selectedBrand: 'Samsung', selectedPhones: [] },
+    expected: { phoneSelection: { brand: 'Samsung', model: 'Galaxy S24 Ultra' } },
+  },
+  {
+    id: 'follow-up-hinglish-model',
+    utterance: 'iPhone 15 Pro wala dikhao',
+    tags: ['follow_up', 'hinglish'],
+    context: { currentStep: 'model_selection', selectedBrand: 'Apple', selectedPhones: [] },
+    expected: { phoneSelection: { brand: 'Apple', model: 'iPhone 15 Pro' } },
+  },
+];
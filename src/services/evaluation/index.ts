@@ -0,0 +1,13 @@
+export * from './types.js';
+export { GOLDEN_CASES, GOLDEN_DATASET_VERSION } from './dataset.js';
+export {
+  scorePhoneSelection,
+  scorePreferences,
+  scoreCase,
+  toSlotScores,
+  summarizeResults,
+  summarizeByTag,
+} from './scoring.js';
+export { EvaluationRunner, evaluationRunner, createEvalContext, diffReports } from './runner.js';
+export type { EvalRunOptions } from './runner.js';
+export { RecordingStandIn, createRecording, getExchangeKey } from './standIn.js';
@@ -0,0 +1,120 @@
+import { ChatContext, ChatStep, UserPreferences, UserPreferencesSchema } from '../../types/chat.js';
+import { PhoneSelection } from '../../types/phone.js';
+import { GOLDEN_CASES, GOLDEN_DATASET_VERSION } from './dataset.js';
+import { scoreCase, summarizeByTag, summarizeResults } from './scoring.js';
+import { EvalCase, EvalCaseResult, EvalDiff, EvalReport, EvalTarget } from './types.js';
+
+/**
+ * Options for an evaluation run
+ */
+export interface EvalRunOptions {
+  target: string; // Label stored in the report, e.g. "openai/gpt-4-turbo"
+  cases?: EvalCase[];
+  datasetVersion?: string;
+  onCase?: (result: EvalCaseResult) => void;
+}
+
+/**
+ * Chat context a golden case is evaluated in
+ */
+export function createEvalContext(evalCase: EvalCase, now: Date = new Date()): ChatContext {
+  return {
+    sessionId: `eval_${evalCase.id}`,
+    conversationHistory: [],
+    currentStep: evalCase.context?.currentStep ?? 'brand_selection',
+    selectedBrand: evalCase.context?.selectedBrand,
+    selectedPhones: evalCase.context?.selectedPhones ?? [],
+    preferences: evalCase.context?.preferences,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Runs golden cases against a target and scores the answers
+ * Extraction is scored on `extractPhoneSelection`; step and preferences on
+ * the reply from `processUserMessage`. Cases run one at a time so provider
+ * rate limits and recorded replies see a stable request order.
+ */
+export class EvaluationRunner {
+  async run(evalTarget: EvalTarget, options: EvalRunOptions): Promise<EvalReport> {
+    const cases = options.cases ?? GOLDEN_CASES;
+    const startedAt = new Date();
+    const results: EvalCaseResult[] = [];
+
+    for (const evalCase of cases) {
+      const result = await this.runCase(evalTarget, evalCase);
+      results.push(result);
+      options.onCase?.(result);
+    }
+
+    return {
+      datasetVersion: options.datasetVersion ?? GOLDEN_DATASET_VERSION,
+      target: options.target,
+      startedAt: startedAt.toISOString(),
+      durationMs: Date.now() - startedAt.getTime(),
+      metrics: summarizeResults(results),
+      byTag: summarizeByTag(results),
+      cases: results,
+    };
+  }
+
+  private async runCase(evalTarget: EvalTarget, evalCase: EvalCase): Promise<EvalCaseResult> {
+    let phoneSelection: PhoneSelection | null = null;
+    let preferences: UserPreferences | null = null;
+    let nextStep: ChatStep | null = null;
+
+    try {
+      phoneSelection = await evalTarget.extractPhoneSelection(evalCase.utterance);
+
+      if (evalCase.expected.nextStep || evalCase.expected.preferences) {
+        const response = await evalTarget.processUserMessage(evalCase.utterance, createEvalContext(evalCase));
+        const parsed = UserPreferencesSchema.safeParse(response.extractedData?.preferences);
+
+        preferences = parsed.success ? parsed.data : null;
+        nextStep = response.nextStep ?? null;
+      }
+
+      return scoreCase(evalCase, { phoneSelection, preferences, nextStep });
+
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return scoreCase(evalCase, { phoneSelection, preferences, nextStep }, message);
+    }
+  }
+}
+
+const delta = (current: number, baseline: number) => Math.round((current - baseline) * 10000) / 10000;
+
+/**
+ * Compare a run against a baseline report
+ */
+export function diffReports(baseline: EvalReport, current: EvalReport): EvalDiff {
+  const baselineCases = new Map(baseline.cases.map(result => [result.id, result]));
+  const { metrics } = current;
+  const { metrics: before } = baseline;
+
+  return {
+    baseline: { target: baseline.target, startedAt: baseline.startedAt },
+    current: { target: current.target, startedAt: current.startedAt },
+    datasetChanged: baseline.datasetVersion !== current.datasetVersion,
+    delta: {
+      extractionF1: delta(metrics.extraction.f1, before.extraction.f1),
+      extractionPrecision: delta(metrics.extraction.precision, before.extraction.precision),
+      extractionRecall: delta(metrics.extraction.recall, before.extraction.recall),
+      preferencesF1: delta(metrics.preferences.f1, before.preferences.f1),
+      stepAccuracy: metrics.stepAccuracy !== null && before.stepAccuracy !== null
+        ? delta(metrics.stepAccuracy, before.stepAccuracy)
+        : null,
+      passed: metrics.passed - before.passed,
+    },
+    regressed: current.cases.filter(result => !result.passed && baselineCases.get(result.id)?.passed).map(result => result.id),
+    fixed: current.cases
+      .filter(result => result.passed && baselineCases.has(result.id) && !baselineCases.get(result.id)?.passed)
+      .map(result => result.id),
+    added: current.cases.filter(result => !baselineCases.has(result.id)).map(result => result.id),
+  };
+}
+
+// Export singleton instance
+export const evaluationRunner = new EvaluationRunner();
@@ -0,0 +1,160 @@
+import { ChatStep, UserPreferences } from '../../types/chat.js';
+import { PhoneSelection } from '../../types/phone.js';
+import { parseVariantLabel } from '../variants.js';
+import { EvalCase, EvalCaseResult, EvalMetrics, EvalTag, SlotCounts, SlotScores } from './types.js';
+
+/**
+ * Lowercase alphanumerics only, keeping "+" for names like "Pro+"
+ */
+function normalizeName(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9+]/g, '');
+}
+
+/**
+ * Model name without a leading brand, so "OnePlus 12" and "12" agree
+ */
+function normalizeModel(model: string, brand: string): string {
+  const name = normalizeName(model);
+  const prefix = normalizeName(brand);
+  return prefix && name.startsWith(prefix) && name.length > prefix.length ? name.slice(prefix.length) : name;
+}
+
+/**
+ * RAM and storage a variant names; a bare number is read as storage
+ */
+function variantKey(variant: string): string {
+  const bare = variant.trim().match(/^(\d{2,4})$/);
+  const { ramGb, storageGb } = bare ? { ramGb: undefined, storageGb: Number(bare[1]) } : parseVariantLabel(variant);
+
+  return ramGb === undefined && storageGb === undefined
+    ? normalizeName(variant)
+    : `${ramGb ?? ''}/${storageGb ?? ''}`;
+}
+
+function countSlots(expected: Array<unknown>, actual: Array<unknown>, matches: boolean[]): SlotCounts {
+  return {
+    truePositives: matches.filter(Boolean).length,
+    predicted: actual.filter(value => value !== undefined).length,
+    expected: expected.filter(value => value !== undefined).length,
+  };
+}
+
+/**
+ * Brand, model and variant slots of a phone selection
+ */
+export function scorePhoneSelection(expected: PhoneSelection | null, actual: PhoneSelection | null): SlotCounts {
+  const brand = expected?.brand ?? '';
+  const matches = [
+    !!expected && !!actual && normalizeName(expected.brand) === normalizeName(actual.brand),
+    !!expected && !!actual && normalizeModel(expected.model, brand) === normalizeModel(actual.model, brand),
+    !!expected?.variant && !!actual?.variant && variantKey(expected.variant) === variantKey(actual.variant),
+  ];
+
+  return countSlots(
+    [expected?.brand || undefined, expected?.model || undefined, expected?.variant || undefined],
+    [actual?.brand || undefined, actual?.model || undefined, actual?.variant || undefined],
+    matches
+  );
+}
+
+/**
+ * Budget bounds, usage and each priority as separate slots
+ */
+export function scorePreferences(expected: UserPreferences, actual: UserPreferences | null): SlotCounts {
+  const actualPriorities = new Set(actual?.priorities ?? []);
+  const expectedPriorities = expected.priorities ?? [];
+
+  const scalar = [
+    [expected.budget?.min, actual?.budget?.min],
+    [expected.budget?.max, actual?.budget?.max],
+    [expected.usage, actual?.usage],
+  ];
+
+  return {
+    truePositives: scalar.filter(([want, got]) => want !== undefined && want === got).length
+      + expectedPriorities.filter(priority => actualPriorities.has(priority)).length,
+    predicted: scalar.filter(([, got]) => got !== undefined).length + actualPriorities.size,
+    expected: scalar.filter(([want]) => want !== undefined).length + expectedPriorities.length,
+  };
+}
+
+function isExact(slots: SlotCounts): boolean {
+  return slots.truePositives === slots.predicted && slots.truePositives === slots.expected;
+}
+
+/**
+ * Score one golden case against what the target returned
+ */
+export function scoreCase(
+  evalCase: EvalCase,
+  actual: { phoneSelection: PhoneSelection | null; preferences: UserPreferences | null; nextStep: ChatStep | null },
+  error?: string
+): EvalCaseResult {
+  const { expected } = evalCase;
+  const phoneSlots = scorePhoneSelection(expected.phoneSelection, actual.phoneSelection);
+  const preferenceSlots = expected.preferences ? scorePreferences(expected.preferences, actual.preferences) : undefined;
+  const stepCorrect = expected.nextStep ? expected.nextStep === actual.nextStep : undefined;
+
+  return {
+    id: evalCase.id,
+    tags: evalCase.tags,
+    phoneSelection: { expected: expected.phoneSelection, actual: actual.phoneSelection, slots: phoneSlots },
+    ...(expected.preferences && preferenceSlots
+      ? { preferences: { expected: expected.preferences, actual: actual.preferences, slots: preferenceSlots } }
+      : {}),
+    ...(expected.nextStep ? { step: { expected: expected.nextStep, actual: actual.nextStep, correct: !!stepCorrect } } : {}),
+    passed: !error && isExact(phoneSlots) && (!preferenceSlots || isExact(preferenceSlots)) && stepCorrect !== false,
+    ...(error ? { error } : {}),
+  };
+}
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+/**
+ * Precision, recall and F1 from summed slot counts
+ * With nothing predicted precision is 1; with nothing expected recall is 1.
+ */
+export function toSlotScores(counts: SlotCounts): SlotScores {
+  const precision = counts.predicted > 0 ? counts.truePositives / counts.predicted : 1;
+  const recall = counts.expected > 0 ? counts.truePositives / counts.expected : 1;
+  const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+
+  return { ...counts, precision: round(precision), recall: round(recall), f1: round(f1) };
+}
+
+function sumSlots(slots: SlotCounts[]): SlotCounts {
+  return slots.reduce(
+    (total, next) => ({
+      truePositives: total.truePositives + next.truePositives,
+      predicted: total.predicted + next.predicted,
+      expected: total.expected + next.expected,
+    }),
+    { truePositives: 0, predicted: 0, expected: 0 }
+  );
+}
+
+/**
+ * Aggregate case results into run metrics
+ */
+export function summarizeResults(results: EvalCaseResult[]): EvalMetrics {
+  const steps = results.flatMap(result => result.step ? [result.step] : []);
+
+  return {
+    cases: results.length,
+    passed: results.filter(result => result.passed).length,
+    extraction: toSlotScores(sumSlots(results.map(result => result.phoneSelection.slots))),
+    preferences: toSlotScores(sumSlots(results.flatMap(result => result.preferences ? [result.preferences.slots] : []))),
+    stepAccuracy: steps.length > 0 ? round(steps.filter(step => step.correct).length / steps.length) : null,
+  };
+}
+
+/**
+ * Metrics per tag; a case counts towards every tag it carries
+ */
+export function summarizeByTag(results: EvalCaseResult[]): Partial<Record<EvalTag, EvalMetrics>> {
+  const tags = Array.from(new Set(results.flatMap(result => result.tags)));
+
+  return Object.fromEntries(
+    tags.map(tag => [tag, summarizeResults(results.filter(result => result.tags.includes(tag)))])
+  );
+}
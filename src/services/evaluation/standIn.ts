@@ -0,0 +1,133 @@
+import { createHash } from 'node:crypto';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { EvalRecording, RecordedExchange } from './types.js';
+
+// Request headers forwarded to the upstream API when recording
+const FORWARDED_HEADERS = ['authorization', 'x-api-key', 'anthropic-version', 'content-type'];
+
+/**
+ * Empty recording to start a new capture from
+ */
+export function createRecording(): EvalRecording {
+  return { version: 1, exchanges: {} };
+}
+
+/**
+ * Key a provider request by path and body, which are deterministic for a
+ * given prompt, model and generation settings
+ */
+export function getExchangeKey(path: string, body: string): string {
+  return createHash('sha256').update(`${path}\n${body}`).digest('hex');
+}
+
+/**
+ * Local stand-in for an OpenAI- or Claude-style API
+ * Replays recorded replies so evaluations run offline and repeatably. Given
+ * an upstream base URL, requests with no recorded reply are forwarded and
+ * the reply is added to the recording. Point the service's `openaiBaseUrl`
+ * or `claudeBaseUrl` at `baseUrl`; Gemini has no base URL override.
+ */
+export class RecordingStandIn {
+  private server: Server | null = null;
+  private readonly missed = new Set<string>();
+  private url = '';
+
+  constructor(
+    private readonly recording: EvalRecording = createRecording(),
+    private readonly upstream?: string
+  ) {}
+
+  get baseUrl(): string {
+    if (!this.server) {
+      throw new Error('Stand-in is not running');
+    }
+    return this.url;
+  }
+
+  /**
+   * Requests that had no recorded reply and no upstream to ask
+   */
+  get misses(): string[] {
+    return Array.from(this.missed);
+  }
+
+  getRecording(): EvalRecording {
+    return this.recording;
+  }
+
+  async start(): Promise<string> {
+    const server = createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        this.send(res, { path: req.url || '', status: 502, body: { error: { message: String(error) } } });
+      });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    this.server = server;
+    this.url = `http://127.0.0.1:${port}`;
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+
+    if (server) {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const path = req.url || '';
+    const body = await this.readBody(req);
+    const key = getExchangeKey(path, body);
+
+    const recorded = this.recording.exchanges[key];
+    if (recorded) {
+      this.send(res, recorded);
+      return;
+    }
+
+    if (!this.upstream) {
+      this.missed.add(key);
+      this.send(res, { path, status: 404, body: { error: { message: `No recorded reply for request ${key}` } } });
+      return;
+    }
+
+    const headers = Object.fromEntries(
+      FORWARDED_HEADERS.flatMap(name => typeof req.headers[name] === 'string' ? [[name, req.headers[name] as string]] : [])
+    );
+    const response = await fetch(`${this.upstream.replace(/\/$/, '')}${path}`, {
+      method: req.method || 'POST',
+      headers,
+      body: body || undefined,
+    });
+
+    const text = await response.text();
+    const exchange: RecordedExchange = { path, status: response.status, body: text ? JSON.parse(text) : null };
+
+    // Only successful replies are worth replaying
+    if (response.ok) {
+      this.recording.exchanges[key] = exchange;
+    }
+
+    this.send(res, exchange);
+  }
+
+  private readBody(req: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      let raw = '';
+      req.on('data', chunk => { raw += chunk; });
+      req.on('end', () => resolve(raw));
+      req.on('error', reject);
+    });
+  }
+
+  private send(res: ServerResponse, exchange: RecordedExchange): void {
+    res.writeHead(exchange.status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(exchange.body));
+  }
+}
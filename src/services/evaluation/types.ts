@@ -0,0 +1,138 @@
+import { AIResponse, ChatContext, ChatStep, UserPreferences } from '../../types/chat.js';
+import { PhoneSelection } from '../../types/phone.js';
+
+/**
+ * Kind of utterance a golden case exercises
+ */
+export type EvalTag = 'clean' | 'typo' | 'hinglish' | 'variant' | 'budget' | 'no_phone' | 'follow_up';
+
+/**
+ * Golden case: a user utterance with the answers a good model gives
+ * `phoneSelection` is null when the utterance names no phone; `nextStep`
+ * and `preferences` are only scored when present.
+ */
+export interface EvalCase {
+  id: string;
+  utterance: string;
+  tags: EvalTag[];
+  context?: Partial<Pick<ChatContext, 'currentStep' | 'selectedBrand' | 'selectedPhones' | 'preferences'>>;
+  expected: {
+    phoneSelection: PhoneSelection | null;
+    nextStep?: ChatStep;
+    preferences?: UserPreferences;
+  };
+}
+
+/**
+ * Anything that can be evaluated; `AdvancedAIService` satisfies it
+ */
+export interface EvalTarget {
+  extractPhoneSelection(message: string): Promise<PhoneSelection | null>;
+  processUserMessage(message: string, context: ChatContext): Promise<AIResponse>;
+}
+
+/**
+ * Slot counts behind precision and recall
+ * Each non-empty expected field is a gold slot and each non-empty predicted
+ * field a predicted slot; a true positive is a predicted slot that matches.
+ */
+export interface SlotCounts {
+  truePositives: number;
+  predicted: number;
+  expected: number;
+}
+
+/**
+ * Precision, recall and F1 over slot counts
+ */
+export interface SlotScores extends SlotCounts {
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+/**
+ * Outcome of one golden case
+ */
+export interface EvalCaseResult {
+  id: string;
+  tags: EvalTag[];
+  phoneSelection: {
+    expected: PhoneSelection | null;
+    actual: PhoneSelection | null;
+    slots: SlotCounts;
+  };
+  preferences?: {
+    expected: UserPreferences;
+    actual: UserPreferences | null;
+    slots: SlotCounts;
+  };
+  step?: {
+    expected: ChatStep;
+    actual: ChatStep | null;
+    correct: boolean;
+  };
+  passed: boolean; // Every scored slot and the step matched
+  error?: string;
+}
+
+/**
+ * Aggregate scores for a run or one tag within it
+ */
+export interface EvalMetrics {
+  cases: number;
+  passed: number;
+  extraction: SlotScores;
+  preferences: SlotScores;
+  stepAccuracy: number | null; // Null when no case expects a step
+}
+
+/**
+ * Full result of an evaluation run, saved as JSON for later diffs
+ */
+export interface EvalReport {
+  datasetVersion: string;
+  target: string;
+  startedAt: string;
+  durationMs: number;
+  metrics: EvalMetrics;
+  byTag: Partial<Record<EvalTag, EvalMetrics>>;
+  cases: EvalCaseResult[];
+}
+
+/**
+ * Change between two runs of the same dataset
+ */
+export interface EvalDiff {
+  baseline: { target: string; startedAt: string };
+  current: { target: string; startedAt: string };
+  datasetChanged: boolean;
+  delta: {
+    extractionF1: number;
+    extractionPrecision: number;
+    extractionRecall: number;
+    preferencesF1: number;
+    stepAccuracy: number | null;
+    passed: number;
+  };
+  regressed: string[]; // Case IDs that passed in the baseline and fail now
+  fixed: string[];
+  added: string[]; // Case IDs with no baseline result
+}
+
+/**
+ * Provider reply captured by the stand-in, keyed by request
+ */
+export interface RecordedExchange {
+  path: string;
+  status: number;
+  body: unknown;
+}
+
+/**
+ * Provider replies recorded from a live run and replayed offline
+ */
+export interface EvalRecording {
+  version: 1;
+  exchanges: Record<string, RecordedExchange>;
+}
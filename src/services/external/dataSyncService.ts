@@ -1,8 +1,10 @@
 import { prisma } from '../../lib/database.js';
 import { cacheService } from '../../lib/cache.js';
 import { GSMArenaService, GSMArenaConfig } from './gsmarena.js';
-import { PriceTrackingService, PriceTrackingConfig } from './priceTracking.js';
+import { PriceTrackingService, PriceTrackingConfig, PriceData } from './priceTracking.js';
+import { PriceHistoryService, PriceAlertService } from '../../lib/services/index.js';
 import { Phone, PhoneSchema, Brand } from '../../types/phone.js';
+import { matchVariant } from '../variants.js';
 import { z } from 'zod';
 
 // Data sync configuration
@@ -39,6 +41,8 @@ export interface ValidationResult {
 export class DataSyncService {
   private gsmarenaService: GSMArenaService;
   private priceTrackingService: PriceTrackingService;
+  private priceHistoryService = new PriceHistoryService();
+  private priceAlertService = new PriceAlertService();
   private config: DataSyncConfig;
   private activeSyncJobs = new Map<string, SyncJobStatus>();
 
@@ -201,6 +205,8 @@ export class DataSyncService {
         include: { brand: true },
       });
 
+      const updatedPhoneIds: string[] = [];
+
       // Process phones in batches
       for (let i = 0; i < phones.length; i += this.config.batchSize) {
         const batch = phones.slice(i, i + this.config.batchSize);
@@ -221,15 +227,8 @@ export class DataSyncService {
               const indianPriceData = this.priceTrackingService.filterIndianRetailers(priceData);
               
               if (indianPriceData.prices.length > 0) {
-                // Update phone pricing
-                await prisma.phone.update({
-                  where: { id: phone.id },
-                  data: {
-                    currentPrice: indianPriceData.lowestPrice,
-                    updatedAt: new Date(),
-                  },
-                });
-
+                await this.applyPriceData(phone.id, indianPriceData);
+                updatedPhoneIds.push(phone.id);
                 job.recordsUpdated++;
               }
             }
@@ -249,6 +248,12 @@ export class DataSyncService {
         }
       }
 
+      // Queue price-drop alerts for the phones whose prices changed
+      const alertError = await this.evaluatePriceWatches(updatedPhoneIds);
+      if (alertError) {
+        job.errors.push(alertError);
+      }
+
       job.status = 'completed';
       job.endTime = new Date();
       console.log(`Price sync completed: ${job.recordsUpdated} updated, ${job.errors.length} errors`);
@@ -308,13 +313,8 @@ export class DataSyncService {
             const indianPriceData = this.priceTrackingService.filterIndianRetailers(priceData);
             
             if (indianPriceData.prices.length > 0) {
-              await prisma.phone.update({
-                where: { id: phoneId },
-                data: {
-                  currentPrice: indianPriceData.lowestPrice,
-                  updatedAt: new Date(),
-                },
-              });
+              await this.applyPriceData(phoneId, indianPriceData);
+              await this.evaluatePriceWatches([phoneId]);
             }
           }
         } catch (error) {
@@ -329,6 +329,86 @@ export class DataSyncService {
     }
   }
 
+  /**
+   * Record each retailer's price and offers as a snapshot, then update the
+   * phone's current price
+   * Listings are matched to the phone's variants by their configuration
+   * text, and each variant takes its lowest in-stock price.
+   */
+  private async applyPriceData(phoneId: string, priceData: PriceData): Promise<void> {
+    const variants = await prisma.phoneVariant.findMany({
+      where: { phoneId, isActive: true },
+      select: { id: true, ramGb: true, storageGb: true, color: true },
+    });
+
+    const listings = priceData.prices.map(price => {
+      const variant = variants.length > 0
+        ? matchVariant(price.variant ?? priceData.variant ?? '', variants)
+        : undefined;
+      return { ...price, variantId: variant?.id };
+    });
+
+    await this.priceHistoryService.recordSnapshots(
+      phoneId,
+      listings.map(price => ({
+        variantId: price.variantId,
+        retailer: price.retailer,
+        price: price.price,
+        currency: price.currency,
+        availability: price.availability,
+        url: price.url,
+        offers: price.offers,
+      }))
+    );
+
+    const variantPrices = new Map<string, number>();
+    for (const listing of listings) {
+      if (!listing.variantId || listing.availability !== 'in_stock') {
+        continue;
+      }
+      const lowest = variantPrices.get(listing.variantId);
+      if (lowest === undefined || listing.price < lowest) {
+        variantPrices.set(listing.variantId, listing.price);
+      }
+    }
+
+    await Promise.all(
+      Array.from(variantPrices, ([id, currentPrice]) =>
+        prisma.phoneVariant.update({ where: { id }, data: { currentPrice } })
+      )
+    );
+
+    await prisma.phone.update({
+      where: { id: phoneId },
+      data: {
+        currentPrice: priceData.lowestPrice,
+        updatedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Check price watches on the given phones and queue matched alerts
+   * Alert failures never fail the sync; the error message is returned instead.
+   */
+  private async evaluatePriceWatches(phoneIds: string[]): Promise<string | null> {
+    if (phoneIds.length === 0) {
+      return null;
+    }
+
+    try {
+      const result = await this.priceAlertService.evaluateWatches(phoneIds);
+      if (result.watchesMatched > 0) {
+        console.log(`Price alerts: ${result.watchesMatched} watches matched, ${result.notificationsQueued} notifications queued`);
+      }
+      return null;
+    } catch (error) {
+      const errorMsg = `Price alert evaluation failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      console.error(errorMsg);
+      return errorMsg;
+    }
+  }
+
   /**
    * Get sync job status
    */
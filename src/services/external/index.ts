@@ -3,6 +3,7 @@ import { SyncMonitoringService } from './syncMonitoring.js';
 import { FallbackService, FallbackConfig } from './fallbackService.js';
 import { GSMArenaService, GSMArenaConfig } from './gsmarena.js';
 import { PriceTrackingService, PriceTrackingConfig } from './priceTracking.js';
+import { notificationDispatcher } from '../notifications/index.js';
 
 // Main external data integration configuration
 export interface ExternalDataConfig {
@@ -184,6 +185,9 @@ export class ExternalDataIntegrationService {
         })),
       });
 
+      // Deliver the price alerts the sync queued
+      await this.dispatchNotifications();
+
       if (failedJobs > 0) {
         throw new Error(`${failedJobs} sync jobs failed`);
       }
@@ -198,6 +202,21 @@ export class ExternalDataIntegrationService {
     }
   }
 
+  /**
+   * Deliver pending price alerts from the notification outbox
+   * Delivery problems are logged rather than thrown, so they never fail a sync.
+   */
+  async dispatchNotifications(): Promise<void> {
+    try {
+      const summary = await notificationDispatcher.dispatchPending();
+      if (summary.sent + summary.retrying + summary.failed > 0) {
+        this.monitoring.logEvent('sync_completed', 'notifications', summary);
+      }
+    } catch (error) {
+      console.error('Notification dispatch failed:', error);
+    }
+  }
+
   /**
    * Sync data for a specific phone
    */
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { RetailerOfferSchema } from '../../types/phone.js';
 
 // Price tracking API response schemas
 const PriceDataSchema = z.object({
@@ -8,11 +9,13 @@ const PriceDataSchema = z.object({
   variant: z.string().optional(),
   prices: z.array(z.object({
     retailer: z.string(),
+    variant: z.string().optional(), // Retailer's configuration text, e.g. "8GB RAM, 128GB"
     price: z.number(),
     currency: z.string(),
     availability: z.enum(['in_stock', 'out_of_stock', 'pre_order']),
     url: z.string().url(),
     lastUpdated: z.string(),
+    offers: z.array(RetailerOfferSchema).optional(), // Bank, EMI and exchange offers at this retailer
   })),
   averagePrice: z.number(),
   lowestPrice: z.number(),
@@ -31,7 +34,7 @@ const IndianRetailerSchema = z.object({
   priority: z.number(), // Higher priority retailers are checked first
 });
 
-type PriceData = z.infer<typeof PriceDataSchema>;
+export type PriceData = z.infer<typeof PriceDataSchema>;
 type IndianRetailer = z.infer<typeof IndianRetailerSchema>;
 
 export interface PriceTrackingConfig {
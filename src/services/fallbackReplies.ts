@@ -0,0 +1,206 @@
+import { ChatLocale } from '../types/chat.js';
+
+/**
+ * A canned reply and its follow-up suggestions
+ */
+export interface FallbackReply {
+  message: string;
+  suggestions: string[];
+}
+
+/**
+ * Rule-based replies used when no AI provider answers, in one locale
+ */
+export interface FallbackReplies {
+  compareWith(phone: string): FallbackReply;
+  phoneInquiry(phone: string): FallbackReply;
+  budget(amount: string): FallbackReply;
+  askBudget: FallbackReply;
+  price: FallbackReply;
+  camera: FallbackReply;
+  battery: FallbackReply;
+  gaming: FallbackReply;
+  brand(brand: string): FallbackReply;
+  brandSelection: FallbackReply;
+  modelSelection(brand?: string): FallbackReply;
+  comparison: FallbackReply;
+  welcome: FallbackReply;
+}
+
+const EN_INTRO = "I'm here to help you with phone comparisons! ";
+const HI_LATN_INTRO = 'Main phone compare karne mein aapki madad ke liye yahan hoon! ';
+const HI_INTRO = 'मैं फ़ोन की तुलना करने में आपकी मदद के लिए यहाँ हूँ! ';
+
+const en: FallbackReplies = {
+  compareWith: phone => ({
+    message: `I can help you compare phones! You mentioned "${phone}". What other phone would you like to compare it with? Popular alternatives include Samsung Galaxy S24, iPhone 15, OnePlus 12, and Xiaomi 14.`,
+    suggestions: ['Samsung Galaxy S24', 'iPhone 15 Pro', 'OnePlus 12', 'Xiaomi 14'],
+  }),
+  phoneInquiry: phone => ({
+    message: `Great choice! The ${phone} is a popular phone. Would you like to compare it with another phone, or do you want to know more about its specifications? I can help you with camera quality, battery life, performance, and pricing information.`,
+    suggestions: ['Compare with another phone', 'Show specifications', 'Check current price', 'Camera quality'],
+  }),
+  budget: amount => ({
+    message: `For a budget of ${amount}, I can suggest some excellent options! Popular phones in this range include Samsung Galaxy A series, Realme GT series, OnePlus Nord series, and Xiaomi Redmi series. What do you primarily use your phone for - photography, gaming, or general use?`,
+    suggestions: ['Photography focused', 'Gaming performance', 'General use', 'Best value for money'],
+  }),
+  askBudget: {
+    message: `I'd be happy to recommend phones! To give you the best suggestions, could you tell me your budget range? Popular price segments are: Under ₹15,000 (budget), ₹15,000-₹30,000 (mid-range), ₹30,000-₹50,000 (premium), and above ₹50,000 (flagship).`,
+    suggestions: ['Under ₹15,000', '₹15,000-₹30,000', '₹30,000-₹50,000', 'Above ₹50,000'],
+  },
+  price: {
+    message: `I can help you with phone pricing! Current popular phones and their approximate prices are: iPhone 15 (₹79,900), Samsung Galaxy S24 (₹74,999), OnePlus 12 (₹64,999), Xiaomi 14 (₹54,999). Which specific phone's price are you looking for?`,
+    suggestions: ['iPhone 15 price', 'Samsung Galaxy S24 price', 'OnePlus 12 price', 'Budget phone prices'],
+  },
+  camera: {
+    message: `Looking for great camera phones? The best camera phones currently are iPhone 15 Pro (excellent overall), Samsung Galaxy S24 Ultra (versatile zoom), Google Pixel 8 (computational photography), and OnePlus 12 (portrait mode). Which aspect of camera performance matters most to you?`,
+    suggestions: ['Portrait photography', 'Night mode', 'Video recording', 'Zoom capabilities'],
+  },
+  battery: {
+    message: `Battery life is crucial! Phones with excellent battery life include OnePlus 12 (5400mAh), Xiaomi 14 Ultra (5300mAh), Samsung Galaxy S24+ (4900mAh), and Realme GT 6 (5500mAh). Are you looking for long battery life, fast charging, or both?`,
+    suggestions: ['Long battery life', 'Fast charging', 'Both battery and charging', 'Gaming battery life'],
+  },
+  gaming: {
+    message: `For gaming and performance, top choices are iPhone 15 Pro (A17 Pro chip), Samsung Galaxy S24 (Snapdragon 8 Gen 3), OnePlus 12 (Snapdragon 8 Gen 3), and Xiaomi 14 (Snapdragon 8 Gen 3). What type of games do you play most?`,
+    suggestions: ['Heavy games (PUBG, COD)', 'Casual games', 'Emulation', 'Overall performance'],
+  },
+  brand: brand => ({
+    message: `${brand} makes excellent phones! Their popular current models include various options across different price ranges. Which ${brand} phone are you interested in, or would you like me to suggest their best current models?`,
+    suggestions: [`Latest ${brand} phones`, `Budget ${brand} options`, `${brand} flagships`, 'Compare with other brands'],
+  }),
+  brandSelection: {
+    message: `${EN_INTRO}Which phone brand interests you most? I can help you explore options from Apple, Samsung, OnePlus, Xiaomi, Realme, and many more.`,
+    suggestions: ['Apple iPhone', 'Samsung Galaxy', 'OnePlus', 'Xiaomi', 'Realme'],
+  },
+  modelSelection: brand => ({
+    message: `${EN_INTRO}Great choice on ${brand}! Which specific model would you like to explore?`,
+    suggestions: ['Latest models', 'Budget options', 'Flagship phones', 'Popular choices'],
+  }),
+  comparison: {
+    message: `${EN_INTRO}I can help compare your selected phones. What aspects matter most to you?`,
+    suggestions: ['Camera quality', 'Battery life', 'Performance', 'Value for money'],
+  },
+  welcome: {
+    message: `${EN_INTRO}How can I help you find the perfect phone today?`,
+    suggestions: ['Compare phones', 'Get recommendations', 'Check prices', 'Find best camera phone'],
+  },
+};
+
+const hiLatn: FallbackReplies = {
+  compareWith: phone => ({
+    message: `Main phones compare karne mein madad kar sakta hoon! Aapne "${phone}" bataya. Isse kis phone ke saath compare karna hai? Popular options hain Samsung Galaxy S24, iPhone 15, OnePlus 12 aur Xiaomi 14.`,
+    suggestions: ['Samsung Galaxy S24', 'iPhone 15 Pro', 'OnePlus 12', 'Xiaomi 14'],
+  }),
+  phoneInquiry: phone => ({
+    message: `Badhiya choice! ${phone} ek popular phone hai. Kya aap ise kisi aur phone se compare karna chahenge, ya iske specifications ke baare mein jaanna hai? Main camera, battery, performance aur price ki jaankari de sakta hoon.`,
+    suggestions: ['Dusre phone se compare karo', 'Specifications dikhao', 'Abhi ka price batao', 'Camera kaisa hai'],
+  }),
+  budget: amount => ({
+    message: `${amount} ke budget mein kaafi achhe options hain! Is range ke popular phones hain Samsung Galaxy A series, Realme GT series, OnePlus Nord series aur Xiaomi Redmi series. Aap phone zyada kis cheez ke liye use karte hain - photography, gaming ya normal use?`,
+    suggestions: ['Photography ke liye', 'Gaming ke liye', 'Normal use', 'Sabse achha value for money'],
+  }),
+  askBudget: {
+    message: `Main zaroor phone suggest karunga! Sahi suggestion ke liye apna budget bataiye. Popular price segments hain: ₹15,000 se kam (budget), ₹15,000-₹30,000 (mid-range), ₹30,000-₹50,000 (premium) aur ₹50,000 se upar (flagship).`,
+    suggestions: ['₹15,000 se kam', '₹15,000-₹30,000', '₹30,000-₹50,000', '₹50,000 se upar'],
+  },
+  price: {
+    message: `Main phone ke price mein madad kar sakta hoon! Abhi ke popular phones ke approx price: iPhone 15 (₹79,900), Samsung Galaxy S24 (₹74,999), OnePlus 12 (₹64,999), Xiaomi 14 (₹54,999). Aapko kis phone ka price jaanna hai?`,
+    suggestions: ['iPhone 15 ka price', 'Samsung Galaxy S24 ka price', 'OnePlus 12 ka price', 'Saste phones ke price'],
+  },
+  camera: {
+    message: `Achha camera phone chahiye? Abhi ke best camera phones hain iPhone 15 Pro (overall best), Samsung Galaxy S24 Ultra (zoom ke liye), Google Pixel 8 (computational photography) aur OnePlus 12 (portrait mode). Camera mein aapke liye sabse zaroori kya hai?`,
+    suggestions: ['Portrait photos', 'Night mode', 'Video recording', 'Zoom'],
+  },
+  battery: {
+    message: `Battery bahut zaroori hai! Achhi battery wale phones hain OnePlus 12 (5400mAh), Xiaomi 14 Ultra (5300mAh), Samsung Galaxy S24+ (4900mAh) aur Realme GT 6 (5500mAh). Aapko lambi battery life chahiye, fast charging, ya dono?`,
+    suggestions: ['Lambi battery life', 'Fast charging', 'Battery aur charging dono', 'Gaming mein battery'],
+  },
+  gaming: {
+    message: `Gaming aur performance ke liye top choices hain iPhone 15 Pro (A17 Pro chip), Samsung Galaxy S24 (Snapdragon 8 Gen 3), OnePlus 12 (Snapdragon 8 Gen 3) aur Xiaomi 14 (Snapdragon 8 Gen 3). Aap zyada kaunse games khelte hain?`,
+    suggestions: ['Heavy games (PUBG, COD)', 'Casual games', 'Emulation', 'Overall performance'],
+  },
+  brand: brand => ({
+    message: `${brand} ke phones kaafi achhe hain! Inke popular models alag-alag price range mein milte hain. Aapko ${brand} ka kaunsa phone pasand hai, ya main inke best models suggest karoon?`,
+    suggestions: [`${brand} ke naye phones`, `${brand} ke saste phones`, `${brand} flagships`, 'Dusre brands se compare karo'],
+  }),
+  brandSelection: {
+    message: `${HI_LATN_INTRO}Aapko kaunsa brand pasand hai? Main Apple, Samsung, OnePlus, Xiaomi, Realme aur kai brands ke options dikha sakta hoon.`,
+    suggestions: ['Apple iPhone', 'Samsung Galaxy', 'OnePlus', 'Xiaomi', 'Realme'],
+  },
+  modelSelection: brand => ({
+    message: `${HI_LATN_INTRO}${brand} badhiya choice hai! Aap kaunsa model dekhna chahenge?`,
+    suggestions: ['Naye models', 'Saste options', 'Flagship phones', 'Popular phones'],
+  }),
+  comparison: {
+    message: `${HI_LATN_INTRO}Main aapke chune hue phones compare kar sakta hoon. Aapke liye sabse zaroori kya hai?`,
+    suggestions: ['Camera quality', 'Battery life', 'Performance', 'Value for money'],
+  },
+  welcome: {
+    message: `${HI_LATN_INTRO}Aaj aapke liye perfect phone dhoondhne mein kaise madad karoon?`,
+    suggestions: ['Phones compare karo', 'Phone suggest karo', 'Price check karo', 'Best camera phone batao'],
+  },
+};
+
+const hi: FallbackReplies = {
+  compareWith: phone => ({
+    message: `मैं फ़ोन की तुलना में मदद कर सकता हूँ! आपने "${phone}" बताया। इसकी तुलना किस फ़ोन से करनी है? लोकप्रिय विकल्प हैं Samsung Galaxy S24, iPhone 15, OnePlus 12 और Xiaomi 14।`,
+    suggestions: ['Samsung Galaxy S24', 'iPhone 15 Pro', 'OnePlus 12', 'Xiaomi 14'],
+  }),
+  phoneInquiry: phone => ({
+    message: `बढ़िया चुनाव! ${phone} एक लोकप्रिय फ़ोन है। क्या आप इसकी तुलना किसी दूसरे फ़ोन से करना चाहेंगे, या इसके स्पेसिफिकेशन जानना चाहेंगे? मैं कैमरा, बैटरी, परफॉर्मेंस और कीमत की जानकारी दे सकता हूँ।`,
+    suggestions: ['दूसरे फ़ोन से तुलना करें', 'स्पेसिफिकेशन दिखाओ', 'अभी की कीमत बताओ', 'कैमरा कैसा है'],
+  }),
+  budget: amount => ({
+    message: `${amount} के बजट में कई अच्छे विकल्प हैं! इस रेंज के लोकप्रिय फ़ोन हैं Samsung Galaxy A सीरीज़, Realme GT सीरीज़, OnePlus Nord सीरीज़ और Xiaomi Redmi सीरीज़। आप फ़ोन ज़्यादातर किस काम के लिए इस्तेमाल करते हैं - फ़ोटोग्राफ़ी, गेमिंग या सामान्य उपयोग?`,
+    suggestions: ['फ़ोटोग्राफ़ी के लिए', 'गेमिंग के लिए', 'सामान्य उपयोग', 'सबसे अच्छा वैल्यू फ़ॉर मनी'],
+  }),
+  askBudget: {
+    message: `मैं ज़रूर फ़ोन सुझाऊँगा! सही सुझाव के लिए अपना बजट बताइए। लोकप्रिय प्राइस सेगमेंट हैं: ₹15,000 से कम (बजट), ₹15,000-₹30,000 (मिड-रेंज), ₹30,000-₹50,000 (प्रीमियम) और ₹50,000 से ऊपर (फ़्लैगशिप)।`,
+    suggestions: ['₹15,000 से कम', '₹15,000-₹30,000', '₹30,000-₹50,000', '₹50,000 से ऊपर'],
+  },
+  price: {
+    message: `मैं फ़ोन की कीमत में मदद कर सकता हूँ! अभी के लोकप्रिय फ़ोन की अनुमानित कीमतें: iPhone 15 (₹79,900), Samsung Galaxy S24 (₹74,999), OnePlus 12 (₹64,999), Xiaomi 14 (₹54,999)। आपको किस फ़ोन की कीमत जाननी है?`,
+    suggestions: ['iPhone 15 की कीमत', 'Samsung Galaxy S24 की कीमत', 'OnePlus 12 की कीमत', 'सस्ते फ़ोन की कीमत'],
+  },
+  camera: {
+    message: `अच्छा कैमरा फ़ोन चाहिए? अभी के सबसे अच्छे कैमरा फ़ोन हैं iPhone 15 Pro (कुल मिलाकर बेहतरीन), Samsung Galaxy S24 Ultra (ज़ूम के लिए), Google Pixel 8 (कंप्यूटेशनल फ़ोटोग्राफ़ी) और OnePlus 12 (पोर्ट्रेट मोड)। कैमरे में आपके लिए सबसे ज़रूरी क्या है?`,
+    suggestions: ['पोर्ट्रेट फ़ोटो', 'नाइट मोड', 'वीडियो रिकॉर्डिंग', 'ज़ूम'],
+  },
+  battery: {
+    message: `बैटरी बहुत ज़रूरी है! अच्छी बैटरी वाले फ़ोन हैं OnePlus 12 (5400mAh), Xiaomi 14 Ultra (5300mAh), Samsung Galaxy S24+ (4900mAh) और Realme GT 6 (5500mAh)। आपको लंबी बैटरी लाइफ़ चाहिए, फ़ास्ट चार्जिंग, या दोनों?`,
+    suggestions: ['लंबी बैटरी लाइफ़', 'फ़ास्ट चार्जिंग', 'बैटरी और चार्जिंग दोनों', 'गेमिंग में बैटरी'],
+  },
+  gaming: {
+    message: `गेमिंग और परफॉर्मेंस के लिए सबसे अच्छे विकल्प हैं iPhone 15 Pro (A17 Pro चिप), Samsung Galaxy S24 (Snapdragon 8 Gen 3), OnePlus 12 (Snapdragon 8 Gen 3) और Xiaomi 14 (Snapdragon 8 Gen 3)। आप ज़्यादातर कौन से गेम खेलते हैं?`,
+    suggestions: ['हैवी गेम (PUBG, COD)', 'कैज़ुअल गेम', 'एमुलेशन', 'कुल परफॉर्मेंस'],
+  },
+  brand: brand => ({
+    message: `${brand} के फ़ोन बहुत अच्छे हैं! इनके लोकप्रिय मॉडल अलग-अलग कीमतों में मिलते हैं। आपको ${brand} का कौन सा फ़ोन पसंद है, या मैं इनके सबसे अच्छे मॉडल सुझाऊँ?`,
+    suggestions: [`${brand} के नए फ़ोन`, `${brand} के सस्ते फ़ोन`, `${brand} फ़्लैगशिप`, 'दूसरे ब्रांड से तुलना करें'],
+  }),
+  brandSelection: {
+    message: `${HI_INTRO}आपको कौन सा ब्रांड पसंद है? मैं Apple, Samsung, OnePlus, Xiaomi, Realme और कई ब्रांड के विकल्प दिखा सकता हूँ।`,
+    suggestions: ['Apple iPhone', 'Samsung Galaxy', 'OnePlus', 'Xiaomi', 'Realme'],
+  },
+  modelSelection: brand => ({
+    message: `${HI_INTRO}${brand} बढ़िया चुनाव है! आप कौन सा मॉडल देखना चाहेंगे?`,
+    suggestions: ['नए मॉडल', 'सस्ते विकल्प', 'फ़्लैगशिप फ़ोन', 'लोकप्रिय फ़ोन'],
+  }),
+  comparison: {
+    message: `${HI_INTRO}मैं आपके चुने हुए फ़ोन की तुलना कर सकता हूँ। आपके लिए सबसे ज़रूरी क्या है?`,
+    suggestions: ['कैमरा क्वालिटी', 'बैटरी लाइफ़', 'परफॉर्मेंस', 'वैल्यू फ़ॉर मनी'],
+  },
+  welcome: {
+    message: `${HI_INTRO}आज आपके लिए सही फ़ोन ढूँढने में कैसे मदद करूँ?`,
+    suggestions: ['फ़ोन की तुलना करें', 'फ़ोन सुझाओ', 'कीमत देखें', 'सबसे अच्छा कैमरा फ़ोन बताओ'],
+  },
+};
+
+const FALLBACK_REPLIES: Record<ChatLocale, FallbackReplies> = { en, hi, 'hi-Latn': hiLatn };
+
+/**
+ * Fallback replies for a locale, defaulting to English
+ */
+export function getFallbackReplies(locale: ChatLocale = 'en'): FallbackReplies {
+  return FALLBACK_REPLIES[locale];
+}
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { SpecGroundingChecker } from '../checker.js';
+import { Phone } from '../../../types/phone.js';
+
+const makePhone = (id: string, brand: string, model: string, overrides: Partial<Phone> = {}): Phone => ({
+  id,
+  brand,
+  model,
+  launchDate: new Date('2024-01-01'),
+  availability: 'available',
+  pricing: { mrp: 79999, currentPrice: 74999, currency: 'INR' },
+  specifications: {
+    display: { size: '6.2 inches', resolution: '1080 x 2340', type: 'AMOLED', refreshRate: 120 },
+    camera: { rear: [{ megapixels: 50, features: [] }, { megapixels: 12, features: [] }], front: { megapixels: 12, features: [] }, features: [] },
+    performance: { processor: 'Qualcomm SM8650-AB Snapdragon 8 Gen 3 (4 nm)', ram: ['8GB'], storage: ['128GB', '256GB'] },
+    battery: { capacity: 4000, chargingSpeed: 25 },
+    connectivity: { network: ['5G'], wifi: 'Wi-Fi 6E', bluetooth: '5.3' },
+    build: { dimensions: '147 x 70.6 x 7.6 mm', weight: '167 g', materials: [], colors: [] },
+    software: { os: 'Android', version: '14' },
+  },
+  images: [],
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+  ...overrides,
+});
+
+describe('SpecGroundingChecker', () => {
+  const checker = new SpecGroundingChecker();
+  const galaxy = makePhone('s24', 'Samsung', 'Galaxy S24');
+  const pixel = makePhone('pixel-8', 'Google', 'Pixel 8', {
+    pricing: { mrp: 75999, currentPrice: 69999, currency: 'INR' },
+  });
+
+  it('should verify claims within tolerance of the catalog', () => {
+    const { text, checks } = checker.ground(
+      'The Galaxy S24 has a 4,000mAh battery, a 6.2-inch 120Hz display, 8GB RAM, a 50MP main camera, ' +
+      'weighs 168 grams, runs the Snapdragon 8 Gen 3 and sells for about ₹75k.',
+      [galaxy]
+    );
+
+    expect(checks.map(check => check.status)).toEqual(Array(8).fill('verified'));
+    expect(text).toContain('4,000mAh battery');
+  });
+
+  it('should annotate contradicted claims by default', () => {
+    const { text, checks } = checker.ground('The Galaxy S24 has a 5000mAh battery and 45W charging.', [galaxy]);
+
+    expect(text).toBe('The Galaxy S24 has a 5000mAh (our catalog lists 4000mAh) battery and 45W (our catalog lists 25W) charging.');
+    expect(checks.map(check => check.expected)).toEqual(['4000mAh', '25W']);
+  });
+
+  it('should replace contradicted values in correct mode', () => {
+    const { text } = checker.ground(
+      'The Pixel 8 costs ₹59,999 and has the Snapdragon 8 Gen 2, while the Galaxy S24 has 12GB RAM.',
+      [galaxy, pixel],
+      { mode: 'correct' }
+    );
+
+    expect(text).toBe('The Pixel 8 costs ₹69,999 and has the Snapdragon 8 Gen 3, while the Galaxy S24 has 8GB RAM.');
+  });
+
+  it('should accept any variant price and quote the range when none matches', () => {
+    const phone = makePhone('s24', 'Samsung', 'Galaxy S24', {
+      variants: [
+        { id: 'v1', ramGb: 8, storageGb: 128, currentPrice: 74999 },
+        { id: 'v2', ramGb: 8, storageGb: 256, currentPrice: 79999 },
+      ],
+    });
+
+    expect(checker.ground('It costs ₹79,999', [phone]).checks[0].status).toBe('verified');
+    expect(checker.ground('It costs ₹99,999', [phone]).checks[0].expected).toBe('₹74,999–₹79,999');
+  });
+
+  it('should leave specs the catalog does not hold unverifiable', () => {
+    const phone = makePhone('s24', 'Samsung', 'Galaxy S24', { pricing: { mrp: 79999, currentPrice: 74999, currency: 'INR' } });
+    phone.specifications.battery = { capacity: 4000 };
+
+    const { checks } = checker.ground('It charges at 45W and costs $799 in the US.', [phone]);
+
+    expect(checks.map(check => check.status)).toEqual(['unverifiable', 'unverifiable']);
+  });
+
+  it('should score verified claims against all checkable ones', () => {
+    const { checks } = checker.ground('The Galaxy S24 has 4000mAh, 25W charging and a 6.8-inch screen. Flagships cost ₹1 lakh.', [galaxy, pixel]);
+    const report = checker.summarize(checks);
+
+    expect(report).toEqual({
+      score: 0.67,
+      mode: 'annotate',
+      claims: 4,
+      verified: 2,
+      contradicted: 1,
+      unverifiable: 1,
+      mismatches: [{ kind: 'display', phoneId: 's24', claimed: '6.8-inch', expected: '6.2-inch' }],
+    });
+    expect(checker.summarize([]).score).toBe(1);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { extractClaims, findPhoneMentions, getPhoneNames } from '../claims.js';
+import { Phone } from '../../../types/phone.js';
+
+const makePhone = (id: string, brand: string, model: string) => ({ id, brand, model } as Phone);
+
+const galaxy = makePhone('s24', 'Samsung', 'Galaxy S24');
+const ultra = makePhone('s24-ultra', 'Samsung', 'Galaxy S24 Ultra');
+const pixel = makePhone('pixel-8', 'Google', 'Pixel 8');
+
+describe('getPhoneNames', () => {
+  it('should not repeat a brand the model already starts with', () => {
+    expect(getPhoneNames(galaxy)).toEqual(['Samsung Galaxy S24', 'Galaxy S24']);
+    expect(getPhoneNames({ brand: 'OnePlus', model: 'OnePlus 12' })).toEqual(['OnePlus 12']);
+  });
+});
+
+describe('findPhoneMentions', () => {
+  it('should prefer the longest name and skip names extended into another model', () => {
+    expect(findPhoneMentions('The Galaxy S24 Ultra beats the Galaxy S24.', [galaxy, ultra])).toEqual([
+      { phoneId: 's24-ultra', start: 4, end: 20 },
+      { phoneId: 's24', start: 31, end: 41 },
+    ]);
+    expect(findPhoneMentions('The Galaxy S24 Ultra is huge', [galaxy])).toEqual([]);
+  });
+});
+
+describe('extractClaims', () => {
+  it('should read spec values in catalog units', () => {
+    const claims = extractClaims(
+      'It packs a 5,000mAh battery, 45W charging, a 6.2-inch 120Hz screen, 8GB of RAM, 256GB storage, ' +
+      'a 50MP camera, weighs 167 g, runs the Snapdragon 8 Gen 3 and costs ₹79,999.',
+      [galaxy],
+      's24'
+    );
+
+    expect(claims.map(({ kind, value }) => [kind, value])).toEqual([
+      ['battery', 5000],
+      ['charging', 45],
+      ['display', 6.2],
+      ['refreshRate', 120],
+      ['ram', 8],
+      ['storage', 256],
+      ['camera', 50],
+      ['weight', 167],
+      ['chipset', 'Snapdragon 8 Gen 3'],
+      ['price', 79999],
+    ]);
+    expect(claims.every(claim => claim.phoneId === 's24')).toBe(true);
+  });
+
+  it('should read prices in lakh, thousands and other currencies', () => {
+    const values = (text: string) => extractClaims(text, []).map(({ value, currency }) => ({ value, currency }));
+
+    expect(values('Rs. 1.2 lakh')).toEqual([{ value: 120000, currency: 'INR' }]);
+    expect(values('about ₹80k')).toEqual([{ value: 80000, currency: 'INR' }]);
+    expect(values('69,999 rupees')).toEqual([{ value: 69999, currency: 'INR' }]);
+    expect(values('$799')).toEqual([{ value: 799, currency: 'USD' }]);
+  });
+
+  it('should skip budgets and differences', () => {
+    expect(extractClaims('Phones under ₹30,000 with 1,000mAh more battery', [galaxy], 's24')).toEqual([]);
+  });
+
+  it('should attribute each claim to the phone named before it in its sentence', () => {
+    const claims = extractClaims(
+      'The Galaxy S24 has 4000mAh while the Pixel 8 has 4575mAh. It also charges at 27W.',
+      [galaxy, pixel]
+    );
+
+    expect(claims.map(({ value, phoneId }) => [value, phoneId])).toEqual([
+      [4000, 's24'],
+      [4575, 'pixel-8'],
+      [27, 'pixel-8'],
+    ]);
+  });
+
+  it('should leave claims unattributed when no phone is named', () => {
+    expect(extractClaims('Most flagships have 5000mAh batteries', [galaxy, pixel])[0].phoneId).toBeUndefined();
+  });
+
+  it('should not read Apple chips out of Galaxy A model names', () => {
+    expect(extractClaims('The Galaxy A15 is cheap, the A17 Pro chip is not', [])).toEqual([
+      expect.objectContaining({ kind: 'chipset', value: 'A17 Pro' }),
+    ]);
+  });
+});
@@ -0,0 +1,230 @@
+import { Currency, Phone } from '../../types/phone.js';
+import { ChipsetMatcher, chipsetMatcher } from '../chipsets/index.js';
+import { formatPrice } from '../regions/index.js';
+import { formatMemorySize, formatWeight, getNormalizedSpecs } from '../specNormalization.js';
+import { extractClaims } from './claims.js';
+import {
+  ClaimCheck,
+  GroundedText,
+  GroundingMode,
+  GroundingReport,
+  SpecClaim,
+} from './types.js';
+
+// Relative tolerance for values that are rounded or quoted loosely
+const BATTERY_TOLERANCE = 0.03;
+const WEIGHT_TOLERANCE = 0.03;
+const PRICE_TOLERANCE = 0.05;
+
+// Absolute tolerance for values quoted to a decimal place
+const DISPLAY_TOLERANCE_INCHES = 0.05;
+const CAMERA_TOLERANCE_MP = 0.5;
+
+// Chipset matches weaker than this are too loose to contradict anything
+const MIN_CHIPSET_CONFIDENCE = 0.8;
+
+function withinRatio(claimed: number, actual: number, tolerance: number): boolean {
+  return Math.abs(claimed - actual) <= actual * tolerance;
+}
+
+function nearest(values: number[], target: number): number {
+  return values.reduce((best, value) => Math.abs(value - target) < Math.abs(best - target) ? value : best);
+}
+
+function formatList(values: number[], format: (value: number) => string): string {
+  return Array.from(new Set(values)).sort((a, b) => a - b).map(format).join('/');
+}
+
+/**
+ * Checks spec claims in AI text against the catalog records of the phones
+ * the conversation is about, and corrects or annotates the ones that
+ * contradict the catalog.
+ */
+export class SpecGroundingChecker {
+  constructor(private readonly matcher: ChipsetMatcher = chipsetMatcher) {}
+
+  /**
+   * Check a claim against the phone it is about
+   */
+  checkClaim(claim: SpecClaim, phone: Phone): ClaimCheck {
+    const unverifiable: ClaimCheck = { claim, status: 'unverifiable' };
+    const specs = phone.specifications;
+    const normalized = getNormalizedSpecs(phone);
+    const value = claim.value;
+
+    const result = (verified: boolean, expected: string): ClaimCheck =>
+      verified ? { claim, status: 'verified' } : { claim, status: 'contradicted', expected };
+
+    if (typeof value === 'string') {
+      if (claim.kind !== 'chipset') return unverifiable;
+
+      const claimed = this.matcher.match(value);
+      const actual = this.matcher.match(specs.performance.processor);
+      if (!claimed || !actual || claimed.kind === 'series' || actual.kind === 'series') return unverifiable;
+      if (claimed.confidence < MIN_CHIPSET_CONFIDENCE || actual.confidence < MIN_CHIPSET_CONFIDENCE) return unverifiable;
+
+      return result(claimed.chipset.id === actual.chipset.id, actual.chipset.name);
+    }
+
+    switch (claim.kind) {
+      case 'battery':
+        return result(withinRatio(value, specs.battery.capacity, BATTERY_TOLERANCE), `${specs.battery.capacity}mAh`);
+
+      case 'charging': {
+        const speed = specs.battery.chargingSpeed;
+        if (!speed) return unverifiable;
+        return result(Math.abs(value - speed) <= 1, `${speed}W`);
+      }
+
+      case 'display': {
+        const size = normalized.display.sizeInches;
+        if (!size) return unverifiable;
+        return result(Math.abs(value - size) <= DISPLAY_TOLERANCE_INCHES, `${size}-inch`);
+      }
+
+      case 'refreshRate': {
+        const rate = specs.display.refreshRate;
+        if (!rate) return unverifiable;
+        return result(value === rate, `${rate}Hz`);
+      }
+
+      case 'ram': {
+        const options = [...normalized.memory.ramGb, ...(phone.variants || []).map(variant => variant.ramGb)];
+        if (options.length === 0) return unverifiable;
+        return result(options.includes(value), formatList(options, formatMemorySize));
+      }
+
+      case 'storage': {
+        const options = [...normalized.memory.storageGb, ...(phone.variants || []).map(variant => variant.storageGb)];
+        if (options.length === 0) return unverifiable;
+        return result(options.includes(value), formatList(options, formatMemorySize));
+      }
+
+      case 'camera': {
+        const options = [...specs.camera.rear, specs.camera.front]
+          .map(camera => camera?.megapixels)
+          .filter((megapixels): megapixels is number => typeof megapixels === 'number');
+        if (options.length === 0) return unverifiable;
+        const closest = nearest(options, value);
+        return result(Math.abs(value - closest) <= CAMERA_TOLERANCE_MP, `${closest}MP`);
+      }
+
+      case 'weight': {
+        const weight = normalized.build.weightGrams;
+        if (!weight) return unverifiable;
+        return result(withinRatio(value, weight, WEIGHT_TOLERANCE), formatWeight(weight));
+      }
+
+      case 'price':
+        return this.checkPrice(claim, value, phone);
+
+      default:
+        return unverifiable;
+    }
+  }
+
+  /**
+   * Check the claims in a text, then correct or annotate the contradicted ones
+   * `defaultPhone` is the phone claims belong to before any phone is named,
+   * e.g. the phone a comparison insight was written about; with a single
+   * phone in context it is that phone.
+   */
+  ground(text: string, phones: Phone[], options: { mode?: GroundingMode; defaultPhone?: Phone } = {}): GroundedText {
+    const mode = options.mode || 'annotate';
+    const defaultPhone = options.defaultPhone || (phones.length === 1 ? phones[0] : undefined);
+
+    if (!text || phones.length === 0) {
+      return { text, checks: [] };
+    }
+
+    const byId = new Map(phones.map(phone => [phone.id, phone]));
+    const checks = extractClaims(text, phones, defaultPhone?.id).map(claim => {
+      const phone = claim.phoneId ? byId.get(claim.phoneId) : undefined;
+      return phone ? this.checkClaim(claim, phone) : { claim, status: 'unverifiable' as const };
+    });
+
+    // Rewrite from the end so earlier offsets stay valid
+    let grounded = text;
+    [...checks].reverse().forEach(({ claim, status, expected }) => {
+      if (status !== 'contradicted' || !expected) return;
+
+      grounded = mode === 'correct'
+        ? grounded.slice(0, claim.start) + expected + grounded.slice(claim.end)
+        : `${grounded.slice(0, claim.end)} (our catalog lists ${expected})${grounded.slice(claim.end)}`;
+    });
+
+    return { text: grounded, checks };
+  }
+
+  /**
+   * Summarize checks into the report kept in message metadata
+   */
+  summarize(checks: ClaimCheck[], mode: GroundingMode = 'annotate'): GroundingReport {
+    const count = (status: ClaimCheck['status']) => checks.filter(check => check.status === status).length;
+    const verified = count('verified');
+    const contradicted = count('contradicted');
+    const checked = verified + contradicted;
+
+    return {
+      score: checked === 0 ? 1 : Math.round(verified / checked * 100) / 100,
+      mode,
+      claims: checks.length,
+      verified,
+      contradicted,
+      unverifiable: count('unverifiable'),
+      mismatches: checks
+        .filter(check => check.status === 'contradicted')
+        .map(({ claim, expected }) => ({
+          kind: claim.kind,
+          phoneId: claim.phoneId!,
+          claimed: claim.text,
+          expected: expected!,
+        })),
+    };
+  }
+
+  /**
+   * Prices are checked against every listing in the claimed currency: the
+   * home pricing, each variant and regional listings
+   */
+  private checkPrice(claim: SpecClaim, value: number, phone: Phone): ClaimCheck {
+    const { pricing } = phone;
+    const currency = (claim.currency || pricing.currency) as Currency;
+    const home = currency === pricing.currency;
+    const regional = (pricing.regionalPrices || []).filter(listing => listing.currency === currency);
+
+    const positive = (prices: Array<number | undefined>) =>
+      prices.filter((price): price is number => typeof price === 'number' && price > 0);
+
+    // Selling prices, which are what a correction quotes
+    const current = positive(home
+      ? [pricing.currentPrice, ...(phone.variants || []).map(variant => variant.currentPrice)]
+      : regional.map(listing => listing.currentPrice));
+    const listed = [
+      ...current,
+      ...positive(home
+        ? [pricing.mrp, pricing.effectivePrice, ...(phone.variants || []).map(variant => variant.mrp)]
+        : regional.map(listing => listing.mrp)),
+    ];
+
+    if (current.length === 0) {
+      return { claim, status: 'unverifiable' };
+    }
+
+    if (listed.some(price => withinRatio(value, price, PRICE_TOLERANCE))) {
+      return { claim, status: 'verified' };
+    }
+
+    const low = Math.min(...current);
+    const high = Math.max(...current);
+
+    return {
+      claim,
+      status: 'contradicted',
+      expected: low === high ? formatPrice(low, currency) : `${formatPrice(low, currency)}–${formatPrice(high, currency)}`,
+    };
+  }
+}
+
+// Export singleton instance
+export const specGroundingChecker = new SpecGroundingChecker();
@@ -0,0 +1,235 @@
+import { Phone } from '../../types/phone.js';
+import { SpecClaim, SpecKind } from './types.js';
+
+interface ClaimPattern {
+  kind: SpecKind;
+  pattern: RegExp;
+  parse(match: RegExpExecArray): { value: number | string; currency?: string };
+}
+
+interface PhoneMention {
+  phoneId: string;
+  start: number;
+  end: number;
+}
+
+// Words after a model name that make it a different phone, e.g. "S24" in "S24 Ultra"
+const MODEL_SUFFIX = /^\s*(?:pro|plus|ultra|max|mini|lite|fe|neo|\+)\b/i;
+
+// Words around a number that make it a bound or a difference rather than a spec
+const RELATIVE_BEFORE = /\b(?:under|below|within|less than|more than|up ?to|over|above|budget of|save|saves|saving|extra|difference of|discount of)\s*$/i;
+const RELATIVE_AFTER = /^\s*(?:more|less|bigger|smaller|larger|higher|lower|extra|cheaper|costlier|faster|slower|off|discount|difference)\b/i;
+
+// Sentence openings that keep talking about the phone named just before
+const CONTINUATION = /^\s*(?:it|its|it's|this|that|they|their|also|plus|and|but)\b/i;
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '₹': 'INR', 'rs': 'INR', 'rs.': 'INR', 'inr': 'INR', 'rupees': 'INR',
+  '$': 'USD', 'usd': 'USD',
+  '€': 'EUR', 'eur': 'EUR',
+  '£': 'GBP', 'gbp': 'GBP',
+  'aed': 'AED',
+};
+
+function parseNumber(value: string): number {
+  return parseFloat(value.replace(/,/g, ''));
+}
+
+function parseAmount(amount: string, scale?: string): number {
+  const value = parseNumber(amount);
+  switch (scale?.toLowerCase()) {
+    case 'k':
+      return Math.round(value * 1000);
+    case 'lakh':
+    case 'lakhs':
+      return Math.round(value * 100000);
+    default:
+      return value;
+  }
+}
+
+const CLAIM_PATTERNS: ClaimPattern[] = [
+  {
+    kind: 'battery',
+    pattern: /\b(\d{1,2},?\d{3})\s?mAh\b/gi,
+    parse: match => ({ value: parseNumber(match[1]) }),
+  },
+  {
+    kind: 'charging',
+    pattern: /\b(\d{2,3})\s?W\b/gi,
+    parse: match => ({ value: parseNumber(match[1]) }),
+  },
+  {
+    kind: 'display',
+    pattern: /\b(\d\.\d{1,2})\s?(?:-?inch(?:es)?\b|"|″)/gi,
+    parse: match => ({ value: parseNumber(match[1]) }),
+  },
+  {
+    kind: 'refreshRate',
+    pattern: /\b(\d{2,3})\s?Hz\b/gi,
+    parse: match => ({ value: parseNumber(match[1]) }),
+  },
+  {
+    kind: 'ram',
+    pattern: /\b(\d{1,2})\s?GB(?=\s+(?:of\s+)?(?:LPDDR\w*\s+)?RAM\b)/gi,
+    parse: match => ({ value: parseNumber(match[1]) }),
+  },
+  {
+    kind: 'storage',
+    pattern: /\b(\d{1,4})\s?(GB|TB)(?=\s+(?:of\s+)?(?:internal\s+|UFS\s?[\d.]+\s+)?(?:storage|ROM)\b)/gi,
+    parse: match => ({ value: parseNumber(match[1]) * (match[2].toUpperCase() === 'TB' ? 1024 : 1) }),
+  },
+  {
+    kind: 'camera',
+    pattern: /\b(\d{1,3}(?:\.\d)?)\s?MP\b/gi,
+    parse: match => ({ value: parseNumber(match[1]) }),
+  },
+  {
+    kind: 'weight',
+    pattern: /\b(\d{3}(?:\.\d)?)\s?(?:g|grams)\b/gi,
+    parse: match => ({ value: parseNumber(match[1]) }),
+  },
+  {
+    kind: 'price',
+    pattern: /(₹|\$|€|£|\b(?:rs\.?|inr|usd|eur|gbp|aed)\s?)(\d[\d,]*(?:\.\d+)?)(?:\s?(k|lakhs?)\b)?/gi,
+    parse: match => ({
+      value: parseAmount(match[2], match[3]),
+      currency: CURRENCY_SYMBOLS[match[1].trim().toLowerCase()],
+    }),
+  },
+  {
+    kind: 'price',
+    pattern: /\b(\d[\d,]*(?:\.\d+)?)(?:\s?(k|lakhs?))?\s(rupees)\b/gi,
+    parse: match => ({ value: parseAmount(match[1], match[2]), currency: 'INR' }),
+  },
+  {
+    kind: 'chipset',
+    pattern: /\b(?:snapdragon|dimensity|helio|exynos|tensor|kirin|unisoc)(?:\s?(?:\d+[a-z]*|gen|elite|plus|pro|ultra|[a-z]\d+[a-z]*)\b|\+)*|\b(?:apple\s+a1\d(?:\s(?:pro|bionic))?|a1\d\s(?:pro|bionic))\b/gi,
+    parse: match => ({ value: match[0].trim() }),
+  },
+];
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Names a phone may go by in AI text, longest first
+ * e.g. "Samsung Galaxy S24", "Galaxy S24"; "OnePlus 12" for brand OnePlus
+ * and model "OnePlus 12" only once.
+ */
+export function getPhoneNames(phone: Pick<Phone, 'brand' | 'model'>): string[] {
+  const model = phone.model.trim();
+  const names = new Set([`${phone.brand} ${model}`, model]);
+
+  if (model.toLowerCase().startsWith(`${phone.brand.toLowerCase()} `)) {
+    names.delete(`${phone.brand} ${model}`);
+  }
+
+  return Array.from(names).sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Find where each phone is named in the text
+ * Longer names win where names overlap, so "S24 Ultra" is not also read as "S24".
+ */
+export function findPhoneMentions(text: string, phones: Phone[]): PhoneMention[] {
+  const candidates = phones
+    .flatMap(phone => getPhoneNames(phone).map(name => ({ phoneId: phone.id, name })))
+    .sort((a, b) => b.name.length - a.name.length);
+
+  const mentions: PhoneMention[] = [];
+
+  for (const { phoneId, name } of candidates) {
+    const pattern = new RegExp(`(?<![\\w])${escapeRegExp(name)}(?![\\w])`, 'gi');
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(text)) !== null) {
+      const start = match.index;
+      const end = start + match[0].length;
+
+      if (MODEL_SUFFIX.test(text.slice(end))) continue;
+      if (mentions.some(mention => start < mention.end && end > mention.start)) continue;
+
+      mentions.push({ phoneId, start, end });
+    }
+  }
+
+  return mentions.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Sentence boundaries in the text, as [start, end) offsets
+ * Decimal points are not boundaries since they are not followed by a space.
+ */
+function splitSentences(text: string): Array<[number, number]> {
+  const sentences: Array<[number, number]> = [];
+  const boundary = /[.!?](?=\s)|\n/g;
+  let start = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = boundary.exec(text)) !== null) {
+    sentences.push([start, match.index + 1]);
+    start = match.index + 1;
+  }
+  sentences.push([start, text.length]);
+
+  return sentences;
+}
+
+/**
+ * Extract spec claims from AI text and attribute each to a phone
+ * A claim belongs to the phone named last before it in its sentence, or the
+ * first one named after it. A sentence naming no phone is about the phone
+ * the previous sentence ended on when it opens with a reference such as
+ * "It", and about `defaultPhoneId` otherwise. Claims with no phone to
+ * attribute them to are returned without `phoneId`.
+ */
+export function extractClaims(text: string, phones: Phone[], defaultPhoneId?: string): SpecClaim[] {
+  const mentions = findPhoneMentions(text, phones);
+  const claims: SpecClaim[] = [];
+
+  for (const { kind, pattern, parse } of CLAIM_PATTERNS) {
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(text)) !== null) {
+      const start = match.index;
+      const end = start + match[0].trimEnd().length;
+
+      if (mentions.some(mention => start < mention.end && end > mention.start)) continue;
+      if (claims.some(claim => start < claim.end && end > claim.start)) continue;
+
+      const parsed = parse(match);
+      if (typeof parsed.value === 'number') {
+        if (!Number.isFinite(parsed.value)) continue;
+        if (RELATIVE_BEFORE.test(text.slice(Math.max(0, start - 20), start))) continue;
+        if (RELATIVE_AFTER.test(text.slice(end))) continue;
+      }
+
+      claims.push({ kind, text: text.slice(start, end), start, end, ...parsed });
+    }
+  }
+
+  // Attribute claims sentence by sentence
+  let previousPhoneId = defaultPhoneId;
+
+  for (const [sentenceStart, sentenceEnd] of splitSentences(text)) {
+    const inSentence = mentions.filter(mention => mention.start >= sentenceStart && mention.start < sentenceEnd);
+    const fallbackPhoneId = CONTINUATION.test(text.slice(sentenceStart, sentenceEnd)) ? previousPhoneId : defaultPhoneId;
+
+    claims
+      .filter(claim => claim.start >= sentenceStart && claim.start < sentenceEnd)
+      .forEach(claim => {
+        const before = inSentence.filter(mention => mention.start < claim.start).pop();
+        const phoneId = (before || inSentence[0])?.phoneId ?? fallbackPhoneId;
+        if (phoneId) {
+          claim.phoneId = phoneId;
+        }
+      });
+
+    previousPhoneId = inSentence.length > 0 ? inSentence[inSentence.length - 1].phoneId : fallbackPhoneId;
+  }
+
+  return claims.sort((a, b) => a.start - b.start);
+}
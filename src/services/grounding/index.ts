@@ -0,0 +1,3 @@
+export * from './types.js';
+export { extractClaims, findPhoneMentions, getPhoneNames } from './claims.js';
+export { SpecGroundingChecker, specGroundingChecker } from './checker.js';
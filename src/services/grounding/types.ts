@@ -0,0 +1,82 @@
+/**
+ * Specs an AI answer can state that we hold catalog data for
+ */
+export type SpecKind =
+  | 'battery'
+  | 'charging'
+  | 'chipset'
+  | 'price'
+  | 'display'
+  | 'refreshRate'
+  | 'ram'
+  | 'storage'
+  | 'camera'
+  | 'weight';
+
+/**
+ * A spec value stated in AI text
+ * `start` and `end` are offsets of the claim in the text it was extracted
+ * from. Numeric claims carry the value in the unit the catalog uses (mAh, W,
+ * inches, Hz, GB, MP, grams, or the price in `currency`); chipset claims
+ * carry the chipset as written.
+ */
+export interface SpecClaim {
+  kind: SpecKind;
+  text: string;
+  start: number;
+  end: number;
+  value: number | string;
+  currency?: string;
+  phoneId?: string;
+}
+
+/**
+ * Outcome of checking one claim against its phone's catalog record
+ */
+export type ClaimStatus = 'verified' | 'contradicted' | 'unverifiable';
+
+export interface ClaimCheck {
+  claim: SpecClaim;
+  status: ClaimStatus;
+  expected?: string; // Catalog value as it should read, set for contradicted claims
+}
+
+/**
+ * How contradicted claims are surfaced in the text
+ * - correct: replace the claimed value with the catalog value
+ * - annotate: keep the claimed value and append the catalog value
+ */
+export type GroundingMode = 'correct' | 'annotate';
+
+/**
+ * Contradicted claim as kept in message metadata
+ */
+export interface GroundingMismatch {
+  kind: SpecKind;
+  phoneId: string;
+  claimed: string;
+  expected: string;
+}
+
+/**
+ * Grounding outcome attached to a message or comparison
+ * `score` is the share of checkable claims the catalog confirms, and 1 when
+ * the text stated nothing we could check.
+ */
+export interface GroundingReport {
+  score: number;
+  mode: GroundingMode;
+  claims: number;
+  verified: number;
+  contradicted: number;
+  unverifiable: number;
+  mismatches: GroundingMismatch[];
+}
+
+/**
+ * Text after grounding, with the checks that produced it
+ */
+export interface GroundedText {
+  text: string;
+  checks: ClaimCheck[];
+}
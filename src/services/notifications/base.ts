@@ -0,0 +1,55 @@
+import { NotificationChannel, NotificationMessage } from './types.js';
+import type { PriceAlertPayload } from '../../types/alerts.js';
+
+/**
+ * Error raised when a channel fails to deliver a notification
+ */
+export class NotificationDeliveryError extends Error {
+  constructor(
+    message: string,
+    public readonly channel: NotificationChannel,
+    public readonly retryable = true
+  ) {
+    super(message);
+    this.name = 'NotificationDeliveryError';
+  }
+}
+
+/**
+ * Base class for notification channels
+ * Channels deliver one message at a time and throw on failure; retries and
+ * bookkeeping are left to the dispatcher.
+ */
+export abstract class BaseNotificationChannel {
+  abstract readonly name: NotificationChannel;
+
+  /**
+   * Deliver a notification, throwing NotificationDeliveryError on failure
+   */
+  abstract deliver(message: NotificationMessage): Promise<void>;
+}
+
+const formatPrice = (price: number, currency: string) => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency,
+    maximumFractionDigits: 0,
+  }).format(price);
+};
+
+/**
+ * Subject and plain-text body describing a price alert
+ */
+export function formatPriceAlert(payload: PriceAlertPayload): { subject: string; text: string } {
+  const price = formatPrice(payload.price, payload.currency);
+  const drop = Math.round(((payload.baselinePrice - payload.price) / payload.baselinePrice) * 100);
+
+  const detail = payload.reason === 'target_price' && payload.targetPrice !== null
+    ? `It is now ${price}, at or below your target of ${formatPrice(payload.targetPrice, payload.currency)}.`
+    : `It is now ${price}, ${drop}% below the ${formatPrice(payload.baselinePrice, payload.currency)} it cost when you started watching.`;
+
+  return {
+    subject: `Price drop: ${payload.phoneName} is now ${price}`,
+    text: `${payload.phoneName} dropped in price. ${detail}`,
+  };
+}
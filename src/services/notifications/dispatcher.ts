@@ -0,0 +1,78 @@
+import { PriceAlertService } from '../../lib/services/index.js';
+import type { NotificationOutbox } from '../../lib/database.js';
+import { BaseNotificationChannel, NotificationDeliveryError } from './base.js';
+import { DispatchSummary, NotificationChannel, NotificationMessage } from './types.js';
+import type { PriceAlertPayload } from '../../types/alerts.js';
+
+type OutboxStore = Pick<
+  PriceAlertService,
+  'getPendingNotifications' | 'markNotificationSent' | 'markNotificationFailed'
+>;
+
+/**
+ * Delivers pending outbox rows through the configured channels
+ * Failed rows are retried with backoff by the outbox; rows whose channel is
+ * not configured, or whose error is permanent, fail straight away.
+ */
+export class NotificationDispatcher {
+  private channels = new Map<NotificationChannel, BaseNotificationChannel>();
+
+  constructor(
+    channels: BaseNotificationChannel[],
+    private readonly store: OutboxStore = new PriceAlertService()
+  ) {
+    for (const channel of channels) {
+      this.channels.set(channel.name, channel);
+    }
+  }
+
+  /**
+   * Deliver up to `limit` due notifications
+   */
+  async dispatchPending(limit = 100): Promise<DispatchSummary> {
+    const pending = await this.store.getPendingNotifications(limit);
+    const summary: DispatchSummary = { sent: 0, retrying: 0, failed: 0 };
+
+    for (const notification of pending) {
+      const channel = this.channels.get(notification.channel as NotificationChannel);
+
+      try {
+        if (!channel) {
+          throw new NotificationDeliveryError(
+            `No ${notification.channel} channel is configured`,
+            notification.channel as NotificationChannel,
+            false
+          );
+        }
+
+        await channel.deliver(toMessage(notification));
+        await this.store.markNotificationSent(notification.id);
+        summary.sent++;
+      } catch (error) {
+        const retryable = !(error instanceof NotificationDeliveryError) || error.retryable;
+        const retrying = await this.store.markNotificationFailed(
+          notification,
+          error instanceof Error ? error.message : 'Unknown error',
+          retryable
+        );
+
+        if (retrying) {
+          summary.retrying++;
+        } else {
+          summary.failed++;
+        }
+      }
+    }
+
+    return summary;
+  }
+}
+
+function toMessage(notification: NotificationOutbox): NotificationMessage {
+  return {
+    id: notification.id,
+    channel: notification.channel as NotificationChannel,
+    recipient: notification.recipient,
+    payload: notification.payload as unknown as PriceAlertPayload,
+  };
+}
@@ -0,0 +1,41 @@
+import { BaseNotificationChannel, NotificationDeliveryError, formatPriceAlert } from './base.js';
+import { SmtpClient, SmtpError } from './smtp.js';
+import { NotificationMessage, SmtpSettings } from './types.js';
+
+/**
+ * Delivers alerts as plain-text email over SMTP
+ * Permanent (5xx) SMTP replies are not retried.
+ */
+export class EmailChannel extends BaseNotificationChannel {
+  readonly name = 'email' as const;
+  private client: SmtpClient;
+
+  constructor(private readonly settings: SmtpSettings) {
+    super();
+    this.client = new SmtpClient(settings);
+  }
+
+  async deliver(message: NotificationMessage): Promise<void> {
+    if (!message.recipient) {
+      throw new NotificationDeliveryError('Email address is missing', this.name, false);
+    }
+
+    const { subject, text } = formatPriceAlert(message.payload);
+
+    try {
+      await this.client.send({
+        from: this.settings.from,
+        to: message.recipient,
+        subject,
+        text: `${text}\n\nYou are receiving this because you set a price alert on MobileMatrix.`,
+      });
+    } catch (error) {
+      const permanent = error instanceof SmtpError && error.code !== undefined && error.code >= 500;
+      throw new NotificationDeliveryError(
+        `Email delivery failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        this.name,
+        !permanent
+      );
+    }
+  }
+}
@@ -0,0 +1,11 @@
+import { BaseNotificationChannel } from './base.js';
+
+/**
+ * In-app alerts are read straight from the outbox, so delivery only marks
+ * them as sent
+ */
+export class InAppChannel extends BaseNotificationChannel {
+  readonly name = 'in_app' as const;
+
+  async deliver(): Promise<void> {}
+}
@@ -0,0 +1,46 @@
+import { BaseNotificationChannel } from './base.js';
+import { EmailChannel } from './email.js';
+import { InAppChannel } from './inApp.js';
+import { WebhookChannel } from './webhook.js';
+import { NotificationDispatcher } from './dispatcher.js';
+
+export * from './types.js';
+export { BaseNotificationChannel, NotificationDeliveryError, formatPriceAlert } from './base.js';
+export { WebhookChannel, signWebhookBody, WEBHOOK_SIGNATURE_HEADER } from './webhook.js';
+export { EmailChannel } from './email.js';
+export { InAppChannel } from './inApp.js';
+export { SmtpClient, SmtpError, buildMailMessage } from './smtp.js';
+export { NotificationDispatcher } from './dispatcher.js';
+
+/**
+ * Create the channels configured in the environment
+ * In-app and webhook alerts are always available; email needs SMTP_HOST and
+ * SMTP_FROM.
+ */
+export function createNotificationChannels(env: NodeJS.ProcessEnv = process.env): BaseNotificationChannel[] {
+  const channels: BaseNotificationChannel[] = [
+    new InAppChannel(),
+    new WebhookChannel({
+      timeout: parseInt(env.ALERT_WEBHOOK_TIMEOUT || '10000', 10),
+      secret: env.ALERT_WEBHOOK_SECRET || undefined,
+    }),
+  ];
+
+  if (env.SMTP_HOST && env.SMTP_FROM) {
+    const port = parseInt(env.SMTP_PORT || '587', 10);
+    channels.push(new EmailChannel({
+      host: env.SMTP_HOST,
+      port,
+      secure: env.SMTP_SECURE ? env.SMTP_SECURE === 'true' : port === 465,
+      user: env.SMTP_USER || undefined,
+      password: env.SMTP_PASSWORD || undefined,
+      from: env.SMTP_FROM,
+      timeout: parseInt(env.SMTP_TIMEOUT || '15000', 10),
+    }));
+  }
+
+  return channels;
+}
+
+// Export singleton instance
+export const notificationDispatcher = new NotificationDispatcher(createNotificationChannels());
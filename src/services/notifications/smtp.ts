@@ -0,0 +1,231 @@
+import { Socket, connect as connectTcp } from 'net';
+import { TLSSocket, connect as connectTls } from 'tls';
+import { randomUUID } from 'crypto';
+import { SmtpSettings } from './types.js';
+
+/**
+ * Plain-text email to send
+ */
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Error raised when the SMTP server rejects a command or the connection fails
+ * `code` is the server's reply code, when there was one.
+ */
+export class SmtpError extends Error {
+  constructor(message: string, public readonly code?: number) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+// Header values must not be able to add headers of their own
+const headerValue = (value: string) => value.replace(/[\r\n]+/g, ' ').trim();
+
+const encodeHeader = (value: string) => {
+  const clean = headerValue(value);
+  return /^[\x20-\x7e]*$/.test(clean) ? clean : `=?UTF-8?B?${Buffer.from(clean, 'utf8').toString('base64')}?=`;
+};
+
+const addressOf = (mailbox: string) => {
+  const match = mailbox.match(/<([^>]+)>/);
+  return headerValue(match ? match[1] : mailbox);
+};
+
+/**
+ * Build an RFC 5322 message with a base64-encoded UTF-8 body
+ * Base64 keeps lines short and means no line can start with a dot.
+ */
+export function buildMailMessage(message: MailMessage, date: Date = new Date()): string {
+  const domain = addressOf(message.from).split('@')[1] ?? 'localhost';
+  const body = Buffer.from(message.text.replace(/\r?\n/g, '\r\n'), 'utf8').toString('base64');
+
+  return [
+    `From: ${headerValue(message.from)}`,
+    `To: ${headerValue(message.to)}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    ...(body.match(/.{1,76}/g) ?? []),
+  ].join('\r\n');
+}
+
+/**
+ * Line-oriented SMTP connection that reads one reply per command
+ */
+class SmtpConnection {
+  private buffer = '';
+  private lines: string[] = [];
+  private waiting?: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void };
+  private failure?: Error;
+
+  private constructor(private socket: Socket | TLSSocket, private readonly timeout: number) {
+    this.listen();
+  }
+
+  static open(settings: SmtpSettings): Promise<SmtpConnection> {
+    return new Promise((resolve, reject) => {
+      const socket = settings.secure
+        ? connectTls({ host: settings.host, port: settings.port, servername: settings.host })
+        : connectTcp({ host: settings.host, port: settings.port });
+      const ready = settings.secure ? 'secureConnect' : 'connect';
+
+      socket.setTimeout(settings.timeout, () => socket.destroy(new SmtpError('SMTP connection timed out')));
+      socket.once('error', reject);
+      socket.once(ready, () => {
+        socket.off('error', reject);
+        resolve(new SmtpConnection(socket, settings.timeout));
+      });
+    });
+  }
+
+  /**
+   * Read the next reply and check its code
+   */
+  async expect(codes: number[]): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!codes.includes(reply.code)) {
+      throw new SmtpError(`SMTP server replied ${reply.lines.join(' ')}`, reply.code);
+    }
+    return reply;
+  }
+
+  /**
+   * Send a command and check the reply code
+   */
+  command(line: string, codes: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(codes);
+  }
+
+  /**
+   * Switch the connection to TLS after STARTTLS
+   */
+  upgrade(host: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.socket.removeAllListeners('data');
+      const secure = connectTls({ socket: this.socket, servername: host });
+      secure.setTimeout(this.timeout, () => secure.destroy(new SmtpError('SMTP connection timed out')));
+      secure.once('error', reject);
+      secure.once('secureConnect', () => {
+        secure.off('error', reject);
+        this.socket = secure;
+        this.listen();
+        resolve();
+      });
+    });
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+
+  private listen(): void {
+    this.socket.on('data', (chunk: Buffer) => {
+      this.buffer += chunk.toString('utf8');
+      let index: number;
+      while ((index = this.buffer.indexOf('\r\n')) !== -1) {
+        this.lines.push(this.buffer.slice(0, index));
+        this.buffer = this.buffer.slice(index + 2);
+      }
+      this.flush();
+    });
+    this.socket.on('error', error => this.fail(error));
+    this.socket.on('close', () => this.fail(new SmtpError('SMTP connection closed')));
+  }
+
+  private read(): Promise<SmtpReply> {
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+      this.flush();
+    });
+  }
+
+  // A reply ends at the first line with a space after its code ("250 OK"
+  // rather than "250-SIZE")
+  private flush(): void {
+    if (!this.waiting) return;
+
+    const end = this.lines.findIndex(line => /^\d{3}(?: |$)/.test(line));
+    if (end === -1) return;
+
+    const lines = this.lines.splice(0, end + 1);
+    const { resolve } = this.waiting;
+    this.waiting = undefined;
+    resolve({ code: Number(lines[end].slice(0, 3)), lines });
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = undefined;
+      reject(error);
+    }
+  }
+}
+
+/**
+ * Minimal SMTP client: one connection per message, STARTTLS when offered and
+ * AUTH PLAIN when credentials are set
+ * Credentials are never sent over an unencrypted connection.
+ */
+export class SmtpClient {
+  constructor(private readonly settings: SmtpSettings) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const { settings } = this;
+    const clientName = settings.clientName ?? 'localhost';
+    const connection = await SmtpConnection.open(settings);
+
+    try {
+      await connection.expect([220]);
+      const greeting = await connection.command(`EHLO ${clientName}`, [250]);
+      let encrypted = settings.secure;
+
+      if (!encrypted && supports(greeting, 'STARTTLS')) {
+        await connection.command('STARTTLS', [220]);
+        await connection.upgrade(settings.host);
+        await connection.command(`EHLO ${clientName}`, [250]);
+        encrypted = true;
+      }
+
+      if (settings.user) {
+        if (!encrypted) {
+          throw new SmtpError('SMTP server does not support STARTTLS; refusing to send credentials');
+        }
+        const token = Buffer.from(`\0${settings.user}\0${settings.password ?? ''}`, 'utf8').toString('base64');
+        await connection.command(`AUTH PLAIN ${token}`, [235]);
+      }
+
+      await connection.command(`MAIL FROM:<${addressOf(message.from)}>`, [250]);
+      await connection.command(`RCPT TO:<${addressOf(message.to)}>`, [250, 251]);
+      await connection.command('DATA', [354]);
+      await connection.command(`${buildMailMessage(message)}\r\n.`, [250]);
+      await connection.command('QUIT', [221]).catch(() => undefined);
+    } finally {
+      connection.close();
+    }
+  }
+}
+
+function supports(reply: SmtpReply, extension: string): boolean {
+  return reply.lines.some(line => line.slice(4).toUpperCase().startsWith(extension));
+}
@@ -0,0 +1,44 @@
+import type { NotificationChannel, PriceAlertPayload } from '../../types/alerts.js';
+
+export type { NotificationChannel };
+
+/**
+ * One outbox row handed to a channel for delivery
+ */
+export interface NotificationMessage {
+  id: string;
+  channel: NotificationChannel;
+  recipient: string | null;
+  payload: PriceAlertPayload;
+}
+
+/**
+ * Webhook channel settings
+ */
+export interface WebhookChannelSettings {
+  timeout: number;
+  secret?: string; // Signs each body with HMAC-SHA256 when set
+}
+
+/**
+ * SMTP connection settings for the email channel
+ */
+export interface SmtpSettings {
+  host: string;
+  port: number;
+  secure: boolean; // Implicit TLS (usually port 465); otherwise STARTTLS is used when offered
+  user?: string;
+  password?: string;
+  from: string;
+  timeout: number;
+  clientName?: string; // Name sent with EHLO
+}
+
+/**
+ * Outcome of a dispatch run
+ */
+export interface DispatchSummary {
+  sent: number;
+  retrying: number;
+  failed: number;
+}
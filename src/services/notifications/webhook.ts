@@ -0,0 +1,98 @@
+import { createHmac } from 'crypto';
+import { lookup } from 'dns/promises';
+import { BaseNotificationChannel, NotificationDeliveryError } from './base.js';
+import { NotificationMessage, WebhookChannelSettings } from './types.js';
+import { getUrlHost, isPrivateAddress, isPublicHttpsUrl } from '../../utils/network.js';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-MobileMatrix-Signature';
+
+/**
+ * Resolves a host name to every address it points at
+ */
+export type HostLookup = (host: string) => Promise<string[]>;
+
+async function lookupHost(host: string): Promise<string[]> {
+  const addresses = await lookup(host, { all: true });
+  return addresses.map(({ address }) => address);
+}
+
+/**
+ * Sign a webhook body so receivers can check it came from us
+ */
+export function signWebhookBody(body: string, secret: string): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+/**
+ * Delivers alerts as a JSON POST to the watch's webhook URL
+ * The URL is checked again before each request, so a host that has since
+ * moved to a private address is refused; redirects are not followed.
+ * 4xx responses other than 408 and 429 are not retried.
+ */
+export class WebhookChannel extends BaseNotificationChannel {
+  readonly name = 'webhook' as const;
+
+  constructor(
+    private readonly settings: WebhookChannelSettings,
+    private readonly lookup: HostLookup = lookupHost
+  ) {
+    super();
+  }
+
+  async deliver(message: NotificationMessage): Promise<void> {
+    if (!message.recipient) {
+      throw new NotificationDeliveryError('Webhook URL is missing', this.name, false);
+    }
+    await this.checkRecipient(message.recipient);
+
+    const body = JSON.stringify({ id: message.id, type: 'price_alert', data: message.payload });
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'MobileMatrix-Alerts/1.0',
+    };
+    if (this.settings.secret) {
+      headers[WEBHOOK_SIGNATURE_HEADER] = signWebhookBody(body, this.settings.secret);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(message.recipient, {
+        method: 'POST',
+        headers,
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(this.settings.timeout),
+      });
+    } catch (error) {
+      throw new NotificationDeliveryError(
+        `Webhook request failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        this.name
+      );
+    }
+
+    if (!response.ok) {
+      const retryable = response.status >= 500 || response.status === 408 || response.status === 429;
+      throw new NotificationDeliveryError(`Webhook responded with ${response.status}`, this.name, retryable);
+    }
+  }
+
+  private async checkRecipient(recipient: string): Promise<void> {
+    if (!isPublicHttpsUrl(recipient)) {
+      throw new NotificationDeliveryError('Webhook URL must be a public https address', this.name, false);
+    }
+
+    let addresses: string[];
+    try {
+      addresses = await this.lookup(getUrlHost(new URL(recipient)));
+    } catch (error) {
+      throw new NotificationDeliveryError(
+        `Webhook host lookup failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        this.name
+      );
+    }
+
+    if (addresses.some(isPrivateAddress)) {
+      throw new NotificationDeliveryError('Webhook host resolves to a private address', this.name, false);
+    }
+  }
+}
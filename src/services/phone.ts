@@ -1,5 +1,11 @@
 import { prisma, withRetry, withMetrics } from '../lib/database.js';
 import { cacheService, CacheKeys, CacheTTL } from '../lib/cache.js';
+import {
+  PhoneQueryBuilder,
+  createPaginatedQuery,
+  createPaginationMeta
+} from '../lib/database/queryOptimizer.js';
+import { fuzzySearch, orderByRank } from '../lib/database/fuzzySearch.js';
 import { PhoneService as IPhoneService } from '../types/services.js';
 import { 
   Phone, 
@@ -10,7 +16,48 @@ import {
   PhoneModelSchema,
   PhoneAvailability 
 } from '../types/phone.js';
+import { FacetedSearchResponse, PhoneSearchQuery, SearchFacets } from '../types/api.js';
 import { Prisma } from '../generated/prisma/index.js';
+import {
+  RawCameraLines,
+  UnparsedSpecReport,
+  buildUnparsedSpecReport,
+  getNormalizedSpecs,
+  normalizeSpecifications,
+  parseCameraLine
+} from './specNormalization.js';
+import {
+  applySearchFilters,
+  buildBrandBuckets,
+  buildFacetBucketQueries,
+  createEmptyFacets,
+  getFacetCacheKey,
+  getSearchOrderBy
+} from './searchFacets.js';
+import { comparisonEngine } from './comparison.js';
+
+// Purchasable configurations, smallest first
+const ACTIVE_VARIANTS = {
+  where: { isActive: true },
+  orderBy: [{ ramGb: 'asc' as const }, { storageGb: 'asc' as const }],
+};
+
+/**
+ * Filters on normalized specs, applied after the database query
+ */
+export interface PhoneSpecFilters {
+  minRamGb?: number;
+  minStorageGb?: number;
+  minDisplayInches?: number;
+  maxDisplayInches?: number;
+  maxWeightGrams?: number;
+}
+
+// Spec filters run in memory, so fetch extra rows to still fill the limit
+const SPEC_FILTER_OVERFETCH = 3;
+
+// Fuzzy matches considered before filters and pagination are applied
+const FUZZY_CANDIDATE_LIMIT = 500;
 
 /**
  * Phone database service implementation with caching
@@ -38,6 +85,22 @@ export class PhoneService implements IPhoneService {
     try {
       const phones = await withMetrics(async () => {
         return await withRetry(async () => {
+          // Ranked typo-tolerant matches when pg_trgm is available
+          const matches = await fuzzySearch.rankPhones(query);
+          if (matches) {
+            const ranked = await prisma.phone.findMany({
+              where: { id: { in: matches.map((match) => match.id) } },
+              include: {
+                brand: true,
+                specifications: true,
+                regionalPrices: true,
+                variants: ACTIVE_VARIANTS,
+              },
+            });
+
+            return orderByRank(ranked, matches).map((result) => this.mapPrismaPhoneToPhone(result));
+          }
+
           const results = await prisma.phone.findMany({
             where: {
               AND: [
@@ -71,6 +134,8 @@ export class PhoneService implements IPhoneService {
             include: {
               brand: true,
               specifications: true,
+              regionalPrices: true,
+              variants: ACTIVE_VARIANTS,
             },
             orderBy: [
               { brand: { name: 'asc' } },
@@ -93,6 +158,147 @@ export class PhoneService implements IPhoneService {
     }
   }
 
+  /**
+   * Faceted search: filters, sorting and pagination run in the database, and
+   * facet counts for each filter come back alongside the page of results
+   */
+  async searchPhonesFaceted(query: PhoneSearchQuery): Promise<FacetedSearchResponse<Phone>> {
+    const { skip, take } = createPaginatedQuery({ page: query.page, limit: query.limit });
+    const matchIds = await this.getFuzzyMatchIds(query.q);
+    const builder = applySearchFilters(new PhoneQueryBuilder(), query, undefined, matchIds)
+      .include({ brand: true, specifications: true, regionalPrices: true, variants: ACTIVE_VARIANTS })
+      .orderBy(getSearchOrderBy(query.sort, query.order))
+      .offset(skip)
+      .limit(take);
+
+    try {
+      const [results, total, facets] = await Promise.all([
+        withMetrics(async () => {
+          return await withRetry(async () => prisma.phone.findMany(builder.build()));
+        }),
+        withRetry(async () => prisma.phone.count(builder.buildCount())),
+        query.facets ? this.getSearchFacets(query, matchIds) : Promise.resolve(undefined),
+      ]);
+
+      return {
+        items: results.map((result) => this.mapPrismaPhoneToPhone(result)),
+        meta: createPaginationMeta(query.page, query.limit, total),
+        ...(facets && { facets }),
+      };
+    } catch (error) {
+      console.error('Error in faceted phone search:', error);
+      throw new Error('Failed to search phones');
+    }
+  }
+
+  /**
+   * Count matching phones per facet bucket, each facet ignoring its own filter
+   */
+  async getSearchFacets(query: PhoneSearchQuery, matchIds?: string[]): Promise<SearchFacets> {
+    const cacheKey = CacheKeys.searchFacets(getFacetCacheKey(query));
+
+    const cachedFacets = await this.cache.get<SearchFacets>(cacheKey);
+    if (cachedFacets) {
+      return cachedFacets;
+    }
+
+    const bucketQueries = buildFacetBucketQueries(query);
+
+    const facets = await withMetrics(async () => {
+      return await withRetry(async () => {
+        const [brandGroups, counts] = await Promise.all([
+          prisma.phone.groupBy({
+            by: ['brandId'],
+            where: applySearchFilters(new PhoneQueryBuilder(), query, 'brand', matchIds).buildWhere(),
+            _count: { _all: true },
+          }),
+          Promise.all(bucketQueries.map((bucket) =>
+            prisma.phone.count(bucket.apply(applySearchFilters(new PhoneQueryBuilder(), query, bucket.facet, matchIds)).buildCount())
+          )),
+        ]);
+
+        const brands = await prisma.brand.findMany({
+          where: { id: { in: brandGroups.map((group) => group.brandId) } },
+          select: { id: true, name: true },
+        });
+        const brandNames = new Map(brands.map((brand) => [brand.id, brand.name]));
+
+        const result = createEmptyFacets();
+        result.brand = buildBrandBuckets(
+          brandGroups.map((group) => ({
+            name: brandNames.get(group.brandId) || group.brandId,
+            count: group._count._all,
+          })),
+          query.brand
+        );
+
+        bucketQueries.forEach(({ facet, value, label, selected }, index) => {
+          result[facet].push({ value, label, count: counts[index], selected });
+        });
+
+        return result;
+      });
+    });
+
+    await this.cache.set(cacheKey, facets, CacheTTL.SHORT);
+    return facets;
+  }
+
+  /**
+   * Find phones by brand, price range, free-text query and normalized specs
+   */
+  async findPhones(filters: {
+    brand?: string;
+    minPrice?: number;
+    maxPrice?: number;
+    query?: string;
+    limit?: number;
+  } & PhoneSpecFilters): Promise<Phone[]> {
+    const limit = filters.limit || 20;
+    const hasSpecFilters = [
+      filters.minRamGb,
+      filters.minStorageGb,
+      filters.minDisplayInches,
+      filters.maxDisplayInches,
+      filters.maxWeightGrams,
+    ].some(value => value !== undefined);
+
+    const builder = new PhoneQueryBuilder()
+      .include({ brand: true, specifications: true, regionalPrices: true, variants: ACTIVE_VARIANTS })
+      .orderBy([{ currentPrice: 'desc' }])
+      .limit(hasSpecFilters ? limit * SPEC_FILTER_OVERFETCH : limit);
+
+    if (filters.brand) {
+      builder.filterByBrand(filters.brand);
+    }
+
+    if (filters.query && filters.query.trim().length >= 2) {
+      const matchIds = await this.getFuzzyMatchIds(filters.query);
+      if (matchIds) {
+        builder.filterByIds(matchIds);
+      } else {
+        builder.search(filters.query);
+      }
+    }
+
+    builder.filterByPriceRange(filters.minPrice, filters.maxPrice);
+
+    try {
+      return await withMetrics(async () => {
+        return await withRetry(async () => {
+          const results = await prisma.phone.findMany(builder.build());
+          return results
+            .map((result) => this.mapPrismaPhoneToPhone(result))
+            .filter((phone) => this.matchesSpecFilters(phone, filters))
+            .slice(0, limit);
+        });
+      });
+    } catch (error) {
+      console.error('Error finding phones:', error);
+      throw new Error('Failed to find phones');
+    }
+  }
+
   /**
    * Get phone by brand and model with caching
    */
@@ -137,6 +343,8 @@ export class PhoneService implements IPhoneService {
             include: {
               brand: true,
               specifications: true,
+              regionalPrices: true,
+              variants: ACTIVE_VARIANTS,
             },
           });
 
@@ -180,6 +388,8 @@ export class PhoneService implements IPhoneService {
             include: {
               brand: true,
               specifications: true,
+              regionalPrices: true,
+              variants: ACTIVE_VARIANTS,
             },
           });
 
@@ -199,6 +409,53 @@ export class PhoneService implements IPhoneService {
     }
   }
 
+  /**
+   * Search brands by name with typo tolerance, best matches first
+   */
+  async searchBrands(query: string, limit = 10): Promise<Brand[]> {
+    const normalizedQuery = query.trim().toLowerCase();
+    if (normalizedQuery.length < 2) {
+      return [];
+    }
+
+    try {
+      return await withMetrics(async () => {
+        return await withRetry(async () => {
+          const matches = await fuzzySearch.rankBrands(normalizedQuery, limit);
+          if (matches) {
+            const brands = await prisma.brand.findMany({
+              where: { id: { in: matches.map((match) => match.id) } },
+            });
+            return orderByRank(brands, matches).map((brand) => this.mapPrismaBrandToBrand(brand));
+          }
+
+          const brands = await prisma.brand.findMany({
+            where: {
+              isActive: true,
+              OR: [
+                { name: { contains: normalizedQuery, mode: 'insensitive' } },
+                { slug: { contains: normalizedQuery, mode: 'insensitive' } },
+              ],
+            },
+            orderBy: { name: 'asc' },
+          });
+
+          // Names starting with the query first
+          return brands
+            .map((brand) => this.mapPrismaBrandToBrand(brand))
+            .sort((a, b) =>
+              Number(!a.name.toLowerCase().startsWith(normalizedQuery)) -
+              Number(!b.name.toLowerCase().startsWith(normalizedQuery))
+            )
+            .slice(0, limit);
+        });
+      });
+    } catch (error) {
+      console.error('Error searching brands:', error);
+      throw new Error('Failed to search brands');
+    }
+  }
+
   /**
    * Get all available brands with caching
    */
@@ -336,6 +593,8 @@ export class PhoneService implements IPhoneService {
             include: {
               brand: true,
               specifications: true,
+              regionalPrices: true,
+              variants: ACTIVE_VARIANTS,
             },
             orderBy: [
               { model: 'asc' },
@@ -399,6 +658,8 @@ export class PhoneService implements IPhoneService {
             include: {
               brand: true,
               specifications: true,
+              regionalPrices: true,
+              variants: ACTIVE_VARIANTS,
             },
             orderBy: [
               { currentPrice: 'asc' },
@@ -420,6 +681,40 @@ export class PhoneService implements IPhoneService {
     }
   }
 
+  /**
+   * Report spec strings that could not be parsed into units
+   */
+  async getUnparsedSpecReport(filters: { brand?: string; limit?: number } = {}): Promise<UnparsedSpecReport> {
+    const phones = await this.findPhones({ brand: filters.brand, limit: filters.limit || 500 });
+    return buildUnparsedSpecReport(phones);
+  }
+
+  /**
+   * Store each active phone's default-weighted overall score for sorting
+   * search results; returns the number of phones scored
+   */
+  async refreshOverallScores(): Promise<number> {
+    try {
+      const results = await withRetry(async () => prisma.phone.findMany({
+        where: { isActive: true },
+        include: { brand: true, specifications: true, regionalPrices: true, variants: ACTIVE_VARIANTS },
+      }));
+
+      for (const result of results) {
+        const scores = await comparisonEngine.calculateScores(this.mapPrismaPhoneToPhone(result));
+        await withRetry(async () => prisma.phone.update({
+          where: { id: result.id },
+          data: { overallScore: scores.overall },
+        }));
+      }
+
+      return results.length;
+    } catch (error) {
+      console.error('Error refreshing phone scores:', error);
+      throw new Error('Failed to refresh phone scores');
+    }
+  }
+
   /**
    * Update phone data from external sources
    * This is a placeholder for future implementation
@@ -438,6 +733,9 @@ export class PhoneService implements IPhoneService {
       // 3. Updating the database with new information
       // 4. Clearing relevant caches
       
+      // Scores feed the "sort by score" search option
+      await this.refreshOverallScores();
+
       console.log('Phone data update completed');
     } catch (error) {
       console.error('Error updating phone data:', error);
@@ -445,6 +743,38 @@ export class PhoneService implements IPhoneService {
     }
   }
 
+  /**
+   * IDs of phones matching a text query by fuzzy search, or undefined when
+   * there is no query or fuzzy search is unavailable
+   */
+  private async getFuzzyMatchIds(query?: string): Promise<string[] | undefined> {
+    if (!query || query.trim().length < 2) {
+      return undefined;
+    }
+
+    const matches = await fuzzySearch.rankPhones(query, FUZZY_CANDIDATE_LIMIT);
+    return matches ? matches.map((match) => match.id) : undefined;
+  }
+
+  /**
+   * Check a phone against normalized spec filters; unknown values never match
+   */
+  private matchesSpecFilters(phone: Phone, filters: PhoneSpecFilters): boolean {
+    const normalized = getNormalizedSpecs(phone);
+    const maxRam = Math.max(0, ...normalized.memory.ramGb);
+    const maxStorage = Math.max(0, ...normalized.memory.storageGb);
+    const size = normalized.display.sizeInches;
+    const weight = normalized.build.weightGrams;
+
+    if (filters.minRamGb !== undefined && maxRam < filters.minRamGb) return false;
+    if (filters.minStorageGb !== undefined && maxStorage < filters.minStorageGb) return false;
+    if (filters.minDisplayInches !== undefined && (size === undefined || size < filters.minDisplayInches)) return false;
+    if (filters.maxDisplayInches !== undefined && (size === undefined || size > filters.maxDisplayInches)) return false;
+    if (filters.maxWeightGrams !== undefined && (weight === undefined || weight > filters.maxWeightGrams)) return false;
+
+    return true;
+  }
+
   /**
    * Validate phone data against schema
    */
@@ -474,6 +804,8 @@ export class PhoneService implements IPhoneService {
    * Map Prisma phone result to Phone type
    */
   private mapPrismaPhoneToPhone(prismaPhone: any): Phone {
+    const specifications = this.mapPrismaSpecsToPhoneSpecs(prismaPhone.specifications);
+
     return {
       id: prismaPhone.id,
       brand: prismaPhone.brand.name,
@@ -485,8 +817,23 @@ export class PhoneService implements IPhoneService {
         mrp: prismaPhone.mrp || 0,
         currentPrice: prismaPhone.currentPrice || 0,
         currency: 'INR' as const,
+        regionalPrices: prismaPhone.regionalPrices?.map((price: any) => ({
+          region: price.region,
+          currency: price.currency,
+          mrp: price.mrp ?? undefined,
+          currentPrice: price.currentPrice,
+        })),
       },
-      specifications: this.mapPrismaSpecsToPhoneSpecs(prismaPhone.specifications),
+      specifications,
+      normalizedSpecs: normalizeSpecifications(specifications, this.getRawCameraLines(prismaPhone.specifications)),
+      variants: prismaPhone.variants?.map((variant: any) => ({
+        id: variant.id,
+        ramGb: variant.ramGb,
+        storageGb: variant.storageGb,
+        color: variant.color ?? undefined,
+        mrp: variant.mrp ?? undefined,
+        currentPrice: variant.currentPrice ?? undefined,
+      })),
       images: prismaPhone.images || [],
       createdAt: prismaPhone.createdAt,
       updatedAt: prismaPhone.updatedAt,
@@ -589,6 +936,25 @@ export class PhoneService implements IPhoneService {
     };
   }
 
+  /**
+   * Raw camera lines from Prisma specifications, for normalization
+   */
+  private getRawCameraLines(specs: any): RawCameraLines | undefined {
+    if (!specs) {
+      return undefined;
+    }
+
+    return {
+      rear: [
+        specs.rearCameraMain,
+        specs.rearCameraUltra,
+        specs.rearCameraTele,
+        specs.rearCameraDepth,
+      ].filter(Boolean),
+      front: specs.frontCamera,
+    };
+  }
+
   /**
    * Parse camera specifications from string array
    */
@@ -604,13 +970,12 @@ export class PhoneService implements IPhoneService {
       return { megapixels: 0, features: [] };
     }
 
-    // Simple parsing - extract megapixels from string like "48MP" or "48 MP"
-    const mpMatch = cameraString.match(/(\d+)\s*MP/i);
-    const megapixels = mpMatch ? parseInt(mpMatch[1], 10) : 0;
+    // Extract megapixels and aperture from strings like "50 MP, f/1.8, 24mm (wide)"
+    const parsed = parseCameraLine(cameraString);
 
     return {
-      megapixels,
-      aperture: undefined,
+      megapixels: parsed?.megapixels || 0,
+      aperture: parsed?.aperture ? `f/${parsed.aperture}` : undefined,
       features: [],
       videoRecording: undefined,
     };
@@ -1,4 +1,4 @@
-import { Brand, Phone, PhoneSelection } from '@/types/phone';
+import { Brand, Phone, PhoneSelection, PriceHistory, PricePoint } from '@/types/phone';
 import { ValidationResult } from '@/types/api';
 import { 
   sanitizeBrandName, 
@@ -286,6 +286,65 @@ class PhoneSelectionService {
     }
   }
 
+  /**
+   * Get recorded price history for a phone over the last `days` days,
+   * optionally for one variant
+   */
+  async getPriceHistory(phoneId: string, days = 90, variantId?: string): Promise<PriceHistory | null> {
+    const cacheKey = `prices:${phoneId}:${days}:${variantId || ''}`;
+    const cached = this.getFromCache<PriceHistory>(cacheKey);
+
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      let url = `${this.API_BASE}/${encodeURIComponent(phoneId)}/prices?days=${days}`;
+
+      if (variantId) {
+        url += `&variantId=${encodeURIComponent(variantId)}`;
+      }
+
+      const response = await fetch(url, {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+
+      if (!response.ok) {
+        if (response.status === 404) {
+          return null;
+        }
+        throw new Error(`Failed to get price history: ${response.statusText}`);
+      }
+
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error?.message || 'Failed to get price history');
+      }
+
+      // Dates arrive as ISO strings
+      const toPoint = (point: PricePoint): PricePoint => ({ ...point, date: new Date(point.date) });
+      const data = result.data;
+      const history: PriceHistory = {
+        ...data,
+        from: new Date(data.from),
+        to: new Date(data.to),
+        points: data.points.map(toPoint),
+        lowest: data.lowest.map(toPoint),
+        stats: data.stats && { ...data.stats, allTimeLow: toPoint(data.stats.allTimeLow) },
+      };
+      this.setCache(cacheKey, history);
+
+      return history;
+    } catch (error) {
+      console.error('Error getting price history:', error);
+      throw error instanceof Error ? error : new Error('Failed to get price history');
+    }
+  }
+
   /**
    * Clear all cached data
    */
@@ -0,0 +1,220 @@
+import type { FunctionDeclaration } from '@google/generative-ai';
+import {
+  AIProvider,
+  ProviderRequest,
+  ProviderResult,
+  ProviderSettings
+} from './types.js';
+
+/**
+ * Error raised when a provider API call fails
+ */
+export class AIProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: AIProvider,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'AIProviderError';
+  }
+}
+
+/**
+ * Server-sent event read from a streaming provider response
+ */
+export interface ProviderStreamEvent {
+  event?: string;
+  data: string;
+}
+
+/**
+ * Base class for AI providers
+ * Concrete providers implement `generate` and usually `stream`; the
+ * task-level methods below shape the request the same way for every vendor.
+ */
+export abstract class BaseAIProvider {
+  abstract readonly name: AIProvider;
+
+  constructor(protected readonly settings: ProviderSettings) {}
+
+  /**
+   * Send a single generation request to the provider
+   */
+  abstract generate(request: ProviderRequest): Promise<ProviderResult>;
+
+  /**
+   * Stream text tokens for a request
+   * Providers without native streaming yield the full text as one chunk.
+   */
+  async *stream(request: ProviderRequest): AsyncGenerator<string> {
+    const result = await this.generate({ ...request, tools: undefined });
+    if (result.text) {
+      yield result.text;
+    }
+  }
+
+  get model(): string {
+    return this.settings.model;
+  }
+
+  /**
+   * Process a chat message, with function calling when tools are supplied
+   */
+  processMessage(
+    prompt: string,
+    systemInstruction: string,
+    tools: FunctionDeclaration[] = [],
+    signal?: AbortSignal
+  ): Promise<ProviderResult> {
+    return this.generate({ prompt, systemInstruction, tools, jsonMode: true, signal });
+  }
+
+  /**
+   * Stream a plain-text chat reply
+   */
+  streamMessage(prompt: string, systemInstruction: string, signal?: AbortSignal): AsyncGenerator<string> {
+    return this.stream({ prompt, systemInstruction, signal });
+  }
+
+  /**
+   * Extract a phone selection from a user message
+   */
+  extractPhoneSelection(prompt: string): Promise<ProviderResult> {
+    return this.generate({ prompt, jsonMode: true });
+  }
+
+  /**
+   * Generate a structured comparison between phones
+   */
+  generateComparison(prompt: string, systemInstruction?: string): Promise<ProviderResult> {
+    return this.generate({ prompt, systemInstruction, jsonMode: true });
+  }
+
+  /**
+   * POST a JSON body to a provider endpoint and return the parsed response
+   */
+  protected async postJSON(
+    url: string,
+    headers: Record<string, string>,
+    body: unknown,
+    signal?: AbortSignal
+  ): Promise<any> {
+    const response = await this.post(url, headers, body, signal);
+    return response.json();
+  }
+
+  /**
+   * POST a JSON body to a provider endpoint and return the raw streaming response
+   */
+  protected postStream(
+    url: string,
+    headers: Record<string, string>,
+    body: unknown,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    return this.post(url, headers, body, signal);
+  }
+
+  /**
+   * Read server-sent events from a streaming response body
+   */
+  protected async *readEvents(response: Response): AsyncGenerator<ProviderStreamEvent> {
+    if (!response.body) {
+      return;
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+        let boundary = buffer.indexOf('\n\n');
+        while (boundary !== -1) {
+          const event = this.parseEvent(buffer.slice(0, boundary));
+          buffer = buffer.slice(boundary + 2);
+          if (event) yield event;
+          boundary = buffer.indexOf('\n\n');
+        }
+      }
+
+      const trailing = this.parseEvent(buffer);
+      if (trailing) yield trailing;
+    } finally {
+      // Releases the connection when the consumer stops early
+      reader.cancel().catch(() => undefined);
+    }
+  }
+
+  private parseEvent(chunk: string): ProviderStreamEvent | null {
+    let event: string | undefined;
+    const data: string[] = [];
+
+    for (const line of chunk.split('\n')) {
+      if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        data.push(line.slice(5).replace(/^ /, ''));
+      }
+    }
+
+    return data.length > 0 ? { event, data: data.join('\n') } : null;
+  }
+
+  /**
+   * Combine the caller's abort signal with the provider timeout
+   */
+  protected requestSignal(signal?: AbortSignal): AbortSignal {
+    const timeout = AbortSignal.timeout(this.settings.timeout);
+    return signal ? AbortSignal.any([signal, timeout]) : timeout;
+  }
+
+  private async post(
+    url: string,
+    headers: Record<string, string>,
+    body: unknown,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...headers,
+      },
+      body: JSON.stringify(body),
+      signal: this.requestSignal(signal),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new AIProviderError(
+        `${this.name} API error: HTTP ${response.status}${detail ? ` - ${detail.substring(0, 200)}` : ''}`,
+        this.name,
+        response.status
+      );
+    }
+
+    return response;
+  }
+
+  /**
+   * Parse function call arguments that may arrive as a JSON string
+   */
+  protected parseArguments(args: unknown): Record<string, any> {
+    if (typeof args === 'string') {
+      try {
+        return JSON.parse(args || '{}');
+      } catch {
+        return {};
+      }
+    }
+
+    return (args as Record<string, any>) || {};
+  }
+}
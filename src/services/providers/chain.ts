@@ -0,0 +1,179 @@
+import { BaseAIProvider } from './base.js';
+import {
+  CircuitBreaker,
+  CircuitBreakerOptions,
+  CircuitBreakerStatus
+} from './circuitBreaker.js';
+import { AIProvider } from './types.js';
+
+/**
+ * Provider that produced a chain result
+ */
+export interface ProviderAnswer {
+  provider: AIProvider;
+  model: string;
+  attempts: number;
+}
+
+/**
+ * Per-provider health entry reported by the chain
+ */
+export interface ProviderHealth extends CircuitBreakerStatus {
+  provider: AIProvider;
+  model: string;
+}
+
+/**
+ * Error raised when every provider in the chain failed or was skipped
+ */
+export class ProviderChainError extends Error {
+  constructor(
+    message: string,
+    public readonly failures: Array<{ provider: AIProvider; model: string; error: string }>
+  ) {
+    super(message);
+    this.name = 'ProviderChainError';
+  }
+}
+
+interface ChainEntry {
+  client: BaseAIProvider;
+  breaker: CircuitBreaker;
+}
+
+/**
+ * Ordered failover chain of AI providers with per-provider circuit breakers
+ */
+export class ProviderChain {
+  private entries: ChainEntry[] = [];
+
+  constructor(private readonly breakerOptions: CircuitBreakerOptions) {}
+
+  /**
+   * Append a provider to the end of the chain
+   */
+  add(client: BaseAIProvider): void {
+    this.entries.push({ client, breaker: new CircuitBreaker(this.breakerOptions) });
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Run an operation against the first provider that answers
+   */
+  async execute<T>(operation: (client: BaseAIProvider) => Promise<T>): Promise<{ result: T; answeredBy: ProviderAnswer }> {
+    const failures: ProviderChainError['failures'] = [];
+    let attempts = 0;
+
+    for (const { client, breaker } of this.entries) {
+      if (!breaker.canRequest()) {
+        failures.push({ provider: client.name, model: client.model, error: 'circuit open' });
+        continue;
+      }
+
+      attempts++;
+
+      try {
+        const result = await operation(client);
+        breaker.recordSuccess();
+
+        return {
+          result,
+          answeredBy: { provider: client.name, model: client.model, attempts },
+        };
+      } catch (error) {
+        breaker.recordFailure(error);
+        failures.push({
+          provider: client.name,
+          model: client.model,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        console.warn(`⚠️  ${client.name} (${client.model}) failed, trying next provider:`, error);
+      }
+    }
+
+    throw new ProviderChainError(
+      `All AI providers failed: ${failures.map(f => `${f.provider}/${f.model}: ${f.error}`).join('; ') || 'no providers configured'}`,
+      failures
+    );
+  }
+
+  /**
+   * Stream chunks from the first provider that starts answering
+   * Failover only happens before the first chunk; once text has been
+   * emitted a failure is surfaced to the caller instead of restarting.
+   */
+  async *stream(
+    operation: (client: BaseAIProvider) => AsyncIterable<string>
+  ): AsyncGenerator<{ text: string; answeredBy: ProviderAnswer }> {
+    const failures: ProviderChainError['failures'] = [];
+    let attempts = 0;
+
+    for (const { client, breaker } of this.entries) {
+      if (!breaker.canRequest()) {
+        failures.push({ provider: client.name, model: client.model, error: 'circuit open' });
+        continue;
+      }
+
+      attempts++;
+      const answeredBy = { provider: client.name, model: client.model, attempts };
+      let emitted = false;
+
+      try {
+        for await (const text of operation(client)) {
+          emitted = true;
+          yield { text, answeredBy };
+        }
+
+        breaker.recordSuccess();
+        return;
+      } catch (error) {
+        // Caller cancellations say nothing about provider health
+        if (error instanceof Error && error.name === 'AbortError') {
+          throw error;
+        }
+
+        breaker.recordFailure(error);
+
+        if (emitted) {
+          throw error;
+        }
+
+        failures.push({
+          provider: client.name,
+          model: client.model,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        console.warn(`⚠️  ${client.name} (${client.model}) stream failed, trying next provider:`, error);
+      } finally {
+        // Cancelled streams, or consumers that stop reading early, record no outcome
+        breaker.releaseTrial();
+      }
+    }
+
+    throw new ProviderChainError(
+      `All AI providers failed: ${failures.map(f => `${f.provider}/${f.model}: ${f.error}`).join('; ') || 'no providers configured'}`,
+      failures
+    );
+  }
+
+  /**
+   * Get breaker state for each provider in chain order
+   */
+  getStatus(): ProviderHealth[] {
+    return this.entries.map(({ client, breaker }) => ({
+      provider: client.name,
+      model: client.model,
+      ...breaker.getStatus(),
+    }));
+  }
+
+  /**
+   * Close every breaker in the chain
+   */
+  reset(): void {
+    this.entries.forEach(entry => entry.breaker.reset());
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Circuit breaker states
+ */
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;
+  resetTimeout: number;
+}
+
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  totalFailures: number;
+  totalSuccesses: number;
+  openedAt?: Date;
+  lastError?: string;
+}
+
+/**
+ * Circuit breaker guarding a single AI provider
+ * Opens after `failureThreshold` consecutive failures and lets a single
+ * trial request through once `resetTimeout` has elapsed; other requests are
+ * shed until that trial succeeds or fails.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private totalFailures = 0;
+  private totalSuccesses = 0;
+  private openedAt?: number;
+  private lastError?: string;
+  private trialInFlight = false;
+
+  constructor(
+    private readonly options: CircuitBreakerOptions,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Check whether a request may be sent through this breaker
+   * When half-open this claims the trial slot, so the caller must record the
+   * outcome or release the slot.
+   */
+  canRequest(): boolean {
+    this.refreshState();
+
+    if (this.state !== 'half_open') {
+      return this.state === 'closed';
+    }
+    if (this.trialInFlight) {
+      return false;
+    }
+
+    this.trialInFlight = true;
+    return true;
+  }
+
+  /**
+   * Give up a claimed trial slot without recording an outcome
+   */
+  releaseTrial(): void {
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Record a successful request
+   */
+  recordSuccess(): void {
+    this.totalSuccesses++;
+    this.consecutiveFailures = 0;
+    this.state = 'closed';
+    this.openedAt = undefined;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Record a failed request
+   */
+  recordFailure(error?: unknown): void {
+    this.totalFailures++;
+    this.consecutiveFailures++;
+    this.lastError = error instanceof Error ? error.message : error ? String(error) : undefined;
+    this.trialInFlight = false;
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = this.now();
+    }
+  }
+
+  /**
+   * Get current breaker status
+   */
+  getStatus(): CircuitBreakerStatus {
+    this.refreshState();
+
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      totalFailures: this.totalFailures,
+      totalSuccesses: this.totalSuccesses,
+      openedAt: this.openedAt !== undefined ? new Date(this.openedAt) : undefined,
+      lastError: this.lastError,
+    };
+  }
+
+  /**
+   * Reset the breaker to closed
+   */
+  reset(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = undefined;
+    this.lastError = undefined;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Move from open to half_open once the reset timeout has elapsed
+   */
+  private refreshState(): void {
+    if (this.state === 'open' && this.openedAt !== undefined &&
+        this.now() - this.openedAt >= this.options.resetTimeout) {
+      this.state = 'half_open';
+    }
+  }
+}
@@ -0,0 +1,108 @@
+import { AIProviderError, BaseAIProvider } from './base.js';
+import {
+  ProviderRequest,
+  ProviderResult,
+  ProviderSettings
+} from './types.js';
+
+export const CLAUDE_DEFAULT_BASE_URL = 'https://api.anthropic.com';
+export const CLAUDE_API_VERSION = '2023-06-01';
+
+/**
+ * Anthropic Claude provider using the Messages API
+ */
+export class ClaudeProvider extends BaseAIProvider {
+  readonly name = 'claude' as const;
+  private baseUrl: string;
+
+  constructor(settings: ProviderSettings) {
+    super(settings);
+    this.baseUrl = (settings.baseUrl || CLAUDE_DEFAULT_BASE_URL).replace(/\/+$/, '');
+  }
+
+  async generate(request: ProviderRequest): Promise<ProviderResult> {
+    const data = await this.postJSON(
+      `${this.baseUrl}/v1/messages`,
+      this.headers(),
+      this.buildBody(request),
+      request.signal
+    );
+
+    const blocks: any[] = Array.isArray(data?.content) ? data.content : [];
+
+    const text = blocks
+      .filter(block => block.type === 'text')
+      .map(block => block.text)
+      .join('');
+
+    const functionCalls = blocks
+      .filter(block => block.type === 'tool_use' && block.name)
+      .map(block => ({
+        name: block.name,
+        parameters: this.parseArguments(block.input),
+      }));
+
+    return {
+      text,
+      functionCalls,
+      usage: data?.usage ? {
+        inputTokens: data.usage.input_tokens || 0,
+        outputTokens: data.usage.output_tokens || 0,
+      } : undefined,
+    };
+  }
+
+  async *stream(request: ProviderRequest): AsyncGenerator<string> {
+    const response = await this.postStream(
+      `${this.baseUrl}/v1/messages`,
+      this.headers(),
+      { ...this.buildBody({ ...request, tools: undefined }), stream: true },
+      request.signal
+    );
+
+    for await (const event of this.readEvents(response)) {
+      const payload = JSON.parse(event.data);
+
+      if (payload.type === 'error') {
+        throw new AIProviderError(`claude stream error: ${payload.error?.message || 'unknown'}`, this.name);
+      }
+
+      if (payload.type === 'content_block_delta' && payload.delta?.type === 'text_delta' && payload.delta.text) {
+        yield payload.delta.text;
+      }
+
+      if (payload.type === 'message_stop') return;
+    }
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      'x-api-key': this.settings.apiKey,
+      'anthropic-version': CLAUDE_API_VERSION,
+    };
+  }
+
+  private buildBody(request: ProviderRequest): Record<string, any> {
+    const body: Record<string, any> = {
+      model: this.settings.model,
+      max_tokens: this.settings.maxTokens,
+      // Messages API caps temperature at 1
+      temperature: Math.min(this.settings.temperature, 1),
+      messages: [{ role: 'user', content: request.prompt }],
+    };
+
+    if (request.systemInstruction) {
+      body.system = request.systemInstruction;
+    }
+
+    if (request.tools?.length) {
+      body.tools = request.tools.map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        input_schema: tool.parameters || { type: 'object', properties: {} },
+      }));
+    }
+
+    return body;
+  }
+}
@@ -0,0 +1,81 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { BaseAIProvider } from './base.js';
+import {
+  ProviderRequest,
+  ProviderResult,
+  ProviderSettings
+} from './types.js';
+
+/**
+ * Google Gemini provider backed by the official SDK
+ */
+export class GeminiProvider extends BaseAIProvider {
+  readonly name = 'gemini' as const;
+  private client: GoogleGenerativeAI;
+
+  constructor(settings: ProviderSettings) {
+    super(settings);
+    this.client = new GoogleGenerativeAI(settings.apiKey);
+  }
+
+  async generate(request: ProviderRequest): Promise<ProviderResult> {
+    const model = this.getModel(request);
+
+    const result = await model.generateContent(request.prompt, { signal: this.requestSignal(request.signal) });
+    const response = result.response;
+
+    let text = '';
+    try {
+      text = response.text();
+    } catch {
+      // text() throws when the candidate only contains function calls
+      text = '';
+    }
+
+    const functionCalls = (response.functionCalls?.() || []).map(call => ({
+      name: call.name,
+      parameters: this.parseArguments(call.args),
+    }));
+
+    return {
+      text,
+      functionCalls,
+      usage: response.usageMetadata ? {
+        inputTokens: response.usageMetadata.promptTokenCount,
+        outputTokens: response.usageMetadata.candidatesTokenCount,
+      } : undefined,
+    };
+  }
+
+  async *stream(request: ProviderRequest): AsyncGenerator<string> {
+    const model = this.getModel({ ...request, tools: undefined, jsonMode: false });
+
+    const result = await model.generateContentStream(request.prompt, { signal: this.requestSignal(request.signal) });
+
+    for await (const chunk of result.stream) {
+      const text = chunk.text();
+      if (text) {
+        yield text;
+      }
+    }
+  }
+
+  private getModel(request: ProviderRequest) {
+    const hasTools = !!request.tools && request.tools.length > 0;
+
+    return this.client.getGenerativeModel({
+      model: this.settings.model,
+      generationConfig: {
+        temperature: this.settings.temperature,
+        topP: this.settings.topP,
+        topK: this.settings.topK,
+        maxOutputTokens: this.settings.maxTokens,
+        // Gemini rejects JSON mime type together with function declarations
+        responseMimeType: request.jsonMode && !hasTools ? 'application/json' : undefined,
+      },
+      safetySettings: this.settings.safetySettings,
+      tools: hasTools ? [{ functionDeclarations: request.tools! }] : undefined,
+      systemInstruction: request.systemInstruction,
+    }, { baseUrl: this.settings.baseUrl });
+  }
+}
@@ -0,0 +1,29 @@
+import { BaseAIProvider } from './base.js';
+import { GeminiProvider } from './gemini.js';
+import { OpenAIProvider } from './openai.js';
+import { ClaudeProvider } from './claude.js';
+import { AIProvider, ProviderSettings } from './types.js';
+
+export * from './types.js';
+export { BaseAIProvider, AIProviderError } from './base.js';
+export { GeminiProvider } from './gemini.js';
+export { OpenAIProvider, OPENAI_DEFAULT_BASE_URL } from './openai.js';
+export { ClaudeProvider, CLAUDE_DEFAULT_BASE_URL, CLAUDE_API_VERSION } from './claude.js';
+export * from './circuitBreaker.js';
+export * from './chain.js';
+
+/**
+ * Create a provider client for the given vendor
+ */
+export function createProvider(provider: AIProvider, settings: ProviderSettings): BaseAIProvider {
+  switch (provider) {
+    case 'gemini':
+      return new GeminiProvider(settings);
+    case 'openai':
+      return new OpenAIProvider(settings);
+    case 'claude':
+      return new ClaudeProvider(settings);
+    default:
+      throw new Error(`❌ Unsupported AI provider: ${provider}`);
+  }
+}
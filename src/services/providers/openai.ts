@@ -0,0 +1,102 @@
+import { BaseAIProvider } from './base.js';
+import {
+  ProviderRequest,
+  ProviderResult,
+  ProviderSettings
+} from './types.js';
+
+export const OPENAI_DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+/**
+ * OpenAI provider using the Chat Completions API
+ */
+export class OpenAIProvider extends BaseAIProvider {
+  readonly name = 'openai' as const;
+  private baseUrl: string;
+
+  constructor(settings: ProviderSettings) {
+    super(settings);
+    this.baseUrl = (settings.baseUrl || OPENAI_DEFAULT_BASE_URL).replace(/\/+$/, '');
+  }
+
+  async generate(request: ProviderRequest): Promise<ProviderResult> {
+    const data = await this.postJSON(
+      `${this.baseUrl}/chat/completions`,
+      this.headers(),
+      this.buildBody(request),
+      request.signal
+    );
+
+    const message = data?.choices?.[0]?.message || {};
+    const functionCalls = (message.tool_calls || [])
+      .filter((call: any) => call?.function?.name)
+      .map((call: any) => ({
+        name: call.function.name,
+        parameters: this.parseArguments(call.function.arguments),
+      }));
+
+    return {
+      text: message.content || '',
+      functionCalls,
+      usage: data?.usage ? {
+        inputTokens: data.usage.prompt_tokens || 0,
+        outputTokens: data.usage.completion_tokens || 0,
+      } : undefined,
+    };
+  }
+
+  async *stream(request: ProviderRequest): AsyncGenerator<string> {
+    const response = await this.postStream(
+      `${this.baseUrl}/chat/completions`,
+      this.headers(),
+      { ...this.buildBody({ ...request, tools: undefined, jsonMode: false }), stream: true },
+      request.signal
+    );
+
+    for await (const event of this.readEvents(response)) {
+      if (event.data === '[DONE]') return;
+
+      const chunk = JSON.parse(event.data);
+      const content = chunk?.choices?.[0]?.delta?.content;
+      if (content) {
+        yield content;
+      }
+    }
+  }
+
+  private headers(): Record<string, string> {
+    return { 'Authorization': `Bearer ${this.settings.apiKey}` };
+  }
+
+  private buildBody(request: ProviderRequest): Record<string, any> {
+    const messages = [
+      ...(request.systemInstruction ? [{ role: 'system', content: request.systemInstruction }] : []),
+      { role: 'user', content: request.prompt },
+    ];
+
+    const body: Record<string, any> = {
+      model: this.settings.model,
+      messages,
+      max_tokens: this.settings.maxTokens,
+      temperature: this.settings.temperature,
+      top_p: this.settings.topP,
+    };
+
+    if (request.tools?.length) {
+      body.tools = request.tools.map(tool => ({
+        type: 'function',
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters || { type: 'object', properties: {} },
+        },
+      }));
+    }
+
+    if (request.jsonMode) {
+      body.response_format = { type: 'json_object' };
+    }
+
+    return body;
+  }
+}
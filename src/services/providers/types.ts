@@ -0,0 +1,52 @@
+import type { FunctionDeclaration, SafetySetting } from '@google/generative-ai';
+
+/**
+ * AI Provider types
+ */
+export type AIProvider = 'gemini' | 'openai' | 'claude';
+
+/**
+ * Function call requested by a provider, normalized across vendors
+ */
+export interface ProviderFunctionCall {
+  name: string;
+  parameters: Record<string, any>;
+}
+
+/**
+ * Single generation request sent to a provider
+ */
+export interface ProviderRequest {
+  prompt: string;
+  systemInstruction?: string;
+  tools?: FunctionDeclaration[];
+  jsonMode?: boolean;
+  signal?: AbortSignal;
+}
+
+/**
+ * Normalized provider response
+ */
+export interface ProviderResult {
+  text: string;
+  functionCalls: ProviderFunctionCall[];
+  usage?: {
+    inputTokens: number;
+    outputTokens: number;
+  };
+}
+
+/**
+ * Connection and generation settings shared by all providers
+ */
+export interface ProviderSettings {
+  apiKey: string;
+  model: string;
+  baseUrl?: string;
+  maxTokens: number;
+  temperature: number;
+  topP: number;
+  topK: number;
+  timeout: number;
+  safetySettings?: SafetySetting[];
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import {
+  convertPrice,
+  formatPrice,
+  getRegionalPricing,
+  getValueSegment,
+  loadExchangeRates,
+  localizePhone,
+  parseRegion
+} from '../pricing.js';
+import { Phone } from '../../../types/phone.js';
+
+const rates = {
+  base: 'INR',
+  updatedAt: '2024-10-01',
+  rates: { INR: 1, USD: 80, EUR: 90, GBP: 100, AED: 20 },
+};
+
+const phone = {
+  id: 'phone-1',
+  brand: 'Samsung',
+  model: 'Galaxy S24',
+  pricing: {
+    mrp: 79999,
+    currentPrice: 74999,
+    currency: 'INR',
+    effectivePrice: 69999,
+    regionalPrices: [{ region: 'US', currency: 'USD', mrp: 859.99, currentPrice: 799.99 }],
+  },
+} as Phone;
+
+describe('region pricing', () => {
+  it('should reject exchange rate tables missing a currency', () => {
+    expect(loadExchangeRates(rates).rates.USD).toBe(80);
+    expect(() => loadExchangeRates({ ...rates, rates: { INR: 1, USD: 80 } })).toThrow('Invalid exchange rate table');
+  });
+
+  it('should convert through the base currency', () => {
+    const table = loadExchangeRates(rates);
+
+    expect(convertPrice(8000, 'INR', 'USD', table)).toBe(100);
+    expect(convertPrice(100, 'USD', 'GBP', table)).toBe(80);
+    expect(convertPrice(123.456, 'EUR', 'EUR', table)).toBe(123.456);
+  });
+
+  it('should prefer a regional listing over a converted price', () => {
+    expect(getRegionalPricing(phone, 'US')).toEqual({
+      region: 'US', currency: 'USD', mrp: 859.99, currentPrice: 799.99, converted: false,
+    });
+    expect(getRegionalPricing(phone, 'GB')).toMatchObject({ currency: 'GBP', converted: true });
+  });
+
+  it('should drop offers once the price leaves the home region', () => {
+    expect(localizePhone(phone, 'IN').pricing).toMatchObject({ currentPrice: 74999, effectivePrice: 69999, region: 'IN' });
+
+    const us = localizePhone(phone, 'US');
+    expect(us.pricing).toMatchObject({ currentPrice: 799.99, currency: 'USD', region: 'US' });
+    expect(us.pricing.effectivePrice).toBeUndefined();
+  });
+
+  it('should place prices in the segments of their region', () => {
+    expect(getValueSegment(14999, 'IN')).toBe('budget');
+    expect(getValueSegment(74999, 'IN')).toBe('flagship');
+    expect(getValueSegment(449, 'US')).toBe('midRange');
+    expect(getValueSegment(449, 'GB')).toBe('midRange');
+    expect(getValueSegment(2999, 'AE')).toBe('premium');
+  });
+
+  it('should read region codes loosely and format in the local style', () => {
+    expect(parseRegion(' gb ')).toBe('GB');
+    expect(parseRegion('XX')).toBe('IN');
+    expect(parseRegion(undefined)).toBe('IN');
+    expect(formatPrice(134900, 'INR')).toBe('₹1,34,900');
+    expect(formatPrice(799.99, 'USD')).toBe('$800');
+  });
+});
@@ -0,0 +1,45 @@
+import type { Region } from '../../types/phone.js';
+import { RegionConfig } from './types.js';
+
+/**
+ * Region the catalog, retailer integrations and offers are priced in
+ */
+export const DEFAULT_REGION: Region = 'IN';
+
+export const REGIONS: Record<Region, RegionConfig> = {
+  IN: {
+    code: 'IN',
+    name: 'India',
+    currency: 'INR',
+    locale: 'en-IN',
+    valueSegments: { budget: 15000, midRange: 30000, premium: 50000 },
+  },
+  US: {
+    code: 'US',
+    name: 'United States',
+    currency: 'USD',
+    locale: 'en-US',
+    valueSegments: { budget: 300, midRange: 500, premium: 800 },
+  },
+  EU: {
+    code: 'EU',
+    name: 'Eurozone',
+    currency: 'EUR',
+    locale: 'en-IE',
+    valueSegments: { budget: 300, midRange: 550, premium: 850 },
+  },
+  GB: {
+    code: 'GB',
+    name: 'United Kingdom',
+    currency: 'GBP',
+    locale: 'en-GB',
+    valueSegments: { budget: 250, midRange: 450, premium: 750 },
+  },
+  AE: {
+    code: 'AE',
+    name: 'United Arab Emirates',
+    currency: 'AED',
+    locale: 'en-AE',
+    valueSegments: { budget: 1100, midRange: 1900, premium: 3000 },
+  },
+};
@@ -0,0 +1,12 @@
+export * from './types.js';
+export { REGIONS, DEFAULT_REGION } from './catalog.js';
+export {
+  EXCHANGE_RATES,
+  loadExchangeRates,
+  parseRegion,
+  convertPrice,
+  getRegionalPricing,
+  localizePhone,
+  getValueSegment,
+  formatPrice,
+} from './pricing.js';
@@ -0,0 +1,127 @@
+import { z } from 'zod';
+import { Currency, CurrencySchema, Phone, Region, RegionSchema } from '../../types/phone.js';
+import { DEFAULT_REGION, REGIONS } from './catalog.js';
+import { ExchangeRateTable, RegionalPricing, ValueSegment } from './types.js';
+import exchangeRateFile from './exchangeRates.json';
+
+const ExchangeRateTableSchema = z.object({
+  base: CurrencySchema,
+  updatedAt: z.string(),
+  rates: z.record(CurrencySchema, z.number().positive()),
+});
+
+/**
+ * Validate an exchange rate table; every currency needs a rate
+ */
+export function loadExchangeRates(data: unknown): ExchangeRateTable {
+  const result = ExchangeRateTableSchema.safeParse(data);
+  if (!result.success) {
+    throw new Error(`Invalid exchange rate table: ${result.error.issues.map(issue => issue.message).join(', ')}`);
+  }
+  return result.data;
+}
+
+/**
+ * Rates shipped in exchangeRates.json; update the file and its `updatedAt`
+ * together
+ */
+export const EXCHANGE_RATES = loadExchangeRates(exchangeRateFile);
+
+/**
+ * Read a region code from loose input such as a query parameter or tool
+ * argument, falling back to the default region
+ */
+export function parseRegion(value: unknown): Region {
+  const result = RegionSchema.safeParse(typeof value === 'string' ? value.trim().toUpperCase() : value);
+  return result.success ? result.data : DEFAULT_REGION;
+}
+
+/**
+ * Convert an amount between currencies, rounded to two decimals
+ */
+export function convertPrice(
+  amount: number,
+  from: Currency,
+  to: Currency,
+  rates: ExchangeRateTable = EXCHANGE_RATES
+): number {
+  if (from === to) {
+    return amount;
+  }
+  return Math.round(((amount * rates.rates[from]) / rates.rates[to]) * 100) / 100;
+}
+
+/**
+ * A phone's price in a region: its listing there when it has one, otherwise
+ * its price converted into the region's currency
+ */
+export function getRegionalPricing(phone: Phone, region: Region): RegionalPricing {
+  const { currency } = REGIONS[region];
+  const listing = phone.pricing.regionalPrices?.find(price => price.region === region);
+
+  if (listing) {
+    return {
+      region,
+      currency: listing.currency,
+      mrp: listing.mrp ?? listing.currentPrice,
+      currentPrice: listing.currentPrice,
+      converted: false,
+    };
+  }
+
+  const { mrp, currentPrice, currency: from } = phone.pricing;
+  return {
+    region,
+    currency,
+    mrp: convertPrice(mrp, from, currency),
+    currentPrice: convertPrice(currentPrice, from, currency),
+    converted: from !== currency,
+  };
+}
+
+/**
+ * Price a phone in a region
+ * The effective price is dropped whenever the price changes, since retailer
+ * offers come from the default region's retailers.
+ */
+export function localizePhone(phone: Phone, region: Region): Phone {
+  const pricing = getRegionalPricing(phone, region);
+  const unchanged = pricing.currency === phone.pricing.currency && pricing.currentPrice === phone.pricing.currentPrice;
+
+  return {
+    ...phone,
+    pricing: {
+      ...phone.pricing,
+      mrp: pricing.mrp,
+      currentPrice: pricing.currentPrice,
+      currency: pricing.currency,
+      effectivePrice: unchanged ? phone.pricing.effectivePrice : undefined,
+      region,
+    },
+  };
+}
+
+/**
+ * Market segment a price falls in for a region
+ */
+export function getValueSegment(price: number, region: Region = DEFAULT_REGION): ValueSegment {
+  const { budget, midRange, premium } = REGIONS[region].valueSegments;
+  if (price < budget) return 'budget';
+  if (price < midRange) return 'midRange';
+  if (price < premium) return 'premium';
+  return 'flagship';
+}
+
+/**
+ * Format a price in its currency, using the locale of the region that
+ * prices in it unless one is given
+ */
+export function formatPrice(amount: number, currency: Currency = 'INR', locale?: string): string {
+  const region = Object.values(REGIONS).find(config => config.currency === currency);
+
+  return new Intl.NumberFormat(locale ?? region?.locale ?? 'en-IN', {
+    style: 'currency',
+    currency,
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
@@ -0,0 +1,47 @@
+import type { Currency, Region } from '../../types/phone.js';
+
+/**
+ * Upper price bounds of the market segments used for value scoring, in the
+ * region's currency; anything above `premium` is a flagship
+ */
+export interface ValueSegments {
+  budget: number;
+  midRange: number;
+  premium: number;
+}
+
+export type ValueSegment = keyof ValueSegments | 'flagship';
+
+/**
+ * Pricing settings for a market region
+ */
+export interface RegionConfig {
+  code: Region;
+  name: string;
+  currency: Currency;
+  locale: string;
+  valueSegments: ValueSegments;
+}
+
+/**
+ * Exchange rates as the amount of the base currency one unit of each
+ * currency buys, e.g. `USD: 83.97` with an INR base
+ */
+export interface ExchangeRateTable {
+  base: Currency;
+  updatedAt: string;
+  rates: Record<Currency, number>;
+}
+
+/**
+ * A phone's price in one region
+ * `converted` is set when the phone has no listing there and the price was
+ * converted from its home-region price.
+ */
+export interface RegionalPricing {
+  region: Region;
+  currency: Currency;
+  mrp: number;
+  currentPrice: number;
+  converted: boolean;
+}
@@ -0,0 +1,238 @@
+import { Prisma } from '../generated/prisma/index.js';
+import { PhoneQueryBuilder } from '../lib/database/queryOptimizer.js';
+import {
+  PhoneSearchQuery,
+  PhoneSearchSort,
+  SearchFacetBucket,
+  SearchFacetName,
+  SearchFacets
+} from '../types/api.js';
+import { formatMemorySize } from './specNormalization.js';
+
+/**
+ * Price ranges shown in the price facet (INR)
+ */
+export const PRICE_BUCKETS: Array<{ min?: number; max?: number; label: string }> = [
+  { max: 15000, label: 'Under ₹15,000' },
+  { min: 15000, max: 30000, label: '₹15,000 - ₹30,000' },
+  { min: 30000, max: 50000, label: '₹30,000 - ₹50,000' },
+  { min: 50000, max: 80000, label: '₹50,000 - ₹80,000' },
+  { min: 80000, label: 'Above ₹80,000' },
+];
+
+export const RAM_FACET_VALUES = [4, 6, 8, 12, 16];
+export const STORAGE_FACET_VALUES = [64, 128, 256, 512, 1024];
+export const BATTERY_THRESHOLDS = [4000, 5000, 6000];
+export const REFRESH_RATE_THRESHOLDS = [90, 120, 144];
+export const IP_RATINGS = ['IP68', 'IP67', 'IP65', 'IP54'];
+
+// Launch year facet covers the current year and this many before it
+const LAUNCH_YEAR_SPAN = 5;
+
+const DEFAULT_SORT_ORDER: Record<PhoneSearchSort, 'asc' | 'desc'> = {
+  price: 'asc',
+  score: 'desc',
+  recency: 'desc',
+};
+
+/**
+ * A facet bucket and the filter that selects it; counted with every other
+ * facet's filters applied, so selecting a bucket never hides its siblings
+ */
+export interface FacetBucketQuery {
+  facet: SearchFacetName;
+  value: string | number | boolean;
+  label: string;
+  selected: boolean;
+  apply: (builder: PhoneQueryBuilder) => PhoneQueryBuilder;
+}
+
+/**
+ * Apply search filters to a query builder, optionally leaving one facet out
+ * Text matches come from `matchIds` when fuzzy search ranked them, otherwise
+ * from basic `contains` matching on `q`
+ */
+export function applySearchFilters(
+  builder: PhoneQueryBuilder,
+  query: PhoneSearchQuery,
+  exclude?: SearchFacetName,
+  matchIds?: string[]
+): PhoneQueryBuilder {
+  const include = (facet: SearchFacetName) => facet !== exclude;
+
+  if (matchIds) {
+    builder.filterByIds(matchIds);
+  } else if (query.q) {
+    builder.search(query.q);
+  }
+  if (include('brand')) builder.filterByBrands(query.brand);
+  if (include('price')) builder.filterByPriceRange(query.minPrice, query.maxPrice);
+  if (include('ram')) builder.filterByRam(query.ram);
+  if (include('storage')) builder.filterByStorage(query.storage);
+  if (include('battery') && query.minBattery !== undefined) builder.filterByMinBattery(query.minBattery);
+  if (include('refreshRate') && query.minRefreshRate !== undefined) builder.filterByMinRefreshRate(query.minRefreshRate);
+  if (include('is5g') && query.is5g !== undefined) builder.filterBy5G(query.is5g);
+  if (include('nfc') && query.nfc !== undefined) builder.filterByNfc(query.nfc);
+  if (include('wirelessCharging') && query.wirelessCharging !== undefined) {
+    builder.filterByWirelessCharging(query.wirelessCharging);
+  }
+  if (include('ipRating')) builder.filterByIpRatings(query.ipRating);
+  if (include('launchYear')) builder.filterByLaunchYears(query.launchYear);
+
+  return builder;
+}
+
+/**
+ * Every fixed facet bucket to count; brand buckets come from the database
+ */
+export function buildFacetBucketQueries(query: PhoneSearchQuery, now = new Date()): FacetBucketQuery[] {
+  const currentYear = now.getUTCFullYear();
+  const years = Array.from({ length: LAUNCH_YEAR_SPAN + 1 }, (_, index) => currentYear - index);
+
+  return [
+    ...PRICE_BUCKETS.map(({ min, max, label }) => ({
+      facet: 'price' as const,
+      value: `${min ?? ''}-${max ?? ''}`,
+      label,
+      selected: query.minPrice === min && query.maxPrice === max,
+      // Upper bounds are exclusive so adjacent buckets do not double count
+      apply: (builder: PhoneQueryBuilder) => builder.filterByPriceRange(min, max === undefined ? undefined : max - 0.01),
+    })),
+    ...RAM_FACET_VALUES.map(gb => ({
+      facet: 'ram' as const,
+      value: gb,
+      label: formatMemorySize(gb),
+      selected: query.ram.includes(gb),
+      apply: (builder: PhoneQueryBuilder) => builder.filterByRam([gb]),
+    })),
+    ...STORAGE_FACET_VALUES.map(gb => ({
+      facet: 'storage' as const,
+      value: gb,
+      label: formatMemorySize(gb),
+      selected: query.storage.includes(gb),
+      apply: (builder: PhoneQueryBuilder) => builder.filterByStorage([gb]),
+    })),
+    ...BATTERY_THRESHOLDS.map(capacity => ({
+      facet: 'battery' as const,
+      value: capacity,
+      label: `${capacity} mAh+`,
+      selected: query.minBattery === capacity,
+      apply: (builder: PhoneQueryBuilder) => builder.filterByMinBattery(capacity),
+    })),
+    ...REFRESH_RATE_THRESHOLDS.map(refreshRate => ({
+      facet: 'refreshRate' as const,
+      value: refreshRate,
+      label: `${refreshRate} Hz+`,
+      selected: query.minRefreshRate === refreshRate,
+      apply: (builder: PhoneQueryBuilder) => builder.filterByMinRefreshRate(refreshRate),
+    })),
+    {
+      facet: 'is5g',
+      value: true,
+      label: '5G',
+      selected: query.is5g === true,
+      apply: builder => builder.filterBy5G(true),
+    },
+    {
+      facet: 'nfc',
+      value: true,
+      label: 'NFC',
+      selected: query.nfc === true,
+      apply: builder => builder.filterByNfc(true),
+    },
+    {
+      facet: 'wirelessCharging',
+      value: true,
+      label: 'Wireless charging',
+      selected: query.wirelessCharging === true,
+      apply: builder => builder.filterByWirelessCharging(true),
+    },
+    ...IP_RATINGS.map(rating => ({
+      facet: 'ipRating' as const,
+      value: rating,
+      label: rating,
+      selected: query.ipRating.includes(rating),
+      apply: (builder: PhoneQueryBuilder) => builder.filterByIpRatings([rating]),
+    })),
+    ...years.map(year => ({
+      facet: 'launchYear' as const,
+      value: year,
+      label: String(year),
+      selected: query.launchYear.includes(year),
+      apply: (builder: PhoneQueryBuilder) => builder.filterByLaunchYears([year]),
+    })),
+  ];
+}
+
+/**
+ * Empty facet map, in display order
+ */
+export function createEmptyFacets(): SearchFacets {
+  return {
+    brand: [],
+    price: [],
+    ram: [],
+    storage: [],
+    battery: [],
+    refreshRate: [],
+    is5g: [],
+    nfc: [],
+    wirelessCharging: [],
+    ipRating: [],
+    launchYear: [],
+  };
+}
+
+/**
+ * Brand buckets from grouped counts, most phones first
+ */
+export function buildBrandBuckets(
+  counts: Array<{ name: string; count: number }>,
+  selectedBrands: string[]
+): SearchFacetBucket[] {
+  const selected = new Set(selectedBrands.map(brand => brand.toLowerCase()));
+
+  return counts
+    .filter(({ count }) => count > 0)
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+    .map(({ name, count }) => ({
+      value: name,
+      label: name,
+      count,
+      selected: selected.has(name.toLowerCase()),
+    }));
+}
+
+/**
+ * Database ordering for a sort option; unknown values sort last and the ID
+ * keeps pages stable between requests
+ */
+export function getSearchOrderBy(
+  sort: PhoneSearchSort,
+  order?: 'asc' | 'desc'
+): Prisma.PhoneOrderByWithRelationInput[] {
+  const ordering = { sort: order || DEFAULT_SORT_ORDER[sort], nulls: 'last' as const };
+
+  switch (sort) {
+    case 'price':
+      return [{ currentPrice: ordering }, { id: 'asc' }];
+    case 'score':
+      return [{ overallScore: ordering }, { id: 'asc' }];
+    case 'recency':
+      return [{ launchDate: ordering }, { id: 'asc' }];
+  }
+}
+
+/**
+ * Stable cache key for the filters that affect facet counts
+ */
+export function getFacetCacheKey(query: PhoneSearchQuery): string {
+  const { page: _page, limit: _limit, sort: _sort, order: _order, facets: _facets, ...filters } = query;
+  const sorted = Object.fromEntries(
+    Object.entries(filters)
+      .filter(([, value]) => value !== undefined && !(Array.isArray(value) && value.length === 0))
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, value]) => [key, Array.isArray(value) ? [...value].sort() : value])
+  );
+  return JSON.stringify(sorted);
+}
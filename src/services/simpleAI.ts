@@ -1,5 +1,8 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
-import { ChatContext, AIResponse } from '@/types/chat';
+import { ChatContext, AIResponse, ChatLocale } from '@/types/chat';
+import { detectLanguage, extractBudget, normalizeMessage, parseIndianAmount } from '@/utils/language';
+import { PromptTemplates } from '@/utils/prompts';
+import { FallbackReply, getFallbackReplies } from './fallbackReplies';
 
 /**
  * Simple AI service that provides varied, contextual responses
@@ -31,11 +34,13 @@ class SimpleAIService {
 
   async processMessage(message: string, context?: ChatContext): Promise<AIResponse> {
     console.log('🔍 Processing message:', message);
+
+    const { locale } = detectLanguage(message, context?.locale);
     
     // Try AI first if available
     if (this.model) {
       try {
-        const prompt = this.createDirectPrompt(message, context);
+        const prompt = this.createDirectPrompt(message, locale);
         console.log('🚀 Sending to AI:', prompt.substring(0, 100) + '...');
         
         const result = await this.model.generateContent(prompt);
@@ -47,6 +52,7 @@ class SimpleAIService {
           message: response,
           suggestions: this.extractSuggestions(response),
           confidence: 0.9,
+          locale,
         };
       } catch (error) {
         console.error('❌ AI Error:', error);
@@ -55,10 +61,10 @@ class SimpleAIService {
     }
     
     // Use smart fallback that provides varied responses
-    return this.getSmartFallback(message, context);
+    return { ...this.getSmartFallback(message, locale, context), locale };
   }
 
-  private createDirectPrompt(message: string, context?: ChatContext): string {
+  private createDirectPrompt(message: string, locale: ChatLocale): string {
     return `You are a helpful phone expert assistant for Indian consumers. 
 
 User message: "${message}"
@@ -72,6 +78,7 @@ Instructions:
 - If recommending phones, suggest specific models with reasons
 - If asked about budget, focus on phones in that price range
 - Always provide 3-4 follow-up suggestions
+- ${PromptTemplates.replyLanguage(locale)}
 
 Respond naturally and helpfully with specific phone information.`;
   }
@@ -101,8 +108,15 @@ Respond naturally and helpfully with specific phone information.`;
     return suggestions.slice(0, 4);
   }
 
-  private getSmartFallback(message: string, context?: ChatContext): AIResponse {
+  /**
+   * Keyword-based reply for when the AI is unavailable
+   * Hindi and Hinglish messages are matched after normalization and answered
+   * from the localized phrasebook rather than the English reply pool.
+   */
+  private getSmartFallback(rawMessage: string, locale: ChatLocale, context?: ChatContext): AIResponse {
+    const message = normalizeMessage(rawMessage);
     const lowerMessage = message.toLowerCase();
+    const replies = locale === 'en' ? null : getFallbackReplies(locale);
     
     // Generate a unique response based on message content and timestamp
     const messageHash = this.hashMessage(message + Date.now().toString());
@@ -110,6 +124,9 @@ Respond naturally and helpfully with specific phone information.`;
     // Phone comparison requests
     if (lowerMessage.includes('compare') || lowerMessage.includes('vs')) {
       const phones = this.extractPhoneNames(message);
+      if (replies && phones.length > 0) {
+        return this.localized(phones.length >= 2 ? replies.comparison : replies.compareWith(phones[0]));
+      }
       if (phones.length >= 2) {
         return {
           message: `Great! Let me compare ${phones[0]} vs ${phones[1]} for you:\n\n**${phones[0]}** is known for its ${this.getPhoneStrength(phones[0])}, while **${phones[1]}** excels in ${this.getPhoneStrength(phones[1])}.\n\n**Key Differences:**\n• Performance: ${this.getPerformanceComparison(phones[0], phones[1])}\n• Camera: ${this.getCameraComparison(phones[0], phones[1])}\n• Price: ${this.getPriceComparison(phones[0], phones[1])}\n\nWhat specific aspect would you like me to dive deeper into?`,
@@ -126,23 +143,25 @@ Respond naturally and helpfully with specific phone information.`;
     }
 
     // Budget recommendations
-    const budgetMatch = message.match(/(\d+(?:,\d+)*)/);
-    if ((lowerMessage.includes('recommend') || lowerMessage.includes('best') || lowerMessage.includes('suggest')) && budgetMatch) {
-      const budget = parseInt(budgetMatch[1].replace(/,/g, ''));
-      return this.getBudgetRecommendation(budget, messageHash);
+    const budgetRange = extractBudget(rawMessage);
+    const budget = budgetRange?.max ?? budgetRange?.min ?? parseIndianAmount(rawMessage);
+    if (/\b(recommend|best|suggest|cheap|chahiye)/.test(lowerMessage) && budget !== null) {
+      return replies
+        ? this.localized(replies.budget(`₹${budget.toLocaleString('en-IN')}`))
+        : this.getBudgetRecommendation(budget, messageHash);
     }
 
     // Feature-specific questions
     if (lowerMessage.includes('camera')) {
-      return this.getCameraRecommendation(messageHash);
+      return replies ? this.localized(replies.camera) : this.getCameraRecommendation(messageHash);
     }
 
     if (lowerMessage.includes('gaming') || lowerMessage.includes('performance')) {
-      return this.getGamingRecommendation(messageHash);
+      return replies ? this.localized(replies.gaming) : this.getGamingRecommendation(messageHash);
     }
 
     if (lowerMessage.includes('battery')) {
-      return this.getBatteryRecommendation(messageHash);
+      return replies ? this.localized(replies.battery) : this.getBatteryRecommendation(messageHash);
     }
 
     // Brand-specific inquiries
@@ -150,22 +169,28 @@ Respond naturally and helpfully with specific phone information.`;
     const mentionedBrand = brands.find(brand => lowerMessage.includes(brand));
 
     if (mentionedBrand) {
-      return this.getBrandRecommendation(mentionedBrand, messageHash);
+      return replies
+        ? this.localized(replies.brand(mentionedBrand.charAt(0).toUpperCase() + mentionedBrand.slice(1)))
+        : this.getBrandRecommendation(mentionedBrand, messageHash);
     }
 
     // Price inquiries
     if (lowerMessage.includes('price') || lowerMessage.includes('cost') || lowerMessage.includes('₹')) {
-      return this.getPriceInquiry(messageHash);
+      return replies ? this.localized(replies.price) : this.getPriceInquiry(messageHash);
     }
 
     // Specific phone inquiries
     const phoneSelection = this.extractPhoneNames(message);
     if (phoneSelection.length > 0) {
-      return this.getPhoneInquiry(phoneSelection[0], messageHash);
+      return replies ? this.localized(replies.phoneInquiry(phoneSelection[0])) : this.getPhoneInquiry(phoneSelection[0], messageHash);
     }
 
     // Default contextual response
-    return this.getDefaultResponse(context, messageHash);
+    return replies ? this.localized(replies.welcome) : this.getDefaultResponse(context, messageHash);
+  }
+
+  private localized(reply: FallbackReply): AIResponse {
+    return { ...reply, confidence: 0.8 };
   }
 
   private hashMessage(message: string): number {
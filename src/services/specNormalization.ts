@@ -0,0 +1,304 @@
+import {
+  CameraSpec,
+  NormalizedCamera,
+  NormalizedSpecs,
+  Phone,
+  PhoneSpecifications,
+  UnparsedSpec
+} from '../types/phone.js';
+
+/**
+ * Bump when parsing rules change so cached results on phones are recomputed
+ */
+export const SPEC_NORMALIZATION_VERSION = 1;
+
+const MM_PER_INCH = 25.4;
+const GRAMS_PER_OUNCE = 28.3495;
+
+// Marketing resolution names, most specific first, as [short edge, long edge]
+const NAMED_RESOLUTIONS: Array<[RegExp, number, number]> = [
+  [/\b(w?qhd\+|quad hd\+|2k\+?)/i, 1440, 3200],
+  [/\b(w?qhd|quad hd|1440p)\b/i, 1440, 2560],
+  [/\b(fhd\+|full hd\+)/i, 1080, 2400],
+  [/\b(fhd|full hd|1080p)\b/i, 1080, 1920],
+  [/\bhd\+/i, 720, 1600],
+  [/\b(hd|720p)\b/i, 720, 1280],
+];
+
+/**
+ * Raw camera lines, when the source has them as free text
+ */
+export interface RawCameraLines {
+  rear: string[];
+  front?: string | null;
+}
+
+/**
+ * Phones whose specs did not fully parse
+ */
+export interface UnparsedSpecReport {
+  version: number;
+  generatedAt: Date;
+  totalPhones: number;
+  phonesWithIssues: number;
+  byField: Record<string, number>;
+  entries: Array<UnparsedSpec & { phoneId: string; phoneName: string }>;
+}
+
+/**
+ * Screen diagonal in inches from strings like `6.2"`, `6.7 inches` or `17 cm`
+ */
+export function parseDisplaySize(value: string): number | undefined {
+  const inches = value.match(/(\d+(?:\.\d+)?)\s*(?:"|''|”|-?\s*inch(?:es)?\b|in\b)/i);
+  if (inches) return round(parseFloat(inches[1]), 2);
+
+  const cm = value.match(/(\d+(?:\.\d+)?)\s*cm\b/i);
+  if (cm) return round(parseFloat(cm[1]) / 2.54, 2);
+
+  // A bare number is only trusted in the range phones actually come in
+  const bare = value.trim().match(/^(\d+(?:\.\d+)?)$/);
+  if (bare) {
+    const size = parseFloat(bare[1]);
+    if (size >= 3 && size <= 10) return size;
+  }
+
+  return undefined;
+}
+
+/**
+ * Pixel dimensions from `1080 x 2340 pixels`, `1440x3120` or names like `FHD+`
+ */
+export function parseResolution(value: string): { width: number; height: number } | undefined {
+  const pixels = value.match(/(\d{3,4})\s*[x×*]\s*(\d{3,4})/i);
+  if (pixels) {
+    const [a, b] = [parseInt(pixels[1], 10), parseInt(pixels[2], 10)];
+    return { width: Math.min(a, b), height: Math.max(a, b) };
+  }
+
+  const named = NAMED_RESOLUTIONS.find(([pattern]) => pattern.test(value));
+  return named ? { width: named[1], height: named[2] } : undefined;
+}
+
+/**
+ * Weight in grams from `168 g (5.93 oz)`, `0.2 kg` or `5.93 oz`
+ */
+export function parseWeight(value: string): number | undefined {
+  const match = value.match(/(\d+(?:\.\d+)?)\s*(kg|g|grams?|oz)\b/i);
+  if (match) {
+    const amount = parseFloat(match[1]);
+    switch (match[2].toLowerCase()) {
+      case 'kg':
+        return round(amount * 1000, 1);
+      case 'oz':
+        return round(amount * GRAMS_PER_OUNCE, 1);
+      default:
+        return amount;
+    }
+  }
+
+  const bare = value.trim().match(/^(\d+(?:\.\d+)?)$/);
+  if (bare) {
+    const grams = parseFloat(bare[1]);
+    if (grams >= 80 && grams <= 400) return grams;
+  }
+
+  return undefined;
+}
+
+/**
+ * Height, width and thickness in mm from `147 x 70.6 x 7.6 mm (5.79 x 2.78 x 0.30 in)`
+ */
+export function parseDimensions(value: string): { height: number; width: number; thickness: number } | undefined {
+  const match = value.match(
+    /(\d+(?:\.\d+)?)\s*[x×*]\s*(\d+(?:\.\d+)?)\s*[x×*]\s*(\d+(?:\.\d+)?)\s*(mm|cm|in(?:ch(?:es)?)?)?/i
+  );
+  if (!match) return undefined;
+
+  const unit = (match[4] || 'mm').toLowerCase();
+  const scale = unit === 'cm' ? 10 : unit.startsWith('in') ? MM_PER_INCH : 1;
+  const [height, width, thickness] = [match[1], match[2], match[3]].map(part => round(parseFloat(part) * scale, 1));
+
+  return { height, width, thickness };
+}
+
+/**
+ * Memory size in GB from `8GB`, `1 TB` or `512MB`
+ */
+export function parseMemorySize(value: string): number | undefined {
+  const match = value.match(/(\d+(?:\.\d+)?)\s*(tb|gb|mb)\b/i);
+  if (match) {
+    const amount = parseFloat(match[1]);
+    switch (match[2].toLowerCase()) {
+      case 'tb':
+        return amount * 1024;
+      case 'mb':
+        return round(amount / 1024, 3);
+      default:
+        return amount;
+    }
+  }
+
+  const bare = value.trim().match(/^(\d+)$/);
+  return bare ? parseInt(bare[1], 10) : undefined;
+}
+
+/**
+ * f-number from `f/1.8` or `F1.8`
+ */
+export function parseAperture(value: string): number | undefined {
+  const match = value.match(/\bf\s*\/?\s*(\d+(?:\.\d+)?)/i);
+  return match ? parseFloat(match[1]) : undefined;
+}
+
+/**
+ * Megapixels and aperture from a camera line like `50 MP, f/1.8, 24mm (wide)`
+ */
+export function parseCameraLine(value: string): NormalizedCamera | undefined {
+  const megapixels = value.match(/(\d+(?:\.\d+)?)\s*mp\b/i);
+  if (!megapixels) return undefined;
+
+  return {
+    megapixels: parseFloat(megapixels[1]),
+    aperture: parseAperture(value),
+  };
+}
+
+/**
+ * Parse free-text specifications into typed units, collecting strings that
+ * could not be parsed
+ */
+export function normalizeSpecifications(
+  specs: PhoneSpecifications,
+  rawCameras?: RawCameraLines
+): NormalizedSpecs {
+  const unparsed: UnparsedSpec[] = [];
+
+  const parse = <T>(field: string, value: string | undefined, parser: (value: string) => T | undefined): T | undefined => {
+    if (!value || !value.trim()) return undefined;
+
+    const result = parser(value);
+    if (result === undefined) {
+      unparsed.push({ field, value });
+    }
+    return result;
+  };
+
+  const parseList = (field: string, values: string[]) =>
+    values
+      .map(value => parse(field, value, parseMemorySize))
+      .filter((size): size is number => size !== undefined);
+
+  const fromCameraSpec = (field: string, camera?: CameraSpec): NormalizedCamera | undefined => {
+    if (!camera || !(camera.megapixels > 0)) return undefined;
+    return {
+      megapixels: camera.megapixels,
+      aperture: parse(`${field}.aperture`, camera.aperture, parseAperture),
+    };
+  };
+
+  const camera = rawCameras
+    ? {
+        rear: rawCameras.rear
+          .map((line, index) => parse(`camera.rear[${index}]`, line, parseCameraLine))
+          .filter((parsed): parsed is NormalizedCamera => parsed !== undefined),
+        front: parse('camera.front', rawCameras.front || undefined, parseCameraLine),
+      }
+    : {
+        rear: (specs.camera?.rear || [])
+          .map((rear, index) => fromCameraSpec(`camera.rear[${index}]`, rear))
+          .filter((parsed): parsed is NormalizedCamera => parsed !== undefined),
+        front: fromCameraSpec('camera.front', specs.camera?.front),
+      };
+
+  return {
+    version: SPEC_NORMALIZATION_VERSION,
+    display: {
+      sizeInches: parse('display.size', specs.display?.size, parseDisplaySize),
+      resolution: parse('display.resolution', specs.display?.resolution, parseResolution),
+    },
+    build: {
+      weightGrams: parse('build.weight', specs.build?.weight, parseWeight),
+      dimensionsMm: parse('build.dimensions', specs.build?.dimensions, parseDimensions),
+    },
+    memory: {
+      ramGb: parseList('performance.ram', specs.performance?.ram || []),
+      storageGb: parseList('performance.storage', specs.performance?.storage || []),
+    },
+    camera,
+    unparsed,
+  };
+}
+
+// Parsed specs for phones that arrive without a cached copy
+const normalizedCache = new WeakMap<PhoneSpecifications, NormalizedSpecs>();
+
+/**
+ * Normalized specs for a phone, from its cached copy when current
+ */
+export function getNormalizedSpecs(phone: Phone): NormalizedSpecs {
+  if (phone.normalizedSpecs?.version === SPEC_NORMALIZATION_VERSION) {
+    return phone.normalizedSpecs;
+  }
+
+  let normalized = normalizedCache.get(phone.specifications);
+  if (!normalized) {
+    normalized = normalizeSpecifications(phone.specifications);
+    normalizedCache.set(phone.specifications, normalized);
+  }
+
+  return normalized;
+}
+
+/**
+ * List every spec string that failed to parse across a set of phones
+ */
+export function buildUnparsedSpecReport(phones: Phone[]): UnparsedSpecReport {
+  const byField: Record<string, number> = {};
+  const entries: UnparsedSpecReport['entries'] = [];
+
+  phones.forEach(phone => {
+    getNormalizedSpecs(phone).unparsed.forEach(({ field, value }) => {
+      // Report camera lines by slot type rather than index
+      const group = field.replace(/\[\d+\]/, '');
+      byField[group] = (byField[group] || 0) + 1;
+      entries.push({ phoneId: phone.id, phoneName: `${phone.brand} ${phone.model}`, field, value });
+    });
+  });
+
+  return {
+    version: SPEC_NORMALIZATION_VERSION,
+    generatedAt: new Date(),
+    totalPhones: phones.length,
+    phonesWithIssues: new Set(entries.map(entry => entry.phoneId)).size,
+    byField,
+    entries,
+  };
+}
+
+/**
+ * Display helpers for normalized values
+ */
+export function formatDisplaySize(inches: number): string {
+  return `${inches}"`;
+}
+
+export function formatResolution(resolution: { width: number; height: number }): string {
+  return `${resolution.width} × ${resolution.height}`;
+}
+
+export function formatWeight(grams: number): string {
+  return `${Math.round(grams)} g`;
+}
+
+export function formatDimensions(dimensions: { height: number; width: number; thickness: number }): string {
+  return `${dimensions.height} × ${dimensions.width} × ${dimensions.thickness} mm`;
+}
+
+export function formatMemorySize(gb: number): string {
+  return gb >= 1024 && gb % 1024 === 0 ? `${gb / 1024}TB` : `${gb}GB`;
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,114 @@
+import { Phone, PhoneVariant } from '../types/phone.js';
+import { formatMemorySize, getNormalizedSpecs, parseMemorySize } from './specNormalization.js';
+import { ValidationError } from '../middleware/errorHandler.js';
+
+// Database rows carry a null colour where the schema type has none
+type VariantConfiguration = Pick<PhoneVariant, 'ramGb' | 'storageGb'> & { color?: string | null };
+
+/**
+ * Label for a configuration, e.g. "8GB + 256GB, Titanium Black"
+ */
+export function formatVariantLabel(variant: VariantConfiguration, withColor = true): string {
+  const memory = `${formatMemorySize(variant.ramGb)} + ${formatMemorySize(variant.storageGb)}`;
+  return withColor && variant.color ? `${memory}, ${variant.color}` : memory;
+}
+
+/**
+ * RAM and storage from a retailer's configuration text such as
+ * "8GB RAM, 128GB Storage", "12 GB + 256 GB" or "8/128"
+ * The smaller size is taken as RAM when the text does not say.
+ */
+export function parseVariantLabel(label: string): { ramGb?: number; storageGb?: number } {
+  const shorthand = label.match(/\b(\d{1,2})\s*\/\s*(\d{2,4})\b/);
+  if (shorthand) {
+    return { ramGb: Number(shorthand[1]), storageGb: Number(shorthand[2]) };
+  }
+
+  const sizes = (label.match(/\d+(?:\.\d+)?\s*(?:tb|gb)\b/gi) ?? [])
+    .map(size => parseMemorySize(size))
+    .filter((size): size is number => size !== undefined);
+
+  if (sizes.length === 0) {
+    return {};
+  }
+  if (sizes.length === 1) {
+    return /ram/i.test(label) ? { ramGb: sizes[0] } : { storageGb: sizes[0] };
+  }
+  return { ramGb: Math.min(sizes[0], sizes[1]), storageGb: Math.max(sizes[0], sizes[1]) };
+}
+
+/**
+ * Variant a retailer listing is for
+ * RAM and storage must both match; when several colours share them, the
+ * colour named in the text picks one, otherwise the first is used.
+ */
+export function matchVariant<T extends VariantConfiguration>(label: string, variants: T[]): T | undefined {
+  const { ramGb, storageGb } = parseVariantLabel(label);
+  if (ramGb === undefined || storageGb === undefined) {
+    return undefined;
+  }
+
+  const candidates = variants.filter(variant => variant.ramGb === ramGb && variant.storageGb === storageGb);
+  const text = label.toLowerCase();
+
+  return candidates.find(variant => variant.color && text.includes(variant.color.toLowerCase())) ?? candidates[0];
+}
+
+/**
+ * Pin a phone to one configuration: its price, RAM and storage become the
+ * variant's, so scoring no longer assumes the top configuration
+ * Regional listings and offers priced the phone as a whole, so they are dropped.
+ */
+export function selectVariant(phone: Phone, variantId: string): Phone {
+  const variant = phone.variants?.find(candidate => candidate.id === variantId);
+  if (!variant) {
+    throw new ValidationError(`Variant ${variantId} not found for ${phone.brand} ${phone.model}`);
+  }
+
+  const normalized = getNormalizedSpecs(phone);
+  const currentPrice = variant.currentPrice ?? phone.pricing.currentPrice;
+
+  return {
+    ...phone,
+    variant: formatVariantLabel(variant),
+    selectedVariantId: variant.id,
+    pricing: {
+      ...phone.pricing,
+      mrp: variant.mrp ?? Math.max(currentPrice, phone.pricing.mrp),
+      currentPrice,
+      effectivePrice: undefined,
+      regionalPrices: undefined,
+    },
+    specifications: {
+      ...phone.specifications,
+      performance: {
+        ...phone.specifications.performance,
+        ram: [formatMemorySize(variant.ramGb)],
+        storage: [formatMemorySize(variant.storageGb)],
+      },
+    },
+    normalizedSpecs: {
+      ...normalized,
+      memory: { ramGb: [variant.ramGb], storageGb: [variant.storageGb] },
+    },
+  };
+}
+
+/**
+ * Pin phones to the variants requested for them, matched by position
+ * Missing or null entries keep the phone's full range of configurations.
+ */
+export function applyVariantSelections(phones: Phone[], variantIds: Array<string | null | undefined> = []): Phone[] {
+  return phones.map((phone, index) => {
+    const variantId = variantIds[index];
+    return variantId ? selectVariant(phone, variantId) : phone;
+  });
+}
+
+/**
+ * Identity of a phone as compared: the same phone in two configurations
+ * counts as two entries
+ */
+export function getConfigurationKey(phone: Pick<Phone, 'id' | 'selectedVariantId'>): string {
+  return phone.selectedVariantId ? `${phone.id}:${phone.selectedVariantId}` : phone.id;
+}
@@ -4,69 +4,71 @@ import {
   PhoneSpecificationsSchema,
   ChatContextSchema,
   ComparisonResultSchema,
+  ComparisonSnapshotSchema,
   APISuccessResponseSchema,
 } from '../index';
 import { validateData, safeParseData } from '../../utils/validation';
 
+// A complete phone, reused as comparison snapshot fixture
+const validPhone = {
+  id: 'phone-1',
+  brand: 'Samsung',
+  model: 'Galaxy S24',
+  variant: '256GB',
+  launchDate: new Date('2024-01-01'),
+  availability: 'available' as const,
+  pricing: {
+    mrp: 80000,
+    currentPrice: 75000,
+    currency: 'INR' as const,
+  },
+  specifications: {
+    display: {
+      size: '6.2"',
+      resolution: '2340x1080',
+      type: 'Dynamic AMOLED',
+      refreshRate: 120,
+    },
+    camera: {
+      rear: [
+        { megapixels: 50, aperture: 'f/1.8', features: ['OIS'] },
+      ],
+      front: { megapixels: 12, aperture: 'f/2.2', features: [] },
+      features: ['Night Mode', 'Portrait'],
+    },
+    performance: {
+      processor: 'Snapdragon 8 Gen 3',
+      ram: ['8GB', '12GB'],
+      storage: ['128GB', '256GB'],
+    },
+    battery: {
+      capacity: 4000,
+      chargingSpeed: 25,
+    },
+    connectivity: {
+      network: ['5G', '4G'],
+      wifi: 'Wi-Fi 6E',
+      bluetooth: '5.3',
+    },
+    build: {
+      dimensions: '147 x 70.6 x 7.6 mm',
+      weight: '167g',
+      materials: ['Aluminum', 'Glass'],
+      colors: ['Black', 'White'],
+    },
+    software: {
+      os: 'Android',
+      version: '14',
+    },
+  },
+  images: ['image1.jpg', 'image2.jpg'],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
 describe('Schema Validation Tests', () => {
   describe('PhoneSchema', () => {
     it('should validate a complete phone object', () => {
-      const validPhone = {
-        id: 'phone-1',
-        brand: 'Samsung',
-        model: 'Galaxy S24',
-        variant: '256GB',
-        launchDate: new Date('2024-01-01'),
-        availability: 'available' as const,
-        pricing: {
-          mrp: 80000,
-          currentPrice: 75000,
-          currency: 'INR' as const,
-        },
-        specifications: {
-          display: {
-            size: '6.2"',
-            resolution: '2340x1080',
-            type: 'Dynamic AMOLED',
-            refreshRate: 120,
-          },
-          camera: {
-            rear: [
-              { megapixels: 50, aperture: 'f/1.8', features: ['OIS'] },
-            ],
-            front: { megapixels: 12, aperture: 'f/2.2', features: [] },
-            features: ['Night Mode', 'Portrait'],
-          },
-          performance: {
-            processor: 'Snapdragon 8 Gen 3',
-            ram: ['8GB', '12GB'],
-            storage: ['128GB', '256GB'],
-          },
-          battery: {
-            capacity: 4000,
-            chargingSpeed: 25,
-          },
-          connectivity: {
-            network: ['5G', '4G'],
-            wifi: 'Wi-Fi 6E',
-            bluetooth: '5.3',
-          },
-          build: {
-            dimensions: '147 x 70.6 x 7.6 mm',
-            weight: '167g',
-            materials: ['Aluminum', 'Glass'],
-            colors: ['Black', 'White'],
-          },
-          software: {
-            os: 'Android',
-            version: '14',
-          },
-        },
-        images: ['image1.jpg', 'image2.jpg'],
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
-
       const result = validateData(PhoneSchema, validPhone);
       expect(result.isValid).toBe(true);
       expect(result.errors).toHaveLength(0);
@@ -110,6 +112,44 @@ describe('Schema Validation Tests', () => {
     });
   });
 
+  describe('ComparisonSnapshotSchema', () => {
+    const comparison = {
+      id: 'comparison-1',
+      phones: [validPhone, { ...validPhone, id: 'phone-2', model: 'Galaxy S24+' }],
+      categories: [],
+      scores: {
+        phone1: { overall: 80, display: 85, camera: 80, performance: 82, battery: 75, build: 80, value: 78 },
+        phone2: { overall: 78, display: 85, camera: 80, performance: 82, battery: 70, build: 80, value: 72 },
+      },
+      insights: {
+        strengths: { phone1: [], phone2: [] },
+        weaknesses: { phone1: [], phone2: [] },
+        recommendations: [],
+        bestFor: { phone1: [], phone2: [] },
+      },
+      summary: 'Galaxy S24 edges out the S24+',
+      generatedAt: new Date('2024-03-01T10:00:00Z'),
+    };
+
+    it('should restore dates from a stored snapshot', () => {
+      const stored = JSON.parse(JSON.stringify(comparison));
+
+      expect(ComparisonResultSchema.safeParse(stored).success).toBe(false);
+
+      const result = ComparisonSnapshotSchema.safeParse(stored);
+      expect(result.success).toBe(true);
+      expect(result.data?.generatedAt).toEqual(comparison.generatedAt);
+      expect(result.data?.phones[1].launchDate).toEqual(validPhone.launchDate);
+    });
+
+    it('should reject snapshots that are not two-phone comparisons', () => {
+      const stored = JSON.parse(JSON.stringify({ ...comparison, phones: [validPhone] }));
+
+      expect(ComparisonSnapshotSchema.safeParse(stored).success).toBe(false);
+      expect(ComparisonSnapshotSchema.safeParse({ phones: [] }).success).toBe(false);
+    });
+  });
+
   describe('Utility Functions', () => {
     it('should safely parse valid data', () => {
       const validData = { mrp: 50000, currentPrice: 45000, currency: 'INR' };
@@ -0,0 +1,50 @@
+import { z } from 'zod';
+import { isPublicHttpsUrl } from '../utils/network';
+
+// Channels a price alert can be delivered on
+export const NotificationChannelSchema = z.enum(['webhook', 'email', 'in_app']);
+export type NotificationChannel = z.infer<typeof NotificationChannelSchema>;
+
+// Why a watch matched
+export const PriceAlertReasonSchema = z.enum(['target_price', 'percent_drop']);
+export type PriceAlertReason = z.infer<typeof PriceAlertReasonSchema>;
+
+// Create price watch schema and type
+export const CreatePriceWatchSchema = z.object({
+  phoneId: z.string().min(1),
+  variantId: z.string().min(1).optional(), // Watch one configuration instead of the phone's lowest price
+  targetPrice: z.number().positive().optional(),
+  dropPercent: z.number().min(1).max(90).optional(),
+  channels: z.array(NotificationChannelSchema).min(1).default(['in_app']),
+  webhookUrl: z.string().url().refine(isPublicHttpsUrl, 'Webhook URL must be a public https address').optional(),
+  email: z.string().email().optional(),
+  cooldownHours: z.number().int().min(1).max(24 * 7).default(24),
+}).refine(
+  watch => watch.targetPrice !== undefined || watch.dropPercent !== undefined,
+  { message: 'Provide a target price or a percentage drop', path: ['targetPrice'] }
+).refine(
+  watch => !watch.channels.includes('webhook') || Boolean(watch.webhookUrl),
+  { message: 'A webhook URL is required for webhook alerts', path: ['webhookUrl'] }
+).refine(
+  watch => !watch.channels.includes('email') || Boolean(watch.email),
+  { message: 'An email address is required for email alerts', path: ['email'] }
+);
+
+export type CreatePriceWatch = z.infer<typeof CreatePriceWatchSchema>;
+
+// Payload stored in the outbox and sent on every channel
+export const PriceAlertPayloadSchema = z.object({
+  watchId: z.string(),
+  phoneId: z.string(),
+  variantId: z.string().optional(), // Set when the watch is on one variant
+  phoneName: z.string(),
+  reason: PriceAlertReasonSchema,
+  price: z.number(),
+  currency: z.string(),
+  baselinePrice: z.number(),
+  targetPrice: z.number().nullable(),
+  dropPercent: z.number().nullable(),
+  matchedAt: z.string(), // ISO timestamp
+});
+
+export type PriceAlertPayload = z.infer<typeof PriceAlertPayloadSchema>;
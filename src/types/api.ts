@@ -86,6 +86,81 @@ export const SearchQuerySchema = z.object({
 
 export type SearchQuery = z.infer<typeof SearchQuerySchema>;
 
+// Query parameters arrive as numbers when numeric, so accept both
+const textParam = z.preprocess(
+  value => (value === undefined ? undefined : String(value)),
+  z.string().trim().min(2).optional()
+);
+
+// Comma-separated query parameter, e.g. `brand=Samsung,Apple` or `ram=8,12`
+const listParam = <T extends z.ZodTypeAny>(item: T) =>
+  z.preprocess(
+    value => (value === undefined ? [] : String(value).split(',').map(part => part.trim()).filter(Boolean)),
+    z.array(item)
+  );
+
+// Faceted phone search sort and facet names
+export const PhoneSearchSortSchema = z.enum(['price', 'score', 'recency']);
+export type PhoneSearchSort = z.infer<typeof PhoneSearchSortSchema>;
+
+export const SearchFacetNameSchema = z.enum([
+  'brand',
+  'price',
+  'ram',
+  'storage',
+  'battery',
+  'refreshRate',
+  'is5g',
+  'nfc',
+  'wirelessCharging',
+  'ipRating',
+  'launchYear',
+]);
+export type SearchFacetName = z.infer<typeof SearchFacetNameSchema>;
+
+// Faceted phone search query schema and type
+export const PhoneSearchQuerySchema = z.object({
+  q: textParam,
+  brand: listParam(z.string().min(1)),
+  minPrice: z.number().min(0).optional(),
+  maxPrice: z.number().min(0).optional(),
+  ram: listParam(z.coerce.number().positive()),
+  storage: listParam(z.coerce.number().positive()),
+  minBattery: z.number().positive().optional(),
+  minRefreshRate: z.number().positive().optional(),
+  is5g: z.boolean().optional(),
+  nfc: z.boolean().optional(),
+  wirelessCharging: z.boolean().optional(),
+  ipRating: listParam(z.string().regex(/^IP\d[\dX]$/i).transform(rating => rating.toUpperCase())),
+  launchYear: listParam(z.coerce.number().int().min(2000).max(2100)),
+  sort: PhoneSearchSortSchema.default('recency'),
+  order: z.enum(['asc', 'desc']).optional(),
+  page: z.number().int().min(1).default(1),
+  limit: z.number().int().min(1).max(100).default(20),
+  facets: z.boolean().default(true),
+}).refine(
+  query => query.minPrice === undefined || query.maxPrice === undefined || query.minPrice <= query.maxPrice,
+  { message: 'minPrice must not exceed maxPrice', path: ['minPrice'] }
+);
+
+export type PhoneSearchQuery = z.infer<typeof PhoneSearchQuerySchema>;
+
+// Facet bucket schema and type
+export const SearchFacetBucketSchema = z.object({
+  value: z.union([z.string(), z.number(), z.boolean()]),
+  label: z.string(),
+  count: z.number().min(0),
+  selected: z.boolean(),
+});
+
+export type SearchFacetBucket = z.infer<typeof SearchFacetBucketSchema>;
+export type SearchFacets = Record<SearchFacetName, SearchFacetBucket[]>;
+
+// Faceted search response type
+export type FacetedSearchResponse<T> = PaginatedResponse<T> & {
+  facets?: SearchFacets;
+};
+
 // HTTP method enum
 export const HTTPMethodSchema = z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE']);
 export type HTTPMethod = z.infer<typeof HTTPMethodSchema>;
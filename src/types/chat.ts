@@ -15,10 +15,62 @@ export const ChatMessageSchema = z.object({
 
 export type ChatMessage = z.infer<typeof ChatMessageSchema>;
 
+// Language a user writes in: English, Hindi in Devanagari, or romanized Hindi (Hinglish)
+export const ChatLocaleSchema = z.enum(['en', 'hi', 'hi-Latn']);
+export type ChatLocale = z.infer<typeof ChatLocaleSchema>;
+
 // Chat step enum
 export const ChatStepSchema = z.enum(['brand_selection', 'model_selection', 'comparison', 'completed']);
 export type ChatStep = z.infer<typeof ChatStepSchema>;
 
+// Chat flow state the server owns; the AI reply never moves it directly
+export const ChatFlowStateSchema = z.object({
+  currentStep: ChatStepSchema,
+  selectedBrand: z.string().optional(),
+  selectedPhones: z.array(z.string()), // Catalog phone IDs, in comparison order
+  replacingSlot: z.number().int().min(0).optional(), // Phone being swapped out after "change phone 2"
+});
+
+export type ChatFlowState = z.infer<typeof ChatFlowStateSchema>;
+
+// Actions the user can take from the UI without going through the AI
+export const ChatFlowNavigationSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('go_back') }),
+  z.object({ type: z.literal('undo') }),
+  z.object({ type: z.literal('start_over') }),
+  z.object({ type: z.literal('change_phone'), slot: z.number().int().min(0) }), // Zero-based
+]);
+
+export type ChatFlowNavigation = z.infer<typeof ChatFlowNavigationSchema>;
+
+// Every action that can move the chat flow
+export const ChatFlowActionSchema = z.discriminatedUnion('type', [
+  ...ChatFlowNavigationSchema.options,
+  z.object({ type: z.literal('select_brand'), brand: z.string().min(1) }),
+  z.object({ type: z.literal('select_phone'), phoneId: z.string().min(1), name: z.string().optional() }),
+]);
+
+export type ChatFlowAction = z.infer<typeof ChatFlowActionSchema>;
+
+// One applied transition; undo restores `from`
+export const ChatFlowTransitionSchema = z.object({
+  action: ChatFlowActionSchema,
+  from: ChatFlowStateSchema,
+  to: ChatFlowStateSchema,
+  at: z.date(),
+});
+
+export type ChatFlowTransition = z.infer<typeof ChatFlowTransitionSchema>;
+
+// Flow returned with each reply so the client can mirror it and offer undo
+export const ChatFlowUpdateSchema = z.object({
+  state: ChatFlowStateSchema,
+  history: z.array(ChatFlowTransitionSchema),
+  rejected: z.object({ code: z.string(), message: z.string() }).optional(), // Why the requested change was refused
+});
+
+export type ChatFlowUpdate = z.infer<typeof ChatFlowUpdateSchema>;
+
 // User preferences schema and type
 export const UserPreferencesSchema = z.object({
   budget: z.object({
@@ -31,6 +83,16 @@ export const UserPreferencesSchema = z.object({
 
 export type UserPreferences = z.infer<typeof UserPreferencesSchema>;
 
+// Rolling summary of turns that no longer fit in the prompt window
+export const ConversationSummarySchema = z.object({
+  text: z.string(),
+  preferences: UserPreferencesSchema.optional(), // Preferences stated in the summarized turns
+  rejectedPhones: z.array(z.string()), // Phones the user ruled out, as named in the chat
+  summarizedMessages: z.number().int().min(0), // Leading conversationHistory entries the summary covers
+});
+
+export type ConversationSummary = z.infer<typeof ConversationSummarySchema>;
+
 // Chat context schema and type
 export const ChatContextSchema = z.object({
   sessionId: z.string(),
@@ -39,18 +101,33 @@ export const ChatContextSchema = z.object({
   currentStep: ChatStepSchema,
   selectedBrand: z.string().optional(),
   selectedPhones: z.array(z.string()),
+  replacingSlot: z.number().int().min(0).optional(),
+  flowHistory: z.array(ChatFlowTransitionSchema).optional(), // Most recent last
   preferences: UserPreferencesSchema.optional(),
+  summary: ConversationSummarySchema.optional(),
+  locale: ChatLocaleSchema.optional(), // Detected from the user's latest message
   createdAt: z.date(),
   updatedAt: z.date(),
 });
 
 export type ChatContext = z.infer<typeof ChatContextSchema>;
 
+// Chat context as sent in JSON request bodies, with dates as ISO strings
+export const ChatContextRequestSchema = ChatContextSchema.extend({
+  conversationHistory: z.array(ChatMessageSchema.extend({ timestamp: z.coerce.date() })),
+  flowHistory: z.array(ChatFlowTransitionSchema.extend({ at: z.coerce.date() })).optional(),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+});
+
 // AI response schema and type
 export const AIResponseSchema = z.object({
   message: z.string(),
   suggestions: z.array(z.string()).optional(),
-  nextStep: ChatStepSchema.optional(),
+  nextStep: ChatStepSchema.optional(), // Overwritten with the server flow's step before it reaches the client
+  flow: ChatFlowUpdateSchema.optional(),
+  summary: ConversationSummarySchema.optional(), // Set when older turns were folded into the summary
+  locale: ChatLocaleSchema.optional(), // Language detected in the user's message and used for the reply
   extractedData: z.record(z.string(), z.any()).optional(),
   confidence: z.number().min(0).max(1).optional(),
 });
@@ -1,5 +1,6 @@
 import { z } from 'zod';
-import { PhoneSchema, PhoneScoresSchema } from './phone';
+import { BuyerProfileSchema, PhoneSchema, PhoneScoresSchema, RegionSchema } from './phone';
+import { UserPreferencesSchema } from './chat';
 
 // Comparison winner enum
 export const ComparisonWinnerSchema = z.enum(['phone1', 'phone2', 'tie']);
@@ -13,6 +14,8 @@ export const SpecComparisonSchema = z.object({
   winner: ComparisonWinnerSchema.optional(),
   difference: z.string().optional(),
   importance: z.enum(['high', 'medium', 'low']).default('medium'),
+  values: z.record(z.string(), z.any()).optional(), // phoneId -> value for multi-phone comparisons
+  winnerIds: z.array(z.string()).optional(), // phoneIds sharing the best value
 });
 
 export type SpecComparison = z.infer<typeof SpecComparisonSchema>;
@@ -24,6 +27,7 @@ export const ComparisonCategorySchema = z.object({
   weight: z.number().min(0).max(1),
   comparisons: z.array(SpecComparisonSchema),
   winner: ComparisonWinnerSchema.optional(),
+  winnerId: z.string().optional(), // Category leader in multi-phone comparisons
   summary: z.string().optional(),
 });
 
@@ -48,6 +52,48 @@ export const ComparisonInsightsSchema = z.object({
 
 export type ComparisonInsights = z.infer<typeof ComparisonInsightsSchema>;
 
+// Multi-phone insights schema, keyed by phone ID
+export const MultiPhoneInsightsSchema = z.object({
+  strengths: z.record(z.string(), z.array(z.string())),
+  weaknesses: z.record(z.string(), z.array(z.string())),
+  recommendations: z.array(z.string()),
+  bestFor: z.record(z.string(), z.array(z.string())),
+});
+
+export type MultiPhoneInsights = z.infer<typeof MultiPhoneInsightsSchema>;
+
+// Scored comparison categories
+export const ScoringCategorySchema = z.enum(['display', 'camera', 'performance', 'battery', 'build', 'value']);
+export type ScoringCategory = z.infer<typeof ScoringCategorySchema>;
+
+export const CategoryWeightsSchema = z.record(ScoringCategorySchema, z.number().min(0).max(1));
+export type CategoryWeights = z.infer<typeof CategoryWeightsSchema>;
+
+// How one category weight moved away from the default and what it did to each phone
+export const WeightAdjustmentSchema = z.object({
+  category: ScoringCategorySchema,
+  defaultWeight: z.number(),
+  weight: z.number(),
+  reasons: z.array(z.string()),
+  impact: z.record(z.string(), z.number()), // phoneId -> overall points gained or lost
+  favoredPhoneId: z.string().optional(),
+});
+
+export type WeightAdjustment = z.infer<typeof WeightAdjustmentSchema>;
+
+// Explanation attached to comparisons scored with user weights
+export const ScoringExplanationSchema = z.object({
+  weights: CategoryWeightsSchema,
+  defaultWeights: CategoryWeightsSchema,
+  adjustments: z.array(WeightAdjustmentSchema),
+  defaultLeaderIds: z.array(z.string()), // phoneIds leading with default weights
+  leaderIds: z.array(z.string()), // phoneIds leading with the applied weights
+  outcomeChanged: z.boolean(),
+  summary: z.string(),
+});
+
+export type ScoringExplanation = z.infer<typeof ScoringExplanationSchema>;
+
 // Main comparison result schema and type
 export const ComparisonResultSchema = z.object({
   id: z.string(),
@@ -60,12 +106,26 @@ export const ComparisonResultSchema = z.object({
   overallWinner: ComparisonWinnerSchema.optional(),
   insights: ComparisonInsightsSchema,
   summary: z.string(),
+  scoring: ScoringExplanationSchema.optional(),
   generatedAt: z.date(),
   metadata: z.record(z.string(), z.any()).optional(),
 });
 
 export type ComparisonResult = z.infer<typeof ComparisonResultSchema>;
 
+// Phone as stored in JSON snapshots, with dates as ISO strings
+const PhoneSnapshotSchema = PhoneSchema.extend({
+  launchDate: z.coerce.date(),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+});
+
+// Comparison result as stored in share link snapshots
+export const ComparisonSnapshotSchema = ComparisonResultSchema.extend({
+  phones: z.tuple([PhoneSnapshotSchema, PhoneSnapshotSchema]),
+  generatedAt: z.coerce.date(),
+});
+
 // Multi-phone comparison schema for comparing more than 2 phones
 export const MultiPhoneComparisonSchema = z.object({
   id: z.string(),
@@ -77,23 +137,34 @@ export const MultiPhoneComparisonSchema = z.object({
     rank: z.number(),
     totalScore: z.number(),
   })),
-  insights: ComparisonInsightsSchema,
+  insights: MultiPhoneInsightsSchema,
   summary: z.string(),
+  scoring: ScoringExplanationSchema.optional(),
   generatedAt: z.date(),
   metadata: z.record(z.string(), z.any()).optional(),
 });
 
 export type MultiPhoneComparison = z.infer<typeof MultiPhoneComparisonSchema>;
 
+// Per-request scoring preferences
+export const ComparisonPreferencesSchema = z.object({
+  categories: z.array(z.string()).optional(), // Restrict scoring to these categories
+  weights: z.record(z.string(), z.number().min(0)).optional(), // Shares of the 0-1 budget; unweighted categories split what is left
+  priorities: UserPreferencesSchema.shape.priorities,
+  usage: UserPreferencesSchema.shape.usage,
+  buyer: BuyerProfileSchema.optional(), // Cards and trade-in, to score value on the price after offers
+  region: RegionSchema.optional(), // Prices and value segments of this region; defaults to India
+  variantIds: z.array(z.string().nullable()).max(5).optional(), // Variant per phone, in phone order; null keeps all configurations
+});
+
+export type ComparisonPreferences = z.infer<typeof ComparisonPreferencesSchema>;
+
 // Comparison request schema and type
 export const ComparisonRequestSchema = z.object({
   phone1Id: z.string(),
   phone2Id: z.string(),
   userId: z.string().optional(),
-  preferences: z.object({
-    categories: z.array(z.string()).optional(),
-    weights: z.record(z.string(), z.number()).optional(),
-  }).optional(),
+  preferences: ComparisonPreferencesSchema.optional(),
 });
 
 export type ComparisonRequest = z.infer<typeof ComparisonRequestSchema>;
@@ -102,6 +173,7 @@ export type ComparisonRequest = z.infer<typeof ComparisonRequestSchema>;
 export const SavedComparisonSchema = z.object({
   id: z.string(),
   userId: z.string().optional(),
+  sessionId: z.string().optional(),
   title: z.string().optional(),
   result: z.union([ComparisonResultSchema, MultiPhoneComparisonSchema]),
   isPublic: z.boolean().default(false),
@@ -125,6 +197,25 @@ export const ComparisonHistoryEntrySchema = z.object({
 
 export type ComparisonHistoryEntry = z.infer<typeof ComparisonHistoryEntrySchema>;
 
+// Owner of saved comparisons and history: a signed-in user or an anonymous browser session
+export const ComparisonOwnerSchema = z.object({
+  userId: z.string().min(1).optional(),
+  sessionId: z.string().min(1).optional(),
+}).refine(owner => Boolean(owner.userId || owner.sessionId), {
+  message: 'A user ID or session ID is required',
+});
+
+export type ComparisonOwner = z.infer<typeof ComparisonOwnerSchema>;
+
+// Options when saving a comparison
+export const SaveComparisonOptionsSchema = z.object({
+  title: z.string().trim().min(1).max(200).optional(),
+  tags: z.array(z.string().trim().min(1).max(40)).max(20).default([]),
+  isPublic: z.boolean().default(false),
+});
+
+export type SaveComparisonOptions = z.input<typeof SaveComparisonOptionsSchema>;
+
 // Share comparison data
 export const ShareComparisonSchema = z.object({
   id: z.string(),
@@ -138,3 +229,7 @@ export const ShareComparisonSchema = z.object({
 });
 
 export type ShareComparison = z.infer<typeof ShareComparisonSchema>;
+
+// Comparison export formats
+export const ComparisonExportFormatSchema = z.enum(['pdf', 'csv', 'markdown']);
+export type ComparisonExportFormat = z.infer<typeof ComparisonExportFormatSchema>;
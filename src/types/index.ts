@@ -2,6 +2,7 @@
 export * from './phone';
 export * from './chat';
 export * from './comparison';
+export * from './alerts';
 export * from './api';
 export * from './services';
 export * from './errors';
@@ -16,7 +17,6 @@ export type DeepPartial<T> = {
 // Common utility types for the application
 export type ID = string;
 export type Timestamp = Date;
-export type Currency = 'INR';
 
 // Environment types
 export type Environment = 'development' | 'staging' | 'production';
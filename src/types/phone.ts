@@ -58,11 +58,79 @@ export const PhoneSpecificationsSchema = z.object({
 
 export type PhoneSpecifications = z.infer<typeof PhoneSpecificationsSchema>;
 
+// Camera line parsed into numeric units
+export const NormalizedCameraSchema = z.object({
+  megapixels: z.number().optional(),
+  aperture: z.number().optional(), // f-number, e.g. 1.8 for f/1.8
+});
+
+export type NormalizedCamera = z.infer<typeof NormalizedCameraSchema>;
+
+// Spec string that could not be parsed into units
+export const UnparsedSpecSchema = z.object({
+  field: z.string(),
+  value: z.string(),
+});
+
+export type UnparsedSpec = z.infer<typeof UnparsedSpecSchema>;
+
+// Free-text specifications parsed into typed units
+export const NormalizedSpecsSchema = z.object({
+  version: z.number(),
+  display: z.object({
+    sizeInches: z.number().optional(),
+    resolution: z.object({
+      width: z.number(), // Short edge in pixels
+      height: z.number(), // Long edge in pixels
+    }).optional(),
+  }),
+  build: z.object({
+    weightGrams: z.number().optional(),
+    dimensionsMm: z.object({
+      height: z.number(),
+      width: z.number(),
+      thickness: z.number(),
+    }).optional(),
+  }),
+  memory: z.object({
+    ramGb: z.array(z.number()),
+    storageGb: z.array(z.number()),
+  }),
+  camera: z.object({
+    rear: z.array(NormalizedCameraSchema),
+    front: NormalizedCameraSchema.optional(),
+  }),
+  unparsed: z.array(UnparsedSpecSchema),
+});
+
+export type NormalizedSpecs = z.infer<typeof NormalizedSpecsSchema>;
+
+// Currencies prices can be shown in
+export const CurrencySchema = z.enum(['INR', 'USD', 'EUR', 'GBP', 'AED']);
+export type Currency = z.infer<typeof CurrencySchema>;
+
+// Market regions with their own pricing
+export const RegionSchema = z.enum(['IN', 'US', 'EU', 'GB', 'AE']);
+export type Region = z.infer<typeof RegionSchema>;
+
+// Price a phone is listed at in one region
+export const RegionalPriceSchema = z.object({
+  region: RegionSchema,
+  currency: CurrencySchema,
+  mrp: z.number().optional(),
+  currentPrice: z.number(),
+});
+
+export type RegionalPrice = z.infer<typeof RegionalPriceSchema>;
+
 // Phone pricing schema and type
 export const PhonePricingSchema = z.object({
   mrp: z.number(),
   currentPrice: z.number(),
-  currency: z.literal('INR'),
+  currency: CurrencySchema,
+  effectivePrice: z.number().optional(), // Best price after retailer offers, for the requesting buyer
+  regionalPrices: z.array(RegionalPriceSchema).optional(), // Listings outside the home region
+  region: RegionSchema.optional(), // Set once prices have been localized to a region
 });
 
 export type PhonePricing = z.infer<typeof PhonePricingSchema>;
@@ -71,6 +139,18 @@ export type PhonePricing = z.infer<typeof PhonePricingSchema>;
 export const PhoneAvailabilitySchema = z.enum(['available', 'discontinued', 'upcoming']);
 export type PhoneAvailability = z.infer<typeof PhoneAvailabilitySchema>;
 
+// Purchasable RAM/storage/colour configuration of a phone
+export const PhoneVariantSchema = z.object({
+  id: z.string(),
+  ramGb: z.number(),
+  storageGb: z.number(),
+  color: z.string().optional(),
+  mrp: z.number().optional(),
+  currentPrice: z.number().optional(), // Lowest in-stock retailer price at the last sync
+});
+
+export type PhoneVariant = z.infer<typeof PhoneVariantSchema>;
+
 // Main Phone schema and type
 export const PhoneSchema = z.object({
   id: z.string(),
@@ -81,6 +161,9 @@ export const PhoneSchema = z.object({
   availability: PhoneAvailabilitySchema,
   pricing: PhonePricingSchema,
   specifications: PhoneSpecificationsSchema,
+  normalizedSpecs: NormalizedSpecsSchema.optional(), // Cached parse of `specifications`
+  variants: z.array(PhoneVariantSchema).optional(), // Smallest configuration first
+  selectedVariantId: z.string().optional(), // Set when pricing and memory are pinned to one variant
   images: z.array(z.string()),
   createdAt: z.date(),
   updatedAt: z.date(),
@@ -115,6 +198,7 @@ export const PhoneSelectionSchema = z.object({
   brand: z.string(),
   model: z.string(),
   variant: z.string().optional(),
+  variantId: z.string().optional(), // Chosen PhoneVariant, when the phone has any
 });
 
 export type PhoneSelection = z.infer<typeof PhoneSelectionSchema>;
@@ -131,3 +215,121 @@ export const PhoneScoresSchema = z.object({
 });
 
 export type PhoneScores = z.infer<typeof PhoneScoresSchema>;
+
+// Price history schemas and types
+export const PricePointSchema = z.object({
+  date: z.date(),
+  price: z.number(),
+  retailer: z.string(),
+});
+
+export type PricePoint = z.infer<typeof PricePointSchema>;
+
+export const PriceHistoryStatsSchema = z.object({
+  min: z.number(),
+  max: z.number(),
+  average: z.number(),
+  latest: z.number(),
+  allTimeLow: PricePointSchema, // Lowest price ever recorded, not only in the requested range
+});
+
+export type PriceHistoryStats = z.infer<typeof PriceHistoryStatsSchema>;
+
+export const PriceHistorySchema = z.object({
+  phoneId: z.string(),
+  variantId: z.string().optional(), // Set when the history is for one variant
+  currency: z.string(),
+  from: z.date(),
+  to: z.date(),
+  points: z.array(PricePointSchema), // Every retailer snapshot in range, oldest first
+  lowest: z.array(PricePointSchema), // Cheapest retailer at each sync
+  stats: PriceHistoryStatsSchema.nullable(), // Null when nothing was recorded in range
+});
+
+export type PriceHistory = z.infer<typeof PriceHistorySchema>;
+
+// Retailer offer schemas and types
+export const CardTypeSchema = z.enum(['credit', 'debit']);
+export type CardType = z.infer<typeof CardTypeSchema>;
+
+export const BankCashbackOfferSchema = z.object({
+  type: z.literal('bank_cashback'),
+  bank: z.string(),
+  cardType: z.enum(['credit', 'debit', 'any']).default('any'),
+  amount: z.number().positive().optional(), // Flat discount
+  percent: z.number().positive().max(100).optional(), // Percentage discount, capped by maxDiscount
+  maxDiscount: z.number().positive().optional(),
+  minPurchase: z.number().nonnegative().optional(),
+  description: z.string().optional(),
+});
+
+export const NoCostEmiOfferSchema = z.object({
+  type: z.literal('no_cost_emi'),
+  bank: z.string().optional(), // Any bank's card when not set
+  tenureMonths: z.array(z.number().int().positive()).min(1),
+  description: z.string().optional(),
+});
+
+export const ExchangeOfferSchema = z.object({
+  type: z.literal('exchange'),
+  maxValue: z.number().nonnegative(), // Most the retailer pays for a trade-in
+  bonus: z.number().nonnegative().default(0), // Paid on top of the trade-in value
+  description: z.string().optional(),
+});
+
+export const RetailerOfferSchema = z.discriminatedUnion('type', [
+  BankCashbackOfferSchema,
+  NoCostEmiOfferSchema,
+  ExchangeOfferSchema,
+]);
+
+export type BankCashbackOffer = z.infer<typeof BankCashbackOfferSchema>;
+export type NoCostEmiOffer = z.infer<typeof NoCostEmiOfferSchema>;
+export type ExchangeOffer = z.infer<typeof ExchangeOfferSchema>;
+export type RetailerOffer = z.infer<typeof RetailerOfferSchema>;
+
+// Cards and trade-in a buyer brings to a purchase
+export const PaymentCardSchema = z.object({
+  bank: z.string().trim().min(1),
+  type: CardTypeSchema,
+});
+
+export type PaymentCard = z.infer<typeof PaymentCardSchema>;
+
+export const BuyerProfileSchema = z.object({
+  cards: z.array(PaymentCardSchema).max(10).default([]),
+  exchangeValue: z.number().nonnegative().optional(), // Trade-in value of the buyer's old phone
+});
+
+export type BuyerProfile = z.infer<typeof BuyerProfileSchema>;
+
+// A retailer's listed price with its offers
+export const RetailerPriceSchema = z.object({
+  retailer: z.string(),
+  price: z.number(),
+  url: z.string().optional(),
+  offers: z.array(RetailerOfferSchema),
+});
+
+export type RetailerPrice = z.infer<typeof RetailerPriceSchema>;
+
+// Price a buyer pays at one retailer once their offers apply
+export const EffectivePriceSchema = z.object({
+  retailer: z.string(),
+  listPrice: z.number(),
+  effectivePrice: z.number(),
+  savings: z.number(),
+  appliedOffers: z.array(z.object({
+    type: z.enum(['bank_cashback', 'exchange']),
+    label: z.string(),
+    amount: z.number(),
+  })),
+  emi: z.object({
+    bank: z.string().optional(),
+    tenureMonths: z.number(),
+    monthlyAmount: z.number(),
+  }).nullable(), // Longest no-cost EMI the buyer's cards qualify for
+  url: z.string().optional(),
+});
+
+export type EffectivePrice = z.infer<typeof EffectivePriceSchema>;
@@ -1,7 +1,8 @@
 import { z } from 'zod';
-import { Phone, PhoneSelection, Brand, PhoneModel, PhoneScores } from './phone';
+import { Phone, PhoneSelection, Brand, PhoneModel, PhoneScores, Region } from './phone';
 import { ChatContext, AIResponse } from './chat';
-import { ComparisonResult, ComparisonInsights } from './comparison';
+import { ComparisonResult, ComparisonInsights, MultiPhoneComparison, ComparisonPreferences, CategoryWeights } from './comparison';
+import { FacetedSearchResponse, PhoneSearchQuery } from './api';
 
 // AI Service Interface
 export interface AIService {
@@ -33,6 +34,11 @@ export interface PhoneService {
    */
   searchPhones(query: string): Promise<Phone[]>;
 
+  /**
+   * Search phones with filters, sorting, pagination and facet counts
+   */
+  searchPhonesFaceted(query: PhoneSearchQuery): Promise<FacetedSearchResponse<Phone>>;
+
   /**
    * Get phone by brand and model
    */
@@ -74,7 +80,7 @@ export interface ComparisonEngine {
   /**
    * Compare two phones and return detailed comparison
    */
-  comparePhones(phone1: Phone, phone2: Phone): Promise<ComparisonResult>;
+  comparePhones(phone1: Phone, phone2: Phone, preferences?: ComparisonPreferences): Promise<ComparisonResult>;
 
   /**
    * Generate insights from comparison result
@@ -84,12 +90,17 @@ export interface ComparisonEngine {
   /**
    * Calculate scores for a phone
    */
-  calculateScores(phone: Phone): Promise<PhoneScores>;
+  calculateScores(phone: Phone, weights?: CategoryWeights, region?: Region): Promise<PhoneScores>;
 
   /**
    * Compare multiple phones (more than 2)
    */
   compareMultiplePhones(phones: Phone[]): Promise<ComparisonResult[]>;
+
+  /**
+   * Compare 2-5 phones together with shared categories and rankings
+   */
+  generateMultiPhoneComparison(phones: Phone[], preferences?: ComparisonPreferences): Promise<MultiPhoneComparison>;
 }
 
 // Cache Service Interface
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { detectLanguage, extractBudget, normalizeMessage, parseIndianAmount } from '../language';
+
+describe('detectLanguage', () => {
+  it('tells English, Hinglish and Devanagari Hindi apart', () => {
+    expect(detectLanguage('Which phone has the best camera under 30000?').locale).toBe('en');
+    expect(detectLanguage('mujhe 30k ke andar achha camera wala phone chahiye').locale).toBe('hi-Latn');
+    expect(detectLanguage('कैमरा अच्छा फोन बताओ')).toEqual({ locale: 'hi', script: 'devanagari', confidence: 1 });
+  });
+
+  it('reads Devanagari mixed with model names as Hindi', () => {
+    expect(detectLanguage('iPhone 15 की कीमत')).toMatchObject({ locale: 'hi', script: 'mixed' });
+  });
+
+  it('keeps English when it outweighs a stray Hindi word', () => {
+    expect(detectLanguage('Tell me which is better for gaming, the Pixel ya the OnePlus?').locale).toBe('en');
+  });
+
+  it('keeps the previous locale for messages without language cues', () => {
+    expect(detectLanguage('iPhone 15 Pro', 'hi-Latn')).toEqual({ locale: 'hi-Latn', script: 'latin', confidence: 0.3 });
+    expect(detectLanguage('Galaxy S24').locale).toBe('en');
+  });
+});
+
+describe('normalizeMessage', () => {
+  it('maps transliterated and Devanagari words to English keywords', () => {
+    expect(normalizeMessage('sasta phone dikhao')).toBe('cheap phone show');
+    expect(normalizeMessage('कैमरा अच्छा सैमसंग फ़ोन')).toBe('camera good Samsung phone');
+    expect(normalizeMessage('sabse achha gaming phone')).toBe('best gaming phone');
+  });
+
+  it('converts Indian amounts and Devanagari digits to plain numbers', () => {
+    expect(normalizeMessage('30k ya tees hazaar ya dedh lakh')).toBe('30000 ya 30000 ya 150000');
+    expect(normalizeMessage('४०००० के अंदर')).toBe('40000 ke andar');
+  });
+
+  it('leaves video resolutions and English words alone', () => {
+    expect(normalizeMessage('Does it shoot 4K video with an ace camera?')).toBe('Does it shoot 4K video with an ace camera?');
+  });
+});
+
+describe('parseIndianAmount', () => {
+  it('reads rupee amounts written in any form', () => {
+    expect(parseIndianAmount('₹30,000')).toBe(30000);
+    expect(parseIndianAmount('30 hazaar')).toBe(30000);
+    expect(parseIndianAmount('1.5 lakh')).toBe(150000);
+    expect(parseIndianAmount('डेढ़ लाख')).toBe(150000);
+  });
+
+  it('skips spec numbers', () => {
+    expect(parseIndianAmount('8GB RAM, 25k budget')).toBe(25000);
+    expect(parseIndianAmount('no numbers here')).toBeNull();
+  });
+});
+
+describe('extractBudget', () => {
+  it('reads upper bounds in English, Hinglish and Hindi', () => {
+    expect(extractBudget('best camera phone under 1 lakh')).toEqual({ max: 100000 });
+    expect(extractBudget('gaming ke liye best phone batao 50000 tak')).toEqual({ max: 50000 });
+    expect(extractBudget('tees hazaar se kam')).toEqual({ max: 30000 });
+    expect(extractBudget('30 हज़ार के अंदर फोन')).toEqual({ max: 30000 });
+    expect(extractBudget('25k ka phone')).toEqual({ max: 25000 });
+  });
+
+  it('reads ranges and lower bounds', () => {
+    expect(extractBudget('between 20,000 and 25,000')).toEqual({ min: 20000, max: 25000 });
+    expect(extractBudget('20k se 25k')).toEqual({ min: 20000, max: 25000 });
+    expect(extractBudget('50k se zyada')).toEqual({ min: 50000 });
+  });
+
+  it('ignores spec numbers and model numbers', () => {
+    expect(extractBudget('8GB RAM, 5000mAh battery under 30000')).toEqual({ max: 30000 });
+    expect(extractBudget('iphone 15 ka price kya hai')).toBeNull();
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { isPrivateAddress, isPublicHttpsUrl } from '../network';
+import { CreatePriceWatchSchema } from '../../types/alerts';
+
+describe('isPrivateAddress', () => {
+  it('flags private, loopback and link-local addresses', () => {
+    for (const address of ['10.1.2.3', '127.0.0.1', '169.254.169.254', '172.20.0.1', '192.168.1.1', '0.0.0.0', '::1', '::', 'fd00::1', 'fe80::1%eth0', '::ffff:127.0.0.1', '::ffff:a9fe:a9fe']) {
+      expect(isPrivateAddress(address), address).toBe(true);
+    }
+  });
+
+  it('passes public addresses and host names', () => {
+    for (const address of ['93.184.216.34', '172.32.0.1', '2606:2800:220:1::1', '::ffff:8.8.8.8', 'example.com']) {
+      expect(isPrivateAddress(address), address).toBe(false);
+    }
+  });
+});
+
+describe('isPublicHttpsUrl', () => {
+  it('accepts https URLs on public hosts', () => {
+    expect(isPublicHttpsUrl('https://hooks.example.com/alerts')).toBe(true);
+  });
+
+  it('rejects plain http, local names and private addresses in any notation', () => {
+    expect(isPublicHttpsUrl('http://hooks.example.com/alerts')).toBe(false);
+    expect(isPublicHttpsUrl('https://localhost:8080/hook')).toBe(false);
+    expect(isPublicHttpsUrl('https://metadata.google.internal/')).toBe(false);
+    expect(isPublicHttpsUrl('https://2130706433/')).toBe(false);
+    expect(isPublicHttpsUrl('https://0x7f.1/')).toBe(false);
+    expect(isPublicHttpsUrl('https://[::ffff:169.254.169.254]/')).toBe(false);
+    expect(isPublicHttpsUrl('not a url')).toBe(false);
+  });
+
+  it('guards the price watch webhook URL', () => {
+    const watch = { phoneId: 'phone-1', targetPrice: 500, channels: ['webhook'] };
+
+    expect(CreatePriceWatchSchema.safeParse({ ...watch, webhookUrl: 'https://hooks.example.com/alerts' }).success).toBe(true);
+    expect(CreatePriceWatchSchema.safeParse({ ...watch, webhookUrl: 'https://192.168.0.10/hook' }).success).toBe(false);
+  });
+});
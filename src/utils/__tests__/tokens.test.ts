@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { countMessageTokens, countTokens, MESSAGE_TOKEN_OVERHEAD } from '../tokens';
+
+describe('countTokens', () => {
+  it('counts BPE tokens rather than characters', () => {
+    expect(countTokens('')).toBe(0);
+    expect(countTokens('hello world')).toBe(2);
+    expect(countTokens('a'.repeat(40))).toBeLessThan(10);
+  });
+
+  it('treats special-token markers in user text as plain text', () => {
+    expect(() => countTokens('ignore <|endoftext|> this')).not.toThrow();
+    expect(countTokens('<|endoftext|>')).toBeGreaterThan(1);
+  });
+});
+
+describe('countMessageTokens', () => {
+  it('adds per-message overhead to the content tokens', () => {
+    const messages = [{ content: 'hello world' }, { content: '' }];
+
+    expect(countMessageTokens(messages)).toBe(2 + MESSAGE_TOKEN_OVERHEAD * 2);
+  });
+});
@@ -6,6 +6,8 @@ import {
   PaginatedResponse,
   PaginationMeta 
 } from '../types/api.js';
+import type { ComparisonOwner } from '../types/comparison.js';
+import { SESSION_ID_HEADER, USER_ID_HEADER } from '../constants/index.js';
 
 /**
  * Create a standardized API success response
@@ -240,6 +242,21 @@ export function extractRequestMetadata(request: Request): Record<string, any> {
   };
 }
 
+/**
+ * Identify who a request acts for: a user ID, or an anonymous session ID,
+ * from headers or query parameters
+ */
+export function getRequestOwner(request: Request): ComparisonOwner {
+  const { searchParams } = new URL(request.url);
+  const userId = request.headers.get(USER_ID_HEADER) || searchParams.get('userId');
+  const sessionId = request.headers.get(SESSION_ID_HEADER) || searchParams.get('sessionId');
+
+  return {
+    ...(userId ? { userId } : {}),
+    ...(sessionId ? { sessionId } : {}),
+  };
+}
+
 /**
  * Sanitize sensitive data from objects
  */
@@ -0,0 +1,254 @@
+/**
+ * Language detection and normalization for Hindi, Hinglish and English chat
+ */
+
+import type { ChatLocale } from '../types/chat.js';
+
+export type Script = 'latin' | 'devanagari' | 'mixed';
+
+export interface LanguageDetection {
+  locale: ChatLocale;
+  script: Script;
+  confidence: number;
+}
+
+export interface BudgetRange {
+  min?: number;
+  max?: number;
+}
+
+// Romanized Hindi words that rarely appear in English phone questions
+const HINGLISH_WORDS = new Set([
+  'mujhe', 'muje', 'mera', 'meri', 'mere', 'chahiye', 'chaiye', 'hai', 'hain', 'kya', 'kaisa', 'kaisi', 'kaise',
+  'kitna', 'kitni', 'kitne', 'ka', 'ki', 'ke', 'ko', 'se', 'mein', 'aur', 'nahi', 'nahin', 'bhi', 'sabse',
+  'accha', 'achha', 'acha', 'acchi', 'achhi', 'acche', 'achhe', 'badhiya', 'sasta', 'sasti', 'saste',
+  'mehenga', 'mehnga', 'mehngi', 'wala', 'wali', 'wale', 'batao', 'bataiye', 'dikhao', 'dikhaiye', 'lena',
+  'chalti', 'chalta', 'kaunsa', 'konsa', 'kaun', 'tak', 'andar', 'liye', 'bhai', 'yaar', 'thoda', 'zyada',
+  'jyada', 'kuch', 'hazaar', 'hazar', 'behtar', 'daam', 'keemat', 'kimat', 'karo', 'karna', 'dena', 'hoga',
+]);
+
+// Function words that mark a message as English
+const ENGLISH_WORDS = new Set([
+  'the', 'is', 'are', 'was', 'a', 'an', 'i', 'me', 'my', 'want', 'need', 'what', 'which', 'how', 'with', 'for',
+  'and', 'or', 'can', 'could', 'you', 'your', 'please', 'show', 'tell', 'about', 'under', 'between', 'looking',
+  'should', 'does', 'do', 'it', 'this', 'that', 'than', 'of', 'to', 'in', 'on', 'any', 'some', 'recommend',
+  'suggest', 'help', 'pick', 'worth', 'look', 'good', 'great',
+]);
+
+// Devanagari words mapped to the English keyword, or the romanized Hindi
+// word, that keyword and budget matching expect. Multi-word entries first.
+const DEVANAGARI_TERMS: Array<[string, string]> = [
+  ['सबसे अच्छा', 'best'], ['सबसे अच्छे', 'best'], ['सबसे अच्छी', 'best'],
+  ['के अंदर', 'ke andar'], ['के नीचे', 'ke neeche'], ['से कम', 'se kam'], ['से ज़्यादा', 'se zyada'],
+  ['से ज्यादा', 'se zyada'], ['से ऊपर', 'se upar'], ['के लिए', 'for'], ['कौन सा', 'kaunsa'],
+  ['अच्छा', 'good'], ['अच्छी', 'good'], ['अच्छे', 'good'], ['बढ़िया', 'good'], ['बेहतर', 'better'],
+  ['सस्ता', 'cheap'], ['सस्ती', 'cheap'], ['सस्ते', 'cheap'], ['महंगा', 'expensive'], ['महँगा', 'expensive'],
+  ['कैमरा', 'camera'], ['कैमरे', 'camera'], ['फोटो', 'photo'], ['बैटरी', 'battery'], ['चार्जिंग', 'charging'],
+  ['फोन', 'phone'], ['फ़ोन', 'phone'], ['मोबाइल', 'phone'], ['गेमिंग', 'gaming'], ['गेम', 'gaming'],
+  ['परफॉर्मेंस', 'performance'], ['डिस्प्ले', 'display'], ['स्क्रीन', 'display'], ['कीमत', 'price'],
+  ['दाम', 'price'], ['प्राइस', 'price'], ['तुलना', 'compare'], ['बजट', 'budget'], ['सुझाव', 'suggest'],
+  ['सैमसंग', 'Samsung'], ['गैलेक्सी', 'Galaxy'], ['एप्पल', 'Apple'], ['ऐप्पल', 'Apple'], ['आईफोन', 'iPhone'],
+  ['आईफ़ोन', 'iPhone'], ['वनप्लस', 'OnePlus'], ['शाओमी', 'Xiaomi'], ['श्याओमी', 'Xiaomi'], ['रेडमी', 'Redmi'],
+  ['रियलमी', 'Realme'], ['वीवो', 'Vivo'], ['विवो', 'Vivo'], ['ओप्पो', 'Oppo'], ['गूगल', 'Google'],
+  ['पिक्सल', 'Pixel'], ['पिक्सेल', 'Pixel'], ['नथिंग', 'Nothing'], ['मोटोरोला', 'Motorola'],
+  ['मुझे', 'mujhe'], ['चाहिए', 'chahiye'], ['बताओ', 'batao'], ['बताइए', 'batao'], ['दिखाओ', 'dikhao'],
+  ['वाला', 'wala'], ['वाली', 'wali'], ['कौनसा', 'kaunsa'], ['तक', 'tak'], ['और', 'aur'], ['या', 'ya'],
+  ['है', 'hai'], ['का', 'ka'], ['की', 'ki'], ['के', 'ke'], ['में', 'mein'], ['से', 'se'],
+  ['हज़ार', 'hazaar'], ['हजार', 'hazaar'], ['लाख', 'lakh'], ['डेढ़', 'dedh'], ['ढाई', 'dhai'],
+  ['एक', 'ek'], ['दो', 'do'], ['तीन', 'teen'], ['चार', 'char'], ['पांच', 'paanch'], ['पाँच', 'paanch'],
+  ['दस', 'das'], ['पंद्रह', 'pandrah'], ['बीस', 'bees'], ['पच्चीस', 'pachchees'], ['तीस', 'tees'],
+  ['पैंतीस', 'paintees'], ['चालीस', 'chalees'], ['पचास', 'pachaas'], ['साठ', 'saath'], ['सत्तर', 'sattar'],
+  ['अस्सी', 'assi'], ['नब्बे', 'nabbe'],
+];
+
+// Romanized Hindi content words rewritten to the English keyword
+const HINGLISH_TERMS: Array<[RegExp, string]> = [
+  [/\bsabse (?:acc?hh?[aei]|badh?iya)\b/gi, 'best'],
+  [/\b(?:acc?hh?[aei]|badh?iya)\b/gi, 'good'],
+  [/\bsast[aei]\b/gi, 'cheap'],
+  [/\bmehe?ng[aei]\b/gi, 'expensive'],
+  [/\bbehtar\b/gi, 'better'],
+  [/\b(?:daam|keemat|kimm?at)\b/gi, 'price'],
+  [/\b(?:tulna|muqabla|mukabla)\b/gi, 'compare'],
+  [/\b(?:bataa?o|bataiye|dikhaa?o|dikhaiye)\b/gi, 'show'],
+  [/\bke liye\b/gi, 'for'],
+];
+
+// Hindi number words as used with hazaar and lakh
+const NUMBER_WORDS: Record<string, number> = {
+  ek: 1, do: 2, teen: 3, char: 4, chaar: 4, paanch: 5, panch: 5, chhe: 6, saat: 7, aath: 8, nau: 9,
+  das: 10, pandrah: 15, bees: 20, pachees: 25, pachchees: 25, pachis: 25, tees: 30, paintees: 35,
+  chalees: 40, chaalis: 40, chalis: 40, pachaas: 50, pachas: 50, saath: 60, sattar: 70, assi: 80,
+  nabbe: 90, dedh: 1.5, dhai: 2.5, dhaai: 2.5,
+};
+
+const SCALES: Record<string, number> = {
+  k: 1000, thousand: 1000, hazaar: 1000, hazar: 1000, hajar: 1000, hajaar: 1000,
+  lakh: 100000, lakhs: 100000, lac: 100000, lacs: 100000,
+};
+
+const SCALED_AMOUNT = new RegExp(
+  `\\b(\\d+(?:\\.\\d+)?|${Object.keys(NUMBER_WORDS).join('|')})\\s*(${Object.keys(SCALES).join('|')})\\b`,
+  'gi'
+);
+
+// Rupee amounts, with the currency marker optional
+const AMOUNT = /(?:₹\s?|\brs\.?\s?|\binr\s?)?(\d[\d,]*(?:\.\d+)?)/gi;
+
+// Units that make a number a spec rather than a price
+const SPEC_UNIT = /^\s*(?:gb|tb|mp|mah|hz|w\b|mm|inch|"|%|\/)/i;
+
+const MAX_BEFORE = /\b(?:under|below|within|up ?to|less than|max(?:imum)?|budget(?: of| is)?)\s*$/i;
+const MAX_AFTER = /^\s*(?:tak|ke andar|ke neeche|ke niche|se kam|or less|max|k[aei] (?:phone|mobile)|wal[aei])\b/i;
+const MIN_BEFORE = /\b(?:above|over|more than|at least|min(?:imum)?|from)\s*$/i;
+const MIN_AFTER = /^\s*(?:se zyada|se jyada|se upar|ke upar|or more|plus\b|\+)/i;
+const RANGE_JOIN = /^\s*(?:-|–|to|and|se|aur)\s*$/i;
+
+// Smallest number read as a phone budget
+const MIN_BUDGET = 1000;
+
+const DEVANAGARI_PATTERNS = DEVANAGARI_TERMS
+  .map(([term, replacement]) => [term.normalize('NFC'), replacement] as const)
+  .sort((a, b) => b[0].length - a[0].length)
+  .map(([term, replacement]) => [new RegExp(`(?<![\\p{L}\\p{M}])${term}(?![\\p{L}\\p{M}])`, 'gu'), replacement] as const);
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Detect whether a message is English, Hindi in Devanagari or Hinglish
+ * Any Devanagari makes it Hindi. Latin text is Hinglish when it has at least
+ * as many romanized Hindi words as English function words. Messages with
+ * neither, such as a bare model name, keep the `previous` locale.
+ */
+export function detectLanguage(text: string, previous?: ChatLocale): LanguageDetection {
+  const devanagari = (text.match(/[ऀ-ॿ]/g) || []).length;
+  const latin = (text.match(/[a-z]/gi) || []).length;
+
+  if (devanagari > 0) {
+    return {
+      locale: 'hi',
+      script: latin > 0 ? 'mixed' : 'devanagari',
+      confidence: round(0.5 + 0.5 * devanagari / (devanagari + latin)),
+    };
+  }
+
+  const words = text.toLowerCase().match(/[a-z]+/g) || [];
+  const hinglish = words.filter(word => HINGLISH_WORDS.has(word)).length;
+  const english = words.filter(word => ENGLISH_WORDS.has(word)).length;
+
+  if (hinglish === 0 && english === 0) {
+    return { locale: previous ?? 'en', script: 'latin', confidence: 0.3 };
+  }
+
+  return {
+    locale: hinglish > 0 && hinglish >= english ? 'hi-Latn' : 'en',
+    script: 'latin',
+    confidence: round(Math.max(hinglish, english) / (hinglish + english)),
+  };
+}
+
+/**
+ * Rewrite amounts like "30k", "30 hazaar", "tees hazaar" or "1.5 lakh" as
+ * plain numbers
+ */
+function normalizeAmounts(text: string): string {
+  return text.replace(SCALED_AMOUNT, (match, amount: string, scale: string) => {
+    const base = NUMBER_WORDS[amount.toLowerCase()] ?? parseFloat(amount);
+    const multiplier = SCALES[scale.toLowerCase()];
+
+    // "4k" and "8k" are video resolutions, not prices
+    if (scale.toLowerCase() === 'k' && base < 10) {
+      return match;
+    }
+
+    return String(Math.round(base * multiplier));
+  });
+}
+
+/**
+ * Normalize a message for English keyword matching
+ * Devanagari digits become ASCII, known Devanagari and romanized Hindi words
+ * become their English keyword, and Indian amounts become plain numbers.
+ * Hindi postpositions used in budgets ("tak", "ke andar", "se kam") are kept
+ * in romanized form for `extractBudget`. Case is preserved.
+ */
+export function normalizeMessage(text: string): string {
+  let normalized = text
+    .normalize('NFC')
+    .replace(/[०-९]/g, digit => String(digit.charCodeAt(0) - 0x0966));
+
+  for (const [pattern, replacement] of DEVANAGARI_PATTERNS) {
+    normalized = normalized.replace(pattern, replacement);
+  }
+
+  for (const [pattern, replacement] of HINGLISH_TERMS) {
+    normalized = normalized.replace(pattern, replacement);
+  }
+
+  return normalizeAmounts(normalized).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Read a rupee amount such as "₹30,000", "30k", "30 hazaar" or "डेढ़ लाख"
+ * Numbers with spec units such as "8GB" are skipped.
+ */
+export function parseIndianAmount(text: string): number | null {
+  const normalized = normalizeMessage(text);
+
+  for (const match of normalized.matchAll(AMOUNT)) {
+    const end = (match.index ?? 0) + match[0].length;
+    if (!SPEC_UNIT.test(normalized.slice(end))) {
+      return parseFloat(match[1].replace(/,/g, ''));
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Extract a budget range from a message in English, Hinglish or Hindi
+ * e.g. "under 30k", "50000 tak", "30 hazaar ke andar", "between 20,000 and
+ * 25,000", "20k se 25k". Numbers with spec units and small numbers are not
+ * read as budgets.
+ */
+export function extractBudget(text: string): BudgetRange | null {
+  const normalized = normalizeMessage(text);
+  const amounts: Array<{ value: number; start: number; end: number }> = [];
+
+  for (const match of normalized.matchAll(AMOUNT)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    const value = parseFloat(match[1].replace(/,/g, ''));
+
+    if (value >= MIN_BUDGET && !SPEC_UNIT.test(normalized.slice(end))) {
+      amounts.push({ value, start, end });
+    }
+  }
+
+  for (let i = 0; i + 1 < amounts.length; i++) {
+    const [low, high] = [amounts[i], amounts[i + 1]];
+    if (RANGE_JOIN.test(normalized.slice(low.end, high.start)) && low.value < high.value) {
+      return { min: low.value, max: high.value };
+    }
+  }
+
+  for (const { value, start, end } of amounts) {
+    const before = normalized.slice(Math.max(0, start - 20), start);
+    const after = normalized.slice(end, end + 20);
+
+    if (MAX_BEFORE.test(before) || MAX_AFTER.test(after)) {
+      return { max: value };
+    }
+    if (MIN_BEFORE.test(before) || MIN_AFTER.test(after)) {
+      return { min: value };
+    }
+  }
+
+  if (amounts.length > 0 && /\bbudget\b/i.test(normalized)) {
+    return { max: amounts[0].value };
+  }
+
+  return null;
+}
@@ -0,0 +1,122 @@
+/**
+ * Checks for outbound URLs that must not reach internal hosts
+ */
+
+// IPv4 ranges that are private, loopback, link-local or otherwise not public
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  // Multicast and reserved
+  ['224.0.0.0', 3],
+];
+
+// Hostnames that resolve to the local machine or network
+const LOCAL_HOSTNAME = /(^|\.)(localhost|local|internal)$/i;
+
+function parseIPv4(address: string): number | null {
+  const match = address.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/);
+  if (!match) {
+    return null;
+  }
+
+  const octets = match.slice(1).map(Number);
+  return octets.some(octet => octet > 255) ? null : octets.reduce((value, octet) => value * 256 + octet, 0);
+}
+
+function parseIPv6(address: string): number[] | null {
+  if (!address.includes(':')) {
+    return null;
+  }
+
+  // Drop the zone ID and turn a trailing dotted IPv4 into two hextets
+  let text = address.replace(/%.*$/, '');
+  const dotted = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const ipv4 = parseIPv4(dotted[1]);
+    if (ipv4 === null) {
+      return null;
+    }
+    text = `${text.slice(0, -dotted[1].length)}${Math.floor(ipv4 / 0x10000).toString(16)}:${(ipv4 % 0x10000).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) {
+    return null;
+  }
+
+  const toHextets = (part: string) => part
+    ? part.split(':').map(hextet => /^[0-9a-f]{1,4}$/i.test(hextet) ? parseInt(hextet, 16) : NaN)
+    : [];
+  const head = toHextets(halves[0]);
+  const tail = halves.length === 2 ? toHextets(halves[1]) : [];
+  const missing = 8 - head.length - tail.length;
+
+  if (halves.length === 2 ? missing < 1 : missing !== 0) {
+    return null;
+  }
+
+  const hextets = [...head, ...new Array<number>(halves.length === 2 ? missing : 0).fill(0), ...tail];
+  return hextets.some(Number.isNaN) ? null : hextets;
+}
+
+/**
+ * Whether an IP address is private, loopback, link-local or otherwise not
+ * publicly routable; host names and malformed input return false
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ipv4 = parseIPv4(address);
+  if (ipv4 !== null) {
+    return BLOCKED_IPV4_RANGES.some(([base, bits]) => {
+      const size = 2 ** (32 - bits);
+      return Math.floor(ipv4 / size) === Math.floor(parseIPv4(base)! / size);
+    });
+  }
+
+  const ipv6 = parseIPv6(address);
+  if (!ipv6) {
+    return false;
+  }
+
+  const zeroPrefix = (length: number) => ipv6.slice(0, length).every(hextet => hextet === 0);
+
+  // Unspecified and loopback
+  if (zeroPrefix(7) && ipv6[7] <= 1) {
+    return true;
+  }
+  // IPv4-mapped addresses take the IPv4 rules
+  if (zeroPrefix(5) && ipv6[5] === 0xffff) {
+    return isPrivateAddress(`${ipv6[6] >> 8}.${ipv6[6] & 0xff}.${ipv6[7] >> 8}.${ipv6[7] & 0xff}`);
+  }
+  // Unique local (fc00::/7), link-local (fe80::/10) and multicast (ff00::/8)
+  return (ipv6[0] & 0xfe00) === 0xfc00 || (ipv6[0] & 0xffc0) === 0xfe80 || (ipv6[0] & 0xff00) === 0xff00;
+}
+
+/**
+ * Host name of a URL without IPv6 brackets or a trailing dot
+ */
+export function getUrlHost(url: URL): string {
+  return url.hostname.replace(/^\[|\]$/g, '').replace(/\.$/, '');
+}
+
+/**
+ * Whether a URL is https and does not name a local host or private address
+ * Host names still need resolving before a request is sent.
+ */
+export function isPublicHttpsUrl(value: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+
+  const host = getUrlHost(url);
+  return url.protocol === 'https:' && !LOCAL_HOSTNAME.test(host) && !isPrivateAddress(host);
+}
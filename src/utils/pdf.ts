@@ -0,0 +1,296 @@
+/**
+ * Minimal PDF writer
+ *
+ * Produces text-and-vector PDF 1.4 documents using the standard Helvetica
+ * fonts, so no fonts or images need embedding and it runs in the browser as
+ * well as on the server. Coordinates are in points from the top-left corner.
+ */
+
+export type PdfFont = 'regular' | 'bold';
+
+// RGB components between 0 and 1
+export type PdfColor = [number, number, number];
+
+export interface PdfTextOptions {
+  size?: number;
+  font?: PdfFont;
+  color?: PdfColor;
+}
+
+export interface PdfDocumentInfo {
+  title?: string;
+  author?: string;
+  subject?: string;
+  creationDate?: Date;
+}
+
+// A4 portrait, in points
+export const PDF_PAGE_WIDTH = 595.28;
+export const PDF_PAGE_HEIGHT = 841.89;
+
+const FONT_RESOURCES: Record<PdfFont, { name: string; baseFont: string }> = {
+  regular: { name: 'F1', baseFont: 'Helvetica' },
+  bold: { name: 'F2', baseFont: 'Helvetica-Bold' },
+};
+
+// Glyph widths (1/1000 em) for ASCII 32-126, from the Adobe core font metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Characters outside Latin-1 that WinAnsiEncoding places in 0x80-0x9F
+const WIN_ANSI_EXTRAS: Record<string, { code: number; width: number }> = {
+  '€': { code: 0x80, width: 556 }, // euro
+  '…': { code: 0x85, width: 1000 }, // ellipsis
+  '‘': { code: 0x91, width: 222 },
+  '’': { code: 0x92, width: 222 },
+  '“': { code: 0x93, width: 333 },
+  '”': { code: 0x94, width: 333 },
+  '•': { code: 0x95, width: 350 }, // bullet
+  '–': { code: 0x96, width: 556 }, // en dash
+  '—': { code: 0x97, width: 1000 }, // em dash
+};
+
+// Common characters the standard fonts cannot draw
+const TEXT_REPLACEMENTS: Record<string, string> = {
+  '₹': 'Rs. ', // rupee sign
+  '−': '-', // minus sign
+};
+
+/**
+ * Replace characters the standard fonts cannot draw
+ */
+export function toPdfText(text: string): string {
+  let result = '';
+  for (const char of text.replace(/\s+/g, ' ')) {
+    const replacement = TEXT_REPLACEMENTS[char];
+    if (replacement !== undefined) {
+      result += replacement;
+    } else if (char.charCodeAt(0) <= 0xff || WIN_ANSI_EXTRAS[char]) {
+      result += char;
+    } else {
+      result += '?';
+    }
+  }
+  return result;
+}
+
+/**
+ * Width of text in points once drawn
+ */
+export function measureText(text: string, size: number, font: PdfFont = 'regular'): number {
+  const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let units = 0;
+
+  for (const char of toPdfText(text)) {
+    const code = char.charCodeAt(0);
+    if (code >= 32 && code <= 126) {
+      units += widths[code - 32];
+    } else {
+      units += WIN_ANSI_EXTRAS[char]?.width ?? 556;
+    }
+  }
+
+  return (units * size) / 1000;
+}
+
+/**
+ * Break text into lines no wider than maxWidth; words longer than a line are split
+ */
+export function wrapText(text: string, maxWidth: number, size: number, font: PdfFont = 'regular'): string[] {
+  const words = toPdfText(text).trim().split(' ').filter(Boolean);
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of words) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (measureText(candidate, size, font) <= maxWidth) {
+      line = candidate;
+      continue;
+    }
+
+    if (line) lines.push(line);
+    line = word;
+
+    while (measureText(line, size, font) > maxWidth && line.length > 1) {
+      let cut = line.length - 1;
+      while (cut > 1 && measureText(line.slice(0, cut), size, font) > maxWidth) cut--;
+      lines.push(line.slice(0, cut));
+      line = line.slice(cut);
+    }
+  }
+
+  if (line) lines.push(line);
+  return lines.length > 0 ? lines : [''];
+}
+
+/**
+ * Multi-page PDF document built from text, lines and filled rectangles
+ */
+export class PdfDocument {
+  readonly width = PDF_PAGE_WIDTH;
+  readonly height = PDF_PAGE_HEIGHT;
+  private pages: string[][] = [];
+  private currentPage = -1;
+
+  constructor(private info: PdfDocumentInfo = {}) {}
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  /**
+   * Append a blank page and make it current; returns its index
+   */
+  addPage(): number {
+    this.pages.push([]);
+    this.currentPage = this.pages.length - 1;
+    return this.currentPage;
+  }
+
+  /**
+   * Switch drawing to an existing page, e.g. to add footers afterwards
+   */
+  setPage(index: number): void {
+    if (index < 0 || index >= this.pages.length) {
+      throw new RangeError(`Page ${index} does not exist`);
+    }
+    this.currentPage = index;
+  }
+
+  /**
+   * Draw a single line of text with its baseline at y
+   */
+  text(x: number, y: number, text: string, options: PdfTextOptions = {}): void {
+    const { size = 10, font = 'regular', color = [0, 0, 0] } = options;
+    this.draw(
+      `BT /${FONT_RESOURCES[font].name} ${num(size)} Tf ${rgb(color)} rg ` +
+      `${num(x)} ${num(this.height - y)} Td (${encodeText(toPdfText(text))}) Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color: PdfColor = [0, 0, 0], width = 0.5): void {
+    this.draw(
+      `${rgb(color)} RG ${num(width)} w ${num(x1)} ${num(this.height - y1)} m ` +
+      `${num(x2)} ${num(this.height - y2)} l S`
+    );
+  }
+
+  /**
+   * Fill a rectangle whose top-left corner is at (x, y)
+   */
+  rect(x: number, y: number, width: number, height: number, fill: PdfColor): void {
+    this.draw(`${rgb(fill)} rg ${num(x)} ${num(this.height - y - height)} ${num(width)} ${num(height)} re f`);
+  }
+
+  /**
+   * Serialize the document; the output is 7-bit ASCII
+   */
+  toBytes(): Uint8Array<ArrayBuffer> {
+    if (this.pages.length === 0) {
+      this.addPage();
+    }
+
+    const objects: string[] = [];
+    const reserve = () => objects.push('');
+    const catalogId = reserve();
+    const pagesId = reserve();
+    const fontIds = Object.values(FONT_RESOURCES).map(({ baseFont }) => objects.push(
+      `<< /Type /Font /Subtype /Type1 /BaseFont /${baseFont} /Encoding /WinAnsiEncoding >>`
+    ));
+    const fonts = Object.values(FONT_RESOURCES)
+      .map(({ name }, index) => `/${name} ${fontIds[index]} 0 R`)
+      .join(' ');
+
+    const pageIds = this.pages.map(operations => {
+      const content = operations.join('\n');
+      const contentId = objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+      return objects.push(
+        `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${num(this.width)} ${num(this.height)}] ` +
+        `/Resources << /Font << ${fonts} >> >> /Contents ${contentId} 0 R >>`
+      );
+    });
+
+    objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+    objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+    const infoId = objects.push(this.serializeInfo());
+
+    let output = '%PDF-1.4\n';
+    const offsets = objects.map((object, index) => {
+      const offset = output.length;
+      output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+      return offset;
+    });
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    output += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\n`;
+    output += `startxref\n${xrefOffset}\n%%EOF\n`;
+
+    const bytes = new Uint8Array(output.length);
+    for (let i = 0; i < output.length; i++) {
+      bytes[i] = output.charCodeAt(i);
+    }
+    return bytes;
+  }
+
+  private draw(operation: string): void {
+    if (this.currentPage < 0) {
+      this.addPage();
+    }
+    this.pages[this.currentPage].push(operation);
+  }
+
+  private serializeInfo(): string {
+    const { title, author, subject, creationDate = new Date() } = this.info;
+    const entries = [
+      title && `/Title (${encodeText(toPdfText(title))})`,
+      author && `/Author (${encodeText(toPdfText(author))})`,
+      subject && `/Subject (${encodeText(toPdfText(subject))})`,
+      `/Producer (MobileMatrix)`,
+      `/CreationDate (D:${creationDate.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z)`,
+    ];
+    return `<< ${entries.filter(Boolean).join(' ')} >>`;
+  }
+}
+
+/**
+ * Escape a string literal, writing non-ASCII WinAnsi bytes as octal escapes
+ */
+function encodeText(text: string): string {
+  let encoded = '';
+  for (const char of text) {
+    const code = WIN_ANSI_EXTRAS[char]?.code ?? char.charCodeAt(0);
+    if (char === '\\' || char === '(' || char === ')') {
+      encoded += `\\${char}`;
+    } else if (code < 32 || code > 126) {
+      encoded += `\\${code.toString(8).padStart(3, '0')}`;
+    } else {
+      encoded += char;
+    }
+  }
+  return encoded;
+}
+
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function rgb([r, g, b]: PdfColor): string {
+  return `${num(r)} ${num(g)} ${num(b)}`;
+}
@@ -1,5 +1,6 @@
-import { ChatContext } from '../types/chat.js';
+import { ChatContext, ChatLocale, ChatMessage, ConversationSummary } from '../types/chat.js';
 import { Phone } from '../types/phone.js';
+import { detectLanguage, normalizeMessage } from './language.js';
 
 /**
  * Prompt templates for AI service interactions
@@ -131,10 +132,57 @@ Respond with JSON only:
 If no clear phone is mentioned, return all null values.`;
   }
 
+  /**
+   * Rolling summary prompt for turns leaving the prompt window
+   */
+  static conversationSummary(previous: ConversationSummary | undefined, messages: ChatMessage[]): string {
+    const transcript = messages.map(msg => `${msg.role}: ${msg.content}`).join('\n');
+
+    return `Update the running summary of a phone shopping conversation with the turns below.
+
+Current summary: ${previous?.text || 'None yet'}
+Known preferences: ${previous?.preferences ? JSON.stringify(previous.preferences) : 'None'}
+Phones already rejected: ${previous?.rejectedPhones.join(', ') || 'None'}
+
+New turns:
+${transcript}
+
+Keep everything later turns may depend on: budget, priorities, usage, phones shortlisted and phones the user turned down, with the reason.
+
+Respond with JSON only:
+{
+  "summary": "Short third-person summary of the whole conversation so far",
+  "preferences": {
+    "budget": { "min": number or null, "max": number or null },
+    "priorities": ["camera" | "battery" | "performance" | "display" | "price"],
+    "usage": "gaming" | "photography" | "business" | "casual" or null
+  },
+  "rejectedPhones": ["Brand Model", ...]
+}
+
+Leave out preferences the user never stated.`;
+  }
+
+  /**
+   * Instruction telling the model which language and script to reply in
+   */
+  static replyLanguage(locale: ChatLocale): string {
+    switch (locale) {
+      case 'hi':
+        return 'The user writes in Hindi. Reply in Hindi using Devanagari script, keeping phone names, brands and spec units (GB, mAh, MP) in English.';
+      case 'hi-Latn':
+        return 'The user writes in Hinglish (Hindi in Latin script mixed with English). Reply in the same Hinglish style using Latin script, not Devanagari, keeping phone names and spec units in English.';
+      default:
+        return 'Reply in English.';
+    }
+  }
+
   /**
    * Context-aware conversation prompt
    */
   static contextualResponse(userMessage: string, context: ChatContext): string {
+    const locale = context.locale ?? detectLanguage(userMessage).locale;
+
     // Keep it simple and direct
     return `You are MobileMatrix AI, a helpful phone comparison assistant for Indian consumers.
 
@@ -149,6 +197,7 @@ Instructions:
 - If they ask about recommendations, suggest specific phones with reasons
 - If they mention budget, focus on phones in that price range
 - If they ask about features (camera, battery, gaming), provide feature-specific advice
+- ${PromptTemplates.replyLanguage(locale)}
 
 Respond naturally and conversationally. Do not use generic responses.`;
   }
@@ -156,12 +205,15 @@ Respond naturally and conversationally. Do not use generic responses.`;
   /**
    * Analyze user message for intent and content
    */
-  private static analyzeUserMessage(message: string): {
+  private static analyzeUserMessage(rawMessage: string): {
     intent: string;
     brands: string[];
     models: string[];
     questionType: string;
+    locale: ChatLocale;
   } {
+    // Match Hindi and Hinglish messages against the English keywords below
+    const message = normalizeMessage(rawMessage);
     const lowerMessage = message.toLowerCase();
     
     // Detect brands
@@ -201,7 +253,7 @@ Respond naturally and conversationally. Do not use generic responses.`;
     let intent = 'general';
     if (/\b(compare|comparison|vs|versus|difference)\b/i.test(lowerMessage)) {
       intent = 'comparison';
-    } else if (/\b(recommend|suggest|best|good)\b/i.test(lowerMessage)) {
+    } else if (/\b(recommend|suggest|best|good|cheap)\b/i.test(lowerMessage)) {
       intent = 'recommendation';
     } else if (/\b(price|cost|budget)\b/i.test(lowerMessage)) {
       intent = 'pricing';
@@ -225,7 +277,7 @@ Respond naturally and conversationally. Do not use generic responses.`;
       questionType = 'help_request';
     }
     
-    return { intent, brands, models, questionType };
+    return { intent, brands, models, questionType, locale: detectLanguage(rawMessage).locale };
   }
 
   /**
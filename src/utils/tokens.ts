@@ -0,0 +1,34 @@
+/**
+ * Token counting for prompt budgets
+ */
+
+import { Tiktoken } from 'js-tiktoken/lite';
+import cl100kBase from 'js-tiktoken/ranks/cl100k_base';
+
+// Tokens a chat message costs beyond its content (role and separators)
+export const MESSAGE_TOKEN_OVERHEAD = 4;
+
+let encoder: Tiktoken | null = null;
+
+/**
+ * Count tokens in text with the cl100k_base vocabulary
+ * Gemini and Claude use their own vocabularies, so counts are close rather
+ * than exact for them; the encoder is built on first use.
+ */
+export function countTokens(text: string): number {
+  if (!text) {
+    return 0;
+  }
+
+  encoder ??= new Tiktoken(cl100kBase);
+
+  // User text may contain special-token markers; count them as plain text
+  return encoder.encode(text, [], []).length;
+}
+
+/**
+ * Count tokens across chat messages, including per-message overhead
+ */
+export function countMessageTokens(messages: Array<{ content: string }>): number {
+  return messages.reduce((total, message) => total + countTokens(message.content) + MESSAGE_TOKEN_OVERHEAD, 0);
+}